@@ -10,6 +10,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import React, { Suspense } from "react";
 import { AuthProvider } from "./hooks/useAuth";
 import { NotificationProvider } from "./hooks/useNotifications";
+import { BrandProvider } from "./hooks/useBrand";
 import { useServiceStatus } from "./hooks/useServiceStatus";
 import {
   AuthProtectedRoute,
@@ -31,6 +32,8 @@ const TermsConditions = React.lazy(() => import("./pages/TermsConditions"));
 const Login = React.lazy(() => import("./pages/Login"));
 const Register = React.lazy(() => import("./pages/Register"));
 const VerifyEmail = React.lazy(() => import("./pages/VerifyEmail"));
+const ForgotPassword = React.lazy(() => import("./pages/ForgotPassword"));
+const ResetPassword = React.lazy(() => import("./pages/ResetPassword"));
 const GuestBookingLookup = React.lazy(
   () => import("./pages/GuestBookingLookup"),
 );
@@ -45,6 +48,7 @@ const PaymentSuccess = React.lazy(() => import("./pages/PaymentSuccess"));
 const PaymentCancel = React.lazy(() => import("./pages/PaymentCancel"));
 const CacheReset = React.lazy(() => import("./pages/CacheReset"));
 const TicketSample = React.lazy(() => import("./pages/TicketSample"));
+const VerifyTicket = React.lazy(() => import("./pages/VerifyTicket"));
 
 const queryClient = new QueryClient();
 
@@ -62,110 +66,119 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <AuthProvider>
-        <NotificationProvider>
-          {/* <ServiceStatusMonitor /> */}
-          <PerformanceOptimizer />
-          <Toaster />
-          <Sonner />
-          <BrowserRouter
-      future={{
-        v7_startTransition: true,
-        v7_relativeSplatPath: true,
-      }}
-    >
-            <DashboardButton />
-            <Suspense
-              fallback={
-                <div className="flex h-screen items-center justify-center">
-                  <div className="text-lg">Loading...</div>
-                </div>
-              }
-            >
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/userform" element={<UserFormPage />} />
-                <Route
-                  path="/userform/route"
-                  element={<UserFormPage step="route" />}
-                />
-                <Route
-                  path="/userform/passengers"
-                  element={<UserFormPage step="passengers" />}
-                />
-                <Route
-                  path="/userform/confirmation"
-                  element={<UserFormPage step="confirmation" />}
-                />
-                <Route
-                  path="/userform/search"
-                  element={<UserFormPage step="search" />}
-                />
-                <Route
-                  path="/userform/thankyou"
-                  element={<UserFormPage step="thankyou" />}
-                />
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
-                <Route path="/verify-email" element={<VerifyEmail />} />
+      <BrandProvider>
+        <AuthProvider>
+          <NotificationProvider>
+            {/* <ServiceStatusMonitor /> */}
+            <PerformanceOptimizer />
+            <Toaster />
+            <Sonner />
+            <BrowserRouter
+        future={{
+          v7_startTransition: true,
+          v7_relativeSplatPath: true,
+        }}
+      >
+              <DashboardButton />
+              <Suspense
+                fallback={
+                  <div className="flex h-screen items-center justify-center">
+                    <div className="text-lg">Loading...</div>
+                  </div>
+                }
+              >
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/userform" element={<UserFormPage />} />
+                  <Route
+                    path="/userform/route"
+                    element={<UserFormPage step="route" />}
+                  />
+                  <Route
+                    path="/userform/passengers"
+                    element={<UserFormPage step="passengers" />}
+                  />
+                  <Route
+                    path="/userform/seats"
+                    element={<UserFormPage step="seats" />}
+                  />
+                  <Route
+                    path="/userform/confirmation"
+                    element={<UserFormPage step="confirmation" />}
+                  />
+                  <Route
+                    path="/userform/search"
+                    element={<UserFormPage step="search" />}
+                  />
+                  <Route
+                    path="/userform/thankyou"
+                    element={<UserFormPage step="thankyou" />}
+                  />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
 
-                {/* Guest booking routes */}
-                <Route
-                  path="/guest-booking-lookup"
-                  element={<GuestBookingLookup />}
-                />
-                <Route
-                  path="/guest-booking/:pnr"
-                  element={<GuestBookingDetails />}
-                />
-                <Route
-                  path="/dashboard"
-                  element={
-                    <AuthProtectedRoute>
-                      <Dashboard />
-                    </AuthProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/booking-history"
-                  element={
-                    <AuthProtectedRoute>
-                      <BookingHistory />
-                    </AuthProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/support-tickets"
-                  element={
-                    <AuthProtectedRoute>
-                      <SupportTickets />
-                    </AuthProtectedRoute>
-                  }
-                />
-                <Route
-                  path="/admin"
-                  element={
-                    <AdminProtectedRoute>
-                      <AdminDashboard />
-                    </AdminProtectedRoute>
-                  }
-                />
-                <Route path="/payment/success" element={<PaymentSuccess />} />
-                <Route path="/payment/cancel" element={<PaymentCancel />} />
-                <Route path="/about" element={<About />} />
-                <Route path="/contact" element={<Contact />} />
-                <Route path="/faq" element={<Faq />} />
-                <Route path="/payment" element={<Payment />} />
-                <Route path="/ticket-sample" element={<TicketSample />} />
-                <Route path="/privacy-policy" element={<PrivacyPolicy />} />
-                <Route path="/terms-conditions" element={<TermsConditions />} />
-                <Route path="/cache-reset" element={<CacheReset />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </Suspense>
-          </BrowserRouter>
-        </NotificationProvider>
-      </AuthProvider>
+                  {/* Guest booking routes */}
+                  <Route
+                    path="/guest-booking-lookup"
+                    element={<GuestBookingLookup />}
+                  />
+                  <Route
+                    path="/guest-booking/:pnr"
+                    element={<GuestBookingDetails />}
+                  />
+                  <Route
+                    path="/dashboard"
+                    element={
+                      <AuthProtectedRoute>
+                        <Dashboard />
+                      </AuthProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/booking-history"
+                    element={
+                      <AuthProtectedRoute>
+                        <BookingHistory />
+                      </AuthProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/support-tickets"
+                    element={
+                      <AuthProtectedRoute>
+                        <SupportTickets />
+                      </AuthProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin"
+                    element={
+                      <AdminProtectedRoute>
+                        <AdminDashboard />
+                      </AdminProtectedRoute>
+                    }
+                  />
+                  <Route path="/payment/success" element={<PaymentSuccess />} />
+                  <Route path="/payment/cancel" element={<PaymentCancel />} />
+                  <Route path="/about" element={<About />} />
+                  <Route path="/contact" element={<Contact />} />
+                  <Route path="/faq" element={<Faq />} />
+                  <Route path="/payment" element={<Payment />} />
+                  <Route path="/ticket-sample" element={<TicketSample />} />
+                  <Route path="/verify/:token" element={<VerifyTicket />} />
+                  <Route path="/privacy-policy" element={<PrivacyPolicy />} />
+                  <Route path="/terms-conditions" element={<TermsConditions />} />
+                  <Route path="/cache-reset" element={<CacheReset />} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </Suspense>
+            </BrowserRouter>
+          </NotificationProvider>
+        </AuthProvider>
+      </BrandProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { Clock, ShieldCheck, User, Cpu } from "lucide-react";
+import { BookingEvent, BookingHistoryResponse } from "@shared/api";
+import { useAuthenticatedFetch } from "../hooks/useAuth";
+
+interface BookingTimelineProps {
+  bookingId: string;
+  // Bump to reload the history after a status change
+  refreshKey?: number;
+  onHistoryLoaded?: (history: BookingHistoryResponse) => void;
+  className?: string;
+}
+
+const statusLabel = (status: string | null) =>
+  status ? status.charAt(0).toUpperCase() + status.slice(1) : "New";
+
+const actorIcon = (actorType: BookingEvent["actorType"]) => {
+  switch (actorType) {
+    case "admin":
+      return <ShieldCheck className="w-4 h-4 text-[#3839C9]" />;
+    case "system":
+      return <Cpu className="w-4 h-4 text-[#637996]" />;
+    default:
+      return <User className="w-4 h-4 text-[#637996]" />;
+  }
+};
+
+const actorLabel = (actorType: BookingEvent["actorType"]) => {
+  switch (actorType) {
+    case "admin":
+      return "Admin";
+    case "system":
+      return "System";
+    default:
+      return "Customer";
+  }
+};
+
+const BookingTimeline: React.FC<BookingTimelineProps> = ({
+  bookingId,
+  refreshKey = 0,
+  onHistoryLoaded,
+  className = "",
+}) => {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await authenticatedFetch(
+          `/api/bookings/${bookingId}/history`,
+        );
+        const data: BookingHistoryResponse = await response.json();
+
+        if (response.ok && data.success) {
+          setEvents(data.events || []);
+          setError(null);
+          onHistoryLoaded?.(data);
+        } else {
+          setError(data.message || "Failed to load booking history");
+        }
+      } catch (err) {
+        console.error("Error fetching booking history:", err);
+        setError("Failed to load booking history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [bookingId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div
+        className={`flex items-center gap-2 text-sm text-[#637996] ${className}`}
+      >
+        <Clock className="w-4 h-4 animate-pulse" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className={`text-sm text-red-600 ${className}`}>{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className={`text-sm text-[#637996] ${className}`}>
+        No status changes recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className={`relative border-l border-[#E7E9FF] ml-2 ${className}`}>
+      {events.map((event) => (
+        <li key={event.id} className="mb-4 ml-6 last:mb-0">
+          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full border border-[#E7E9FF]">
+            {actorIcon(event.actorType)}
+          </span>
+          <p className="text-sm font-semibold text-[#20242A]">
+            {statusLabel(event.fromStatus)} → {statusLabel(event.toStatus)}
+          </p>
+          <p className="text-xs text-[#637996]">
+            {actorLabel(event.actorType)} ·{" "}
+            {new Date(event.createdAt).toLocaleString()}
+          </p>
+          {event.reason && (
+            <p className="text-xs text-[#A2A2A2] mt-1">{event.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default BookingTimeline;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { Calendar, Copy, RefreshCw } from "lucide-react";
+import { useAuthenticatedFetch } from "../hooks/useAuth";
+import { fetchCalendarFeedUrl } from "@/lib/tickets";
+
+/**
+ * Secret calendar feed with all of the user's flights, for subscribing from
+ * Google Calendar, Apple Calendar or Outlook
+ */
+const CalendarFeedCard: React.FC = () => {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [feedUrl, setFeedUrl] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadFeedUrl = async (reset = false) => {
+    if (
+      reset &&
+      !window.confirm(
+        "Calendars subscribed to the current link will stop updating. Create a new link?",
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      setFeedUrl(await fetchCalendarFeedUrl(authenticatedFetch, reset));
+      setCopied(false);
+    } catch (err) {
+      console.error("Error loading calendar feed:", err);
+      setError("Could not load your calendar link. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error("Error copying calendar link:", err);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <h2 className="text-2xl font-bold text-[#20242A] mb-2">Calendar Sync</h2>
+      <p className="text-[#637996] mb-6">
+        Subscribe to your flights in your calendar app. New bookings and
+        cancellations show up automatically. Keep this link private.
+      </p>
+
+      {feedUrl ? (
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(event) => event.target.select()}
+              className="flex-1 px-4 py-2 border border-gray-200 rounded-lg text-sm text-[#20242A] bg-white"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={feedUrl.replace(/^https?:/, "webcal:")}
+              className="flex items-center gap-2 px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Calendar className="w-4 h-4" />
+              Subscribe
+            </a>
+            <button
+              type="button"
+              onClick={() => loadFeedUrl(true)}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              New Link
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => loadFeedUrl()}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Calendar className="w-4 h-4" />
+          {loading ? "Loading..." : "Get Calendar Link"}
+        </button>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CalendarFeedCard;
@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { Mail } from "lucide-react";
+import { useAuth, useAuthenticatedFetch } from "../hooks/useAuth";
+
+/**
+ * Reminder to verify the email address, with a button to send the link
+ * again. Renders nothing once the address is verified.
+ */
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState("");
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const response = await authenticatedFetch("/api/email/verify/resend", {
+        method: "POST",
+      });
+      const data = await response.json();
+      setMessage(
+        data.success
+          ? `We sent a new link to ${user.email}.`
+          : data.message || "Could not send the email. Please try again.",
+      );
+    } catch (err) {
+      console.error("Error resending verification email:", err);
+      setMessage("Could not send the email. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div className="flex items-start gap-3">
+        <Mail className="w-5 h-5 text-yellow-700 mt-0.5 shrink-0" />
+        <div>
+          <p className="text-yellow-800 font-medium">
+            Please verify your email address
+          </p>
+          <p className="text-sm text-yellow-700">
+            {message ||
+              `Follow the link we sent to ${user.email}. Some features need a verified address.`}
+          </p>
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={sending}
+        className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+      >
+        {sending ? "Sending..." : "Resend Email"}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -1,9 +1,11 @@
 import React, { useCallback, memo } from "react";
 import { Instagram } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { useBrand } from "../hooks/useBrand";
 
 const Footer: React.FC = memo(() => {
   const navigate = useNavigate();
+  const brand = useBrand();
 
   const handleLogoClick = useCallback(() => navigate("/"), [navigate]);
   const handleAboutClick = useCallback(() => navigate("/about"), [navigate]);
@@ -34,8 +36,8 @@ const Footer: React.FC = memo(() => {
             <div className="sm:col-span-2 lg:col-span-1 space-y-4">
               <div className="flex items-center">
                 <img
-                  src="/onboard/logos-01.png"
-                  alt="OnboardTicket Logo"
+                  src={brand.logoUrl}
+                  alt={`${brand.name} Logo`}
                   className="h-8 sm:h-10 md:h-12 w-auto object-contain cursor-pointer"
                   loading="lazy"
                   onClick={handleLogoClick}
@@ -43,14 +45,14 @@ const Footer: React.FC = memo(() => {
               </div>
               <div className="space-y-2">
                 <h4 className="font-bold text-gray-900 text-sm sm:text-base md:text-lg">
-                  Onboardticket.com
+                  {new URL(brand.websiteUrl).host}
                 </h4>
                 <p className="text-xs sm:text-sm text-gray-600 font-medium">
-                  © 2025 — Copyright
+                  {brand.legalFooter}
                 </p>
               </div>
               <p className="text-xs sm:text-sm text-gray-600 leading-relaxed max-w-sm">
-                OnboardTicket is committed to upholding the highest standards in
+                {brand.name} is committed to upholding the highest standards in
                 compliance with international civil aviation regulations and
                 ethical booking practices. This includes, but is not limited to,
                 strict avoidance of misuse of booking classes, fraudulent
@@ -112,6 +114,17 @@ const Footer: React.FC = memo(() => {
                 >
                   Contact Support 24/7
                 </li>
+                <li className="text-gray-700 font-medium break-all">
+                  <a
+                    href={`mailto:${brand.supportEmail}`}
+                    className="hover:text-blue-600 transition-colors duration-200"
+                  >
+                    {brand.supportEmail}
+                  </a>
+                  {brand.supportPhone && (
+                    <span className="block">{brand.supportPhone}</span>
+                  )}
+                </li>
               </ul>
             </div>
 
@@ -2,6 +2,7 @@ import React, { useCallback, memo } from "react";
 import { User, LogOut } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
+import { useBrand } from "../hooks/useBrand";
 import MobileNav from "./MobileNav";
 
 interface HeaderProps {
@@ -11,6 +12,7 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = memo(({ handleBookNow }) => {
   const navigate = useNavigate();
   const { user, logout, isAuthenticated } = useAuth();
+  const brand = useBrand();
 
   const defaultHandleBookNow = useCallback(() => {
     // Start with route selection - let users choose to login/register or continue as guest
@@ -43,8 +45,8 @@ const Header: React.FC<HeaderProps> = memo(({ handleBookNow }) => {
           onClick={handleLogoClick}
         >
           <img
-            src="/onboard/logos-01.png"
-            alt="OnboardTicket Logo"
+            src={brand.logoUrl}
+            alt={`${brand.name} Logo`}
             className="h-10 sm:h-12 md:h-16 lg:h-20 w-auto max-w-[180px] sm:max-w-[220px] md:max-w-[260px] lg:max-w-[300px] object-contain drop-shadow-sm"
             loading="eager"
             onClick={handleLogoClick}
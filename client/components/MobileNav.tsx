@@ -2,6 +2,7 @@ import React, { useState, useCallback, memo } from "react";
 import { Menu, X, User, LogOut } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
+import { useBrand } from "../hooks/useBrand";
 
 interface MobileNavProps {
   handleBookNow: () => void;
@@ -11,6 +12,7 @@ const MobileNav: React.FC<MobileNavProps> = memo(({ handleBookNow }) => {
   const [isOpen, setIsOpen] = useState(false);
   const navigate = useNavigate();
   const { user, logout, isAuthenticated } = useAuth();
+  const brand = useBrand();
 
   const closeMenu = useCallback(() => setIsOpen(false), []);
 
@@ -65,8 +67,8 @@ const MobileNav: React.FC<MobileNavProps> = memo(({ handleBookNow }) => {
           {/* Header */}
           <div className="flex items-center justify-between p-4 border-b">
             <img
-              src="/onboard/logos.png"
-              alt="OnboardTicket Logo"
+              src={brand.logoUrl}
+              alt={`${brand.name} Logo`}
               className="h-12 w-auto object-contain"
             />
             <button
@@ -2,18 +2,21 @@ import React, { useEffect, useState } from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import { Loader2 } from "lucide-react";
+import { UserRole } from "@shared/api";
+import { STAFF_ROLES, hasRole } from "@shared/roles";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAuth?: boolean;
-  requireAdmin?: boolean;
+  // Only users with one of these roles (or admins) get in
+  requireRoles?: UserRole[];
   redirectTo?: string;
 }
 
 export default function ProtectedRoute({
   children,
   requireAuth = true,
-  requireAdmin = false,
+  requireRoles,
   redirectTo = "/login",
 }: ProtectedRouteProps) {
   const { user, isAuthenticated, loading } = useAuth();
@@ -39,25 +42,18 @@ export default function ProtectedRoute({
         return;
       }
 
-      // If admin access is required, check user role/permissions
-      if (requireAdmin && user) {
-        // For now, check if user email contains 'admin' or has specific email
-        // In production, you'd check a proper role field
-        const isAdmin =
-          user.email.includes("admin") ||
-          user.email === "admin@onboardticket.com" ||
-          user.email === "adebayo@onboardticket.com";
-
-        setIsAuthorized(isAdmin);
+      // If specific roles are required, check the user has one of them
+      if (requireRoles && user) {
+        setIsAuthorized(hasRole(user, ...requireRoles));
         return;
       }
 
-      // If we reach here, user is authenticated and no admin requirement
+      // If we reach here, user is authenticated and no role requirement
       setIsAuthorized(true);
     };
 
     checkAuthorization();
-  }, [user, isAuthenticated, loading, requireAuth, requireAdmin]);
+  }, [user, isAuthenticated, loading, requireAuth, requireRoles]);
 
   // Show loading spinner while checking auth/authorization
   if (loading || isAuthorized === null) {
@@ -78,7 +74,7 @@ export default function ProtectedRoute({
 
   // If not authorized, redirect
   if (!isAuthorized) {
-    const redirectPath = requireAdmin ? "/login?admin=required" : redirectTo;
+    const redirectPath = requireRoles ? "/login?admin=required" : redirectTo;
 
     return (
       <Navigate to={redirectPath} state={{ from: location.pathname }} replace />
@@ -99,7 +95,7 @@ export const AdminProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
 }) => (
   <ProtectedRoute
     requireAuth={true}
-    requireAdmin={true}
+    requireRoles={STAFF_ROLES}
     redirectTo="/login?admin=required"
   >
     {children}
@@ -7,6 +7,8 @@ interface QRCodeDisplayProps {
   className?: string;
   showUrl?: boolean;
   title?: string;
+  // PDF417 renders a wide strip, e.g. for IATA boarding passes
+  format?: "qr" | "pdf417";
 }
 
 const QRCodeDisplay: React.FC<QRCodeDisplayProps> = ({
@@ -15,6 +17,7 @@ const QRCodeDisplay: React.FC<QRCodeDisplayProps> = ({
   className = "",
   showUrl = false,
   title = "QR Code",
+  format = "qr",
 }) => {
   const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -22,6 +25,21 @@ const QRCodeDisplay: React.FC<QRCodeDisplayProps> = ({
   useEffect(() => {
     const generateQRCode = async () => {
       try {
+        if (format === "pdf417") {
+          // bwip-js is large, so only load it when a PDF417 is shown
+          const { toSVG } = await import("bwip-js/browser");
+          const svg = toSVG({
+            bcid: "pdf417",
+            text: value,
+            barcolor: "20242A",
+          });
+          setQrCodeUrl(
+            `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+          );
+          setError(null);
+          return;
+        }
+
         const url = await QRCode.toDataURL(value, {
           width: size,
           margin: 2,
@@ -42,7 +60,7 @@ const QRCodeDisplay: React.FC<QRCodeDisplayProps> = ({
     if (value) {
       generateQRCode();
     }
-  }, [value, size]);
+  }, [value, size, format]);
 
   if (error) {
     return (
@@ -77,7 +95,11 @@ const QRCodeDisplay: React.FC<QRCodeDisplayProps> = ({
         src={qrCodeUrl}
         alt={title}
         className="border border-gray-200 rounded-lg"
-        style={{ width: size, height: size }}
+        style={
+          format === "pdf417"
+            ? { width: size, height: "auto" }
+            : { width: size, height: size }
+        }
       />
       {showUrl && (
         <p className="text-xs text-gray-500 mt-2 max-w-full break-all">
@@ -0,0 +1,48 @@
+import React, { useState } from "react";
+import { Copy } from "lucide-react";
+
+/**
+ * Freshly issued 2FA recovery codes. They are only shown once, so the user
+ * is asked to save them.
+ */
+const RecoveryCodesList: React.FC<{ codes: string[] }> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+    } catch (err) {
+      console.error("Error copying recovery codes:", err);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <p className="text-yellow-800 font-medium mb-1">
+        Save your recovery codes
+      </p>
+      <p className="text-sm text-yellow-700 mb-4">
+        Each code signs you in once if you lose your authenticator app. They
+        won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 mb-4 font-mono text-sm text-[#20242A]">
+        {codes.map((code) => (
+          <li key={code} className="px-3 py-1 bg-white rounded">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+      >
+        <Copy className="w-4 h-4" />
+        {copied ? "Copied" : "Copy Codes"}
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -0,0 +1,149 @@
+import React from "react";
+import { Seat, SeatMap as SeatMapData } from "@shared/api";
+import { formatMoney } from "@shared/currency";
+
+interface SeatMapProps {
+  seatMap: SeatMapData;
+  // Seat number -> index of the passenger sitting there, on this flight
+  assignedSeats: Map<string, number>;
+  activePassenger: number;
+  onSelectSeat: (seat: Seat) => void;
+}
+
+const CABIN_LABELS: Record<string, string> = {
+  FIRST: "First",
+  BUSINESS: "Business",
+  PREMIUM_ECONOMY: "Premium Economy",
+  ECONOMY: "Economy",
+};
+
+const SEAT_SIZE = 36;
+
+/**
+ * One flight's seat map: each deck drawn as a grid of seats from front to
+ * back, with a label where each cabin starts. Passengers' seats show their
+ * passenger number; occupied seats can't be picked.
+ */
+const SeatMap: React.FC<SeatMapProps> = ({
+  seatMap,
+  assignedSeats,
+  activePassenger,
+  onSelectSeat,
+}) => {
+  return (
+    <div className="space-y-6">
+      {seatMap.decks.map((deck, deckIndex) => {
+        // First row of each cabin, for the cabin labels
+        const cabinStarts = new Map<number, string>();
+        [...deck.seats]
+          .sort((a, b) => a.y - b.y)
+          .forEach((seat) => {
+            if (![...cabinStarts.values()].includes(seat.cabin)) {
+              cabinStarts.set(seat.y, seat.cabin);
+            }
+          });
+        const width = Math.max(
+          deck.width,
+          ...deck.seats.map((seat) => seat.x + 1),
+        );
+        const length = Math.max(
+          deck.length,
+          ...deck.seats.map((seat) => seat.y + 1),
+        );
+
+        return (
+          <div key={deckIndex}>
+            {seatMap.decks.length > 1 && (
+              <div className="text-sm text-white/70 mb-2 capitalize">
+                {deck.deckType.toLowerCase()} deck
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <div
+                className="grid gap-1 mx-auto w-max bg-white/5 rounded-[32px] px-4 py-6"
+                style={{
+                  gridTemplateColumns: `repeat(${width}, ${SEAT_SIZE}px)`,
+                  gridTemplateRows: `repeat(${length}, ${SEAT_SIZE}px)`,
+                }}
+              >
+                {[...cabinStarts].map(([row, cabin]) => (
+                  <div
+                    key={`cabin-${row}`}
+                    className="text-[10px] uppercase tracking-wide text-white/50 self-start pointer-events-none"
+                    style={{
+                      gridColumn: `1 / span ${width}`,
+                      gridRow: row + 1,
+                      transform: "translateY(-100%)",
+                    }}
+                  >
+                    {CABIN_LABELS[cabin] || cabin}
+                  </div>
+                ))}
+                {deck.seats.map((seat) => {
+                  const passenger = assignedSeats.get(seat.number);
+                  const mine = passenger === activePassenger;
+                  const taken = passenger !== undefined && !mine;
+                  const title = [
+                    seat.number,
+                    CABIN_LABELS[seat.cabin] || seat.cabin,
+                    seat.characteristics.includes("E") && "Exit row",
+                    seat.available
+                      ? seat.price > 0
+                        ? formatMoney(seat.price, seatMap.currency)
+                        : "Free"
+                      : "Occupied",
+                  ]
+                    .filter(Boolean)
+                    .join(" · ");
+
+                  return (
+                    <button
+                      key={seat.number}
+                      type="button"
+                      title={title}
+                      aria-label={title}
+                      aria-pressed={mine}
+                      disabled={!seat.available || taken}
+                      onClick={() => onSelectSeat(seat)}
+                      className={`rounded-t-lg rounded-b text-[10px] font-semibold transition-colors ${
+                        mine
+                          ? "bg-ticket-accent text-white"
+                          : taken
+                            ? "bg-white/70 text-ticket-primary cursor-not-allowed"
+                            : !seat.available
+                              ? "bg-white/10 text-white/20 cursor-not-allowed"
+                              : seat.price > 0
+                                ? "bg-amber-400/80 text-ticket-primary hover:bg-amber-300"
+                                : "bg-emerald-400/80 text-ticket-primary hover:bg-emerald-300"
+                      }`}
+                      style={{ gridColumn: seat.x + 1, gridRow: seat.y + 1 }}
+                    >
+                      {passenger !== undefined ? passenger + 1 : seat.column}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-4 text-xs text-white/80">
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-emerald-400/80" /> Free
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-amber-400/80" /> Seat fee
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-ticket-accent" /> Selected
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-white/10" /> Occupied
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SeatMap;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { LogOut, Monitor, X } from "lucide-react";
+import { AuthSession, AuthSessionsResponse } from "@shared/api";
+import { useAuth, useAuthenticatedFetch } from "../hooks/useAuth";
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser =
+    ["Edg", "Chrome", "Firefox", "Safari"].find((name) =>
+      userAgent.includes(`${name}/`),
+    ) || "Browser";
+  const platform =
+    ["Windows", "Android", "iPhone", "iPad", "Mac OS X", "Linux"].find((name) =>
+      userAgent.includes(name),
+    ) || "";
+  const browserName = browser === "Edg" ? "Edge" : browser;
+  return platform
+    ? `${browserName} on ${platform.replace("Mac OS X", "macOS")}`
+    : browserName;
+};
+
+/**
+ * Devices the user is signed in on, with sign-out per device or everywhere
+ */
+const SessionsCard: React.FC = () => {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const loadSessions = async () => {
+    setError("");
+    try {
+      const response = await authenticatedFetch("/api/auth/sessions");
+      const data: AuthSessionsResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to load sessions");
+      }
+      setSessions(data.sessions || []);
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      setError("Could not load your signed-in devices. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (session: AuthSession) => {
+    if (session.current) {
+      await logout();
+      navigate("/");
+      return;
+    }
+
+    try {
+      const response = await authenticatedFetch(
+        `/api/auth/sessions/${session.id}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok) {
+        throw new Error("Failed to sign out device");
+      }
+      setSessions((current) =>
+        current.filter((candidate) => candidate.id !== session.id),
+      );
+    } catch (err) {
+      console.error("Error revoking session:", err);
+      setError("Could not sign out that device. Please try again.");
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm("Sign out of OnboardTicket on all your devices?")) {
+      return;
+    }
+    await logout(true);
+    navigate("/");
+  };
+
+  return (
+    <div className="mt-8 bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <h2 className="text-2xl font-bold text-[#20242A] mb-2">
+        Signed-in Devices
+      </h2>
+      <p className="text-[#637996] mb-6">
+        Devices signed in to your account. Sign out any you don't recognise.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-[#637996]">Loading...</p>
+      ) : (
+        <ul className="space-y-3 mb-6">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-4 p-4 bg-white rounded-lg border border-gray-200"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <Monitor className="w-5 h-5 text-[#3839C9] shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-semibold text-[#20242A] truncate">
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-[#637996]">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ""}
+                    Last active {new Date(session.lastUsedAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(session)}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Sign out
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={handleLogoutAll}
+        className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+      >
+        <LogOut className="w-4 h-4" />
+        Log Out All Devices
+      </button>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default SessionsCard;
@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { Menu, X } from "lucide-react";
 import { useNavigate, Link } from "react-router-dom";
+import { useBrand } from "../hooks/useBrand";
 
 interface SimpleHeaderProps {
   showSignUp?: boolean;
@@ -13,6 +14,7 @@ const SimpleHeader: React.FC<SimpleHeaderProps> = ({
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const navigate = useNavigate();
+  const brand = useBrand();
 
   const closeMenu = () => setIsMenuOpen(false);
 
@@ -24,8 +26,8 @@ const SimpleHeader: React.FC<SimpleHeaderProps> = ({
           onClick={() => navigate("/")}
         >
           <img
-            src="/onboard/logos.png"
-            alt="OnboardTicket Logo"
+            src={brand.logoUrl}
+            alt={`${brand.name} Logo`}
             className="h-18 md:h-28 w-auto max-w-[280px] md:max-w-[400px] object-contain cursor-pointer"
             loading="eager"
           />
@@ -85,8 +87,8 @@ const SimpleHeader: React.FC<SimpleHeaderProps> = ({
           {/* Header */}
           <div className="flex items-center justify-between p-4 border-b">
             <img
-              src="/onboard/logos.png"
-              alt="OnboardTicket Logo"
+              src={brand.logoUrl}
+              alt={`${brand.name} Logo`}
               className="h-12 w-auto object-contain"
             />
             <button
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from "react";
 import { loadStripe } from "@stripe/stripe-js";
 import { CreditCard, Lock, AlertCircle, CheckCircle2 } from "lucide-react";
+import { formatMoney } from "@shared/currency";
 
 interface StripePaymentFormProps {
   amount: number;
   currency: string;
   bookingId: string;
+  quoteId: string;
   onSuccess: (paymentIntentId: string) => void;
   onError: (error: string) => void;
   loading: boolean;
@@ -16,6 +18,7 @@ export default function StripePaymentForm({
   amount,
   currency,
   bookingId,
+  quoteId,
   onSuccess,
   onError,
   loading,
@@ -58,9 +61,8 @@ export default function StripePaymentForm({
                 Authorization: `Bearer ${localStorage.getItem("token")}`,
               },
               body: JSON.stringify({
-                amount: Math.round(amount * 100),
-                currency: currency.toLowerCase(),
-                bookingId: bookingId,
+                bookingId,
+                quoteId,
               }),
             },
           );
@@ -106,8 +108,7 @@ export default function StripePaymentForm({
         },
         body: JSON.stringify({
           bookingId,
-          amount,
-          currency,
+          quoteId,
         }),
       });
 
@@ -417,9 +418,9 @@ export default function StripePaymentForm({
             {stripe ? "Processing Payment..." : "Simulating Payment..."}
           </div>
         ) : stripe ? (
-          `Pay ${currency} ${amount.toLocaleString()}`
+          `Pay ${formatMoney(amount, currency)}`
         ) : (
-          `Simulate Payment ${currency} ${amount.toLocaleString()}`
+          `Simulate Payment ${formatMoney(amount, currency)}`
         )}
       </button>
 
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from "react";
+import { KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+import {
+  TwoFactorRecoveryCodesResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+  TwoFactorStatusResponse,
+} from "@shared/api";
+import { useAuthenticatedFetch } from "../hooks/useAuth";
+import RecoveryCodesList from "./RecoveryCodesList";
+import TwoFactorSecret from "./TwoFactorSecret";
+
+/**
+ * Two-factor authentication settings: enrol an authenticator app with a QR
+ * code, turn 2FA off again, or get new recovery codes
+ */
+const TwoFactorCard: React.FC = () => {
+  const authenticatedFetch = useAuthenticatedFetch();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadStatus = async () => {
+    try {
+      const response = await authenticatedFetch("/api/auth/2fa");
+      const data: TwoFactorStatusResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to load two-factor status");
+      }
+      setStatus(data.twoFactor || null);
+    } catch (err) {
+      console.error("Error loading two-factor status:", err);
+      setError("Could not load your two-factor settings. Please try again.");
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // POST to a 2FA endpoint, showing its error message on failure
+  const post = async <T extends { success: boolean; message?: string }>(
+    path: string,
+    body?: object,
+  ): Promise<T | null> => {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await authenticatedFetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: body && JSON.stringify(body),
+      });
+      const data: T = await response.json();
+      if (!data.success) {
+        setError(data.message || "Something went wrong. Please try again.");
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error(`Error calling ${path}:`, err);
+      setError("Something went wrong. Please try again.");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetup = async () => {
+    setRecoveryCodes(null);
+    const data = await post<TwoFactorSetupResponse>("/api/auth/2fa/setup");
+    if (data) {
+      setSetup(data);
+      setCode("");
+    }
+  };
+
+  const handleEnable = async () => {
+    const data = await post<TwoFactorRecoveryCodesResponse>(
+      "/api/auth/2fa/enable",
+      { code },
+    );
+    if (data) {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes || null);
+      setCode("");
+      await loadStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    const isCode = /^\d{6}$/.test(code.trim());
+    const data = await post("/api/auth/2fa/disable", {
+      [isCode ? "code" : "recoveryCode"]: code.trim(),
+    });
+    if (data) {
+      setRecoveryCodes(null);
+      setCode("");
+      await loadStatus();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const data = await post<TwoFactorRecoveryCodesResponse>(
+      "/api/auth/2fa/recovery-codes",
+      { code },
+    );
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes || null);
+      setCode("");
+      await loadStatus();
+    }
+  };
+
+  const codeInput = (placeholder: string) => (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={placeholder}
+      autoComplete="one-time-code"
+      className="flex-1 px-4 py-2 border border-gray-200 rounded-lg text-sm text-[#20242A] bg-white tracking-widest"
+    />
+  );
+
+  return (
+    <div className="mt-8 bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <h2 className="text-2xl font-bold text-[#20242A] mb-2">
+        Two-Factor Authentication
+      </h2>
+      <p className="text-[#637996] mb-6">
+        {status?.enabled
+          ? `On since ${new Date(status.enabledAt!).toLocaleDateString()}. Signing in takes a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+          : "Protect your account with a code from an authenticator app whenever you sign in."}
+      </p>
+
+      {status?.required && !status.enabled && (
+        <p className="mb-4 text-sm text-yellow-700">
+          Your account requires two-factor authentication. You'll be asked to
+          set it up the next time you sign in.
+        </p>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-6">
+          <RecoveryCodesList codes={recoveryCodes} />
+        </div>
+      )}
+
+      {status?.enabled ? (
+        <div className="space-y-4">
+          <p className="text-sm text-[#637996]">
+            Enter a code from your app to change these settings
+            {status.required ? "." : ", or a recovery code to turn 2FA off."}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            {codeInput("123456")}
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={loading || !code}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <KeyRound className="w-4 h-4" />
+              New Recovery Codes
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={loading || !code}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-red-600 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <ShieldOff className="w-4 h-4" />
+                Turn Off
+              </button>
+            )}
+          </div>
+        </div>
+      ) : setup?.secret && setup.otpauthUrl ? (
+        <div className="space-y-4">
+          <TwoFactorSecret
+            secret={setup.secret}
+            otpauthUrl={setup.otpauthUrl}
+          />
+          <p className="text-sm text-[#637996]">
+            Then enter the 6-digit code your app shows to finish.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            {codeInput("123456")}
+            <button
+              type="button"
+              onClick={handleEnable}
+              disabled={loading || !code}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              {loading ? "Verifying..." : "Turn On"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        status && (
+          <button
+            type="button"
+            onClick={handleSetup}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            {loading ? "Loading..." : "Set Up Two-Factor Authentication"}
+          </button>
+        )
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import { KeyRound } from "lucide-react";
+import { AuthResponse, TwoFactorSetupResponse } from "@shared/api";
+import { useAuth } from "../hooks/useAuth";
+import TwoFactorSecret from "./TwoFactorSecret";
+
+interface TwoFactorChallengeProps {
+  // From the login response
+  challengeToken: string;
+  // The account has to enrol an authenticator app first
+  setupRequired?: boolean;
+  onComplete: (response: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step: asks for a code from the authenticator app or a
+ * recovery code. Accounts that must use 2FA but haven't set it up enrol
+ * here first.
+ */
+const TwoFactorChallenge: React.FC<TwoFactorChallengeProps> = ({
+  challengeToken,
+  setupRequired = false,
+  onComplete,
+  onCancel,
+}) => {
+  const { completeTwoFactor } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!setupRequired) {
+      return;
+    }
+
+    fetch("/api/auth/2fa/challenge/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ challengeToken }),
+    })
+      .then((response) => response.json())
+      .then((data: TwoFactorSetupResponse) => {
+        if (data.success) {
+          setSetup(data);
+        } else {
+          setError(data.message || "Could not start two-factor setup.");
+        }
+      })
+      .catch((err) => {
+        console.error("Error starting two-factor setup:", err);
+        setError("Could not start two-factor setup.");
+      });
+  }, [challengeToken, setupRequired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError("Please enter your code");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    const response = await completeTwoFactor(
+      useRecoveryCode
+        ? { challengeToken, recoveryCode: code.trim() }
+        : { challengeToken, code: code.trim() },
+    );
+    setLoading(false);
+
+    if (response.success) {
+      onComplete(response);
+    } else {
+      setError(response.message || "Invalid code. Please try again.");
+      setCode("");
+    }
+  };
+
+  return (
+    <div>
+      {setupRequired ? (
+        <div className="mb-6 space-y-4">
+          <p className="text-[#637996]">
+            Your account requires two-factor authentication. Add it to an
+            authenticator app, then enter the 6-digit code it shows.
+          </p>
+          {setup?.secret && setup.otpauthUrl && (
+            <TwoFactorSecret
+              secret={setup.secret}
+              otpauthUrl={setup.otpauthUrl}
+            />
+          )}
+        </div>
+      ) : (
+        <p className="mb-6 text-[#637996]">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="relative">
+          <KeyRound className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+          <input
+            type="text"
+            name="code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            autoComplete="one-time-code"
+            autoFocus
+            className="w-full pl-12 pr-4 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 tracking-widest focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className={`w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg ${
+            loading
+              ? "bg-gray-400 text-gray-600 cursor-not-allowed"
+              : "bg-[#3839C9] text-white hover:bg-blue-700"
+          }`}
+        >
+          {loading ? "Verifying..." : "Verify"}
+        </button>
+      </form>
+
+      <div className="mt-6 flex justify-between text-sm">
+        {!setupRequired && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+              setError("");
+            }}
+            className="text-[#3839C9] hover:text-blue-700 font-medium"
+          >
+            {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="ml-auto text-[#637996] hover:text-[#3839C9]"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorChallenge;
@@ -0,0 +1,31 @@
+import React from "react";
+import QRCodeDisplay from "./QRCodeDisplay";
+
+interface TwoFactorSecretProps {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * QR code for adding the account to an authenticator app, with the secret
+ * for typing in by hand
+ */
+const TwoFactorSecret: React.FC<TwoFactorSecretProps> = ({
+  secret,
+  otpauthUrl,
+}) => (
+  <div className="flex flex-col sm:flex-row items-center gap-6">
+    <QRCodeDisplay value={otpauthUrl} size={180} title="Scan to set up" />
+    <div className="text-sm text-[#637996]">
+      <p className="mb-2">
+        Scan the QR code with an authenticator app such as Google Authenticator,
+        1Password or Authy, or enter this key:
+      </p>
+      <code className="block px-3 py-2 bg-gray-100 rounded text-[#20242A] break-all">
+        {secret.match(/.{1,4}/g)?.join(" ")}
+      </code>
+    </div>
+  </div>
+);
+
+export default TwoFactorSecret;
@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { Wallet } from "lucide-react";
+import { WalletPassLinks } from "@shared/api";
+import { fetchWalletLinks } from "@/lib/tickets";
+
+interface WalletButtonsProps {
+  // Booking.walletUrl
+  walletUrl: string;
+  // Account bookings need the authenticated fetch; guest links work as is
+  fetcher?: (url: string, options?: RequestInit) => Promise<Response>;
+  className?: string;
+}
+
+/**
+ * "Add to Wallet" for a booking: loads the wallet links when opened and
+ * lists Apple / Google Wallet buttons for each boarding pass
+ */
+const WalletButtons: React.FC<WalletButtonsProps> = ({
+  walletUrl,
+  fetcher = fetch,
+  className = "",
+}) => {
+  const [passes, setPasses] = useState<WalletPassLinks[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleToggle = async () => {
+    if (passes) {
+      setPasses(null);
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      setPasses(await fetchWalletLinks(walletUrl, fetcher));
+    } catch (err) {
+      console.error("Error loading wallet passes:", err);
+      setError("Could not load your wallet passes. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The signed download may have expired while the list was open
+  const handleAppleWallet = async (index: number) => {
+    setError("");
+    try {
+      const fresh = await fetchWalletLinks(walletUrl, fetcher);
+      if (fresh[index]?.appleWalletUrl) {
+        window.location.href = fresh[index].appleWalletUrl;
+      }
+    } catch (err) {
+      console.error("Error opening Apple Wallet pass:", err);
+      setError("Could not open the pass. Please try again.");
+    }
+  };
+
+  const available = passes?.filter(
+    (pass) => pass.appleWalletUrl || pass.googleWalletUrl,
+  );
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={loading}
+        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+      >
+        <Wallet className="w-4 h-4" />
+        {loading ? "Loading..." : "Add to Wallet"}
+      </button>
+
+      {passes && (
+        <div className="mt-3 space-y-3">
+          {available.length === 0 && (
+            <p className="text-sm text-gray-600">
+              Wallet passes are not available for this booking yet.
+            </p>
+          )}
+          {passes.map(
+            (pass, index) =>
+              (pass.appleWalletUrl || pass.googleWalletUrl) && (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-2 text-sm"
+                >
+                  <span className="font-medium text-[#20242A] mr-2">
+                    {pass.passengerName} · {pass.itinerary}
+                  </span>
+                  {pass.appleWalletUrl && (
+                    <button
+                      type="button"
+                      onClick={() => handleAppleWallet(index)}
+                      className="px-3 py-1.5 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors"
+                    >
+                      Apple Wallet
+                    </button>
+                  )}
+                  {pass.googleWalletUrl && (
+                    <a
+                      href={pass.googleWalletUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-3 py-1.5 bg-[#1F1F1F] text-white rounded-lg hover:bg-gray-700 transition-colors"
+                    >
+                      Google Wallet
+                    </a>
+                  )}
+                </div>
+              ),
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default WalletButtons;
@@ -5,17 +5,84 @@ import React, {
   useEffect,
   ReactNode,
 } from "react";
-import { User, AuthResponse, LoginRequest, RegisterRequest } from "@shared/api";
+import {
+  User,
+  AuthResponse,
+  LoginRequest,
+  RegisterRequest,
+  TwoFactorChallengeRequest,
+} from "@shared/api";
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // Resolves with twoFactorRequired when a second step is needed
   login: (credentials: LoginRequest) => Promise<AuthResponse>;
+  // Second login step, with the challengeToken from login
+  completeTwoFactor: (
+    request: TwoFactorChallengeRequest,
+  ) => Promise<AuthResponse>;
   register: (userData: RegisterRequest) => Promise<AuthResponse>;
-  logout: () => void;
+  // Ends this session, or with allDevices every session of the user
+  logout: (allDevices?: boolean) => Promise<void>;
+  // Reload the signed-in user, e.g. after they verified their email
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
+const storeTokens = (data: AuthResponse) => {
+  localStorage.setItem("authToken", data.token!);
+  if (data.refreshToken) {
+    localStorage.setItem("refreshToken", data.refreshToken);
+  }
+};
+
+const clearTokens = () => {
+  localStorage.removeItem("authToken");
+  localStorage.removeItem("refreshToken");
+};
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Swap the stored refresh token for new tokens. Refresh tokens are single
+ * use, so concurrent callers share one request.
+ */
+const refreshTokens = (): Promise<boolean> => {
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) {
+    return Promise.resolve(false);
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async (response) => {
+        const data: AuthResponse = await response.json();
+        if (response.ok && data.success && data.token) {
+          storeTokens(data);
+          return true;
+        }
+        clearTokens();
+        return false;
+      })
+      .catch((error) => {
+        console.error("Token refresh failed:", error);
+        return false;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -46,38 +113,54 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const validateToken = async (token: string) => {
     try {
-      const response = await fetch("/api/auth/validate", {
+      let response = await fetch("/api/auth/validate", {
         headers: {
           Authorization: `Bearer ${token}`,
         },
       });
 
+      // The access token may just have expired
+      if (response.status === 401 && (await refreshTokens())) {
+        response = await fetch("/api/auth/validate", {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("authToken")}`,
+          },
+        });
+      }
+
       if (response.ok) {
         try {
           const data: AuthResponse = await response.json();
           if (data.success && data.user) {
             setUser(data.user);
           } else {
-            localStorage.removeItem("authToken");
+            clearTokens();
           }
         } catch (parseError) {
           console.error(
             "Failed to parse token validation response:",
             parseError,
           );
-          localStorage.removeItem("authToken");
+          clearTokens();
         }
       } else {
-        localStorage.removeItem("authToken");
+        clearTokens();
       }
     } catch (error) {
       console.error("Token validation failed:", error);
-      localStorage.removeItem("authToken");
+      clearTokens();
     } finally {
       setLoading(false);
     }
   };
 
+  const refreshUser = async () => {
+    const token = localStorage.getItem("authToken");
+    if (token) {
+      await validateToken(token);
+    }
+  };
+
   const login = async (credentials: LoginRequest): Promise<AuthResponse> => {
     try {
       const response = await fetch("/api/auth/login", {
@@ -109,7 +192,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       if (data.success && data.user && data.token) {
         setUser(data.user);
-        localStorage.setItem("authToken", data.token);
+        storeTokens(data);
       }
 
       return data;
@@ -122,6 +205,34 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const completeTwoFactor = async (
+    request: TwoFactorChallengeRequest,
+  ): Promise<AuthResponse> => {
+    try {
+      const response = await fetch("/api/auth/2fa/challenge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+      const data: AuthResponse = await response.json();
+
+      if (data.success && data.user && data.token) {
+        setUser(data.user);
+        storeTokens(data);
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Two-factor login failed:", error);
+      return {
+        success: false,
+        message: "Login failed. Please try again.",
+      };
+    }
+  };
+
   const register = async (userData: RegisterRequest): Promise<AuthResponse> => {
     try {
       const response = await fetch("/api/auth/register", {
@@ -154,7 +265,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       if (data.success && data.user && data.token) {
         setUser(data.user);
-        localStorage.setItem("authToken", data.token);
+        storeTokens(data);
       }
 
       return data;
@@ -167,38 +278,66 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const logout = () => {
+  const logout = async (allDevices = false) => {
+    const token = localStorage.getItem("authToken");
     setUser(null);
-    localStorage.removeItem("authToken");
+    clearTokens();
+
+    if (token) {
+      try {
+        await fetch("/api/auth/logout", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ allDevices }),
+        });
+      } catch (error) {
+        // The tokens are gone locally; the session expires on its own
+        console.error("Logout request failed:", error);
+      }
+    }
   };
 
   const value: AuthContextType = {
     user,
     loading,
     login,
+    completeTwoFactor,
     register,
     logout,
+    refreshUser,
     isAuthenticated: !!user,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
-// Hook for making authenticated API requests
+// Hook for making authenticated API requests. An expired access token is
+// refreshed and the request retried once.
 export const useAuthenticatedFetch = () => {
   const authenticatedFetch = async (url: string, options: RequestInit = {}) => {
-    const token = localStorage.getItem("authToken");
+    const send = () => {
+      const token = localStorage.getItem("authToken");
+
+      const headers = {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...options.headers,
+      };
 
-    const headers = {
-      "Content-Type": "application/json",
-      ...(token && { Authorization: `Bearer ${token}` }),
-      ...options.headers,
+      return fetch(url, {
+        ...options,
+        headers,
+      });
     };
 
-    return fetch(url, {
-      ...options,
-      headers,
-    });
+    const response = await send();
+    if (response.status === 401 && (await refreshTokens())) {
+      return send();
+    }
+    return response;
   };
 
   return authenticatedFetch;
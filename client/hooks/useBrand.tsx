@@ -0,0 +1,76 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  ReactNode,
+} from "react";
+import { Brand, BrandResponse } from "@shared/api";
+
+// Shown until /api/brand answers, and if it cannot be reached
+const DEFAULT_BRAND: Brand = {
+  id: "onboardticket",
+  name: "OnboardTicket",
+  logoUrl: "/onboard/logos-01.png",
+  colors: {
+    primary: "#505BFB",
+    secondary: "#878EFF",
+    accent: "#C6FF9A",
+    dark: "#3839C9",
+  },
+  legalFooter: `© ${new Date().getFullYear()} OnboardTicket. All rights reserved.`,
+  supportEmail: "services@onboardticket.com",
+  websiteUrl: "https://onboardticket.com",
+};
+
+const BrandContext = createContext<Brand | undefined>(undefined);
+
+export const useBrand = () => {
+  const context = useContext(BrandContext);
+  if (context === undefined) {
+    throw new Error("useBrand must be used within a BrandProvider");
+  }
+  return context;
+};
+
+// Tailwind's ticket-* and brand-* colors read these variables
+const applyBrandColors = (brand: Brand) => {
+  const style = document.documentElement.style;
+  style.setProperty("--brand-primary", brand.colors.primary);
+  style.setProperty("--brand-secondary", brand.colors.secondary);
+  style.setProperty("--brand-accent", brand.colors.accent);
+  style.setProperty("--brand-dark", brand.colors.dark);
+};
+
+interface BrandProviderProps {
+  children: ReactNode;
+}
+
+export const BrandProvider: React.FC<BrandProviderProps> = ({ children }) => {
+  const [brand, setBrand] = useState<Brand>(DEFAULT_BRAND);
+
+  useEffect(() => {
+    const loadBrand = async () => {
+      try {
+        const response = await fetch("/api/brand");
+        const data: BrandResponse = await response.json();
+        if (data.success && data.brand) {
+          setBrand(data.brand);
+        }
+      } catch (error) {
+        console.error("Failed to load brand:", error);
+      }
+    };
+
+    loadBrand();
+  }, []);
+
+  useEffect(() => {
+    applyBrandColors(brand);
+    document.title = brand.name;
+  }, [brand]);
+
+  return (
+    <BrandContext.Provider value={brand}>{children}</BrandContext.Provider>
+  );
+};
@@ -247,7 +247,7 @@ export const useRealTimeNotifications = () => {
 
   const simulateBookingUpdate = useCallback((bookingId: string, status: string) => {
     switch (status) {
-      case 'confirmed':
+      case 'ticketed':
         addNotification({
           type: 'success',
           title: 'Booking Confirmed!',
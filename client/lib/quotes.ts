@@ -0,0 +1,118 @@
+import {
+  Booking,
+  BookingResponse,
+  FlightRoute,
+  Quote,
+  PromoValidateResponse,
+  QuoteResponse,
+  SeatSelection,
+} from "@shared/api";
+
+/**
+ * Ask the server to price a booking. Bookings and payments are charged from
+ * the returned quote, so the totals shown should come from here as well.
+ */
+export async function requestQuote(
+  route: FlightRoute,
+  passengerCount: number,
+  selectedFlight?: any | null,
+  {
+    currency,
+    promoCode,
+    seats,
+  }: { currency?: string; promoCode?: string; seats?: SeatSelection[] } = {},
+): Promise<Quote> {
+  const response = await fetch("/api/quotes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      route: {
+        from: { code: route.from.code },
+        to: { code: route.to.code },
+        departureDate: route.departureDate,
+        ...(route.returnDate && { returnDate: route.returnDate }),
+        tripType: route.tripType,
+      },
+      passengerCount,
+      selectedFlight: selectedFlight || undefined,
+      currency,
+      promoCode: promoCode || undefined,
+      seats: seats?.length ? seats : undefined,
+    }),
+  });
+
+  const result: QuoteResponse = await response.json();
+
+  if (!response.ok || !result.success || !result.quote) {
+    throw new Error(result.message || "Failed to price booking");
+  }
+
+  return result.quote;
+}
+
+/**
+ * Check a promo code before applying it to a quote. Resolves with the
+ * server's verdict; `valid: false` carries the reason in `message`.
+ */
+export async function validatePromoCode(
+  code: string,
+  route: FlightRoute,
+  passengerCount: number,
+  currency?: string,
+  contactEmail?: string,
+): Promise<PromoValidateResponse> {
+  const response = await fetch("/api/promo/validate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      code,
+      route: { from: { code: route.from.code }, to: { code: route.to.code } },
+      passengerCount,
+      currency,
+      contactEmail: contactEmail || undefined,
+    }),
+  });
+
+  const result: PromoValidateResponse = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || "Failed to check promo code");
+  }
+
+  return result;
+}
+
+/**
+ * Re-price an unpaid booking from a new quote, e.g. after switching the
+ * payment currency. Guest bookings are matched by PNR and contact email.
+ */
+export async function requoteBooking(
+  booking: Booking,
+  quoteId: string,
+  contactEmail: string,
+  fetcher: (url: string, options?: RequestInit) => Promise<Response> = fetch,
+): Promise<Booking> {
+  const response = booking.isGuest
+    ? await fetch(`/api/guest/bookings/${booking.pnr}/quote`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: contactEmail, quoteId }),
+      })
+    : await fetcher(`/api/bookings/${booking.id}/quote`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quoteId }),
+      });
+
+  const result: BookingResponse = await response.json();
+
+  if (!response.ok || !result.success || !result.booking) {
+    throw new Error(result.message || "Failed to update booking price");
+  }
+
+  return result.booking;
+}
+
+// Leave a minute of slack so the quote is still valid when it arrives
+export const isQuoteExpired = (quote: Quote) =>
+  new Date(quote.expiresAt).getTime() - 60 * 1000 < Date.now();
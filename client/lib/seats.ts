@@ -0,0 +1,100 @@
+import {
+  Booking,
+  FlightRoute,
+  SeatMap,
+  SeatMapResponse,
+  SeatSelection,
+} from "@shared/api";
+
+const STORAGE_KEY = "bookingSeats";
+
+interface SavedSeats {
+  // Seats only apply to the flights they were picked on
+  flightKey: string;
+  seats: SeatSelection[];
+}
+
+const getFlightKey = (route: FlightRoute, selectedFlight?: any | null) =>
+  [
+    route.from.code,
+    route.to.code,
+    route.departureDate,
+    route.returnDate || "",
+    selectedFlight?.provider || "",
+    selectedFlight?.id || "",
+  ].join("|");
+
+/**
+ * Seat maps for the flights being booked: the airline's when a flight
+ * offer was selected, a sample aircraft otherwise
+ */
+export async function fetchSeatMaps(
+  route: FlightRoute,
+  selectedFlight?: any | null,
+): Promise<SeatMap[]> {
+  const response = await fetch("/api/seatmaps", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      route: {
+        from: { code: route.from.code },
+        to: { code: route.to.code },
+        departureDate: route.departureDate,
+        ...(route.returnDate && { returnDate: route.returnDate }),
+        tripType: route.tripType,
+      },
+      selectedFlight: selectedFlight || undefined,
+    }),
+  });
+
+  const result: SeatMapResponse = await response.json();
+
+  if (!response.ok || !result.success || !result.seatMaps) {
+    throw new Error(result.message || "Failed to load seat maps");
+  }
+
+  return result.seatMaps;
+}
+
+/**
+ * Seats picked in the booking flow, dropping any picked for other flights
+ * or for passengers who have since been removed
+ */
+export function loadSeatSelections(
+  route: FlightRoute,
+  selectedFlight: any | null,
+  passengerCount: number,
+): SeatSelection[] {
+  try {
+    const saved: SavedSeats = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) || "null",
+    );
+    if (!saved || saved.flightKey !== getFlightKey(route, selectedFlight)) {
+      return [];
+    }
+    return saved.seats.filter((seat) => seat.passengerIndex < passengerCount);
+  } catch (error) {
+    console.error("Error parsing seat selections:", error);
+    return [];
+  }
+}
+
+export function saveSeatSelections(
+  route: FlightRoute,
+  selectedFlight: any | null,
+  seats: SeatSelection[],
+): void {
+  const saved: SavedSeats = {
+    flightKey: getFlightKey(route, selectedFlight),
+    seats,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+/**
+ * Seats a booking holds, as selections for re-quoting it
+ */
+export const getBookingSeats = (booking: Booking): SeatSelection[] =>
+  booking.passengers.flatMap((passenger, passengerIndex) =>
+    (passenger.seats || []).map((seat) => ({ ...seat, passengerIndex })),
+  );
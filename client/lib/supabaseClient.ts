@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { UserRole } from "@shared/api";
 
 // Check if Supabase should be initialized
 const shouldInitializeSupabase = () => {
@@ -79,6 +80,8 @@ export type Database = {
           last_name: string;
           title: "Mr" | "Ms" | "Mrs";
           status: "active" | "suspended" | "banned";
+          roles: UserRole[];
+          email_verified_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -89,6 +92,8 @@ export type Database = {
           last_name: string;
           title?: "Mr" | "Ms" | "Mrs";
           status?: "active" | "suspended" | "banned";
+          roles?: UserRole[];
+          email_verified_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -99,6 +104,8 @@ export type Database = {
           last_name?: string;
           title?: "Mr" | "Ms" | "Mrs";
           status?: "active" | "suspended" | "banned";
+          roles?: UserRole[];
+          email_verified_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -134,7 +141,13 @@ export type Database = {
           id: string;
           user_id: string;
           pnr: string;
-          status: "pending" | "confirmed" | "cancelled" | "expired";
+          status:
+            | "pending"
+            | "paid"
+            | "ticketed"
+            | "cancelled"
+            | "refunded"
+            | "expired";
           from_airport_id: string;
           to_airport_id: string;
           departure_date: string;
@@ -145,6 +158,10 @@ export type Database = {
           contact_email: string;
           terms_accepted: boolean;
           ticket_url: string | null;
+          quote_id: string | null;
+          promo_code: string | null;
+          discount_amount: number;
+          disputed: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -152,7 +169,13 @@ export type Database = {
           id?: string;
           user_id: string;
           pnr?: string;
-          status?: "pending" | "confirmed" | "cancelled" | "expired";
+          status?:
+            | "pending"
+            | "paid"
+            | "ticketed"
+            | "cancelled"
+            | "refunded"
+            | "expired";
           from_airport_id: string;
           to_airport_id: string;
           departure_date: string;
@@ -163,6 +186,10 @@ export type Database = {
           contact_email: string;
           terms_accepted?: boolean;
           ticket_url?: string | null;
+          quote_id?: string | null;
+          promo_code?: string | null;
+          discount_amount?: number;
+          disputed?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -170,7 +197,13 @@ export type Database = {
           id?: string;
           user_id?: string;
           pnr?: string;
-          status?: "pending" | "confirmed" | "cancelled" | "expired";
+          status?:
+            | "pending"
+            | "paid"
+            | "ticketed"
+            | "cancelled"
+            | "refunded"
+            | "expired";
           from_airport_id?: string;
           to_airport_id?: string;
           departure_date?: string;
@@ -181,6 +214,10 @@ export type Database = {
           contact_email?: string;
           terms_accepted?: boolean;
           ticket_url?: string | null;
+          quote_id?: string | null;
+          promo_code?: string | null;
+          discount_amount?: number;
+          disputed?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -193,6 +230,7 @@ export type Database = {
           first_name: string;
           last_name: string;
           email: string;
+          seats: { segmentId: string; seatNumber: string }[] | null;
           created_at: string;
         };
         Insert: {
@@ -202,6 +240,7 @@ export type Database = {
           first_name: string;
           last_name: string;
           email: string;
+          seats?: { segmentId: string; seatNumber: string }[] | null;
           created_at?: string;
         };
         Update: {
@@ -211,6 +250,7 @@ export type Database = {
           first_name?: string;
           last_name?: string;
           email?: string;
+          seats?: { segmentId: string; seatNumber: string }[] | null;
           created_at?: string;
         };
       };
@@ -218,14 +258,20 @@ export type Database = {
         Row: {
           id: string;
           booking_id: string;
-          user_id: string;
+          user_id: string | null;
           amount: number;
           currency: string;
-          payment_method: "card" | "paypal";
-          status: "pending" | "completed" | "failed" | "refunded";
-          stripe_payment_id: string | null;
+          payment_method: "card" | "paypal" | "stripe";
+          status:
+            | "pending"
+            | "completed"
+            | "failed"
+            | "partially_refunded"
+            | "refunded";
+          stripe_payment_intent_id: string | null;
           paypal_order_id: string | null;
-          paypal_payer_id: string | null;
+          refunded_amount: number;
+          promo_code: string | null;
           payment_details: any | null;
           created_at: string;
           updated_at: string;
@@ -233,14 +279,20 @@ export type Database = {
         Insert: {
           id?: string;
           booking_id: string;
-          user_id: string;
+          user_id?: string | null;
           amount: number;
           currency?: string;
-          payment_method: "card" | "paypal";
-          status?: "pending" | "completed" | "failed" | "refunded";
-          stripe_payment_id?: string | null;
+          payment_method: "card" | "paypal" | "stripe";
+          status?:
+            | "pending"
+            | "completed"
+            | "failed"
+            | "partially_refunded"
+            | "refunded";
+          stripe_payment_intent_id?: string | null;
           paypal_order_id?: string | null;
-          paypal_payer_id?: string | null;
+          refunded_amount?: number;
+          promo_code?: string | null;
           payment_details?: any | null;
           created_at?: string;
           updated_at?: string;
@@ -248,19 +300,283 @@ export type Database = {
         Update: {
           id?: string;
           booking_id?: string;
-          user_id?: string;
+          user_id?: string | null;
           amount?: number;
           currency?: string;
-          payment_method?: "card" | "paypal";
-          status?: "pending" | "completed" | "failed" | "refunded";
-          stripe_payment_id?: string | null;
+          payment_method?: "card" | "paypal" | "stripe";
+          status?:
+            | "pending"
+            | "completed"
+            | "failed"
+            | "partially_refunded"
+            | "refunded";
+          stripe_payment_intent_id?: string | null;
           paypal_order_id?: string | null;
-          paypal_payer_id?: string | null;
+          refunded_amount?: number;
+          promo_code?: string | null;
           payment_details?: any | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      refunds: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          booking_id: string;
+          amount: number;
+          currency: string;
+          provider: "stripe" | "paypal" | "manual";
+          provider_refund_id: string | null;
+          status: "pending" | "succeeded" | "failed";
+          reason: string | null;
+          failure_reason: string | null;
+          idempotency_key: string;
+          attempts: number;
+          requested_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          booking_id: string;
+          amount: number;
+          currency: string;
+          provider: "stripe" | "paypal" | "manual";
+          provider_refund_id?: string | null;
+          status?: "pending" | "succeeded" | "failed";
+          reason?: string | null;
+          failure_reason?: string | null;
+          idempotency_key: string;
+          attempts?: number;
+          requested_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          booking_id?: string;
+          amount?: number;
+          currency?: string;
+          provider?: "stripe" | "paypal" | "manual";
+          provider_refund_id?: string | null;
+          status?: "pending" | "succeeded" | "failed";
+          reason?: string | null;
+          failure_reason?: string | null;
+          idempotency_key?: string;
+          attempts?: number;
+          requested_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      disputes: {
+        Row: {
+          id: string;
+          transaction_id: string | null;
+          booking_id: string | null;
+          stripe_dispute_id: string;
+          stripe_charge_id: string | null;
+          amount: number;
+          currency: string;
+          reason: string;
+          status:
+            | "warning_needs_response"
+            | "warning_under_review"
+            | "warning_closed"
+            | "needs_response"
+            | "under_review"
+            | "won"
+            | "lost";
+          evidence_due_by: string | null;
+          evidence_text: string | null;
+          evidence_submitted_at: string | null;
+          closed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id?: string | null;
+          booking_id?: string | null;
+          stripe_dispute_id: string;
+          stripe_charge_id?: string | null;
+          amount: number;
+          currency: string;
+          reason: string;
+          status:
+            | "warning_needs_response"
+            | "warning_under_review"
+            | "warning_closed"
+            | "needs_response"
+            | "under_review"
+            | "won"
+            | "lost";
+          evidence_due_by?: string | null;
+          evidence_text?: string | null;
+          evidence_submitted_at?: string | null;
+          closed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string | null;
+          booking_id?: string | null;
+          stripe_dispute_id?: string;
+          stripe_charge_id?: string | null;
+          amount?: number;
+          currency?: string;
+          reason?: string;
+          status?:
+            | "warning_needs_response"
+            | "warning_under_review"
+            | "warning_closed"
+            | "needs_response"
+            | "under_review"
+            | "won"
+            | "lost";
+          evidence_due_by?: string | null;
+          evidence_text?: string | null;
+          evidence_submitted_at?: string | null;
+          closed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      webhook_events: {
+        Row: {
+          id: string;
+          provider: "stripe" | "paypal";
+          event_id: string;
+          event_type: string;
+          processed_at: string;
+        };
+        Insert: {
+          id?: string;
+          provider: "stripe" | "paypal";
+          event_id: string;
+          event_type: string;
+          processed_at?: string;
+        };
+        Update: {
+          id?: string;
+          provider?: "stripe" | "paypal";
+          event_id?: string;
+          event_type?: string;
+          processed_at?: string;
+        };
+      };
+      currency_rates: {
+        Row: {
+          currency: string;
+          rate: number;
+          service_fee: number;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          currency: string;
+          rate: number;
+          service_fee: number;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          currency?: string;
+          rate?: number;
+          service_fee?: number;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+      };
+      promo_codes: {
+        Row: {
+          id: string;
+          code: string;
+          description: string | null;
+          discount_type: "percentage" | "fixed";
+          discount_value: number;
+          max_redemptions: number | null;
+          per_user_limit: number | null;
+          valid_from: string | null;
+          valid_until: string | null;
+          min_passengers: number | null;
+          routes: string[] | null;
+          active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          description?: string | null;
+          discount_type: "percentage" | "fixed";
+          discount_value: number;
+          max_redemptions?: number | null;
+          per_user_limit?: number | null;
+          valid_from?: string | null;
+          valid_until?: string | null;
+          min_passengers?: number | null;
+          routes?: string[] | null;
+          active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          description?: string | null;
+          discount_type?: "percentage" | "fixed";
+          discount_value?: number;
+          max_redemptions?: number | null;
+          per_user_limit?: number | null;
+          valid_from?: string | null;
+          valid_until?: string | null;
+          min_passengers?: number | null;
+          routes?: string[] | null;
+          active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      promo_redemptions: {
+        Row: {
+          id: string;
+          promo_code_id: string;
+          booking_id: string;
+          user_id: string | null;
+          email: string;
+          discount_amount: number;
+          currency: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          promo_code_id: string;
+          booking_id: string;
+          user_id?: string | null;
+          email: string;
+          discount_amount: number;
+          currency: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          promo_code_id?: string;
+          booking_id?: string;
+          user_id?: string | null;
+          email?: string;
+          discount_amount?: number;
+          currency?: string;
+          created_at?: string;
+        };
+      };
       support_tickets: {
         Row: {
           id: string;
@@ -302,13 +618,150 @@ export type Database = {
           updated_at?: string;
         };
       };
+      auth_tokens: {
+        Row: {
+          token: string;
+          type: string;
+          user_id: string | null;
+          email: string | null;
+          expires_at: string;
+          consumed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          token: string;
+          type: string;
+          user_id?: string | null;
+          email?: string | null;
+          expires_at: string;
+          consumed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          token?: string;
+          type?: string;
+          user_id?: string | null;
+          email?: string | null;
+          expires_at?: string;
+          consumed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      auth_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          refresh_token_hash: string;
+          user_agent: string | null;
+          ip_address: string | null;
+          created_at: string;
+          last_used_at: string;
+          expires_at: string;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          refresh_token_hash: string;
+          user_agent?: string | null;
+          ip_address?: string | null;
+          created_at?: string;
+          last_used_at?: string;
+          expires_at: string;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          refresh_token_hash?: string;
+          user_agent?: string | null;
+          ip_address?: string | null;
+          created_at?: string;
+          last_used_at?: string;
+          expires_at?: string;
+          revoked_at?: string | null;
+        };
+      };
+      auth_two_factor: {
+        Row: {
+          user_id: string;
+          secret: string;
+          enabled_at: string | null;
+          recovery_code_hashes: string[];
+          last_used_step: number | null;
+          failed_attempts: number;
+          locked_until: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          secret: string;
+          enabled_at?: string | null;
+          recovery_code_hashes?: string[];
+          last_used_step?: number | null;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          secret?: string;
+          enabled_at?: string | null;
+          recovery_code_hashes?: string[];
+          last_used_step?: number | null;
+          failed_attempts?: number;
+          locked_until?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      booking_events: {
+        Row: {
+          id: string;
+          booking_id: string;
+          from_status: string | null;
+          to_status: string;
+          actor_type: "user" | "admin" | "system";
+          actor_id: string | null;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          from_status?: string | null;
+          to_status: string;
+          actor_type: "user" | "admin" | "system";
+          actor_id?: string | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          from_status?: string | null;
+          to_status?: string;
+          actor_type?: "user" | "admin" | "system";
+          actor_id?: string | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
     };
     Views: {
       booking_summary: {
         Row: {
           id: string;
           pnr: string;
-          status: "pending" | "confirmed" | "cancelled" | "expired";
+          status:
+            | "pending"
+            | "paid"
+            | "ticketed"
+            | "cancelled"
+            | "refunded"
+            | "expired";
           trip_type: "oneway" | "roundtrip";
           departure_date: string;
           return_date: string | null;
@@ -0,0 +1,111 @@
+import {
+  Booking,
+  CalendarFeedResponse,
+  TicketLinkResponse,
+  WalletLinksResponse,
+  WalletPassLinks,
+} from "@shared/api";
+
+/**
+ * Open a booking's e-ticket in a new tab. Guest ticket URLs (PNR + email)
+ * open directly; account bookings need a short-lived signed link from the
+ * API first, since a new tab cannot send the auth header.
+ */
+export async function openTicket(
+  booking: Pick<Booking, "id" | "ticketUrl">,
+  fetcher: (url: string, options?: RequestInit) => Promise<Response> = fetch,
+): Promise<void> {
+  if (!booking.ticketUrl) {
+    return;
+  }
+
+  if (!booking.ticketUrl.startsWith(`/api/bookings/${booking.id}/`)) {
+    window.open(booking.ticketUrl, "_blank");
+    return;
+  }
+
+  // Open the tab now, while we still have the click, so it isn't blocked
+  const tab = window.open("", "_blank");
+
+  try {
+    const response = await fetcher(`/api/bookings/${booking.id}/ticket/link`);
+    const result: TicketLinkResponse = await response.json();
+
+    if (!response.ok || !result.success || !result.url) {
+      throw new Error(result.message || "Failed to open ticket");
+    }
+
+    if (tab) {
+      tab.location.href = result.url;
+    } else {
+      window.location.href = result.url;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
+
+/**
+ * Apple / Google Wallet links for a booking's boarding passes. Apple Wallet
+ * links are short-lived, so load them again right before opening one.
+ */
+export async function fetchWalletLinks(
+  walletUrl: string,
+  fetcher: (url: string, options?: RequestInit) => Promise<Response> = fetch,
+): Promise<WalletPassLinks[]> {
+  const response = await fetcher(walletUrl);
+  const result: WalletLinksResponse = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || "Failed to load wallet passes");
+  }
+
+  return result.passes || [];
+}
+
+/**
+ * Save a booking's flights as an .ics file. Fetched rather than linked so
+ * account bookings can send the auth header.
+ */
+export async function downloadCalendar(
+  booking: Pick<Booking, "pnr" | "calendarUrl">,
+  fetcher: (url: string, options?: RequestInit) => Promise<Response> = fetch,
+): Promise<void> {
+  if (!booking.calendarUrl) {
+    return;
+  }
+
+  const response = await fetcher(booking.calendarUrl);
+  if (!response.ok) {
+    throw new Error("Failed to download calendar");
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${booking.pnr}.ics`;
+  link.click();
+  // Let the download start before the blob goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * The user's secret calendar feed URL; reset replaces it with a new one
+ */
+export async function fetchCalendarFeedUrl(
+  fetcher: (url: string, options?: RequestInit) => Promise<Response>,
+  reset = false,
+): Promise<string> {
+  const response = await fetcher(
+    reset ? "/api/calendar/feed/reset" : "/api/calendar/feed",
+    reset ? { method: "POST" } : undefined,
+  );
+  const result: CalendarFeedResponse = await response.json();
+
+  if (!response.ok || !result.success || !result.url) {
+    throw new Error(result.message || "Failed to load calendar feed");
+  }
+
+  return result.url;
+}
@@ -12,11 +12,17 @@ import {
   Search,
   Filter,
   Download,
-  Eye
+  Eye,
+  History,
+  ShieldAlert,
+  Tag,
+  UserCog
 } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
 import { useAuthenticatedFetch } from "../hooks/useAuth";
-import { Booking, SupportTicket } from "@shared/api";
+import { Booking, BookingHistoryResponse, BookingStatus, Dispute, DisputeResponse, PromoCode, PromoCodeInput, PromoCodeResponse, PromoCodesResponse, RefundResponse, SupportTicket, User, UserRole } from "@shared/api";
+import { AdminArea, ROLE_LABELS, STAFF_ROLES, canAccessAdminArea } from "@shared/roles";
+import BookingTimeline from "../components/BookingTimeline";
 
 interface AdminStats {
   totalBookings: number;
@@ -27,6 +33,8 @@ interface AdminStats {
   urgentTickets: SupportTicket[];
 }
 
+type AdminTab = Extract<AdminArea, "overview" | "bookings" | "payments" | "disputes" | "promos" | "support" | "team">;
+
 interface AdminTabProps {
   authenticatedFetch: any;
   stats: AdminStats | null;
@@ -40,7 +48,7 @@ export default function AdminDashboard() {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
-  const [activeTab, setActiveTab] = useState<"overview" | "bookings" | "payments" | "support">("overview");
+  const [activeTab, setActiveTab] = useState<AdminTab>("overview");
 
   useEffect(() => {
     fetchAdminStats();
@@ -49,14 +57,16 @@ export default function AdminDashboard() {
   const fetchAdminStats = async () => {
     try {
       // Fetch comprehensive admin statistics from the new API
+      // Ticket counts are only shown to staff who can see support tickets
+      const canSeeSupport = canAccessAdminArea(user, "support");
       const [statsRes, supportRes] = await Promise.all([
         authenticatedFetch('/api/admin/stats'),
-        authenticatedFetch('/api/admin/support/stats')
+        canSeeSupport ? authenticatedFetch('/api/admin/support/stats') : null
       ]);
 
-      if (statsRes.ok && supportRes.ok) {
+      if (statsRes.ok && (!supportRes || supportRes.ok)) {
         const statsData = await statsRes.json();
-        const supportData = await supportRes.json();
+        const supportData = supportRes ? await supportRes.json() : {};
 
         // Use real data from the database instead of mock data
         const adminStats: AdminStats = {
@@ -70,7 +80,7 @@ export default function AdminDashboard() {
 
         setStats(adminStats);
       } else {
-        console.error('Failed to fetch admin stats:', statsRes.status, supportRes.status);
+        console.error('Failed to fetch admin stats:', statsRes.status, supportRes?.status);
         
         // Fallback to empty/default stats if API fails
         const fallbackStats: AdminStats = {
@@ -190,11 +200,14 @@ export default function AdminDashboard() {
               { id: "overview", label: "Overview", icon: TrendingUp },
               { id: "bookings", label: "Bookings", icon: Plane },
               { id: "payments", label: "Payments", icon: DollarSign },
-              { id: "support", label: "Support", icon: MessageSquare }
-            ].map(({ id, label, icon: Icon }) => (
+              { id: "disputes", label: "Disputes", icon: ShieldAlert },
+              { id: "promos", label: "Promo Codes", icon: Tag },
+              { id: "support", label: "Support", icon: MessageSquare },
+              { id: "team", label: "Team", icon: UserCog }
+            ].filter(({ id }) => canAccessAdminArea(user, id as AdminTab)).map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
-                onClick={() => setActiveTab(id as any)}
+                onClick={() => setActiveTab(id as AdminTab)}
                 className={`flex items-center gap-2 px-6 py-3 rounded-[20px] font-semibold transition-all ${
                   activeTab === id
                     ? "bg-[#3839C9] text-white shadow-lg"
@@ -260,11 +273,7 @@ export default function AdminDashboard() {
                         </div>
                         <div className="text-right">
                           <p className="font-semibold text-[#20242A]">${booking.totalAmount}</p>
-                          <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                            booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                            booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-red-100 text-red-800'
-                          }`}>
+                          <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getBookingStatusColor(booking.status)}`}>
                             {booking.status}
                           </span>
                         </div>
@@ -318,7 +327,10 @@ export default function AdminDashboard() {
         {/* Other Tabs Content */}
         {activeTab === "bookings" && <BookingsTab authenticatedFetch={authenticatedFetch} stats={stats} />}
         {activeTab === "payments" && <PaymentsTab authenticatedFetch={authenticatedFetch} stats={stats} />}
+        {activeTab === "disputes" && <DisputesTab authenticatedFetch={authenticatedFetch} stats={stats} />}
+        {activeTab === "promos" && <PromoCodesTab authenticatedFetch={authenticatedFetch} stats={stats} />}
         {activeTab === "support" && <SupportTab authenticatedFetch={authenticatedFetch} stats={stats} />}
+        {activeTab === "team" && <TeamTab authenticatedFetch={authenticatedFetch} stats={stats} />}
       </div>
     </div>
   );
@@ -346,11 +358,30 @@ function StatCard({ title, value, icon: Icon, color, change }: {
   );
 }
 
+// Booking status badge colors
+function getBookingStatusColor(status: string) {
+  switch (status) {
+    case 'ticketed':
+      return 'bg-green-100 text-green-800';
+    case 'paid':
+      return 'bg-blue-100 text-blue-800';
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'refunded':
+      return 'bg-purple-100 text-purple-800';
+    case 'expired':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+}
+
 // Bookings Tab Component
 function BookingsTab({ authenticatedFetch, stats }: AdminTabProps) {
-  const [bookings, setBookings] = useState<any[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState("all");
+  const [expandedBooking, setExpandedBooking] = useState<string | null>(null);
 
   useEffect(() => {
     fetchBookings();
@@ -394,8 +425,11 @@ function BookingsTab({ authenticatedFetch, stats }: AdminTabProps) {
           >
             <option value="all">All Bookings</option>
             <option value="pending">Pending</option>
-            <option value="confirmed">Confirmed</option>
+            <option value="paid">Paid</option>
+            <option value="ticketed">Ticketed</option>
             <option value="cancelled">Cancelled</option>
+            <option value="refunded">Refunded</option>
+            <option value="expired">Expired</option>
           </select>
         </div>
       </div>
@@ -408,23 +442,45 @@ function BookingsTab({ authenticatedFetch, stats }: AdminTabProps) {
                 <div>
                   <h3 className="font-semibold text-[#20242A]">{booking.pnr}</h3>
                   <p className="text-sm text-[#637996]">
-                    {booking.from_city} ({booking.from_code}) → {booking.to_city} ({booking.to_code})
+                    {booking.route.from.city} ({booking.route.from.code}) → {booking.route.to.city} ({booking.route.to.code})
                   </p>
                   <p className="text-xs text-[#A2A2A2]">
-                    {new Date(booking.created_at).toLocaleDateString()}
+                    {new Date(booking.createdAt).toLocaleDateString()}
                   </p>
                 </div>
-                <div className="text-right">
-                  <p className="font-semibold text-[#20242A]">${booking.total_amount}</p>
-                  <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
-                    booking.status === 'confirmed' ? 'bg-green-100 text-green-800' :
-                    booking.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                    'bg-red-100 text-red-800'
-                  }`}>
-                    {booking.status}
-                  </span>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-semibold text-[#20242A]">${booking.totalAmount}</p>
+                    <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getBookingStatusColor(booking.status)}`}>
+                      {booking.status}
+                    </span>
+                    {booking.disputed && (
+                      <span className="inline-block ml-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        disputed
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setExpandedBooking(expandedBooking === booking.id ? null : booking.id)}
+                    className="p-2 text-[#637996] hover:text-[#3839C9] hover:bg-white/50 rounded-lg"
+                    title="Status history"
+                  >
+                    <History className="h-4 w-4" />
+                  </button>
                 </div>
               </div>
+
+              {expandedBooking === booking.id && (
+                <BookingStatusPanel
+                  booking={booking}
+                  authenticatedFetch={authenticatedFetch}
+                  onUpdated={(updated) =>
+                    setBookings((current) =>
+                      current.map((b) => (b.id === updated.id ? updated : b)),
+                    )
+                  }
+                />
+              )}
             </div>
           ))}
         </div>
@@ -441,10 +497,104 @@ function BookingsTab({ authenticatedFetch, stats }: AdminTabProps) {
   );
 }
 
+// Booking status history and admin transitions
+function BookingStatusPanel({ booking, authenticatedFetch, onUpdated }: {
+  booking: Booking;
+  authenticatedFetch: any;
+  onUpdated: (booking: Booking) => void;
+}) {
+  const [allowedTransitions, setAllowedTransitions] = useState<BookingStatus[] | null>(null);
+  const [nextStatus, setNextStatus] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleHistoryLoaded = (history: BookingHistoryResponse) => {
+    setAllowedTransitions(history.allowedTransitions || []);
+    setNextStatus("");
+  };
+
+  const handleUpdateStatus = async () => {
+    if (!nextStatus) return;
+
+    setSaving(true);
+    setError("");
+    try {
+      const response = await authenticatedFetch(`/api/admin/bookings/${booking.id}/status`, {
+        method: 'PUT',
+        body: JSON.stringify({ status: nextStatus, reason }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        onUpdated(data.booking);
+        setReason("");
+        setRefreshKey((key) => key + 1);
+      } else {
+        setError(data.message || 'Failed to update booking status');
+      }
+    } catch (err) {
+      console.error('Error updating booking status:', err);
+      setError('Failed to update booking status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[#E7E9FF] grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div>
+        <h4 className="text-sm font-semibold text-[#20242A] mb-3">Status History</h4>
+        <BookingTimeline
+          bookingId={booking.id}
+          refreshKey={refreshKey}
+          onHistoryLoaded={handleHistoryLoaded}
+        />
+      </div>
+      <div>
+        <h4 className="text-sm font-semibold text-[#20242A] mb-3">Change Status</h4>
+        {allowedTransitions === null ? null : allowedTransitions.length > 0 ? (
+          <div className="space-y-3">
+            <select
+              value={nextStatus}
+              onChange={(e) => setNextStatus(e.target.value)}
+              className="w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9]"
+            >
+              <option value="">Select new status</option>
+              {allowedTransitions.map((status) => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              className="w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9]"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleUpdateStatus}
+              disabled={!nextStatus || saving}
+              className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Updating...' : 'Update Status'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-[#637996]">This booking is in a final state.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Payments Tab Component  
 function PaymentsTab({ authenticatedFetch, stats }: AdminTabProps) {
   const [transactions, setTransactions] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refundingTransaction, setRefundingTransaction] = useState<string | null>(null);
 
   useEffect(() => {
     fetchTransactions();
@@ -496,16 +646,40 @@ function PaymentsTab({ authenticatedFetch, stats }: AdminTabProps) {
                 </div>
                 <div className="text-right">
                   <p className="font-semibold text-[#20242A]">${transaction.amount}</p>
+                  {transaction.refundedAmount > 0 && (
+                    <p className="text-xs text-[#637996]">Refunded ${transaction.refundedAmount}</p>
+                  )}
                   <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
                     transaction.status === 'completed' ? 'bg-green-100 text-green-800' :
                     transaction.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
                     transaction.status === 'failed' ? 'bg-red-100 text-red-800' :
+                    transaction.status === 'partially_refunded' ? 'bg-indigo-100 text-indigo-800' :
                     'bg-purple-100 text-purple-800'
                   }`}>
-                    {transaction.status}
+                    {transaction.status.replace('_', ' ')}
                   </span>
+                  {(transaction.status === 'completed' || transaction.status === 'partially_refunded') && (
+                    <button
+                      onClick={() => setRefundingTransaction(refundingTransaction === transaction.id ? null : transaction.id)}
+                      className="block ml-auto mt-2 text-xs text-[#3839C9] hover:underline"
+                    >
+                      Refund
+                    </button>
+                  )}
                 </div>
               </div>
+              {refundingTransaction === transaction.id && (
+                <RefundPanel
+                  transaction={transaction}
+                  authenticatedFetch={authenticatedFetch}
+                  onRefunded={(updated) => {
+                    setTransactions((current) =>
+                      current.map((t) => (t.id === updated.id ? { ...t, ...updated } : t))
+                    );
+                    setRefundingTransaction(null);
+                  }}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -520,6 +694,556 @@ function PaymentsTab({ authenticatedFetch, stats }: AdminTabProps) {
   );
 }
 
+// Refund form for a single transaction; one idempotency key per opened form
+// so a double click or retry never refunds twice
+function RefundPanel({ transaction, authenticatedFetch, onRefunded }: {
+  transaction: any;
+  authenticatedFetch: any;
+  onRefunded: (transaction: RefundResponse["transaction"]) => void;
+}) {
+  const remaining = Math.round((transaction.amount - (transaction.refundedAmount || 0)) * 100) / 100;
+  const [amount, setAmount] = useState(remaining.toFixed(2));
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const handleRefund = async () => {
+    const value = parseFloat(amount);
+    if (!(value > 0) || value > remaining) {
+      setError(`Enter an amount between 0 and ${remaining.toFixed(2)}`);
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    setMessage("");
+    try {
+      const response = await authenticatedFetch(`/api/admin/payments/${transaction.id}/refund`, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify({ amount: value, reason: reason || undefined }),
+      });
+      const data: RefundResponse = await response.json();
+
+      if (response.status === 202) {
+        setMessage(data.message || 'Refund submitted');
+      } else if (response.ok && data.success) {
+        onRefunded(data.transaction);
+      } else {
+        setError(data.message || 'Failed to process refund');
+      }
+    } catch (err) {
+      console.error('Error processing refund:', err);
+      setError('Failed to process refund');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[#E7E9FF] space-y-3">
+      <h4 className="text-sm font-semibold text-[#20242A]">
+        Refund (up to ${remaining.toFixed(2)} {transaction.currency})
+      </h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          max={remaining}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9]"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9]"
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-[#637996]">{message}</p>}
+      <button
+        onClick={handleRefund}
+        disabled={saving || !!message}
+        className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Processing...' : 'Issue Refund'}
+      </button>
+    </div>
+  );
+}
+
+// Dispute status badge colors
+function getDisputeStatusColor(status: string) {
+  switch (status) {
+    case 'won':
+    case 'warning_closed':
+      return 'bg-green-100 text-green-800';
+    case 'lost':
+      return 'bg-red-100 text-red-800';
+    case 'under_review':
+    case 'warning_under_review':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
+}
+
+// Disputes Tab Component
+function DisputesTab({ authenticatedFetch, stats }: AdminTabProps) {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedDispute, setExpandedDispute] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, []);
+
+  const fetchDisputes = async () => {
+    try {
+      const response = await authenticatedFetch('/api/admin/disputes');
+      if (response.ok) {
+        const data = await response.json();
+        setDisputes(data.disputes || []);
+      }
+    } catch (error) {
+      console.error('Error fetching disputes:', error);
+      setDisputes([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3839C9] mx-auto mb-4"></div>
+          <p className="text-[#637996]">Loading disputes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <h2 className="text-2xl font-bold text-[#3839C9] mb-6">Disputes & Chargebacks</h2>
+
+      {disputes.length > 0 ? (
+        <div className="space-y-4">
+          {disputes.map((dispute) => (
+            <div key={dispute.id} className="p-4 bg-white/50 rounded-lg border border-[#E7E9FF]">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-[#20242A]">{dispute.bookingPnr || dispute.stripeDisputeId}</h3>
+                  <p className="text-sm text-[#637996]">
+                    Reason: {dispute.reason.replace(/_/g, ' ')}
+                  </p>
+                  <p className="text-xs text-[#A2A2A2]">
+                    Opened {new Date(dispute.createdAt).toLocaleDateString()}
+                    {dispute.evidenceDueBy && !dispute.closedAt && (
+                      <> · Evidence due {new Date(dispute.evidenceDueBy).toLocaleDateString()}</>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-semibold text-[#20242A]">{dispute.currency} {dispute.amount}</p>
+                    <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${getDisputeStatusColor(dispute.status)}`}>
+                      {dispute.status.replace(/_/g, ' ')}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => setExpandedDispute(expandedDispute === dispute.id ? null : dispute.id)}
+                    className="p-2 text-[#637996] hover:text-[#3839C9] hover:bg-white/50 rounded-lg"
+                    title="Evidence"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {expandedDispute === dispute.id && (
+                <DisputeEvidencePanel
+                  dispute={dispute}
+                  authenticatedFetch={authenticatedFetch}
+                  onUpdated={(updated) =>
+                    setDisputes((current) =>
+                      current.map((d) => (d.id === updated.id ? { ...updated, bookingPnr: d.bookingPnr } : d))
+                    )
+                  }
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <ShieldAlert className="h-12 w-12 text-[#A2A2A2] mx-auto mb-4" />
+          <p className="text-[#637996]">No disputes</p>
+          <p className="text-sm text-[#A2A2A2] mt-2">Chargebacks reported by Stripe will appear here</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Evidence editor for a single dispute; submitting is final on Stripe's side
+function DisputeEvidencePanel({ dispute, authenticatedFetch, onUpdated }: {
+  dispute: Dispute;
+  authenticatedFetch: any;
+  onUpdated: (dispute: Dispute) => void;
+}) {
+  const [evidenceText, setEvidenceText] = useState(dispute.evidenceText || "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const locked = !!dispute.evidenceSubmittedAt || !!dispute.closedAt;
+
+  const handleSave = async (submit: boolean) => {
+    if (!evidenceText.trim()) return;
+    if (submit && !window.confirm('Submit this evidence to Stripe? It cannot be changed afterwards.')) return;
+
+    setSaving(true);
+    setError("");
+    try {
+      const response = await authenticatedFetch(`/api/admin/disputes/${dispute.id}/evidence`, {
+        method: 'PUT',
+        body: JSON.stringify({ evidenceText, submit }),
+      });
+      const data: DisputeResponse = await response.json();
+
+      if (response.ok && data.success && data.dispute) {
+        onUpdated(data.dispute);
+      } else {
+        setError(data.message || 'Failed to save evidence');
+      }
+    } catch (err) {
+      console.error('Error saving dispute evidence:', err);
+      setError('Failed to save evidence');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-[#E7E9FF] space-y-3">
+      <h4 className="text-sm font-semibold text-[#20242A]">Evidence</h4>
+      {dispute.evidenceSubmittedAt && (
+        <p className="text-xs text-[#637996]">
+          Submitted {new Date(dispute.evidenceSubmittedAt).toLocaleString()}
+        </p>
+      )}
+      <textarea
+        value={evidenceText}
+        onChange={(e) => setEvidenceText(e.target.value)}
+        disabled={locked}
+        rows={6}
+        placeholder="Booking details, ticket issuance, customer communication..."
+        className="w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9] disabled:opacity-60"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!locked && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={saving || !evidenceText.trim()}
+            className="px-4 py-2 border border-[#3839C9] text-[#3839C9] rounded-lg hover:bg-white/50 transition-colors disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={saving || !evidenceText.trim()}
+            className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Submit to Stripe'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Promo Codes Tab Component
+function PromoCodesTab({ authenticatedFetch }: AdminTabProps) {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null = form closed, "new" = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    try {
+      const response = await authenticatedFetch('/api/admin/promo-codes');
+      if (response.ok) {
+        const data: PromoCodesResponse = await response.json();
+        setPromoCodes(data.promoCodes || []);
+      }
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+      setPromoCodes([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaved = (saved: PromoCode) => {
+    setPromoCodes((current) =>
+      current.some((p) => p.id === saved.id)
+        ? current.map((p) => (p.id === saved.id ? saved : p))
+        : [saved, ...current]
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = async (promo: PromoCode) => {
+    if (!window.confirm(`Delete promo code ${promo.code}? Bookings that used it keep their discount.`)) return;
+
+    try {
+      const response = await authenticatedFetch(`/api/admin/promo-codes/${promo.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setPromoCodes((current) => current.filter((p) => p.id !== promo.id));
+      }
+    } catch (error) {
+      console.error('Error deleting promo code:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3839C9] mx-auto mb-4"></div>
+          <p className="text-[#637996]">Loading promo codes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-[#3839C9]">Promo Codes</h2>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            New Promo Code
+          </button>
+        )}
+      </div>
+
+      {editing === 'new' && (
+        <PromoCodeForm authenticatedFetch={authenticatedFetch} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+      )}
+
+      {promoCodes.length > 0 ? (
+        <div className="space-y-4">
+          {promoCodes.map((promo) => (
+            <div key={promo.id} className="p-4 bg-white/50 rounded-lg border border-[#E7E9FF]">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-[#20242A]">
+                    {promo.code}
+                    {!promo.active && (
+                      <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">inactive</span>
+                    )}
+                  </h3>
+                  <p className="text-sm text-[#637996]">
+                    {promo.discountType === 'percentage'
+                      ? `${promo.discountValue}% off the service fee`
+                      : `USD ${promo.discountValue} off the service fee`}
+                    {promo.description && <> · {promo.description}</>}
+                  </p>
+                  <p className="text-xs text-[#A2A2A2]">
+                    {promo.validFrom && <>From {new Date(promo.validFrom).toLocaleDateString()} · </>}
+                    {promo.validUntil && <>Until {new Date(promo.validUntil).toLocaleDateString()} · </>}
+                    {promo.routes?.length ? <>Routes {promo.routes.join(', ')} · </> : null}
+                    {promo.minPassengers && <>Min {promo.minPassengers} passengers · </>}
+                    {promo.perUserLimit && <>{promo.perUserLimit} per customer</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-semibold text-[#20242A]">
+                      {promo.redemptionCount ?? 0}
+                      {promo.maxRedemptions !== null && <> / {promo.maxRedemptions}</>}
+                    </p>
+                    <p className="text-xs text-[#637996]">redemptions</p>
+                  </div>
+                  <button
+                    onClick={() => setEditing(editing === promo.id ? null : promo.id)}
+                    className="p-2 text-[#637996] hover:text-[#3839C9] hover:bg-white/50 rounded-lg"
+                    title="Edit"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(promo)}
+                    className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editing === promo.id && (
+                <PromoCodeForm
+                  promo={promo}
+                  authenticatedFetch={authenticatedFetch}
+                  onSaved={handleSaved}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        editing !== 'new' && (
+          <div className="text-center py-8">
+            <Tag className="h-12 w-12 text-[#A2A2A2] mx-auto mb-4" />
+            <p className="text-[#637996]">No promo codes</p>
+            <p className="text-sm text-[#A2A2A2] mt-2">Create a code to offer discounts on the service fee</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// Create or edit a promo code; empty limit fields mean no limit
+function PromoCodeForm({ promo, authenticatedFetch, onSaved, onCancel }: {
+  promo?: PromoCode;
+  authenticatedFetch: any;
+  onSaved: (promo: PromoCode) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState({
+    code: promo?.code || "",
+    description: promo?.description || "",
+    discountType: promo?.discountType || "percentage",
+    discountValue: promo ? String(promo.discountValue) : "",
+    maxRedemptions: promo?.maxRedemptions ? String(promo.maxRedemptions) : "",
+    perUserLimit: promo?.perUserLimit ? String(promo.perUserLimit) : "",
+    validFrom: promo?.validFrom ? promo.validFrom.slice(0, 10) : "",
+    validUntil: promo?.validUntil ? promo.validUntil.slice(0, 10) : "",
+    minPassengers: promo?.minPassengers ? String(promo.minPassengers) : "",
+    routes: promo?.routes?.join(', ') || "",
+    active: promo ? promo.active : true,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const update = (field: keyof typeof form, value: string | boolean) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+
+    const payload: PromoCodeInput = {
+      code: form.code.trim(),
+      description: form.description.trim() || null,
+      discountType: form.discountType as PromoCodeInput['discountType'],
+      discountValue: Number(form.discountValue),
+      maxRedemptions: optionalNumber(form.maxRedemptions),
+      perUserLimit: optionalNumber(form.perUserLimit),
+      validFrom: form.validFrom ? new Date(`${form.validFrom}T00:00:00Z`).toISOString() : null,
+      validUntil: form.validUntil ? new Date(`${form.validUntil}T23:59:59Z`).toISOString() : null,
+      minPassengers: optionalNumber(form.minPassengers),
+      routes: form.routes.split(',').map((r) => r.trim()).filter(Boolean),
+      active: form.active,
+    };
+
+    try {
+      const response = await authenticatedFetch(
+        promo ? `/api/admin/promo-codes/${promo.id}` : '/api/admin/promo-codes',
+        { method: promo ? 'PUT' : 'POST', body: JSON.stringify(payload) }
+      );
+      const data: PromoCodeResponse = await response.json();
+
+      if (response.ok && data.success && data.promoCode) {
+        onSaved(data.promoCode);
+      } else {
+        setError(data.message || 'Failed to save promo code');
+      }
+    } catch (err) {
+      console.error('Error saving promo code:', err);
+      setError('Failed to save promo code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-[#E7E9FF] rounded-lg bg-white/50 focus:outline-none focus:ring-2 focus:ring-[#3839C9]";
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 mb-4 pt-4 border-t border-[#E7E9FF] space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input value={form.code} onChange={(e) => update('code', e.target.value.toUpperCase())} placeholder="CODE" required className={inputClass} />
+        <select value={form.discountType} onChange={(e) => update('discountType', e.target.value)} className={inputClass}>
+          <option value="percentage">Percentage of service fee</option>
+          <option value="fixed">Fixed amount (USD)</option>
+        </select>
+        <input type="number" min="0" step="0.01" value={form.discountValue} onChange={(e) => update('discountValue', e.target.value)} placeholder="Discount" required className={inputClass} />
+      </div>
+      <input value={form.description} onChange={(e) => update('description', e.target.value)} placeholder="Description (optional)" className={inputClass} />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input type="number" min="1" value={form.maxRedemptions} onChange={(e) => update('maxRedemptions', e.target.value)} placeholder="Max redemptions" className={inputClass} />
+        <input type="number" min="1" value={form.perUserLimit} onChange={(e) => update('perUserLimit', e.target.value)} placeholder="Uses per customer" className={inputClass} />
+        <input type="number" min="1" max="9" value={form.minPassengers} onChange={(e) => update('minPassengers', e.target.value)} placeholder="Min passengers" className={inputClass} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs text-[#637996]">
+          Valid from
+          <input type="date" value={form.validFrom} onChange={(e) => update('validFrom', e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-[#637996]">
+          Valid until
+          <input type="date" value={form.validUntil} onChange={(e) => update('validUntil', e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-[#637996]">
+          Routes
+          <input value={form.routes} onChange={(e) => update('routes', e.target.value.toUpperCase())} placeholder="LOS-LHR, *-JFK" className={inputClass} />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-[#20242A]">
+        <input type="checkbox" checked={form.active} onChange={(e) => update('active', e.target.checked)} />
+        Active
+      </label>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-[#3839C9] text-[#3839C9] rounded-lg hover:bg-white/50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-[#3839C9] text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : promo ? 'Save Changes' : 'Create Code'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 // Support Tab Component
 function SupportTab({ authenticatedFetch, stats }: AdminTabProps) {
   const [tickets, setTickets] = useState<any[]>([]);
@@ -596,3 +1320,147 @@ function SupportTab({ authenticatedFetch, stats }: AdminTabProps) {
     </div>
   );
 }
+
+type AdminUser = User & { status?: string };
+
+// Staff roles and who holds them; only admins see this tab
+function TeamTab({ authenticatedFetch }: AdminTabProps) {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async (term = search) => {
+    try {
+      const params = new URLSearchParams({ limit: '50' });
+      if (term) params.set('search', term);
+      const response = await authenticatedFetch(`/api/admin/users?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users || []);
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      setUsers([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRole = async (member: AdminUser, role: UserRole) => {
+    const granting = !member.roles.includes(role);
+    setUpdating(`${member.id}:${role}`);
+    setError("");
+
+    try {
+      const response = granting
+        ? await authenticatedFetch(`/api/admin/users/${member.id}/roles`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ role })
+          })
+        : await authenticatedFetch(`/api/admin/users/${member.id}/roles/${role}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setUsers((current) =>
+          current.map((u) => (u.id === member.id ? { ...u, roles: data.user.roles } : u))
+        );
+      } else {
+        setError(data.message || 'Failed to update roles');
+      }
+    } catch (error) {
+      console.error('Error updating roles:', error);
+      setError('Failed to update roles');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#3839C9] mx-auto mb-4"></div>
+          <p className="text-[#637996]">Loading users...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 shadow-xl border border-[#E7E9FF]">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-[#3839C9]">Team & Roles</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            fetchUsers(search);
+          }}
+          className="flex items-center gap-2"
+        >
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A2A2A2]" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or email"
+              className="pl-9 pr-3 py-2 rounded-lg border border-[#E7E9FF] bg-white text-sm"
+            />
+          </div>
+        </form>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {users.length > 0 ? (
+        <div className="space-y-4">
+          {users.map((member) => (
+            <div key={member.id} className="p-4 bg-white/50 rounded-lg border border-[#E7E9FF]">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold text-[#20242A]">
+                    {member.firstName} {member.lastName}
+                    {member.id === currentUser?.id && <span className="text-xs text-[#A2A2A2] ml-2">(you)</span>}
+                  </h3>
+                  <p className="text-sm text-[#637996]">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {STAFF_ROLES.map((role) => {
+                    const active = member.roles.includes(role);
+                    return (
+                      <button
+                        key={role}
+                        onClick={() => toggleRole(member, role)}
+                        disabled={updating === `${member.id}:${role}`}
+                        title={active ? `Revoke ${ROLE_LABELS[role]}` : `Grant ${ROLE_LABELS[role]}`}
+                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-50 ${
+                          active
+                            ? "bg-[#3839C9] text-white hover:bg-blue-700"
+                            : "bg-gray-100 text-[#637996] hover:bg-gray-200"
+                        }`}
+                      >
+                        {ROLE_LABELS[role]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <UserCog className="h-12 w-12 text-[#A2A2A2] mx-auto mb-4" />
+          <p className="text-[#637996]">No users found</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,11 +12,16 @@ import {
   Clock,
   XCircle,
   AlertCircle,
-  ArrowLeft
+  ArrowLeft,
+  History,
+  RotateCcw
 } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
 import { useAuthenticatedFetch } from "../hooks/useAuth";
 import { Booking } from "@shared/api";
+import { downloadCalendar, openTicket } from "../lib/tickets";
+import BookingTimeline from "../components/BookingTimeline";
+import WalletButtons from "../components/WalletButtons";
 
 export default function BookingHistory() {
   const navigate = useNavigate();
@@ -28,6 +33,7 @@ export default function BookingHistory() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [sortBy, setSortBy] = useState<"date" | "status" | "amount">("date");
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
 
   useEffect(() => {
     fetchBookings();
@@ -49,14 +55,36 @@ export default function BookingHistory() {
     }
   };
 
+  const handleOpenTicket = async (booking: Booking) => {
+    try {
+      await openTicket(booking, authenticatedFetch);
+    } catch (err) {
+      console.error("Error opening ticket:", err);
+      setError("Could not open your ticket. Please try again.");
+    }
+  };
+
+  const handleDownloadCalendar = async (booking: Booking) => {
+    try {
+      await downloadCalendar(booking, authenticatedFetch);
+    } catch (err) {
+      console.error("Error downloading calendar:", err);
+      setError("Could not download the calendar file. Please try again.");
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case "confirmed":
+      case "ticketed":
         return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case "paid":
+        return <CheckCircle className="w-5 h-5 text-blue-500" />;
       case "pending":
         return <Clock className="w-5 h-5 text-yellow-500" />;
       case "cancelled":
         return <XCircle className="w-5 h-5 text-red-500" />;
+      case "refunded":
+        return <RotateCcw className="w-5 h-5 text-purple-500" />;
       case "expired":
         return <AlertCircle className="w-5 h-5 text-gray-500" />;
       default:
@@ -70,12 +98,16 @@ export default function BookingHistory() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case "confirmed":
+      case "ticketed":
         return "bg-green-100 text-green-700";
+      case "paid":
+        return "bg-blue-100 text-blue-700";
       case "pending":
         return "bg-yellow-100 text-yellow-700";
       case "cancelled":
         return "bg-red-100 text-red-700";
+      case "refunded":
+        return "bg-purple-100 text-purple-700";
       case "expired":
         return "bg-gray-100 text-gray-700";
       default:
@@ -190,9 +222,11 @@ export default function BookingHistory() {
                 className="px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
               >
                 <option value="all">All Status</option>
-                <option value="confirmed">Confirmed</option>
                 <option value="pending">Pending</option>
+                <option value="paid">Paid</option>
+                <option value="ticketed">Ticketed</option>
                 <option value="cancelled">Cancelled</option>
+                <option value="refunded">Refunded</option>
                 <option value="expired">Expired</option>
               </select>
 
@@ -296,13 +330,45 @@ export default function BookingHistory() {
                       View Details
                     </button>
                     {booking.ticketUrl && (
-                      <button className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors">
+                      <button
+                        onClick={() => handleOpenTicket(booking)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+                      >
                         <Download className="w-4 h-4" />
                         Download
                       </button>
                     )}
+                    {booking.calendarUrl && (
+                      <button
+                        onClick={() => handleDownloadCalendar(booking)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+                      >
+                        <Calendar className="w-4 h-4" />
+                        Add to Calendar
+                      </button>
+                    )}
+                    {booking.walletUrl && (
+                      <WalletButtons
+                        walletUrl={booking.walletUrl}
+                        fetcher={authenticatedFetch}
+                      />
+                    )}
+                    <button
+                      onClick={() => setExpandedHistory(expandedHistory === booking.id ? null : booking.id)}
+                      className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-[#20242A] rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                      {expandedHistory === booking.id ? "Hide History" : "History"}
+                    </button>
                   </div>
                 </div>
+
+                {expandedHistory === booking.id && (
+                  <div className="mt-6 pt-6 border-t border-gray-200">
+                    <h4 className="font-semibold text-[#20242A] mb-4">Status History</h4>
+                    <BookingTimeline bookingId={booking.id} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -10,9 +10,19 @@ import {
   AlertCircle,
 } from "lucide-react";
 import QRCodeDisplay from "../components/QRCodeDisplay";
+import WalletButtons from "../components/WalletButtons";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
-import { FlightRoute, Passenger, BookingRequest } from "@shared/api";
+import {
+  Booking,
+  FlightRoute,
+  Passenger,
+  BookingRequest,
+  Quote,
+  SeatSelection,
+} from "@shared/api";
+import { requestQuote, isQuoteExpired, validatePromoCode } from "../lib/quotes";
+import { loadSeatSelections } from "../lib/seats";
 
 interface ConfirmationProps {
   onNext: () => void;
@@ -26,6 +36,7 @@ interface BookingData {
   passengers: Passenger[];
   contactEmail: string;
   selectedFlight: any | null;
+  seats: SeatSelection[];
 }
 
 export default function Confirmation({
@@ -39,11 +50,19 @@ export default function Confirmation({
   const [acceptTerms, setAcceptTerms] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [promoError, setPromoError] = useState("");
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  // Booking already created from this page, e.g. when coming back from payment
+  const [createdBooking, setCreatedBooking] = useState<Booking | null>(null);
   const [bookingData, setBookingData] = useState<BookingData>({
     route: null,
     passengers: [],
     contactEmail: "",
     selectedFlight: null,
+    seats: [],
   });
 
   // Load saved booking data
@@ -81,11 +100,19 @@ export default function Confirmation({
           contactEmail = savedContactEmail;
         }
 
+        const savedBooking = localStorage.getItem("currentBooking");
+        if (savedBooking) {
+          setCreatedBooking(JSON.parse(savedBooking));
+        }
+
         setBookingData({
           route,
           passengers,
           contactEmail,
           selectedFlight,
+          seats: route
+            ? loadSeatSelections(route, selectedFlight, passengers.length)
+            : [],
         });
 
         console.log("Loaded booking data:", {
@@ -103,21 +130,60 @@ export default function Confirmation({
     loadBookingData();
   }, []);
 
-  // Calculate total amount based on selected flight or fallback to $15
-  const calculateTotalAmount = () => {
-    if (bookingData.selectedFlight && bookingData.selectedFlight.price) {
-      const flightPrice = parseFloat(bookingData.selectedFlight.price.total);
-      return flightPrice * bookingData.passengers.length;
+  // Price the booking on the server; the quote is what will be charged
+  useEffect(() => {
+    if (!bookingData.route || bookingData.passengers.length === 0) {
+      return;
+    }
+
+    requestQuote(
+      bookingData.route,
+      bookingData.passengers.length,
+      bookingData.selectedFlight,
+      { promoCode, seats: bookingData.seats },
+    )
+      .then(setQuote)
+      .catch((quoteError) => {
+        console.error("Error pricing booking:", quoteError);
+        setError(quoteError.message);
+      });
+  }, [bookingData, promoCode]);
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim() || !bookingData.route) {
+      return;
+    }
+
+    setApplyingPromo(true);
+    setPromoError("");
+
+    try {
+      const result = await validatePromoCode(
+        promoInput.trim(),
+        bookingData.route,
+        bookingData.passengers.length,
+        quote?.currency,
+        bookingData.contactEmail,
+      );
+
+      if (result.valid) {
+        setPromoCode(result.code);
+      } else {
+        setPromoError(result.message || "This promo code cannot be applied");
+      }
+    } catch (promoCheckError) {
+      console.error("Error checking promo code:", promoCheckError);
+      setPromoError("Could not check the promo code. Please try again.");
+    } finally {
+      setApplyingPromo(false);
     }
-    // Fallback to $15 per passenger if no flight selected
-    return bookingData.passengers.length * 15;
   };
 
-  const totalAmount = calculateTotalAmount();
-  const basePrice =
-    bookingData.selectedFlight && bookingData.selectedFlight.price
-      ? parseFloat(bookingData.selectedFlight.price.total)
-      : 15;
+  const handleRemovePromo = () => {
+    setPromoCode("");
+    setPromoInput("");
+    setPromoError("");
+  };
 
   // Handle booking creation (simplified for guest checkout)
   const handleCreateBooking = async () => {
@@ -137,13 +203,25 @@ export default function Confirmation({
     setError("");
 
     try {
+      // Quotes expire; re-price if the customer lingered on this page
+      let currentQuote = quote;
+      if (!currentQuote || isQuoteExpired(currentQuote)) {
+        currentQuote = await requestQuote(
+          bookingData.route,
+          bookingData.passengers.length,
+          bookingData.selectedFlight,
+          { promoCode, seats: bookingData.seats },
+        );
+        setQuote(currentQuote);
+      }
+
       const bookingRequest: BookingRequest = {
         route: bookingData.route,
         passengers: bookingData.passengers,
         contactEmail: bookingData.contactEmail,
         termsAccepted: acceptTerms,
         selectedFlight: bookingData.selectedFlight || null,
-        totalAmount: totalAmount,
+        quoteId: currentQuote.id,
         guestCheckout: true, // Always use guest checkout for simplicity
       };
 
@@ -203,6 +281,14 @@ export default function Confirmation({
               Passengers
             </button>
           </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => onNavigate("seats")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Seats
+            </button>
+          </div>
           <div className="flex items-center gap-4">
             <button className="text-2xl font-bold">Confirmation</button>
           </div>
@@ -313,6 +399,17 @@ export default function Confirmation({
                     <div className="text-sm text-white/70">
                       {passenger.email}
                     </div>
+                    {bookingData.seats.some(
+                      (seat) => seat.passengerIndex === index,
+                    ) && (
+                      <div className="text-sm text-white/70">
+                        Seat{" "}
+                        {bookingData.seats
+                          .filter((seat) => seat.passengerIndex === index)
+                          .map((seat) => seat.seatNumber)
+                          .join(", ")}
+                      </div>
+                    )}
                   </div>
                 ))}
 
@@ -359,24 +456,98 @@ export default function Confirmation({
                     </div>
                   </div>
                 )}
-                <div className="flex justify-between">
-                  <span className="text-white/70">
-                    Base price per passenger
-                  </span>
-                  <span className="font-semibold">${basePrice.toFixed(2)}</span>
-                </div>
                 <div className="flex justify-between">
                   <span className="text-white/70">Number of passengers</span>
                   <span className="font-semibold">
                     {bookingData.passengers.length}
                   </span>
                 </div>
+                {quote && quote.fare > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-white/70">Flight fare</span>
+                    <span className="font-semibold">
+                      {quote.currency} {quote.fare.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {quote && quote.taxes > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-white/70">Taxes</span>
+                    <span className="font-semibold">
+                      {quote.currency} {quote.taxes.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {quote && quote.seatFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-white/70">Seat fees</span>
+                    <span className="font-semibold">
+                      {quote.currency} {quote.seatFees.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {quote && (
+                  <div className="flex justify-between">
+                    <span className="text-white/70">Service fee</span>
+                    <span className="font-semibold">
+                      {quote.currency} {quote.serviceFee.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {quote && quote.discount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-white/70">
+                      Promo {quote.promoCode}
+                    </span>
+                    <span className="font-semibold">
+                      -{quote.currency} {quote.discount.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                <div className="pt-3">
+                  {promoCode ? (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-white/70">
+                        Promo code {promoCode} applied
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleRemovePromo}
+                        className="text-ticket-accent font-semibold hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value)}
+                        placeholder="Promo code"
+                        className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder:text-white/50 uppercase focus:outline-none focus:ring-2 focus:ring-ticket-accent"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleApplyPromo}
+                        disabled={applyingPromo || !promoInput.trim()}
+                        className="px-4 py-2 rounded-lg bg-ticket-accent text-white font-semibold disabled:opacity-50"
+                      >
+                        {applyingPromo ? "Checking..." : "Apply"}
+                      </button>
+                    </div>
+                  )}
+                  {promoError && (
+                    <p className="mt-2 text-sm text-red-300">{promoError}</p>
+                  )}
+                </div>
                 <div className="pt-3 border-t border-white/20">
                   <div className="flex justify-between text-lg">
                     <span className="font-bold">Total Amount</span>
                     <span className="font-bold text-ticket-accent">
-                      {bookingData.selectedFlight?.price?.currency || "$"}
-                      {totalAmount.toFixed(2)}
+                      {quote
+                        ? `${quote.currency} ${quote.total.toFixed(2)}`
+                        : "Calculating..."}
                     </span>
                   </div>
                 </div>
@@ -400,6 +571,14 @@ export default function Confirmation({
                     Scan this QR code with your phone to quickly access your
                     booking details anytime
                   </p>
+                  {createdBooking?.walletUrl && (
+                    <div className="mt-4 w-full">
+                      <p className="text-sm text-white/80 mb-2">
+                        Booking {createdBooking.pnr} is ready for your phone:
+                      </p>
+                      <WalletButtons walletUrl={createdBooking.walletUrl} />
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -493,7 +672,7 @@ export default function Confirmation({
                 disabled={loading}
                 className="w-full bg-transparent border-2 border-white/40 hover:border-white/60 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
               >
-                Back to Passengers
+                Back to Seats
               </button>
             </div>
           </div>
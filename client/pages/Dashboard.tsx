@@ -10,11 +10,18 @@ import {
   Download,
   Clock,
   CheckCircle,
-  XCircle
+  XCircle,
+  Shield
 } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
 import { useAuthenticatedFetch } from "../hooks/useAuth";
 import { Booking, UserDashboardData } from "@shared/api";
+import { isStaff } from "@shared/roles";
+import { openTicket } from "../lib/tickets";
+import CalendarFeedCard from "../components/CalendarFeedCard";
+import SessionsCard from "../components/SessionsCard";
+import TwoFactorCard from "../components/TwoFactorCard";
+import EmailVerificationBanner from "../components/EmailVerificationBanner";
 
 export default function Dashboard() {
   const navigate = useNavigate();
@@ -49,9 +56,19 @@ export default function Dashboard() {
     navigate("/");
   };
 
+  const handleOpenTicket = async (booking: Booking) => {
+    try {
+      await openTicket(booking, authenticatedFetch);
+    } catch (err) {
+      console.error("Error opening ticket:", err);
+      setError("Could not open your ticket. Please try again.");
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case "confirmed":
+      case "paid":
+      case "ticketed":
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case "pending":
         return <Clock className="w-5 h-5 text-yellow-500" />;
@@ -91,6 +108,15 @@ export default function Dashboard() {
             />
           </div>
           <div className="flex items-center gap-4">
+            {isStaff(user) && (
+              <button
+                onClick={() => navigate("/admin")}
+                className="px-8 py-2 text-brand-text-primary font-bold text-lg hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Shield className="w-4 h-4" />
+                Admin
+              </button>
+            )}
             <button
               onClick={() => navigate("/register")}
               className="px-8 py-2 bg-[#3839C9] text-white font-bold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md"
@@ -110,6 +136,8 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 md:px-12 py-8">
+        <EmailVerificationBanner />
+
         {/* Welcome Section */}
         <div className="bg-white/60 backdrop-blur-md rounded-[24px] p-8 md:p-12 shadow-xl border border-[#E7E9FF] mb-8">
           <div className="flex flex-col md:flex-row items-start md:items-center justify-between">
@@ -202,7 +230,7 @@ export default function Dashboard() {
                         </span>
                       </div>
                       <span className={`text-sm px-2 py-1 rounded ${
-                        booking.status === 'confirmed' ? 'bg-green-100 text-green-700' :
+                        booking.status === 'paid' || booking.status === 'ticketed' ? 'bg-green-100 text-green-700' :
                         booking.status === 'pending' ? 'bg-yellow-100 text-yellow-700' :
                         'bg-red-100 text-red-700'
                       }`}>
@@ -226,7 +254,10 @@ export default function Dashboard() {
                         {booking.totalAmount} {booking.currency}
                       </span>
                       {booking.ticketUrl && (
-                        <button className="flex items-center gap-1 text-[#3839C9] hover:text-blue-700 text-sm">
+                        <button
+                          onClick={() => handleOpenTicket(booking)}
+                          className="flex items-center gap-1 text-[#3839C9] hover:text-blue-700 text-sm"
+                        >
                           <Download className="w-4 h-4" />
                           Download
                         </button>
@@ -275,7 +306,10 @@ export default function Dashboard() {
                         {trip.passengers.length} passenger{trip.passengers.length > 1 ? 's' : ''}
                       </span>
                       {trip.ticketUrl && (
-                        <button className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded text-sm transition-colors">
+                        <button
+                          onClick={() => handleOpenTicket(trip)}
+                          className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded text-sm transition-colors"
+                        >
                           View Ticket
                         </button>
                       )}
@@ -327,6 +361,12 @@ export default function Dashboard() {
             </button>
           </div>
         </div>
+
+        <CalendarFeedCard />
+
+        <SessionsCard />
+
+        <TwoFactorCard />
       </div>
 
       {/* Footer */}
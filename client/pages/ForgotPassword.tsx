@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Mail } from "lucide-react";
+import { AuthResponse, ForgotPasswordRequest } from "@shared/api";
+import SimpleHeader from "../components/SimpleHeader";
+import Footer from "../components/Footer";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setError("Please enter your email address");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const request: ForgotPasswordRequest = { email };
+      const response = await fetch("/api/auth/password/forgot", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+      const data: AuthResponse = await response.json();
+
+      if (data.success) {
+        setMessage(data.message || "Check your email for a reset link.");
+      } else {
+        setError(data.message || "Something went wrong. Please try again.");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#E7E9FF] font-jakarta">
+      {/* Header */}
+      <SimpleHeader showSignUp={true} />
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 md:px-12 py-8 md:py-16">
+        <div className="max-w-md mx-auto">
+          <div className="bg-white/90 backdrop-blur-md rounded-[24px] p-8 md:p-12 shadow-xl border border-[#E7E9FF]">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl md:text-4xl font-extrabold text-[#3839C9] mb-4">
+                Forgot Password
+              </h1>
+              <p className="text-lg text-[#637996] mb-6">
+                Enter your email and we'll send you a link to reset your
+                password
+              </p>
+            </div>
+
+            {message && (
+              <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-green-700 text-sm font-medium">
+                  ✅ {message}
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-700 text-sm font-medium">{error}</p>
+              </div>
+            )}
+
+            {!message && (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Email Field */}
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-semibold text-[#637996] mb-2"
+                  >
+                    Email Address
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+                    <input
+                      type="email"
+                      id="email"
+                      name="email"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        if (error) setError("");
+                      }}
+                      placeholder="Enter your email"
+                      className="w-full pl-12 pr-4 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
+                      required
+                    />
+                  </div>
+                </div>
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className={`w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg ${
+                    loading
+                      ? "bg-gray-400 text-gray-600 cursor-not-allowed"
+                      : "bg-[#3839C9] text-white hover:bg-blue-700"
+                  }`}
+                >
+                  {loading ? "Sending..." : "Send Reset Link"}
+                </button>
+              </form>
+            )}
+
+            <div className="mt-8 text-center text-[#637996]">
+              Remembered it?{" "}
+              <Link
+                to="/login"
+                className="text-[#3839C9] hover:text-blue-700 font-semibold"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <Footer />
+    </div>
+  );
+}
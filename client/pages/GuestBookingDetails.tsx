@@ -3,7 +3,11 @@ import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Download, ArrowLeft, Mail, Phone } from "lucide-react";
+import { Download, ArrowLeft, Calendar, Mail, Phone } from "lucide-react";
+import { BoardingPass } from "@shared/api";
+import QRCodeDisplay from "@/components/QRCodeDisplay";
+import WalletButtons from "@/components/WalletButtons";
+import { downloadCalendar } from "@/lib/tickets";
 
 interface GuestBooking {
   id: string;
@@ -26,7 +30,10 @@ interface GuestBooking {
   currency: string;
   createdAt: string;
   ticketUrl?: string;
+  walletUrl?: string;
+  calendarUrl?: string;
   isGuest: boolean;
+  boardingPasses?: BoardingPass[];
 }
 
 export default function GuestBookingDetails() {
@@ -57,7 +64,8 @@ export default function GuestBookingDetails() {
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case "confirmed":
+      case "paid":
+      case "ticketed":
         return "bg-green-100 text-green-800";
       case "pending":
         return "bg-yellow-100 text-yellow-800";
@@ -74,6 +82,14 @@ export default function GuestBookingDetails() {
     }
   };
 
+  const handleDownloadCalendar = async () => {
+    try {
+      await downloadCalendar(booking);
+    } catch (err) {
+      console.error("Error downloading calendar:", err);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -204,6 +220,32 @@ export default function GuestBookingDetails() {
           </CardContent>
         </Card>
 
+        {/* Boarding passes, the same barcodes as on the e-ticket */}
+        {booking.boardingPasses?.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>🎫 Boarding Passes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid md:grid-cols-2 gap-6">
+                {booking.boardingPasses.map((pass) => (
+                  <QRCodeDisplay
+                    key={pass.bcbp}
+                    value={pass.bcbp}
+                    format={pass.format}
+                    size={pass.format === "pdf417" ? 280 : 160}
+                    title={`${pass.passengerName} · ${pass.itinerary}`}
+                    className="p-3 bg-gray-50 rounded-lg"
+                  />
+                ))}
+              </div>
+              {booking.walletUrl && (
+                <WalletButtons walletUrl={booking.walletUrl} className="mt-6" />
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Payment Information */}
         <Card className="mb-6">
           <CardHeader>
@@ -244,6 +286,13 @@ export default function GuestBookingDetails() {
                 </Button>
               )}
 
+              {booking.calendarUrl && (
+                <Button variant="outline" onClick={handleDownloadCalendar}>
+                  <Calendar className="h-4 w-4 mr-2" />
+                  Add to Calendar
+                </Button>
+              )}
+
               <Button variant="outline" onClick={() => navigate("/contact")}>
                 <Phone className="h-4 w-4 mr-2" />
                 Contact Support
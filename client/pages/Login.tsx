@@ -7,9 +7,11 @@ import {
 } from "react-router-dom";
 import { Mail, Lock, Eye, EyeOff } from "lucide-react";
 import { useAuth } from "../hooks/useAuth";
-import { LoginRequest } from "@shared/api";
+import { AuthResponse, LoginRequest } from "@shared/api";
 import SimpleHeader from "../components/SimpleHeader";
 import Footer from "../components/Footer";
+import TwoFactorChallenge from "../components/TwoFactorChallenge";
+import RecoveryCodesList from "../components/RecoveryCodesList";
 
 export default function Login() {
   const navigate = useNavigate();
@@ -20,6 +22,9 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [isAdminRequired, setIsAdminRequired] = useState(false);
+  // Set while the second login step is shown
+  const [challenge, setChallenge] = useState<AuthResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   const [formData, setFormData] = useState<LoginRequest>({
     email: "",
@@ -27,6 +32,7 @@ export default function Login() {
   });
 
   const [showVerifiedMessage, setShowVerifiedMessage] = useState(false);
+  const [showResetMessage, setShowResetMessage] = useState(false);
 
   // Check if admin access is required and if user is already authenticated
   useEffect(() => {
@@ -34,13 +40,29 @@ export default function Login() {
     const verified = searchParams.get("verified") === "true";
     setIsAdminRequired(adminRequired);
     setShowVerifiedMessage(verified);
+    setShowResetMessage(searchParams.get("reset") === "true");
 
     // If user is already authenticated, redirect them
-    if (isAuthenticated) {
+    if (isAuthenticated && !challenge) {
       const redirectTo = location.state?.from || "/dashboard";
       navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, navigate, location.state, searchParams]);
+  }, [isAuthenticated, navigate, location.state, searchParams, challenge]);
+
+  // Redirect to the page they were trying to access, or dashboard
+  const finishLogin = () => {
+    const redirectTo = location.state?.from || "/dashboard";
+    navigate(redirectTo, { replace: true });
+  };
+
+  const handleTwoFactorComplete = (response: AuthResponse) => {
+    if (response.recoveryCodes) {
+      // Enrolled while signing in; show the codes before moving on
+      setRecoveryCodes(response.recoveryCodes);
+    } else {
+      finishLogin();
+    }
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -65,10 +87,10 @@ export default function Login() {
     try {
       const response = await login(formData);
 
-      if (response.success) {
-        // Redirect to the page they were trying to access, or dashboard
-        const redirectTo = location.state?.from || "/dashboard";
-        navigate(redirectTo, { replace: true });
+      if (response.success && response.twoFactorRequired) {
+        setChallenge(response);
+      } else if (response.success) {
+        finishLogin();
       } else {
         setError(response.message || "Login failed. Please try again.");
       }
@@ -93,7 +115,9 @@ export default function Login() {
                 Welcome Back
               </h1>
               <p className="text-lg text-[#637996] mb-6">
-                {isAdminRequired
+                {challenge
+                  ? "Two-factor authentication"
+                  : isAdminRequired
                   ? "Admin access required. Please sign in with admin credentials."
                   : "Sign in to your account to manage your bookings"}
               </p>
@@ -122,119 +146,153 @@ export default function Login() {
               </div>
             )}
 
+            {showResetMessage && (
+              <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-green-700 text-sm font-medium">
+                  ✅ Your password has been reset. Sign in with your new
+                  password.
+                </p>
+              </div>
+            )}
+
             {error && (
               <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
                 <p className="text-red-700 text-sm font-medium">{error}</p>
               </div>
             )}
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Email Field */}
-              <div>
-                <label
-                  htmlFor="email"
-                  className="block text-sm font-semibold text-[#637996] mb-2"
+            {recoveryCodes ? (
+              <div className="space-y-6">
+                <RecoveryCodesList codes={recoveryCodes} />
+                <button
+                  type="button"
+                  onClick={finishLogin}
+                  className="w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg bg-[#3839C9] text-white hover:bg-blue-700"
                 >
-                  Email Address
-                </label>
-                <div className="relative">
-                  <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
-                  <input
-                    type="email"
-                    id="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    placeholder="Enter your email"
-                    className="w-full pl-12 pr-4 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
-                    required
-                  />
-                </div>
+                  Continue
+                </button>
               </div>
+            ) : challenge?.challengeToken ? (
+              <TwoFactorChallenge
+                challengeToken={challenge.challengeToken}
+                setupRequired={challenge.twoFactorSetupRequired}
+                onComplete={handleTwoFactorComplete}
+                onCancel={() => {
+                  setChallenge(null);
+                  setFormData({ ...formData, password: "" });
+                }}
+              />
+            ) : (
+              <>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  {/* Email Field */}
+                  <div>
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-semibold text-[#637996] mb-2"
+                    >
+                      Email Address
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+                      <input
+                        type="email"
+                        id="email"
+                        name="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        placeholder="Enter your email"
+                        className="w-full pl-12 pr-4 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
+                        required
+                      />
+                    </div>
+                  </div>
 
-              {/* Password Field */}
-              <div>
-                <label
-                  htmlFor="password"
-                  className="block text-sm font-semibold text-[#637996] mb-2"
-                >
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
-                  <input
-                    type={showPassword ? "text" : "password"}
-                    id="password"
-                    name="password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    placeholder="Enter your password"
-                    className="w-full pl-12 pr-12 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
-                    required
-                  />
+                  {/* Password Field */}
+                  <div>
+                    <label
+                      htmlFor="password"
+                      className="block text-sm font-semibold text-[#637996] mb-2"
+                    >
+                      Password
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+                      <input
+                        type={showPassword ? "text" : "password"}
+                        id="password"
+                        name="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        placeholder="Enter your password"
+                        className="w-full pl-12 pr-12 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-4 top-1/2 transform -translate-y-1/2 text-[#637996] hover:text-[#3839C9]"
+                      >
+                        {showPassword ? (
+                          <EyeOff className="w-5 h-5" />
+                        ) : (
+                          <Eye className="w-5 h-5" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Quick Admin Login Button */}
+                  {process.env.NODE_ENV === 'development' && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setFormData({
+                          email: "onboard@admin.com",
+                          password: "onboardadmin"
+                        });
+                      }}
+                      className="w-full py-2 mb-4 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 font-medium text-sm transition-colors"
+                    >
+                      🔧 Fill Admin Credentials (Dev)
+                    </button>
+                  )}
+
+                  {/* Submit Button */}
                   <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-4 top-1/2 transform -translate-y-1/2 text-[#637996] hover:text-[#3839C9]"
+                    type="submit"
+                    disabled={loading}
+                    className={`w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg ${
+                      loading
+                        ? "bg-gray-400 text-gray-600 cursor-not-allowed"
+                        : "bg-[#3839C9] text-white hover:bg-blue-700"
+                    }`}
                   >
-                    {showPassword ? (
-                      <EyeOff className="w-5 h-5" />
-                    ) : (
-                      <Eye className="w-5 h-5" />
-                    )}
+                    {loading ? "Signing In..." : "Sign In"}
                   </button>
-                </div>
-              </div>
+                </form>
 
-              {/* Quick Admin Login Button */}
-              {process.env.NODE_ENV === 'development' && (
-                <button
-                  type="button"
-                  onClick={() => {
-                    setFormData({
-                      email: "onboard@admin.com",
-                      password: "onboardadmin"
-                    });
-                  }}
-                  className="w-full py-2 mb-4 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 font-medium text-sm transition-colors"
-                >
-                  🔧 Fill Admin Credentials (Dev)
-                </button>
-              )}
-
-              {/* Submit Button */}
-              <button
-                type="submit"
-                disabled={loading}
-                className={`w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg ${
-                  loading
-                    ? "bg-gray-400 text-gray-600 cursor-not-allowed"
-                    : "bg-[#3839C9] text-white hover:bg-blue-700"
-                }`}
-              >
-                {loading ? "Signing In..." : "Sign In"}
-              </button>
-            </form>
-
-            {/* Forgot Password & Sign Up Links */}
-            <div className="mt-8 text-center space-y-4">
-              <Link
-                to="/forgot-password"
-                className="text-[#3839C9] hover:text-blue-700 font-medium"
-              >
-                Forgot your password?
-              </Link>
-
-              <div className="text-[#637996]">
-                Don't have an account?{" "}
-                <Link
-                  to="/register"
-                  className="text-[#3839C9] hover:text-blue-700 font-semibold"
-                >
-                  Sign up here
-                </Link>
-              </div>
-            </div>
+                {/* Forgot Password & Sign Up Links */}
+                <div className="mt-8 text-center space-y-4">
+                  <Link
+                    to="/forgot-password"
+                    className="text-[#3839C9] hover:text-blue-700 font-medium"
+                  >
+                    Forgot your password?
+                  </Link>
+
+                  <div className="text-[#637996]">
+                    Don't have an account?{" "}
+                    <Link
+                      to="/register"
+                      className="text-[#3839C9] hover:text-blue-700 font-semibold"
+                    >
+                      Sign up here
+                    </Link>
+                  </div>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
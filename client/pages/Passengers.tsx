@@ -225,6 +225,14 @@ export default function Passengers({
           <div className="flex items-center gap-4">
             <button className="text-2xl font-bold">Passengers</button>
           </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate("/userform/seats")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Seats
+            </button>
+          </div>
           <div className="flex items-center gap-4">
             <button
               onClick={() => navigate("/userform/confirmation")}
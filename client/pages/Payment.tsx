@@ -9,11 +9,26 @@ import {
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useFormValidation } from "../hooks/useFormValidation";
-import { PaymentRequest, PaymentResponse } from "@shared/api";
+import {
+  FlightRoute,
+  PaymentRequest,
+  PaymentResponse,
+  Quote,
+} from "@shared/api";
 import { useAuth } from "../hooks/useAuth";
 import { useAuthenticatedFetch } from "../hooks/useAuth";
 import StripePaymentForm from "../components/StripePaymentForm";
 import { countries } from "../lib/countries";
+import { requestQuote, requoteBooking, isQuoteExpired } from "../lib/quotes";
+import { getBookingSeats, loadSeatSelections } from "../lib/seats";
+import {
+  BASE_CURRENCY,
+  CURRENCY_NAMES,
+  CurrencyCode,
+  PAYPAL_CURRENCIES,
+  SUPPORTED_CURRENCIES,
+  formatMoney,
+} from "@shared/currency";
 
 export default function Payment() {
   const navigate = useNavigate();
@@ -27,6 +42,9 @@ export default function Payment() {
   const [passengerData, setPassengerData] = useState<any>(null);
   const [routeData, setRouteData] = useState<any>(null);
   const [selectedFlight, setSelectedFlight] = useState<any>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const [changingCurrency, setChangingCurrency] = useState(false);
   const [paypalLoading, setPaypalLoading] = useState(false);
   const [stripeConfig, setStripeConfig] = useState<{
     publishableKey: string | null;
@@ -126,6 +144,9 @@ export default function Payment() {
       try {
         const booking = JSON.parse(savedBooking);
         setBookingData(booking);
+        if (booking.currency) {
+          setCurrency(booking.currency);
+        }
         console.log("Loaded booking data for payment:", booking);
       } catch (error) {
         console.error("Error parsing booking data:", error);
@@ -236,33 +257,126 @@ export default function Payment() {
     }, 100);
   };
 
-  const calculateTotal = () => {
-    const passengerCount = passengerData?.passengers?.length || 1;
+  // Bookings are charged from a server quote; reuse it until it expires
+  const getQuote = async (route: FlightRoute) => {
+    if (quote && !isQuoteExpired(quote) && quote.currency === currency) {
+      return quote;
+    }
 
-    // Use selected flight pricing if available
-    if (selectedFlight && selectedFlight.price) {
-      const flightPrice = parseFloat(selectedFlight.price.total);
-      return flightPrice * passengerCount;
+    const freshQuote = await requestQuote(
+      route,
+      passengerData.passengers.length,
+      selectedFlight,
+      {
+        currency,
+        promoCode: bookingData?.promoCode,
+        seats: loadSeatSelections(
+          route,
+          selectedFlight,
+          passengerData.passengers.length,
+        ),
+      },
+    );
+    setQuote(freshQuote);
+    return freshQuote;
+  };
+
+  // Price the booking for display until it has been created
+  useEffect(() => {
+    if (bookingData || !routeData || !passengerData?.passengers?.length) {
+      return;
     }
 
-    // Fallback to $15 per passenger
-    return passengerCount * 15;
+    requestQuote(routeData, passengerData.passengers.length, selectedFlight, {
+      currency,
+      seats: loadSeatSelections(
+        routeData,
+        selectedFlight,
+        passengerData.passengers.length,
+      ),
+    })
+      .then(setQuote)
+      .catch((quoteError) => {
+        console.error("Error pricing booking:", quoteError);
+        setError(quoteError.message);
+      });
+  }, [bookingData, routeData, passengerData, selectedFlight, currency]);
+
+  // Switching currency re-prices the booking from a new quote
+  const handleCurrencyChange = async (nextCurrency: CurrencyCode) => {
+    if (nextCurrency === getCurrency()) {
+      return;
+    }
+
+    if (
+      selectedPaymentMethod === "paypal" &&
+      !PAYPAL_CURRENCIES.includes(nextCurrency)
+    ) {
+      setSelectedPaymentMethod("stripe");
+    }
+
+    if (!bookingData) {
+      setCurrency(nextCurrency);
+      return;
+    }
+
+    setChangingCurrency(true);
+    setError("");
+
+    try {
+      const newQuote = await requestQuote(
+        routeData || bookingData.route,
+        passengerData?.passengers?.length || bookingData.passengers.length,
+        bookingData.selectedFlight || selectedFlight,
+        {
+          currency: nextCurrency,
+          promoCode: bookingData.promoCode,
+          // A new quote has to hold the seats the booking was made with
+          seats: getBookingSeats(bookingData),
+        },
+      );
+      const booking = await requoteBooking(
+        bookingData,
+        newQuote.id,
+        passengerData?.contactEmail || user?.email || "",
+        authenticatedFetch,
+      );
+
+      setQuote(newQuote);
+      setCurrency(nextCurrency);
+      setBookingData(booking);
+      localStorage.setItem("currentBooking", JSON.stringify(booking));
+    } catch (currencyError) {
+      console.error("Error changing currency:", currencyError);
+      setError(
+        currencyError instanceof Error
+          ? currencyError.message
+          : "Failed to change currency",
+      );
+    } finally {
+      setChangingCurrency(false);
+    }
   };
 
-  const getBasePrice = () => {
-    if (selectedFlight && selectedFlight.price) {
-      return parseFloat(selectedFlight.price.total);
+  const calculateTotal = () => {
+    // A created booking was charged from its quote
+    if (bookingData?.totalAmount) {
+      return bookingData.totalAmount;
     }
-    return 10; // Fallback price
+    return quote?.total || 0;
+  };
+
+  const getBasePrice = () => {
+    const passengerCount = passengerData?.passengers?.length || 1;
+    return calculateTotal() / passengerCount;
   };
 
   const getCurrency = () => {
-    if (selectedFlight && selectedFlight.price) {
-      return selectedFlight.price.currency;
-    }
-    return "USD"; // Fallback currency
+    return bookingData?.currency || currency;
   };
 
+  const formatTotal = () => formatMoney(calculateTotal(), getCurrency());
+
   const createBookingForStripe = async () => {
     if (bookingData) return; // Booking already created
 
@@ -315,7 +429,7 @@ export default function Payment() {
         contactEmail: passengerData.contactEmail || user?.email || "",
         termsAccepted: true,
         selectedFlight: selectedFlight,
-        totalAmount: calculateTotal(),
+        quoteId: (await getQuote(transformedRoute)).id,
       };
 
       console.log("Creating booking for Stripe payment:", bookingRequest);
@@ -429,7 +543,7 @@ export default function Payment() {
         contactEmail: passengerData.contactEmail || user?.email || "",
         termsAccepted: true,
         selectedFlight: selectedFlight,
-        totalAmount: calculateTotal(),
+        quoteId: (await getQuote(transformedRoute)).id,
       };
 
       console.log("Sending booking request to /api/bookings...");
@@ -478,8 +592,7 @@ export default function Payment() {
           method: "POST",
           body: JSON.stringify({
             bookingId: booking.id,
-            amount: calculateTotal(),
-            currency: "USD",
+            quoteId: booking.quoteId,
           }),
         },
       );
@@ -594,7 +707,7 @@ export default function Payment() {
         contactEmail: passengerData.contactEmail || user?.email || "",
         termsAccepted: true,
         selectedFlight: selectedFlight,
-        totalAmount: calculateTotal(),
+        quoteId: (await getQuote(transformedRoute)).id,
       };
 
       const bookingResponse = await authenticatedFetch("/api/bookings", {
@@ -699,10 +812,10 @@ export default function Payment() {
                     </div>
                     <div className="text-xs text-white/70">
                       {selectedFlight.validatingAirlineCodes?.[0]} •{" "}
-                      {getCurrency()}{" "}
-                      {parseInt(
-                        selectedFlight.price?.total || "0",
-                      ).toLocaleString()}{" "}
+                      {formatMoney(
+                        parseFloat(selectedFlight.price?.total || "0"),
+                        selectedFlight.price?.currency || BASE_CURRENCY,
+                      )}{" "}
                       per person
                     </div>
                   </div>
@@ -712,8 +825,7 @@ export default function Payment() {
                     Base Price:
                   </span>
                   <span className="text-xl lg:text-2xl font-bold">
-                    {getCurrency()}
-                    {getBasePrice().toFixed(2)}
+                    {formatMoney(getBasePrice(), getCurrency())}
                   </span>
                 </div>
                 <div className="flex items-center gap-8">
@@ -724,11 +836,24 @@ export default function Payment() {
                     {passengerData?.passengers?.length || 1}
                   </span>
                 </div>
+                {bookingData?.promoCode && (
+                  <div className="flex items-center gap-8">
+                    <span className="text-lg lg:text-xl font-bold">
+                      Promo {bookingData.promoCode}:
+                    </span>
+                    <span className="text-xl lg:text-2xl font-bold">
+                      -
+                      {formatMoney(
+                        bookingData.discountAmount || 0,
+                        getCurrency(),
+                      )}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center gap-8">
                   <span className="text-lg lg:text-xl font-bold">TOTAL:</span>
                   <span className="text-xl lg:text-2xl font-bold">
-                    {getCurrency()}
-                    {calculateTotal().toFixed(2)}
+                    {formatTotal()}
                   </span>
                 </div>
                 {routeData && (
@@ -796,6 +921,32 @@ export default function Payment() {
           )}
 
           <div className="text-[#23235B] text-lg lg:text-xl font-semibold leading-relaxed mb-8">
+            {/* Currency */}
+            <div className="mb-8">
+              <label className="block text-sm font-semibold text-[#637996] mb-2">
+                Pay in
+              </label>
+              <select
+                value={getCurrency()}
+                onChange={(e) =>
+                  handleCurrencyChange(e.target.value as CurrencyCode)
+                }
+                disabled={loading || success || changingCurrency}
+                className="w-full px-6 py-4 rounded-lg border border-gray-300 bg-white text-[#20242A] font-bold text-lg focus:outline-none focus:ring-2 focus:ring-[#505BFB]"
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code} - {CURRENCY_NAMES[code]}
+                  </option>
+                ))}
+              </select>
+              {!PAYPAL_CURRENCIES.includes(getCurrency() as CurrencyCode) && (
+                <p className="text-xs text-[#637996] mt-2 font-medium">
+                  PayPal is not available for {getCurrency()} payments.
+                </p>
+              )}
+            </div>
+
             {/* Payment Method Tabs */}
             <div className="flex flex-col sm:flex-row gap-4 mb-8">
               {[
@@ -813,7 +964,14 @@ export default function Payment() {
                   icon: CreditCard,
                   disabled: false,
                 },
-                { key: "paypal", label: "PayPal", icon: null, disabled: false },
+                {
+                  key: "paypal",
+                  label: "PayPal",
+                  icon: null,
+                  disabled: !PAYPAL_CURRENCIES.includes(
+                    getCurrency() as CurrencyCode,
+                  ),
+                },
               ].map((method) => (
                 <div key={method.key} className="flex-1">
                   <button
@@ -1014,7 +1172,7 @@ export default function Payment() {
                       Processing Payment...
                     </div>
                   ) : (
-                    `PAY ${getCurrency()}${calculateTotal().toFixed(2)}`
+                    `PAY ${formatTotal()}`
                   )}
                 </button>
               </div>
@@ -1045,8 +1203,7 @@ export default function Payment() {
                         Total Amount:
                       </span>
                       <span className="font-bold text-xl text-purple-600">
-                        {getCurrency()}
-                        {calculateTotal().toFixed(2)}
+                        {formatTotal()}
                       </span>
                     </div>
                     <div className="flex justify-between items-center text-sm text-gray-600 mt-2">
@@ -1055,11 +1212,13 @@ export default function Payment() {
                     </div>
                   </div>
 
-                  {bookingData && (
+                  {bookingData && !changingCurrency && (
                     <StripePaymentForm
+                      key={bookingData.quoteId}
                       amount={calculateTotal()}
-                      currency={getCurrency().replace("$", "") || "USD"}
+                      currency={getCurrency()}
                       bookingId={bookingData.id}
+                      quoteId={bookingData.quoteId}
                       onSuccess={(paymentIntentId) => {
                         console.log(
                           "Stripe payment successful:",
@@ -1111,8 +1270,7 @@ export default function Payment() {
                         Total Amount:
                       </span>
                       <span className="font-bold text-xl text-[#0070ba]">
-                        {getCurrency()}
-                        {calculateTotal().toFixed(2)}
+                        {formatTotal()}
                       </span>
                     </div>
                     <div className="flex justify-between items-center text-sm text-gray-600 mt-2">
@@ -1140,10 +1298,7 @@ export default function Payment() {
                   ) : (
                     <div className="flex items-center justify-center gap-3">
                       <span>Pay with PayPal</span>
-                      <span className="text-lg">
-                        {getCurrency()}
-                        {calculateTotal().toFixed(2)}
-                      </span>
+                      <span className="text-lg">{formatTotal()}</span>
                     </div>
                   )}
                 </button>
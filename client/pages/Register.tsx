@@ -70,20 +70,16 @@ export default function Register() {
 
         // Send verification email
         try {
-          const verificationResponse = await fetch(
-            "/api/auth/send-verification",
-            {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                email: formData.email,
-                userId: response.user?.id,
-                userName: formData.firstName,
-              }),
+          const verificationResponse = await fetch("/api/email/verify/send", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
             },
-          );
+            body: JSON.stringify({
+              email: formData.email,
+              userName: formData.firstName,
+            }),
+          });
 
           const verificationData = await verificationResponse.json();
 
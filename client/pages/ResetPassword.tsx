@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Eye, EyeOff, KeyRound, Lock } from "lucide-react";
+import { AuthResponse, ResetPasswordRequest } from "@shared/api";
+import SimpleHeader from "../components/SimpleHeader";
+import Footer from "../components/Footer";
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get("token") || "";
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const [formData, setFormData] = useState({
+    // The email also shows the token, for pasting when the link won't open
+    token: linkToken,
+    password: "",
+    confirmPassword: "",
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value,
+    });
+    // Clear error when user starts typing
+    if (error) setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.password.length < 6) {
+      setError("Password must be at least 6 characters");
+      return;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const request: ResetPasswordRequest = {
+        token: formData.token.trim(),
+        password: formData.password,
+      };
+      const response = await fetch("/api/auth/password/reset", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+      const data: AuthResponse = await response.json();
+
+      if (data.success) {
+        navigate("/login?reset=true", { replace: true });
+      } else {
+        setError(data.message || "Password reset failed. Please try again.");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full pl-12 pr-12 py-4 border border-gray-300 rounded-lg text-[#20242A] placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#3839C9] focus:border-transparent";
+
+  return (
+    <div className="min-h-screen bg-[#E7E9FF] font-jakarta">
+      {/* Header */}
+      <SimpleHeader showSignUp={true} />
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 md:px-12 py-8 md:py-16">
+        <div className="max-w-md mx-auto">
+          <div className="bg-white/90 backdrop-blur-md rounded-[24px] p-8 md:p-12 shadow-xl border border-[#E7E9FF]">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl md:text-4xl font-extrabold text-[#3839C9] mb-4">
+                Reset Password
+              </h1>
+              <p className="text-lg text-[#637996] mb-6">
+                Choose a new password. You'll be signed out on all your devices.
+              </p>
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-700 text-sm font-medium">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Reset Token Field, only when the link didn't carry one */}
+              {!linkToken && (
+                <div>
+                  <label
+                    htmlFor="token"
+                    className="block text-sm font-semibold text-[#637996] mb-2"
+                  >
+                    Reset Token
+                  </label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+                    <input
+                      type="text"
+                      id="token"
+                      name="token"
+                      value={formData.token}
+                      onChange={handleInputChange}
+                      placeholder="Paste the token from the email"
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Password Fields */}
+              {(["password", "confirmPassword"] as const).map((field) => (
+                <div key={field}>
+                  <label
+                    htmlFor={field}
+                    className="block text-sm font-semibold text-[#637996] mb-2"
+                  >
+                    {field === "password" ? "New Password" : "Confirm Password"}
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-[#637996]" />
+                    <input
+                      type={showPassword ? "text" : "password"}
+                      id={field}
+                      name={field}
+                      value={formData[field]}
+                      onChange={handleInputChange}
+                      placeholder={
+                        field === "password"
+                          ? "Enter a new password"
+                          : "Enter it again"
+                      }
+                      className={inputClassName}
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-4 top-1/2 transform -translate-y-1/2 text-[#637996] hover:text-[#3839C9]"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="w-5 h-5" />
+                      ) : (
+                        <Eye className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full py-4 rounded-xl font-semibold text-lg transition-colors shadow-lg ${
+                  loading
+                    ? "bg-gray-400 text-gray-600 cursor-not-allowed"
+                    : "bg-[#3839C9] text-white hover:bg-blue-700"
+                }`}
+              >
+                {loading ? "Resetting..." : "Reset Password"}
+              </button>
+            </form>
+
+            <div className="mt-8 text-center text-[#637996]">
+              Link expired?{" "}
+              <Link
+                to="/forgot-password"
+                className="text-[#3839C9] hover:text-blue-700 font-semibold"
+              >
+                Request a new one
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <Footer />
+    </div>
+  );
+}
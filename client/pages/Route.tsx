@@ -321,6 +321,14 @@ export default function Route({ onNext, currentStep, onNavigate }: RouteProps) {
               Passangers
             </button>
           </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => onNavigate("seats")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Seats
+            </button>
+          </div>
           <div className="flex items-center gap-4">
             <button
               onClick={() => onNavigate("confirmation")}
@@ -59,7 +59,7 @@ export default function SearchFlights({ onNext }: SearchFlightsProps) {
 
       console.log("Searching flights with params:", params.toString());
 
-      const response = await fetch(`/api/amadeus/flights/search?${params}`);
+      const response = await fetch(`/api/flights/search?${params}`);
       const data = await response.json();
 
       if (data.success && data.data.length > 0) {
@@ -80,6 +80,11 @@ export default function SearchFlights({ onNext }: SearchFlightsProps) {
     }
   };
 
+  // Offer IDs are only unique per provider
+  const isSelected = (flight: FlightOffer) =>
+    selectedFlight?.id === flight.id &&
+    selectedFlight?.provider === flight.provider;
+
   const selectFlight = (flight: FlightOffer) => {
     setSelectedFlight(flight);
     // Save selected flight to localStorage
@@ -270,9 +275,9 @@ export default function SearchFlights({ onNext }: SearchFlightsProps) {
         <div className="space-y-6">
           {flights.map((flight, index) => (
             <div
-              key={flight.id}
+              key={`${flight.provider}-${flight.id}`}
               className={`bg-white/10 backdrop-blur-sm rounded-xl p-6 cursor-pointer transition-all hover:bg-white/15 ${
-                selectedFlight?.id === flight.id
+                isSelected(flight)
                   ? "ring-2 ring-ticket-accent bg-white/20"
                   : ""
               }`}
@@ -339,7 +344,7 @@ export default function SearchFlights({ onNext }: SearchFlightsProps) {
                   <Zap className="w-4 h-4" />
                   <span className="text-sm">Power Outlets</span>
                 </div>
-                {selectedFlight?.id === flight.id && (
+                {isSelected(flight) && (
                   <div className="ml-auto">
                     <span className="bg-ticket-accent text-black px-3 py-1 rounded-full text-sm font-semibold">
                       Selected
@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { ArrowRight, AlertCircle, Plane } from "lucide-react";
+import SeatMap from "../components/SeatMap";
+import {
+  FlightRoute,
+  Passenger,
+  Seat,
+  SeatMap as SeatMapData,
+  SeatSelection,
+} from "@shared/api";
+import { formatMoney } from "@shared/currency";
+import {
+  fetchSeatMaps,
+  loadSeatSelections,
+  saveSeatSelections,
+} from "../lib/seats";
+
+interface SeatsProps {
+  onNext: () => void;
+  onBack: () => void;
+  currentStep: string;
+  onNavigate: (step: any) => void;
+}
+
+export default function Seats({
+  onNext,
+  onBack,
+  currentStep,
+  onNavigate,
+}: SeatsProps) {
+  const [route, setRoute] = useState<FlightRoute | null>(null);
+  const [selectedFlight, setSelectedFlight] = useState<any | null>(null);
+  const [passengers, setPassengers] = useState<Passenger[]>([]);
+  const [seatMaps, setSeatMaps] = useState<SeatMapData[]>([]);
+  const [selections, setSelections] = useState<SeatSelection[]>([]);
+  const [activeSegment, setActiveSegment] = useState(0);
+  const [activePassenger, setActivePassenger] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // Load the route, flight and passengers picked in the previous steps
+  useEffect(() => {
+    try {
+      const savedRoute =
+        localStorage.getItem("selectedRoute") ||
+        localStorage.getItem("bookingRoute");
+      const savedFlight = localStorage.getItem("selectedFlight");
+      const savedPassengers = localStorage.getItem("bookingPassengers");
+
+      const loadedRoute: FlightRoute | null = savedRoute
+        ? JSON.parse(savedRoute)
+        : null;
+      const loadedFlight = savedFlight ? JSON.parse(savedFlight) : null;
+      const loadedPassengers: Passenger[] = savedPassengers
+        ? JSON.parse(savedPassengers)
+        : [];
+
+      setRoute(loadedRoute);
+      setSelectedFlight(loadedFlight);
+      setPassengers(loadedPassengers);
+
+      if (!loadedRoute) {
+        setLoading(false);
+        return;
+      }
+
+      setSelections(
+        loadSeatSelections(loadedRoute, loadedFlight, loadedPassengers.length),
+      );
+      fetchSeatMaps(loadedRoute, loadedFlight)
+        .then(setSeatMaps)
+        .catch((seatMapError) => {
+          console.error("Error loading seat maps:", seatMapError);
+          setError(
+            "Seat maps are not available for this flight. You can continue without choosing seats.",
+          );
+        })
+        .finally(() => setLoading(false));
+    } catch (loadError) {
+      console.error("Error loading booking data:", loadError);
+      setError("Error loading booking data. Please go back and try again.");
+      setLoading(false);
+    }
+  }, []);
+
+  // Keep the choices when moving between steps
+  useEffect(() => {
+    if (route) {
+      saveSeatSelections(route, selectedFlight, selections);
+    }
+  }, [route, selectedFlight, selections]);
+
+  const seatMap = seatMaps[activeSegment];
+
+  const findSeat = (selection: SeatSelection) =>
+    seatMaps
+      .find((candidate) => candidate.segmentId === selection.segmentId)
+      ?.decks.flatMap((deck) => deck.seats)
+      .find((seat) => seat.number === selection.seatNumber);
+
+  const assignedSeats = new Map(
+    selections
+      .filter((selection) => selection.segmentId === seatMap?.segmentId)
+      .map((selection) => [selection.seatNumber, selection.passengerIndex]),
+  );
+
+  // Picking a seat replaces the passenger's seat on this flight; picking it
+  // again gives it up
+  const handleSelectSeat = (seat: Seat) => {
+    const current = selections.find(
+      (selection) =>
+        selection.segmentId === seatMap.segmentId &&
+        selection.passengerIndex === activePassenger,
+    );
+    const others = selections.filter((selection) => selection !== current);
+
+    if (current?.seatNumber === seat.number) {
+      setSelections(others);
+      return;
+    }
+
+    setSelections([
+      ...others,
+      {
+        segmentId: seatMap.segmentId,
+        passengerIndex: activePassenger,
+        seatNumber: seat.number,
+      },
+    ]);
+
+    // Move on to the next passenger still without a seat on this flight
+    const next = passengers.findIndex(
+      (_, index) =>
+        index !== activePassenger &&
+        !others.some(
+          (selection) =>
+            selection.segmentId === seatMap.segmentId &&
+            selection.passengerIndex === index,
+        ),
+    );
+    if (next !== -1) {
+      setActivePassenger(next);
+    }
+  };
+
+  // Seat fees as priced on the seat maps; the quote converts them
+  const seatFees = selections.reduce(
+    (total, selection) => total + (findSeat(selection)?.price || 0),
+    0,
+  );
+  const currency = seatMaps[0]?.currency || "USD";
+
+  const handleContinue = () => {
+    // Drop choices that are no longer on the seat maps
+    const valid = selections.filter((selection) => findSeat(selection));
+    if (route) {
+      saveSeatSelections(route, selectedFlight, valid);
+    }
+    onNext();
+  };
+
+  return (
+    <div className="min-h-screen bg-ticket-primary text-white">
+      <div className="px-4 sm:px-8 lg:px-36">
+        {/* Navigation Tabs */}
+        <div className="flex flex-col sm:flex-row gap-8 sm:gap-16 mb-12">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => onNavigate("route")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Route
+            </button>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => onNavigate("passengers")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Passengers
+            </button>
+          </div>
+          <div className="flex items-center gap-4">
+            <button className="text-2xl font-bold">Seats</button>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => onNavigate("confirmation")}
+              className="text-2xl font-bold text-white/60 hover:text-white transition-colors"
+            >
+              Confirmation
+            </button>
+          </div>
+        </div>
+
+        {/* Progress Bar */}
+        <div className="mb-16">
+          <div className="flex items-center">
+            <div className="h-1 bg-ticket-secondary flex-1"></div>
+            <div className="h-1 bg-ticket-accent w-56"></div>
+            <div className="h-1 bg-ticket-secondary w-24"></div>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-8 p-4 bg-red-500/20 border border-red-500/40 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <span className="text-red-200">{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 lg:gap-24">
+          {/* Left Side - Seat Map */}
+          <div className="space-y-8">
+            <h2 className="text-2xl font-bold text-[#F6F6FF]">
+              Choose Your Seats
+            </h2>
+
+            {loading ? (
+              <div className="flex items-center gap-3 text-white/70">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                Loading seat maps...
+              </div>
+            ) : (
+              seatMap && (
+                <>
+                  {/* Flights */}
+                  {seatMaps.length > 1 && (
+                    <div className="flex flex-wrap gap-2">
+                      {seatMaps.map((flight, index) => (
+                        <button
+                          key={flight.segmentId}
+                          type="button"
+                          onClick={() => setActiveSegment(index)}
+                          className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                            index === activeSegment
+                              ? "bg-ticket-accent text-white"
+                              : "bg-ticket-secondary text-white/70 hover:text-white"
+                          }`}
+                        >
+                          {flight.fromCode} → {flight.toCode}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="bg-ticket-secondary rounded-lg p-4 flex items-center gap-3">
+                    <Plane className="w-5 h-5 text-white/60" />
+                    <div>
+                      <div className="font-semibold">
+                        {[seatMap.carrierCode, seatMap.flightNumber]
+                          .filter(Boolean)
+                          .join(" ") || "Flight"}{" "}
+                        {seatMap.fromCode} → {seatMap.toCode}
+                      </div>
+                      <div className="text-sm text-white/70">
+                        {new Date(seatMap.departureAt).toLocaleDateString()}
+                        {seatMap.aircraft && ` · Aircraft ${seatMap.aircraft}`}
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Passengers */}
+                  <div className="flex flex-wrap gap-2">
+                    {passengers.map((passenger, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => setActivePassenger(index)}
+                        className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                          index === activePassenger
+                            ? "bg-ticket-dark text-white"
+                            : "bg-ticket-light text-white/55"
+                        }`}
+                      >
+                        {index + 1}. {passenger.firstName || "Passenger"}
+                      </button>
+                    ))}
+                  </div>
+
+                  <SeatMap
+                    seatMap={seatMap}
+                    assignedSeats={assignedSeats}
+                    activePassenger={activePassenger}
+                    onSelectSeat={handleSelectSeat}
+                  />
+                </>
+              )
+            )}
+          </div>
+
+          {/* Right Side - Summary */}
+          <div className="space-y-8">
+            <div className="bg-ticket-secondary rounded-lg p-6">
+              <h3 className="text-xl font-bold mb-4 text-[#F6F6FF]">
+                Your Seats
+              </h3>
+
+              <div className="space-y-4">
+                {passengers.map((passenger, index) => (
+                  <div key={index} className="bg-[#606AFB]/30 rounded-lg p-4">
+                    <div className="font-semibold mb-2">
+                      {passenger.title} {passenger.firstName}{" "}
+                      {passenger.lastName}
+                    </div>
+                    {seatMaps.map((flight) => {
+                      const selection = selections.find(
+                        (candidate) =>
+                          candidate.segmentId === flight.segmentId &&
+                          candidate.passengerIndex === index,
+                      );
+                      const seat = selection && findSeat(selection);
+                      return (
+                        <div
+                          key={flight.segmentId}
+                          className="flex justify-between text-sm"
+                        >
+                          <span className="text-white/70">
+                            {flight.fromCode} → {flight.toCode}
+                          </span>
+                          <span className="font-semibold">
+                            {seat
+                              ? `${seat.number}${
+                                  seat.price > 0
+                                    ? ` · ${formatMoney(seat.price, flight.currency)}`
+                                    : ""
+                                }`
+                              : "Not selected"}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+
+                <div className="pt-3 border-t border-white/20 flex justify-between">
+                  <span className="font-bold">Seat fees</span>
+                  <span className="font-bold text-ticket-accent">
+                    {formatMoney(seatFees, currency)}
+                  </span>
+                </div>
+                <p className="text-xs text-white/70">
+                  Seats are optional. Passengers without a seat get one at
+                  check-in. Seat fees are added to your booking total.
+                </p>
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="space-y-4">
+              <button
+                onClick={handleContinue}
+                disabled={loading}
+                className="w-full bg-ticket-accent hover:bg-ticket-accent/90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-lg transition-colors flex items-center justify-center gap-3"
+              >
+                {selections.length > 0 ? "Continue" : "Skip Seat Selection"}
+                <ArrowRight className="w-5 h-5" />
+              </button>
+
+              <button
+                onClick={onBack}
+                className="w-full bg-transparent border-2 border-white/40 hover:border-white/60 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                Back to Passengers
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
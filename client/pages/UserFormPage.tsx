@@ -4,11 +4,18 @@ import { useAuth } from "../hooks/useAuth";
 import Header from "../components/Header";
 import Route from "./Route";
 import Passengers from "./Passengers";
+import Seats from "./Seats";
 import Confirmation from "./Confirmation";
 import SearchFlights from "./SearchFlights";
 import ThankYou from "./ThankYou";
 
-type Step = "route" | "passengers" | "confirmation" | "search" | "thankyou";
+type Step =
+  | "route"
+  | "passengers"
+  | "seats"
+  | "confirmation"
+  | "search"
+  | "thankyou";
 
 export default function UserFormPage({ step }: { step?: string }) {
   const navigate = useNavigate();
@@ -28,9 +35,14 @@ export default function UserFormPage({ step }: { step?: string }) {
       const path = location.pathname.split("/")[2];
       if (
         path &&
-        ["route", "passengers", "confirmation", "search", "thankyou"].includes(
-          path,
-        )
+        [
+          "route",
+          "passengers",
+          "seats",
+          "confirmation",
+          "search",
+          "thankyou",
+        ].includes(path)
       ) {
         setCurrentStep(path as Step);
       }
@@ -43,6 +55,9 @@ export default function UserFormPage({ step }: { step?: string }) {
         setCurrentStep("passengers");
         break;
       case "passengers":
+        setCurrentStep("seats");
+        break;
+      case "seats":
         setCurrentStep("confirmation");
         break;
       case "confirmation":
@@ -61,9 +76,12 @@ export default function UserFormPage({ step }: { step?: string }) {
       case "passengers":
         setCurrentStep("route");
         break;
-      case "confirmation":
+      case "seats":
         setCurrentStep("passengers");
         break;
+      case "confirmation":
+        setCurrentStep("seats");
+        break;
       default:
         break;
     }
@@ -95,6 +113,15 @@ export default function UserFormPage({ step }: { step?: string }) {
                 onNavigate={navigateToStep}
               />
             );
+          case "seats":
+            return (
+              <Seats
+                onNext={goToNextStep}
+                onBack={goToPreviousStep}
+                currentStep={currentStep}
+                onNavigate={navigateToStep}
+              />
+            );
           case "confirmation":
             return (
               <Confirmation
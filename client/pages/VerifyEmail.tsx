@@ -1,10 +1,13 @@
 import React, { useEffect, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { CheckCircle, XCircle, Loader2, Mail, RefreshCw } from "lucide-react";
+import { useAuth, useAuthenticatedFetch } from "../hooks/useAuth";
 
 export default function VerifyEmail() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const authenticatedFetch = useAuthenticatedFetch();
   const [status, setStatus] = useState<
     "loading" | "success" | "error" | "expired"
   >("loading");
@@ -29,9 +32,13 @@ export default function VerifyEmail() {
       setStatus("loading");
       setMessage("Verifying your email address...");
 
-      const response = await fetch(
-        `/api/auth/verify-email?token=${encodeURIComponent(verificationToken)}`,
-      );
+      const response = await fetch("/api/email/verify/confirm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token: verificationToken }),
+      });
       const data = await response.json();
 
       if (data.success) {
@@ -39,11 +46,15 @@ export default function VerifyEmail() {
         setMessage("Your email has been verified successfully!");
         setEmail(data.email);
 
+        // Signed in on this device: pick up the verified status
+        await refreshUser();
+
         // Redirect to login after 3 seconds
         setTimeout(() => {
           navigate("/login?verified=true");
         }, 3000);
       } else {
+        setEmail(data.email || "");
         if (data.message.includes("expired")) {
           setStatus("expired");
           setMessage(
@@ -62,22 +73,21 @@ export default function VerifyEmail() {
   };
 
   const handleResendVerification = async () => {
-    if (!email) {
-      // If we don't have email, redirect to registration
-      navigate("/register");
-      return;
-    }
-
     try {
       setResending(true);
 
-      const response = await fetch("/api/auth/resend-verification", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email }),
-      });
+      // Signed-in users get a link for their own address
+      const response = isAuthenticated
+        ? await authenticatedFetch("/api/email/verify/resend", {
+            method: "POST",
+          })
+        : await fetch("/api/email/verify/send", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ email }),
+          });
 
       const data = await response.json();
 
@@ -191,7 +201,7 @@ export default function VerifyEmail() {
 
               {(status === "expired" || status === "error") && (
                 <div className="space-y-3">
-                  {email && (
+                  {(email || isAuthenticated) && (
                     <button
                       onClick={handleResendVerification}
                       disabled={resending}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, XCircle, AlertTriangle } from "lucide-react";
+import { TicketVerification, TicketVerificationResponse } from "@shared/api";
+import { useBrand } from "@/hooks/useBrand";
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-GB", {
+    timeZone: "UTC",
+    weekday: "short",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+export default function VerifyTicket() {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const brand = useBrand();
+  const [verification, setVerification] = useState<TicketVerification | null>(
+    null,
+  );
+  const [revoked, setRevoked] = useState(false);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch(
+          `/api/verify/${encodeURIComponent(token || "")}`,
+        );
+        const result: TicketVerificationResponse = await response.json();
+
+        if (result.success && result.verification) {
+          setVerification(result.verification);
+        } else {
+          setRevoked(!!result.revoked);
+          setError(result.message || "This ticket could not be verified");
+        }
+      } catch (error) {
+        console.error("Error verifying ticket:", error);
+        setError("Network error. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const renderStatus = () => {
+    if (loading) {
+      return <p className="text-gray-600">Verifying ticket...</p>;
+    }
+
+    if (!verification) {
+      return (
+        <div className="space-y-3">
+          {revoked ? (
+            <AlertTriangle className="w-14 h-14 text-yellow-500 mx-auto" />
+          ) : (
+            <XCircle className="w-14 h-14 text-red-500 mx-auto" />
+          )}
+          <h2 className="text-xl font-bold text-gray-900">
+            {revoked ? "Booking cancelled" : "Not verified"}
+          </h2>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      );
+    }
+
+    const { route } = verification;
+
+    return (
+      <div className="space-y-6 text-left">
+        <div className="text-center space-y-2">
+          {verification.confirmed ? (
+            <CheckCircle className="w-14 h-14 text-green-500 mx-auto" />
+          ) : (
+            <AlertTriangle className="w-14 h-14 text-yellow-500 mx-auto" />
+          )}
+          <h2 className="text-xl font-bold text-gray-900">
+            {verification.confirmed
+              ? "This booking is confirmed"
+              : "This booking is not confirmed"}
+          </h2>
+          <Badge className="uppercase">{verification.status}</Badge>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-600">Booking Reference</p>
+            <p className="text-lg font-bold text-ticket-primary">
+              {verification.pnr}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Booked On</p>
+            <p className="font-medium">{formatDate(verification.bookedAt)}</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm text-gray-600">Route</p>
+          <p className="font-medium">
+            {route.from.city || route.from.name} ({route.from.code}) →{" "}
+            {route.to.city || route.to.name} ({route.to.code})
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-600">Departure</p>
+            <p className="font-medium">{formatDate(route.departureDate)}</p>
+          </div>
+          {route.returnDate && (
+            <div>
+              <p className="text-sm text-gray-600">Return</p>
+              <p className="font-medium">{formatDate(route.returnDate)}</p>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm text-gray-600">Passengers</p>
+          <ul className="font-medium">
+            {verification.passengers.map((passenger, index) => (
+              <li key={index}>
+                {passenger.title} {passenger.surname}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-ticket-primary to-ticket-darker flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-ticket-primary">
+            Ticket Verification
+          </CardTitle>
+          <p className="text-gray-600 mt-2">
+            Confirms that a reservation was issued by {brand.name}. Passenger
+            names are partly hidden.
+          </p>
+        </CardHeader>
+
+        <CardContent className="text-center">
+          {renderStatus()}
+
+          <div className="mt-6 text-center">
+            <p className="text-sm text-gray-600">
+              Questions about this booking?{" "}
+              <button
+                onClick={() => navigate("/contact")}
+                className="text-ticket-primary hover:underline"
+              >
+                Contact Support
+              </button>
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,7 +7,6 @@ import {
   handleSupabaseRegister,
   handleSupabaseLogin,
   handleSupabaseValidateToken,
-  supabaseAuthMiddleware,
 } from "./routes/supabase-auth";
 
 // Import database initialization
@@ -26,9 +25,26 @@ import {
   handleHybridRegister,
   handleHybridLogin,
   handleHybridValidateToken,
+  handleHybridRefresh,
+  handleHybridLogout,
+  handleGetSessions,
+  handleRevokeSession,
+  handleForgotPassword,
+  handleResetPassword,
+  handleTwoFactorChallenge,
+  handleTwoFactorChallengeSetup,
   hybridAuthMiddleware,
 } from "./routes/hybrid-auth";
 
+// Import two-factor authentication routes
+import {
+  handleGetTwoFactorStatus,
+  handleSetupTwoFactor,
+  handleEnableTwoFactor,
+  handleDisableTwoFactor,
+  handleRegenerateRecoveryCodes,
+} from "./routes/two-factor";
+
 // Import user management routes
 import {
   handleGetDashboard,
@@ -37,37 +53,69 @@ import {
   handleUpdateProfile,
 } from "./routes/user";
 
-// Import Supabase booking routes
-import {
-  handleCreateSupabaseBooking,
-  handleGetSupabaseUserBookings,
-  handleGetSupabaseBooking,
-  handleUpdateSupabaseBookingStatus,
-  handleCancelSupabaseBooking,
-  handleGetAllSupabaseBookings,
-} from "./routes/supabase-bookings";
-
 // Import fallback routes
 import { fallbackAirportsRouter } from "./routes/fallback-airports";
 import { dbHealthRouter } from "./routes/db-health";
 import { dbTestRouter } from "./routes/db-test";
 
-// Import fallback booking routes for demo
+// Import booking routes
 import {
   handleCreateBooking,
   handleGetUserBookings,
   handleGetBooking as handleGetBookingDetails,
   handleUpdateBookingStatus,
   handleCancelBooking,
+  handleGetBookingHistory,
   handleGetAllBookings,
+  handleRequoteBooking,
+  handleGetBookingTicket,
+  handleGetBookingTicketLink,
+  handleDownloadSignedTicket,
+  handleGetBookingWalletLinks,
+  handleDownloadApplePass,
+  handleGetBookingCalendar,
 } from "./routes/bookings";
 
+// Import calendar feed routes
+import {
+  handleGetCalendarFeed,
+  handleGetCalendarFeedLink,
+  handleResetCalendarFeed,
+} from "./routes/calendar";
+
+// Import quote routes
+import { handleCreateQuote } from "./routes/quotes";
+import { handleGetBookingSeatMaps } from "./routes/seatmaps";
+
+// Import branding routes
+import { brandMiddleware } from "./lib/brandService";
+import { handleGetBrand } from "./routes/brand";
+
+// Import ticket verification routes
+import { handleVerifyTicket } from "./routes/verification";
+
+// Import promo code routes
+import {
+  handleValidatePromoCode,
+  handleGetPromoCodes,
+  handleCreatePromoCode,
+  handleUpdatePromoCode,
+  handleDeletePromoCode,
+} from "./routes/promo-codes";
+
+// Import currency routes
+import {
+  handleGetCurrencyRates,
+  handleUpdateCurrencyRate,
+} from "./routes/currency";
+
 // Import payment routes
 import {
   handleProcessPayment,
   handleGetPaymentHistory,
   handleGetTransaction,
   handleRefundPayment,
+  handleGetTransactionRefunds,
   handleGetAllTransactions,
   handleCreatePayPalOrder,
   handleCapturePayPalPayment,
@@ -91,7 +139,13 @@ import {
   handleGetAdminStats,
   handleGetAllUsers,
   handleUpdateUserStatus,
+  handleGrantUserRole,
+  handleRevokeUserRole,
 } from "./routes/admin";
+import {
+  handleGetDisputes,
+  handleUpdateDisputeEvidence,
+} from "./routes/disputes";
 
 // Import email service routes
 import {
@@ -103,7 +157,7 @@ import {
   handleTestEmail,
 } from "./routes/email";
 
-// Import Amadeus API routes
+// Import flight search routes
 import {
   handleSearchFlights,
   handleSearchAirports,
@@ -111,8 +165,8 @@ import {
   handleGetSeatMaps,
   handleGetAirline,
   handleGetPopularDestinations,
-  handleAmadeusHealthCheck,
-} from "./routes/amadeus";
+  handleFlightProvidersHealthCheck,
+} from "./routes/flights";
 
 // Import Stripe webhook routes
 import {
@@ -120,6 +174,9 @@ import {
   handleWebhookHealth,
 } from "./routes/stripe-webhooks";
 
+// Import PayPal webhook routes
+import { handlePayPalWebhook } from "./routes/paypal-webhooks";
+
 // Import email verification routes
 import {
   handleSendVerificationEmail,
@@ -128,14 +185,45 @@ import {
   handleResendVerificationEmail,
 } from "./routes/email-verification";
 
+// Import persistent storage
+import { getDataStore } from "./lib/storage";
+import { requireRole } from "./lib/roleService";
+import { requireVerifiedEmail } from "./lib/emailVerificationService";
+import { ADMIN_AREA_ROLES } from "../shared/roles";
+import { QuoteService } from "./lib/quoteService";
+import { TicketGenerator } from "./lib/ticketGenerator";
+
+// Import background jobs
+import { jobScheduler } from "./lib/jobScheduler";
+import { BookingExpiry } from "./lib/bookingExpiry";
+import { SessionService } from "./lib/sessionService";
+
 // Import service status checker
 import { ServiceStatusChecker } from "./lib/serviceStatus";
 // Import services route
 import { servicesRouter } from "./routes/services";
 
 export async function createServer() {
+  // Sign-ins, quotes, ticket links and verification tokens can't be signed
+  // without their secrets
+  SessionService.requireSigningSecret();
+  QuoteService.requireSigningSecret();
+  TicketGenerator.requireSigningSecret();
+
   const app = express();
 
+  // Select the persistent data store once at startup
+  const dataStore = getDataStore();
+  const useSupabase = dataStore.kind === "supabase";
+
+  // Background jobs (expire unpaid booking holds, delete old sessions)
+  BookingExpiry.registerJob(jobScheduler);
+  SessionService.registerJob(jobScheduler);
+  // Specs run jobs themselves rather than on a timer
+  if (process.env.DISABLE_JOB_SCHEDULER !== "true" && !process.env.VITEST) {
+    jobScheduler.start();
+  }
+
   // Middleware
   app.use(cors());
 
@@ -151,6 +239,9 @@ export async function createServer() {
   );
   app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
+  // Every API request is served under a brand (partner domain or API key)
+  app.use("/api", brandMiddleware);
+
   // Health check routes
   app.get("/api/ping", (_req, res) => {
     const ping = process.env.PING_MESSAGE ?? "ping";
@@ -158,6 +249,7 @@ export async function createServer() {
   });
 
   app.get("/api/demo", handleDemo);
+  app.get("/api/brand", handleGetBrand);
 
   // Simple services status endpoint with error handling
   app.get("/api/services", async (req, res) => {
@@ -182,17 +274,10 @@ export async function createServer() {
 
   // Database health check
   app.get("/api/health/database", async (req, res) => {
-    const useSupabase = !!(
-      process.env.SUPABASE_URL &&
-      process.env.SUPABASE_SERVICE_ROLE_KEY &&
-      !process.env.SUPABASE_URL.includes("placeholder") &&
-      process.env.SUPABASE_SERVICE_ROLE_KEY !== "placeholder-service-role-key"
-    );
-
     if (!useSupabase) {
       return res.json({
         healthy: true,
-        message: "Using fallback system (no database)",
+        message: "Using local file data store",
         system: "fallback",
       });
     }
@@ -208,15 +293,9 @@ export async function createServer() {
   app.get("/api/status", async (req, res) => {
     try {
       const serviceStatus = await ServiceStatusChecker.checkAllServices();
-      const useSupabase = !!(
-        process.env.SUPABASE_URL &&
-        process.env.SUPABASE_SERVICE_ROLE_KEY &&
-        !process.env.SUPABASE_URL.includes("placeholder") &&
-        process.env.SUPABASE_SERVICE_ROLE_KEY !== "placeholder-service-role-key"
-      );
       const dbHealth = useSupabase
         ? await DatabaseInitializer.checkHealth()
-        : { healthy: true, message: "Not using database" };
+        : { healthy: true, message: "Using local file data store" };
 
       res.json({
         server: "online",
@@ -226,14 +305,22 @@ export async function createServer() {
           healthy: dbHealth.healthy,
           message: dbHealth.message,
           system: useSupabase ? "supabase" : "fallback",
+          store: dataStore.kind,
         },
         services: serviceStatus.services,
         serviceSummary: serviceStatus.summary,
+        jobs: {
+          running: jobScheduler.isRunning(),
+          bookingHoldMinutes: BookingExpiry.getHoldMinutes(),
+          jobs: jobScheduler.getStatus(),
+        },
         features: {
           authentication: "✅ Available (hybrid)",
           userRegistration: "✅ Available (hybrid)",
-          booking: useSupabase ? "✅ Database + fallback" : "⚠️ Fallback only",
-          admin: useSupabase ? "✅ Database + fallback" : "⚠️ Fallback only",
+          booking: useSupabase
+            ? "✅ Database + fallback"
+            : "✅ Local file store",
+          admin: useSupabase ? "✅ Database + fallback" : "✅ Local file store",
           airports:
             useSupabase && dbHealth.healthy
               ? "✅ Database"
@@ -271,13 +358,6 @@ export async function createServer() {
 
   // Health check routes
   app.get("/api/health", (_req, res) => {
-    const useSupabase = !!(
-      process.env.SUPABASE_URL &&
-      process.env.SUPABASE_SERVICE_ROLE_KEY &&
-      !process.env.SUPABASE_URL.includes("placeholder") &&
-      process.env.SUPABASE_SERVICE_ROLE_KEY !== "placeholder-service-role-key"
-    );
-
     const health = {
       status: "healthy",
       timestamp: new Date().toISOString(),
@@ -300,32 +380,18 @@ export async function createServer() {
   // Services status route
   app.use("/api/services", servicesRouter);
 
-  // Check which authentication and database system to use
-  const useSupabase = !!(
-    process.env.SUPABASE_URL &&
-    process.env.SUPABASE_SERVICE_ROLE_KEY &&
-    !process.env.SUPABASE_URL.includes("placeholder") &&
-    process.env.SUPABASE_SERVICE_ROLE_KEY !== "placeholder-service-role-key"
-  );
-
   console.log("🔧 Auth system configuration:");
   console.log("  SUPABASE_URL:", !!process.env.SUPABASE_URL);
   console.log(
     "  SUPABASE_SERVICE_ROLE_KEY:",
     !!process.env.SUPABASE_SERVICE_ROLE_KEY,
   );
-  console.log("  useSupabase:", useSupabase);
+  console.log("  Data store:", dataStore.kind);
   console.log("  Auth routes: Using", useSupabase ? "Supabase" : "fallback");
 
-  // Choose auth middleware based on configuration
-  const authMiddleware = useSupabase
-    ? supabaseAuthMiddleware
-    : hybridAuthMiddleware;
-
-  console.log(
-    "📋 Setting up auth middleware:",
-    useSupabase ? "Supabase" : "Hybrid",
-  );
+  // Requests carry access tokens from the hybrid auth system's sessions,
+  // whichever store holds the user
+  const authMiddleware = hybridAuthMiddleware;
 
   // Initialize database if using Supabase
   if (useSupabase) {
@@ -350,6 +416,27 @@ export async function createServer() {
   app.post("/api/auth/register", handleHybridRegister);
   app.post("/api/auth/login", handleHybridLogin);
   app.get("/api/auth/validate", handleHybridValidateToken);
+  app.post("/api/auth/refresh", handleHybridRefresh);
+  app.post("/api/auth/logout", authMiddleware, handleHybridLogout);
+  app.get("/api/auth/sessions", authMiddleware, handleGetSessions);
+  app.delete(
+    "/api/auth/sessions/:sessionId",
+    authMiddleware,
+    handleRevokeSession,
+  );
+  app.post("/api/auth/password/forgot", handleForgotPassword);
+  app.post("/api/auth/password/reset", handleResetPassword);
+  app.post("/api/auth/2fa/challenge", handleTwoFactorChallenge);
+  app.post("/api/auth/2fa/challenge/setup", handleTwoFactorChallengeSetup);
+  app.get("/api/auth/2fa", authMiddleware, handleGetTwoFactorStatus);
+  app.post("/api/auth/2fa/setup", authMiddleware, handleSetupTwoFactor);
+  app.post("/api/auth/2fa/enable", authMiddleware, handleEnableTwoFactor);
+  app.post("/api/auth/2fa/disable", authMiddleware, handleDisableTwoFactor);
+  app.post(
+    "/api/auth/2fa/recovery-codes",
+    authMiddleware,
+    handleRegenerateRecoveryCodes,
+  );
 
   // User management routes (authenticated)
   app.get("/api/user/dashboard", authMiddleware, handleGetDashboard);
@@ -357,42 +444,96 @@ export async function createServer() {
   app.get("/api/user/bookings/:bookingId", authMiddleware, handleGetBooking);
   app.put("/api/user/profile", authMiddleware, handleUpdateProfile);
 
+  // Quote routes (no authentication required)
+  app.post("/api/quotes", handleCreateQuote);
+  app.post("/api/seatmaps", handleGetBookingSeatMaps);
+  app.get("/api/currency/rates", handleGetCurrencyRates);
+  app.post("/api/promo/validate", handleValidatePromoCode);
+
   // Guest booking routes (no authentication required)
-  const { handleCreateGuestBooking, handleGetGuestBooking } = await import(
-    "./routes/guest-bookings"
-  );
+  const {
+    handleCreateGuestBooking,
+    handleGetGuestBooking,
+    handleRequoteGuestBooking,
+    handleGetGuestBookingTicket,
+    handleGetGuestBookingWalletLinks,
+    handleGetGuestBookingCalendar,
+  } = await import("./routes/guest-bookings");
 
   // Guest booking route (uses global JSON parser)
   app.post("/api/guest/bookings", handleCreateGuestBooking);
   app.get("/api/guest/bookings/:pnr", handleGetGuestBooking);
+  app.put("/api/guest/bookings/:pnr/quote", handleRequoteGuestBooking);
+  app.get("/api/guest/bookings/:pnr/ticket", handleGetGuestBookingTicket);
+  app.get("/api/guest/bookings/:pnr/wallet", handleGetGuestBookingWalletLinks);
+  app.get(
+    "/api/guest/bookings/:pnr/calendar.ics",
+    handleGetGuestBookingCalendar,
+  );
 
-  // Booking routes (authenticated) - prefer Supabase but fallback when needed
-  app.post(
-    "/api/bookings",
+  // Signed ticket download links (the signature is the credential)
+  app.get("/api/tickets/:bookingId", handleDownloadSignedTicket);
+  app.get("/api/bookings/:bookingId/pass.pkpass", handleDownloadApplePass);
+
+  // Calendar feed for calendar apps (the secret token is the credential)
+  app.get("/api/calendar/:token.ics", handleGetCalendarFeed);
+  app.get("/api/calendar/feed", authMiddleware, handleGetCalendarFeedLink);
+  app.post("/api/calendar/feed/reset", authMiddleware, handleResetCalendarFeed);
+
+  // Public ticket verification (the signed token is the credential)
+  app.get("/api/verify/:token", handleVerifyTicket);
+
+  // Booking routes (authenticated)
+  app.post("/api/bookings", authMiddleware, handleCreateBooking);
+  app.get("/api/bookings", authMiddleware, handleGetUserBookings);
+  app.get("/api/bookings/:bookingId", authMiddleware, handleGetBookingDetails);
+  app.get(
+    "/api/bookings/:bookingId/history",
     authMiddleware,
-    useSupabase ? handleCreateSupabaseBooking : handleCreateBooking,
+    handleGetBookingHistory,
+  );
+  app.put(
+    "/api/bookings/:bookingId/cancel",
+    authMiddleware,
+    handleCancelBooking,
+  );
+  app.put(
+    "/api/bookings/:bookingId/quote",
+    authMiddleware,
+    handleRequoteBooking,
   );
   app.get(
-    "/api/bookings",
+    "/api/bookings/:bookingId/ticket",
     authMiddleware,
-    useSupabase ? handleGetSupabaseUserBookings : handleGetUserBookings,
+    handleGetBookingTicket,
   );
   app.get(
-    "/api/bookings/:bookingId",
+    "/api/bookings/:bookingId/ticket/link",
     authMiddleware,
-    useSupabase ? handleGetSupabaseBooking : handleGetBookingDetails,
+    handleGetBookingTicketLink,
   );
-  app.put(
-    "/api/bookings/:bookingId/cancel",
+  app.get(
+    "/api/bookings/:bookingId/wallet",
     authMiddleware,
-    useSupabase ? handleCancelSupabaseBooking : handleCancelBooking,
+    handleGetBookingWalletLinks,
+  );
+  app.get(
+    "/api/bookings/:bookingId/calendar.ics",
+    authMiddleware,
+    handleGetBookingCalendar,
   );
 
   // Payment routes (authenticated)
-  app.post("/api/payments", authMiddleware, handleProcessPayment);
+  app.post(
+    "/api/payments",
+    authMiddleware,
+    requireVerifiedEmail("bookings"),
+    handleProcessPayment,
+  );
   app.post(
     "/api/payments/paypal/create-order",
     authMiddleware,
+    requireVerifiedEmail("bookings"),
     handleCreatePayPalOrder,
   );
   app.post(
@@ -403,6 +544,7 @@ export async function createServer() {
   app.post(
     "/api/payments/stripe/create-intent",
     authMiddleware,
+    requireVerifiedEmail("bookings"),
     handleCreateStripePaymentIntent,
   );
   app.get("/api/payments/stripe/config", handleGetStripeConfig);
@@ -410,7 +552,12 @@ export async function createServer() {
   app.get("/api/payments/:transactionId", authMiddleware, handleGetTransaction);
 
   // Support ticket routes (authenticated)
-  app.post("/api/support/tickets", authMiddleware, handleCreateSupportTicket);
+  app.post(
+    "/api/support/tickets",
+    authMiddleware,
+    requireVerifiedEmail("support"),
+    handleCreateSupportTicket,
+  );
   app.get("/api/support/tickets", authMiddleware, handleGetUserSupportTickets);
   app.get(
     "/api/support/tickets/:ticketId",
@@ -439,64 +586,168 @@ export async function createServer() {
     authMiddleware,
     handleSendSupportTicketConfirmation,
   );
-  app.post("/api/email/password-reset", handleSendPasswordReset);
+  // Sends whatever link it is given; users reset through /api/auth/password
+  app.post(
+    "/api/email/password-reset",
+    authMiddleware,
+    requireRole("admin"),
+    handleSendPasswordReset,
+  );
   app.post("/api/email/welcome", authMiddleware, handleSendWelcomeEmail);
   app.post("/api/email/test", authMiddleware, handleTestEmail);
 
-  // Email verification routes (public)
+  // Email verification routes (sending and confirming are public)
   app.post("/api/email/verify/send", handleSendVerificationEmail);
   app.post("/api/email/verify/confirm", handleVerifyEmail);
-  app.get("/api/email/verify/status/:token", handleCheckVerificationStatus);
-  app.post("/api/email/verify/resend", handleResendVerificationEmail);
-
-  // Amadeus API routes (public)
-  app.get("/api/amadeus/flights/search", handleSearchFlights);
-  app.get("/api/amadeus/airports/search", handleSearchAirports);
-  app.get("/api/amadeus/flights/price", handleGetFlightPrice);
-  app.get("/api/amadeus/flights/seatmaps", handleGetSeatMaps);
-  app.get("/api/amadeus/airlines/:airlineCode", handleGetAirline);
-  app.get("/api/amadeus/destinations/popular", handleGetPopularDestinations);
-  app.get("/api/amadeus/health", handleAmadeusHealthCheck);
+  app.get(
+    "/api/email/verify/status",
+    authMiddleware,
+    handleCheckVerificationStatus,
+  );
+  app.post(
+    "/api/email/verify/resend",
+    authMiddleware,
+    handleResendVerificationEmail,
+  );
+
+  // Flight search routes (public), served by the configured flight providers
+  app.get("/api/flights/search", handleSearchFlights);
+  app.get("/api/flights/airports/search", handleSearchAirports);
+  app.post("/api/flights/price", handleGetFlightPrice);
+  app.post("/api/flights/seatmaps", handleGetSeatMaps);
+  app.get("/api/flights/airlines/:airlineCode", handleGetAirline);
+  app.get("/api/flights/destinations/popular", handleGetPopularDestinations);
+  app.get("/api/flights/health", handleFlightProvidersHealthCheck);
 
   // Stripe webhook routes (public, but authenticated via Stripe signature)
   app.post("/api/webhooks/stripe", handleStripeWebhook);
   app.get("/api/webhooks/health", handleWebhookHealth);
 
-  // Admin routes (authenticated) - Note: These should have additional admin role checks
-  app.get("/api/admin/stats", authMiddleware, handleGetAdminStats);
-  app.get("/api/admin/users", authMiddleware, handleGetAllUsers);
+  // PayPal webhook route (public, verified with PayPal's signature API)
+  app.post("/api/webhooks/paypal", handlePayPalWebhook);
+
+  // Admin routes (authenticated, and limited to the staff roles that work
+  // on each area; see ADMIN_AREA_ROLES in shared/roles.ts)
+  app.get(
+    "/api/admin/stats",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.overview),
+    handleGetAdminStats,
+  );
+  app.get(
+    "/api/admin/users",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.users),
+    handleGetAllUsers,
+  );
   app.put(
     "/api/admin/users/:userId/status",
     authMiddleware,
+    requireRole("admin"),
     handleUpdateUserStatus,
   );
+  app.post(
+    "/api/admin/users/:userId/roles",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.team),
+    handleGrantUserRole,
+  );
+  app.delete(
+    "/api/admin/users/:userId/roles/:role",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.team),
+    handleRevokeUserRole,
+  );
   app.get(
     "/api/admin/bookings",
     authMiddleware,
-    useSupabase ? handleGetAllSupabaseBookings : handleGetAllBookings,
+    requireRole(...ADMIN_AREA_ROLES.bookings),
+    handleGetAllBookings,
   );
   app.put(
     "/api/admin/bookings/:bookingId/status",
     authMiddleware,
-    useSupabase ? handleUpdateSupabaseBookingStatus : handleUpdateBookingStatus,
+    requireRole(...ADMIN_AREA_ROLES.bookings),
+    handleUpdateBookingStatus,
   );
   app.get(
     "/api/admin/support/tickets",
     authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.support),
     handleGetAllSupportTickets,
   );
   app.put(
     "/api/admin/support/tickets/:ticketId/status",
     authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.support),
     handleUpdateSupportTicketStatus,
   );
-  app.get("/api/admin/support/stats", authMiddleware, handleGetSupportStats);
-  app.get("/api/admin/payments", authMiddleware, handleGetAllTransactions);
+  app.get(
+    "/api/admin/support/stats",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.support),
+    handleGetSupportStats,
+  );
+  app.get(
+    "/api/admin/payments",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.payments),
+    handleGetAllTransactions,
+  );
   app.post(
     "/api/admin/payments/:transactionId/refund",
     authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.payments),
     handleRefundPayment,
   );
+  app.get(
+    "/api/admin/payments/:transactionId/refunds",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.payments),
+    handleGetTransactionRefunds,
+  );
+  app.get(
+    "/api/admin/disputes",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.disputes),
+    handleGetDisputes,
+  );
+  app.put(
+    "/api/admin/disputes/:disputeId/evidence",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.disputes),
+    handleUpdateDisputeEvidence,
+  );
+  app.put(
+    "/api/admin/currency/rates/:currency",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.currency),
+    handleUpdateCurrencyRate,
+  );
+  app.get(
+    "/api/admin/promo-codes",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.promos),
+    handleGetPromoCodes,
+  );
+  app.post(
+    "/api/admin/promo-codes",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.promos),
+    handleCreatePromoCode,
+  );
+  app.put(
+    "/api/admin/promo-codes/:promoId",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.promos),
+    handleUpdatePromoCode,
+  );
+  app.delete(
+    "/api/admin/promo-codes/:promoId",
+    authMiddleware,
+    requireRole(...ADMIN_AREA_ROLES.promos),
+    handleDeletePromoCode,
+  );
 
   // 404 handler for API routes
   app.use("/api/*", (req, res) => {
@@ -509,8 +760,21 @@ export async function createServer() {
         "GET /api/status",
         "POST /api/auth/register",
         "POST /api/auth/login",
+        "POST /api/auth/refresh",
+        "POST /api/auth/logout",
+        "POST /api/auth/password/forgot",
+        "POST /api/auth/password/reset",
+        "POST /api/auth/2fa/challenge",
+        "POST /api/quotes",
+        "POST /api/seatmaps",
+        "GET /api/flights/search",
+        "GET /api/currency/rates",
+        "POST /api/promo/validate",
         "POST /api/guest/bookings",
         "GET /api/guest/bookings/:pnr",
+        "GET /api/guest/bookings/:pnr/ticket",
+        "GET /api/guest/bookings/:pnr/wallet",
+        "GET /api/guest/bookings/:pnr/calendar.ics",
       ],
     });
   });
@@ -523,8 +787,8 @@ const PORT = process.env.PORT || 3000;
 const isViteMode =
   process.env.VITE_MODE || process.env.NODE_ENV === "development";
 
-// Only start standalone server if not running via Vite dev server
-if (!isViteMode) {
+// Only start standalone server if not running via Vite dev server or vitest
+if (!isViteMode && !process.env.VITEST) {
   createServer().then((app) => {
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -533,4 +797,4 @@ if (!isViteMode) {
       console.log(`🔧 Services status: http://localhost:${PORT}/api/services`);
     });
   });
-}
\ No newline at end of file
+}
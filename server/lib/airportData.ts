@@ -5,6 +5,10 @@ export interface AirportInfo {
   city: string;
   country: string;
   region: string;
+  // IANA time zone; flight times are local to the airport
+  timezone: string;
+  latitude: number;
+  longitude: number;
 }
 
 export const MAJOR_AIRPORTS: AirportInfo[] = [
@@ -15,6 +19,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "New York",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 40.64,
+    longitude: -73.78,
   },
   {
     code: "LAX",
@@ -22,6 +29,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Los Angeles",
     country: "United States",
     region: "North America",
+    timezone: "America/Los_Angeles",
+    latitude: 33.94,
+    longitude: -118.41,
   },
   {
     code: "ORD",
@@ -29,6 +39,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Chicago",
     country: "United States",
     region: "North America",
+    timezone: "America/Chicago",
+    latitude: 41.98,
+    longitude: -87.9,
   },
   {
     code: "DFW",
@@ -36,6 +49,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Dallas",
     country: "United States",
     region: "North America",
+    timezone: "America/Chicago",
+    latitude: 32.9,
+    longitude: -97.04,
   },
   {
     code: "DEN",
@@ -43,6 +59,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Denver",
     country: "United States",
     region: "North America",
+    timezone: "America/Denver",
+    latitude: 39.86,
+    longitude: -104.67,
   },
   {
     code: "LAS",
@@ -50,6 +69,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Las Vegas",
     country: "United States",
     region: "North America",
+    timezone: "America/Los_Angeles",
+    latitude: 36.08,
+    longitude: -115.15,
   },
   {
     code: "PHX",
@@ -57,6 +79,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Phoenix",
     country: "United States",
     region: "North America",
+    timezone: "America/Phoenix",
+    latitude: 33.43,
+    longitude: -112.01,
   },
   {
     code: "IAH",
@@ -64,6 +89,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Houston",
     country: "United States",
     region: "North America",
+    timezone: "America/Chicago",
+    latitude: 29.99,
+    longitude: -95.34,
   },
   {
     code: "MIA",
@@ -71,6 +99,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Miami",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 25.79,
+    longitude: -80.29,
   },
   {
     code: "SEA",
@@ -78,6 +109,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Seattle",
     country: "United States",
     region: "North America",
+    timezone: "America/Los_Angeles",
+    latitude: 47.45,
+    longitude: -122.31,
   },
   {
     code: "SFO",
@@ -85,6 +119,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "San Francisco",
     country: "United States",
     region: "North America",
+    timezone: "America/Los_Angeles",
+    latitude: 37.62,
+    longitude: -122.38,
   },
   {
     code: "LGA",
@@ -92,6 +129,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "New York",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 40.78,
+    longitude: -73.87,
   },
   {
     code: "EWR",
@@ -99,6 +139,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Newark",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 40.69,
+    longitude: -74.17,
   },
   {
     code: "BOS",
@@ -106,6 +149,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Boston",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 42.36,
+    longitude: -71.01,
   },
   {
     code: "BWI",
@@ -113,6 +159,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Baltimore",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 39.18,
+    longitude: -76.67,
   },
   {
     code: "DCA",
@@ -120,6 +169,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Washington D.C.",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 38.85,
+    longitude: -77.04,
   },
   {
     code: "IAD",
@@ -127,6 +179,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Washington D.C.",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 38.95,
+    longitude: -77.46,
   },
   {
     code: "ATL",
@@ -134,6 +189,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Atlanta",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 33.64,
+    longitude: -84.43,
   },
   {
     code: "CLT",
@@ -141,6 +199,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Charlotte",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 35.21,
+    longitude: -80.94,
   },
   {
     code: "MCO",
@@ -148,6 +209,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Orlando",
     country: "United States",
     region: "North America",
+    timezone: "America/New_York",
+    latitude: 28.43,
+    longitude: -81.31,
   },
   {
     code: "YYZ",
@@ -155,6 +219,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Toronto",
     country: "Canada",
     region: "North America",
+    timezone: "America/Toronto",
+    latitude: 43.68,
+    longitude: -79.63,
   },
   {
     code: "YVR",
@@ -162,6 +229,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Vancouver",
     country: "Canada",
     region: "North America",
+    timezone: "America/Vancouver",
+    latitude: 49.19,
+    longitude: -123.18,
   },
   {
     code: "YUL",
@@ -169,6 +239,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Montreal",
     country: "Canada",
     region: "North America",
+    timezone: "America/Toronto",
+    latitude: 45.47,
+    longitude: -73.74,
   },
   {
     code: "MEX",
@@ -176,6 +249,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Mexico City",
     country: "Mexico",
     region: "North America",
+    timezone: "America/Mexico_City",
+    latitude: 19.44,
+    longitude: -99.07,
   },
 
   // Europe
@@ -185,6 +261,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "London",
     country: "United Kingdom",
     region: "Europe",
+    timezone: "Europe/London",
+    latitude: 51.47,
+    longitude: -0.45,
   },
   {
     code: "CDG",
@@ -192,6 +271,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Paris",
     country: "France",
     region: "Europe",
+    timezone: "Europe/Paris",
+    latitude: 49.01,
+    longitude: 2.55,
   },
   {
     code: "FRA",
@@ -199,6 +281,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Frankfurt",
     country: "Germany",
     region: "Europe",
+    timezone: "Europe/Berlin",
+    latitude: 50.04,
+    longitude: 8.56,
   },
   {
     code: "AMS",
@@ -206,6 +291,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Amsterdam",
     country: "Netherlands",
     region: "Europe",
+    timezone: "Europe/Amsterdam",
+    latitude: 52.31,
+    longitude: 4.76,
   },
   {
     code: "MAD",
@@ -213,6 +301,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Madrid",
     country: "Spain",
     region: "Europe",
+    timezone: "Europe/Madrid",
+    latitude: 40.49,
+    longitude: -3.57,
   },
   {
     code: "BCN",
@@ -220,6 +311,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Barcelona",
     country: "Spain",
     region: "Europe",
+    timezone: "Europe/Madrid",
+    latitude: 41.3,
+    longitude: 2.08,
   },
   {
     code: "FCO",
@@ -227,6 +321,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Rome",
     country: "Italy",
     region: "Europe",
+    timezone: "Europe/Rome",
+    latitude: 41.8,
+    longitude: 12.25,
   },
   {
     code: "MXP",
@@ -234,6 +331,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Milan",
     country: "Italy",
     region: "Europe",
+    timezone: "Europe/Rome",
+    latitude: 45.63,
+    longitude: 8.72,
   },
   {
     code: "MUC",
@@ -241,6 +341,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Munich",
     country: "Germany",
     region: "Europe",
+    timezone: "Europe/Berlin",
+    latitude: 48.35,
+    longitude: 11.79,
   },
   {
     code: "ZUR",
@@ -248,6 +351,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Zurich",
     country: "Switzerland",
     region: "Europe",
+    timezone: "Europe/Zurich",
+    latitude: 47.46,
+    longitude: 8.55,
   },
   {
     code: "VIE",
@@ -255,6 +361,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Vienna",
     country: "Austria",
     region: "Europe",
+    timezone: "Europe/Vienna",
+    latitude: 48.11,
+    longitude: 16.57,
   },
   {
     code: "CPH",
@@ -262,6 +371,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Copenhagen",
     country: "Denmark",
     region: "Europe",
+    timezone: "Europe/Copenhagen",
+    latitude: 55.62,
+    longitude: 12.66,
   },
   {
     code: "ARN",
@@ -269,6 +381,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Stockholm",
     country: "Sweden",
     region: "Europe",
+    timezone: "Europe/Stockholm",
+    latitude: 59.65,
+    longitude: 17.92,
   },
   {
     code: "OSL",
@@ -276,6 +391,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Oslo",
     country: "Norway",
     region: "Europe",
+    timezone: "Europe/Oslo",
+    latitude: 60.19,
+    longitude: 11.1,
   },
   {
     code: "HEL",
@@ -283,6 +401,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Helsinki",
     country: "Finland",
     region: "Europe",
+    timezone: "Europe/Helsinki",
+    latitude: 60.32,
+    longitude: 24.96,
   },
   {
     code: "IST",
@@ -290,6 +411,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Istanbul",
     country: "Turkey",
     region: "Europe",
+    timezone: "Europe/Istanbul",
+    latitude: 41.26,
+    longitude: 28.74,
   },
   {
     code: "ATH",
@@ -297,6 +421,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Athens",
     country: "Greece",
     region: "Europe",
+    timezone: "Europe/Athens",
+    latitude: 37.94,
+    longitude: 23.94,
   },
   {
     code: "LGW",
@@ -304,6 +431,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "London",
     country: "United Kingdom",
     region: "Europe",
+    timezone: "Europe/London",
+    latitude: 51.15,
+    longitude: -0.18,
   },
   {
     code: "STN",
@@ -311,6 +441,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "London",
     country: "United Kingdom",
     region: "Europe",
+    timezone: "Europe/London",
+    latitude: 51.89,
+    longitude: 0.24,
   },
   {
     code: "MAN",
@@ -318,6 +451,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Manchester",
     country: "United Kingdom",
     region: "Europe",
+    timezone: "Europe/London",
+    latitude: 53.35,
+    longitude: -2.27,
   },
   {
     code: "EDI",
@@ -325,6 +461,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Edinburgh",
     country: "United Kingdom",
     region: "Europe",
+    timezone: "Europe/London",
+    latitude: 55.95,
+    longitude: -3.37,
   },
   {
     code: "DUB",
@@ -332,6 +471,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Dublin",
     country: "Ireland",
     region: "Europe",
+    timezone: "Europe/Dublin",
+    latitude: 53.42,
+    longitude: -6.27,
   },
   {
     code: "BRU",
@@ -339,6 +481,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Brussels",
     country: "Belgium",
     region: "Europe",
+    timezone: "Europe/Brussels",
+    latitude: 50.9,
+    longitude: 4.48,
   },
   {
     code: "LIS",
@@ -346,6 +491,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Lisbon",
     country: "Portugal",
     region: "Europe",
+    timezone: "Europe/Lisbon",
+    latitude: 38.77,
+    longitude: -9.13,
   },
   {
     code: "OPO",
@@ -353,6 +501,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Porto",
     country: "Portugal",
     region: "Europe",
+    timezone: "Europe/Lisbon",
+    latitude: 41.24,
+    longitude: -8.68,
   },
   {
     code: "PRG",
@@ -360,6 +511,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Prague",
     country: "Czech Republic",
     region: "Europe",
+    timezone: "Europe/Prague",
+    latitude: 50.1,
+    longitude: 14.26,
   },
   {
     code: "WAW",
@@ -367,6 +521,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Warsaw",
     country: "Poland",
     region: "Europe",
+    timezone: "Europe/Warsaw",
+    latitude: 52.17,
+    longitude: 20.97,
   },
   {
     code: "BUD",
@@ -374,6 +531,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Budapest",
     country: "Hungary",
     region: "Europe",
+    timezone: "Europe/Budapest",
+    latitude: 47.44,
+    longitude: 19.26,
   },
 
   // Asia
@@ -383,6 +543,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Tokyo",
     country: "Japan",
     region: "Asia",
+    timezone: "Asia/Tokyo",
+    latitude: 35.77,
+    longitude: 140.39,
   },
   {
     code: "HND",
@@ -390,6 +553,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Tokyo",
     country: "Japan",
     region: "Asia",
+    timezone: "Asia/Tokyo",
+    latitude: 35.55,
+    longitude: 139.78,
   },
   {
     code: "KIX",
@@ -397,6 +563,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Osaka",
     country: "Japan",
     region: "Asia",
+    timezone: "Asia/Tokyo",
+    latitude: 34.43,
+    longitude: 135.24,
   },
   {
     code: "ICN",
@@ -404,6 +573,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Seoul",
     country: "South Korea",
     region: "Asia",
+    timezone: "Asia/Seoul",
+    latitude: 37.46,
+    longitude: 126.44,
   },
   {
     code: "PEK",
@@ -411,6 +583,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Beijing",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 40.08,
+    longitude: 116.58,
   },
   {
     code: "PKX",
@@ -418,6 +593,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Beijing",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 39.51,
+    longitude: 116.41,
   },
   {
     code: "PVG",
@@ -425,6 +603,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Shanghai",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 31.14,
+    longitude: 121.81,
   },
   {
     code: "SHA",
@@ -432,6 +613,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Shanghai",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 31.2,
+    longitude: 121.34,
   },
   {
     code: "CAN",
@@ -439,6 +623,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Guangzhou",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 23.39,
+    longitude: 113.3,
   },
   {
     code: "SZX",
@@ -446,6 +633,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Shenzhen",
     country: "China",
     region: "Asia",
+    timezone: "Asia/Shanghai",
+    latitude: 22.64,
+    longitude: 113.81,
   },
   {
     code: "HKG",
@@ -453,6 +643,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Hong Kong",
     country: "Hong Kong",
     region: "Asia",
+    timezone: "Asia/Hong_Kong",
+    latitude: 22.31,
+    longitude: 113.92,
   },
   {
     code: "TPE",
@@ -460,6 +653,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Taipei",
     country: "Taiwan",
     region: "Asia",
+    timezone: "Asia/Taipei",
+    latitude: 25.08,
+    longitude: 121.23,
   },
   {
     code: "SIN",
@@ -467,6 +663,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Singapore",
     country: "Singapore",
     region: "Asia",
+    timezone: "Asia/Singapore",
+    latitude: 1.36,
+    longitude: 103.99,
   },
   {
     code: "KUL",
@@ -474,6 +673,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Kuala Lumpur",
     country: "Malaysia",
     region: "Asia",
+    timezone: "Asia/Kuala_Lumpur",
+    latitude: 2.75,
+    longitude: 101.71,
   },
   {
     code: "BKK",
@@ -481,6 +683,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Bangkok",
     country: "Thailand",
     region: "Asia",
+    timezone: "Asia/Bangkok",
+    latitude: 13.69,
+    longitude: 100.75,
   },
   {
     code: "DMK",
@@ -488,6 +693,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Bangkok",
     country: "Thailand",
     region: "Asia",
+    timezone: "Asia/Bangkok",
+    latitude: 13.91,
+    longitude: 100.61,
   },
   {
     code: "CGK",
@@ -495,6 +703,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Jakarta",
     country: "Indonesia",
     region: "Asia",
+    timezone: "Asia/Jakarta",
+    latitude: -6.13,
+    longitude: 106.66,
   },
   {
     code: "MNL",
@@ -502,6 +713,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Manila",
     country: "Philippines",
     region: "Asia",
+    timezone: "Asia/Manila",
+    latitude: 14.51,
+    longitude: 121.02,
   },
   {
     code: "DEL",
@@ -509,6 +723,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "New Delhi",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 28.56,
+    longitude: 77.1,
   },
   {
     code: "BOM",
@@ -516,6 +733,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Mumbai",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 19.09,
+    longitude: 72.87,
   },
   {
     code: "BLR",
@@ -523,6 +743,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Bangalore",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 13.2,
+    longitude: 77.71,
   },
   {
     code: "MAA",
@@ -530,6 +753,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Chennai",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 12.99,
+    longitude: 80.17,
   },
   {
     code: "HYD",
@@ -537,6 +763,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Hyderabad",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 17.24,
+    longitude: 78.43,
   },
   {
     code: "CCU",
@@ -544,6 +773,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Kolkata",
     country: "India",
     region: "Asia",
+    timezone: "Asia/Kolkata",
+    latitude: 22.65,
+    longitude: 88.45,
   },
 
   // Middle East
@@ -553,6 +785,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Dubai",
     country: "United Arab Emirates",
     region: "Middle East",
+    timezone: "Asia/Dubai",
+    latitude: 25.25,
+    longitude: 55.36,
   },
   {
     code: "DWC",
@@ -560,6 +795,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Dubai",
     country: "United Arab Emirates",
     region: "Middle East",
+    timezone: "Asia/Dubai",
+    latitude: 24.9,
+    longitude: 55.16,
   },
   {
     code: "AUH",
@@ -567,6 +805,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Abu Dhabi",
     country: "United Arab Emirates",
     region: "Middle East",
+    timezone: "Asia/Dubai",
+    latitude: 24.43,
+    longitude: 54.65,
   },
   {
     code: "DOH",
@@ -574,6 +815,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Doha",
     country: "Qatar",
     region: "Middle East",
+    timezone: "Asia/Qatar",
+    latitude: 25.27,
+    longitude: 51.61,
   },
   {
     code: "KWI",
@@ -581,6 +825,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Kuwait City",
     country: "Kuwait",
     region: "Middle East",
+    timezone: "Asia/Kuwait",
+    latitude: 29.24,
+    longitude: 47.97,
   },
   {
     code: "BAH",
@@ -588,6 +835,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Manama",
     country: "Bahrain",
     region: "Middle East",
+    timezone: "Asia/Bahrain",
+    latitude: 26.27,
+    longitude: 50.63,
   },
   {
     code: "RUH",
@@ -595,6 +845,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Riyadh",
     country: "Saudi Arabia",
     region: "Middle East",
+    timezone: "Asia/Riyadh",
+    latitude: 24.96,
+    longitude: 46.7,
   },
   {
     code: "JED",
@@ -602,6 +855,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Jeddah",
     country: "Saudi Arabia",
     region: "Middle East",
+    timezone: "Asia/Riyadh",
+    latitude: 21.68,
+    longitude: 39.16,
   },
   {
     code: "TLV",
@@ -609,6 +865,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Tel Aviv",
     country: "Israel",
     region: "Middle East",
+    timezone: "Asia/Jerusalem",
+    latitude: 32.01,
+    longitude: 34.89,
   },
 
   // Africa
@@ -618,6 +877,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Cairo",
     country: "Egypt",
     region: "Africa",
+    timezone: "Africa/Cairo",
+    latitude: 30.12,
+    longitude: 31.41,
   },
   {
     code: "CPT",
@@ -625,6 +887,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Cape Town",
     country: "South Africa",
     region: "Africa",
+    timezone: "Africa/Johannesburg",
+    latitude: -33.97,
+    longitude: 18.6,
   },
   {
     code: "JNB",
@@ -632,6 +897,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Johannesburg",
     country: "South Africa",
     region: "Africa",
+    timezone: "Africa/Johannesburg",
+    latitude: -26.14,
+    longitude: 28.24,
   },
   {
     code: "CMN",
@@ -639,6 +907,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Casablanca",
     country: "Morocco",
     region: "Africa",
+    timezone: "Africa/Casablanca",
+    latitude: 33.37,
+    longitude: -7.59,
   },
   {
     code: "LOS",
@@ -646,6 +917,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Lagos",
     country: "Nigeria",
     region: "Africa",
+    timezone: "Africa/Lagos",
+    latitude: 6.58,
+    longitude: 3.32,
   },
   {
     code: "ADD",
@@ -653,6 +927,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Addis Ababa",
     country: "Ethiopia",
     region: "Africa",
+    timezone: "Africa/Addis_Ababa",
+    latitude: 8.98,
+    longitude: 38.8,
   },
 
   // Oceania
@@ -662,6 +939,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Sydney",
     country: "Australia",
     region: "Oceania",
+    timezone: "Australia/Sydney",
+    latitude: -33.95,
+    longitude: 151.18,
   },
   {
     code: "MEL",
@@ -669,6 +949,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Melbourne",
     country: "Australia",
     region: "Oceania",
+    timezone: "Australia/Melbourne",
+    latitude: -37.67,
+    longitude: 144.84,
   },
   {
     code: "BNE",
@@ -676,6 +959,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Brisbane",
     country: "Australia",
     region: "Oceania",
+    timezone: "Australia/Brisbane",
+    latitude: -27.38,
+    longitude: 153.12,
   },
   {
     code: "PER",
@@ -683,6 +969,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Perth",
     country: "Australia",
     region: "Oceania",
+    timezone: "Australia/Perth",
+    latitude: -31.94,
+    longitude: 115.97,
   },
   {
     code: "ADL",
@@ -690,6 +979,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Adelaide",
     country: "Australia",
     region: "Oceania",
+    timezone: "Australia/Adelaide",
+    latitude: -34.95,
+    longitude: 138.53,
   },
   {
     code: "AKL",
@@ -697,6 +989,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Auckland",
     country: "New Zealand",
     region: "Oceania",
+    timezone: "Pacific/Auckland",
+    latitude: -37.01,
+    longitude: 174.79,
   },
   {
     code: "CHC",
@@ -704,6 +999,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Christchurch",
     country: "New Zealand",
     region: "Oceania",
+    timezone: "Pacific/Auckland",
+    latitude: -43.49,
+    longitude: 172.53,
   },
 
   // South America
@@ -713,6 +1011,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "São Paulo",
     country: "Brazil",
     region: "South America",
+    timezone: "America/Sao_Paulo",
+    latitude: -23.43,
+    longitude: -46.47,
   },
   {
     code: "GIG",
@@ -720,6 +1021,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Rio de Janeiro",
     country: "Brazil",
     region: "South America",
+    timezone: "America/Sao_Paulo",
+    latitude: -22.81,
+    longitude: -43.25,
   },
   {
     code: "BSB",
@@ -727,6 +1031,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Brasília",
     country: "Brazil",
     region: "South America",
+    timezone: "America/Sao_Paulo",
+    latitude: -15.87,
+    longitude: -47.92,
   },
   {
     code: "EZE",
@@ -734,6 +1041,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Buenos Aires",
     country: "Argentina",
     region: "South America",
+    timezone: "America/Argentina/Buenos_Aires",
+    latitude: -34.82,
+    longitude: -58.54,
   },
   {
     code: "SCL",
@@ -741,6 +1051,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Santiago",
     country: "Chile",
     region: "South America",
+    timezone: "America/Santiago",
+    latitude: -33.39,
+    longitude: -70.79,
   },
   {
     code: "LIM",
@@ -748,6 +1061,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Lima",
     country: "Peru",
     region: "South America",
+    timezone: "America/Lima",
+    latitude: -12.02,
+    longitude: -77.11,
   },
   {
     code: "BOG",
@@ -755,6 +1071,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Bogotá",
     country: "Colombia",
     region: "South America",
+    timezone: "America/Bogota",
+    latitude: 4.7,
+    longitude: -74.15,
   },
   {
     code: "UIO",
@@ -762,6 +1081,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Quito",
     country: "Ecuador",
     region: "South America",
+    timezone: "America/Guayaquil",
+    latitude: -0.13,
+    longitude: -78.36,
   },
   {
     code: "CCS",
@@ -769,6 +1091,9 @@ export const MAJOR_AIRPORTS: AirportInfo[] = [
     city: "Caracas",
     country: "Venezuela",
     region: "South America",
+    timezone: "America/Caracas",
+    latitude: 10.6,
+    longitude: -66.99,
   },
 ];
 
@@ -826,6 +1151,37 @@ export function getAirportByCode(code: string): AirportInfo | undefined {
   );
 }
 
+/**
+ * IANA time zone of an airport, if it is one we know
+ */
+export function getAirportTimeZone(code: string): string | undefined {
+  return getAirportByCode(code)?.timezone;
+}
+
+/**
+ * Great-circle distance between two airports in kilometres, if we know both
+ */
+export function getAirportDistanceKm(
+  fromCode: string,
+  toCode: string,
+): number | undefined {
+  const from = getAirportByCode(fromCode);
+  const to = getAirportByCode(toCode);
+  if (!from || !to) {
+    return undefined;
+  }
+
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.latitude - from.latitude);
+  const dLon = radians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.latitude)) *
+      Math.cos(radians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
 /**
  * Get popular airports by region
  */
@@ -0,0 +1,201 @@
+import BookingLifecycle, {
+  BookingActor,
+  TransitionResult,
+} from "./bookingLifecycle";
+import { BrandConfig, BrandService } from "./brandService";
+import CalendarService from "./calendarService";
+import EmailService from "./emailService";
+import RefundService from "./refundService";
+import TicketGenerator from "./ticketGenerator";
+import { BookingRecord, DataStore, TransactionRecord } from "./storage";
+
+const getBookingUrl = (booking: BookingRecord, brand: BrandConfig) =>
+  `${brand.websiteUrl}/booking/${booking.id}`;
+
+/**
+ * Confirms a booking once its payment has been captured outside a user
+ * request (e.g. from a payment provider webhook): issues the ticket if it is
+ * missing, moves the booking to paid/ticketed and emails the contact.
+ */
+export class BookingConfirmation {
+  /**
+   * Mark a provider transaction as completed and confirm its booking.
+   * Safe to call again when a provider reports the same payment twice.
+   */
+  static async confirmTransaction(
+    store: DataStore,
+    transaction: TransactionRecord,
+    actor: BookingActor,
+  ): Promise<void> {
+    let current = transaction;
+
+    if (current.status === "pending" || current.status === "failed") {
+      current =
+        (await store.transactions.update(current.id, {
+          status: "completed",
+        })) || current;
+    }
+
+    const booking = await store.bookings.findById(current.booking_id);
+    if (!booking) {
+      console.error(`❌ Booking ${current.booking_id} not found`);
+      return;
+    }
+
+    if (booking.status !== "pending") {
+      if (booking.status === "expired" || booking.status === "cancelled") {
+        // Money was taken for a hold that no longer exists
+        await BookingConfirmation.refundLatePayment(
+          store,
+          booking,
+          current,
+          actor,
+        );
+      }
+      return;
+    }
+
+    const result = await BookingConfirmation.confirmPayment(
+      store,
+      booking,
+      current,
+      actor,
+    );
+
+    if (!result.success) {
+      console.error("Booking status not updated:", result.message);
+    }
+  }
+
+  // The idempotency key makes redelivered provider events refund only once
+  private static async refundLatePayment(
+    store: DataStore,
+    booking: BookingRecord,
+    transaction: TransactionRecord,
+    actor: BookingActor,
+  ): Promise<void> {
+    const result = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      {
+        reason: `Payment received after the booking was ${booking.status}`,
+        idempotencyKey: `late_payment_${transaction.id}`,
+        actor,
+      },
+    );
+
+    if (!result.success) {
+      console.error(
+        `❌ Payment ${transaction.id} for ${booking.status} booking ${booking.pnr} could not be refunded: ${result.message}`,
+      );
+    }
+  }
+
+  static async confirmPayment(
+    store: DataStore,
+    booking: BookingRecord,
+    transaction: TransactionRecord,
+    actor: BookingActor,
+  ): Promise<TransitionResult> {
+    const passengers = await store.passengers.listByBooking(booking.id);
+    let current = booking;
+
+    if (!current.ticket_url) {
+      try {
+        const ticketUrl = await TicketGenerator.createTicket({
+          bookingId: booking.id,
+          brandId: booking.brand_id,
+          pnr: booking.pnr,
+          contactEmail: booking.contact_email,
+          route: {
+            from: booking.from_airport?.name || "",
+            to: booking.to_airport?.name || "",
+            fromCode: booking.from_airport?.code || "",
+            toCode: booking.to_airport?.code || "",
+            departureDate: booking.departure_date,
+            returnDate: booking.return_date || undefined,
+          },
+          passengers: passengers.map((passenger) => ({
+            title: passenger.title,
+            firstName: passenger.first_name,
+            lastName: passenger.last_name,
+            seats: passenger.seats,
+          })),
+          totalAmount: booking.total_amount,
+          currency: booking.currency || "USD",
+          bookingDate: booking.created_at,
+          selectedFlight: booking.selected_flight,
+        });
+
+        current =
+          (await store.bookings.update(booking.id, {
+            ticket_url: ticketUrl,
+          })) || current;
+      } catch (ticketError) {
+        console.error("Failed to generate ticket:", ticketError);
+        // Booking is still marked paid; the ticket can be reissued later
+      }
+    }
+
+    const result = await BookingLifecycle.markPaid(store, current, actor);
+    if (!result.success) {
+      return result;
+    }
+
+    const brand = BrandService.getBrand(booking.brand_id);
+    const customerName = passengers[0]?.first_name || "Customer";
+    const route = {
+      from: booking.from_airport?.name || booking.from_airport?.code || "",
+      to: booking.to_airport?.name || booking.to_airport?.code || "",
+      departureDate: booking.departure_date,
+    };
+
+    try {
+      await EmailService.sendBookingConfirmation(
+        booking.contact_email,
+        {
+          customerName,
+          pnr: booking.pnr,
+          route,
+          passengers: passengers.map((passenger) => ({
+            title: passenger.title,
+            firstName: passenger.first_name,
+            lastName: passenger.last_name,
+          })),
+          totalAmount: booking.total_amount,
+          currency: booking.currency || "USD",
+          bookingUrl: getBookingUrl(booking, brand),
+          calendar: CalendarService.createBookingCalendar(
+            result.booking || current,
+            passengers,
+          ),
+        },
+        brand,
+      );
+
+      await EmailService.sendPaymentConfirmation(
+        booking.contact_email,
+        {
+          customerName,
+          pnr: booking.pnr,
+          transactionId: transaction.id,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          paymentMethod: transaction.payment_method || "card",
+          bookingUrl: getBookingUrl(booking, brand),
+        },
+        brand,
+      );
+      console.log(`✅ Confirmation emails sent for booking ${booking.pnr}`);
+    } catch (emailError) {
+      console.error(
+        `❌ Failed to send confirmation emails for booking ${booking.pnr}:`,
+        emailError,
+      );
+    }
+
+    return result;
+  }
+}
+
+export default BookingConfirmation;
@@ -0,0 +1,177 @@
+import os from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import BookingExpiry, { BOOKING_EXPIRY_JOB } from "./bookingExpiry";
+import BookingLifecycle, { SYSTEM_ACTOR } from "./bookingLifecycle";
+import EmailService from "./emailService";
+import { JobScheduler } from "./jobScheduler";
+import StripeService from "./stripeService";
+import { getLocalDataStore } from "./storage";
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+describe("BookingExpiry", () => {
+  const sendBookingExpired = vi.spyOn(EmailService, "sendBookingExpired");
+
+  beforeAll(() => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `expiry-spec-${Date.now()}-${Math.random()}.json`,
+    );
+    process.env.BOOKING_HOLD_MINUTES = "30";
+    sendBookingExpired.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    sendBookingExpired.mockClear();
+  });
+
+  const createBooking = (createdAt: string, contactEmail: string) =>
+    getLocalDataStore().bookings.create({
+      user_id: null,
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-05-01",
+      trip_type: "oneway",
+      total_amount: 100,
+      contact_email: contactEmail,
+      terms_accepted: true,
+      created_at: createdAt,
+    });
+
+  it("should only treat pending bookings past the hold as expired", async () => {
+    const stale = await createBooking(minutesAgo(31), "stale@example.com");
+    const fresh = await createBooking(minutesAgo(5), "fresh@example.com");
+
+    expect(BookingExpiry.isHoldExpired(stale)).toBe(true);
+    expect(BookingExpiry.isHoldExpired(fresh)).toBe(false);
+    expect(BookingExpiry.isHoldExpired({ ...stale, status: "paid" })).toBe(
+      false,
+    );
+  });
+
+  it("should expire stale holds and email their contacts once", async () => {
+    const store = getLocalDataStore();
+    const stale = await createBooking(minutesAgo(45), "late@example.com");
+    const fresh = await createBooking(minutesAgo(5), "early@example.com");
+    const paid = await createBooking(minutesAgo(45), "paid@example.com");
+    await BookingLifecycle.markPaid(store, paid, SYSTEM_ACTOR);
+
+    // Emails only go out once the bookings are expired
+    const statusesWhenEmailed: string[] = [];
+    sendBookingExpired.mockImplementation(async (_to, details) => {
+      const booking = await store.bookings.findByPnr(details.pnr);
+      statusesWhenEmailed.push(booking!.status);
+      return true;
+    });
+
+    // The stale hold from the test above is expired as well
+    expect(await BookingExpiry.expireStaleBookings()).toBe(2);
+    expect(statusesWhenEmailed).toEqual(["expired", "expired"]);
+
+    expect((await store.bookings.findById(stale.id))?.status).toBe("expired");
+    expect((await store.bookings.findById(fresh.id))?.status).toBe("pending");
+    expect((await store.bookings.findById(paid.id))?.status).toBe("paid");
+    expect(sendBookingExpired.mock.calls.map(([to]) => to)).toContain(
+      "late@example.com",
+    );
+    expect(sendBookingExpired.mock.calls.map(([to]) => to)).not.toContain(
+      "paid@example.com",
+    );
+
+    sendBookingExpired.mockClear();
+    expect(await BookingExpiry.expireStaleBookings()).toBe(0);
+    expect(sendBookingExpired).not.toHaveBeenCalled();
+  });
+
+  it("should leave a booking paid after it was read alone", async () => {
+    const store = getLocalDataStore();
+    const stale = await createBooking(minutesAgo(45), "racing@example.com");
+    await BookingLifecycle.markPaid(store, stale.id, SYSTEM_ACTOR);
+
+    expect(await BookingExpiry.expireBooking(store, stale)).toBe(false);
+    expect((await store.bookings.findById(stale.id))?.status).toBe("paid");
+    expect(sendBookingExpired).not.toHaveBeenCalled();
+  });
+
+  it("should run as a scheduled job and report its counts", async () => {
+    await createBooking(minutesAgo(45), "job@example.com");
+    const scheduler = new JobScheduler();
+    BookingExpiry.registerJob(scheduler);
+
+    const status = await scheduler.runNow(BOOKING_EXPIRY_JOB);
+
+    expect(status).toMatchObject({
+      name: BOOKING_EXPIRY_JOB,
+      runs: 1,
+      failures: 0,
+      lastProcessed: 1,
+      lastError: null,
+    });
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  const addPendingTransaction = (
+    bookingId: string,
+    provider: { stripe_payment_intent_id?: string; paypal_order_id?: string },
+  ) =>
+    getLocalDataStore().transactions.create({
+      booking_id: bookingId,
+      user_id: null,
+      amount: 100,
+      payment_method: provider.stripe_payment_intent_id ? "stripe" : "paypal",
+      status: "pending",
+      ...provider,
+    });
+
+  it("should cancel open payments of the holds it expires", async () => {
+    const store = getLocalDataStore();
+    const cancelIntent = vi
+      .spyOn(StripeService, "cancelUnpaidPaymentIntent")
+      .mockResolvedValue(true);
+    const stripeHold = await createBooking(minutesAgo(45), "card@example.com");
+    const stripePayment = await addPendingTransaction(stripeHold.id, {
+      stripe_payment_intent_id: "pi_abandoned",
+    });
+    const paypalHold = await createBooking(minutesAgo(45), "pp@example.com");
+    const paypalPayment = await addPendingTransaction(paypalHold.id, {
+      paypal_order_id: "ORDER-ABANDONED",
+    });
+
+    expect(await BookingExpiry.expireStaleBookings()).toBe(2);
+
+    expect(cancelIntent).toHaveBeenCalledWith("pi_abandoned");
+    expect((await store.bookings.findById(stripeHold.id))?.status).toBe(
+      "expired",
+    );
+    expect((await store.transactions.findById(stripePayment.id))?.status).toBe(
+      "failed",
+    );
+    expect((await store.transactions.findById(paypalPayment.id))?.status).toBe(
+      "failed",
+    );
+    cancelIntent.mockRestore();
+  });
+
+  it("should keep a hold whose payment can no longer be stopped", async () => {
+    const store = getLocalDataStore();
+    const cancelIntent = vi
+      .spyOn(StripeService, "cancelUnpaidPaymentIntent")
+      .mockResolvedValue(false);
+    const hold = await createBooking(minutesAgo(45), "processing@example.com");
+    const payment = await addPendingTransaction(hold.id, {
+      stripe_payment_intent_id: "pi_processing",
+    });
+
+    expect(await BookingExpiry.expireStaleBookings()).toBe(0);
+
+    expect((await store.bookings.findById(hold.id))?.status).toBe("pending");
+    expect((await store.transactions.findById(payment.id))?.status).toBe(
+      "pending",
+    );
+    expect(sendBookingExpired).not.toHaveBeenCalled();
+    cancelIntent.mockRestore();
+  });
+});
@@ -0,0 +1,230 @@
+import BookingLifecycle, { SYSTEM_ACTOR } from "./bookingLifecycle";
+import BrandService from "./brandService";
+import EmailService from "./emailService";
+import { JobScheduler } from "./jobScheduler";
+import RefundService from "./refundService";
+import StripeService from "./stripeService";
+import { BookingRecord, DataStore, getActiveDataStores } from "./storage";
+
+const DEFAULT_HOLD_MINUTES = 30;
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+export const BOOKING_EXPIRY_JOB = "expire-unpaid-bookings";
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Expires pending bookings that were not paid within the hold window
+ * (BOOKING_HOLD_MINUTES, default 30) and tells the contact by email.
+ */
+export class BookingExpiry {
+  static getHoldMinutes(): number {
+    return readPositiveNumber(
+      process.env.BOOKING_HOLD_MINUTES,
+      DEFAULT_HOLD_MINUTES,
+    );
+  }
+
+  static getIntervalMs(): number {
+    return (
+      readPositiveNumber(
+        process.env.BOOKING_EXPIRY_INTERVAL_SECONDS,
+        DEFAULT_INTERVAL_SECONDS,
+      ) * 1000
+    );
+  }
+
+  /**
+   * Whether a pending booking has outlived its hold window
+   */
+  static isHoldExpired(booking: BookingRecord, now = Date.now()): boolean {
+    const holdMs = BookingExpiry.getHoldMinutes() * 60 * 1000;
+    return (
+      booking.status === "pending" &&
+      new Date(booking.created_at).getTime() + holdMs < now
+    );
+  }
+
+  /**
+   * Expire every stale hold in the active store and, when Supabase is the
+   * active store, in the local store used by fallback users as well.
+   */
+  static async expireStaleBookings(): Promise<number> {
+    let expired = 0;
+
+    for (const store of getActiveDataStores()) {
+      expired += await BookingExpiry.expireInStore(store);
+    }
+
+    if (expired > 0) {
+      console.log(`⌛ Expired ${expired} unpaid booking(s)`);
+    }
+
+    return expired;
+  }
+
+  static registerJob(scheduler: JobScheduler): void {
+    scheduler.register({
+      name: BOOKING_EXPIRY_JOB,
+      intervalMs: BookingExpiry.getIntervalMs(),
+      run: () => BookingExpiry.expireStaleBookings(),
+      runOnStart: true,
+    });
+  }
+
+  /**
+   * Expire a single booking and email its contact.
+   * Resolves to false when the booking is no longer pending.
+   */
+  static async expireBooking(
+    store: DataStore,
+    booking: BookingRecord,
+  ): Promise<boolean> {
+    const expired = await BookingExpiry.expire(store, booking);
+    if (!expired) {
+      return false;
+    }
+
+    await BookingExpiry.notifyContact(store, expired);
+    return true;
+  }
+
+  // Emails go out once every stale hold in the store has been written
+  private static async expireInStore(store: DataStore): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - BookingExpiry.getHoldMinutes() * 60 * 1000,
+    ).toISOString();
+    const stale = await store.bookings.listPendingCreatedBefore(cutoff);
+    const expired: BookingRecord[] = [];
+
+    for (const booking of stale) {
+      const updated = await BookingExpiry.expire(store, booking);
+      if (updated) {
+        expired.push(updated);
+      }
+    }
+
+    for (const booking of expired) {
+      await BookingExpiry.notifyContact(store, booking);
+    }
+
+    return expired.length;
+  }
+
+  // Resolves to the expired booking, or null when it is no longer pending
+  // or a payment for it is already under way
+  private static async expire(
+    store: DataStore,
+    booking: BookingRecord,
+  ): Promise<BookingRecord | null> {
+    if (!(await BookingExpiry.stopPendingPayments(store, booking))) {
+      return null;
+    }
+
+    const result = await BookingLifecycle.transition(
+      store,
+      booking,
+      "expired",
+      {
+        ...SYSTEM_ACTOR,
+        reason: `Payment not received within ${BookingExpiry.getHoldMinutes()} minutes`,
+      },
+    );
+
+    if (!result.success) {
+      console.warn(
+        `⚠️ Could not expire booking ${booking.pnr}: ${result.message}`,
+      );
+      return null;
+    }
+
+    return result.booking!;
+  }
+
+  /**
+   * Cancel the Stripe intents and fail the PayPal orders still open for a
+   * hold. Resolves to false when a Stripe payment can't be stopped any more;
+   * the hold is kept and the webhook settles it. PayPal orders can't be
+   * cancelled, so a capture that still arrives is refunded.
+   */
+  private static async stopPendingPayments(
+    store: DataStore,
+    booking: BookingRecord,
+  ): Promise<boolean> {
+    const transactions = await store.transactions.listByBooking(booking.id);
+
+    for (const transaction of transactions) {
+      const provider = RefundService.getProvider(transaction);
+      if (transaction.status !== "pending" || provider === "manual") {
+        continue;
+      }
+
+      if (provider === "stripe") {
+        let cancelled = false;
+        try {
+          cancelled = await StripeService.cancelUnpaidPaymentIntent(
+            transaction.stripe_payment_intent_id!,
+          );
+        } catch (error) {
+          console.error(
+            `❌ Failed to cancel payment intent of booking ${booking.pnr}:`,
+            error,
+          );
+        }
+        if (!cancelled) {
+          console.warn(
+            `⚠️ Keeping hold of booking ${booking.pnr}: its payment is under way`,
+          );
+          return false;
+        }
+      }
+
+      await store.transactions.update(transaction.id, {
+        status: "failed",
+        payment_details: {
+          ...transaction.payment_details,
+          failure_message: "Booking hold expired",
+        },
+      });
+    }
+
+    return true;
+  }
+
+  private static async notifyContact(
+    store: DataStore,
+    booking: BookingRecord,
+  ): Promise<void> {
+    try {
+      const passengers = await store.passengers.listByBooking(booking.id);
+      const brand = BrandService.getBrand(booking.brand_id);
+
+      await EmailService.sendBookingExpired(
+        booking.contact_email,
+        {
+          customerName: passengers[0]?.first_name || "Customer",
+          pnr: booking.pnr,
+          route: {
+            from:
+              booking.from_airport?.name || booking.from_airport?.code || "",
+            to: booking.to_airport?.name || booking.to_airport?.code || "",
+            departureDate: booking.departure_date,
+          },
+          holdMinutes: BookingExpiry.getHoldMinutes(),
+          bookingUrl: brand.websiteUrl,
+        },
+        brand,
+      );
+    } catch (error) {
+      console.error(
+        `❌ Failed to send expiry email for booking ${booking.pnr}:`,
+        error,
+      );
+    }
+  }
+}
+
+export default BookingExpiry;
@@ -0,0 +1,105 @@
+import os from "os";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import BookingLifecycle, { SYSTEM_ACTOR } from "./bookingLifecycle";
+import { getLocalDataStore } from "./storage";
+
+describe("BookingLifecycle", () => {
+  beforeAll(() => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `lifecycle-spec-${Date.now()}-${Math.random()}.json`,
+    );
+  });
+
+  const createBooking = () =>
+    getLocalDataStore().bookings.create({
+      user_id: null,
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-05-01",
+      trip_type: "oneway",
+      total_amount: 100,
+      contact_email: "ada@example.com",
+      terms_accepted: true,
+    });
+
+  it("should record each transition as an event", async () => {
+    const store = getLocalDataStore();
+    const booking = await createBooking();
+
+    const result = await BookingLifecycle.transition(store, booking, "paid", {
+      actorType: "user",
+      actorId: "user-1",
+      reason: "Paid by card",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.booking?.status).toBe("paid");
+    expect(await store.bookingEvents.listByBooking(booking.id)).toMatchObject([
+      {
+        from_status: "pending",
+        to_status: "paid",
+        actor_type: "user",
+        actor_id: "user-1",
+        reason: "Paid by card",
+      },
+    ]);
+  });
+
+  it("should refuse transitions the lifecycle does not allow", async () => {
+    const store = getLocalDataStore();
+    const booking = await createBooking();
+
+    const result = await BookingLifecycle.transition(
+      store,
+      booking.id,
+      "ticketed",
+      SYSTEM_ACTOR,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      "Cannot change booking from pending to ticketed",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+  });
+
+  it("should not overwrite a booking that changed since it was read", async () => {
+    const store = getLocalDataStore();
+    const stale = await createBooking();
+    await BookingLifecycle.markPaid(store, stale.id, SYSTEM_ACTOR);
+
+    const result = await BookingLifecycle.transition(
+      store,
+      stale,
+      "expired",
+      SYSTEM_ACTOR,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.booking?.status).toBe("paid");
+    expect((await store.bookings.findById(stale.id))?.status).toBe("paid");
+    expect(await store.bookingEvents.listByBooking(stale.id)).toHaveLength(1);
+  });
+
+  it("should carry a booking with a ticket straight on to ticketed", async () => {
+    const store = getLocalDataStore();
+    const booking = await createBooking();
+    await store.bookings.update(booking.id, { ticket_url: "/tickets/1.pdf" });
+
+    const result = await BookingLifecycle.markPaid(
+      store,
+      booking.id,
+      SYSTEM_ACTOR,
+    );
+
+    expect(result.booking?.status).toBe("ticketed");
+    expect(
+      (await store.bookingEvents.listByBooking(booking.id)).map(
+        (event) => event.to_status,
+      ),
+    ).toEqual(["paid", "ticketed"]);
+  });
+});
@@ -0,0 +1,154 @@
+import { BookingStatus } from "@shared/api";
+import { canTransitionBooking } from "../../shared/bookingLifecycle";
+import PromoService from "./promoService";
+import { BookingEventRecord, BookingRecord, DataStore } from "./storage";
+
+export interface BookingActor {
+  actorType: BookingEventRecord["actor_type"];
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+export interface TransitionResult {
+  success: boolean;
+  booking?: BookingRecord;
+  event?: BookingEventRecord;
+  message?: string;
+}
+
+export const SYSTEM_ACTOR: BookingActor = { actorType: "system" };
+
+// Bookings that end unpaid give their promo code redemption back
+const RELEASES_PROMO: BookingStatus[] = ["cancelled", "expired"];
+
+/**
+ * Booking lifecycle service
+ * Every status change goes through here so it is checked against the
+ * transition table in shared/bookingLifecycle.ts and recorded as an event.
+ */
+export class BookingLifecycle {
+  /**
+   * Record the initial pending event for a newly created booking
+   */
+  static async recordCreated(
+    store: DataStore,
+    booking: BookingRecord,
+    actor: BookingActor,
+  ): Promise<void> {
+    try {
+      await store.bookingEvents.create({
+        booking_id: booking.id,
+        from_status: null,
+        to_status: booking.status,
+        actor_type: actor.actorType,
+        actor_id: actor.actorId || null,
+        reason: actor.reason || "Booking created",
+      });
+    } catch (error) {
+      // The booking itself exists; a missing history entry is not fatal
+      console.error("❌ Failed to record booking creation event:", error);
+    }
+  }
+
+  /**
+   * Move a booking to a new status if the lifecycle allows it
+   */
+  static async transition(
+    store: DataStore,
+    bookingOrId: BookingRecord | string,
+    to: BookingStatus,
+    actor: BookingActor,
+    updates: Partial<BookingRecord> = {},
+  ): Promise<TransitionResult> {
+    const booking =
+      typeof bookingOrId === "string"
+        ? await store.bookings.findById(bookingOrId)
+        : bookingOrId;
+
+    if (!booking) {
+      return { success: false, message: "Booking not found" };
+    }
+
+    if (!canTransitionBooking(booking.status, to)) {
+      return {
+        success: false,
+        booking,
+        message: `Cannot change booking from ${booking.status} to ${to}`,
+      };
+    }
+
+    // Only write over the status the check above was made against; the
+    // booking may have moved on since it was read
+    const updated = await store.bookings.updateIfStatus(
+      booking.id,
+      booking.status,
+      { ...updates, status: to },
+    );
+
+    if (!updated) {
+      const current = await store.bookings.findById(booking.id);
+      return current
+        ? {
+            success: false,
+            booking: current,
+            message: `Cannot change booking from ${current.status} to ${to}`,
+          }
+        : { success: false, message: "Booking not found" };
+    }
+
+    const event = await store.bookingEvents.create({
+      booking_id: booking.id,
+      from_status: booking.status,
+      to_status: to,
+      actor_type: actor.actorType,
+      actor_id: actor.actorId || null,
+      reason: actor.reason || null,
+    });
+
+    console.log(
+      `🔄 Booking ${booking.pnr}: ${booking.status} → ${to} (${actor.actorType})`,
+    );
+
+    if (RELEASES_PROMO.includes(to) && updated.promo_code) {
+      try {
+        await PromoService.release(updated);
+      } catch (error) {
+        console.error("❌ Failed to release promo code redemption:", error);
+      }
+    }
+
+    return { success: true, booking: updated, event };
+  }
+
+  /**
+   * Mark a booking as paid and, when its ticket has already been issued,
+   * carry it straight on to ticketed.
+   */
+  static async markPaid(
+    store: DataStore,
+    bookingOrId: BookingRecord | string,
+    actor: BookingActor,
+  ): Promise<TransitionResult> {
+    const paid = await BookingLifecycle.transition(
+      store,
+      bookingOrId,
+      "paid",
+      actor,
+    );
+
+    if (!paid.success || !paid.booking?.ticket_url) {
+      return paid;
+    }
+
+    const ticketed = await BookingLifecycle.transition(
+      store,
+      paid.booking,
+      "ticketed",
+      { ...SYSTEM_ACTOR, reason: "Ticket issued" },
+    );
+
+    return ticketed.success ? ticketed : paid;
+  }
+}
+
+export default BookingLifecycle;
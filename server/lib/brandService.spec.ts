@@ -0,0 +1,97 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import BrandService, { brandMiddleware, getRequestBrand } from "./brandService";
+
+const partner = {
+  id: "acme",
+  name: "Acme Travel",
+  logoUrl: "https://acme.example/logo.svg",
+  colors: { primary: "#0F766E" },
+  supportEmail: "help@acme.example",
+  websiteUrl: "https://tickets.acme.example",
+  domains: ["Tickets.Acme.Example"],
+  apiKeys: ["acme-partner-key-0001"],
+  senderEmail: "tickets@acme.example",
+};
+
+const writeBrands = (brands: unknown) => {
+  const file = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "brands-")),
+    "brands.json",
+  );
+  fs.writeFileSync(file, JSON.stringify(brands));
+  process.env.BRANDS_FILE = file;
+  BrandService.reload();
+};
+
+const runMiddleware = (headers: Record<string, string>, hostname: string) => {
+  const req: any = {
+    hostname,
+    get: (name: string) => headers[name.toLowerCase()],
+  };
+  const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+  const next = vi.fn();
+  brandMiddleware(req, res, next);
+  return { req, res, next };
+};
+
+describe("BrandService", () => {
+  beforeEach(() => {
+    writeBrands([partner]);
+  });
+
+  afterEach(() => {
+    delete process.env.BRANDS_FILE;
+    BrandService.reload();
+  });
+
+  it("should fill partner defaults from the default brand", () => {
+    const brand = BrandService.getBrand("acme");
+
+    expect(brand.colors.primary).toBe("#0F766E");
+    expect(brand.colors.dark).toBe("#3839C9");
+    expect(brand.senderName).toBe("Acme Travel");
+    expect(brand.legalFooter).toContain("Acme Travel");
+    expect(BrandService.getBrand("removed").id).toBe("onboardticket");
+    expect(BrandService.getBrand(null).id).toBe("onboardticket");
+  });
+
+  it("should select brands by API key before host name", () => {
+    expect(
+      getRequestBrand(runMiddleware({}, "tickets.acme.example").req).id,
+    ).toBe("acme");
+    expect(getRequestBrand(runMiddleware({}, "localhost").req).id).toBe(
+      "onboardticket",
+    );
+    expect(
+      getRequestBrand(
+        runMiddleware({ "x-api-key": "acme-partner-key-0001" }, "localhost")
+          .req,
+      ).id,
+    ).toBe("acme");
+  });
+
+  it("should reject unknown API keys", () => {
+    const { res, next } = runMiddleware({ "x-api-key": "guess" }, "localhost");
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to the default brand when the file is invalid", () => {
+    writeBrands([{ ...partner, colors: { primary: "teal" } }]);
+
+    expect(BrandService.listBrands().map((brand) => brand.id)).toEqual([
+      "onboardticket",
+    ]);
+  });
+
+  it("should not expose keys or domains publicly", () => {
+    const brand = BrandService.toPublicBrand(BrandService.getBrand("acme"));
+
+    expect(brand).not.toHaveProperty("apiKeys");
+    expect(brand).not.toHaveProperty("domains");
+  });
+});
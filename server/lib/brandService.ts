@@ -0,0 +1,195 @@
+import fs from "fs";
+import path from "path";
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { Brand } from "@shared/api";
+
+export interface BrandConfig extends Brand {
+  // Host names the brand's website is served from
+  domains: string[];
+  // Keys partners send in the X-API-Key header
+  apiKeys: string[];
+  senderName: string;
+  senderEmail: string;
+  // PNG or JPEG for the ticket PDF header; the name is printed without one
+  ticketLogoUrl?: string;
+}
+
+const DEFAULT_BRAND_ID = "onboardticket";
+
+const defaultBrand = (): BrandConfig => ({
+  id: DEFAULT_BRAND_ID,
+  name: "OnboardTicket",
+  logoUrl: "/onboard/logos-01.png",
+  colors: {
+    primary: "#505BFB",
+    secondary: "#878EFF",
+    accent: "#C6FF9A",
+    dark: "#3839C9",
+  },
+  legalFooter: `© ${new Date().getFullYear()} OnboardTicket. All rights reserved.`,
+  supportEmail: "services@onboardticket.com",
+  websiteUrl: process.env.CLIENT_URL || "https://onboardticket.com",
+  domains: [],
+  apiKeys: [],
+  senderName: "OnboardTicket",
+  senderEmail: "services@onboardticket.com",
+});
+
+const color = z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Use a #RRGGBB color");
+
+const brandSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits or -"),
+  name: z.string().min(1),
+  logoUrl: z.string().min(1),
+  colors: z
+    .object({
+      primary: color,
+      secondary: color,
+      accent: color,
+      dark: color,
+    })
+    .partial()
+    .optional(),
+  legalFooter: z.string().optional(),
+  supportEmail: z.string().email(),
+  supportPhone: z.string().optional(),
+  websiteUrl: z.string().url(),
+  domains: z.array(z.string().min(1)).default([]),
+  apiKeys: z.array(z.string().min(16)).default([]),
+  senderName: z.string().min(1).optional(),
+  senderEmail: z.string().email(),
+  ticketLogoUrl: z.string().optional(),
+});
+
+let brands: BrandConfig[] | null = null;
+
+// Partner brands from BRANDS_FILE (a JSON array); unset colors and footer
+// fall back to the default brand's
+const loadBrands = (): BrandConfig[] => {
+  const fallback = defaultBrand();
+  const file = process.env.BRANDS_FILE;
+  if (!file) {
+    return [fallback];
+  }
+
+  try {
+    const parsed = z
+      .array(brandSchema)
+      .parse(JSON.parse(fs.readFileSync(path.resolve(file), "utf8")));
+
+    const partners = parsed.map(
+      // Validated above; zod types every field optional without strictNullChecks
+      (brand) =>
+        ({
+          ...brand,
+          colors: { ...fallback.colors, ...brand.colors },
+          legalFooter:
+            brand.legalFooter ||
+            `© ${new Date().getFullYear()} ${brand.name}. All rights reserved.`,
+          senderName: brand.senderName || brand.name,
+          domains: brand.domains.map((domain) => domain.toLowerCase()),
+        }) as BrandConfig,
+    );
+    console.log(`🎨 Loaded ${partners.length} partner brand(s)`);
+
+    return [
+      ...partners.filter((brand) => brand.id !== DEFAULT_BRAND_ID),
+      partners.find((brand) => brand.id === DEFAULT_BRAND_ID) || fallback,
+    ];
+  } catch (error) {
+    console.error(`❌ Could not load brands from ${file}:`, error);
+    return [fallback];
+  }
+};
+
+/**
+ * White-label branding. Every request is served under one brand, chosen by
+ * the partner's API key or the host name; bookings remember the brand they
+ * were made under so tickets and emails sent later match it.
+ */
+export class BrandService {
+  static listBrands(): BrandConfig[] {
+    if (!brands) {
+      brands = loadBrands();
+    }
+    return brands;
+  }
+
+  static getDefaultBrand(): BrandConfig {
+    return this.listBrands().find((brand) => brand.id === DEFAULT_BRAND_ID);
+  }
+
+  /**
+   * Brand by ID; the default brand for bookings made before branding
+   * existed or for brands that were removed
+   */
+  static getBrand(id?: string | null): BrandConfig {
+    return (
+      (id && this.listBrands().find((brand) => brand.id === id)) ||
+      this.getDefaultBrand()
+    );
+  }
+
+  static findByApiKey(apiKey: string): BrandConfig | null {
+    return (
+      this.listBrands().find((brand) => brand.apiKeys.includes(apiKey)) || null
+    );
+  }
+
+  static findByDomain(hostname: string): BrandConfig | null {
+    const host = (hostname || "").toLowerCase();
+    return (
+      this.listBrands().find((brand) => brand.domains.includes(host)) || null
+    );
+  }
+
+  /**
+   * What the website and API clients may see: no keys or domains
+   */
+  static toPublicBrand(brand: BrandConfig): Brand {
+    return {
+      id: brand.id,
+      name: brand.name,
+      logoUrl: brand.logoUrl,
+      colors: brand.colors,
+      legalFooter: brand.legalFooter,
+      supportEmail: brand.supportEmail,
+      supportPhone: brand.supportPhone,
+      websiteUrl: brand.websiteUrl,
+    };
+  }
+
+  // Drop cached brands, e.g. after BRANDS_FILE changed in tests
+  static reload(): void {
+    brands = null;
+  }
+}
+
+/**
+ * Select the request's brand: a partner API key wins over the host name.
+ * Unknown API keys are rejected rather than served as the default brand.
+ */
+export const brandMiddleware: RequestHandler = (req, res, next) => {
+  const apiKey = req.get("x-api-key");
+
+  if (apiKey) {
+    const brand = BrandService.findByApiKey(apiKey);
+    if (!brand) {
+      return res
+        .status(401)
+        .json({ success: false, message: "Invalid API key" });
+    }
+    (req as any).brand = brand;
+    return next();
+  }
+
+  (req as any).brand =
+    BrandService.findByDomain(req.hostname) || BrandService.getDefaultBrand();
+  next();
+};
+
+export const getRequestBrand = (req: any): BrandConfig =>
+  req.brand || BrandService.getDefaultBrand();
+
+export default BrandService;
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import CalendarService from "./calendarService";
+import type { BookingRecord } from "./storage";
+
+const booking: BookingRecord = {
+  id: "booking-1",
+  user_id: "user-1",
+  pnr: "ABC123",
+  status: "ticketed",
+  from_airport_id: "JFK",
+  to_airport_id: "LHR",
+  from_airport: {
+    code: "JFK",
+    name: "John F. Kennedy International Airport",
+    city: "New York",
+    country: "United States",
+  },
+  to_airport: {
+    code: "LHR",
+    name: "London Heathrow Airport",
+    city: "London",
+    country: "United Kingdom",
+  },
+  departure_date: "2030-05-01",
+  return_date: "2030-05-10",
+  trip_type: "roundtrip",
+  total_amount: 100,
+  currency: "USD",
+  contact_email: "ada@example.com",
+  terms_accepted: true,
+  ticket_url: null,
+  created_at: "2030-01-01T10:00:00.000Z",
+  updated_at: "2030-01-02T10:00:00.000Z",
+};
+
+const selectedFlight = {
+  itineraries: [
+    {
+      segments: [
+        {
+          id: "1",
+          departure: { iataCode: "JFK", at: "2030-05-01T18:30:00" },
+          arrival: { iataCode: "LHR", at: "2030-05-02T06:40:00" },
+          carrierCode: "BA",
+          number: "112",
+        },
+        {
+          id: "2",
+          departure: { iataCode: "LHR", at: "2030-05-02T09:00:00" },
+          arrival: { iataCode: "XXX", at: "2030-05-02T11:00:00" },
+          carrierCode: "BA",
+          number: "9",
+          duration: "PT2H",
+        },
+      ],
+    },
+  ],
+};
+
+// Unfolded property values of each event
+const readEvents = (calendar: string) =>
+  calendar
+    .replace(/\r\n /g, "")
+    .split("BEGIN:VEVENT")
+    .slice(1)
+    .map((event) =>
+      Object.fromEntries(
+        event
+          .split("\r\n")
+          .filter((line) => line.includes(":"))
+          .map((line) => [
+            line.slice(0, line.indexOf(":")),
+            line.slice(line.indexOf(":") + 1),
+          ]),
+      ),
+    );
+
+describe("CalendarService", () => {
+  it("should convert local airport times to UTC", () => {
+    const [event] = readEvents(
+      CalendarService.createBookingCalendar({
+        ...booking,
+        selected_flight: selectedFlight,
+      }),
+    );
+
+    // New York is UTC-4 and London UTC+1 in May
+    expect(event.DTSTART).toBe("20300501T223000Z");
+    expect(event.DTEND).toBe("20300502T054000Z");
+    expect(event.SUMMARY).toBe("Flight BA112 JFK → LHR");
+    expect(event.UID).toBe("booking-1-0-0@onboardticket.com");
+    expect(event.STATUS).toBe("CONFIRMED");
+  });
+
+  it("should keep local times at airports without a time zone", () => {
+    const [, event] = readEvents(
+      CalendarService.createBookingCalendar({
+        ...booking,
+        selected_flight: selectedFlight,
+      }),
+    );
+
+    expect(event.DTSTART).toBe("20300502T090000");
+    expect(event.DTEND).toBe("20300502T110000");
+  });
+
+  it("should add all-day events for flights without a time", () => {
+    const calendar = CalendarService.createBookingCalendar({
+      ...booking,
+      status: "cancelled",
+    });
+    const events = readEvents(calendar);
+
+    expect(events).toHaveLength(2);
+    expect(events[1]["DTSTART;VALUE=DATE"]).toBe("20300510");
+    expect(events[1]["DTEND;VALUE=DATE"]).toBe("20300511");
+    expect(events[1].STATUS).toBe("CANCELLED");
+    expect(
+      calendar.split("\r\n").every((line) => Buffer.byteLength(line) <= 75),
+    ).toBe(true);
+    expect(events[0].DESCRIPTION).toContain("Booking reference: ABC123\\n");
+  });
+});
@@ -0,0 +1,312 @@
+import crypto from "crypto";
+import { getAirportTimeZone } from "./airportData";
+import { BrandConfig, BrandService } from "./brandService";
+import type { BookingRecord, DataStore, PassengerRecord } from "./storage";
+import TicketGenerator, { TicketSegment } from "./ticketGenerator";
+import { toUtc } from "./timeZones";
+
+// Feed tokens stay valid until the user resets them
+const FEED_TOKEN_EXPIRES_AT = "9999-12-31T23:59:59.000Z";
+
+interface CalendarEventTime {
+  // iCalendar DATE-TIME (UTC or floating) or DATE value
+  value: string;
+  allDay: boolean;
+}
+
+const formatUtc = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatFloating = (localTime: string) =>
+  `${localTime.slice(0, 19).replace(/[-:]/g, "")}${localTime.length === 16 ? "00" : ""}`;
+
+const formatDate = (date: string) => date.slice(0, 10).replace(/-/g, "");
+
+const hasTime = (at?: string) => Boolean(at && /T\d{2}:\d{2}/.test(at));
+
+// ISO 8601 durations as Amadeus gives them, e.g. "PT4H30M"
+const durationMs = (duration?: string) => {
+  const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, days, hours, minutes] = match.map((value) => Number(value) || 0);
+  return ((days * 24 + hours) * 60 + minutes) * 60 * 1000;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Lines longer than 75 octets are folded onto continuation lines
+ */
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = lines.length ? 74 : 75;
+    if (Buffer.byteLength(current + char) > limit) {
+      lines.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+};
+
+const flightDesignator = (segment: TicketSegment) =>
+  segment.carrierCode && segment.flightNumber
+    ? `${segment.carrierCode}${segment.flightNumber}`
+    : null;
+
+const eventStatus = (booking: BookingRecord) => {
+  switch (booking.status) {
+    case "paid":
+    case "ticketed":
+      return "CONFIRMED";
+    case "pending":
+      return "TENTATIVE";
+    default:
+      return "CANCELLED";
+  }
+};
+
+/**
+ * iCalendar (.ics) export of bookings: one event per flight, with the local
+ * airport times converted to UTC using the airport's time zone. Times at
+ * airports we have no time zone for are left as floating local times, and
+ * flights without a departure time become all-day events.
+ */
+export class CalendarService {
+  /**
+   * Calendar holding the flights of one booking
+   */
+  static createBookingCalendar(
+    booking: BookingRecord,
+    passengers: PassengerRecord[] = [],
+  ): string {
+    const brand = BrandService.getBrand(booking.brand_id);
+    return this.renderCalendar(
+      `${brand.name} ${booking.pnr}`,
+      brand,
+      this.createBookingEvents(booking, passengers, brand),
+    );
+  }
+
+  /**
+   * Subscribable calendar with the flights of all of a user's bookings;
+   * cancelled bookings stay in it as cancelled events so that subscribed
+   * calendars drop them
+   */
+  static createFeed(
+    bookings: BookingRecord[],
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): string {
+    return this.renderCalendar(
+      `${brand.name} trips`,
+      brand,
+      bookings.flatMap((booking) =>
+        this.createBookingEvents(
+          booking,
+          [],
+          BrandService.getBrand(booking.brand_id),
+        ),
+      ),
+      ["REFRESH-INTERVAL;VALUE=DURATION:PT1H", "X-PUBLISHED-TTL:PT1H"],
+    );
+  }
+
+  /**
+   * The user's feed token, created on first use
+   */
+  static async getFeedToken(store: DataStore, userId: string): Promise<string> {
+    const existing = await store.tokens.findLatestByUser(
+      userId,
+      "calendar_feed",
+    );
+    if (existing) {
+      return existing.token;
+    }
+
+    return this.createFeedToken(store, userId);
+  }
+
+  /**
+   * Replace the user's feed token, so old feed URLs stop working
+   */
+  static async resetFeedToken(
+    store: DataStore,
+    userId: string,
+  ): Promise<string> {
+    await store.tokens.deleteByUser(userId, "calendar_feed");
+    return this.createFeedToken(store, userId);
+  }
+
+  static async findFeedOwner(
+    store: DataStore,
+    token: string,
+  ): Promise<string | null> {
+    if (!/^[a-f0-9]{64}$/.test(token || "")) {
+      return null;
+    }
+    const record = await store.tokens.find(token, "calendar_feed");
+    return record?.user_id || null;
+  }
+
+  static getFeedUrl(
+    token: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): string {
+    return `${brand.websiteUrl}/api/calendar/${token}.ics`;
+  }
+
+  private static async createFeedToken(
+    store: DataStore,
+    userId: string,
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString("hex");
+    await store.tokens.create({
+      token,
+      type: "calendar_feed",
+      user_id: userId,
+      expires_at: FEED_TOKEN_EXPIRES_AT,
+    });
+    return token;
+  }
+
+  private static createBookingEvents(
+    booking: BookingRecord,
+    passengers: PassengerRecord[],
+    brand: BrandConfig,
+  ): string[][] {
+    const ticketData = TicketGenerator.toBookingTicketData(booking, passengers);
+    const domain = new URL(brand.websiteUrl).hostname;
+    const bookingUrl = booking.is_guest
+      ? `${brand.websiteUrl}/guest-booking/${booking.pnr}`
+      : `${brand.websiteUrl}/booking/${booking.id}`;
+    const travellers = passengers
+      .map((passenger) => `${passenger.first_name} ${passenger.last_name}`)
+      .join(", ");
+
+    return ticketData.itineraries.flatMap((itinerary, itineraryIndex) =>
+      itinerary.segments.map((segment, segmentIndex) => {
+        const { start, end } = this.getEventTimes(segment);
+        const designator = flightDesignator(segment);
+        const from = segment.fromName || segment.fromCode;
+        const to = segment.toName || segment.toCode;
+        const description = [
+          `Booking reference: ${booking.pnr}`,
+          `${itinerary.label} flight${designator ? ` ${designator}` : ""}`,
+          `From: ${from} (${segment.fromCode})${
+            segment.departureTerminal
+              ? `, terminal ${segment.departureTerminal}`
+              : ""
+          }`,
+          `To: ${to} (${segment.toCode})${
+            segment.arrivalTerminal
+              ? `, terminal ${segment.arrivalTerminal}`
+              : ""
+          }`,
+          travellers && `Passengers: ${travellers}`,
+          `Manage your booking: ${bookingUrl}`,
+        ].filter(Boolean);
+
+        const event = [
+          "BEGIN:VEVENT",
+          `UID:${booking.id}-${itineraryIndex}-${segmentIndex}@${domain}`,
+          `DTSTAMP:${formatUtc(new Date(booking.updated_at || booking.created_at))}`,
+          start.allDay
+            ? `DTSTART;VALUE=DATE:${start.value}`
+            : `DTSTART:${start.value}`,
+        ];
+        if (end) {
+          event.push(
+            end.allDay ? `DTEND;VALUE=DATE:${end.value}` : `DTEND:${end.value}`,
+          );
+        }
+        event.push(
+          `SUMMARY:${escapeText(
+            `${designator ? `Flight ${designator}` : "Flight"} ${segment.fromCode} → ${segment.toCode}`,
+          )}`,
+          `LOCATION:${escapeText(from)}`,
+          `DESCRIPTION:${escapeText(description.join("\n"))}`,
+          `URL:${bookingUrl}`,
+          `STATUS:${eventStatus(booking)}`,
+          "TRANSP:OPAQUE",
+          "END:VEVENT",
+        );
+        return event;
+      }),
+    );
+  }
+
+  private static getEventTimes(segment: TicketSegment): {
+    start: CalendarEventTime;
+    end: CalendarEventTime | null;
+  } {
+    if (!hasTime(segment.departureAt)) {
+      const nextDay = new Date(`${segment.departureAt.slice(0, 10)}T00:00:00Z`);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      return {
+        start: { value: formatDate(segment.departureAt), allDay: true },
+        end: { value: formatDate(nextDay.toISOString()), allDay: true },
+      };
+    }
+
+    const departureZone = getAirportTimeZone(segment.fromCode);
+    const arrivalZone = getAirportTimeZone(segment.toCode);
+
+    // Without a time zone the times can only be given as local times
+    if (!departureZone || (hasTime(segment.arrivalAt) && !arrivalZone)) {
+      return {
+        start: { value: formatFloating(segment.departureAt), allDay: false },
+        end: hasTime(segment.arrivalAt)
+          ? { value: formatFloating(segment.arrivalAt), allDay: false }
+          : null,
+      };
+    }
+
+    const departure = toUtc(segment.departureAt, departureZone);
+    const duration = durationMs(segment.duration);
+    const arrival = hasTime(segment.arrivalAt)
+      ? toUtc(segment.arrivalAt, arrivalZone)
+      : duration !== null
+        ? new Date(departure.getTime() + duration)
+        : null;
+
+    return {
+      start: { value: formatUtc(departure), allDay: false },
+      end: arrival && { value: formatUtc(arrival), allDay: false },
+    };
+  }
+
+  private static renderCalendar(
+    name: string,
+    brand: BrandConfig,
+    events: string[][],
+    properties: string[] = [],
+  ): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:-//${escapeText(brand.name)}//Itinerary//EN`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(name)}`,
+      ...properties,
+      ...events.flat(),
+      "END:VCALENDAR",
+    ];
+    return `${lines.map(foldLine).join("\r\n")}\r\n`;
+  }
+}
+
+export default CalendarService;
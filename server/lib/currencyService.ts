@@ -0,0 +1,119 @@
+import {
+  BASE_CURRENCY,
+  CurrencyCode,
+  CurrencyRate,
+  SUPPORTED_CURRENCIES,
+  convertAmount,
+  isSupportedCurrency,
+} from "../../shared/currency";
+import { DataStore, getDataStore } from "./storage";
+
+// Used until an admin stores a rate for the currency
+const DEFAULT_SCHEDULE: Record<CurrencyCode, { rate: number; fee: number }> = {
+  USD: { rate: 1, fee: 15 },
+  EUR: { rate: 0.92, fee: 14 },
+  GBP: { rate: 0.79, fee: 12 },
+  NGN: { rate: 1550, fee: 15000 },
+};
+
+/**
+ * Exchange rates and per-passenger service fees for the currencies
+ * customers can pay in. Rates live in the data store so they can be
+ * updated without a deploy; currencies without a stored row fall back to
+ * the defaults above.
+ */
+export class CurrencyService {
+  static async getRates(
+    store: DataStore = getDataStore(),
+  ): Promise<CurrencyRate[]> {
+    let stored: Awaited<ReturnType<DataStore["currencyRates"]["list"]>> = [];
+    try {
+      stored = await store.currencyRates.list();
+    } catch (error) {
+      console.warn("⚠️ Could not load currency rates, using defaults:", error);
+    }
+
+    return SUPPORTED_CURRENCIES.map((currency) => {
+      const record = stored.find((row) => row.currency === currency);
+      return record
+        ? {
+            currency,
+            // Supabase returns DECIMAL columns as strings
+            rate: Number(record.rate),
+            serviceFee: Number(record.service_fee),
+            updatedAt: record.updated_at,
+          }
+        : {
+            currency,
+            rate: DEFAULT_SCHEDULE[currency].rate,
+            serviceFee: DEFAULT_SCHEDULE[currency].fee,
+            updatedAt: null,
+          };
+    });
+  }
+
+  static async getRate(
+    currency: CurrencyCode,
+    store?: DataStore,
+  ): Promise<CurrencyRate> {
+    const rates = await CurrencyService.getRates(store);
+    return rates.find((rate) => rate.currency === currency);
+  }
+
+  /**
+   * Convert an amount between currencies at the current rates. Amounts in
+   * currencies we don't take payment in (e.g. an Amadeus offer priced in
+   * another currency) can't be converted and throw.
+   */
+  static async convert(
+    amount: number,
+    from: string,
+    to: CurrencyCode,
+    store?: DataStore,
+  ): Promise<number> {
+    const rates = await CurrencyService.getRates(store);
+    return convertAmount(
+      amount,
+      from,
+      to,
+      Object.fromEntries(rates.map((rate) => [rate.currency, rate.rate])),
+    );
+  }
+
+  static async updateRate(
+    currency: CurrencyCode,
+    values: { rate: number; serviceFee: number },
+    updatedBy: string | null,
+    store: DataStore = getDataStore(),
+  ): Promise<CurrencyRate> {
+    if (currency === BASE_CURRENCY && values.rate !== 1) {
+      throw new Error(`The ${BASE_CURRENCY} rate is always 1`);
+    }
+
+    const record = await store.currencyRates.upsert({
+      currency,
+      rate: values.rate,
+      service_fee: values.serviceFee,
+      updated_by: updatedBy,
+    });
+
+    console.log(
+      `💱 ${currency} rate set to ${values.rate} (fee ${values.serviceFee}) by ${updatedBy || "system"}`,
+    );
+
+    return {
+      currency,
+      rate: Number(record.rate),
+      serviceFee: Number(record.service_fee),
+      updatedAt: record.updated_at,
+    };
+  }
+
+  static normalizeCurrency(value: unknown): CurrencyCode {
+    return isSupportedCurrency(value)
+      ? (value.toUpperCase() as CurrencyCode)
+      : BASE_CURRENCY;
+  }
+}
+
+export default CurrencyService;
@@ -242,6 +242,7 @@ export class DatabaseInitializer {
             last_name: "User",
             title: "Mr",
           },
+          app_metadata: { roles: ["customer", "admin"] },
           email_confirm: true,
         });
 
@@ -258,6 +259,8 @@ export class DatabaseInitializer {
         first_name: "Admin",
         last_name: "User",
         title: "Mr",
+        roles: ["customer", "admin"],
+        email_verified_at: new Date().toISOString(),
       });
 
       if (insertError) {
@@ -0,0 +1,195 @@
+import Stripe from "stripe";
+import EmailService from "./emailService";
+import StripeService from "./stripeService";
+import {
+  DataStore,
+  DisputeRecord,
+  getActiveDataStores,
+  getDataStore,
+} from "./storage";
+
+const CLOSED_STATUSES: DisputeRecord["status"][] = [
+  "won",
+  "lost",
+  "warning_closed",
+];
+
+const toIsoDate = (seconds?: number | null) =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+const getPaymentIntentId = (dispute: Stripe.Dispute) =>
+  typeof dispute.payment_intent === "string"
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id || null;
+
+/**
+ * Tracks Stripe chargebacks: persists each dispute against its transaction
+ * and booking, flags the booking, alerts the operations team and keeps the
+ * status in sync as Stripe sends dispute updates.
+ */
+export class DisputeService {
+  static isClosed(status: DisputeRecord["status"]): boolean {
+    return CLOSED_STATUSES.includes(status);
+  }
+
+  /**
+   * Find the stored dispute for a Stripe dispute in whichever store holds
+   * the disputed transaction.
+   */
+  static async findDispute(
+    stripeDisputeId: string,
+  ): Promise<{ store: DataStore; dispute: DisputeRecord } | null> {
+    for (const store of getActiveDataStores()) {
+      const dispute =
+        await store.disputes.findByStripeDisputeId(stripeDisputeId);
+      if (dispute) {
+        return { store, dispute };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle charge.dispute.created. Safe to call again for the same dispute.
+   */
+  static async recordDispute(
+    stripeDispute: Stripe.Dispute,
+  ): Promise<DisputeRecord> {
+    const existing = await DisputeService.findDispute(stripeDispute.id);
+    if (existing) {
+      return existing.dispute;
+    }
+
+    // Store the dispute next to the transaction it disputes
+    let store = getDataStore();
+    let transaction = null;
+    const paymentIntentId = getPaymentIntentId(stripeDispute);
+
+    if (paymentIntentId) {
+      for (const candidate of getActiveDataStores()) {
+        transaction =
+          await candidate.transactions.findByStripePaymentIntent(
+            paymentIntentId,
+          );
+        if (transaction) {
+          store = candidate;
+          break;
+        }
+      }
+    }
+
+    const dispute = await store.disputes.create({
+      transaction_id: transaction?.id || null,
+      booking_id: transaction?.booking_id || null,
+      stripe_dispute_id: stripeDispute.id,
+      stripe_charge_id:
+        typeof stripeDispute.charge === "string"
+          ? stripeDispute.charge
+          : stripeDispute.charge?.id || null,
+      amount: stripeDispute.amount / 100,
+      currency: stripeDispute.currency.toUpperCase(),
+      reason: stripeDispute.reason,
+      status: stripeDispute.status,
+      evidence_due_by: toIsoDate(stripeDispute.evidence_details?.due_by),
+    });
+
+    const booking = dispute.booking_id
+      ? await store.bookings.update(dispute.booking_id, { disputed: true })
+      : null;
+
+    console.error(
+      `🚨 Chargeback ${stripeDispute.id} opened for booking ${booking?.pnr || "unknown"}: ${dispute.currency} ${dispute.amount} (${dispute.reason})`,
+    );
+
+    await DisputeService.alertAdmins(dispute, booking?.pnr || "Unknown");
+
+    return dispute;
+  }
+
+  /**
+   * Handle charge.dispute.updated and charge.dispute.closed
+   */
+  static async syncDispute(
+    stripeDispute: Stripe.Dispute,
+  ): Promise<DisputeRecord | null> {
+    const found = await DisputeService.findDispute(stripeDispute.id);
+    if (!found) {
+      // Missed the created event; record it now
+      return DisputeService.recordDispute(stripeDispute);
+    }
+
+    const { store, dispute } = found;
+    const closed = DisputeService.isClosed(stripeDispute.status);
+
+    const updated = await store.disputes.update(dispute.id, {
+      status: stripeDispute.status,
+      amount: stripeDispute.amount / 100,
+      evidence_due_by: toIsoDate(stripeDispute.evidence_details?.due_by),
+      closed_at: closed ? dispute.closed_at || new Date().toISOString() : null,
+    });
+
+    // A won dispute returns the money, so the booking is no longer flagged
+    if (dispute.booking_id && closed) {
+      await store.bookings.update(dispute.booking_id, {
+        disputed: stripeDispute.status === "lost",
+      });
+    }
+
+    console.log(
+      `⚖️ Dispute ${stripeDispute.id} is now ${stripeDispute.status}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Save evidence text and optionally submit it to Stripe
+   */
+  static async saveEvidence(
+    store: DataStore,
+    dispute: DisputeRecord,
+    evidenceText: string,
+    submit: boolean,
+  ): Promise<DisputeRecord | null> {
+    const stripeDispute = await StripeService.updateDisputeEvidence(
+      dispute.stripe_dispute_id,
+      evidenceText,
+      submit,
+    );
+
+    return store.disputes.update(dispute.id, {
+      evidence_text: evidenceText,
+      status: stripeDispute.status,
+      ...(submit && { evidence_submitted_at: new Date().toISOString() }),
+    });
+  }
+
+  private static async alertAdmins(
+    dispute: DisputeRecord,
+    pnr: string,
+  ): Promise<void> {
+    const to = process.env.ADMIN_ALERT_EMAIL;
+    if (!to) {
+      console.warn(
+        "⚠️ ADMIN_ALERT_EMAIL is not set; dispute alert not emailed",
+      );
+      return;
+    }
+
+    try {
+      await EmailService.sendDisputeAlert(to, {
+        pnr,
+        stripeDisputeId: dispute.stripe_dispute_id,
+        amount: dispute.amount,
+        currency: dispute.currency,
+        reason: dispute.reason,
+        evidenceDueBy: dispute.evidence_due_by,
+        adminUrl: `${process.env.CLIENT_URL || "http://localhost:8080"}/admin`,
+      });
+    } catch (error) {
+      console.error("❌ Failed to send dispute alert:", error);
+    }
+  }
+}
+
+export default DisputeService;
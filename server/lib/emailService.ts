@@ -1,4 +1,6 @@
 import sgMail from "@sendgrid/mail";
+import { formatMoney } from "../../shared/currency";
+import { BrandConfig, BrandService } from "./brandService";
 
 // Initialize SendGrid only if API key is available and valid
 let sendgridConfigured = false;
@@ -24,11 +26,20 @@ if (
 export interface EmailTemplate {
   to: string;
   from?: string;
+  fromName?: string;
   subject: string;
   html?: string;
   text?: string;
   templateId?: string;
   dynamicTemplateData?: any;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64 encoded
+  content: string;
+  type: string;
 }
 
 export interface BookingConfirmationData {
@@ -47,6 +58,8 @@ export interface BookingConfirmationData {
   totalAmount: number;
   currency: string;
   bookingUrl: string;
+  // iCalendar (.ics) file with the flights, attached as <PNR>.ics
+  calendar?: string;
 }
 
 export interface PaymentConfirmationData {
@@ -59,6 +72,28 @@ export interface PaymentConfirmationData {
   bookingUrl: string;
 }
 
+export interface BookingExpiredData {
+  customerName: string;
+  pnr: string;
+  route: {
+    from: string;
+    to: string;
+    departureDate: string;
+  };
+  holdMinutes: number;
+  bookingUrl: string;
+}
+
+export interface DisputeAlertData {
+  pnr: string;
+  stripeDisputeId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  evidenceDueBy: string | null;
+  adminUrl: string;
+}
+
 export interface SupportTicketData {
   customerName: string;
   ticketId: string;
@@ -69,9 +104,6 @@ export interface SupportTicketData {
 }
 
 export class EmailService {
-  private static readonly FROM_EMAIL = "services@onboardticket.com";
-  private static readonly FROM_NAME = "OnboardTicket";
-
   /**
    * Check if SendGrid is configured
    */
@@ -94,12 +126,17 @@ export class EmailService {
    * Send a generic email
    */
   static async sendEmail(emailData: EmailTemplate): Promise<boolean> {
+    const brand = BrandService.getDefaultBrand();
+
     // Demo mode - log email instead of sending
     if (this.isDemoMode()) {
       console.log("📧 [DEMO MODE] Email would be sent:", {
         to: emailData.to,
-        from: emailData.from || this.FROM_EMAIL,
+        from: emailData.from || brand.senderEmail,
         subject: emailData.subject,
+        attachments: emailData.attachments?.map(
+          (attachment) => attachment.filename,
+        ),
         timestamp: new Date().toISOString(),
       });
       console.log(
@@ -119,14 +156,18 @@ export class EmailService {
       const msg = {
         to: emailData.to,
         from: {
-          email: emailData.from || this.FROM_EMAIL,
-          name: this.FROM_NAME,
+          email: emailData.from || brand.senderEmail,
+          name: emailData.fromName || brand.senderName,
         },
         subject: emailData.subject,
         html: emailData.html,
         text: emailData.text,
         templateId: emailData.templateId,
         dynamicTemplateData: emailData.dynamicTemplateData,
+        attachments: emailData.attachments?.map((attachment) => ({
+          ...attachment,
+          disposition: "attachment",
+        })),
       };
 
       await sgMail.send(msg);
@@ -138,12 +179,34 @@ export class EmailService {
     }
   }
 
+  /**
+   * Brand logo for the top of an email; image URLs must be absolute
+   */
+  private static renderLogo(brand: BrandConfig): string {
+    const src = new URL(brand.logoUrl, brand.websiteUrl).toString();
+    return `<img src="${src}" alt="${brand.name}" style="max-height: 40px; margin-bottom: 10px;">`;
+  }
+
+  /**
+   * Legal footer and support contact of the brand the email is sent under
+   */
+  private static renderFooter(brand: BrandConfig, note: string): string {
+    const phone = brand.supportPhone ? ` or ${brand.supportPhone}` : "";
+    return `
+          <div class="footer">
+            <p>${brand.legalFooter}</p>
+            <p>Need help? Contact ${brand.supportEmail}${phone}</p>
+            <p>${note}</p>
+          </div>`;
+  }
+
   /**
    * Send booking confirmation email
    */
   static async sendBookingConfirmation(
     to: string,
     data: BookingConfirmationData,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
   ): Promise<boolean> {
     const subject = `Booking Confirmation - ${data.pnr}`;
 
@@ -156,14 +219,14 @@ export class EmailService {
         <style>
           body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
           .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #505BFB; color: white; padding: 20px; text-align: center; }
+          .header { background: ${brand.colors.primary}; color: white; padding: 20px; text-align: center; }
           .content { padding: 20px; background: #f9f9f9; }
           .booking-details { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
           .passenger-list { margin: 10px 0; }
           .passenger { padding: 5px 0; border-bottom: 1px solid #eee; }
           .cta-button { 
             display: inline-block; 
-            background: #505BFB; 
+            background: ${brand.colors.primary}; 
             color: white; 
             padding: 12px 24px; 
             text-decoration: none; 
@@ -176,8 +239,9 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
+            ${this.renderLogo(brand)}
             <h1>Booking Confirmation</h1>
-            <p>Thank you for choosing OnboardTicket!</p>
+            <p>Thank you for choosing ${brand.name}!</p>
           </div>
           
           <div class="content">
@@ -188,7 +252,7 @@ export class EmailService {
               <h3>Booking Reference: ${data.pnr}</h3>
               <p><strong>Route:</strong> ${data.route.from} → ${data.route.to}</p>
               <p><strong>Departure:</strong> ${new Date(data.route.departureDate).toLocaleDateString()}</p>
-              <p><strong>Total Amount:</strong> ${data.currency} ${data.totalAmount}</p>
+              <p><strong>Total Amount:</strong> ${formatMoney(data.totalAmount, data.currency)}</p>
               
               <h4>Passengers:</h4>
               <div class="passenger-list">
@@ -205,16 +269,13 @@ export class EmailService {
             <p>Please complete your payment to confirm your booking.</p>
             
             <a href="${data.bookingUrl}" class="cta-button">View Booking Details</a>
-            
+            ${data.calendar ? `<p>Open the attached ${data.pnr}.ics file to add your flights to your calendar.</p>` : ""}
             <p>If you have any questions, please don't hesitate to contact our support team.</p>
             
-            <p>Best regards,<br>The OnboardTicket Team</p>
+            <p>Best regards,<br>The ${brand.name} Team</p>
           </div>
           
-          <div class="footer">
-            <p>© 2024 OnboardTicket. All rights reserved.</p>
-            <p>This is an automated email. Please do not reply to this message.</p>
-          </div>
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
         </div>
       </body>
       </html>
@@ -222,8 +283,19 @@ export class EmailService {
 
     return this.sendEmail({
       to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
       subject,
       html,
+      attachments: data.calendar
+        ? [
+            {
+              filename: `${data.pnr}.ics`,
+              content: Buffer.from(data.calendar).toString("base64"),
+              type: "text/calendar; method=PUBLISH",
+            },
+          ]
+        : undefined,
     });
   }
 
@@ -233,6 +305,7 @@ export class EmailService {
   static async sendPaymentConfirmation(
     to: string,
     data: PaymentConfirmationData,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
   ): Promise<boolean> {
     const subject = `Payment Confirmed - ${data.pnr}`;
 
@@ -264,6 +337,7 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
+            ${this.renderLogo(brand)}
             <h1>Payment Confirmed!</h1>
             <p>Your booking is now confirmed</p>
           </div>
@@ -278,7 +352,7 @@ export class EmailService {
               <h3>Payment Details</h3>
               <p><strong>Booking Reference:</strong> ${data.pnr}</p>
               <p><strong>Transaction ID:</strong> ${data.transactionId}</p>
-              <p><strong>Amount Paid:</strong> ${data.currency} ${data.amount}</p>
+              <p><strong>Amount Paid:</strong> ${formatMoney(data.amount, data.currency)}</p>
               <p><strong>Payment Method:</strong> ${data.paymentMethod}</p>
               <p><strong>Date:</strong> ${new Date().toLocaleDateString()}</p>
             </div>
@@ -289,13 +363,10 @@ export class EmailService {
             
             <p>Have a great trip!</p>
             
-            <p>Best regards,<br>The OnboardTicket Team</p>
+            <p>Best regards,<br>The ${brand.name} Team</p>
           </div>
           
-          <div class="footer">
-            <p>© 2024 OnboardTicket. All rights reserved.</p>
-            <p>This is an automated email. Please do not reply to this message.</p>
-          </div>
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
         </div>
       </body>
       </html>
@@ -303,6 +374,8 @@ export class EmailService {
 
     return this.sendEmail({
       to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
       subject,
       html,
     });
@@ -314,6 +387,7 @@ export class EmailService {
   static async sendSupportTicketConfirmation(
     to: string,
     data: SupportTicketData,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
   ): Promise<boolean> {
     const subject = `Support Ticket Created - ${data.ticketId}`;
 
@@ -347,13 +421,14 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
+            ${this.renderLogo(brand)}
             <h1>Support Ticket Created</h1>
             <p>We've received your request</p>
           </div>
           
           <div class="content">
             <p>Dear ${data.customerName},</p>
-            <p>Thank you for contacting OnboardTicket support. We have received your request and created a support ticket for you.</p>
+            <p>Thank you for contacting ${brand.name} support. We have received your request and created a support ticket for you.</p>
             
             <div class="ticket-details">
               <h3>Ticket Details</h3>
@@ -372,13 +447,153 @@ export class EmailService {
             
             <p>If you need immediate assistance, please call our 24/7 helpline.</p>
             
-            <p>Best regards,<br>The OnboardTicket Support Team</p>
+            <p>Best regards,<br>The ${brand.name} Support Team</p>
           </div>
           
-          <div class="footer">
-            <p>© 2024 OnboardTicket. All rights reserved.</p>
-            <p>This is an automated email. Please do not reply to this message.</p>
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
+      subject,
+      html,
+    });
+  }
+
+  /**
+   * Send booking expiry notice for unpaid holds
+   */
+  static async sendBookingExpired(
+    to: string,
+    data: BookingExpiredData,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<boolean> {
+    const subject = `Booking Expired - ${data.pnr}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Booking Expired</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${brand.colors.primary}; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9f9f9; }
+          .booking-details { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .cta-button { 
+            display: inline-block; 
+            background: ${brand.colors.primary}; 
+            color: white; 
+            padding: 12px 24px; 
+            text-decoration: none; 
+            border-radius: 5px; 
+            margin: 20px 0; 
+          }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            ${this.renderLogo(brand)}
+            <h1>Booking Expired</h1>
           </div>
+          
+          <div class="content">
+            <p>Dear ${data.customerName},</p>
+            <p>We did not receive payment for your booking within ${data.holdMinutes} minutes, so the reservation has been released.</p>
+            
+            <div class="booking-details">
+              <h3>Booking Reference: ${data.pnr}</h3>
+              <p><strong>Route:</strong> ${data.route.from} → ${data.route.to}</p>
+              <p><strong>Departure:</strong> ${new Date(data.route.departureDate).toLocaleDateString()}</p>
+            </div>
+            
+            <p>No payment has been taken. You are welcome to make a new booking at any time.</p>
+            
+            <a href="${data.bookingUrl}" class="cta-button">Book Again</a>
+            
+            <p>Best regards,<br>The ${brand.name} Team</p>
+          </div>
+          
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
+      subject,
+      html,
+    });
+  }
+
+  /**
+   * Alert the operations team that a customer opened a chargeback
+   */
+  static async sendDisputeAlert(
+    to: string,
+    data: DisputeAlertData,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<boolean> {
+    const subject = `Chargeback Opened - ${data.pnr}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Chargeback Opened</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #DC2626; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f9f9f9; }
+          .booking-details { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .cta-button { 
+            display: inline-block; 
+            background: ${brand.colors.primary}; 
+            color: white; 
+            padding: 12px 24px; 
+            text-decoration: none; 
+            border-radius: 5px; 
+            margin: 20px 0; 
+          }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            ${this.renderLogo(brand)}
+            <h1>Chargeback Opened</h1>
+          </div>
+          
+          <div class="content">
+            <p>A customer has disputed a card payment. The disputed amount has been withdrawn from the Stripe balance until the dispute is resolved.</p>
+            
+            <div class="booking-details">
+              <h3>Booking Reference: ${data.pnr}</h3>
+              <p><strong>Dispute:</strong> ${data.stripeDisputeId}</p>
+              <p><strong>Amount:</strong> ${formatMoney(data.amount, data.currency)}</p>
+              <p><strong>Reason:</strong> ${data.reason.replace(/_/g, " ")}</p>
+              <p><strong>Evidence due by:</strong> ${data.evidenceDueBy ? new Date(data.evidenceDueBy).toLocaleString() : "Not specified"}</p>
+            </div>
+            
+            <a href="${data.adminUrl}" class="cta-button">Respond in Admin Dashboard</a>
+          </div>
+          
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
         </div>
       </body>
       </html>
@@ -386,6 +601,8 @@ export class EmailService {
 
     return this.sendEmail({
       to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
       subject,
       html,
     });
@@ -398,8 +615,9 @@ export class EmailService {
     to: string,
     resetToken: string,
     resetUrl: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
   ): Promise<boolean> {
-    const subject = "Reset Your OnboardTicket Password";
+    const subject = `Reset Your ${brand.name} Password`;
 
     const html = `
       <!DOCTYPE html>
@@ -410,12 +628,12 @@ export class EmailService {
         <style>
           body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
           .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #505BFB; color: white; padding: 20px; text-align: center; }
+          .header { background: ${brand.colors.primary}; color: white; padding: 20px; text-align: center; }
           .content { padding: 20px; background: #f9f9f9; }
           .reset-box { background: white; padding: 20px; margin: 20px 0; border-radius: 5px; text-align: center; }
           .cta-button { 
             display: inline-block; 
-            background: #505BFB; 
+            background: ${brand.colors.primary}; 
             color: white; 
             padding: 12px 24px; 
             text-decoration: none; 
@@ -438,12 +656,13 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
+            ${this.renderLogo(brand)}
             <h1>Password Reset Request</h1>
           </div>
           
           <div class="content">
             <p>Hello,</p>
-            <p>We received a request to reset your password for your OnboardTicket account.</p>
+            <p>We received a request to reset your password for your ${brand.name} account.</p>
             
             <div class="reset-box">
               <h3>Reset Your Password</h3>
@@ -460,13 +679,10 @@ export class EmailService {
             
             <p>For security reasons, if you continue to receive these emails, please contact our support team immediately.</p>
             
-            <p>Best regards,<br>The OnboardTicket Security Team</p>
+            <p>Best regards,<br>The ${brand.name} Security Team</p>
           </div>
           
-          <div class="footer">
-            <p>© 2024 OnboardTicket. All rights reserved.</p>
-            <p>This is an automated email. Please do not reply to this message.</p>
-          </div>
+          ${this.renderFooter(brand, "This is an automated email. Please do not reply to this message.")}
         </div>
       </body>
       </html>
@@ -474,6 +690,69 @@ export class EmailService {
 
     return this.sendEmail({
       to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
+      subject,
+      html,
+    });
+  }
+
+  /**
+   * Send email address verification link
+   */
+  static async sendEmailVerification(
+    to: string,
+    verificationUrl: string,
+    userName?: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<boolean> {
+    const subject = `Verify Your ${brand.name} Account`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          ${this.renderLogo(brand)}
+          <h1 style="color: ${brand.colors.dark}; font-size: 28px; margin: 0;">${brand.name}</h1>
+          <p style="color: #637996; font-size: 16px; margin: 10px 0 0 0;">Flight Reservations Made Easy</p>
+        </div>
+        
+        <div style="background: #f8f9ff; padding: 30px; border-radius: 12px; margin-bottom: 30px;">
+          <h2 style="color: #20242A; font-size: 24px; margin: 0 0 20px 0;">Welcome${userName ? ` ${userName}` : ""}!</h2>
+          <p style="color: #637996; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+            Thank you for creating your ${brand.name} account. To complete your registration and start booking flight reservations, please verify your email address.
+          </p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${verificationUrl}" 
+               style="background: ${brand.colors.dark}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px; display: inline-block;">
+              Verify Email Address
+            </a>
+          </div>
+          
+          <p style="color: #637996; font-size: 14px; line-height: 1.6; margin: 20px 0 0 0;">
+            If the button doesn't work, copy and paste this link into your browser:<br>
+            <a href="${verificationUrl}" style="color: ${brand.colors.dark}; word-break: break-all;">${verificationUrl}</a>
+          </p>
+        </div>
+        
+        <div style="border-top: 1px solid #E7E9FF; padding-top: 20px; text-align: center;">
+          <p style="color: #A2A2A2; font-size: 14px; margin: 0;">
+            This verification link will expire in 24 hours.
+          </p>
+          <p style="color: #A2A2A2; font-size: 14px; margin: 10px 0 0 0;">
+            If you didn't create an account with ${brand.name}, please ignore this email.
+          </p>
+          <p style="color: #A2A2A2; font-size: 12px; margin: 10px 0 0 0;">
+            ${brand.legalFooter}
+          </p>
+        </div>
+      </div>
+    `;
+
+    return this.sendEmail({
+      to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
       subject,
       html,
     });
@@ -485,24 +764,25 @@ export class EmailService {
   static async sendWelcomeEmail(
     to: string,
     customerName: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
   ): Promise<boolean> {
-    const subject = "Welcome to OnboardTicket!";
+    const subject = `Welcome to ${brand.name}!`;
 
     const html = `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="utf-8">
-        <title>Welcome to OnboardTicket</title>
+        <title>Welcome to ${brand.name}</title>
         <style>
           body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
           .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: linear-gradient(135deg, #505BFB 0%, #424BC9 100%); color: white; padding: 30px; text-align: center; }
+          .header { background: linear-gradient(135deg, ${brand.colors.primary} 0%, ${brand.colors.dark} 100%); color: white; padding: 30px; text-align: center; }
           .content { padding: 30px; background: #f9f9f9; }
           .feature-box { background: white; padding: 20px; margin: 15px 0; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
           .cta-button { 
             display: inline-block; 
-            background: #505BFB; 
+            background: ${brand.colors.primary}; 
             color: white; 
             padding: 15px 30px; 
             text-decoration: none; 
@@ -517,13 +797,14 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
-            <h1>🎉 Welcome to OnboardTicket!</h1>
+            ${this.renderLogo(brand)}
+            <h1>🎉 Welcome to ${brand.name}!</h1>
             <p>Your journey to seamless flight booking starts here</p>
           </div>
           
           <div class="content">
             <p>Dear ${customerName},</p>
-            <p>Thank you for joining OnboardTicket! We're excited to help you discover amazing destinations and book flights with ease.</p>
+            <p>Thank you for joining ${brand.name}! We're excited to help you discover amazing destinations and book flights with ease.</p>
             
             <div class="feature-box">
               <h3><span class="icon">✈️</span>Easy Flight Search</h3>
@@ -546,18 +827,15 @@ export class EmailService {
             </div>
             
             <p style="text-align: center;">
-              <a href="${process.env.CLIENT_URL || "https://onboardticket.com"}" class="cta-button">Start Booking Flights</a>
+              <a href="${brand.websiteUrl}" class="cta-button">Start Booking Flights</a>
             </p>
             
-            <p>Ready to take off? Start exploring destinations and book your next adventure with OnboardTicket!</p>
+            <p>Ready to take off? Start exploring destinations and book your next adventure with ${brand.name}!</p>
             
-            <p>Safe travels,<br>The OnboardTicket Team</p>
+            <p>Safe travels,<br>The ${brand.name} Team</p>
           </div>
           
-          <div class="footer">
-            <p>© 2024 OnboardTicket. All rights reserved.</p>
-            <p>Follow us on social media for travel tips and exclusive offers!</p>
-          </div>
+          ${this.renderFooter(brand, "Follow us on social media for travel tips and exclusive offers!")}
         </div>
       </body>
       </html>
@@ -565,6 +843,8 @@ export class EmailService {
 
     return this.sendEmail({
       to,
+      from: brand.senderEmail,
+      fromName: brand.senderName,
       subject,
       html,
     });
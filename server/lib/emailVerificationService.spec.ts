@@ -0,0 +1,119 @@
+import os from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import EmailVerificationService, {
+  getVerificationGates,
+  requireVerifiedEmail,
+} from "./emailVerificationService";
+import { EmailService } from "./emailService";
+import { getLocalDataStore } from "./storage";
+
+describe("EmailVerificationService", () => {
+  let sentUrl = "";
+
+  beforeAll(() => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `verification-spec-${Date.now()}-${Math.random()}.json`,
+    );
+    vi.spyOn(EmailService, "sendEmailVerification").mockImplementation(
+      async (_to, url) => {
+        sentUrl = url;
+        return true;
+      },
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.EMAIL_VERIFICATION_REQUIRED;
+  });
+
+  const createUser = (email: string) =>
+    getLocalDataStore().users.create({
+      email,
+      first_name: "Ada",
+      last_name: "Lovelace",
+      title: "Ms",
+    });
+
+  const tokenFromUrl = () => new URL(sentUrl).searchParams.get("token")!;
+
+  it("should verify the email with the emailed link once", async () => {
+    const user = await createUser("ada@example.com");
+
+    const sent =
+      await EmailVerificationService.sendVerification("ADA@example.com");
+    expect(sent.success).toBe(true);
+
+    const token = tokenFromUrl();
+    const stored = await getLocalDataStore().tokens.findLatestByUser(
+      user.id,
+      "email_verification",
+    );
+    expect(stored?.token).not.toBe(token);
+
+    expect((await EmailVerificationService.verify(token)).success).toBe(true);
+    expect(
+      (await getLocalDataStore().users.findById(user.id))?.email_verified_at,
+    ).toBeTruthy();
+    expect((await EmailVerificationService.verify(token)).success).toBe(false);
+  });
+
+  it("should throttle resends on the account's latest link", async () => {
+    const user = await createUser("grace@example.com");
+
+    await EmailVerificationService.sendVerification("grace@example.com");
+    const again =
+      await EmailVerificationService.sendVerification("Grace@example.com");
+
+    expect(again.success).toBe(false);
+    expect(again.status).toBe(429);
+    expect(again.retryAfterSeconds).toBeGreaterThan(0);
+
+    // The throttle is read from the stored token, not this process
+    const latest = await getLocalDataStore().tokens.findLatestByUser(
+      user.id,
+      "email_verification",
+    );
+    vi.useFakeTimers({
+      now: new Date(latest!.created_at).getTime() + 61 * 1000,
+      toFake: ["Date"],
+    });
+    try {
+      expect(
+        (await EmailVerificationService.sendVerification("grace@example.com"))
+          .success,
+      ).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should not reveal whether an account exists", async () => {
+    const result =
+      await EmailVerificationService.sendVerification("nobody@example.com");
+    expect(result).toEqual({
+      success: true,
+      message: "If this email needs verifying, a link is on its way",
+      email: "nobody@example.com",
+    });
+  });
+
+  it("should only enforce verification where configured", () => {
+    const json = vi.fn();
+    const res: any = { status: vi.fn(() => ({ json })) };
+    const next = vi.fn();
+    const req: any = { user: { emailVerifiedAt: null } };
+
+    requireVerifiedEmail("support")(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    process.env.EMAIL_VERIFICATION_REQUIRED = "bookings, Support, other";
+    expect(getVerificationGates()).toEqual(["bookings", "support"]);
+
+    requireVerifiedEmail("support")(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
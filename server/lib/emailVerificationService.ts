@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { User } from "@shared/api";
+import { BrandConfig, BrandService } from "./brandService";
+import { EmailService } from "./emailService";
+import { UserRecord, getActiveDataStores, getStoreForUser } from "./storage";
+
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+// Actions that can be limited to users with a verified email address
+export type VerificationGate = "bookings" | "support";
+
+const VERIFICATION_GATES: VerificationGate[] = ["bookings", "support"];
+
+export interface VerificationResult {
+  success: boolean;
+  message: string;
+  email?: string;
+  // HTTP status for failures
+  status?: number;
+  // Set when a resend was throttled
+  retryAfterSeconds?: number;
+}
+
+// Verification links carry the token; only its hash is stored
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const findUserByEmail = async (email: string): Promise<UserRecord | null> => {
+  for (const store of getActiveDataStores()) {
+    const user = await store.users.findByEmail(email);
+    if (user) {
+      return user;
+    }
+  }
+  return null;
+};
+
+/**
+ * Actions that need a verified email address. EMAIL_VERIFICATION_REQUIRED
+ * lists them comma-separated ("bookings", "support"); unset, nothing does.
+ */
+export const getVerificationGates = (): VerificationGate[] =>
+  (process.env.EMAIL_VERIFICATION_REQUIRED || "")
+    .split(",")
+    .map((gate) => gate.trim().toLowerCase())
+    .filter((gate): gate is VerificationGate =>
+      VERIFICATION_GATES.includes(gate as VerificationGate),
+    );
+
+/**
+ * Stops users whose email address isn't verified, when the action is
+ * configured to need it. Mount it after the auth middleware.
+ */
+export const requireVerifiedEmail =
+  (gate: VerificationGate): RequestHandler =>
+  (req, res, next) => {
+    if (!getVerificationGates().includes(gate)) {
+      return next();
+    }
+
+    const user: User | undefined = (req as any).user;
+
+    if (!user) {
+      return res
+        .status(401)
+        .json({ success: false, message: "Authentication required" });
+    }
+
+    if (!user.emailVerifiedAt) {
+      return res.status(403).json({
+        success: false,
+        emailVerificationRequired: true,
+        message: "Please verify your email address to continue",
+      });
+    }
+
+    next();
+  };
+
+/**
+ * Email verification
+ * Verification tokens live in the store that holds the user, so links keep
+ * working across restarts and server instances. Following a link sets the
+ * user's email_verified_at.
+ */
+export class EmailVerificationService {
+  /**
+   * Email a verification link to an unverified account. Resolves the same
+   * whether or not the account exists, so callers can't probe for accounts,
+   * but refuses to send again within a minute of the account's latest link.
+   */
+  static async sendVerification(
+    email: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+    userName?: string,
+  ): Promise<VerificationResult> {
+    const response: VerificationResult = {
+      success: true,
+      message: "If this email needs verifying, a link is on its way",
+      email,
+    };
+
+    const user = await findUserByEmail(email);
+    if (!user || user.email_verified_at) {
+      return response;
+    }
+
+    const store = getStoreForUser(user.id);
+
+    // Throttled on the stored token, so every server instance agrees
+    const latest = await store.tokens.findLatestByUser(
+      user.id,
+      "email_verification",
+    );
+    const waitMs = latest
+      ? new Date(latest.created_at).getTime() + RESEND_INTERVAL_MS - Date.now()
+      : 0;
+    if (waitMs > 0) {
+      return {
+        success: false,
+        status: 429,
+        message: "Please wait a minute before requesting another email",
+        retryAfterSeconds: Math.ceil(waitMs / 1000),
+      };
+    }
+
+    // A new link replaces any earlier one
+    await store.tokens.deleteByEmail(user.email, "email_verification");
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await store.tokens.create({
+      token: hashToken(token),
+      type: "email_verification",
+      user_id: user.id,
+      email: user.email,
+      expires_at: new Date(Date.now() + TOKEN_TTL_MS).toISOString(),
+    });
+
+    const sent = await EmailService.sendEmailVerification(
+      user.email,
+      `${brand.websiteUrl}/verify-email?token=${token}`,
+      userName || user.first_name,
+      brand,
+    );
+    if (!sent) {
+      return {
+        success: false,
+        status: 500,
+        message: "Failed to send verification email",
+      };
+    }
+
+    console.log(`📧 Sent verification email to ${user.email}`);
+    return response;
+  }
+
+  /**
+   * Mark the email of a token's user verified. Tokens work once.
+   */
+  static async verify(token: string): Promise<VerificationResult> {
+    const invalid: VerificationResult = {
+      success: false,
+      status: 400,
+      message: "Invalid verification link",
+    };
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return invalid;
+    }
+
+    const tokenHash = hashToken(token);
+    for (const store of getActiveDataStores()) {
+      const record = await store.tokens.find(tokenHash, "email_verification");
+      if (!record) {
+        continue;
+      }
+
+      if (new Date(record.expires_at).getTime() <= Date.now()) {
+        return {
+          success: false,
+          status: 400,
+          message: "This verification link has expired",
+          email: record.email || undefined,
+        };
+      }
+
+      if (!record.user_id || !(await store.tokens.consume(tokenHash))) {
+        return invalid;
+      }
+
+      const user = await store.users.findById(record.user_id);
+      if (!user) {
+        return invalid;
+      }
+
+      if (!user.email_verified_at) {
+        await store.users.update(user.id, {
+          email_verified_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        });
+      }
+      await store.tokens.deleteByUser(user.id, "email_verification");
+
+      console.log(`✅ Email verified: ${user.email}`);
+      return {
+        success: true,
+        message: "Email verified successfully",
+        email: user.email,
+      };
+    }
+
+    return invalid;
+  }
+}
+
+export default EmailVerificationService;
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { FlightAggregator } from "./aggregator";
+import { FlightOffer, FlightProvider } from "./types";
+
+const offer = (
+  provider: string,
+  id: string,
+  flightNumber: string,
+  total: number,
+): FlightOffer =>
+  ({
+    id,
+    provider,
+    itineraries: [
+      {
+        duration: "PT7H",
+        segments: [
+          {
+            carrierCode: "BA",
+            number: flightNumber,
+            departure: { iataCode: "JFK", at: "2030-05-01T18:00:00" },
+            arrival: { iataCode: "LHR", at: "2030-05-02T06:00:00" },
+          },
+        ],
+      },
+    ],
+    price: {
+      currency: "USD",
+      total: total.toFixed(2),
+      base: total.toFixed(2),
+      fees: [],
+      grandTotal: total.toFixed(2),
+    },
+    travelerPricings: [],
+  }) as unknown as FlightOffer;
+
+const provider = (
+  id: string,
+  search: () => Promise<FlightOffer[]>,
+  timeoutMs?: number,
+): FlightProvider => ({
+  id,
+  name: id,
+  live: true,
+  timeoutMs,
+  isAvailable: () => true,
+  searchFlightOffers: search,
+  priceFlightOffer: async (flightOffer) => flightOffer,
+  getAirline: async () => null,
+});
+
+const params = {
+  originLocationCode: "JFK",
+  destinationLocationCode: "LHR",
+  departureDate: "2030-05-01",
+  adults: 1,
+};
+
+describe("FlightAggregator", () => {
+  it("should keep the cheapest offer for the same flights", async () => {
+    const aggregator = new FlightAggregator(
+      [
+        provider("first", async () => [
+          offer("first", "1", "117", 640),
+          offer("first", "2", "179", 700),
+        ]),
+        provider("second", async () => [offer("second", "1", "117", 610)]),
+      ],
+      1000,
+    );
+
+    const result = await aggregator.search(params);
+
+    expect(
+      result.offers.map((flightOffer) => [
+        flightOffer.provider,
+        flightOffer.itineraries[0].segments[0].number,
+      ]),
+    ).toEqual([
+      ["second", "117"],
+      ["first", "179"],
+    ]);
+    expect(result.providers.map((status) => status.count)).toEqual([2, 1]);
+  });
+
+  it("should leave out providers that fail or time out", async () => {
+    const aggregator = new FlightAggregator(
+      [
+        provider("slow", () => new Promise(() => {}), 20),
+        provider("broken", async () => {
+          throw new Error("Service unavailable");
+        }),
+        provider("working", async () => [offer("working", "1", "117", 640)]),
+      ],
+      1000,
+    );
+
+    const result = await aggregator.search(params);
+
+    expect(result.offers).toHaveLength(1);
+    expect(result.providers).toEqual([
+      expect.objectContaining({ provider: "slow", status: "timeout" }),
+      expect.objectContaining({
+        provider: "broken",
+        status: "error",
+        message: "Service unavailable",
+      }),
+      { provider: "working", status: "ok", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  FlightOffer,
+  FlightProvider,
+  FlightProviderSearchStatus,
+  FlightSearchParams,
+  FlightSearchResult,
+} from "./types";
+
+const DEFAULT_MAX_OFFERS = 10;
+
+class ProviderTimeoutError extends Error {
+  constructor(provider: FlightProvider, timeoutMs: number) {
+    super(`${provider.name} did not answer within ${timeoutMs}ms`);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+/**
+ * The flights an offer is for, as a key: two offers with the same key sell
+ * the same seats, whichever provider they come from
+ */
+export const getItineraryKey = (offer: FlightOffer): string =>
+  offer.itineraries
+    .map((itinerary) =>
+      itinerary.segments
+        .map(
+          (segment) =>
+            `${segment.carrierCode}${segment.number}@${segment.departure.at}`,
+        )
+        .join(">"),
+    )
+    .concat(offer.travelerPricings?.[0]?.fareDetailsBySegment?.[0]?.cabin)
+    .join("|");
+
+const offerTotal = (offer: FlightOffer) =>
+  parseFloat(offer.price?.grandTotal || offer.price?.total) || Infinity;
+
+const withTimeout = <T>(
+  promise: Promise<T>,
+  provider: FlightProvider,
+  timeoutMs: number,
+): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new ProviderTimeoutError(provider, timeoutMs)),
+        timeoutMs,
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Searches several providers at once and merges their offers. Each
+ * provider gets its own timeout; one that fails or runs out of time is
+ * left out of the results (and reported in `providers`) rather than
+ * failing the search. Offers for the same flights are kept once, at the
+ * lowest price, and results are sorted by price.
+ */
+export class FlightAggregator {
+  constructor(
+    private readonly providers: FlightProvider[],
+    private readonly defaultTimeoutMs: number,
+  ) {}
+
+  async search(params: FlightSearchParams): Promise<FlightSearchResult> {
+    const results = await Promise.all(
+      this.providers.map(async (provider) => {
+        const timeoutMs = provider.timeoutMs || this.defaultTimeoutMs;
+        try {
+          const offers = await withTimeout(
+            provider.searchFlightOffers(params),
+            provider,
+            timeoutMs,
+          );
+          return {
+            offers,
+            status: {
+              provider: provider.id,
+              status: "ok",
+              count: offers.length,
+            } as FlightProviderSearchStatus,
+          };
+        } catch (error) {
+          console.error(`${provider.name} flight search failed:`, error);
+          return {
+            offers: [] as FlightOffer[],
+            status: {
+              provider: provider.id,
+              status:
+                error instanceof ProviderTimeoutError ? "timeout" : "error",
+              count: 0,
+              message: error.message,
+            } as FlightProviderSearchStatus,
+          };
+        }
+      }),
+    );
+
+    const cheapest = new Map<string, FlightOffer>();
+    results
+      .flatMap((result) => result.offers)
+      .forEach((offer) => {
+        const key = getItineraryKey(offer);
+        const current = cheapest.get(key);
+        // Prices in different currencies can't be compared; keep the first
+        if (
+          !current ||
+          (current.price.currency === offer.price.currency &&
+            offerTotal(offer) < offerTotal(current))
+        ) {
+          cheapest.set(key, offer);
+        }
+      });
+
+    return {
+      offers: [...cheapest.values()]
+        .sort((a, b) => offerTotal(a) - offerTotal(b))
+        .slice(0, params.max || DEFAULT_MAX_OFFERS),
+      providers: results.map((result) => result.status),
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import Amadeus from "amadeus";
+import { Seat, SeatMap, SeatMapDeck } from "@shared/api";
+import { BASE_CURRENCY } from "../../../shared/currency";
+import {
+  AirlineInfo,
+  Airport,
+  AirportSearchParams,
+  FlightOffer,
+  FlightProvider,
+  FlightSearchParams,
+} from "./types";
+
+export interface AmadeusProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  hostname: "test" | "production";
+  timeoutMs?: number;
+}
+
+const splitSeatNumber = (number: string) => {
+  const match = number.match(/^(\d+)([A-Z]+)$/);
+  return match
+    ? { row: Number(match[1]), column: match[2] }
+    : { row: 0, column: number };
+};
+
+// Amadeus rejects offers with fields it doesn't know
+const toAmadeusOffer = ({ provider, signature, ...offer }: FlightOffer) =>
+  offer;
+
+/**
+ * Flight offers, pricing, seat maps and reference data from the Amadeus
+ * Self-Service APIs.
+ */
+export class AmadeusFlightProvider implements FlightProvider {
+  readonly id = "amadeus";
+  readonly name = "Amadeus";
+  readonly live = true;
+  readonly timeoutMs?: number;
+  private readonly client: Amadeus;
+
+  constructor(config: AmadeusProviderConfig) {
+    this.client = new Amadeus({
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      hostname: config.hostname,
+    });
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async searchFlightOffers(params: FlightSearchParams): Promise<FlightOffer[]> {
+    console.log("Searching flights with Amadeus:", params);
+
+    const response = await this.client.shopping.flightOffersSearch.get({
+      originLocationCode: params.originLocationCode,
+      destinationLocationCode: params.destinationLocationCode,
+      departureDate: params.departureDate,
+      adults: params.adults,
+      max: params.max || 10,
+      ...(params.returnDate && { returnDate: params.returnDate }),
+      ...(params.children && { children: params.children }),
+      ...(params.infants && { infants: params.infants }),
+      ...(params.travelClass && { travelClass: params.travelClass }),
+      ...(params.currencyCode && { currencyCode: params.currencyCode }),
+    });
+
+    const offers: FlightOffer[] = response.data || [];
+    console.log(`Found ${offers.length} flight offers`);
+    return offers.map((offer) => ({ ...offer, provider: this.id }));
+  }
+
+  async priceFlightOffer(offer: FlightOffer): Promise<FlightOffer> {
+    console.log("Getting flight price with Amadeus");
+
+    const response = await this.client.shopping.flightOffers.pricing.post(
+      JSON.stringify({
+        data: {
+          type: "flight-offers-pricing",
+          flightOffers: [toAmadeusOffer(offer)],
+        },
+      }),
+    );
+
+    const priced: FlightOffer | undefined = response.data?.flightOffers?.[0];
+    if (!priced) {
+      throw new Error("Amadeus returned no price for the offer");
+    }
+    return { ...priced, provider: this.id };
+  }
+
+  async getSeatMaps(offer: FlightOffer): Promise<SeatMap[]> {
+    console.log("Getting seat maps for flight offer with Amadeus");
+
+    const response = await this.client.shopping.seatMaps.post(
+      JSON.stringify({ data: [toAmadeusOffer(offer)] }),
+    );
+
+    return (response.data || []).map((seatMap: any) =>
+      this.fromAmadeusSeatMap(seatMap),
+    );
+  }
+
+  async getAirline(airlineCode: string): Promise<AirlineInfo | null> {
+    const response = await this.client.referenceData.airlines.get({
+      airlineCodes: airlineCode,
+    });
+
+    const airline = response.data?.[0];
+    return airline
+      ? {
+          iataCode: airline.iataCode,
+          icaoCode: airline.icaoCode,
+          businessName: airline.businessName,
+          commonName: airline.commonName,
+        }
+      : null;
+  }
+
+  async searchAirports(params: AirportSearchParams): Promise<Airport[]> {
+    console.log("Searching airports with Amadeus:", params);
+
+    const response = await this.client.referenceData.locations.get({
+      keyword: params.keyword,
+      subType: params.subType || "AIRPORT,CITY",
+      "page[limit]": 10,
+    });
+
+    return response.data || [];
+  }
+
+  /**
+   * Normalize an Amadeus seat map to decks of seats with their cabin,
+   * position, availability and fee
+   */
+  private fromAmadeusSeatMap(seatMap: any): SeatMap {
+    let currency: string | undefined;
+
+    const decks: SeatMapDeck[] = (seatMap.decks || []).map((deck: any) => ({
+      deckType: deck.deckType || "MAIN",
+      width: deck.deckConfiguration?.width || 0,
+      length: deck.deckConfiguration?.length || 0,
+      seats: (deck.seats || []).map((seat: any): Seat => {
+        const pricing = seat.travelerPricing?.[0];
+        const price = parseFloat(pricing?.price?.total);
+        currency = currency || pricing?.price?.currency;
+
+        return {
+          number: seat.number,
+          cabin: seat.cabin || "ECONOMY",
+          ...splitSeatNumber(seat.number),
+          // Amadeus counts x along the cabin and y across it
+          x: seat.coordinates?.y ?? 0,
+          y: seat.coordinates?.x ?? 0,
+          available: pricing?.seatAvailabilityStatus === "AVAILABLE",
+          price: Number.isFinite(price) ? price : 0,
+          characteristics: seat.characteristicsCodes || [],
+        };
+      }),
+    }));
+
+    return {
+      segmentId: String(seatMap.segmentId),
+      carrierCode: seatMap.carrierCode,
+      flightNumber: seatMap.number,
+      fromCode: seatMap.departure?.iataCode,
+      toCode: seatMap.arrival?.iataCode,
+      departureAt: seatMap.departure?.at,
+      aircraft: seatMap.aircraft?.code,
+      currency: currency || BASE_CURRENCY,
+      decks,
+    };
+  }
+}
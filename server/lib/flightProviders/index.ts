@@ -0,0 +1,187 @@
+import { FlightAggregator } from "./aggregator";
+import { AmadeusFlightProvider } from "./amadeusProvider";
+import { MockFlightProvider } from "./mockProvider";
+import { isSignedOffer, signOffer } from "./offerSignature";
+import {
+  AirlineInfo,
+  Airport,
+  AirportSearchParams,
+  FlightOffer,
+  FlightProvider,
+  FlightSearchParams,
+  FlightSearchResult,
+} from "./types";
+
+export * from "./types";
+export { FlightAggregator, getItineraryKey } from "./aggregator";
+export { AmadeusFlightProvider } from "./amadeusProvider";
+export { MockFlightProvider } from "./mockProvider";
+export { getOfferHash, isSignedOffer, signOffer } from "./offerSignature";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+let selectedProviders: FlightProvider[] | null = null;
+const mockProvider = new MockFlightProvider();
+
+const readTimeout = (value: string | undefined) => {
+  const timeout = Number(value);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : undefined;
+};
+
+const createAmadeusProvider = (): FlightProvider => {
+  const clientId = process.env.AMADEUS_API_KEY;
+  const clientSecret = process.env.AMADEUS_API_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      "FLIGHT_PROVIDERS=amadeus requires AMADEUS_API_KEY and AMADEUS_API_SECRET",
+    );
+  }
+
+  return new AmadeusFlightProvider({
+    clientId,
+    clientSecret,
+    hostname: process.env.NODE_ENV === "production" ? "production" : "test",
+    timeoutMs: readTimeout(process.env.AMADEUS_TIMEOUT_MS),
+  });
+};
+
+/**
+ * Providers flight searches fan out to.
+ * FLIGHT_PROVIDERS=amadeus,mock (comma-separated) picks them; otherwise
+ * Amadeus is used when its credentials are set, and the mock provider
+ * when they aren't.
+ */
+export const getFlightProviders = (): FlightProvider[] => {
+  if (!selectedProviders) {
+    const hasAmadeus = !!(
+      process.env.AMADEUS_API_KEY && process.env.AMADEUS_API_SECRET
+    );
+    const requested = (
+      process.env.FLIGHT_PROVIDERS || (hasAmadeus ? "amadeus" : "mock")
+    )
+      .split(",")
+      .map((id) => id.trim().toLowerCase())
+      .filter(Boolean);
+
+    selectedProviders = requested.map((id) => {
+      if (id === "amadeus") {
+        return createAmadeusProvider();
+      }
+      if (id === "mock") {
+        return mockProvider;
+      }
+      throw new Error(`Unknown flight provider in FLIGHT_PROVIDERS: ${id}`);
+    });
+    console.log(
+      `✈️ Flight providers: ${selectedProviders.map((provider) => provider.id).join(", ")}`,
+    );
+  }
+  return selectedProviders;
+};
+
+export const getFlightProvider = (id: string): FlightProvider | undefined =>
+  [...getFlightProviders(), mockProvider].find(
+    (provider) => provider.id === id,
+  );
+
+/**
+ * The provider an offer came from, taken from the offer's signature rather
+ * than trusted from the browser. Undefined for offers this server didn't
+ * return from a search, or that were changed since.
+ */
+export const getOfferProvider = (
+  offer: FlightOffer,
+): FlightProvider | undefined =>
+  isSignedOffer(offer) && offer.provider
+    ? getFlightProvider(offer.provider)
+    : undefined;
+
+/**
+ * Search every provider. When none of them answers, sample flights are
+ * served instead, so the booking flow keeps working. Offers come back
+ * signed (see getOfferProvider).
+ */
+export const searchFlights = async (
+  params: FlightSearchParams,
+): Promise<FlightSearchResult> => {
+  const result = await searchProviders(params);
+  return { ...result, offers: result.offers.map(signOffer) };
+};
+
+const searchProviders = async (
+  params: FlightSearchParams,
+): Promise<FlightSearchResult> => {
+  const providers = getFlightProviders().filter((provider) =>
+    provider.isAvailable(),
+  );
+  const timeoutMs =
+    readTimeout(process.env.FLIGHT_PROVIDER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  const result = await new FlightAggregator(providers, timeoutMs).search(
+    params,
+  );
+
+  if (
+    !providers.includes(mockProvider) &&
+    result.providers.every((status) => status.status !== "ok")
+  ) {
+    console.log("No flight provider answered, returning mock flight data");
+    const fallback = await new FlightAggregator(
+      [mockProvider],
+      timeoutMs,
+    ).search(params);
+    return {
+      offers: fallback.offers,
+      providers: [...result.providers, ...fallback.providers],
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Airports and cities from the first provider that can search them, or
+ * from the bundled airport data
+ */
+export const searchAirports = async (
+  params: AirportSearchParams,
+): Promise<Airport[]> => {
+  const provider = getFlightProviders().find(
+    (candidate) =>
+      candidate !== mockProvider &&
+      candidate.isAvailable() &&
+      candidate.searchAirports,
+  );
+
+  if (provider) {
+    try {
+      return await provider.searchAirports(params);
+    } catch (error) {
+      console.error(`${provider.name} airport search failed:`, error);
+    }
+  }
+
+  return mockProvider.searchAirports(params);
+};
+
+/**
+ * An airline from the first provider that knows it
+ */
+export const getAirline = async (
+  airlineCode: string,
+): Promise<AirlineInfo | null> => {
+  for (const provider of [...getFlightProviders(), mockProvider]) {
+    if (!provider.isAvailable()) {
+      continue;
+    }
+    try {
+      const airline = await provider.getAirline(airlineCode);
+      if (airline) {
+        return airline;
+      }
+    } catch (error) {
+      console.error(`${provider.name} airline lookup failed:`, error);
+    }
+  }
+  return null;
+};
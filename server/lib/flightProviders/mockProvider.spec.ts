@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { getAirportDistanceKm } from "../airportData";
+import { MockFlightProvider } from "./mockProvider";
+import type { FlightSearchParams } from "./types";
+
+const provider = new MockFlightProvider();
+
+const params: FlightSearchParams = {
+  originLocationCode: "JFK",
+  destinationLocationCode: "LHR",
+  departureDate: "2030-05-01",
+  returnDate: "2030-05-10",
+  adults: 2,
+};
+
+const minutes = (duration: string) => {
+  const match = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+  return Number(match?.[1] || 0) * 60 + Number(match?.[2] || 0);
+};
+
+describe("MockFlightProvider", () => {
+  it("should return the same offers for the same search", async () => {
+    const first = await provider.searchFlightOffers(params);
+    const second = await provider.searchFlightOffers(params);
+
+    expect(first.length).toBeGreaterThan(1);
+    expect(second).toEqual(first);
+
+    const totals = first.map((offer) => Number(offer.price.total));
+    expect(totals).toEqual([...totals].sort((a, b) => a - b));
+    expect(first[0].travelerPricings).toHaveLength(2);
+  });
+
+  it("should fly round trips out and back with the same airline", async () => {
+    const offers = await provider.searchFlightOffers(params);
+
+    offers.forEach((offer) => {
+      const [outbound, inbound] = offer.itineraries;
+      expect(offer.itineraries).toHaveLength(2);
+      expect(outbound.segments[0].departure.iataCode).toBe("JFK");
+      expect(outbound.segments.at(-1)!.arrival.iataCode).toBe("LHR");
+      expect(inbound.segments[0].departure.iataCode).toBe("LHR");
+      expect(inbound.segments[0].departure.at.startsWith("2030-05-10")).toBe(
+        true,
+      );
+      expect(
+        offer.itineraries
+          .flatMap((itinerary) => itinerary.segments)
+          .every(
+            (segment) =>
+              segment.carrierCode === offer.validatingAirlineCodes[0],
+          ),
+      ).toBe(true);
+    });
+  });
+
+  it("should time flights by distance and connect through hubs", async () => {
+    const offers = await provider.searchFlightOffers({
+      ...params,
+      returnDate: undefined,
+      travelClass: "BUSINESS",
+    });
+
+    const nonstop = offers.find(
+      (offer) => offer.itineraries[0].segments.length === 1,
+    )!;
+    expect(["AA", "DL", "BA"]).toContain(nonstop.validatingAirlineCodes[0]);
+    const flightTime = minutes(nonstop.itineraries[0].duration);
+    expect(flightTime).toBeGreaterThan(6 * 60);
+    expect(flightTime).toBeLessThan(9 * 60);
+
+    const connection = offers.find(
+      (offer) => offer.itineraries[0].segments.length === 2,
+    )!;
+    const [first, second] = connection.itineraries[0].segments;
+    expect(first.arrival.iataCode).toBe(second.departure.iataCode);
+    // Roughly on the way
+    expect(
+      getAirportDistanceKm("JFK", first.arrival.iataCode)! +
+        getAirportDistanceKm(first.arrival.iataCode, "LHR")!,
+    ).toBeLessThan(getAirportDistanceKm("JFK", "LHR")! * 1.35);
+    expect(connection.travelerPricings[0].fareDetailsBySegment[0].cabin).toBe(
+      "BUSINESS",
+    );
+  });
+
+  it("should confirm the price of offers it still has", async () => {
+    const [, offer] = await provider.searchFlightOffers(params);
+
+    expect(await provider.priceFlightOffer(offer)).toEqual(offer);
+
+    const [segment] = offer.itineraries[0].segments;
+    await expect(
+      provider.priceFlightOffer({
+        ...offer,
+        itineraries: [
+          { ...offer.itineraries[0], segments: [{ ...segment, number: "1" }] },
+          offer.itineraries[1],
+        ],
+      }),
+    ).rejects.toThrow("no longer available");
+  });
+});
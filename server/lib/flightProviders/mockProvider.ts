@@ -0,0 +1,799 @@
+import {
+  BASE_CURRENCY,
+  isSupportedCurrency,
+  roundMoney,
+} from "../../../shared/currency";
+import {
+  getAirportByCode,
+  getAirportDistanceKm,
+  getAirportTimeZone,
+  searchAirports,
+} from "../airportData";
+import CurrencyService from "../currencyService";
+import { hashSeed, seededRandom } from "../seededRandom";
+import { toLocalTime, toUtc } from "../timeZones";
+import {
+  AirlineInfo,
+  Airport,
+  AirportSearchParams,
+  FlightOffer,
+  FlightProvider,
+  FlightSearchParams,
+  FlightSegment,
+  TravelerPricing,
+} from "./types";
+import { getItineraryKey } from "./aggregator";
+
+type Cabin = NonNullable<FlightSearchParams["travelClass"]>;
+
+interface MockAirline {
+  code: string;
+  name: string;
+  region: string;
+  hubs: string[];
+  // Low-cost carriers only fly short nonstop routes within their region
+  lowCost?: boolean;
+  // Sells connections between any two regions through its hubs
+  global?: boolean;
+}
+
+// A route through one hub at most, flown by one airline
+interface MockRouting {
+  airline: MockAirline;
+  via?: string;
+}
+
+const AIRLINES: MockAirline[] = [
+  {
+    code: "AA",
+    name: "American Airlines",
+    region: "North America",
+    hubs: ["DFW", "CLT", "MIA", "ORD"],
+  },
+  {
+    code: "DL",
+    name: "Delta Air Lines",
+    region: "North America",
+    hubs: ["ATL", "JFK", "SEA", "BOS"],
+  },
+  {
+    code: "UA",
+    name: "United Airlines",
+    region: "North America",
+    hubs: ["EWR", "ORD", "SFO", "IAH"],
+  },
+  {
+    code: "AC",
+    name: "Air Canada",
+    region: "North America",
+    hubs: ["YYZ", "YVR", "YUL"],
+  },
+  {
+    code: "AM",
+    name: "Aeromexico",
+    region: "North America",
+    hubs: ["MEX"],
+  },
+  {
+    code: "WN",
+    name: "Southwest Airlines",
+    region: "North America",
+    hubs: [],
+    lowCost: true,
+  },
+  {
+    code: "BA",
+    name: "British Airways",
+    region: "Europe",
+    hubs: ["LHR", "LGW"],
+  },
+  {
+    code: "AF",
+    name: "Air France",
+    region: "Europe",
+    hubs: ["CDG"],
+  },
+  {
+    code: "KL",
+    name: "KLM",
+    region: "Europe",
+    hubs: ["AMS"],
+  },
+  {
+    code: "LH",
+    name: "Lufthansa",
+    region: "Europe",
+    hubs: ["FRA", "MUC"],
+  },
+  {
+    code: "LX",
+    name: "Swiss",
+    region: "Europe",
+    hubs: ["ZUR"],
+  },
+  {
+    code: "IB",
+    name: "Iberia",
+    region: "Europe",
+    hubs: ["MAD"],
+  },
+  {
+    code: "TK",
+    name: "Turkish Airlines",
+    region: "Europe",
+    hubs: ["IST"],
+    global: true,
+  },
+  {
+    code: "FR",
+    name: "Ryanair",
+    region: "Europe",
+    hubs: [],
+    lowCost: true,
+  },
+  {
+    code: "EK",
+    name: "Emirates",
+    region: "Middle East",
+    hubs: ["DXB"],
+    global: true,
+  },
+  {
+    code: "QR",
+    name: "Qatar Airways",
+    region: "Middle East",
+    hubs: ["DOH"],
+    global: true,
+  },
+  {
+    code: "EY",
+    name: "Etihad Airways",
+    region: "Middle East",
+    hubs: ["AUH"],
+    global: true,
+  },
+  {
+    code: "SV",
+    name: "Saudia",
+    region: "Middle East",
+    hubs: ["JED", "RUH"],
+  },
+  {
+    code: "SQ",
+    name: "Singapore Airlines",
+    region: "Asia",
+    hubs: ["SIN"],
+  },
+  {
+    code: "CX",
+    name: "Cathay Pacific",
+    region: "Asia",
+    hubs: ["HKG"],
+  },
+  {
+    code: "NH",
+    name: "All Nippon Airways",
+    region: "Asia",
+    hubs: ["HND", "NRT"],
+  },
+  {
+    code: "KE",
+    name: "Korean Air",
+    region: "Asia",
+    hubs: ["ICN"],
+  },
+  {
+    code: "CA",
+    name: "Air China",
+    region: "Asia",
+    hubs: ["PEK"],
+  },
+  {
+    code: "MU",
+    name: "China Eastern",
+    region: "Asia",
+    hubs: ["PVG"],
+  },
+  {
+    code: "AI",
+    name: "Air India",
+    region: "Asia",
+    hubs: ["DEL", "BOM"],
+  },
+  {
+    code: "TG",
+    name: "Thai Airways",
+    region: "Asia",
+    hubs: ["BKK"],
+  },
+  {
+    code: "6E",
+    name: "IndiGo",
+    region: "Asia",
+    hubs: [],
+    lowCost: true,
+  },
+  {
+    code: "QF",
+    name: "Qantas",
+    region: "Oceania",
+    hubs: ["SYD", "MEL"],
+  },
+  {
+    code: "NZ",
+    name: "Air New Zealand",
+    region: "Oceania",
+    hubs: ["AKL"],
+  },
+  {
+    code: "ET",
+    name: "Ethiopian Airlines",
+    region: "Africa",
+    hubs: ["ADD"],
+  },
+  {
+    code: "SA",
+    name: "South African Airways",
+    region: "Africa",
+    hubs: ["JNB"],
+  },
+  {
+    code: "MS",
+    name: "EgyptAir",
+    region: "Africa",
+    hubs: ["CAI"],
+  },
+  {
+    code: "LA",
+    name: "LATAM Airlines",
+    region: "South America",
+    hubs: ["GRU", "SCL", "LIM"],
+  },
+  {
+    code: "AV",
+    name: "Avianca",
+    region: "South America",
+    hubs: ["BOG"],
+  },
+];
+
+const DEFAULT_MAX_OFFERS = 10;
+const MAX_PRICED_OFFERS = 250;
+// Longest route flown nonstop
+const MAX_NONSTOP_KM = 15500;
+const MAX_LOW_COST_KM = 3000;
+// How much longer a connection may be than flying direct
+const MAX_DETOUR = 1.35;
+// Hubs closer than this to either end (e.g. another airport in the same
+// city) are not worth connecting through
+const MIN_CONNECTION_KM = 400;
+const CRUISE_KMH = 800;
+// Taxi, climb and descent
+const GROUND_MINUTES = 35;
+
+const CABIN_FARES: Record<
+  Cabin,
+  { multiplier: number; bookingClass: string; bags: number }
+> = {
+  ECONOMY: { multiplier: 1, bookingClass: "M", bags: 1 },
+  PREMIUM_ECONOMY: { multiplier: 1.7, bookingClass: "W", bags: 2 },
+  BUSINESS: { multiplier: 3.8, bookingClass: "J", bags: 2 },
+  FIRST: { multiplier: 6.5, bookingClass: "F", bags: 3 },
+};
+
+const TRAVELER_TYPES = [
+  { key: "adults", type: "ADULT", fare: 1, taxes: 1 },
+  { key: "children", type: "CHILD", fare: 0.75, taxes: 1 },
+  { key: "infants", type: "HELD_INFANT", fare: 0.1, taxes: 0.5 },
+] as const;
+
+const roundTo = (value: number, step: number) =>
+  Math.round(value / step) * step;
+
+const toIsoDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours ? `${hours}H` : ""}${rest || !hours ? `${rest}M` : ""}`;
+};
+
+// Airports we have no location for are a plausible medium haul apart
+const flightDistance = (from: string, to: string) =>
+  getAirportDistanceKm(from, to) ??
+  1000 + (hashSeed([from, to].sort().join("|")) % 7000);
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+const aircraftFor = (distanceKm: number, seed: number) =>
+  pick(
+    distanceKm < 1500
+      ? ["320", "73H", "E90"]
+      : distanceKm < 4500
+        ? ["321", "32N", "738"]
+        : ["789", "77W", "359", "333"],
+    seed,
+  );
+
+/**
+ * Sample flights for development and demos, and when no live provider
+ * answers. Offers are generated from
+ * the airports involved: carriers based in their regions, nonstop flights
+ * from the carriers' hubs and connections through hubs on the way, flight
+ * times from the great-circle distance, and fares by distance and cabin.
+ * The same query on the same travel dates always returns the same offers,
+ * so the search page and tests can rely on them; schedules (flight numbers
+ * and departure times) are the same whatever the date.
+ */
+export class MockFlightProvider implements FlightProvider {
+  readonly id = "mock";
+  readonly name = "Sample flights";
+  readonly live = false;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async searchFlightOffers(params: FlightSearchParams): Promise<FlightOffer[]> {
+    const origin = params.originLocationCode.toUpperCase();
+    const destination = params.destinationLocationCode.toUpperCase();
+    const cabin: Cabin = params.travelClass || "ECONOMY";
+    const seed = hashSeed(
+      [
+        origin,
+        destination,
+        params.departureDate,
+        params.returnDate || "",
+        cabin,
+      ].join("|"),
+    );
+    const random = seededRandom(seed);
+
+    const distance = flightDistance(origin, destination);
+
+    const routings = this.findRoutings(origin, destination, distance).slice(
+      0,
+      params.max || DEFAULT_MAX_OFFERS,
+    );
+
+    const currency =
+      params.currencyCode && isSupportedCurrency(params.currencyCode)
+        ? params.currencyCode
+        : BASE_CURRENCY;
+    const rate = (await CurrencyService.getRate(currency)).rate;
+
+    const offers = routings.map((routing) => {
+      let segmentCount = 0;
+      const buildItinerary = (from: string, to: string, date: string) => {
+        const segments = this.buildSegments(routing, from, to, date).map(
+          (segment) => ({ ...segment, id: String(++segmentCount) }),
+        );
+        const first = segments[0];
+        const last = segments[segments.length - 1];
+        const minutes =
+          (toUtc(last.arrival.at, getAirportTimeZone(to) || "UTC").getTime() -
+            toUtc(
+              first.departure.at,
+              getAirportTimeZone(from) || "UTC",
+            ).getTime()) /
+          60000;
+        return { duration: toIsoDuration(minutes), segments };
+      };
+
+      const itineraries = [
+        buildItinerary(origin, destination, params.departureDate),
+      ];
+      if (params.returnDate) {
+        itineraries.push(
+          buildItinerary(destination, origin, params.returnDate),
+        );
+      }
+
+      // Fare per adult in USD, for one direction
+      const flownKm = routing.via
+        ? flightDistance(origin, routing.via) +
+          flightDistance(routing.via, destination)
+        : distance;
+      const oneWayFare =
+        (45 + flownKm * 0.075) *
+        CABIN_FARES[cabin].multiplier *
+        (routing.via ? 0.82 : 1) *
+        (routing.airline.lowCost ? 0.7 : 1) *
+        (0.85 + random() * 0.45);
+      const base =
+        oneWayFare * itineraries.length * (params.returnDate ? 0.92 : 1);
+      const taxes = 25 * segmentCount + base * 0.08;
+
+      return {
+        routing,
+        itineraries,
+        base,
+        taxes,
+        bookableSeats: 1 + Math.floor(random() * 9),
+      };
+    });
+
+    return offers
+      .sort((a, b) => a.base + a.taxes - (b.base + b.taxes))
+      .map((offer, index): FlightOffer => {
+        const { routing, itineraries } = offer;
+        const money = (usd: number) => roundMoney(usd * rate);
+        const fare = CABIN_FARES[cabin];
+        const segmentIds = itineraries.flatMap((itinerary) =>
+          itinerary.segments.map((segment) => segment.id),
+        );
+
+        let travelerCount = 0;
+        const travelerPricings: TravelerPricing[] = TRAVELER_TYPES.flatMap(
+          (traveler) =>
+            Array.from(
+              { length: params[traveler.key] || 0 },
+              (): TravelerPricing => {
+                const base = money(offer.base * traveler.fare);
+                const total = roundMoney(
+                  base + money(offer.taxes * traveler.taxes),
+                );
+                return {
+                  travelerId: String(++travelerCount),
+                  fareOption: "STANDARD",
+                  travelerType: traveler.type,
+                  price: {
+                    currency,
+                    total: total.toFixed(2),
+                    base: base.toFixed(2),
+                    fees: [],
+                    grandTotal: total.toFixed(2),
+                  },
+                  fareDetailsBySegment: segmentIds.map((segmentId) => ({
+                    segmentId,
+                    cabin,
+                    fareBasis: `${fare.bookingClass}${params.returnDate ? "RT" : "OW"}${routing.airline.code}`,
+                    class: fare.bookingClass,
+                    includedCheckedBags: {
+                      quantity:
+                        routing.airline.lowCost && cabin === "ECONOMY"
+                          ? 0
+                          : fare.bags,
+                    },
+                  })),
+                };
+              },
+            ),
+        );
+
+        const total = travelerPricings.reduce(
+          (sum, pricing) => sum + Number(pricing.price.total),
+          0,
+        );
+        const base = travelerPricings.reduce(
+          (sum, pricing) => sum + Number(pricing.price.base),
+          0,
+        );
+        const lastTicketingDate = new Date(`${params.departureDate}T00:00:00Z`);
+        lastTicketingDate.setUTCDate(lastTicketingDate.getUTCDate() - 1);
+
+        return {
+          id: String(index + 1),
+          source: "GDS",
+          provider: this.id,
+          instantTicketingRequired: false,
+          nonHomogeneous: false,
+          oneWay: !params.returnDate,
+          lastTicketingDate: lastTicketingDate.toISOString().slice(0, 10),
+          numberOfBookableSeats: offer.bookableSeats,
+          itineraries,
+          price: {
+            currency,
+            total: roundMoney(total).toFixed(2),
+            base: roundMoney(base).toFixed(2),
+            fees: [
+              { amount: "0.00", type: "SUPPLIER" },
+              { amount: "0.00", type: "TICKETING" },
+            ],
+            grandTotal: roundMoney(total).toFixed(2),
+          },
+          pricingOptions: {
+            fareType: ["PUBLISHED"],
+            includedCheckedBagsOnly: true,
+          },
+          validatingAirlineCodes: [routing.airline.code],
+          travelerPricings,
+        };
+      });
+  }
+
+  /**
+   * Mock offers keep their price: the offer is searched for again and
+   * returned as generated, or rejected once the search no longer has it
+   */
+  async priceFlightOffer(offer: FlightOffer): Promise<FlightOffer> {
+    const [outbound, inbound] = offer.itineraries;
+    const first = outbound.segments[0];
+    const last = outbound.segments[outbound.segments.length - 1];
+    const travelers = (type: string) =>
+      offer.travelerPricings.filter((pricing) => pricing.travelerType === type)
+        .length;
+
+    const offers = await this.searchFlightOffers({
+      originLocationCode: first.departure.iataCode,
+      destinationLocationCode: last.arrival.iataCode,
+      departureDate: first.departure.at.slice(0, 10),
+      returnDate: inbound?.segments[0].departure.at.slice(0, 10),
+      adults: travelers("ADULT"),
+      children: travelers("CHILD"),
+      infants: travelers("HELD_INFANT"),
+      travelClass: offer.travelerPricings[0]?.fareDetailsBySegment[0]
+        ?.cabin as Cabin,
+      currencyCode: offer.price.currency,
+      // Every routing, so the offer is found whatever max it was searched with
+      max: MAX_PRICED_OFFERS,
+    });
+
+    const match = offers.find(
+      (candidate) => getItineraryKey(candidate) === getItineraryKey(offer),
+    );
+    if (!match) {
+      throw new Error("The flight offer is no longer available");
+    }
+    return { ...match, id: offer.id };
+  }
+
+  async getAirline(airlineCode: string): Promise<AirlineInfo | null> {
+    const airline = AIRLINES.find(
+      (candidate) => candidate.code === airlineCode.toUpperCase(),
+    );
+    return airline
+      ? { iataCode: airline.code, businessName: airline.name }
+      : null;
+  }
+
+  /**
+   * Airports from the bundled airport data, in the Amadeus locations format
+   */
+  async searchAirports(params: AirportSearchParams): Promise<Airport[]> {
+    return searchAirports(params.keyword, 15).map((airport) => ({
+      type: "location",
+      subType: "AIRPORT",
+      name: airport.name,
+      detailedName: `${airport.city.toUpperCase()}/${airport.country.toUpperCase()}:${airport.name.toUpperCase()}`,
+      id: `A${airport.code}`,
+      timeZoneOffset: "+00:00", // Default timezone
+      iataCode: airport.code,
+      geoCode: {
+        latitude: airport.latitude,
+        longitude: airport.longitude,
+      },
+      address: {
+        cityName: airport.city.toUpperCase(),
+        cityCode: airport.code,
+        countryName: airport.country.toUpperCase(),
+        countryCode: this.getCountryCode(airport.country),
+        regionCode: this.getRegionCode(airport.region),
+      },
+      analytics: {
+        travelers: {
+          score: 25, // Default score
+        },
+      },
+    }));
+  }
+
+  /**
+   * Ways to fly a route: nonstop with carriers based at either end (or
+   * low-cost carriers on short hops within their region), then one-stop
+   * connections through hubs that are roughly on the way
+   */
+  private findRoutings(
+    origin: string,
+    destination: string,
+    distance: number,
+  ): MockRouting[] {
+    const regions = [origin, destination].map(
+      (code) => getAirportByCode(code)?.region,
+    );
+    const sameRegion = regions[0] && regions[0] === regions[1];
+
+    const nonstop: MockRouting[] = AIRLINES.filter((airline) =>
+      airline.lowCost
+        ? sameRegion &&
+          airline.region === regions[0] &&
+          distance <= MAX_LOW_COST_KM
+        : distance <= MAX_NONSTOP_KM &&
+          (airline.hubs.includes(origin) || airline.hubs.includes(destination)),
+    ).map((airline) => ({ airline }));
+
+    const connections = AIRLINES.filter(
+      (airline) =>
+        !airline.lowCost &&
+        (airline.global || regions.includes(airline.region)),
+    )
+      .flatMap((airline) =>
+        airline.hubs
+          .filter((hub) => hub !== origin && hub !== destination)
+          .map((hub) => {
+            const first = getAirportDistanceKm(origin, hub);
+            const second = getAirportDistanceKm(hub, destination);
+            return {
+              routing: { airline, via: hub },
+              detour:
+                first === undefined || second === undefined
+                  ? Infinity
+                  : (first + second) / distance,
+              longestLeg: Math.max(first ?? 0, second ?? 0),
+              shortestLeg: Math.min(first ?? 0, second ?? 0),
+            };
+          }),
+      )
+      .filter(
+        ({ detour, longestLeg, shortestLeg }) =>
+          detour <= MAX_DETOUR &&
+          longestLeg <= MAX_NONSTOP_KM &&
+          shortestLeg >= MIN_CONNECTION_KM,
+      )
+      .sort((a, b) => a.detour - b.detour)
+      // One connection per airline, through its best-placed hub
+      .filter(
+        ({ routing }, index, all) =>
+          all.findIndex(
+            (other) => other.routing.airline === routing.airline,
+          ) === index,
+      )
+      .map(({ routing }) => routing);
+
+    if (nonstop.length === 0 && connections.length === 0) {
+      // Airports we don't know: a couple of major carriers fly it nonstop,
+      // from the region of the airport we do know if there is one
+      const seed = hashSeed(`${origin}|${destination}`);
+      const majors = AIRLINES.filter(
+        (airline) =>
+          !airline.lowCost &&
+          (!regions.some(Boolean) || regions.includes(airline.region)),
+      );
+      return [pick(majors, seed), pick(majors, seed >>> 8)]
+        .filter((airline, index, all) => all.indexOf(airline) === index)
+        .map((airline) => ({ airline }));
+    }
+
+    return [...nonstop, ...connections];
+  }
+
+  /**
+   * Flights of one direction of a routing, leaving on a date. Flight
+   * numbers and departure times depend only on the airline and airports.
+   */
+  private buildSegments(
+    routing: MockRouting,
+    from: string,
+    to: string,
+    date: string,
+  ): Omit<FlightSegment, "id">[] {
+    const stops = routing.via ? [from, routing.via, to] : [from, to];
+    const segments: Omit<FlightSegment, "id">[] = [];
+    let earliestDeparture: Date | null = null;
+
+    for (let i = 0; i < stops.length - 1; i++) {
+      const legFrom = stops[i];
+      const legTo = stops[i + 1];
+      const legSeed = hashSeed(`${routing.airline.code}|${legFrom}|${legTo}`);
+      const legRandom = seededRandom(legSeed);
+      const distance = flightDistance(legFrom, legTo);
+      const fromZone = getAirportTimeZone(legFrom) || "UTC";
+      const toZone = getAirportTimeZone(legTo) || "UTC";
+
+      let departure: Date;
+      if (earliestDeparture) {
+        // Connections leave 1 to 3 hours after landing
+        departure = new Date(
+          earliestDeparture.getTime() +
+            roundTo(60 + legRandom() * 120, 5) * 60000,
+        );
+      } else {
+        const minutes = roundTo(6 * 60 + legRandom() * 16 * 60, 5);
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+        departure = toUtc(`${date}T${time}:00`, fromZone);
+      }
+
+      const duration = roundTo(
+        (distance / CRUISE_KMH) * 60 + GROUND_MINUTES,
+        5,
+      );
+      const arrival = new Date(departure.getTime() + duration * 60000);
+      earliestDeparture = arrival;
+
+      segments.push({
+        departure: {
+          iataCode: legFrom,
+          at: toLocalTime(departure, fromZone),
+        },
+        arrival: { iataCode: legTo, at: toLocalTime(arrival, toZone) },
+        carrierCode: routing.airline.code,
+        number: String(
+          distance > 4500 ? 1 + (legSeed % 299) : 300 + (legSeed % 2700),
+        ),
+        aircraft: { code: aircraftFor(distance, legSeed) },
+        duration: toIsoDuration(duration),
+        numberOfStops: 0,
+        blacklistedInEU: false,
+      });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Get country code from country name
+   */
+  private getCountryCode(country: string): string {
+    const countryCodes: { [key: string]: string } = {
+      "United States": "US",
+      Canada: "CA",
+      Mexico: "MX",
+      "United Kingdom": "GB",
+      France: "FR",
+      Germany: "DE",
+      Netherlands: "NL",
+      Spain: "ES",
+      Italy: "IT",
+      Switzerland: "CH",
+      Austria: "AT",
+      Denmark: "DK",
+      Sweden: "SE",
+      Norway: "NO",
+      Finland: "FI",
+      Turkey: "TR",
+      Greece: "GR",
+      Ireland: "IE",
+      Belgium: "BE",
+      Portugal: "PT",
+      "Czech Republic": "CZ",
+      Poland: "PL",
+      Hungary: "HU",
+      Japan: "JP",
+      "South Korea": "KR",
+      China: "CN",
+      "Hong Kong": "HK",
+      Taiwan: "TW",
+      Singapore: "SG",
+      Malaysia: "MY",
+      Thailand: "TH",
+      Indonesia: "ID",
+      Philippines: "PH",
+      India: "IN",
+      "United Arab Emirates": "AE",
+      Qatar: "QA",
+      Kuwait: "KW",
+      Bahrain: "BH",
+      "Saudi Arabia": "SA",
+      Israel: "IL",
+      Egypt: "EG",
+      "South Africa": "ZA",
+      Morocco: "MA",
+      Nigeria: "NG",
+      Ethiopia: "ET",
+      Australia: "AU",
+      "New Zealand": "NZ",
+      Brazil: "BR",
+      Argentina: "AR",
+      Chile: "CL",
+      Peru: "PE",
+      Colombia: "CO",
+      Ecuador: "EC",
+      Venezuela: "VE",
+    };
+    return countryCodes[country] || "XX";
+  }
+
+  /**
+   * Get region code from region name
+   */
+  private getRegionCode(region: string): string {
+    const regionCodes: { [key: string]: string } = {
+      "North America": "NAMER",
+      Europe: "EUR",
+      Asia: "ASIA",
+      "Middle East": "MEAST",
+      Africa: "AFR",
+      Oceania: "OCEANIA",
+      "South America": "SAMER",
+    };
+    return regionCodes[region] || "UNKNOWN";
+  }
+}
@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import { getQuoteSigningSecret } from "../quoteService";
+import { FlightOffer } from "./types";
+
+// JSON with sorted keys, so equal offers always serialize the same
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((key) => [key, nested[key]]),
+        )
+      : nested,
+  );
+
+// Offers are signed with the quote secret: they are signed to be quoted
+const sign = (offer: FlightOffer) => {
+  const { signature, ...signed } = offer;
+  return crypto
+    .createHmac("sha256", getQuoteSigningSecret())
+    .update(canonicalJson(signed))
+    .digest("base64url");
+};
+
+/**
+ * Fingerprint of a flight offer. A quote keeps the fingerprint of the offer
+ * it priced, so bookings can only be made for that exact offer.
+ */
+export const getOfferHash = (offer: FlightOffer): string =>
+  crypto.createHash("sha256").update(canonicalJson(offer)).digest("base64url");
+
+/**
+ * Sign an offer as searched. The signature covers the whole offer,
+ * including the provider it is tagged with, so the server can later tell
+ * where an offer came from without trusting the browser.
+ */
+export const signOffer = (offer: FlightOffer): FlightOffer => ({
+  ...offer,
+  signature: sign(offer),
+});
+
+// Whether the offer was signed by this server and is unchanged since
+export const isSignedOffer = (offer: FlightOffer): boolean => {
+  if (typeof offer.signature !== "string") {
+    return false;
+  }
+  const expected = Buffer.from(sign(offer));
+  const actual = Buffer.from(offer.signature);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
@@ -0,0 +1,97 @@
+import type { FlightOffer, FlightSearchRequest, SeatMap } from "@shared/api";
+
+export type {
+  FlightItinerary,
+  FlightOffer,
+  FlightPrice,
+  FlightSegment,
+  TravelerPricing,
+} from "@shared/api";
+
+export type FlightSearchParams = FlightSearchRequest;
+
+export interface AirportSearchParams {
+  keyword: string;
+  subType?: "AIRPORT" | "CITY";
+}
+
+export interface Airport {
+  type: string;
+  subType: string;
+  name: string;
+  detailedName: string;
+  id: string;
+  self?: {
+    href: string;
+    methods: string[];
+  };
+  timeZoneOffset: string;
+  iataCode: string;
+  geoCode: {
+    latitude: number;
+    longitude: number;
+  };
+  address: {
+    cityName: string;
+    cityCode: string;
+    countryName: string;
+    countryCode: string;
+    regionCode: string;
+  };
+  analytics: {
+    travelers: {
+      score: number;
+    };
+  };
+}
+
+export interface AirlineInfo {
+  iataCode: string;
+  icaoCode?: string;
+  businessName: string;
+  commonName?: string;
+}
+
+/**
+ * A source of flight offers (a GDS, an airline aggregator, or the mock
+ * provider). Offers are exchanged in the Amadeus flight offer format;
+ * adapters for other APIs convert to and from it. Every offer a provider
+ * returns is tagged with the provider's `id`, so pricing and seat maps go
+ * back to the provider that sold it.
+ */
+export interface FlightProvider {
+  readonly id: string;
+  readonly name: string;
+  /**
+   * Whether offers are real inventory. Bookings are only charged the fare
+   * of offers from live providers.
+   */
+  readonly live: boolean;
+  // How long a search may take before the provider is left out of results
+  readonly timeoutMs?: number;
+  isAvailable(): boolean;
+  searchFlightOffers(params: FlightSearchParams): Promise<FlightOffer[]>;
+  /**
+   * Confirm an offer's current price. Rejects when the offer can no longer
+   * be sold.
+   */
+  priceFlightOffer(offer: FlightOffer): Promise<FlightOffer>;
+  // Seat maps for each flight of the offer; providers without seat maps
+  // leave this out
+  getSeatMaps?(offer: FlightOffer): Promise<SeatMap[]>;
+  // Resolves with null for airlines the provider doesn't know
+  getAirline(airlineCode: string): Promise<AirlineInfo | null>;
+  searchAirports?(params: AirportSearchParams): Promise<Airport[]>;
+}
+
+export interface FlightProviderSearchStatus {
+  provider: string;
+  status: "ok" | "error" | "timeout";
+  count: number;
+  message?: string;
+}
+
+export interface FlightSearchResult {
+  offers: FlightOffer[];
+  providers: FlightProviderSearchStatus[];
+}
@@ -0,0 +1,142 @@
+import os from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import EmailService from "./emailService";
+import { hashPassword, verifyPassword } from "./passwords";
+import SessionService from "./sessionService";
+import { getLocalDataStore, toApiUser } from "./storage";
+
+const GENERIC_RESPONSE = {
+  success: true,
+  message: "If an account exists for this email, a reset link is on its way",
+};
+
+describe("HybridAuthSystem password reset", () => {
+  const sendPasswordReset = vi.spyOn(EmailService, "sendPasswordReset");
+  let HybridAuthSystem: typeof import("./hybridAuth").HybridAuthSystem;
+
+  beforeAll(async () => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `password-reset-spec-${Date.now()}-${Math.random()}.json`,
+    );
+    sendPasswordReset.mockResolvedValue(true);
+
+    // Loading the module seeds the admin user into the local store
+    HybridAuthSystem = (await import("./hybridAuth")).HybridAuthSystem;
+  });
+
+  afterEach(() => {
+    sendPasswordReset.mockClear();
+  });
+
+  const createUser = async (email: string) =>
+    toApiUser(
+      await getLocalDataStore().users.create({
+        email,
+        first_name: "Ada",
+        last_name: "Lovelace",
+        title: "Ms",
+        password_hash: await hashPassword("old-password"),
+      }),
+    );
+
+  // Requests a reset and returns the token of the emailed link
+  const requestToken = async (email: string) => {
+    sendPasswordReset.mockClear();
+    expect(await HybridAuthSystem.requestPasswordReset(email)).toEqual(
+      GENERIC_RESPONSE,
+    );
+    expect(sendPasswordReset).toHaveBeenCalledTimes(1);
+    const [, token, resetUrl] = sendPasswordReset.mock.calls[0];
+    expect(resetUrl).toContain(`reset-password?token=${token}`);
+    return token;
+  };
+
+  const passwordMatches = async (userId: string, password: string) => {
+    const record = await getLocalDataStore().users.findById(userId);
+    return (await verifyPassword(password, record!.password_hash!)).valid;
+  };
+
+  it("should set the new password and end existing sessions", async () => {
+    const user = await createUser("reset@example.com");
+    await SessionService.createSession(user);
+    const token = await requestToken("Reset@Example.com");
+
+    expect(await HybridAuthSystem.resetPassword(token, "new-password")).toEqual(
+      {
+        success: true,
+        message: "Your password has been reset. Please sign in.",
+      },
+    );
+
+    expect(await passwordMatches(user.id, "new-password")).toBe(true);
+    expect(await passwordMatches(user.id, "old-password")).toBe(false);
+    expect(await SessionService.listSessions(user.id)).toHaveLength(0);
+  });
+
+  it("should only accept a reset link once", async () => {
+    const user = await createUser("once@example.com");
+    const token = await requestToken(user.email);
+    await HybridAuthSystem.resetPassword(token, "new-password");
+
+    const replay = await HybridAuthSystem.resetPassword(
+      token,
+      "other-password",
+    );
+
+    expect(replay).toEqual({
+      success: false,
+      message: "This reset link is invalid or has expired",
+    });
+    expect(await passwordMatches(user.id, "new-password")).toBe(true);
+  });
+
+  it("should answer the same for unknown addresses without sending email", async () => {
+    expect(
+      await HybridAuthSystem.requestPasswordReset("nobody@example.com"),
+    ).toEqual(GENERIC_RESPONSE);
+    expect(sendPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it("should replace earlier links when a new one is requested", async () => {
+    const user = await createUser("twice@example.com");
+    const first = await requestToken(user.email);
+    const second = await requestToken(user.email);
+
+    expect(
+      (await HybridAuthSystem.resetPassword(first, "new-password")).success,
+    ).toBe(false);
+    expect(
+      (await HybridAuthSystem.resetPassword(second, "new-password")).success,
+    ).toBe(true);
+  });
+
+  it("should reject expired and malformed tokens", async () => {
+    const user = await createUser("expired@example.com");
+    const token = await requestToken(user.email);
+
+    vi.useFakeTimers({
+      now: Date.now() + 61 * 60 * 1000,
+      toFake: ["Date"],
+    });
+    try {
+      expect(
+        (await HybridAuthSystem.resetPassword(token, "new-password")).success,
+      ).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(
+      (await HybridAuthSystem.resetPassword("not-a-token", "new-password"))
+        .success,
+    ).toBe(false);
+    expect(
+      (await HybridAuthSystem.resetPassword("a".repeat(64), "new-password"))
+        .success,
+    ).toBe(false);
+    expect(await passwordMatches(user.id, "old-password")).toBe(true);
+  });
+});
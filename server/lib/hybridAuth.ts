@@ -1,66 +1,318 @@
-import { RequestHandler } from "express";
-import { AuthResponse, LoginRequest, RegisterRequest, User } from "@shared/api";
-import { z } from "zod";
 import crypto from "crypto";
+import { AuthResponse, LoginRequest, RegisterRequest, User } from "@shared/api";
 import { supabase } from "./supabaseServer";
-
-// Hybrid system that tries Supabase first, falls back to in-memory
+import { BrandConfig, BrandService } from "./brandService";
+import { EmailService } from "./emailService";
+import { hashPassword, verifyPassword } from "./passwords";
+import SessionService, { SessionContext } from "./sessionService";
+import TwoFactorService, {
+  TwoFactorInput,
+  TwoFactorSetup,
+  isTwoFactorRequired,
+} from "./twoFactorService";
+import {
+  getActiveDataStores,
+  getLocalDataStore,
+  getStoreForUser,
+  isSupabaseUserId,
+  toApiUser,
+} from "./storage";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Reset links carry the token; only its hash is stored
+const hashResetToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Hybrid system that tries Supabase first, falls back to the local data store
 class HybridAuthSystem {
-  private static inMemoryUsers: User[] = [];
-  private static userPasswords = new Map<string, string>();
-  private static tokenStorage = new Map<
-    string,
-    { userId: string; expiresAt: number }
-  >();
-  private static userIdCounter = 1;
   private static isSupabaseAvailable = true;
+  private static ready: Promise<void> = Promise.resolve();
 
   // Initialize with default admin user
   static initialize() {
-    const adminUser: User = {
-      id: "1",
-      email: "onboard@admin.com",
-      firstName: "Admin",
-      lastName: "User",
-      title: "Mr",
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    this.ready = this.ensureAdminUser().catch((error) => {
+      console.error("❌ Failed to seed fallback admin user:", error);
+    });
+  }
 
-    this.inMemoryUsers.push(adminUser);
-    this.userPasswords.set(adminUser.id, this.hashPassword("onboardadmin"));
-    this.userIdCounter = 2;
+  private static async ensureAdminUser() {
+    const store = getLocalDataStore();
+    const existing = await store.users.findByEmail("onboard@admin.com");
+
+    if (!existing) {
+      await store.users.create({
+        id: "1",
+        email: "onboard@admin.com",
+        first_name: "Admin",
+        last_name: "User",
+        title: "Mr",
+        roles: ["customer", "admin"],
+        password_hash: await hashPassword("onboardadmin"),
+        email_verified_at: new Date().toISOString(),
+      });
+    } else if (!existing.roles) {
+      // Seeded before roles existed, when admins were recognised by email
+      await store.users.update(existing.id, { roles: ["customer", "admin"] });
+    }
 
     console.log("✅ Hybrid auth system initialized with admin user");
   }
 
-  // Password hashing
-  private static hashPassword(password: string): string {
-    return crypto
-      .createHash("sha256")
-      .update(password + "salt")
-      .digest("hex");
+  // Session management
+  private static async signIn(
+    user: User,
+    message: string,
+    context: SessionContext,
+  ): Promise<AuthResponse> {
+    const { accessToken, refreshToken, expiresAt } =
+      await SessionService.createSession(user, context);
+
+    return {
+      success: true,
+      user,
+      token: accessToken,
+      refreshToken,
+      expiresAt,
+      message,
+    };
   }
 
-  private static verifyPassword(password: string, hash: string): boolean {
-    return this.hashPassword(password) === hash;
+  // Sign in after the password check, unless a 2FA code is still needed
+  private static async completeLogin(
+    user: User,
+    message: string,
+    context: SessionContext,
+  ): Promise<AuthResponse> {
+    const enabled = await TwoFactorService.isEnabled(user.id);
+    if (!enabled && !isTwoFactorRequired(user)) {
+      return this.signIn(user, message, context);
+    }
+
+    return {
+      success: true,
+      twoFactorRequired: true,
+      twoFactorSetupRequired: !enabled,
+      challengeToken: await TwoFactorService.createChallenge(user.id),
+      message: enabled
+        ? "Enter the code from your authenticator app"
+        : "Set up two-factor authentication to continue",
+    };
   }
 
-  // Token management
-  private static generateToken(userId: string): string {
-    const token = crypto.randomBytes(32).toString("hex");
-    const expiresAt = Date.now() + 7 * 24 * 60 * 60 * 1000; // 7 days
-    this.tokenStorage.set(token, { userId, expiresAt });
-    return token;
+  /**
+   * Second sign-in step: swap the challenge token from login and a 2FA code
+   * for a session. Accounts that must enrol first do so here, with a code
+   * for the secret from beginChallengeSetup.
+   */
+  static async completeTwoFactorChallenge(
+    challengeToken: string,
+    input: TwoFactorInput,
+    context: SessionContext = {},
+  ): Promise<AuthResponse & { status?: number }> {
+    const expired = {
+      success: false,
+      status: 401,
+      message: "Your sign-in has expired. Please log in again.",
+    };
+
+    const userId = await TwoFactorService.findChallengeUser(challengeToken);
+    const user = userId ? await this.findUserById(userId) : null;
+    if (!user) {
+      return expired;
+    }
+
+    const result = (await TwoFactorService.isEnabled(user.id))
+      ? await TwoFactorService.verify(user.id, input)
+      : isTwoFactorRequired(user) && input.code
+        ? await TwoFactorService.enable(user, input.code)
+        : { success: false, status: 400, message: "Invalid request" };
+    if (!result.success) {
+      return { success: false, status: result.status, message: result.message };
+    }
+
+    if (!(await TwoFactorService.consumeChallenge(challengeToken, user.id))) {
+      return expired;
+    }
+
+    const response = await this.signIn(user, "Login successful", context);
+    return { ...response, recoveryCodes: result.recoveryCodes };
   }
 
-  static verifyToken(token: string): { userId: string } | null {
-    const tokenData = this.tokenStorage.get(token);
-    if (!tokenData || tokenData.expiresAt < Date.now()) {
-      if (tokenData) this.tokenStorage.delete(token);
+  // A new secret for an account that must enrol 2FA to sign in
+  static async beginChallengeSetup(
+    challengeToken: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<TwoFactorSetup | null> {
+    const userId = await TwoFactorService.findChallengeUser(challengeToken);
+    const user = userId ? await this.findUserById(userId) : null;
+    if (!user || !isTwoFactorRequired(user)) {
       return null;
     }
-    return { userId: tokenData.userId };
+
+    return TwoFactorService.beginSetup(user, brand);
+  }
+
+  static async verifyToken(
+    token: string,
+  ): Promise<{ userId: string; sessionId: string } | null> {
+    const claims = await SessionService.verifyAccessToken(token);
+    return claims ? { userId: claims.sub, sessionId: claims.sid } : null;
+  }
+
+  // Swap a refresh token for a new access and refresh token
+  static async refresh(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
+    const tokens = await SessionService.refreshSession(
+      refreshToken,
+      (userId) => this.findUserById(userId),
+      context,
+    );
+
+    if (!tokens) {
+      return { success: false, message: "Invalid or expired refresh token" };
+    }
+
+    return {
+      success: true,
+      user: tokens.user,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+    };
+  }
+
+  // End the current session, or every session of the user
+  static async logout(
+    userId: string,
+    sessionId: string,
+    allDevices = false,
+  ): Promise<void> {
+    if (allDevices) {
+      await SessionService.revokeAllSessions(userId);
+    } else {
+      await SessionService.revokeSession(userId, sessionId);
+    }
+  }
+
+  /**
+   * Email a password reset link if an account uses this address. Resolves
+   * the same either way, so callers can't probe for accounts.
+   */
+  static async requestPasswordReset(
+    email: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<AuthResponse> {
+    const response: AuthResponse = {
+      success: true,
+      message:
+        "If an account exists for this email, a reset link is on its way",
+    };
+
+    await this.ready;
+    let userRecord = null;
+    for (const store of getActiveDataStores()) {
+      userRecord = await store.users.findByEmail(email);
+      if (userRecord) {
+        break;
+      }
+    }
+    if (!userRecord) {
+      return response;
+    }
+
+    // A new link replaces any earlier one
+    const store = getStoreForUser(userRecord.id);
+    await store.tokens.deleteByUser(userRecord.id, "password_reset");
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await store.tokens.create({
+      token: hashResetToken(token),
+      type: "password_reset",
+      user_id: userRecord.id,
+      email: userRecord.email,
+      expires_at: new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString(),
+    });
+
+    const resetUrl = `${brand.websiteUrl}/reset-password?token=${token}`;
+    const sent = await EmailService.sendPasswordReset(
+      userRecord.email,
+      token,
+      resetUrl,
+      brand,
+    );
+    if (!sent) {
+      console.error(`❌ Failed to send password reset email to ${email}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Set a new password with a reset token. Tokens work once, and every
+   * session of the user is ended so old sign-ins can't outlive the reset.
+   */
+  static async resetPassword(
+    token: string,
+    password: string,
+  ): Promise<AuthResponse> {
+    const invalid: AuthResponse = {
+      success: false,
+      message: "This reset link is invalid or has expired",
+    };
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return invalid;
+    }
+
+    await this.ready;
+    const tokenHash = hashResetToken(token);
+    for (const store of getActiveDataStores()) {
+      const record = await store.tokens.find(tokenHash, "password_reset");
+      if (!record) {
+        continue;
+      }
+
+      if (
+        !record.user_id ||
+        new Date(record.expires_at).getTime() <= Date.now() ||
+        !(await store.tokens.consume(tokenHash))
+      ) {
+        return invalid;
+      }
+
+      const userId = record.user_id;
+      if (store.kind === "supabase" && isSupabaseUserId(userId)) {
+        // Supabase Auth keeps the passwords of its users
+        const { error } = await supabase.auth.admin.updateUserById(userId, {
+          password,
+        });
+        if (error) {
+          console.error("❌ Failed to reset Supabase password:", error);
+          return { success: false, message: "Password reset failed" };
+        }
+      } else {
+        const updated = await store.users.update(userId, {
+          password_hash: await hashPassword(password),
+          updated_at: new Date().toISOString(),
+        });
+        if (!updated) {
+          return invalid;
+        }
+      }
+
+      await store.tokens.deleteByUser(userId, "password_reset");
+      await SessionService.revokeAllSessions(userId);
+      console.log(`🔑 Password reset for ${record.email}`);
+
+      return {
+        success: true,
+        message: "Your password has been reset. Please sign in.",
+      };
+    }
+
+    return invalid;
   }
 
   // Test Supabase availability
@@ -83,7 +335,10 @@ class HybridAuthSystem {
   }
 
   // Register user
-  static async register(userData: RegisterRequest): Promise<AuthResponse> {
+  static async register(
+    userData: RegisterRequest,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
     try {
       const { email, password, firstName, lastName, title } = userData;
 
@@ -117,36 +372,30 @@ class HybridAuthSystem {
             });
 
             if (!userError) {
-              const user: User = {
+              const user: User = toApiUser({
                 id: authData.user.id,
                 email,
-                firstName,
-                lastName,
+                first_name: firstName,
+                last_name: lastName,
                 title,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
-
-              return {
-                success: true,
-                user,
-                token:
-                  authData.session?.access_token || this.generateToken(user.id),
-                message: "Registration successful",
-              };
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+              });
+
+              return this.signIn(user, "Registration successful", context);
             }
           }
         } catch (error) {
           console.log(
-            "Supabase registration failed, falling back to in-memory",
+            "Supabase registration failed, falling back to local store",
           );
         }
       }
 
-      // Fall back to in-memory system
-      const existingUser = this.inMemoryUsers.find(
-        (u) => u.email.toLowerCase() === email.toLowerCase(),
-      );
+      // Fall back to local data store
+      await this.ready;
+      const store = getLocalDataStore();
+      const existingUser = await store.users.findByEmail(email);
       if (existingUser) {
         return {
           success: false,
@@ -154,28 +403,21 @@ class HybridAuthSystem {
         };
       }
 
-      const newUser: User = {
-        id: this.userIdCounter.toString(),
-        email,
-        firstName,
-        lastName,
-        title,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      this.inMemoryUsers.push(newUser);
-      this.userPasswords.set(newUser.id, this.hashPassword(password));
-      this.userIdCounter++;
-
-      const token = this.generateToken(newUser.id);
+      const newUser = toApiUser(
+        await store.users.create({
+          email,
+          first_name: firstName,
+          last_name: lastName,
+          title,
+          password_hash: await hashPassword(password),
+        }),
+      );
 
-      return {
-        success: true,
-        user: newUser,
-        token,
-        message: "Registration successful (using fallback system)",
-      };
+      return this.signIn(
+        newUser,
+        "Registration successful (using fallback system)",
+        context,
+      );
     } catch (error) {
       return {
         success: false,
@@ -185,7 +427,10 @@ class HybridAuthSystem {
   }
 
   // Login user
-  static async login(credentials: LoginRequest): Promise<AuthResponse> {
+  static async login(
+    credentials: LoginRequest,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
     try {
       const { email, password } = credentials;
 
@@ -210,57 +455,46 @@ class HybridAuthSystem {
               .single();
 
             if (!userError && userData) {
-              const user: User = {
-                id: userData.id,
-                email: userData.email,
-                firstName: userData.first_name,
-                lastName: userData.last_name,
-                title: userData.title,
-                createdAt: userData.created_at,
-                updatedAt: userData.updated_at,
-              };
-
-              return {
-                success: true,
-                user,
-                token:
-                  authData.session?.access_token || this.generateToken(user.id),
-                message: "Login successful",
-              };
+              return this.completeLogin(
+                toApiUser(userData),
+                "Login successful",
+                context,
+              );
             }
           }
         } catch (error) {
-          console.log("Supabase login failed, falling back to in-memory");
+          console.log("Supabase login failed, falling back to local store");
         }
       }
 
-      // Fall back to in-memory system
-      const user = this.inMemoryUsers.find(
-        (u) => u.email.toLowerCase() === email.toLowerCase(),
-      );
-      if (!user) {
-        return {
-          success: false,
-          message: "Invalid email or password",
-        };
-      }
+      // Fall back to local data store
+      await this.ready;
+      const store = getLocalDataStore();
+      const userRecord = await store.users.findByEmail(email);
+      const check = userRecord?.password_hash
+        ? await verifyPassword(password, userRecord.password_hash)
+        : null;
 
-      const hashedPassword = this.userPasswords.get(user.id);
-      if (!hashedPassword || !this.verifyPassword(password, hashedPassword)) {
+      if (!check?.valid) {
         return {
           success: false,
           message: "Invalid email or password",
         };
       }
 
-      const token = this.generateToken(user.id);
+      // Upgrade hashes made with an older scheme now that we know the password
+      if (check.needsRehash) {
+        await store.users.update(userRecord.id, {
+          password_hash: await hashPassword(password),
+        });
+        console.log(`🔑 Rehashed the password of ${userRecord.email}`);
+      }
 
-      return {
-        success: true,
-        user,
-        token,
-        message: "Login successful (using fallback system)",
-      };
+      return this.completeLogin(
+        toApiUser(userRecord),
+        "Login successful (using fallback system)",
+        context,
+      );
     } catch (error) {
       return {
         success: false,
@@ -283,23 +517,16 @@ class HybridAuthSystem {
           .single();
 
         if (!error && data) {
-          return {
-            id: data.id,
-            email: data.email,
-            firstName: data.first_name,
-            lastName: data.last_name,
-            title: data.title,
-            createdAt: data.created_at,
-            updatedAt: data.updated_at,
-          };
+          return toApiUser(data);
         }
       } catch (error) {
-        console.log("Supabase user lookup failed, falling back to in-memory");
+        console.log("Supabase user lookup failed, falling back to local store");
       }
     }
 
-    // Fall back to in-memory system
-    return this.inMemoryUsers.find((u) => u.id === id) || null;
+    // Fall back to local data store
+    const userRecord = await getLocalDataStore().users.findById(id);
+    return userRecord ? toApiUser(userRecord) : null;
   }
 }
 
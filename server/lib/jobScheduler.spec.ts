@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JobScheduler } from "./jobScheduler";
+
+describe("JobScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should run jobs on their interval until stopped", async () => {
+    vi.useFakeTimers();
+    const scheduler = new JobScheduler();
+    const run = vi.fn(async () => 2);
+    scheduler.register({ name: "tick", intervalMs: 1000, run });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(scheduler.getStatus()[0]).toMatchObject({
+      runs: 3,
+      processed: 6,
+      nextRunAt: null,
+    });
+  });
+
+  it("should not overlap a run that is still in progress", async () => {
+    const scheduler = new JobScheduler();
+    let finish = () => {};
+    const run = vi.fn(
+      () => new Promise<number>((resolve) => (finish = () => resolve(1))),
+    );
+    scheduler.register({ name: "slow", intervalMs: 1000, run });
+
+    const first = scheduler.runNow("slow");
+    await scheduler.runNow("slow");
+    finish();
+    await first;
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("should count failures without stopping the job", async () => {
+    const scheduler = new JobScheduler();
+    scheduler.register({
+      name: "broken",
+      intervalMs: 1000,
+      run: async () => {
+        throw new Error("Database unavailable");
+      },
+    });
+
+    const status = await scheduler.runNow("broken");
+
+    expect(status).toMatchObject({
+      runs: 1,
+      failures: 1,
+      lastError: "Database unavailable",
+    });
+    expect(await scheduler.runNow("missing")).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * In-process job scheduler
+ * Runs recurring maintenance jobs on a fixed interval inside the Express
+ * process. A job never overlaps with itself: if a run is still in progress
+ * when the next tick fires, that tick is skipped.
+ */
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  // Resolves to the number of records the run processed
+  run: () => Promise<number>;
+  runOnStart?: boolean;
+}
+
+export interface JobStatus {
+  name: string;
+  intervalMs: number;
+  running: boolean;
+  runs: number;
+  failures: number;
+  processed: number;
+  lastRunAt: string | null;
+  lastDurationMs: number | null;
+  lastProcessed: number | null;
+  lastError: string | null;
+  nextRunAt: string | null;
+}
+
+interface ScheduledJob {
+  definition: JobDefinition;
+  status: JobStatus;
+  timer: NodeJS.Timeout | null;
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, ScheduledJob>();
+  private started = false;
+
+  /**
+   * Register a job. Jobs registered after start() are scheduled immediately.
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      console.warn(`⚠️ Job "${definition.name}" is already registered`);
+      return;
+    }
+
+    const job: ScheduledJob = {
+      definition,
+      timer: null,
+      status: {
+        name: definition.name,
+        intervalMs: definition.intervalMs,
+        running: false,
+        runs: 0,
+        failures: 0,
+        processed: 0,
+        lastRunAt: null,
+        lastDurationMs: null,
+        lastProcessed: null,
+        lastError: null,
+        nextRunAt: null,
+      },
+    };
+
+    this.jobs.set(definition.name, job);
+
+    if (this.started) {
+      this.schedule(job);
+    }
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.jobs.forEach((job) => this.schedule(job));
+    console.log(`⏱️ Job scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  stop(): void {
+    this.jobs.forEach((job) => {
+      if (job.timer) {
+        clearInterval(job.timer);
+        job.timer = null;
+      }
+      job.status.nextRunAt = null;
+    });
+    this.started = false;
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   */
+  async runNow(name: string): Promise<JobStatus | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return null;
+    }
+
+    await this.execute(job);
+    return { ...job.status };
+  }
+
+  getStatus(): JobStatus[] {
+    return Array.from(this.jobs.values()).map((job) => ({ ...job.status }));
+  }
+
+  isRunning(): boolean {
+    return this.started;
+  }
+
+  private schedule(job: ScheduledJob): void {
+    const { intervalMs, runOnStart } = job.definition;
+
+    const tick = () => {
+      job.status.nextRunAt = new Date(Date.now() + intervalMs).toISOString();
+      void this.execute(job);
+    };
+
+    job.timer = setInterval(tick, intervalMs);
+    // Never keep the process alive just for maintenance jobs
+    job.timer.unref();
+    job.status.nextRunAt = new Date(Date.now() + intervalMs).toISOString();
+
+    if (runOnStart) {
+      void this.execute(job);
+    }
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    const { status, definition } = job;
+
+    if (status.running) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    status.running = true;
+    status.lastRunAt = new Date(startedAt).toISOString();
+
+    try {
+      const processed = await definition.run();
+      status.lastProcessed = processed;
+      status.processed += processed;
+      status.lastError = null;
+    } catch (error) {
+      status.failures += 1;
+      status.lastProcessed = 0;
+      status.lastError =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Job "${definition.name}" failed:`, error);
+    } finally {
+      status.runs += 1;
+      status.running = false;
+      status.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+}
+
+// Shared scheduler for the server process
+export const jobScheduler = new JobScheduler();
+
+export default jobScheduler;
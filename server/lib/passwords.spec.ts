@@ -0,0 +1,37 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import { hashPassword, verifyPassword } from "./passwords";
+
+describe("passwords", () => {
+  it("verifies scrypt hashes", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(hash.startsWith("scrypt$")).toBe(true);
+    expect(await verifyPassword("correct horse", hash)).toEqual({
+      valid: true,
+      needsRehash: false,
+    });
+    expect((await verifyPassword("wrong horse", hash)).valid).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("accepts legacy hashes and asks for a rehash", async () => {
+    const legacy = crypto
+      .createHash("sha256")
+      .update("old password" + "salt")
+      .digest("hex");
+
+    expect(await verifyPassword("old password", legacy)).toEqual({
+      valid: true,
+      needsRehash: true,
+    });
+    expect((await verifyPassword("other", legacy)).valid).toBe(false);
+  });
+
+  it("rejects malformed hashes", async () => {
+    expect((await verifyPassword("anything", "not-a-hash")).valid).toBe(false);
+  });
+});
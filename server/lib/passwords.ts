@@ -0,0 +1,83 @@
+import crypto from "crypto";
+
+/**
+ * Password hashing
+ * Passwords are hashed with scrypt and a random salt per password, stored
+ * as `scrypt$N$r$p$salt$hash` so the cost can be raised later. Hashes
+ * written before this (unsalted SHA-256 with a fixed suffix) still verify
+ * but report that they need rehashing, so they are upgraded on login.
+ */
+
+const SCRYPT_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const COST = { N: 16384, r: 8, p: 1 };
+
+const LEGACY_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface PasswordCheck {
+  valid: boolean;
+  // The hash uses an old scheme or cost and should be replaced
+  needsRehash: boolean;
+}
+
+const scrypt = (
+  password: string,
+  salt: Buffer,
+  cost: typeof COST,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { ...cost, maxmem: 256 * cost.N * cost.r },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+
+const safeEqual = (a: Buffer, b: Buffer) =>
+  a.length === b.length && crypto.timingSafeEqual(a, b);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, COST);
+  return [
+    SCRYPT_PREFIX,
+    COST.N,
+    COST.r,
+    COST.p,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+};
+
+export const verifyPassword = async (
+  password: string,
+  storedHash: string,
+): Promise<PasswordCheck> => {
+  if (LEGACY_HASH_PATTERN.test(storedHash)) {
+    const legacy = crypto
+      .createHash("sha256")
+      .update(password + "salt")
+      .digest();
+    return {
+      valid: safeEqual(legacy, Buffer.from(storedHash, "hex")),
+      needsRehash: true,
+    };
+  }
+
+  const [prefix, N, r, p, salt, key] = storedHash.split("$");
+  if (prefix !== SCRYPT_PREFIX || !salt || !key) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const cost = { N: Number(N), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(key, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), cost);
+
+  return {
+    valid: safeEqual(actual, expected),
+    needsRehash: cost.N !== COST.N || cost.r !== COST.r || cost.p !== COST.p,
+  };
+};
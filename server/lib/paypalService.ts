@@ -0,0 +1,388 @@
+import { PAYPAL_CURRENCIES } from "../../shared/currency";
+
+// PayPal configuration
+const PAYPAL_CLIENT_ID =
+  process.env.PAYPAL_CLIENT_ID ||
+  "AeA1QIZXlsOl6reI7QjVAXt3CxbgZMOKe-6xB6RHWyYPUtE9JYOk0-l-uSQnf8BL2S1IZKqHNk1TCO5T";
+const PAYPAL_CLIENT_SECRET =
+  process.env.PAYPAL_CLIENT_SECRET || "demo-client-secret";
+
+export interface PayPalRefundData {
+  amount?: number;
+  currency: string;
+  idempotencyKey: string;
+  note?: string;
+}
+
+export interface PayPalOrderData {
+  bookingId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+// Transmission headers PayPal signs every webhook delivery with
+export interface PayPalWebhookHeaders {
+  authAlgo: string;
+  certUrl: string;
+  transmissionId: string;
+  transmissionSig: string;
+  transmissionTime: string;
+}
+
+export interface PayPalAmount {
+  value: string;
+  currency_code: string;
+}
+
+export interface PayPalRefund {
+  id: string;
+  status: "CANCELLED" | "FAILED" | "PENDING" | "COMPLETED";
+  amount?: PayPalAmount;
+}
+
+export class PayPalService {
+  /**
+   * PayPal REST API base URL. PAYPAL_API_BASE_URL overrides the
+   * sandbox/live default, e.g. to point at a local mock server.
+   */
+  static getBaseUrl(): string {
+    if (process.env.PAYPAL_API_BASE_URL) {
+      return process.env.PAYPAL_API_BASE_URL.replace(/\/$/, "");
+    }
+    return process.env.NODE_ENV === "production"
+      ? "https://api-m.paypal.com"
+      : "https://api-m.sandbox.paypal.com";
+  }
+
+  /**
+   * Check if we're in demo mode (no PayPal client configured)
+   */
+  static isDemoMode(): boolean {
+    return !PAYPAL_CLIENT_ID || PAYPAL_CLIENT_ID === "demo-client-id";
+  }
+
+  static supportsCurrency(currency: string): boolean {
+    return (PAYPAL_CURRENCIES as string[]).includes(currency.toUpperCase());
+  }
+
+  /**
+   * Orders created in demo mode never reach PayPal
+   */
+  static isDemoOrderId(orderId: string): boolean {
+    return (
+      orderId.startsWith("mock_order_") || orderId.startsWith("demo_order_")
+    );
+  }
+
+  /**
+   * Get an OAuth access token
+   */
+  static async getAccessToken(): Promise<string> {
+    try {
+      const auth = Buffer.from(
+        `${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`,
+      ).toString("base64");
+
+      console.log("Getting PayPal access token...");
+      const response = await fetch(`${this.getBaseUrl()}/v1/oauth2/token`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(
+          "PayPal token request failed:",
+          response.status,
+          errorText,
+        );
+        throw new Error(
+          `Failed to get PayPal access token: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const data = await response.json();
+      console.log("PayPal access token obtained successfully");
+      return data.access_token;
+    } catch (error) {
+      console.error("Error getting PayPal access token:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve an order
+   */
+  static async getOrder(orderId: string): Promise<any> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `${this.getBaseUrl()}/v2/checkout/orders/${orderId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to retrieve PayPal order ${orderId}: ${response.status}`,
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Create a CAPTURE order for a booking
+   */
+  static async createOrder(data: PayPalOrderData): Promise<any> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(`${this.getBaseUrl()}/v2/checkout/orders`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        intent: "CAPTURE",
+        purchase_units: [
+          {
+            reference_id: data.bookingId,
+            custom_id: data.bookingId,
+            amount: {
+              currency_code: data.currency,
+              value: data.amount.toString(),
+            },
+            description: data.description,
+          },
+        ],
+        application_context: {
+          brand_name: "OnboardTicket",
+          landing_page: "NO_PREFERENCE",
+          user_action: "PAY_NOW",
+          return_url: data.returnUrl,
+          cancel_url: data.cancelUrl,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to create PayPal order");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Capture an approved order. The order ID is sent as PayPal-Request-Id so
+   * the browser return and the webhook can both capture without charging
+   * twice.
+   */
+  static async captureOrder(orderId: string): Promise<any> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `${this.getBaseUrl()}/v2/checkout/orders/${orderId}/capture`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+          "PayPal-Request-Id": `capture_${orderId}`,
+        },
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("PayPal capture failed:", response.status, errorText);
+      throw new Error("Failed to capture PayPal payment");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * ID of the webhook registered in the PayPal dashboard; required to
+   * verify deliveries
+   */
+  static getWebhookId(): string | null {
+    return process.env.PAYPAL_WEBHOOK_ID || null;
+  }
+
+  /**
+   * Verify a webhook delivery with PayPal's verify-webhook-signature API
+   */
+  static async verifyWebhookSignature(
+    headers: PayPalWebhookHeaders,
+    event: unknown,
+  ): Promise<boolean> {
+    const webhookId = this.getWebhookId();
+    if (!webhookId) {
+      throw new Error(
+        "PayPal webhooks are not configured. Please set PAYPAL_WEBHOOK_ID environment variable.",
+      );
+    }
+
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `${this.getBaseUrl()}/v1/notifications/verify-webhook-signature`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          auth_algo: headers.authAlgo,
+          cert_url: headers.certUrl,
+          transmission_id: headers.transmissionId,
+          transmission_sig: headers.transmissionSig,
+          transmission_time: headers.transmissionTime,
+          webhook_id: webhookId,
+          webhook_event: event,
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      console.error(
+        "PayPal webhook verification request failed:",
+        response.status,
+      );
+      return false;
+    }
+
+    const result = await response.json();
+    return result.verification_status === "SUCCESS";
+  }
+
+  /**
+   * Check an order was approved (or already captured) by the payer
+   */
+  static isApprovedBy(order: any, payerId: string): boolean {
+    return (
+      (order?.status === "APPROVED" || order?.status === "COMPLETED") &&
+      order.payer?.payer_id === payerId
+    );
+  }
+
+  /**
+   * Why an order's purchase unit or a capture can't pay for a booking, or
+   * null when it can. Both carry the booking ID as custom_id and must be
+   * for the booking's total and currency.
+   */
+  static checkPurchaseForBooking(
+    purchase: { custom_id?: string; amount?: PayPalAmount } | undefined,
+    booking: { id: string; total_amount: number; currency?: string | null },
+  ): string | null {
+    if (purchase?.custom_id !== booking.id) {
+      return "Payment was made for a different booking";
+    }
+
+    if (
+      !purchase.amount ||
+      Math.round(Number(purchase.amount.value) * 100) !==
+        Math.round(booking.total_amount * 100) ||
+      purchase.amount.currency_code?.toUpperCase() !==
+        (booking.currency || "USD").toUpperCase()
+    ) {
+      return "Payment amount does not match the booking total";
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the capture ID of a captured order; refunds are issued per capture
+   */
+  static async getCaptureId(orderId: string): Promise<string | null> {
+    const order = await this.getOrder(orderId);
+    const capture = order.purchase_units?.[0]?.payments?.captures?.[0];
+    return capture?.id || null;
+  }
+
+  /**
+   * Retrieve a capture; its related order ID links it to a transaction
+   */
+  static async getCapture(captureId: string): Promise<any> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `${this.getBaseUrl()}/v2/payments/captures/${captureId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to retrieve PayPal capture ${captureId}: ${response.status}`,
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Refund a captured payment. Omitting the amount refunds the full capture.
+   * The idempotency key is sent as PayPal-Request-Id so retries never
+   * refund twice.
+   */
+  static async refundCapture(
+    captureId: string,
+    data: PayPalRefundData,
+  ): Promise<PayPalRefund> {
+    const accessToken = await this.getAccessToken();
+
+    const body: Record<string, any> = {};
+    if (data.amount) {
+      body.amount = {
+        value: data.amount.toFixed(2),
+        currency_code: data.currency.toUpperCase(),
+      };
+    }
+    if (data.note) {
+      body.note_to_payer = data.note.slice(0, 255);
+    }
+
+    const response = await fetch(
+      `${this.getBaseUrl()}/v2/payments/captures/${captureId}/refund`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+          "PayPal-Request-Id": data.idempotencyKey,
+          Prefer: "return=representation",
+        },
+        body: JSON.stringify(body),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("PayPal refund failed:", response.status, errorText);
+      throw new Error(`PayPal refund failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
+
+export default PayPalService;
@@ -0,0 +1,119 @@
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import PromoService, { PromoContext } from "./promoService";
+import { BookingRecord, NewPromoCode } from "./storage";
+import { FileDataStore } from "./storage/fileStore";
+
+const context: PromoContext = {
+  route: { fromCode: "LOS", toCode: "LHR" },
+  passengerCount: 2,
+  currency: "USD",
+  serviceFee: 30,
+  email: "ada@example.com",
+};
+
+const promoFields: NewPromoCode = {
+  code: "SUMMER",
+  description: null,
+  discount_type: "percentage",
+  discount_value: 50,
+  max_redemptions: null,
+  per_user_limit: null,
+  valid_from: null,
+  valid_until: null,
+  min_passengers: null,
+  routes: null,
+  active: true,
+  created_by: null,
+};
+
+const booking = (id: string, email = "ada@example.com") =>
+  ({
+    id,
+    pnr: id.toUpperCase(),
+    contact_email: email,
+    currency: "USD",
+    discount_amount: 15,
+    promo_code: "SUMMER",
+  }) as BookingRecord;
+
+describe("PromoService", () => {
+  let store: FileDataStore;
+
+  beforeEach(() => {
+    store = new FileDataStore(
+      path.join(os.tmpdir(), `promo-spec-${Date.now()}-${Math.random()}.json`),
+    );
+  });
+
+  const createPromo = (fields: Partial<NewPromoCode> = {}) =>
+    store.promoCodes.create({ ...promoFields, ...fields });
+
+  it("should discount a percentage of the service fee", async () => {
+    await createPromo();
+
+    const result = await PromoService.check("summer", context, { store });
+
+    expect(result.valid).toBe(true);
+    expect(result.discount).toBe(15);
+  });
+
+  it("should never discount more than the service fee", async () => {
+    const promo = await createPromo({ discount_value: 100 });
+
+    expect(await PromoService.calculateDiscount(promo, 30, "USD")).toBe(30);
+  });
+
+  it("should reject codes outside their route and date limits", async () => {
+    await createPromo({ code: "LONDON", routes: ["*-CDG"] });
+    await createPromo({
+      code: "OLD",
+      valid_until: new Date(Date.now() - 60_000).toISOString(),
+    });
+
+    expect((await PromoService.check("LONDON", context, { store })).error).toBe(
+      "route",
+    );
+    expect((await PromoService.check("OLD", context, { store })).error).toBe(
+      "expired",
+    );
+    expect(
+      (await PromoService.check("MISSING", context, { store })).error,
+    ).toBe("not_found");
+  });
+
+  it("should enforce redemption limits until a booking releases its code", async () => {
+    const promo = await createPromo({ max_redemptions: 2, per_user_limit: 1 });
+
+    await PromoService.redeem(promo, booking("bk1"), null, store);
+
+    expect((await PromoService.check("SUMMER", context, { store })).error).toBe(
+      "user_limit",
+    );
+    expect(
+      (
+        await PromoService.check("SUMMER", context, {
+          store,
+          enforceLimits: false,
+        })
+      ).valid,
+    ).toBe(true);
+
+    await PromoService.redeem(
+      promo,
+      booking("bk2", "grace@example.com"),
+      null,
+      store,
+    );
+    const other = { ...context, email: "alan@example.com" };
+    expect((await PromoService.check("SUMMER", other, { store })).error).toBe(
+      "exhausted",
+    );
+
+    await PromoService.release(booking("bk2"), store);
+    expect((await PromoService.check("SUMMER", other, { store })).valid).toBe(
+      true,
+    );
+  });
+});
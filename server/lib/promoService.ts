@@ -0,0 +1,224 @@
+import { Quote } from "@shared/api";
+import { BASE_CURRENCY, CurrencyCode, roundMoney } from "../../shared/currency";
+import CurrencyService from "./currencyService";
+import {
+  BookingRecord,
+  DataStore,
+  PromoCodeRecord,
+  getDataStore,
+} from "./storage";
+
+export type PromoRejection =
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "min_passengers"
+  | "route"
+  | "exhausted"
+  | "user_limit";
+
+// The booking a promo code is being applied to
+export interface PromoContext {
+  route: { fromCode: string; toCode: string };
+  passengerCount: number;
+  currency: CurrencyCode;
+  // Total service fee for the booking, in `currency`
+  serviceFee: number;
+  userId?: string | null;
+  email?: string | null;
+}
+
+export interface PromoCheck {
+  valid: boolean;
+  promo?: PromoCodeRecord;
+  discount?: number;
+  error?: PromoRejection;
+  message?: string;
+}
+
+const reject = (error: PromoRejection, message: string): PromoCheck => ({
+  valid: false,
+  error,
+  message,
+});
+
+const matchesRoute = (pattern: string, fromCode: string, toCode: string) => {
+  const [from, to] = pattern.toUpperCase().split("-");
+  return (
+    (from === "*" || from === fromCode.toUpperCase()) &&
+    (to === "*" || to === toCode.toUpperCase())
+  );
+};
+
+/**
+ * Promo codes discount the service fee of a booking. Quotes only check
+ * that a code applies to the booking; redemption limits are enforced when
+ * the booking is created, which is also when a redemption is recorded.
+ * Promo codes and redemptions always live in the selected store so limits
+ * hold across local and Supabase bookings.
+ */
+export class PromoService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static async check(
+    code: string,
+    context: PromoContext,
+    {
+      enforceLimits = true,
+      store = getDataStore(),
+    }: { enforceLimits?: boolean; store?: DataStore } = {},
+  ): Promise<PromoCheck> {
+    const promo = await store.promoCodes.findByCode(
+      PromoService.normalizeCode(code),
+    );
+
+    if (!promo) {
+      return reject("not_found", "Promo code not found");
+    }
+
+    if (!promo.active) {
+      return reject("inactive", "This promo code is no longer active");
+    }
+
+    const now = Date.now();
+    if (promo.valid_from && new Date(promo.valid_from).getTime() > now) {
+      return reject("not_started", "This promo code is not valid yet");
+    }
+    if (promo.valid_until && new Date(promo.valid_until).getTime() < now) {
+      return reject("expired", "This promo code has expired");
+    }
+
+    if (promo.min_passengers && context.passengerCount < promo.min_passengers) {
+      return reject(
+        "min_passengers",
+        `This promo code requires at least ${promo.min_passengers} passengers`,
+      );
+    }
+
+    if (
+      promo.routes?.length &&
+      !promo.routes.some((pattern) =>
+        matchesRoute(pattern, context.route.fromCode, context.route.toCode),
+      )
+    ) {
+      return reject("route", "This promo code is not valid for this route");
+    }
+
+    if (enforceLimits) {
+      const redemptions = await store.promoRedemptions.listByPromoCode(
+        promo.id,
+      );
+
+      if (
+        promo.max_redemptions !== null &&
+        redemptions.length >= promo.max_redemptions
+      ) {
+        return reject("exhausted", "This promo code has been fully redeemed");
+      }
+
+      if (promo.per_user_limit !== null) {
+        const email = context.email?.toLowerCase();
+        const used = redemptions.filter(
+          (redemption) =>
+            (context.userId && redemption.user_id === context.userId) ||
+            (email && redemption.email.toLowerCase() === email),
+        ).length;
+
+        if (used >= promo.per_user_limit) {
+          return reject(
+            "user_limit",
+            "You have already used this promo code the maximum number of times",
+          );
+        }
+      }
+    }
+
+    return {
+      valid: true,
+      promo,
+      discount: await PromoService.calculateDiscount(
+        promo,
+        context.serviceFee,
+        context.currency,
+      ),
+    };
+  }
+
+  /**
+   * Re-check a quote's promo code, including redemption limits, before a
+   * booking is created from it
+   */
+  static async checkQuote(
+    quote: Quote,
+    customer: { userId?: string | null; email?: string | null },
+  ): Promise<PromoCheck> {
+    if (!quote.promoCode) {
+      return { valid: true };
+    }
+
+    return PromoService.check(quote.promoCode, {
+      route: { fromCode: quote.route.fromCode, toCode: quote.route.toCode },
+      passengerCount: quote.passengerCount,
+      currency: CurrencyService.normalizeCurrency(quote.currency),
+      serviceFee: quote.serviceFee,
+      ...customer,
+    });
+  }
+
+  /**
+   * Discount off the service fee. Fixed amounts are defined in USD and
+   * converted; no discount exceeds the fee itself.
+   */
+  static async calculateDiscount(
+    promo: PromoCodeRecord,
+    serviceFee: number,
+    currency: CurrencyCode,
+  ): Promise<number> {
+    const value = Number(promo.discount_value);
+    const discount =
+      promo.discount_type === "percentage"
+        ? (serviceFee * Math.min(value, 100)) / 100
+        : await CurrencyService.convert(value, BASE_CURRENCY, currency);
+
+    return roundMoney(Math.min(discount, serviceFee));
+  }
+
+  /**
+   * Record that a booking used its promo code
+   */
+  static async redeem(
+    promo: PromoCodeRecord,
+    booking: BookingRecord,
+    userId: string | null,
+    store: DataStore = getDataStore(),
+  ): Promise<void> {
+    await store.promoRedemptions.create({
+      promo_code_id: promo.id,
+      booking_id: booking.id,
+      user_id: userId,
+      email: booking.contact_email,
+      discount_amount: booking.discount_amount || 0,
+      currency: booking.currency,
+    });
+
+    console.log(`🏷️ Promo code ${promo.code} redeemed by ${booking.pnr}`);
+  }
+
+  /**
+   * Give a cancelled or expired booking's redemption back
+   */
+  static async release(
+    booking: BookingRecord,
+    store: DataStore = getDataStore(),
+  ): Promise<void> {
+    await store.promoRedemptions.deleteByBooking(booking.id);
+    console.log(
+      `🏷️ Promo code ${booking.promo_code} released by ${booking.pnr}`,
+    );
+  }
+}
+
+export default PromoService;
@@ -0,0 +1,177 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { QuoteRequest } from "@shared/api";
+import { MockFlightProvider, signOffer } from "./flightProviders";
+import QuoteService from "./quoteService";
+import SeatMapService from "./seatMapService";
+
+const request: QuoteRequest = {
+  route: {
+    from: { code: "lhr" },
+    to: { code: "JFK" },
+    departureDate: "2030-05-01",
+    tripType: "oneway",
+  },
+  passengerCount: 2,
+};
+
+const booking = {
+  route: {
+    from: { code: "LHR" },
+    to: { code: "JFK" },
+    departureDate: "2030-05-01",
+    tripType: "oneway" as const,
+  },
+  passengerCount: 2,
+};
+
+const searchOffer = async () => {
+  const [offer] = await new MockFlightProvider().searchFlightOffers({
+    originLocationCode: "LHR",
+    destinationLocationCode: "JFK",
+    departureDate: "2030-05-01",
+    adults: 2,
+  });
+  return signOffer(offer);
+};
+
+const createQuote = async () => {
+  const result = await QuoteService.createQuote(request);
+  expect(result.success).toBe(true);
+  return result.quote!;
+};
+
+describe("QuoteService", () => {
+  beforeAll(() => {
+    process.env.QUOTE_SIGNING_SECRET = "quote-spec-secret";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should price the service fee per passenger", async () => {
+    const quote = await createQuote();
+
+    expect(quote.serviceFee).toBe((await QuoteService.getServiceFee()) * 2);
+    expect(quote.currency).toBe("USD");
+    expect(quote.total).toBe(quote.serviceFee + quote.fare + quote.taxes);
+    expect(quote.route.fromCode).toBe("LHR");
+  });
+
+  it("should accept an untouched quote for the same booking", async () => {
+    const quote = await createQuote();
+    const result = QuoteService.resolveForBooking(quote.id, booking);
+
+    expect(result.success).toBe(true);
+    expect(result.quote?.total).toBe(quote.total);
+  });
+
+  it("should reject a quote whose amounts were edited", async () => {
+    const quote = await createQuote();
+    const [payload, signature] = quote.id.split(".");
+    const tampered = JSON.parse(Buffer.from(payload, "base64url").toString());
+    tampered.total = 0.01;
+    const forged = `${Buffer.from(JSON.stringify(tampered)).toString("base64url")}.${signature}`;
+
+    expect(QuoteService.verifyQuote(forged)).toEqual({
+      valid: false,
+      reason: "invalid",
+    });
+  });
+
+  it("should reject expired quotes for new bookings only", async () => {
+    const quote = await createQuote();
+    vi.useFakeTimers();
+    vi.setSystemTime(
+      Date.now() + (QuoteService.getTtlMinutes() + 1) * 60 * 1000,
+    );
+
+    expect(QuoteService.resolveForBooking(quote.id, booking).error).toBe(
+      "expired",
+    );
+    expect(
+      QuoteService.verifyQuote(quote.id, { allowExpired: true }).valid,
+    ).toBe(true);
+  });
+
+  it("should reject a quote for a different passenger count", async () => {
+    const quote = await createQuote();
+    const result = QuoteService.resolveForBooking(quote.id, {
+      ...booking,
+      passengerCount: 3,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("invalid_request");
+  });
+
+  it("should add seat fees to the total", async () => {
+    const { seatMaps } = await SeatMapService.getSeatMaps(request);
+    const seat = seatMaps[0].decks[0].seats.find(
+      (candidate) => candidate.available && candidate.price > 0,
+    );
+    const result = await QuoteService.createQuote({
+      ...request,
+      seats: [{ segmentId: "1", passengerIndex: 1, seatNumber: seat.number }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.quote?.seatFees).toBe(seat.price);
+    expect(result.quote?.total).toBe(result.quote!.serviceFee + seat.price);
+    expect(QuoteService.getPassengerSeats(result.quote!, 1)).toEqual([
+      { segmentId: "1", seatNumber: seat.number },
+    ]);
+    expect(
+      QuoteService.resolveForBooking(result.quote!.id, {
+        ...booking,
+        seats: [],
+      }).message,
+    ).toBe("Quote does not match the selected seats");
+  });
+
+  it("should only accept the flight offer that was quoted", async () => {
+    const offer = await searchOffer();
+    const result = await QuoteService.createQuote({
+      ...request,
+      selectedFlight: offer,
+    });
+    expect(result.success).toBe(true);
+
+    const quoteId = result.quote!.id;
+    expect(
+      QuoteService.resolveForBooking(quoteId, {
+        ...booking,
+        selectedFlight: JSON.parse(JSON.stringify(offer)),
+      }).success,
+    ).toBe(true);
+
+    // Same offer ID, different flight
+    const swapped = structuredClone(offer);
+    swapped.itineraries[0].segments[0].departure.at = "2030-05-02T09:00:00";
+    expect(
+      QuoteService.resolveForBooking(quoteId, {
+        ...booking,
+        selectedFlight: swapped,
+      }).message,
+    ).toBe("Quote does not match the selected flight");
+  });
+
+  it("should only quote offers signed by the server", async () => {
+    const offer = await searchOffer();
+    const { signature, ...unsigned } = offer;
+
+    const missing = await QuoteService.createQuote({
+      ...request,
+      selectedFlight: unsigned,
+    });
+    expect(missing.success).toBe(false);
+    expect(missing.error).toBe("invalid_request");
+
+    // Claiming another provider breaks the signature
+    const relabelled = await QuoteService.createQuote({
+      ...request,
+      selectedFlight: { ...offer, provider: "amadeus", signature },
+    });
+    expect(relabelled.success).toBe(false);
+  });
+});
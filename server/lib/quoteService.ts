@@ -0,0 +1,484 @@
+import crypto from "crypto";
+import {
+  FlightOffer,
+  Quote,
+  QuoteRequest,
+  QuotedSeat,
+  SeatAssignment,
+  SeatSelection,
+} from "@shared/api";
+import { BASE_CURRENCY, CurrencyCode, roundMoney } from "../../shared/currency";
+import { getOfferHash, getOfferProvider } from "./flightProviders";
+import CurrencyService from "./currencyService";
+import PromoService from "./promoService";
+import SeatMapService from "./seatMapService";
+import { BookingRecord, DataStore } from "./storage";
+
+const DEFAULT_TTL_MINUTES = 30;
+
+export interface QuoteResult {
+  success: boolean;
+  quote?: Quote;
+  error?: "invalid_request" | "expired" | "unavailable";
+  message?: string;
+}
+
+export interface RequoteResult {
+  success: boolean;
+  booking?: BookingRecord;
+  error?: QuoteResult["error"] | "not_pending";
+  message?: string;
+}
+
+export interface QuoteVerification {
+  valid: boolean;
+  quote?: Quote;
+  reason?: "invalid" | "expired";
+}
+
+// What a booking request must agree with before a quote can price it
+export interface QuotedBooking {
+  route: QuoteRequest["route"];
+  passengerCount: number;
+  selectedFlight?: FlightOffer | null;
+  // Checked only when given; new bookings take their seats from the quote
+  seats?: SeatSelection[];
+}
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Quotes have to be accepted by every instance and survive restarts, so
+// there is no generated fallback
+export const getQuoteSigningSecret = (): string => {
+  if (!process.env.QUOTE_SIGNING_SECRET) {
+    throw new Error("QUOTE_SIGNING_SECRET is not set");
+  }
+  return process.env.QUOTE_SIGNING_SECRET;
+};
+
+const seatKeys = (seats: SeatSelection[]) =>
+  seats
+    .map(
+      (seat) => `${seat.segmentId}:${seat.passengerIndex}:${seat.seatNumber}`,
+    )
+    .sort()
+    .join(",");
+
+const sign = (payload: string) =>
+  crypto
+    .createHmac("sha256", getQuoteSigningSecret())
+    .update(payload)
+    .digest("base64url");
+
+/**
+ * Prices bookings on the server. A quote covers the per-passenger service
+ * fee, less any promo discount, plus, when a flight offer was selected,
+ * the fare and taxes its flight provider confirms for it, and the fees of any seats
+ * picked from the seat maps, all in the currency the
+ * customer pays in. Quotes are HMAC-signed and carry their own expiry, so a
+ * booking can be charged exactly what was quoted without trusting amounts
+ * sent by the browser.
+ */
+export class QuoteService {
+  /**
+   * Throw unless QUOTE_SIGNING_SECRET is set. Called at startup so a
+   * missing secret stops the server instead of failing every checkout.
+   */
+  static requireSigningSecret(): void {
+    getQuoteSigningSecret();
+  }
+
+  static async getServiceFee(
+    currency: CurrencyCode = BASE_CURRENCY,
+  ): Promise<number> {
+    return (await CurrencyService.getRate(currency)).serviceFee;
+  }
+
+  static getTtlMinutes(): number {
+    return readPositiveNumber(
+      process.env.QUOTE_TTL_MINUTES,
+      DEFAULT_TTL_MINUTES,
+    );
+  }
+
+  static async createQuote(request: QuoteRequest): Promise<QuoteResult> {
+    const { route, passengerCount, selectedFlight } = request;
+    const currency = CurrencyService.normalizeCurrency(
+      request.currency || BASE_CURRENCY,
+    );
+
+    let fare = 0;
+    let taxes = 0;
+
+    // Only offers this server returned from a search can be quoted; their
+    // signature tells which provider they came from
+    const provider = selectedFlight && getOfferProvider(selectedFlight);
+    if (selectedFlight && !provider) {
+      return {
+        success: false,
+        error: "invalid_request",
+        message: "Unknown flight offer. Please search again.",
+      };
+    }
+
+    // Offers from live providers are re-priced and charged; for sample
+    // flights the quote covers the reservation service alone
+    if (provider?.live) {
+      try {
+        if (!provider.isAvailable()) {
+          throw new Error(`${provider.name} is not available`);
+        }
+
+        const offer = await provider.priceFlightOffer(selectedFlight);
+        const total = parseFloat(
+          offer?.price?.grandTotal || offer?.price?.total,
+        );
+        const base = offer?.price?.base ? parseFloat(offer.price.base) : total;
+
+        if (!Number.isFinite(total) || !Number.isFinite(base)) {
+          throw new Error(`${provider.name} returned no price for the offer`);
+        }
+
+        // Offers are priced for the travellers searched; scale to the
+        // passengers actually booked, then into the payment currency
+        const travellers = offer.travelerPricings?.length || 1;
+        const offerCurrency = offer.price.currency || BASE_CURRENCY;
+        fare = await CurrencyService.convert(
+          (base / travellers) * passengerCount,
+          offerCurrency,
+          currency,
+        );
+        taxes = await CurrencyService.convert(
+          ((total - base) / travellers) * passengerCount,
+          offerCurrency,
+          currency,
+        );
+      } catch (error) {
+        console.error("Flight re-pricing failed:", error);
+        return {
+          success: false,
+          error: "unavailable",
+          message:
+            "The selected flight is no longer available at this price. Please search again.",
+        };
+      }
+    }
+
+    const seatPricing = await SeatMapService.priceSeats(
+      { route, selectedFlight },
+      passengerCount,
+      request.seats || [],
+    );
+    if (!seatPricing.success) {
+      return {
+        success: false,
+        error: seatPricing.error,
+        message: seatPricing.message,
+      };
+    }
+
+    const seats: QuotedSeat[] = await Promise.all(
+      seatPricing.seats.map(async ({ currency: seatCurrency, ...seat }) => ({
+        ...seat,
+        price: await CurrencyService.convert(
+          seat.price,
+          seatCurrency,
+          currency,
+        ),
+      })),
+    );
+    const seatFees = roundMoney(
+      seats.reduce((total, seat) => total + seat.price, 0),
+    );
+
+    const serviceFee = roundMoney(
+      (await QuoteService.getServiceFee(currency)) * passengerCount,
+    );
+    const fromCode = route.from.code.toUpperCase();
+    const toCode = route.to.code.toUpperCase();
+
+    let discount = 0;
+    let promoCode: string | null = null;
+
+    if (request.promoCode) {
+      const promo = await PromoService.check(
+        request.promoCode,
+        {
+          route: { fromCode, toCode },
+          passengerCount,
+          currency,
+          serviceFee,
+        },
+        { enforceLimits: false },
+      );
+
+      if (!promo.valid) {
+        return {
+          success: false,
+          error: "invalid_request",
+          message: promo.message,
+        };
+      }
+
+      discount = promo.discount;
+      promoCode = promo.promo.code;
+    }
+
+    const createdAt = new Date();
+    const expiresAt = new Date(
+      createdAt.getTime() + QuoteService.getTtlMinutes() * 60 * 1000,
+    );
+
+    const quote: Omit<Quote, "id"> = {
+      route: {
+        fromCode,
+        toCode,
+        departureDate: route.departureDate,
+        returnDate: route.returnDate || null,
+        tripType: route.tripType,
+      },
+      passengerCount,
+      flightOfferId: selectedFlight?.id || null,
+      flightOfferHash: selectedFlight ? getOfferHash(selectedFlight) : null,
+      currency,
+      serviceFee,
+      fare,
+      taxes,
+      discount,
+      promoCode,
+      seatFees,
+      seats,
+      total: roundMoney(serviceFee - discount + fare + taxes + seatFees),
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    const payload = Buffer.from(JSON.stringify(quote)).toString("base64url");
+
+    return {
+      success: true,
+      quote: { id: `${payload}.${sign(payload)}`, ...quote },
+    };
+  }
+
+  /**
+   * Check a quote ID's signature and, unless allowExpired is set, its expiry
+   */
+  static verifyQuote(
+    quoteId: string,
+    { allowExpired = false }: { allowExpired?: boolean } = {},
+  ): QuoteVerification {
+    const [payload, signature, ...rest] = quoteId.split(".");
+    if (!payload || !signature || rest.length > 0) {
+      return { valid: false, reason: "invalid" };
+    }
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return { valid: false, reason: "invalid" };
+    }
+
+    let quote: Omit<Quote, "id">;
+    try {
+      quote = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+      return { valid: false, reason: "invalid" };
+    }
+
+    if (!allowExpired && new Date(quote.expiresAt).getTime() < Date.now()) {
+      return { valid: false, reason: "expired" };
+    }
+
+    return { valid: true, quote: { id: quoteId, ...quote } };
+  }
+
+  /**
+   * Resolve the quote a new booking is charged from. The quote must be
+   * unexpired and match the booking's route, passengers and flight.
+   */
+  static resolveForBooking(
+    quoteId: string,
+    booking: QuotedBooking,
+  ): QuoteResult {
+    const verification = QuoteService.verifyQuote(quoteId);
+
+    if (!verification.valid) {
+      return verification.reason === "expired"
+        ? {
+            success: false,
+            error: "expired",
+            message: "Quote has expired. Please review the new price.",
+          }
+        : {
+            success: false,
+            error: "invalid_request",
+            message: "Invalid quote",
+          };
+    }
+
+    const mismatch = QuoteService.findMismatch(verification.quote, booking);
+    if (mismatch) {
+      return { success: false, error: "invalid_request", message: mismatch };
+    }
+
+    return { success: true, quote: verification.quote };
+  }
+
+  /**
+   * Resolve a replacement quote for an unpaid booking, e.g. after the
+   * customer switches currency. The new quote must price the same route,
+   * passengers and seats as the quote the booking was created from, and
+   * the flight offer the booking holds.
+   */
+  static resolveRequote(quoteId: string, booking: BookingRecord): QuoteResult {
+    const current = booking.quote_id
+      ? QuoteService.verifyQuote(booking.quote_id, { allowExpired: true })
+      : null;
+
+    if (!current?.valid) {
+      return {
+        success: false,
+        error: "invalid_request",
+        message: "Booking was not created from a quote",
+      };
+    }
+
+    const { quote } = current;
+    return QuoteService.resolveForBooking(quoteId, {
+      route: {
+        from: { code: quote.route.fromCode },
+        to: { code: quote.route.toCode },
+        departureDate: quote.route.departureDate,
+        returnDate: quote.route.returnDate || undefined,
+        tripType: quote.route.tripType,
+      },
+      passengerCount: quote.passengerCount,
+      selectedFlight: booking.selected_flight || null,
+      seats: quote.seats || [],
+    });
+  }
+
+  /**
+   * Re-price an unpaid booking from a replacement quote. The ticket is
+   * cleared so it is reissued in the new currency once the booking is paid.
+   * The promo code can't change, as its redemption was recorded at booking.
+   */
+  static async applyRequote(
+    store: DataStore,
+    booking: BookingRecord,
+    quoteId: string,
+  ): Promise<RequoteResult> {
+    if (booking.status !== "pending") {
+      return {
+        success: false,
+        error: "not_pending",
+        message: `Cannot change the price of a ${booking.status} booking`,
+      };
+    }
+
+    const result = QuoteService.resolveRequote(quoteId, booking);
+    if (!result.success || !result.quote) {
+      return { success: false, error: result.error, message: result.message };
+    }
+
+    const { quote } = result;
+    if (quote.promoCode !== (booking.promo_code || null)) {
+      return {
+        success: false,
+        error: "invalid_request",
+        message: "Quote does not apply this booking's promo code",
+      };
+    }
+
+    const updated = await store.bookings.update(booking.id, {
+      total_amount: quote.total,
+      currency: quote.currency,
+      discount_amount: quote.discount,
+      quote_id: quote.id,
+      ticket_url: null,
+    });
+
+    console.log(
+      `💱 Booking ${booking.pnr} re-priced at ${quote.total} ${quote.currency}`,
+    );
+
+    return { success: true, booking: updated || booking };
+  }
+
+  /**
+   * Seats a quote holds for one of the booking's passengers
+   */
+  static getPassengerSeats(
+    quote: Quote,
+    passengerIndex: number,
+  ): SeatAssignment[] {
+    return (quote.seats || [])
+      .filter((seat) => seat.passengerIndex === passengerIndex)
+      .map(({ segmentId, seatNumber }) => ({ segmentId, seatNumber }));
+  }
+
+  /**
+   * Check that a payment request names the quote its booking was charged
+   * from. The booking hold, not the quote expiry, limits how long the
+   * booking can be paid.
+   */
+  static isBookingQuote(quoteId: string, booking: BookingRecord): boolean {
+    return (
+      !!booking.quote_id &&
+      booking.quote_id === quoteId &&
+      QuoteService.verifyQuote(quoteId, { allowExpired: true }).valid
+    );
+  }
+
+  /**
+   * Describe how a booking request differs from what was quoted, or null
+   * when the quote covers it
+   */
+  static findMismatch(quote: Quote, booking: QuotedBooking): string | null {
+    const { route } = booking;
+
+    if (
+      quote.route.fromCode !== route.from.code.toUpperCase() ||
+      quote.route.toCode !== route.to.code.toUpperCase() ||
+      quote.route.departureDate !== route.departureDate ||
+      quote.route.returnDate !== (route.returnDate || null) ||
+      quote.route.tripType !== route.tripType
+    ) {
+      return "Quote does not match the selected route";
+    }
+
+    if (quote.passengerCount !== booking.passengerCount) {
+      return "Quote does not match the number of passengers";
+    }
+
+    // The offer itself is compared, not just its ID: IDs are only unique
+    // per search, and the rest of the offer would otherwise be unchecked
+    const offerHash = booking.selectedFlight
+      ? getOfferHash(booking.selectedFlight)
+      : null;
+    if (
+      quote.flightOfferId !== (booking.selectedFlight?.id || null) ||
+      (quote.flightOfferHash || null) !== offerHash
+    ) {
+      return "Quote does not match the selected flight";
+    }
+
+    if (
+      booking.seats &&
+      seatKeys(quote.seats || []) !== seatKeys(booking.seats)
+    ) {
+      return "Quote does not match the selected seats";
+    }
+
+    return null;
+  }
+}
+
+export default QuoteService;
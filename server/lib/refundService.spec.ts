@@ -0,0 +1,170 @@
+import os from "os";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { BookingActor } from "./bookingLifecycle";
+import RefundService from "./refundService";
+import { getLocalDataStore } from "./storage";
+
+const ADMIN: BookingActor = { actorType: "admin", actorId: "admin-1" };
+
+describe("RefundService", () => {
+  beforeAll(() => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `refund-spec-${Date.now()}-${Math.random()}.json`,
+    );
+  });
+
+  // A paid booking with a completed card payment of 200
+  const createTransaction = async () => {
+    const store = getLocalDataStore();
+    const booking = await store.bookings.create({
+      user_id: null,
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-05-01",
+      trip_type: "oneway",
+      total_amount: 200,
+      contact_email: "ada@example.com",
+      terms_accepted: true,
+      status: "paid",
+    });
+    return store.transactions.create({
+      booking_id: booking.id,
+      user_id: null,
+      amount: 200,
+      payment_method: "card",
+      status: "completed",
+    });
+  };
+
+  it("should refund the whole balance and mark the booking refunded", async () => {
+    const store = getLocalDataStore();
+    const transaction = await createTransaction();
+
+    const result = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      { actor: ADMIN },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.refund).toMatchObject({
+      amount: 200,
+      provider: "manual",
+      status: "succeeded",
+    });
+    expect(result.transaction).toMatchObject({
+      refunded_amount: 200,
+      status: "refunded",
+    });
+    expect(
+      (await store.bookings.findById(transaction.booking_id))?.status,
+    ).toBe("refunded");
+  });
+
+  it("should refund in parts up to the amount paid", async () => {
+    const store = getLocalDataStore();
+    const transaction = await createTransaction();
+
+    const first = await RefundService.refundTransaction(store, transaction.id, {
+      amount: 150,
+      actor: ADMIN,
+    });
+    expect(first.transaction?.status).toBe("partially_refunded");
+
+    const tooMuch = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      { amount: 60, actor: ADMIN },
+    );
+    expect(tooMuch.success).toBe(false);
+    expect(tooMuch.error).toBe("invalid_request");
+    expect(tooMuch.message).toBe(
+      "Refund amount must be between 0 and 50.00 USD",
+    );
+
+    const rest = await RefundService.refundTransaction(store, transaction.id, {
+      actor: ADMIN,
+    });
+    expect(rest.refund?.amount).toBe(50);
+    expect(rest.transaction?.status).toBe("refunded");
+  });
+
+  it("should count refunds awaiting the provider against the balance", async () => {
+    const store = getLocalDataStore();
+    const transaction = await createTransaction();
+    await store.refunds.create({
+      transaction_id: transaction.id,
+      booking_id: transaction.booking_id,
+      amount: 120,
+      currency: "USD",
+      provider: "stripe",
+      idempotency_key: `pending_${transaction.id}`,
+      requested_by: null,
+    });
+
+    const result = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      { amount: 100, actor: ADMIN },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      "Refund amount must be between 0 and 80.00 USD",
+    );
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "completed",
+    );
+  });
+
+  it("should not refund twice for the same idempotency key", async () => {
+    const store = getLocalDataStore();
+    const transaction = await createTransaction();
+    const options = {
+      amount: 40,
+      idempotencyKey: "refund-key-1",
+      actor: ADMIN,
+    };
+
+    const first = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      options,
+    );
+    const again = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      options,
+    );
+
+    expect(again.replayed).toBe(true);
+    expect(again.refund?.id).toBe(first.refund?.id);
+    expect(
+      (await store.transactions.findById(transaction.id))?.refunded_amount,
+    ).toBe(40);
+    expect(await store.refunds.listByTransaction(transaction.id)).toHaveLength(
+      1,
+    );
+  });
+
+  it("should only refund completed transactions", async () => {
+    const store = getLocalDataStore();
+    const transaction = await createTransaction();
+    await store.transactions.update(transaction.id, { status: "pending" });
+
+    const pending = await RefundService.refundTransaction(
+      store,
+      transaction.id,
+      { actor: ADMIN },
+    );
+    expect(pending.error).toBe("invalid_request");
+
+    const missing = await RefundService.refundTransaction(store, "txn_none", {
+      actor: ADMIN,
+    });
+    expect(missing.error).toBe("not_found");
+  });
+});
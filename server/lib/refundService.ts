@@ -0,0 +1,409 @@
+import BookingLifecycle, { BookingActor } from "./bookingLifecycle";
+import StripeService from "./stripeService";
+import PayPalService from "./paypalService";
+import {
+  DataStore,
+  RefundProvider,
+  RefundRecord,
+  TransactionRecord,
+} from "./storage";
+
+export interface RefundOptions {
+  // Omit to refund the remaining balance
+  amount?: number;
+  reason?: string | null;
+  idempotencyKey?: string;
+  actor: BookingActor;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refund?: RefundRecord;
+  transaction?: TransactionRecord;
+  // Provider accepted the refund but has not settled it yet
+  pending?: boolean;
+  // Same idempotency key seen before; nothing new was sent to the provider
+  replayed?: boolean;
+  error?: "not_found" | "invalid_request" | "conflict" | "provider_error";
+  message?: string;
+}
+
+const REFUNDABLE_STATUSES: TransactionRecord["status"][] = [
+  "completed",
+  "partially_refunded",
+];
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Issues refunds through the provider that took the original payment
+ * (Stripe payment intent or PayPal capture). Transactions and bookings are
+ * only updated once the provider reports the refund as settled.
+ */
+export class RefundService {
+  /**
+   * Work out which provider has to refund a transaction. Card payments and
+   * demo-mode Stripe/PayPal payments never reached a provider.
+   */
+  static getProvider(transaction: TransactionRecord): RefundProvider {
+    if (
+      transaction.stripe_payment_intent_id &&
+      !transaction.stripe_payment_intent_id.startsWith("pi_demo_")
+    ) {
+      return "stripe";
+    }
+    if (
+      transaction.paypal_order_id &&
+      !PayPalService.isDemoOrderId(transaction.paypal_order_id)
+    ) {
+      return "paypal";
+    }
+    return "manual";
+  }
+
+  static async refundTransaction(
+    store: DataStore,
+    transactionId: string,
+    options: RefundOptions,
+  ): Promise<RefundResult> {
+    const transaction = await store.transactions.findById(transactionId);
+
+    if (!transaction) {
+      return {
+        success: false,
+        error: "not_found",
+        message: "Transaction not found",
+      };
+    }
+
+    // A repeated request must not refund again, even if the balance changed
+    if (options.idempotencyKey) {
+      const existing = await store.refunds.findByIdempotencyKey(
+        options.idempotencyKey,
+      );
+      if (existing && existing.status !== "failed") {
+        return RefundService.replay(existing, transaction);
+      }
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(transaction.status)) {
+      return {
+        success: false,
+        error: "invalid_request",
+        message: "Only completed transactions can be refunded",
+      };
+    }
+
+    const alreadyRefunded = transaction.refunded_amount || 0;
+    // Refunds still awaiting the provider are spoken for as well
+    const remaining = roundAmount(
+      transaction.amount -
+        alreadyRefunded -
+        (await RefundService.getPendingAmount(store, transaction.id)),
+    );
+    const amount = roundAmount(options.amount ?? remaining);
+
+    if (!(amount > 0) || amount > remaining) {
+      return {
+        success: false,
+        error: "invalid_request",
+        message: `Refund amount must be between 0 and ${Math.max(remaining, 0).toFixed(2)} ${transaction.currency}`,
+      };
+    }
+
+    // Without a client key, identical concurrent requests share one refund
+    const idempotencyKey =
+      options.idempotencyKey ||
+      `refund_${transaction.id}_${toCents(amount)}_${toCents(alreadyRefunded)}`;
+
+    const existing = await store.refunds.findByIdempotencyKey(idempotencyKey);
+    let refund: RefundRecord;
+
+    if (existing) {
+      if (existing.transaction_id !== transaction.id) {
+        return {
+          success: false,
+          error: "conflict",
+          message: "Idempotency key was already used for another refund",
+        };
+      }
+      if (existing.status !== "failed") {
+        return RefundService.replay(existing, transaction);
+      }
+
+      // Retry a failed attempt under the same key
+      refund = (await store.refunds.update(existing.id, {
+        status: "pending",
+        amount,
+        reason: options.reason || existing.reason,
+        failure_reason: null,
+        attempts: existing.attempts + 1,
+      }))!;
+    } else {
+      refund = await store.refunds.create({
+        transaction_id: transaction.id,
+        booking_id: transaction.booking_id,
+        amount,
+        currency: transaction.currency,
+        provider: RefundService.getProvider(transaction),
+        reason: options.reason || null,
+        idempotency_key: idempotencyKey,
+        requested_by: options.actor.actorId || null,
+      });
+    }
+
+    // The pending refund now reserves its amount. If a concurrent request
+    // reserved part of the same balance meanwhile, back out before the
+    // provider is called.
+    const reserved =
+      alreadyRefunded +
+      (await RefundService.getPendingAmount(store, transaction.id));
+    if (toCents(reserved) > toCents(transaction.amount)) {
+      const failed = await RefundService.failRefund(
+        store,
+        refund,
+        "Another refund for this transaction is in progress",
+      );
+      return {
+        success: false,
+        refund: failed || refund,
+        transaction,
+        error: "conflict",
+        message: "Another refund for this transaction is in progress",
+      };
+    }
+
+    let outcome: { providerRefundId: string | null; status: string };
+    try {
+      outcome = await RefundService.sendToProvider(refund, transaction);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Provider refund failed";
+      const failed = await RefundService.failRefund(store, refund, message);
+      return {
+        success: false,
+        refund: failed || refund,
+        transaction,
+        error: "provider_error",
+        message,
+      };
+    }
+
+    refund =
+      (await store.refunds.update(refund.id, {
+        provider_refund_id: outcome.providerRefundId,
+      })) || refund;
+
+    if (outcome.status === "failed") {
+      const failed = await RefundService.failRefund(
+        store,
+        refund,
+        "Refund was declined by the payment provider",
+      );
+      return {
+        success: false,
+        refund: failed || refund,
+        transaction,
+        error: "provider_error",
+        message: "Refund was declined by the payment provider",
+      };
+    }
+
+    if (outcome.status === "pending") {
+      console.log(
+        `⏳ Refund ${refund.id} submitted to ${refund.provider}, awaiting confirmation`,
+      );
+      return { success: true, refund, transaction, pending: true };
+    }
+
+    return RefundService.completeRefund(store, refund, options.actor);
+  }
+
+  /**
+   * Apply a refund the provider has confirmed: mark it succeeded, add it to
+   * the transaction's refunded amount and, once the transaction is fully
+   * refunded, move the booking to refunded. Safe to call more than once.
+   */
+  static async completeRefund(
+    store: DataStore,
+    refund: RefundRecord,
+    actor: BookingActor,
+  ): Promise<RefundResult> {
+    const transaction = await store.transactions.findById(
+      refund.transaction_id,
+    );
+
+    if (!transaction) {
+      return {
+        success: false,
+        error: "not_found",
+        message: "Transaction not found",
+      };
+    }
+
+    const current = (await store.refunds.findById(refund.id)) || refund;
+    if (current.status === "succeeded") {
+      return { success: true, refund: current, transaction, replayed: true };
+    }
+
+    const updatedRefund =
+      (await store.refunds.update(refund.id, {
+        status: "succeeded",
+        failure_reason: null,
+      })) || current;
+
+    const refundedAmount = roundAmount(
+      (transaction.refunded_amount || 0) + refund.amount,
+    );
+    const fullyRefunded =
+      toCents(refundedAmount) >= toCents(transaction.amount);
+
+    const updatedTransaction =
+      (await store.transactions.update(transaction.id, {
+        refunded_amount: refundedAmount,
+        status: fullyRefunded ? "refunded" : "partially_refunded",
+      })) || transaction;
+
+    console.log(
+      `💸 Refund ${refund.id}: ${refund.amount} ${refund.currency} via ${refund.provider}`,
+    );
+
+    if (fullyRefunded) {
+      const result = await BookingLifecycle.transition(
+        store,
+        transaction.booking_id,
+        "refunded",
+        { ...actor, reason: refund.reason || actor.reason || "Refunded" },
+      );
+      if (!result.success) {
+        console.error("Booking status not updated:", result.message);
+      }
+    }
+
+    return {
+      success: true,
+      refund: updatedRefund,
+      transaction: updatedTransaction,
+    };
+  }
+
+  static async failRefund(
+    store: DataStore,
+    refund: RefundRecord,
+    reason: string,
+  ): Promise<RefundRecord | null> {
+    console.error(`❌ Refund ${refund.id} failed: ${reason}`);
+    return store.refunds.update(refund.id, {
+      status: "failed",
+      failure_reason: reason,
+    });
+  }
+
+  // Total of refunds sent to, or about to be sent to, the provider
+  private static async getPendingAmount(
+    store: DataStore,
+    transactionId: string,
+  ): Promise<number> {
+    const refunds = await store.refunds.listByTransaction(transactionId);
+    return roundAmount(
+      refunds
+        .filter((refund) => refund.status === "pending")
+        .reduce((total, refund) => total + refund.amount, 0),
+    );
+  }
+
+  private static replay(
+    refund: RefundRecord,
+    transaction: TransactionRecord,
+  ): RefundResult {
+    if (refund.transaction_id !== transaction.id) {
+      return {
+        success: false,
+        error: "conflict",
+        message: "Idempotency key was already used for another refund",
+      };
+    }
+    return {
+      success: true,
+      refund,
+      transaction,
+      pending: refund.status === "pending",
+      replayed: true,
+    };
+  }
+
+  private static async sendToProvider(
+    refund: RefundRecord,
+    transaction: TransactionRecord,
+  ): Promise<{
+    providerRefundId: string | null;
+    status: "succeeded" | "pending" | "failed";
+  }> {
+    // Retries get their own provider key so a failed attempt is not replayed
+    const providerKey =
+      refund.attempts > 1
+        ? `${refund.idempotency_key}:${refund.attempts}`
+        : refund.idempotency_key;
+
+    switch (refund.provider) {
+      case "stripe": {
+        if (!StripeService.isConfigured()) {
+          throw new Error("Stripe is not configured");
+        }
+        const stripeRefund = await StripeService.refundPayment(
+          transaction.stripe_payment_intent_id!,
+          refund.amount,
+          {
+            idempotencyKey: providerKey,
+            metadata: {
+              refundId: refund.id,
+              transactionId: transaction.id,
+              bookingId: transaction.booking_id,
+            },
+          },
+        );
+        return {
+          providerRefundId: stripeRefund.id,
+          status:
+            stripeRefund.status === "succeeded"
+              ? "succeeded"
+              : stripeRefund.status === "failed" ||
+                  stripeRefund.status === "canceled"
+                ? "failed"
+                : "pending",
+        };
+      }
+
+      case "paypal": {
+        const captureId = await PayPalService.getCaptureId(
+          transaction.paypal_order_id!,
+        );
+        if (!captureId) {
+          throw new Error("No PayPal capture found for this order");
+        }
+        const paypalRefund = await PayPalService.refundCapture(captureId, {
+          amount: refund.amount,
+          currency: refund.currency,
+          idempotencyKey: providerKey,
+          note: refund.reason || undefined,
+        });
+        return {
+          providerRefundId: paypalRefund.id,
+          status:
+            paypalRefund.status === "COMPLETED"
+              ? "succeeded"
+              : paypalRefund.status === "PENDING"
+                ? "pending"
+                : "failed",
+        };
+      }
+
+      default:
+        // Simulated card and demo payments: nothing to call
+        return { providerRefundId: null, status: "succeeded" };
+    }
+  }
+}
+
+export default RefundService;
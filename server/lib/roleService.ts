@@ -0,0 +1,140 @@
+import { RequestHandler } from "express";
+import { User, UserRole } from "@shared/api";
+import { hasRole, normalizeRoles } from "../../shared/roles";
+import { supabase } from "./supabaseServer";
+import { getStoreForUser, isSupabaseUserId, toApiUser } from "./storage";
+
+export interface RoleChangeResult {
+  success: boolean;
+  user?: User;
+  message?: string;
+  // HTTP status for failures
+  status?: number;
+}
+
+/**
+ * Only lets users with one of the given roles through (admins always pass).
+ * Mount it after the auth middleware, which sets req.user.
+ */
+export const requireRole =
+  (...roles: UserRole[]): RequestHandler =>
+  (req, res, next) => {
+    const user: User | undefined = (req as any).user;
+
+    if (!user) {
+      return res
+        .status(401)
+        .json({ success: false, message: "Authentication required" });
+    }
+
+    if (!hasRole(user, ...roles)) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied: requires the ${roles.join(" or ")} role`,
+      });
+    }
+
+    next();
+  };
+
+/**
+ * Role management
+ * Roles are stored on the user record. Supabase users also carry them in
+ * their auth app_metadata, so the access tokens Supabase issues include
+ * them and database policies can read them from the JWT.
+ */
+export class RoleService {
+  /**
+   * Give a user a role
+   */
+  static async grantRole(
+    userId: string,
+    role: UserRole,
+    grantedBy: User,
+  ): Promise<RoleChangeResult> {
+    return this.changeRoles(userId, grantedBy, (roles) => [...roles, role]);
+  }
+
+  /**
+   * Take a role away from a user. Everyone stays a customer, and admins
+   * can't take away their own admin role.
+   */
+  static async revokeRole(
+    userId: string,
+    role: UserRole,
+    revokedBy: User,
+  ): Promise<RoleChangeResult> {
+    if (role === "customer") {
+      return {
+        success: false,
+        status: 400,
+        message: "The customer role can't be revoked",
+      };
+    }
+
+    if (role === "admin" && userId === revokedBy.id) {
+      return {
+        success: false,
+        status: 400,
+        message: "You can't revoke your own admin role",
+      };
+    }
+
+    return this.changeRoles(userId, revokedBy, (roles) =>
+      roles.filter((current) => current !== role),
+    );
+  }
+
+  private static async changeRoles(
+    userId: string,
+    changedBy: User,
+    change: (roles: UserRole[]) => UserRole[],
+  ): Promise<RoleChangeResult> {
+    const store = getStoreForUser(userId);
+    const user = await store.users.findById(userId);
+
+    if (!user) {
+      return { success: false, status: 404, message: "User not found" };
+    }
+
+    const roles = normalizeRoles(change(normalizeRoles(user.roles)));
+    const updated = await store.users.update(userId, {
+      roles,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (!updated) {
+      return { success: false, status: 404, message: "User not found" };
+    }
+
+    if (store.kind === "supabase" && isSupabaseUserId(userId)) {
+      await this.syncAuthRoles(userId, roles);
+    }
+
+    console.log(
+      `🛡️ Roles of ${user.email} set to ${roles.join(", ")} by ${changedBy.email}`,
+    );
+
+    return { success: true, user: toApiUser(updated) };
+  }
+
+  // Copy roles into Supabase Auth so newly issued tokens carry them
+  private static async syncAuthRoles(
+    userId: string,
+    roles: UserRole[],
+  ): Promise<void> {
+    try {
+      const { error } = await supabase.auth.admin.updateUserById(userId, {
+        app_metadata: { roles },
+      });
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      // The users table stays the source of truth for the API
+      console.error("❌ Failed to copy roles to Supabase Auth:", error);
+    }
+  }
+}
+
+export default RoleService;
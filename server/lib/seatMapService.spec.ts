@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { SeatMapRequest } from "@shared/api";
+import SeatMapService from "./seatMapService";
+
+const request: SeatMapRequest = {
+  route: {
+    from: { code: "LHR" },
+    to: { code: "JFK" },
+    departureDate: "2030-05-01",
+    returnDate: "2030-05-10",
+    tripType: "roundtrip",
+  },
+};
+
+describe("SeatMapService", () => {
+  it("should serve the same mock seat map for the same flight", async () => {
+    const first = await SeatMapService.getSeatMaps(request);
+    const second = await SeatMapService.getSeatMaps(request);
+
+    expect(first.seatMaps?.map((seatMap) => seatMap.segmentId)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(second.seatMaps).toEqual(first.seatMaps);
+    expect(first.seatMaps?.[1].fromCode).toBe("JFK");
+
+    const seats = first.seatMaps![0].decks[0].seats;
+    expect(seats.some((seat) => seat.available)).toBe(true);
+    expect(seats.some((seat) => !seat.available)).toBe(true);
+    // Only the economy cabin is bookable without a business fare
+    expect(
+      seats.some((seat) => seat.cabin === "BUSINESS" && seat.available),
+    ).toBe(false);
+  });
+
+  it("should reject seats that are taken or picked twice", async () => {
+    const { seatMaps } = await SeatMapService.getSeatMaps(request);
+    const seats = seatMaps![0].decks[0].seats;
+    const free = seats.find((seat) => seat.available)!;
+    const taken = seats.find((seat) => !seat.available)!;
+
+    const occupied = await SeatMapService.priceSeats(request, 2, [
+      { segmentId: "1", passengerIndex: 0, seatNumber: taken.number },
+    ]);
+    expect(occupied.error).toBe("unavailable");
+
+    const twice = await SeatMapService.priceSeats(request, 2, [
+      { segmentId: "1", passengerIndex: 0, seatNumber: free.number },
+      { segmentId: "1", passengerIndex: 1, seatNumber: free.number },
+    ]);
+    expect(twice.success).toBe(false);
+
+    const priced = await SeatMapService.priceSeats(request, 2, [
+      { segmentId: "1", passengerIndex: 0, seatNumber: free.number },
+      { segmentId: "2", passengerIndex: 0, seatNumber: free.number },
+    ]);
+    expect(priced.success).toBe(true);
+    expect(priced.seats?.[0]).toMatchObject({
+      seatNumber: free.number,
+      price: free.price,
+      currency: "USD",
+    });
+  });
+});
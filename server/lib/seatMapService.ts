@@ -0,0 +1,299 @@
+import {
+  FlightOffer,
+  Seat,
+  SeatMap,
+  SeatMapRequest,
+  SeatSelection,
+} from "@shared/api";
+import { BASE_CURRENCY } from "../../shared/currency";
+import { getOfferProvider } from "./flightProviders";
+import { hashSeed, seededRandom } from "./seededRandom";
+import TicketGenerator, { TicketSegment } from "./ticketGenerator";
+
+export interface SeatMapResult {
+  success: boolean;
+  seatMaps?: SeatMap[];
+  message?: string;
+}
+
+export interface PricedSeat extends SeatSelection {
+  // In the seat map's currency
+  price: number;
+  currency: string;
+}
+
+export interface SeatPricingResult {
+  success: boolean;
+  seats?: PricedSeat[];
+  error?: "invalid_request" | "unavailable";
+  message?: string;
+}
+
+// Mock aircraft: a 3-3 economy cabin behind a 2-2 business cabin
+const MOCK_DECK_WIDTH = 7;
+const MOCK_COLUMNS = ["A", "B", "C", "", "D", "E", "F"];
+const MOCK_BUSINESS_COLUMNS = ["A", "C", "D", "F"];
+const MOCK_BUSINESS_ROWS = [1, 2, 3];
+const MOCK_ECONOMY_ROWS = { first: 7, last: 30 };
+const MOCK_EXIT_ROWS = [14, 15];
+const MOCK_PREFERRED_ROWS = [7, 8, 9];
+const MOCK_OCCUPANCY = 0.35;
+// USD
+const MOCK_PRICES = {
+  exit: 35,
+  preferred: 25,
+  standard: 12,
+};
+
+const seatKey = (selection: SeatSelection) =>
+  `${selection.segmentId}:${selection.seatNumber}`;
+
+/**
+ * Seat maps for the flights of a booking. Offers from live providers get
+ * the airline's seat map from the provider, as decks of seats with their
+ * cabin, position, availability and fee; otherwise (sample flights, or a
+ * route booked without an offer) a deterministic mock aircraft is served
+ * for each flight of the route.
+ */
+export class SeatMapService {
+  static async getSeatMaps(request: SeatMapRequest): Promise<SeatMapResult> {
+    const provider =
+      request.selectedFlight && getOfferProvider(request.selectedFlight);
+    if (provider?.live && provider.isAvailable() && provider.getSeatMaps) {
+      try {
+        return {
+          success: true,
+          seatMaps: await provider.getSeatMaps(request.selectedFlight),
+        };
+      } catch (error) {
+        console.error("Seat map lookup failed:", error);
+        return {
+          success: false,
+          message: "Seat maps are not available for this flight",
+        };
+      }
+    }
+
+    return {
+      success: true,
+      seatMaps: this.getSegments(request).map((segment) =>
+        this.createMockSeatMap(segment, request.selectedFlight),
+      ),
+    };
+  }
+
+  /**
+   * Check seat selections against the seat maps and price them. Each
+   * passenger gets at most one seat per flight, and a seat can only be
+   * picked once.
+   */
+  static async priceSeats(
+    request: SeatMapRequest,
+    passengerCount: number,
+    selections: SeatSelection[],
+  ): Promise<SeatPricingResult> {
+    if (selections.length === 0) {
+      return { success: true, seats: [] };
+    }
+
+    const result = await this.getSeatMaps(request);
+    if (!result.success) {
+      return { success: false, error: "unavailable", message: result.message };
+    }
+
+    const seatMaps = new Map(
+      result.seatMaps.map((seatMap) => [seatMap.segmentId, seatMap]),
+    );
+    const takenSeats = new Set<string>();
+    const seatedPassengers = new Set<string>();
+    const seats: PricedSeat[] = [];
+
+    for (const selection of selections) {
+      const seatMap = seatMaps.get(selection.segmentId);
+      if (!seatMap) {
+        return {
+          success: false,
+          error: "invalid_request",
+          message: "Seat selection is for another flight",
+        };
+      }
+
+      if (
+        !Number.isInteger(selection.passengerIndex) ||
+        selection.passengerIndex < 0 ||
+        selection.passengerIndex >= passengerCount
+      ) {
+        return {
+          success: false,
+          error: "invalid_request",
+          message: "Seat selection has no passenger",
+        };
+      }
+
+      const passengerKey = `${selection.segmentId}:${selection.passengerIndex}`;
+      if (seatedPassengers.has(passengerKey)) {
+        return {
+          success: false,
+          error: "invalid_request",
+          message: "Each passenger can only pick one seat per flight",
+        };
+      }
+
+      const seat = seatMap.decks
+        .flatMap((deck) => deck.seats)
+        .find((candidate) => candidate.number === selection.seatNumber);
+      if (!seat || !seat.available || takenSeats.has(seatKey(selection))) {
+        return {
+          success: false,
+          error: "unavailable",
+          message: `Seat ${selection.seatNumber} is no longer available`,
+        };
+      }
+
+      takenSeats.add(seatKey(selection));
+      seatedPassengers.add(passengerKey);
+      seats.push({
+        segmentId: selection.segmentId,
+        passengerIndex: selection.passengerIndex,
+        seatNumber: seat.number,
+        price: seat.price,
+        currency: seatMap.currency,
+      });
+    }
+
+    return { success: true, seats };
+  }
+
+  /**
+   * Flights of the booking, with the same segment IDs as its ticket
+   */
+  private static getSegments(request: SeatMapRequest): TicketSegment[] {
+    const { route } = request;
+    return TicketGenerator.buildItineraries(
+      {
+        route: {
+          from: "",
+          to: "",
+          fromCode: route.from.code.toUpperCase(),
+          toCode: route.to.code.toUpperCase(),
+          departureDate: route.departureDate,
+          returnDate: route.returnDate,
+        },
+      },
+      request.selectedFlight,
+    ).flatMap((itinerary) => itinerary.segments);
+  }
+
+  /**
+   * Mock seat map for a flight. Occupied seats are drawn from a PRNG seeded
+   * with the flight, so every request for it returns the same map. Only the
+   * cabin the passengers booked can be picked.
+   */
+  private static createMockSeatMap(
+    segment: TicketSegment,
+    selectedFlight?: FlightOffer | null,
+  ): SeatMap {
+    const random = seededRandom(
+      hashSeed(
+        [
+          segment.carrierCode,
+          segment.flightNumber,
+          segment.fromCode,
+          segment.toCode,
+          segment.departureAt,
+        ].join("|"),
+      ),
+    );
+    const bookedCabin =
+      selectedFlight?.travelerPricings?.[0]?.fareDetailsBySegment?.find(
+        (fare) => fare.segmentId === segment.id,
+      )?.cabin || "ECONOMY";
+    const seats: Seat[] = [];
+
+    const addSeat = (
+      row: number,
+      column: string,
+      y: number,
+      cabin: string,
+      price: number,
+      characteristics: string[],
+    ) => {
+      const x = MOCK_COLUMNS.indexOf(column);
+      const window = x === 0 || x === MOCK_DECK_WIDTH - 1;
+      const aisle = MOCK_COLUMNS[x - 1] === "" || MOCK_COLUMNS[x + 1] === "";
+      seats.push({
+        number: `${row}${column}`,
+        cabin,
+        row,
+        column,
+        x,
+        y,
+        available:
+          random() >= MOCK_OCCUPANCY &&
+          (cabin === bookedCabin ||
+            (cabin === "ECONOMY" && bookedCabin === "PREMIUM_ECONOMY")),
+        price,
+        characteristics: [
+          ...(window ? ["W"] : aisle ? ["A"] : ["9"]),
+          ...characteristics,
+        ],
+      });
+    };
+
+    MOCK_BUSINESS_ROWS.forEach((row, index) => {
+      MOCK_BUSINESS_COLUMNS.forEach((column) =>
+        addSeat(row, column, index, "BUSINESS", 0, ["K"]),
+      );
+    });
+
+    // A galley row separates the cabins
+    const economyStart = MOCK_BUSINESS_ROWS.length + 1;
+    for (
+      let row = MOCK_ECONOMY_ROWS.first;
+      row <= MOCK_ECONOMY_ROWS.last;
+      row++
+    ) {
+      const exit = MOCK_EXIT_ROWS.includes(row);
+      MOCK_COLUMNS.filter(Boolean).forEach((column) => {
+        const middle = column === "B" || column === "E";
+        const price = exit
+          ? MOCK_PRICES.exit
+          : MOCK_PREFERRED_ROWS.includes(row)
+            ? MOCK_PRICES.preferred
+            : middle
+              ? 0
+              : MOCK_PRICES.standard;
+        addSeat(
+          row,
+          column,
+          economyStart + row - MOCK_ECONOMY_ROWS.first,
+          "ECONOMY",
+          price,
+          exit ? ["E", "L"] : [],
+        );
+      });
+    }
+
+    return {
+      segmentId: segment.id,
+      carrierCode: segment.carrierCode,
+      flightNumber: segment.flightNumber,
+      fromCode: segment.fromCode,
+      toCode: segment.toCode,
+      departureAt: segment.departureAt,
+      aircraft: segment.aircraft,
+      currency: BASE_CURRENCY,
+      decks: [
+        {
+          deckType: "MAIN",
+          width: MOCK_DECK_WIDTH,
+          length:
+            economyStart + MOCK_ECONOMY_ROWS.last - MOCK_ECONOMY_ROWS.first + 1,
+          seats,
+        },
+      ],
+    };
+  }
+}
+
+export default SeatMapService;
@@ -0,0 +1,23 @@
+/**
+ * FNV-1a hash of a string, for seeding mock data
+ */
+export const hashSeed = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Small seeded PRNG (mulberry32): the same seed always gives the same
+ * sequence of numbers in [0, 1)
+ */
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
@@ -0,0 +1,279 @@
+import crypto from "crypto";
+import { User, UserRole } from "@shared/api";
+import { JobScheduler } from "./jobScheduler";
+import { SessionRecord, getActiveDataStores, getStoreForUser } from "./storage";
+
+export const SESSION_CLEANUP_JOB = "session-cleanup";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  roles: UserRole[];
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  // When the access token expires; refresh before then
+  expiresAt: string;
+  session: SessionRecord;
+}
+
+// Where a sign-in or refresh came from, shown in the sessions list
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+// Access tokens have to be accepted by every instance and survive restarts,
+// so there is no generated fallback
+const getSigningSecret = (): string => {
+  if (!process.env.AUTH_TOKEN_SECRET) {
+    throw new Error("AUTH_TOKEN_SECRET is not set");
+  }
+  return process.env.AUTH_TOKEN_SECRET;
+};
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const sign = (payload: string) =>
+  crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(payload)
+    .digest("base64url");
+
+const hashToken = (secret: string) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length &&
+  crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const isActive = (session: SessionRecord | null): session is SessionRecord =>
+  !!session &&
+  !session.revoked_at &&
+  new Date(session.expires_at).getTime() > Date.now();
+
+// Refresh tokens name their user and session, so they can be looked up
+// in the store that holds that user's sessions
+const formatRefreshToken = (
+  userId: string,
+  sessionId: string,
+  secret: string,
+) => [Buffer.from(userId).toString("base64url"), sessionId, secret].join(".");
+
+const parseRefreshToken = (token: string) => {
+  const [user, sessionId, secret] = token.split(".");
+  if (!user || !sessionId || !secret) {
+    return null;
+  }
+  return {
+    userId: Buffer.from(user, "base64url").toString("utf8"),
+    sessionId,
+    secret,
+  };
+};
+
+/**
+ * Sign-in sessions
+ * Each sign-in creates a session in the store that holds the user (so it
+ * is shared by every server instance). Clients get a short-lived access
+ * token, an HS256 JWT naming the user, session and roles, and a refresh
+ * token. Refreshing rotates the refresh token; presenting an old one
+ * revokes the session, since it means the token was copied. Access tokens
+ * are only accepted while their session is active, so logging out takes
+ * effect immediately.
+ */
+export class SessionService {
+  /**
+   * Throw unless AUTH_TOKEN_SECRET is set. Called at startup so a missing
+   * secret stops the server instead of failing every sign-in.
+   */
+  static requireSigningSecret(): void {
+    getSigningSecret();
+  }
+
+  static async createSession(
+    user: User,
+    context: SessionContext = {},
+  ): Promise<SessionTokens> {
+    const secret = crypto.randomBytes(32).toString("base64url");
+    const session = await getStoreForUser(user.id).sessions.create({
+      user_id: user.id,
+      refresh_token_hash: hashToken(secret),
+      user_agent: context.userAgent || null,
+      ip_address: context.ipAddress || null,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    });
+
+    return this.issueTokens(user, session, secret);
+  }
+
+  /**
+   * Resolves with the token's claims while it is unexpired and its session
+   * is active, otherwise with null
+   */
+  static async verifyAccessToken(
+    token: string,
+  ): Promise<AccessTokenClaims | null> {
+    const [header, payload, signature] = token.split(".");
+    if (!header || !payload || !signature) {
+      return null;
+    }
+    if (!safeEqual(sign(`${header}.${payload}`), signature)) {
+      return null;
+    }
+
+    let claims: AccessTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+      return null;
+    }
+
+    if (!claims.sub || !claims.sid || claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    const session = await getStoreForUser(claims.sub).sessions.findById(
+      claims.sid,
+    );
+    return isActive(session) && session.user_id === claims.sub ? claims : null;
+  }
+
+  /**
+   * Swap a refresh token for new tokens. The user is loaded again so the
+   * new access token carries their current roles.
+   */
+  static async refreshSession(
+    refreshToken: string,
+    loadUser: (userId: string) => Promise<User | null>,
+    context: SessionContext = {},
+  ): Promise<SessionTokens | null> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return null;
+    }
+
+    const store = getStoreForUser(parsed.userId);
+    const session = await store.sessions.findById(parsed.sessionId);
+    if (!isActive(session) || session.user_id !== parsed.userId) {
+      return null;
+    }
+
+    if (!safeEqual(hashToken(parsed.secret), session.refresh_token_hash)) {
+      console.warn(
+        `🚨 Refresh token reused for session ${session.id}; revoking it`,
+      );
+      await store.sessions.update(session.id, {
+        revoked_at: new Date().toISOString(),
+      });
+      return null;
+    }
+
+    const user = await loadUser(session.user_id);
+    if (!user) {
+      return null;
+    }
+
+    const secret = crypto.randomBytes(32).toString("base64url");
+    const rotated = await store.sessions.update(session.id, {
+      refresh_token_hash: hashToken(secret),
+      last_used_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+      ...(context.userAgent && { user_agent: context.userAgent }),
+      ...(context.ipAddress && { ip_address: context.ipAddress }),
+    });
+
+    return rotated ? this.issueTokens(user, rotated, secret) : null;
+  }
+
+  static async listSessions(userId: string): Promise<SessionRecord[]> {
+    return getStoreForUser(userId).sessions.listActiveByUser(userId);
+  }
+
+  /**
+   * Revoke one of a user's sessions. Resolves to false when the user has
+   * no such active session.
+   */
+  static async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<boolean> {
+    const store = getStoreForUser(userId);
+    const session = await store.sessions.findById(sessionId);
+    if (!isActive(session) || session.user_id !== userId) {
+      return false;
+    }
+
+    await store.sessions.update(sessionId, {
+      revoked_at: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping the current one
+   */
+  static async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const revoked = await getStoreForUser(userId).sessions.revokeByUser(
+      userId,
+      exceptSessionId,
+    );
+    console.log(`🔒 Revoked ${revoked} session(s) of user ${userId}`);
+    return revoked;
+  }
+
+  static async deleteExpiredSessions(): Promise<number> {
+    let deleted = 0;
+    for (const store of getActiveDataStores()) {
+      deleted += await store.sessions.deleteExpired();
+    }
+    return deleted;
+  }
+
+  static registerJob(scheduler: JobScheduler): void {
+    scheduler.register({
+      name: SESSION_CLEANUP_JOB,
+      intervalMs: CLEANUP_INTERVAL_MS,
+      run: () => SessionService.deleteExpiredSessions(),
+    });
+  }
+
+  private static issueTokens(
+    user: User,
+    session: SessionRecord,
+    secret: string,
+  ): SessionTokens {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: AccessTokenClaims = {
+      sub: user.id,
+      sid: session.id,
+      roles: user.roles,
+      iat,
+      exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+    };
+    const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+
+    return {
+      user,
+      accessToken: `${unsigned}.${sign(unsigned)}`,
+      refreshToken: formatRefreshToken(user.id, session.id, secret),
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+      session,
+    };
+  }
+}
+
+export default SessionService;
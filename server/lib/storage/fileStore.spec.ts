@@ -0,0 +1,147 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { FileDataStore } from "./fileStore";
+
+describe("FileDataStore", () => {
+  let filePath: string;
+  let store: FileDataStore;
+
+  beforeEach(() => {
+    filePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "file-store-")),
+      "data.json",
+    );
+    store = new FileDataStore(filePath);
+  });
+
+  const createBookingIn = (
+    target: FileDataStore,
+    createdAt = new Date().toISOString(),
+  ) =>
+    target.bookings.create({
+      user_id: "user-1",
+      from_airport_id: "LHR",
+      to_airport_id: "JFK",
+      departure_date: "2030-05-01",
+      trip_type: "oneway",
+      total_amount: 100,
+      contact_email: "ada@example.com",
+      terms_accepted: true,
+      created_at: createdAt,
+    });
+
+  const createBooking = (createdAt?: string) =>
+    createBookingIn(store, createdAt);
+
+  it("should keep records across restarts", async () => {
+    const user = await store.users.create({
+      email: "ada@example.com",
+      first_name: "Ada",
+      last_name: "Lovelace",
+      title: "Ms",
+    });
+    const booking = await createBooking();
+    await store.passengers.createMany([
+      {
+        booking_id: booking.id,
+        title: "Ms",
+        first_name: "Ada",
+        last_name: "Lovelace",
+        email: "ada@example.com",
+      },
+    ]);
+    const transaction = await store.transactions.create({
+      booking_id: booking.id,
+      user_id: user.id,
+      amount: 100,
+      payment_method: "card",
+      stripe_payment_intent_id: "pi_123",
+    });
+
+    const restarted = new FileDataStore(filePath);
+
+    expect(await restarted.users.findByEmail("ADA@example.com")).toMatchObject({
+      id: user.id,
+    });
+    expect(await restarted.bookings.findById(booking.id)).toMatchObject({
+      pnr: booking.pnr,
+      status: "pending",
+      currency: "USD",
+    });
+    expect(await restarted.passengers.listByBooking(booking.id)).toHaveLength(
+      1,
+    );
+    expect(
+      await restarted.transactions.findByStripePaymentIntent("pi_123"),
+    ).toMatchObject({ id: transaction.id, status: "pending" });
+  });
+
+  it("should find bookings by PNR and list a user's newest first", async () => {
+    const older = await createBooking("2030-01-01T00:00:00.000Z");
+    const newer = await createBooking("2030-01-02T00:00:00.000Z");
+
+    expect((await store.bookings.findByPnr(older.pnr.toLowerCase()))?.id).toBe(
+      older.id,
+    );
+    expect(
+      (await store.bookings.listByUser("user-1")).map((booking) => booking.id),
+    ).toEqual([newer.id, older.id]);
+  });
+
+  it("should only list pending bookings created before the cutoff", async () => {
+    const stale = await createBooking("2030-01-01T00:00:00.000Z");
+    const paid = await createBooking("2030-01-01T00:00:00.000Z");
+    await store.bookings.update(paid.id, { status: "paid" });
+    await createBooking("2030-01-03T00:00:00.000Z");
+
+    expect(
+      (
+        await store.bookings.listPendingCreatedBefore(
+          "2030-01-02T00:00:00.000Z",
+        )
+      ).map((booking) => booking.id),
+    ).toEqual([stale.id]);
+  });
+
+  it("should update a booking only while it has the expected status", async () => {
+    const booking = await createBooking();
+
+    expect(
+      await store.bookings.updateIfStatus(booking.id, "paid", {
+        status: "ticketed",
+      }),
+    ).toBeNull();
+    expect(
+      (
+        await store.bookings.updateIfStatus(booking.id, "pending", {
+          status: "paid",
+        })
+      )?.status,
+    ).toBe("paid");
+  });
+
+  it("should consume a token once", async () => {
+    await store.tokens.create({
+      token: "token-hash",
+      type: "password_reset",
+      user_id: "user-1",
+      expires_at: new Date(Date.now() + 60000).toISOString(),
+    });
+
+    expect(await store.tokens.consume("token-hash")).toMatchObject({
+      user_id: "user-1",
+    });
+    expect(await store.tokens.consume("token-hash")).toBeNull();
+  });
+
+  it("should never write over a data file it can't read", async () => {
+    fs.writeFileSync(filePath, "{ not json");
+    const corrupt = new FileDataStore(filePath);
+
+    await expect(corrupt.bookings.list()).rejects.toThrow("can't be read");
+    await expect(createBookingIn(corrupt)).rejects.toThrow("can't be read");
+    expect(fs.readFileSync(filePath, "utf8")).toBe("{ not json");
+  });
+});
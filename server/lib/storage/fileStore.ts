@@ -0,0 +1,779 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { getAirportByCode } from "../airportData";
+import {
+  BookingEventRecord,
+  BookingRecord,
+  CurrencyRateRecord,
+  DataStore,
+  DisputeRecord,
+  ListOptions,
+  PassengerRecord,
+  PromoCodeRecord,
+  PromoRedemptionRecord,
+  RefundRecord,
+  SupportTicketRecord,
+  TokenRecord,
+  TokenType,
+  TransactionRecord,
+  SessionRecord,
+  TwoFactorRecord,
+  UserRecord,
+  WebhookEventRecord,
+  WebhookProvider,
+} from "./types";
+
+interface FileStoreData {
+  users: UserRecord[];
+  bookings: BookingRecord[];
+  passengers: PassengerRecord[];
+  booking_events: BookingEventRecord[];
+  transactions: TransactionRecord[];
+  refunds: RefundRecord[];
+  disputes: DisputeRecord[];
+  webhook_events: WebhookEventRecord[];
+  currency_rates: CurrencyRateRecord[];
+  promo_codes: PromoCodeRecord[];
+  promo_redemptions: PromoRedemptionRecord[];
+  support_tickets: SupportTicketRecord[];
+  tokens: TokenRecord[];
+  sessions: SessionRecord[];
+  two_factor: TwoFactorRecord[];
+}
+
+const emptyData = (): FileStoreData => ({
+  users: [],
+  bookings: [],
+  passengers: [],
+  booking_events: [],
+  transactions: [],
+  refunds: [],
+  disputes: [],
+  webhook_events: [],
+  currency_rates: [],
+  promo_codes: [],
+  promo_redemptions: [],
+  support_tickets: [],
+  tokens: [],
+  sessions: [],
+  two_factor: [],
+});
+
+// Local ids are deliberately not UUIDs so they never collide with Supabase rows
+const generateId = (prefix: string): string => {
+  const timestamp = Date.now().toString(36);
+  const random = crypto.randomBytes(4).toString("hex");
+  return `${prefix}_${timestamp}_${random}`;
+};
+
+const generatePNR = (): string => {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let result = "";
+  for (let i = 0; i < 6; i++) {
+    result += chars.charAt(crypto.randomInt(chars.length));
+  }
+  return result;
+};
+
+const now = () => new Date().toISOString();
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * JSON file backed store used when Supabase is not configured.
+ * The whole dataset is kept in memory and flushed to disk after every write,
+ * using a temp file + rename so a crash never leaves a half-written file.
+ */
+export class FileDataStore implements DataStore {
+  readonly kind = "file" as const;
+  private data: FileStoreData | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private load(): FileStoreData {
+    if (this.data) {
+      return this.data;
+    }
+
+    if (!fs.existsSync(this.filePath)) {
+      this.data = emptyData();
+      return this.data;
+    }
+
+    // Starting empty would write over every record on the next save, so an
+    // unreadable file fails every operation until it is fixed or moved
+    try {
+      const raw = fs.readFileSync(this.filePath, "utf8");
+      this.data = { ...emptyData(), ...JSON.parse(raw) };
+    } catch (error) {
+      console.error("❌ Failed to read local data store:", error);
+      throw new Error(
+        `Local data store ${this.filePath} can't be read; fix or move it aside`,
+      );
+    }
+    console.log(`📂 Loaded local data store from ${this.filePath}`);
+
+    return this.data;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.load(), null, 2);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, snapshot, "utf8");
+        await fs.promises.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+
+  private async insert<K extends keyof FileStoreData>(
+    collection: K,
+    record: FileStoreData[K][number],
+  ): Promise<FileStoreData[K][number]> {
+    (this.load()[collection] as FileStoreData[K][number][]).push(record);
+    await this.persist();
+    return record;
+  }
+
+  private async patch<K extends keyof FileStoreData>(
+    collection: K,
+    matches: (record: FileStoreData[K][number]) => boolean,
+    updates: Partial<FileStoreData[K][number]>,
+  ): Promise<FileStoreData[K][number] | null> {
+    const records = this.load()[collection] as FileStoreData[K][number][];
+    const index = records.findIndex(matches);
+
+    if (index === -1) {
+      return null;
+    }
+
+    const updated = {
+      ...records[index],
+      ...updates,
+      ...("updated_at" in records[index] && { updated_at: now() }),
+    };
+    records[index] = updated;
+    await this.persist();
+    return updated;
+  }
+
+  private async remove<K extends keyof FileStoreData>(
+    collection: K,
+    matches: (record: FileStoreData[K][number]) => boolean,
+  ): Promise<number> {
+    const data = this.load();
+    const records = data[collection] as FileStoreData[K][number][];
+    const kept = records.filter((record) => !matches(record));
+    const removed = records.length - kept.length;
+
+    if (removed > 0) {
+      (data[collection] as FileStoreData[K][number][]) = kept;
+      await this.persist();
+    }
+
+    return removed;
+  }
+
+  users = {
+    findById: async (id: string) =>
+      this.load().users.find((user) => user.id === id) || null,
+
+    findByEmail: async (email: string) =>
+      this.load().users.find(
+        (user) => user.email.toLowerCase() === email.toLowerCase(),
+      ) || null,
+
+    list: async () => [...this.load().users].sort(byNewest),
+
+    create: async (user) =>
+      this.insert("users", {
+        status: "active",
+        roles: ["customer"],
+        password_hash: null,
+        email_verified_at: null,
+        created_at: now(),
+        updated_at: now(),
+        ...user,
+        id: user.id || generateId("user"),
+      }),
+
+    update: async (id: string, updates: Partial<UserRecord>) =>
+      this.patch("users", (user) => user.id === id, updates),
+  } satisfies DataStore["users"];
+
+  // Airports come from the bundled static airport list
+  airports = {
+    findByCode: async (code: string) => {
+      const airport = getAirportByCode(code);
+      return airport
+        ? {
+            id: airport.code,
+            code: airport.code,
+            name: airport.name,
+            city: airport.city,
+            country: airport.country,
+          }
+        : null;
+    },
+  } satisfies DataStore["airports"];
+
+  bookings = {
+    findById: async (id: string) =>
+      this.load().bookings.find((booking) => booking.id === id) || null,
+
+    findByPnr: async (pnr: string) =>
+      this.load().bookings.find(
+        (booking) => booking.pnr.toUpperCase() === pnr.toUpperCase(),
+      ) || null,
+
+    listByUser: async (userId: string) =>
+      this.load()
+        .bookings.filter((booking) => booking.user_id === userId)
+        .sort(byNewest),
+
+    list: async (options: ListOptions = {}) => {
+      const { page = 1, limit = 10, status } = options;
+      const filtered = this.load()
+        .bookings.filter(
+          (booking) => !status || status === "all" || booking.status === status,
+        )
+        .sort(byNewest);
+
+      return {
+        items: filtered.slice((page - 1) * limit, page * limit),
+        total: filtered.length,
+      };
+    },
+
+    listPendingCreatedBefore: async (cutoff: string) =>
+      this.load().bookings.filter(
+        (booking) =>
+          booking.status === "pending" &&
+          new Date(booking.created_at).getTime() < new Date(cutoff).getTime(),
+      ),
+
+    create: async (booking) =>
+      this.insert("bookings", {
+        status: "pending",
+        currency: "USD",
+        ticket_url: null,
+        return_date: null,
+        created_at: now(),
+        updated_at: now(),
+        ...booking,
+        id: booking.id || generateId("booking"),
+        pnr: booking.pnr || generatePNR(),
+      }),
+
+    update: async (id: string, updates: Partial<BookingRecord>) =>
+      this.patch("bookings", (booking) => booking.id === id, updates),
+
+    updateIfStatus: async (
+      id: string,
+      status: BookingRecord["status"],
+      updates: Partial<BookingRecord>,
+    ) =>
+      this.patch(
+        "bookings",
+        (booking) => booking.id === id && booking.status === status,
+        updates,
+      ),
+  } satisfies DataStore["bookings"];
+
+  passengers = {
+    listByBooking: async (bookingId: string) =>
+      this.load().passengers.filter(
+        (passenger) => passenger.booking_id === bookingId,
+      ),
+
+    createMany: async (passengers) => {
+      const created = passengers.map((passenger) => ({
+        created_at: now(),
+        ...passenger,
+        id: passenger.id || generateId("passenger"),
+      }));
+      this.load().passengers.push(...created);
+      await this.persist();
+      return created;
+    },
+  } satisfies DataStore["passengers"];
+
+  // Events are listed oldest first so they read as a timeline
+  bookingEvents = {
+    listByBooking: async (bookingId: string) =>
+      this.load()
+        .booking_events.filter((event) => event.booking_id === bookingId)
+        .sort(
+          (a, b) =>
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+        ),
+
+    create: async (event) =>
+      this.insert("booking_events", {
+        from_status: null,
+        actor_id: null,
+        reason: null,
+        created_at: now(),
+        ...event,
+        id: event.id || generateId("event"),
+      }),
+  } satisfies DataStore["bookingEvents"];
+
+  transactions = {
+    findById: async (id: string) =>
+      this.load().transactions.find((transaction) => transaction.id === id) ||
+      null,
+
+    listByUser: async (userId: string) =>
+      this.load()
+        .transactions.filter((transaction) => transaction.user_id === userId)
+        .sort(byNewest),
+
+    listByBooking: async (bookingId: string) =>
+      this.load()
+        .transactions.filter(
+          (transaction) => transaction.booking_id === bookingId,
+        )
+        .sort(byNewest),
+
+    findByStripePaymentIntent: async (paymentIntentId: string) =>
+      this.load().transactions.find(
+        (transaction) =>
+          transaction.stripe_payment_intent_id === paymentIntentId,
+      ) || null,
+
+    findByPayPalOrder: async (orderId: string) =>
+      this.load().transactions.find(
+        (transaction) => transaction.paypal_order_id === orderId,
+      ) || null,
+
+    list: async () =>
+      [...this.load().transactions]
+        .sort(byNewest)
+        .map((transaction) => this.withTransactionRelations(transaction)),
+
+    create: async (transaction) =>
+      this.insert("transactions", {
+        status: "pending",
+        currency: "USD",
+        payment_details: null,
+        stripe_payment_intent_id: null,
+        paypal_order_id: null,
+        refunded_amount: 0,
+        created_at: now(),
+        updated_at: now(),
+        ...transaction,
+        id: transaction.id || generateId("txn"),
+      }),
+
+    update: async (id: string, updates: Partial<TransactionRecord>) =>
+      this.patch(
+        "transactions",
+        (transaction) => transaction.id === id,
+        updates,
+      ),
+  } satisfies DataStore["transactions"];
+
+  refunds = {
+    findById: async (id: string) =>
+      this.load().refunds.find((refund) => refund.id === id) || null,
+
+    findByIdempotencyKey: async (key: string) =>
+      this.load().refunds.find((refund) => refund.idempotency_key === key) ||
+      null,
+
+    findByProviderRefundId: async (providerRefundId: string) =>
+      this.load().refunds.find(
+        (refund) => refund.provider_refund_id === providerRefundId,
+      ) || null,
+
+    listByTransaction: async (transactionId: string) =>
+      this.load()
+        .refunds.filter((refund) => refund.transaction_id === transactionId)
+        .sort(byNewest),
+
+    create: async (refund) =>
+      this.insert("refunds", {
+        status: "pending",
+        provider_refund_id: null,
+        reason: null,
+        failure_reason: null,
+        attempts: 1,
+        requested_by: null,
+        created_at: now(),
+        updated_at: now(),
+        ...refund,
+        id: refund.id || generateId("refund"),
+      }),
+
+    update: async (id: string, updates: Partial<RefundRecord>) =>
+      this.patch("refunds", (refund) => refund.id === id, updates),
+  } satisfies DataStore["refunds"];
+
+  disputes = {
+    findById: async (id: string) =>
+      this.load().disputes.find((dispute) => dispute.id === id) || null,
+
+    findByStripeDisputeId: async (stripeDisputeId: string) =>
+      this.load().disputes.find(
+        (dispute) => dispute.stripe_dispute_id === stripeDisputeId,
+      ) || null,
+
+    list: async () => {
+      const data = this.load();
+      return [...data.disputes].sort(byNewest).map((dispute) => {
+        const booking = data.bookings.find((b) => b.id === dispute.booking_id);
+        return { ...dispute, booking: booking ? { pnr: booking.pnr } : null };
+      });
+    },
+
+    create: async (dispute) =>
+      this.insert("disputes", {
+        transaction_id: null,
+        booking_id: null,
+        stripe_charge_id: null,
+        evidence_due_by: null,
+        evidence_text: null,
+        evidence_submitted_at: null,
+        closed_at: null,
+        created_at: now(),
+        updated_at: now(),
+        ...dispute,
+        id: dispute.id || generateId("dispute"),
+      }),
+
+    update: async (id: string, updates: Partial<DisputeRecord>) =>
+      this.patch("disputes", (dispute) => dispute.id === id, updates),
+  } satisfies DataStore["disputes"];
+
+  webhookEvents = {
+    find: async (provider: WebhookProvider, eventId: string) =>
+      this.load().webhook_events.find(
+        (event) => event.provider === provider && event.event_id === eventId,
+      ) || null,
+
+    create: async (event) =>
+      this.insert("webhook_events", {
+        processed_at: now(),
+        ...event,
+        id: event.id || generateId("whevt"),
+      }),
+  } satisfies DataStore["webhookEvents"];
+
+  currencyRates = {
+    list: async () => [...this.load().currency_rates],
+
+    upsert: async (rate) => {
+      const currency = rate.currency.toUpperCase();
+      const updated = await this.patch(
+        "currency_rates",
+        (record) => record.currency === currency,
+        { updated_by: null, ...rate, currency },
+      );
+
+      return (
+        updated ||
+        this.insert("currency_rates", {
+          updated_by: null,
+          ...rate,
+          currency,
+          updated_at: now(),
+        })
+      );
+    },
+  } satisfies DataStore["currencyRates"];
+
+  promoCodes = {
+    findById: async (id: string) =>
+      this.load().promo_codes.find((promo) => promo.id === id) || null,
+
+    findByCode: async (code: string) =>
+      this.load().promo_codes.find(
+        (promo) => promo.code === code.toUpperCase(),
+      ) || null,
+
+    list: async () => [...this.load().promo_codes].sort(byNewest),
+
+    create: async (promoCode) =>
+      this.insert("promo_codes", {
+        description: null,
+        max_redemptions: null,
+        per_user_limit: null,
+        valid_from: null,
+        valid_until: null,
+        min_passengers: null,
+        routes: null,
+        active: true,
+        created_by: null,
+        created_at: now(),
+        updated_at: now(),
+        ...promoCode,
+        code: promoCode.code.toUpperCase(),
+        id: promoCode.id || generateId("promo"),
+      }),
+
+    update: async (id: string, updates: Partial<PromoCodeRecord>) =>
+      this.patch("promo_codes", (promo) => promo.id === id, {
+        ...updates,
+        ...(updates.code && { code: updates.code.toUpperCase() }),
+      }),
+
+    delete: async (id: string) => {
+      await this.remove("promo_codes", (promo) => promo.id === id);
+    },
+  } satisfies DataStore["promoCodes"];
+
+  promoRedemptions = {
+    listByPromoCode: async (promoCodeId: string) =>
+      this.load().promo_redemptions.filter(
+        (redemption) => redemption.promo_code_id === promoCodeId,
+      ),
+
+    create: async (redemption) =>
+      this.insert("promo_redemptions", {
+        user_id: null,
+        created_at: now(),
+        ...redemption,
+        id: redemption.id || generateId("redeem"),
+      }),
+
+    deleteByBooking: async (bookingId: string) => {
+      await this.remove(
+        "promo_redemptions",
+        (redemption) => redemption.booking_id === bookingId,
+      );
+    },
+  } satisfies DataStore["promoRedemptions"];
+
+  supportTickets = {
+    findById: async (id: string) =>
+      this.withTicketUser(
+        this.load().support_tickets.find((ticket) => ticket.id === id),
+      ),
+
+    listByUser: async (userId: string) =>
+      this.load()
+        .support_tickets.filter((ticket) => ticket.user_id === userId)
+        .sort(byNewest),
+
+    list: async () =>
+      [...this.load().support_tickets]
+        .sort(byNewest)
+        .map((ticket) => this.withTicketUser(ticket)),
+
+    create: async (ticket) =>
+      this.insert("support_tickets", {
+        status: "open",
+        priority: "medium",
+        admin_response: null,
+        resolved_at: null,
+        created_at: now(),
+        updated_at: now(),
+        ...ticket,
+        id: ticket.id || generateId("ticket"),
+      }),
+
+    update: async (id: string, updates: Partial<SupportTicketRecord>) =>
+      this.patch("support_tickets", (ticket) => ticket.id === id, updates),
+  } satisfies DataStore["supportTickets"];
+
+  tokens = {
+    find: async (token: string, type: TokenType) =>
+      this.load().tokens.find(
+        (record) => record.token === token && record.type === type,
+      ) || null,
+
+    findLatestByEmail: async (email: string, type: TokenType) =>
+      this.load()
+        .tokens.filter(
+          (record) =>
+            record.type === type &&
+            record.email?.toLowerCase() === email.toLowerCase(),
+        )
+        .sort(byNewest)[0] || null,
+
+    findLatestByUser: async (userId: string, type: TokenType) =>
+      this.load()
+        .tokens.filter(
+          (record) => record.type === type && record.user_id === userId,
+        )
+        .sort(byNewest)[0] || null,
+
+    create: async (token) =>
+      this.insert("tokens", {
+        user_id: null,
+        email: null,
+        consumed_at: null,
+        created_at: now(),
+        ...token,
+      }),
+
+    consume: async (token: string) =>
+      this.patch(
+        "tokens",
+        (record) => record.token === token && !record.consumed_at,
+        { consumed_at: now() },
+      ),
+
+    delete: async (token: string) => {
+      await this.remove("tokens", (record) => record.token === token);
+    },
+
+    deleteByEmail: async (email: string, type: TokenType) => {
+      await this.remove(
+        "tokens",
+        (record) =>
+          record.type === type &&
+          record.email?.toLowerCase() === email.toLowerCase(),
+      );
+    },
+
+    deleteByUser: async (userId: string, type: TokenType) => {
+      await this.remove(
+        "tokens",
+        (record) => record.type === type && record.user_id === userId,
+      );
+    },
+
+    deleteExpired: async () =>
+      this.remove(
+        "tokens",
+        (record) => new Date(record.expires_at).getTime() < Date.now(),
+      ),
+  } satisfies DataStore["tokens"];
+
+  sessions = {
+    findById: async (id: string) =>
+      this.load().sessions.find((session) => session.id === id) || null,
+
+    listActiveByUser: async (userId: string) =>
+      this.load()
+        .sessions.filter(
+          (session) =>
+            session.user_id === userId &&
+            !session.revoked_at &&
+            new Date(session.expires_at).getTime() > Date.now(),
+        )
+        .sort(
+          (a, b) =>
+            new Date(b.last_used_at).getTime() -
+            new Date(a.last_used_at).getTime(),
+        ),
+
+    create: async (session) =>
+      this.insert("sessions", {
+        user_agent: null,
+        ip_address: null,
+        created_at: now(),
+        last_used_at: now(),
+        revoked_at: null,
+        ...session,
+        id: session.id || generateId("session"),
+      }),
+
+    update: async (id: string, updates: Partial<SessionRecord>) =>
+      this.patch("sessions", (session) => session.id === id, updates),
+
+    revokeByUser: async (userId: string, exceptId?: string) => {
+      const revoked = this.load().sessions.filter(
+        (session) =>
+          session.user_id === userId &&
+          session.id !== exceptId &&
+          !session.revoked_at,
+      );
+      revoked.forEach((session) => {
+        session.revoked_at = now();
+      });
+      if (revoked.length > 0) {
+        await this.persist();
+      }
+      return revoked.length;
+    },
+
+    // Revoked sessions are kept until they would have expired
+    deleteExpired: async () =>
+      this.remove(
+        "sessions",
+        (session) => new Date(session.expires_at).getTime() < Date.now(),
+      ),
+  } satisfies DataStore["sessions"];
+
+  twoFactor = {
+    findByUser: async (userId: string) =>
+      this.load().two_factor.find((record) => record.user_id === userId) ||
+      null,
+
+    save: async (record) => {
+      await this.remove("two_factor", (r) => r.user_id === record.user_id);
+      return this.insert("two_factor", {
+        enabled_at: null,
+        recovery_code_hashes: [],
+        last_used_step: null,
+        failed_attempts: 0,
+        locked_until: null,
+        created_at: now(),
+        updated_at: now(),
+        ...record,
+      });
+    },
+
+    update: async (userId: string, updates: Partial<TwoFactorRecord>) =>
+      this.patch("two_factor", (record) => record.user_id === userId, updates),
+
+    delete: async (userId: string) => {
+      await this.remove("two_factor", (record) => record.user_id === userId);
+    },
+  } satisfies DataStore["twoFactor"];
+
+  private withTransactionRelations(
+    transaction: TransactionRecord,
+  ): TransactionRecord {
+    const data = this.load();
+    const booking = data.bookings.find((b) => b.id === transaction.booking_id);
+    const user = data.users.find((u) => u.id === transaction.user_id);
+
+    return {
+      ...transaction,
+      booking: booking
+        ? { pnr: booking.pnr, total_amount: booking.total_amount }
+        : null,
+      user: user
+        ? {
+            first_name: user.first_name,
+            last_name: user.last_name,
+            email: user.email,
+          }
+        : null,
+    };
+  }
+
+  private withTicketUser(
+    ticket?: SupportTicketRecord,
+  ): SupportTicketRecord | null {
+    if (!ticket) {
+      return null;
+    }
+
+    const user = this.load().users.find((u) => u.id === ticket.user_id);
+    return {
+      ...ticket,
+      user: user
+        ? {
+            first_name: user.first_name,
+            last_name: user.last_name,
+            email: user.email,
+          }
+        : null,
+    };
+  }
+}
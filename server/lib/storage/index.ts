@@ -0,0 +1,84 @@
+import path from "path";
+import { FileDataStore } from "./fileStore";
+import { SupabaseDataStore } from "./supabaseStore";
+import { DataStore } from "./types";
+
+export * from "./types";
+export * from "./mappers";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check if Supabase is properly configured for server-side use
+ */
+export const isSupabaseConfigured = (): boolean => {
+  return !!(
+    process.env.SUPABASE_URL &&
+    process.env.SUPABASE_SERVICE_ROLE_KEY &&
+    !process.env.SUPABASE_URL.includes("placeholder") &&
+    process.env.SUPABASE_SERVICE_ROLE_KEY !== "placeholder-service-role-key" &&
+    process.env.SUPABASE_SERVICE_ROLE_KEY !== "your-service-role-key"
+  );
+};
+
+/**
+ * Supabase user ids are UUIDs; local store ids never are
+ */
+export const isSupabaseUserId = (id: string): boolean => UUID_PATTERN.test(id);
+
+let localStore: FileDataStore | null = null;
+let selectedStore: DataStore | null = null;
+
+/**
+ * Local JSON file store, always available.
+ * LOCAL_DATA_FILE controls where it lives (default: ./data/onboardticket.json).
+ */
+export const getLocalDataStore = (): DataStore => {
+  if (!localStore) {
+    const filePath =
+      process.env.LOCAL_DATA_FILE ||
+      path.join(process.cwd(), "data", "onboardticket.json");
+    localStore = new FileDataStore(path.resolve(filePath));
+  }
+  return localStore;
+};
+
+/**
+ * The store selected for this process.
+ * DATA_STORE=supabase|file forces a backend; otherwise Supabase is used
+ * whenever it is configured.
+ */
+export const getDataStore = (): DataStore => {
+  if (!selectedStore) {
+    const requested = process.env.DATA_STORE?.toLowerCase();
+    const useSupabase =
+      requested === "supabase" ||
+      (requested !== "file" && isSupabaseConfigured());
+
+    selectedStore = useSupabase ? new SupabaseDataStore() : getLocalDataStore();
+    console.log(
+      `🗄️ Data store: ${selectedStore.kind === "supabase" ? "Supabase" : "local file"}`,
+    );
+  }
+  return selectedStore;
+};
+
+/**
+ * Store that owns a given user's data. Users created by the fallback auth
+ * system live in the local store even when Supabase is selected.
+ */
+export const getStoreForUser = (userId: string): DataStore => {
+  const store = getDataStore();
+  if (store.kind === "supabase" && !isSupabaseUserId(userId)) {
+    return getLocalDataStore();
+  }
+  return store;
+};
+
+/**
+ * Every store that may hold records: the selected store plus, when Supabase
+ * is selected, the local store used by fallback users.
+ */
+export const getActiveDataStores = (): DataStore[] =>
+  Array.from(new Set<DataStore>([getDataStore(), getLocalDataStore()]));
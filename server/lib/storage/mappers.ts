@@ -0,0 +1,196 @@
+import {
+  AuthSession,
+  Booking,
+  BookingEvent,
+  Dispute,
+  PromoCode,
+  Refund,
+  SupportTicket,
+  User,
+} from "@shared/api";
+import { normalizeRoles } from "../../../shared/roles";
+import {
+  AirportRecord,
+  BookingEventRecord,
+  BookingRecord,
+  DisputeRecord,
+  PassengerRecord,
+  PromoCodeRecord,
+  RefundRecord,
+  SessionRecord,
+  SupportTicketRecord,
+  TransactionRecord,
+  UserRecord,
+} from "./types";
+
+/**
+ * Transform storage records into the API shapes defined in shared/api.ts
+ */
+export const toApiUser = (user: UserRecord): User => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  title: user.title,
+  roles: normalizeRoles(user.roles),
+  emailVerifiedAt: user.email_verified_at || null,
+  createdAt: user.created_at,
+  updatedAt: user.updated_at,
+});
+
+const toApiAirport = (airport?: AirportRecord | null) => ({
+  code: airport?.code || "",
+  name: airport?.name || "",
+  city: airport?.city || "",
+  country: airport?.country || "",
+});
+
+export const toApiBooking = (
+  booking: BookingRecord,
+  passengers: PassengerRecord[] = (booking as any).passengers || [],
+): Booking => ({
+  id: booking.id,
+  userId: booking.is_guest ? null : booking.user_id,
+  pnr: booking.pnr,
+  status: booking.status,
+  route: {
+    from: toApiAirport(booking.from_airport),
+    to: toApiAirport(booking.to_airport),
+    departureDate: booking.departure_date,
+    returnDate: booking.return_date || undefined,
+    tripType: booking.trip_type,
+  },
+  passengers: passengers.map((passenger) => ({
+    id: passenger.id,
+    title: passenger.title,
+    firstName: passenger.first_name,
+    lastName: passenger.last_name,
+    email: passenger.email,
+    seats: passenger.seats || [],
+  })),
+  totalAmount: booking.total_amount,
+  currency: booking.currency || "USD",
+  createdAt: booking.created_at,
+  updatedAt: booking.updated_at,
+  // Tickets are only served through the API, never from public storage
+  ticketUrl: booking.ticket_url
+    ? `/api/bookings/${booking.id}/ticket`
+    : undefined,
+  walletUrl: booking.ticket_url
+    ? `/api/bookings/${booking.id}/wallet`
+    : undefined,
+  calendarUrl: `/api/bookings/${booking.id}/calendar.ics`,
+  selectedFlight: booking.selected_flight || null,
+  quoteId: booking.quote_id || undefined,
+  promoCode: booking.promo_code || undefined,
+  discountAmount: booking.discount_amount || undefined,
+  isGuest: booking.is_guest || undefined,
+  disputed: booking.disputed || undefined,
+});
+
+export const toApiBookingEvent = (event: BookingEventRecord): BookingEvent => ({
+  id: event.id,
+  bookingId: event.booking_id,
+  fromStatus: event.from_status,
+  toStatus: event.to_status,
+  actorType: event.actor_type,
+  actorId: event.actor_id,
+  reason: event.reason,
+  createdAt: event.created_at,
+});
+
+export const toApiSupportTicket = (
+  ticket: SupportTicketRecord,
+): SupportTicket => ({
+  id: ticket.id,
+  userId: ticket.user_id,
+  subject: ticket.subject,
+  message: ticket.message,
+  status: ticket.status,
+  priority: ticket.priority,
+  createdAt: ticket.created_at,
+  updatedAt: ticket.updated_at,
+});
+
+export const toApiTransaction = (transaction: TransactionRecord) => ({
+  id: transaction.id,
+  bookingId: transaction.booking_id,
+  userId: transaction.user_id,
+  amount: transaction.amount,
+  currency: transaction.currency,
+  method: transaction.payment_method,
+  status: transaction.status,
+  refundedAmount: transaction.refunded_amount || 0,
+  promoCode: transaction.promo_code || null,
+  transactionId: transaction.id,
+  createdAt: transaction.created_at,
+  updatedAt: transaction.updated_at,
+});
+
+export const toApiRefund = (refund: RefundRecord): Refund => ({
+  id: refund.id,
+  transactionId: refund.transaction_id,
+  bookingId: refund.booking_id,
+  amount: refund.amount,
+  currency: refund.currency,
+  provider: refund.provider,
+  providerRefundId: refund.provider_refund_id,
+  status: refund.status,
+  reason: refund.reason,
+  failureReason: refund.failure_reason,
+  createdAt: refund.created_at,
+  updatedAt: refund.updated_at,
+});
+
+export const toApiDispute = (dispute: DisputeRecord): Dispute => ({
+  id: dispute.id,
+  transactionId: dispute.transaction_id,
+  bookingId: dispute.booking_id,
+  bookingPnr: dispute.booking?.pnr,
+  stripeDisputeId: dispute.stripe_dispute_id,
+  amount: dispute.amount,
+  currency: dispute.currency,
+  reason: dispute.reason,
+  status: dispute.status,
+  evidenceDueBy: dispute.evidence_due_by,
+  evidenceText: dispute.evidence_text,
+  evidenceSubmittedAt: dispute.evidence_submitted_at,
+  closedAt: dispute.closed_at,
+  createdAt: dispute.created_at,
+  updatedAt: dispute.updated_at,
+});
+
+export const toApiPromoCode = (
+  promo: PromoCodeRecord,
+  redemptionCount?: number,
+): PromoCode => ({
+  id: promo.id,
+  code: promo.code,
+  description: promo.description,
+  discountType: promo.discount_type,
+  // Supabase returns DECIMAL columns as strings
+  discountValue: Number(promo.discount_value),
+  maxRedemptions: promo.max_redemptions,
+  perUserLimit: promo.per_user_limit,
+  validFrom: promo.valid_from,
+  validUntil: promo.valid_until,
+  minPassengers: promo.min_passengers,
+  routes: promo.routes,
+  active: promo.active,
+  redemptionCount,
+  createdAt: promo.created_at,
+  updatedAt: promo.updated_at,
+});
+
+export const toApiSession = (
+  session: SessionRecord,
+  currentSessionId?: string,
+): AuthSession => ({
+  id: session.id,
+  userAgent: session.user_agent,
+  ipAddress: session.ip_address,
+  createdAt: session.created_at,
+  lastUsedAt: session.last_used_at,
+  expiresAt: session.expires_at,
+  current: session.id === currentSessionId,
+});
@@ -0,0 +1,489 @@
+import { supabaseServerHelpers } from "../supabaseServer";
+import {
+  AirportRecord,
+  BookingEventRecord,
+  BookingRecord,
+  CurrencyRateRecord,
+  DataStore,
+  DisputeRecord,
+  ListOptions,
+  PassengerRecord,
+  PromoCodeRecord,
+  PromoRedemptionRecord,
+  RefundRecord,
+  SessionRecord,
+  TwoFactorRecord,
+  SupportTicketRecord,
+  TokenRecord,
+  TokenType,
+  TransactionRecord,
+  UserRecord,
+  WebhookEventRecord,
+  WebhookProvider,
+} from "./types";
+
+// PostgREST returns this code when .single() matches no rows
+const NO_ROWS_CODE = "PGRST116";
+
+/**
+ * Convert a Supabase { data, error } result into a value, treating
+ * "no rows" as null and any other error as a thrown exception.
+ */
+const unwrap = <T>(result: { data: any; error: any }): T | null => {
+  if (result.error) {
+    if (result.error.code === NO_ROWS_CODE) {
+      return null;
+    }
+    throw new Error(result.error.message || "Supabase operation failed");
+  }
+  return (result.data ?? null) as T | null;
+};
+
+const unwrapList = <T>(result: { data: any; error: any }): T[] =>
+  unwrap<T[]>(result) || [];
+
+const unwrapRequired = <T>(result: { data: any; error: any }): T => {
+  const value = unwrap<T>(result);
+  if (!value) {
+    throw new Error("Supabase operation returned no data");
+  }
+  return value;
+};
+
+// Joined relations are not columns and must not be written back
+const bookingColumns = (booking: Partial<BookingRecord>) => {
+  const { from_airport, to_airport, ...columns } = booking;
+  return columns;
+};
+
+/**
+ * Supabase backed store wrapping supabaseServerHelpers
+ */
+export class SupabaseDataStore implements DataStore {
+  readonly kind = "supabase" as const;
+
+  users = {
+    findById: async (id: string) =>
+      unwrap<UserRecord>(await supabaseServerHelpers.getUserById(id)),
+
+    findByEmail: async (email: string) =>
+      unwrap<UserRecord>(await supabaseServerHelpers.getUserByEmail(email)),
+
+    list: async () =>
+      unwrapList<UserRecord>(await supabaseServerHelpers.getAllUsers()),
+
+    create: async (user) => {
+      const { password_hash, ...columns } = user;
+      return unwrapRequired<UserRecord>(
+        await supabaseServerHelpers.createUser(columns as any),
+      );
+    },
+
+    update: async (id: string, updates: Partial<UserRecord>) => {
+      const { password_hash, ...columns } = updates;
+      return unwrap<UserRecord>(
+        await supabaseServerHelpers.updateUser(id, columns),
+      );
+    },
+  } satisfies DataStore["users"];
+
+  airports = {
+    findByCode: async (code: string) =>
+      unwrap<AirportRecord>(
+        await supabaseServerHelpers.getAirportByCode(code.toUpperCase()),
+      ),
+  } satisfies DataStore["airports"];
+
+  bookings = {
+    findById: async (id: string) =>
+      unwrap<BookingRecord>(await supabaseServerHelpers.getBookingById(id)),
+
+    findByPnr: async (pnr: string) =>
+      unwrap<BookingRecord>(await supabaseServerHelpers.getBookingByPnr(pnr)),
+
+    listByUser: async (userId: string) =>
+      unwrapList<BookingRecord>(
+        await supabaseServerHelpers.getBookingsByUserId(userId),
+      ),
+
+    list: async (options: ListOptions = {}) => {
+      const result = await supabaseServerHelpers.listBookings(
+        options.page,
+        options.limit,
+        options.status,
+      );
+      return {
+        items: unwrapList<BookingRecord>(result),
+        total: result.count || 0,
+      };
+    },
+
+    listPendingCreatedBefore: async (cutoff: string) =>
+      unwrapList<BookingRecord>(
+        await supabaseServerHelpers.getPendingBookingsCreatedBefore(cutoff),
+      ),
+
+    create: async (booking) => {
+      const { is_guest, ...columns } = bookingColumns(booking);
+      // Guest bookings go through the guest user workaround for RLS
+      const result = is_guest
+        ? await supabaseServerHelpers.createGuestBooking(columns as any)
+        : await supabaseServerHelpers.createBooking(columns);
+      return unwrapRequired<BookingRecord>(result);
+    },
+
+    update: async (id: string, updates: Partial<BookingRecord>) =>
+      unwrap<BookingRecord>(
+        await supabaseServerHelpers.updateBooking(
+          id,
+          bookingColumns(updates) as any,
+        ),
+      ),
+
+    updateIfStatus: async (
+      id: string,
+      status: BookingRecord["status"],
+      updates: Partial<BookingRecord>,
+    ) =>
+      unwrap<BookingRecord>(
+        await supabaseServerHelpers.updateBooking(
+          id,
+          bookingColumns(updates) as any,
+          status,
+        ),
+      ),
+  } satisfies DataStore["bookings"];
+
+  passengers = {
+    listByBooking: async (bookingId: string) =>
+      unwrapList<PassengerRecord>(
+        await supabaseServerHelpers.getPassengersByBookingId(bookingId),
+      ),
+
+    createMany: async (passengers) =>
+      unwrapList<PassengerRecord>(
+        await supabaseServerHelpers.addPassengers(passengers),
+      ),
+  } satisfies DataStore["passengers"];
+
+  bookingEvents = {
+    listByBooking: async (bookingId: string) =>
+      unwrapList<BookingEventRecord>(
+        await supabaseServerHelpers.getBookingEvents(bookingId),
+      ),
+
+    create: async (event) =>
+      unwrapRequired<BookingEventRecord>(
+        await supabaseServerHelpers.createBookingEvent(event),
+      ),
+  } satisfies DataStore["bookingEvents"];
+
+  transactions = {
+    findById: async (id: string) =>
+      unwrap<TransactionRecord>(
+        await supabaseServerHelpers.getTransactionById(id),
+      ),
+
+    listByUser: async (userId: string) =>
+      unwrapList<TransactionRecord>(
+        await supabaseServerHelpers.getUserTransactions(userId),
+      ),
+
+    listByBooking: async (bookingId: string) =>
+      unwrapList<TransactionRecord>(
+        await supabaseServerHelpers.getBookingTransactions(bookingId),
+      ),
+
+    findByStripePaymentIntent: async (paymentIntentId: string) =>
+      unwrap<TransactionRecord>(
+        await supabaseServerHelpers.getTransactionByPaymentIntent(
+          paymentIntentId,
+        ),
+      ),
+
+    findByPayPalOrder: async (orderId: string) =>
+      unwrap<TransactionRecord>(
+        await supabaseServerHelpers.getTransactionByPayPalOrder(orderId),
+      ),
+
+    list: async () =>
+      unwrapList<TransactionRecord>(
+        await supabaseServerHelpers.getAllTransactionsAdmin(),
+      ),
+
+    create: async (transaction) =>
+      unwrapRequired<TransactionRecord>(
+        await supabaseServerHelpers.createTransaction(transaction as any),
+      ),
+
+    update: async (id: string, updates: Partial<TransactionRecord>) => {
+      const { booking, user, ...columns } = updates;
+      return unwrap<TransactionRecord>(
+        await supabaseServerHelpers.updateTransaction(id, columns as any),
+      );
+    },
+  } satisfies DataStore["transactions"];
+
+  refunds = {
+    findById: async (id: string) =>
+      unwrap<RefundRecord>(await supabaseServerHelpers.getRefundById(id)),
+
+    findByIdempotencyKey: async (key: string) =>
+      unwrap<RefundRecord>(
+        await supabaseServerHelpers.getRefundByIdempotencyKey(key),
+      ),
+
+    findByProviderRefundId: async (providerRefundId: string) =>
+      unwrap<RefundRecord>(
+        await supabaseServerHelpers.getRefundByProviderId(providerRefundId),
+      ),
+
+    listByTransaction: async (transactionId: string) =>
+      unwrapList<RefundRecord>(
+        await supabaseServerHelpers.getTransactionRefunds(transactionId),
+      ),
+
+    create: async (refund) =>
+      unwrapRequired<RefundRecord>(
+        await supabaseServerHelpers.createRefund(refund),
+      ),
+
+    update: async (id: string, updates: Partial<RefundRecord>) =>
+      unwrap<RefundRecord>(
+        await supabaseServerHelpers.updateRefund(id, updates),
+      ),
+  } satisfies DataStore["refunds"];
+
+  disputes = {
+    findById: async (id: string) =>
+      unwrap<DisputeRecord>(await supabaseServerHelpers.getDisputeById(id)),
+
+    findByStripeDisputeId: async (stripeDisputeId: string) =>
+      unwrap<DisputeRecord>(
+        await supabaseServerHelpers.getDisputeByStripeId(stripeDisputeId),
+      ),
+
+    list: async () =>
+      unwrapList<DisputeRecord>(await supabaseServerHelpers.getAllDisputes()),
+
+    create: async (dispute) =>
+      unwrapRequired<DisputeRecord>(
+        await supabaseServerHelpers.createDispute(dispute),
+      ),
+
+    update: async (id: string, updates: Partial<DisputeRecord>) => {
+      const { booking, ...columns } = updates;
+      return unwrap<DisputeRecord>(
+        await supabaseServerHelpers.updateDispute(id, columns),
+      );
+    },
+  } satisfies DataStore["disputes"];
+
+  webhookEvents = {
+    find: async (provider: WebhookProvider, eventId: string) =>
+      unwrap<WebhookEventRecord>(
+        await supabaseServerHelpers.getWebhookEvent(provider, eventId),
+      ),
+
+    create: async (event) =>
+      unwrapRequired<WebhookEventRecord>(
+        await supabaseServerHelpers.createWebhookEvent(event),
+      ),
+  } satisfies DataStore["webhookEvents"];
+
+  currencyRates = {
+    list: async () =>
+      unwrapList<CurrencyRateRecord>(
+        await supabaseServerHelpers.getCurrencyRates(),
+      ),
+
+    upsert: async (rate) =>
+      unwrapRequired<CurrencyRateRecord>(
+        await supabaseServerHelpers.upsertCurrencyRate({
+          ...rate,
+          currency: rate.currency.toUpperCase(),
+        }),
+      ),
+  } satisfies DataStore["currencyRates"];
+
+  promoCodes = {
+    findById: async (id: string) =>
+      unwrap<PromoCodeRecord>(await supabaseServerHelpers.getPromoCodeById(id)),
+
+    findByCode: async (code: string) =>
+      unwrap<PromoCodeRecord>(
+        await supabaseServerHelpers.getPromoCodeByCode(code.toUpperCase()),
+      ),
+
+    list: async () =>
+      unwrapList<PromoCodeRecord>(
+        await supabaseServerHelpers.getAllPromoCodes(),
+      ),
+
+    create: async (promoCode) =>
+      unwrapRequired<PromoCodeRecord>(
+        await supabaseServerHelpers.createPromoCode({
+          ...promoCode,
+          code: promoCode.code.toUpperCase(),
+        }),
+      ),
+
+    update: async (id: string, updates: Partial<PromoCodeRecord>) =>
+      unwrap<PromoCodeRecord>(
+        await supabaseServerHelpers.updatePromoCode(id, {
+          ...updates,
+          ...(updates.code && { code: updates.code.toUpperCase() }),
+        }),
+      ),
+
+    delete: async (id: string) => {
+      unwrap(await supabaseServerHelpers.deletePromoCode(id));
+    },
+  } satisfies DataStore["promoCodes"];
+
+  promoRedemptions = {
+    listByPromoCode: async (promoCodeId: string) =>
+      unwrapList<PromoRedemptionRecord>(
+        await supabaseServerHelpers.getPromoRedemptions(promoCodeId),
+      ),
+
+    create: async (redemption) =>
+      unwrapRequired<PromoRedemptionRecord>(
+        await supabaseServerHelpers.createPromoRedemption(redemption),
+      ),
+
+    deleteByBooking: async (bookingId: string) => {
+      unwrap(
+        await supabaseServerHelpers.deletePromoRedemptionsByBooking(bookingId),
+      );
+    },
+  } satisfies DataStore["promoRedemptions"];
+
+  supportTickets = {
+    findById: async (id: string) =>
+      unwrap<SupportTicketRecord>(
+        await supabaseServerHelpers.getSupportTicketById(id),
+      ),
+
+    listByUser: async (userId: string) =>
+      unwrapList<SupportTicketRecord>(
+        await supabaseServerHelpers.getUserSupportTickets(userId),
+      ),
+
+    list: async () =>
+      unwrapList<SupportTicketRecord>(
+        await supabaseServerHelpers.getAllSupportTicketsAdmin(),
+      ),
+
+    create: async (ticket) =>
+      unwrapRequired<SupportTicketRecord>(
+        await supabaseServerHelpers.createSupportTicket(ticket),
+      ),
+
+    update: async (id: string, updates: Partial<SupportTicketRecord>) => {
+      const { user, ...columns } = updates;
+      return unwrap<SupportTicketRecord>(
+        await supabaseServerHelpers.updateSupportTicket(id, columns),
+      );
+    },
+  } satisfies DataStore["supportTickets"];
+
+  tokens = {
+    find: async (token: string, type: TokenType) =>
+      unwrap<TokenRecord>(await supabaseServerHelpers.getToken(token, type)),
+
+    findLatestByEmail: async (email: string, type: TokenType) =>
+      unwrap<TokenRecord>(
+        await supabaseServerHelpers.getLatestTokenByEmail(email, type),
+      ),
+
+    findLatestByUser: async (userId: string, type: TokenType) =>
+      unwrap<TokenRecord>(
+        await supabaseServerHelpers.getLatestTokenByUser(userId, type),
+      ),
+
+    create: async (token) =>
+      unwrapRequired<TokenRecord>(
+        await supabaseServerHelpers.createToken(token),
+      ),
+
+    consume: async (token: string) =>
+      unwrap<TokenRecord>(await supabaseServerHelpers.consumeToken(token)),
+
+    delete: async (token: string) => {
+      unwrap(await supabaseServerHelpers.deleteTokens({ token }));
+    },
+
+    deleteByEmail: async (email: string, type: TokenType) => {
+      unwrap(await supabaseServerHelpers.deleteTokens({ email, type }));
+    },
+
+    deleteByUser: async (userId: string, type: TokenType) => {
+      unwrap(
+        await supabaseServerHelpers.deleteTokens({ user_id: userId, type }),
+      );
+    },
+
+    deleteExpired: async () => {
+      const result = await supabaseServerHelpers.deleteExpiredTokens();
+      unwrap(result);
+      return result.count || 0;
+    },
+  } satisfies DataStore["tokens"];
+
+  sessions = {
+    findById: async (id: string) =>
+      unwrap<SessionRecord>(await supabaseServerHelpers.getSessionById(id)),
+
+    listActiveByUser: async (userId: string) =>
+      unwrapList<SessionRecord>(
+        await supabaseServerHelpers.getActiveSessionsByUser(userId),
+      ),
+
+    create: async (session) =>
+      unwrapRequired<SessionRecord>(
+        await supabaseServerHelpers.createSession(session),
+      ),
+
+    update: async (id: string, updates: Partial<SessionRecord>) =>
+      unwrap<SessionRecord>(
+        await supabaseServerHelpers.updateSession(id, updates),
+      ),
+
+    revokeByUser: async (userId: string, exceptId?: string) => {
+      const result = await supabaseServerHelpers.revokeSessionsByUser(
+        userId,
+        exceptId,
+      );
+      unwrap(result);
+      return result.count || 0;
+    },
+
+    deleteExpired: async () => {
+      const result = await supabaseServerHelpers.deleteExpiredSessions();
+      unwrap(result);
+      return result.count || 0;
+    },
+  } satisfies DataStore["sessions"];
+
+  twoFactor = {
+    findByUser: async (userId: string) =>
+      unwrap<TwoFactorRecord>(
+        await supabaseServerHelpers.getTwoFactorByUser(userId),
+      ),
+
+    save: async (record) =>
+      unwrapRequired<TwoFactorRecord>(
+        await supabaseServerHelpers.saveTwoFactor(record),
+      ),
+
+    update: async (userId: string, updates: Partial<TwoFactorRecord>) =>
+      unwrap<TwoFactorRecord>(
+        await supabaseServerHelpers.updateTwoFactor(userId, updates),
+      ),
+
+    delete: async (userId: string) => {
+      unwrap(await supabaseServerHelpers.deleteTwoFactor(userId));
+    },
+  } satisfies DataStore["twoFactor"];
+}
@@ -0,0 +1,619 @@
+import type { DisputeStatus, SeatAssignment, UserRole } from "@shared/api";
+import type { Database } from "../../../client/lib/supabaseClient";
+
+type Tables = Database["public"]["Tables"];
+
+/**
+ * Storage record types
+ * Records mirror the database rows (snake_case) so the Supabase store can
+ * pass rows straight through and the local store keeps the same shape.
+ */
+export interface UserRecord {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  title: "Mr" | "Ms" | "Mrs";
+  status?: "active" | "suspended" | "banned";
+  // Missing on users stored before roles existed, who are customers
+  roles?: UserRole[];
+  // Only used by the local store; Supabase keeps credentials in Supabase Auth
+  password_hash?: string | null;
+  // Set when the user follows the link in their verification email
+  email_verified_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AirportRecord {
+  id?: string;
+  code: string;
+  name: string;
+  city: string;
+  country: string;
+}
+
+export interface BookingRecord {
+  id: string;
+  user_id: string | null;
+  pnr: string;
+  status: Tables["bookings"]["Row"]["status"];
+  from_airport_id: string | null;
+  to_airport_id: string | null;
+  // Joined in Supabase, stored inline in the local store
+  from_airport?: AirportRecord | null;
+  to_airport?: AirportRecord | null;
+  departure_date: string;
+  return_date: string | null;
+  trip_type: "oneway" | "roundtrip";
+  total_amount: number;
+  currency: string;
+  contact_email: string;
+  contact_phone?: string | null;
+  terms_accepted: boolean;
+  selected_flight?: any | null;
+  ticket_url: string | null;
+  // Signed quote the total was charged from
+  quote_id?: string | null;
+  promo_code?: string | null;
+  discount_amount?: number;
+  is_guest?: boolean;
+  disputed?: boolean;
+  // White-label brand the booking was made under (see BrandService)
+  brand_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PassengerRecord {
+  id: string;
+  booking_id: string;
+  title: "Mr" | "Ms" | "Mrs";
+  first_name: string;
+  last_name: string;
+  email: string;
+  // Seat picked on each flight, from the booking's quote
+  seats?: SeatAssignment[];
+  created_at: string;
+}
+
+export interface BookingEventRecord {
+  id: string;
+  booking_id: string;
+  from_status: BookingRecord["status"] | null;
+  to_status: BookingRecord["status"];
+  actor_type: "user" | "admin" | "system";
+  actor_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  booking_id: string;
+  user_id: string | null;
+  amount: number;
+  currency: string;
+  status:
+    | "pending"
+    | "completed"
+    | "failed"
+    | "partially_refunded"
+    | "refunded";
+  payment_method: string | null;
+  payment_details: any | null;
+  stripe_payment_intent_id: string | null;
+  paypal_order_id: string | null;
+  refunded_amount?: number;
+  // Promo code applied to the booking this payment is for
+  promo_code?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined for admin listings
+  booking?: Pick<BookingRecord, "pnr" | "total_amount"> | null;
+  user?: Pick<UserRecord, "first_name" | "last_name" | "email"> | null;
+}
+
+export type RefundProvider = "stripe" | "paypal" | "manual";
+
+export interface RefundRecord {
+  id: string;
+  transaction_id: string;
+  booking_id: string;
+  amount: number;
+  currency: string;
+  provider: RefundProvider;
+  provider_refund_id: string | null;
+  status: "pending" | "succeeded" | "failed";
+  reason: string | null;
+  failure_reason: string | null;
+  idempotency_key: string;
+  attempts: number;
+  requested_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisputeRecord {
+  id: string;
+  transaction_id: string | null;
+  booking_id: string | null;
+  stripe_dispute_id: string;
+  stripe_charge_id: string | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: DisputeStatus;
+  evidence_due_by: string | null;
+  evidence_text: string | null;
+  evidence_submitted_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  booking?: Pick<BookingRecord, "pnr"> | null;
+}
+
+export type WebhookProvider = "stripe" | "paypal";
+
+// A provider webhook event that has been handled; redeliveries are skipped
+export interface WebhookEventRecord {
+  id: string;
+  provider: WebhookProvider;
+  event_id: string;
+  event_type: string;
+  processed_at: string;
+}
+
+// Exchange rate and service fee schedule for one payment currency
+export interface CurrencyRateRecord {
+  currency: string;
+  // Units of this currency per 1 USD
+  rate: number;
+  service_fee: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type PromoDiscountType = "percentage" | "fixed";
+
+export interface PromoCodeRecord {
+  id: string;
+  // Stored uppercase; codes are matched case-insensitively
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  // Percent off, or an amount in USD converted to the quote currency
+  discount_value: number;
+  max_redemptions: number | null;
+  per_user_limit: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  min_passengers: number | null;
+  // Allowed "FROM-TO" airport pairs; null allows every route
+  routes: string[] | null;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A promo code applied to a booking; released if the booking is cancelled
+export interface PromoRedemptionRecord {
+  id: string;
+  promo_code_id: string;
+  booking_id: string;
+  user_id: string | null;
+  email: string;
+  discount_amount: number;
+  currency: string;
+  created_at: string;
+}
+
+export interface SupportTicketRecord {
+  id: string;
+  user_id: string;
+  subject: string;
+  message: string;
+  category: "booking" | "payment" | "technical" | "general";
+  status: "open" | "in_progress" | "resolved" | "closed";
+  priority: "low" | "medium" | "high" | "urgent";
+  admin_response: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  user?: Pick<UserRecord, "first_name" | "last_name" | "email"> | null;
+}
+
+export type TokenType =
+  | "email_verification"
+  | "calendar_feed"
+  | "password_reset"
+  | "two_factor_challenge";
+
+export interface TokenRecord {
+  token: string;
+  type: TokenType;
+  user_id: string | null;
+  email: string | null;
+  expires_at: string;
+  consumed_at: string | null;
+  created_at: string;
+}
+
+// A signed-in device. Only a hash of its current refresh token is kept.
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+// A user's authenticator app enrolment. The secret only counts once
+// enabled_at is set; recovery codes are kept as hashes.
+export interface TwoFactorRecord {
+  user_id: string;
+  secret: string;
+  enabled_at: string | null;
+  recovery_code_hashes: string[];
+  // Time step of the last accepted code, so no code is accepted twice
+  last_used_step: number | null;
+  failed_attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Insert/update payloads
+ */
+type Optional<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+
+export type NewUser = Optional<
+  UserRecord,
+  "id" | "status" | "password_hash" | "created_at" | "updated_at"
+>;
+
+export type NewBooking = Optional<
+  BookingRecord,
+  | "id"
+  | "pnr"
+  | "status"
+  | "currency"
+  | "ticket_url"
+  | "return_date"
+  | "created_at"
+  | "updated_at"
+>;
+
+export type NewPassenger = Optional<PassengerRecord, "id" | "created_at">;
+
+export type NewBookingEvent = Optional<
+  BookingEventRecord,
+  "id" | "from_status" | "actor_id" | "reason" | "created_at"
+>;
+
+export type NewTransaction = Optional<
+  TransactionRecord,
+  | "id"
+  | "status"
+  | "currency"
+  | "payment_details"
+  | "stripe_payment_intent_id"
+  | "paypal_order_id"
+  | "refunded_amount"
+  | "created_at"
+  | "updated_at"
+  | "booking"
+  | "user"
+>;
+
+export type NewRefund = Optional<
+  RefundRecord,
+  | "id"
+  | "status"
+  | "provider_refund_id"
+  | "reason"
+  | "failure_reason"
+  | "attempts"
+  | "requested_by"
+  | "created_at"
+  | "updated_at"
+>;
+
+export type NewDispute = Optional<
+  DisputeRecord,
+  | "id"
+  | "transaction_id"
+  | "booking_id"
+  | "stripe_charge_id"
+  | "evidence_due_by"
+  | "evidence_text"
+  | "evidence_submitted_at"
+  | "closed_at"
+  | "created_at"
+  | "updated_at"
+  | "booking"
+>;
+
+export type NewWebhookEvent = Optional<
+  WebhookEventRecord,
+  "id" | "processed_at"
+>;
+
+export type NewCurrencyRate = Optional<
+  CurrencyRateRecord,
+  "updated_by" | "updated_at"
+>;
+
+export type NewPromoCode = Optional<
+  PromoCodeRecord,
+  | "id"
+  | "description"
+  | "max_redemptions"
+  | "per_user_limit"
+  | "valid_from"
+  | "valid_until"
+  | "min_passengers"
+  | "routes"
+  | "active"
+  | "created_by"
+  | "created_at"
+  | "updated_at"
+>;
+
+export type NewPromoRedemption = Optional<
+  PromoRedemptionRecord,
+  "id" | "user_id" | "created_at"
+>;
+
+export type NewSupportTicket = Optional<
+  SupportTicketRecord,
+  | "id"
+  | "status"
+  | "priority"
+  | "admin_response"
+  | "resolved_at"
+  | "created_at"
+  | "updated_at"
+  | "user"
+>;
+
+export type NewToken = Optional<
+  TokenRecord,
+  "user_id" | "email" | "consumed_at" | "created_at"
+>;
+
+export type NewSession = Optional<
+  SessionRecord,
+  | "id"
+  | "user_agent"
+  | "ip_address"
+  | "created_at"
+  | "last_used_at"
+  | "revoked_at"
+>;
+
+export type NewTwoFactor = Optional<
+  TwoFactorRecord,
+  | "enabled_at"
+  | "recovery_code_hashes"
+  | "last_used_step"
+  | "failed_attempts"
+  | "locked_until"
+  | "created_at"
+  | "updated_at"
+>;
+
+export interface ListOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * Repository contracts
+ * Lookups resolve to null when nothing matches; storage failures throw.
+ */
+export interface UserRepository {
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  list(): Promise<UserRecord[]>;
+  create(user: NewUser): Promise<UserRecord>;
+  update(id: string, updates: Partial<UserRecord>): Promise<UserRecord | null>;
+}
+
+export interface AirportRepository {
+  findByCode(code: string): Promise<AirportRecord | null>;
+}
+
+export interface BookingRepository {
+  findById(id: string): Promise<BookingRecord | null>;
+  findByPnr(pnr: string): Promise<BookingRecord | null>;
+  listByUser(userId: string): Promise<BookingRecord[]>;
+  list(options?: ListOptions): Promise<ListResult<BookingRecord>>;
+  listPendingCreatedBefore(cutoff: string): Promise<BookingRecord[]>;
+  create(booking: NewBooking): Promise<BookingRecord>;
+  update(
+    id: string,
+    updates: Partial<BookingRecord>,
+  ): Promise<BookingRecord | null>;
+  // Updates a booking only while it is still in the given status; null when
+  // it doesn't exist or has moved on
+  updateIfStatus(
+    id: string,
+    status: BookingRecord["status"],
+    updates: Partial<BookingRecord>,
+  ): Promise<BookingRecord | null>;
+}
+
+export interface PassengerRepository {
+  listByBooking(bookingId: string): Promise<PassengerRecord[]>;
+  createMany(passengers: NewPassenger[]): Promise<PassengerRecord[]>;
+}
+
+export interface BookingEventRepository {
+  listByBooking(bookingId: string): Promise<BookingEventRecord[]>;
+  create(event: NewBookingEvent): Promise<BookingEventRecord>;
+}
+
+export interface TransactionRepository {
+  findById(id: string): Promise<TransactionRecord | null>;
+  listByUser(userId: string): Promise<TransactionRecord[]>;
+  listByBooking(bookingId: string): Promise<TransactionRecord[]>;
+  findByStripePaymentIntent(
+    paymentIntentId: string,
+  ): Promise<TransactionRecord | null>;
+  findByPayPalOrder(orderId: string): Promise<TransactionRecord | null>;
+  list(): Promise<TransactionRecord[]>;
+  create(transaction: NewTransaction): Promise<TransactionRecord>;
+  update(
+    id: string,
+    updates: Partial<TransactionRecord>,
+  ): Promise<TransactionRecord | null>;
+}
+
+export interface RefundRepository {
+  findById(id: string): Promise<RefundRecord | null>;
+  findByIdempotencyKey(key: string): Promise<RefundRecord | null>;
+  findByProviderRefundId(
+    providerRefundId: string,
+  ): Promise<RefundRecord | null>;
+  listByTransaction(transactionId: string): Promise<RefundRecord[]>;
+  create(refund: NewRefund): Promise<RefundRecord>;
+  update(
+    id: string,
+    updates: Partial<RefundRecord>,
+  ): Promise<RefundRecord | null>;
+}
+
+export interface SupportTicketRepository {
+  findById(id: string): Promise<SupportTicketRecord | null>;
+  listByUser(userId: string): Promise<SupportTicketRecord[]>;
+  list(): Promise<SupportTicketRecord[]>;
+  create(ticket: NewSupportTicket): Promise<SupportTicketRecord>;
+  update(
+    id: string,
+    updates: Partial<SupportTicketRecord>,
+  ): Promise<SupportTicketRecord | null>;
+}
+
+export interface TokenRepository {
+  find(token: string, type: TokenType): Promise<TokenRecord | null>;
+  findLatestByEmail(
+    email: string,
+    type: TokenType,
+  ): Promise<TokenRecord | null>;
+  findLatestByUser(
+    userId: string,
+    type: TokenType,
+  ): Promise<TokenRecord | null>;
+  create(token: NewToken): Promise<TokenRecord>;
+  // Marks a token used; null when it doesn't exist or was already used
+  consume(token: string): Promise<TokenRecord | null>;
+  delete(token: string): Promise<void>;
+  deleteByEmail(email: string, type: TokenType): Promise<void>;
+  deleteByUser(userId: string, type: TokenType): Promise<void>;
+  deleteExpired(): Promise<number>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<SessionRecord | null>;
+  // Sessions that are neither revoked nor expired, most recently used first
+  listActiveByUser(userId: string): Promise<SessionRecord[]>;
+  create(session: NewSession): Promise<SessionRecord>;
+  update(
+    id: string,
+    updates: Partial<SessionRecord>,
+  ): Promise<SessionRecord | null>;
+  // Resolves to the number of sessions revoked
+  revokeByUser(userId: string, exceptId?: string): Promise<number>;
+  deleteExpired(): Promise<number>;
+}
+
+export interface TwoFactorRepository {
+  findByUser(userId: string): Promise<TwoFactorRecord | null>;
+  // Replaces any earlier enrolment of the user
+  save(record: NewTwoFactor): Promise<TwoFactorRecord>;
+  update(
+    userId: string,
+    updates: Partial<TwoFactorRecord>,
+  ): Promise<TwoFactorRecord | null>;
+  delete(userId: string): Promise<void>;
+}
+
+export interface DisputeRepository {
+  findById(id: string): Promise<DisputeRecord | null>;
+  findByStripeDisputeId(stripeDisputeId: string): Promise<DisputeRecord | null>;
+  // Newest first, with the booking PNR attached
+  list(): Promise<DisputeRecord[]>;
+  create(dispute: NewDispute): Promise<DisputeRecord>;
+  update(
+    id: string,
+    updates: Partial<DisputeRecord>,
+  ): Promise<DisputeRecord | null>;
+}
+
+export interface WebhookEventRepository {
+  find(
+    provider: WebhookProvider,
+    eventId: string,
+  ): Promise<WebhookEventRecord | null>;
+  create(event: NewWebhookEvent): Promise<WebhookEventRecord>;
+}
+
+export interface CurrencyRateRepository {
+  list(): Promise<CurrencyRateRecord[]>;
+  // Insert or replace the row for rate.currency
+  upsert(rate: NewCurrencyRate): Promise<CurrencyRateRecord>;
+}
+
+export interface PromoCodeRepository {
+  findById(id: string): Promise<PromoCodeRecord | null>;
+  findByCode(code: string): Promise<PromoCodeRecord | null>;
+  // Newest first
+  list(): Promise<PromoCodeRecord[]>;
+  create(promoCode: NewPromoCode): Promise<PromoCodeRecord>;
+  update(
+    id: string,
+    updates: Partial<PromoCodeRecord>,
+  ): Promise<PromoCodeRecord | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PromoRedemptionRepository {
+  listByPromoCode(promoCodeId: string): Promise<PromoRedemptionRecord[]>;
+  create(redemption: NewPromoRedemption): Promise<PromoRedemptionRecord>;
+  deleteByBooking(bookingId: string): Promise<void>;
+}
+
+export type DataStoreKind = "supabase" | "file";
+
+export interface DataStore {
+  kind: DataStoreKind;
+  users: UserRepository;
+  airports: AirportRepository;
+  bookings: BookingRepository;
+  passengers: PassengerRepository;
+  bookingEvents: BookingEventRepository;
+  transactions: TransactionRepository;
+  refunds: RefundRepository;
+  disputes: DisputeRepository;
+  webhookEvents: WebhookEventRepository;
+  currencyRates: CurrencyRateRepository;
+  promoCodes: PromoCodeRepository;
+  promoRedemptions: PromoRedemptionRepository;
+  supportTickets: SupportTicketRepository;
+  tokens: TokenRepository;
+  sessions: SessionRepository;
+  twoFactor: TwoFactorRepository;
+}
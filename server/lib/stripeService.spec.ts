@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import StripeService from "./stripeService";
+
+const booking = { id: "booking-1", total_amount: 129.99, currency: "EUR" };
+
+const paymentIntent = {
+  amount: 12999,
+  currency: "eur",
+  metadata: { bookingId: "booking-1" },
+};
+
+describe("StripeService.checkPaymentIntentForBooking", () => {
+  it("should accept an intent created for the booking's total", () => {
+    expect(
+      StripeService.checkPaymentIntentForBooking(paymentIntent, booking),
+    ).toBeNull();
+  });
+
+  it("should reject an intent for another booking", () => {
+    expect(
+      StripeService.checkPaymentIntentForBooking(
+        { ...paymentIntent, metadata: { bookingId: "booking-2" } },
+        booking,
+      ),
+    ).toBe("Payment was made for a different booking");
+  });
+
+  it("should reject an intent for a different amount or currency", () => {
+    expect(
+      StripeService.checkPaymentIntentForBooking(
+        { ...paymentIntent, amount: 100 },
+        booking,
+      ),
+    ).toBe("Payment amount does not match the booking total");
+    expect(
+      StripeService.checkPaymentIntentForBooking(
+        { ...paymentIntent, currency: "usd" },
+        booking,
+      ),
+    ).toBe("Payment amount does not match the booking total");
+  });
+});
@@ -22,6 +22,14 @@ export interface StripePaymentMethodData {
   paymentIntentId: string;
 }
 
+export interface StripeRefundOptions {
+  idempotencyKey?: string;
+  metadata?: Record<string, string>;
+}
+
+// Stripe amounts are in the currency's minor unit (cents)
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+
 export class StripeService {
   /**
    * Check if Stripe is available
@@ -44,7 +52,7 @@ export class StripeService {
 
     try {
       const paymentIntent = await stripe!.paymentIntents.create({
-        amount: Math.round(data.amount * 100), // Convert to cents
+        amount: toMinorUnits(data.amount),
         currency: data.currency.toLowerCase(),
         metadata: {
           bookingId: data.bookingId,
@@ -117,6 +125,62 @@ export class StripeService {
     }
   }
 
+  /**
+   * Cancel a payment intent that has not taken any money. Resolves to false
+   * when it is already processing or has succeeded, so it can't be stopped.
+   */
+  static async cancelUnpaidPaymentIntent(
+    paymentIntentId: string,
+  ): Promise<boolean> {
+    const paymentIntent = await this.retrievePaymentIntent(paymentIntentId);
+
+    if (paymentIntent.status === "canceled") {
+      return true;
+    }
+    if (
+      paymentIntent.status === "processing" ||
+      paymentIntent.status === "requires_capture" ||
+      paymentIntent.status === "succeeded"
+    ) {
+      return false;
+    }
+
+    try {
+      await stripe!.paymentIntents.cancel(paymentIntentId);
+      return true;
+    } catch (error) {
+      console.error("Stripe Payment Intent cancellation failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Why a payment intent can't pay for a booking, or null when it can. An
+   * intent only pays for the booking it was created for, at the booking's
+   * total and currency.
+   */
+  static checkPaymentIntentForBooking(
+    paymentIntent: Pick<
+      Stripe.PaymentIntent,
+      "amount" | "currency" | "metadata"
+    >,
+    booking: { id: string; total_amount: number; currency?: string | null },
+  ): string | null {
+    if (paymentIntent.metadata?.bookingId !== booking.id) {
+      return "Payment was made for a different booking";
+    }
+
+    if (
+      paymentIntent.amount !== toMinorUnits(booking.total_amount) ||
+      paymentIntent.currency.toUpperCase() !==
+        (booking.currency || "USD").toUpperCase()
+    ) {
+      return "Payment amount does not match the booking total";
+    }
+
+    return null;
+  }
+
   /**
    * Create a Customer
    */
@@ -142,11 +206,13 @@ export class StripeService {
   }
 
   /**
-   * Refund a Payment Intent
+   * Refund a Payment Intent. Omitting the amount refunds the remaining
+   * balance; the idempotency key makes retries safe.
    */
   static async refundPayment(
     paymentIntentId: string,
     amount?: number,
+    options: StripeRefundOptions = {},
   ): Promise<Stripe.Refund> {
     if (!this.isStripeAvailable()) {
       throw new Error(
@@ -160,16 +226,51 @@ export class StripeService {
       };
 
       if (amount) {
-        refundData.amount = Math.round(amount * 100); // Convert to cents
+        refundData.amount = toMinorUnits(amount);
       }
 
-      return await stripe!.refunds.create(refundData);
+      if (options.metadata) {
+        refundData.metadata = options.metadata;
+      }
+
+      return await stripe!.refunds.create(
+        refundData,
+        options.idempotencyKey
+          ? { idempotencyKey: options.idempotencyKey }
+          : undefined,
+      );
     } catch (error) {
       console.error("Stripe refund failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Attach evidence to a dispute. Submitting sends it to the card issuer
+   * and cannot be undone; otherwise the evidence is saved as a draft.
+   */
+  static async updateDisputeEvidence(
+    disputeId: string,
+    evidenceText: string,
+    submit: boolean,
+  ): Promise<Stripe.Dispute> {
+    if (!this.isStripeAvailable()) {
+      throw new Error(
+        "Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.",
+      );
+    }
+
+    try {
+      return await stripe!.disputes.update(disputeId, {
+        evidence: { uncategorized_text: evidenceText },
+        submit,
+      });
+    } catch (error) {
+      console.error("Stripe dispute update failed:", error);
+      throw error;
+    }
+  }
+
   /**
    * Verify webhook signature
    */
@@ -68,6 +68,51 @@ export const supabaseServerHelpers = {
     return await supabase.from("users").select("*").eq("email", email).single();
   },
 
+  async updateUser(
+    id: string,
+    updates: Database["public"]["Tables"]["users"]["Update"],
+  ) {
+    return await supabase
+      .from("users")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
+  async getAllUsers() {
+    return await supabase
+      .from("users")
+      .select("*")
+      .order("created_at", { ascending: false });
+  },
+
+  // Booking operations
+  async createBooking(bookingData: any) {
+    return await supabase
+      .from("bookings")
+      .insert({
+        pnr: this.generatePNR(),
+        status: "pending",
+        currency: "USD",
+        ...bookingData,
+      })
+      .select(
+        `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      )
+      .single();
+  },
+
+  async addPassengers(
+    passengers: Database["public"]["Tables"]["passengers"]["Insert"][],
+  ) {
+    return await supabase.from("passengers").insert(passengers).select();
+  },
+
   // Guest booking operations
   async createGuestBooking(bookingData: {
     from_airport_id: string;
@@ -76,9 +121,14 @@ export const supabaseServerHelpers = {
     return_date?: string | null;
     trip_type: string;
     total_amount: number;
+    currency?: string;
     contact_email: string;
     contact_phone?: string | null;
     terms_accepted: boolean;
+    selected_flight?: any | null;
+    quote_id?: string | null;
+    promo_code?: string | null;
+    discount_amount?: number;
   }) {
     const pnr = this.generatePNR();
 
@@ -93,9 +143,13 @@ export const supabaseServerHelpers = {
       contact_email: bookingData.contact_email,
       contact_phone: bookingData.contact_phone,
       terms_accepted: bookingData.terms_accepted,
+      selected_flight: bookingData.selected_flight || null,
+      quote_id: bookingData.quote_id || null,
+      promo_code: bookingData.promo_code || null,
+      discount_amount: bookingData.discount_amount || 0,
       pnr,
       status: "pending",
-      currency: "USD",
+      currency: bookingData.currency || "USD",
       user_id: null, // Guest booking has no user
     };
 
@@ -133,6 +187,68 @@ export const supabaseServerHelpers = {
       .order("created_at", { ascending: false });
   },
 
+  async getBookingsByUserId(userId: string) {
+    return await supabase
+      .from("bookings")
+      .select(
+        `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      )
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+  },
+
+  async listBookings(page = 1, limit = 10, status?: string) {
+    let query = supabase.from("bookings").select(
+      `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      { count: "exact" },
+    );
+
+    if (status && status !== "all") {
+      query = query.eq("status", status as any);
+    }
+
+    return await query
+      .order("created_at", { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+  },
+
+  async getPendingBookingsCreatedBefore(cutoff: string) {
+    return await supabase
+      .from("bookings")
+      .select(
+        `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      )
+      .eq("status", "pending")
+      .lt("created_at", cutoff)
+      .order("created_at", { ascending: true });
+  },
+
+  async getBookingByPnr(pnr: string) {
+    return await supabase
+      .from("bookings")
+      .select(
+        `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      )
+      .eq("pnr", pnr.toUpperCase())
+      .single();
+  },
+
   async getBookingById(id: string) {
     return await supabase
       .from("bookings")
@@ -161,15 +277,27 @@ export const supabaseServerHelpers = {
       .single();
   },
 
+  // With expectedStatus, only updates a booking that is still in that status
   async updateBooking(
     id: string,
     updates: Partial<Database["public"]["Tables"]["bookings"]["Update"]>,
+    expectedStatus?: Database["public"]["Tables"]["bookings"]["Row"]["status"],
   ) {
-    return await supabase
+    let query = supabase
       .from("bookings")
       .update({ ...updates, updated_at: new Date().toISOString() })
-      .eq("id", id)
-      .select()
+      .eq("id", id);
+    if (expectedStatus) {
+      query = query.eq("status", expectedStatus);
+    }
+    return await query
+      .select(
+        `
+        *,
+        from_airport:airports!from_airport_id(*),
+        to_airport:airports!to_airport_id(*)
+      `,
+      )
       .single();
   },
 
@@ -216,6 +344,25 @@ export const supabaseServerHelpers = {
     };
   },
 
+  // Booking lifecycle events
+  async createBookingEvent(
+    eventData: Database["public"]["Tables"]["booking_events"]["Insert"],
+  ) {
+    return await supabase
+      .from("booking_events")
+      .insert(eventData)
+      .select()
+      .single();
+  },
+
+  async getBookingEvents(bookingId: string) {
+    return await supabase
+      .from("booking_events")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .order("created_at", { ascending: true });
+  },
+
   async getAirportById(id: string) {
     return await supabase.from("airports").select("*").eq("id", id).single();
   },
@@ -275,6 +422,34 @@ export const supabaseServerHelpers = {
       .single();
   },
 
+  async getTransactionById(id: string) {
+    return await supabase
+      .from("transactions")
+      .select("*")
+      .eq("id", id)
+      .single();
+  },
+
+  async getBookingTransactions(bookingId: string) {
+    return await supabase
+      .from("transactions")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .order("created_at", { ascending: false });
+  },
+
+  async updateTransaction(
+    id: string,
+    updates: Database["public"]["Tables"]["transactions"]["Update"],
+  ) {
+    return await supabase
+      .from("transactions")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
   async getUserTransactions(userId: string) {
     return await supabase
       .from("transactions")
@@ -283,6 +458,228 @@ export const supabaseServerHelpers = {
       .order("created_at", { ascending: false });
   },
 
+  async getTransactionByPaymentIntent(paymentIntentId: string) {
+    return await supabase
+      .from("transactions")
+      .select("*")
+      .eq("stripe_payment_intent_id", paymentIntentId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+  },
+
+  async getTransactionByPayPalOrder(orderId: string) {
+    return await supabase
+      .from("transactions")
+      .select("*")
+      .eq("paypal_order_id", orderId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+  },
+
+  // Refund operations
+  async createRefund(
+    refundData: Database["public"]["Tables"]["refunds"]["Insert"],
+  ) {
+    return await supabase.from("refunds").insert(refundData).select().single();
+  },
+
+  async getRefundById(id: string) {
+    return await supabase.from("refunds").select("*").eq("id", id).single();
+  },
+
+  async getRefundByIdempotencyKey(key: string) {
+    return await supabase
+      .from("refunds")
+      .select("*")
+      .eq("idempotency_key", key)
+      .maybeSingle();
+  },
+
+  async getRefundByProviderId(providerRefundId: string) {
+    return await supabase
+      .from("refunds")
+      .select("*")
+      .eq("provider_refund_id", providerRefundId)
+      .maybeSingle();
+  },
+
+  async getTransactionRefunds(transactionId: string) {
+    return await supabase
+      .from("refunds")
+      .select("*")
+      .eq("transaction_id", transactionId)
+      .order("created_at", { ascending: false });
+  },
+
+  async updateRefund(
+    id: string,
+    updates: Database["public"]["Tables"]["refunds"]["Update"],
+  ) {
+    return await supabase
+      .from("refunds")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
+  // Dispute operations
+  async createDispute(
+    disputeData: Database["public"]["Tables"]["disputes"]["Insert"],
+  ) {
+    return await supabase
+      .from("disputes")
+      .insert(disputeData)
+      .select()
+      .single();
+  },
+
+  async getDisputeById(id: string) {
+    return await supabase.from("disputes").select("*").eq("id", id).single();
+  },
+
+  async getDisputeByStripeId(stripeDisputeId: string) {
+    return await supabase
+      .from("disputes")
+      .select("*")
+      .eq("stripe_dispute_id", stripeDisputeId)
+      .maybeSingle();
+  },
+
+  async getAllDisputes() {
+    return await supabase
+      .from("disputes")
+      .select(
+        `
+        *,
+        booking:bookings(pnr)
+      `,
+      )
+      .order("created_at", { ascending: false });
+  },
+
+  async updateDispute(
+    id: string,
+    updates: Database["public"]["Tables"]["disputes"]["Update"],
+  ) {
+    return await supabase
+      .from("disputes")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
+  // Webhook event operations
+  async getWebhookEvent(provider: string, eventId: string) {
+    return await supabase
+      .from("webhook_events")
+      .select("*")
+      .eq("provider", provider)
+      .eq("event_id", eventId)
+      .maybeSingle();
+  },
+
+  async createWebhookEvent(
+    eventData: Database["public"]["Tables"]["webhook_events"]["Insert"],
+  ) {
+    return await supabase
+      .from("webhook_events")
+      .insert(eventData)
+      .select()
+      .single();
+  },
+
+  // Currency rate operations
+  async getCurrencyRates() {
+    return await supabase.from("currency_rates").select("*");
+  },
+
+  async upsertCurrencyRate(
+    rateData: Database["public"]["Tables"]["currency_rates"]["Insert"],
+  ) {
+    return await supabase
+      .from("currency_rates")
+      .upsert(
+        { ...rateData, updated_at: new Date().toISOString() },
+        { onConflict: "currency" },
+      )
+      .select()
+      .single();
+  },
+
+  // Promo code operations
+  async getPromoCodeById(id: string) {
+    return await supabase.from("promo_codes").select("*").eq("id", id).single();
+  },
+
+  async getPromoCodeByCode(code: string) {
+    return await supabase
+      .from("promo_codes")
+      .select("*")
+      .eq("code", code)
+      .maybeSingle();
+  },
+
+  async getAllPromoCodes() {
+    return await supabase
+      .from("promo_codes")
+      .select("*")
+      .order("created_at", { ascending: false });
+  },
+
+  async createPromoCode(
+    promoData: Database["public"]["Tables"]["promo_codes"]["Insert"],
+  ) {
+    return await supabase
+      .from("promo_codes")
+      .insert(promoData)
+      .select()
+      .single();
+  },
+
+  async updatePromoCode(
+    id: string,
+    updates: Database["public"]["Tables"]["promo_codes"]["Update"],
+  ) {
+    return await supabase
+      .from("promo_codes")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
+  async deletePromoCode(id: string) {
+    return await supabase.from("promo_codes").delete().eq("id", id);
+  },
+
+  async getPromoRedemptions(promoCodeId: string) {
+    return await supabase
+      .from("promo_redemptions")
+      .select("*")
+      .eq("promo_code_id", promoCodeId);
+  },
+
+  async createPromoRedemption(
+    redemptionData: Database["public"]["Tables"]["promo_redemptions"]["Insert"],
+  ) {
+    return await supabase
+      .from("promo_redemptions")
+      .insert(redemptionData)
+      .select()
+      .single();
+  },
+
+  async deletePromoRedemptionsByBooking(bookingId: string) {
+    return await supabase
+      .from("promo_redemptions")
+      .delete()
+      .eq("booking_id", bookingId);
+  },
+
   // Support ticket operations
   async createSupportTicket(
     ticketData: Database["public"]["Tables"]["support_tickets"]["Insert"],
@@ -294,6 +691,31 @@ export const supabaseServerHelpers = {
       .single();
   },
 
+  async getSupportTicketById(id: string) {
+    return await supabase
+      .from("support_tickets")
+      .select(
+        `
+        *,
+        user:users(first_name, last_name, email)
+      `,
+      )
+      .eq("id", id)
+      .single();
+  },
+
+  async updateSupportTicket(
+    id: string,
+    updates: Database["public"]["Tables"]["support_tickets"]["Update"],
+  ) {
+    return await supabase
+      .from("support_tickets")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
   async getUserSupportTickets(userId: string) {
     return await supabase
       .from("support_tickets")
@@ -328,6 +750,189 @@ export const supabaseServerHelpers = {
       .single();
   },
 
+  // Token operations (email verification, calendar feeds)
+  async createToken(
+    tokenData: Database["public"]["Tables"]["auth_tokens"]["Insert"],
+  ) {
+    return await supabase
+      .from("auth_tokens")
+      .insert(tokenData)
+      .select()
+      .single();
+  },
+
+  async getToken(token: string, type: string) {
+    return await supabase
+      .from("auth_tokens")
+      .select("*")
+      .eq("token", token)
+      .eq("type", type)
+      .single();
+  },
+
+  async getLatestTokenByEmail(email: string, type: string) {
+    return await supabase
+      .from("auth_tokens")
+      .select("*")
+      .ilike("email", email)
+      .eq("type", type)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+  },
+
+  async getLatestTokenByUser(userId: string, type: string) {
+    return await supabase
+      .from("auth_tokens")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("type", type)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+  },
+
+  async consumeToken(token: string) {
+    return await supabase
+      .from("auth_tokens")
+      .update({ consumed_at: new Date().toISOString() })
+      .eq("token", token)
+      .is("consumed_at", null)
+      .select()
+      .single();
+  },
+
+  async deleteTokens(
+    filters: Partial<Record<"token" | "email" | "user_id" | "type", string>>,
+  ) {
+    let query: any = supabase.from("auth_tokens").delete();
+    for (const [column, value] of Object.entries(filters)) {
+      query =
+        column === "email"
+          ? query.ilike(column, value)
+          : query.eq(column, value);
+    }
+    return await query;
+  },
+
+  async deleteExpiredTokens() {
+    return await supabase
+      .from("auth_tokens")
+      .delete({ count: "exact" })
+      .lt("expires_at", new Date().toISOString());
+  },
+
+  // Session operations (signed-in devices)
+  async getSessionById(id: string) {
+    return await supabase
+      .from("auth_sessions")
+      .select("*")
+      .eq("id", id)
+      .single();
+  },
+
+  async getActiveSessionsByUser(userId: string) {
+    return await supabase
+      .from("auth_sessions")
+      .select("*")
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("last_used_at", { ascending: false });
+  },
+
+  async createSession(
+    sessionData: Database["public"]["Tables"]["auth_sessions"]["Insert"],
+  ) {
+    return await supabase
+      .from("auth_sessions")
+      .insert(sessionData)
+      .select()
+      .single();
+  },
+
+  async updateSession(
+    id: string,
+    updateData: Database["public"]["Tables"]["auth_sessions"]["Update"],
+  ) {
+    return await supabase
+      .from("auth_sessions")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+  },
+
+  async revokeSessionsByUser(userId: string, exceptId?: string) {
+    let query = supabase
+      .from("auth_sessions")
+      .update({ revoked_at: new Date().toISOString() }, { count: "exact" })
+      .eq("user_id", userId)
+      .is("revoked_at", null);
+
+    if (exceptId) {
+      query = query.neq("id", exceptId);
+    }
+    return await query;
+  },
+
+  async deleteExpiredSessions() {
+    return await supabase
+      .from("auth_sessions")
+      .delete({ count: "exact" })
+      .lt("expires_at", new Date().toISOString());
+  },
+
+  // Two-factor operations (authenticator app enrolments)
+  async getTwoFactorByUser(userId: string) {
+    return await supabase
+      .from("auth_two_factor")
+      .select("*")
+      .eq("user_id", userId)
+      .single();
+  },
+
+  async saveTwoFactor(
+    record: Database["public"]["Tables"]["auth_two_factor"]["Insert"],
+  ) {
+    return await supabase
+      .from("auth_two_factor")
+      .upsert(
+        {
+          enabled_at: null,
+          recovery_code_hashes: [],
+          last_used_step: null,
+          failed_attempts: 0,
+          locked_until: null,
+          ...record,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" },
+      )
+      .select()
+      .single();
+  },
+
+  async updateTwoFactor(
+    userId: string,
+    updates: Database["public"]["Tables"]["auth_two_factor"]["Update"],
+  ) {
+    return await supabase
+      .from("auth_two_factor")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .select()
+      .single();
+  },
+
+  async deleteTwoFactor(userId: string) {
+    return await supabase
+      .from("auth_two_factor")
+      .delete()
+      .eq("user_id", userId);
+  },
+
   // Admin operations
   async getAdminStats() {
     return await supabase.from("admin_dashboard_stats").select("*").single();
@@ -372,21 +977,6 @@ export const supabaseServerHelpers = {
       .order("created_at", { ascending: false });
   },
 
-  // Check if user is admin
-  async isUserAdmin(userId: string) {
-    const { data, error } = await supabase.rpc(
-      "is_admin",
-      {},
-      {
-        headers: {
-          Authorization: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`,
-        },
-      },
-    );
-
-    return !error && data === true;
-  },
-
   // Utility functions
   async cleanupExpiredBookings() {
     return await supabase.rpc("cleanup_expired_bookings");
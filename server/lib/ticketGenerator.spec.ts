@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { FlightOffer, FlightSegment } from "@shared/api";
+import { decodeBcbp } from "../../shared/bcbp";
+import TicketGenerator, { TicketData } from "./ticketGenerator";
+
+const segment = (
+  id: string,
+  from: string,
+  to: string,
+  departureAt: string,
+  arrivalAt: string,
+): FlightSegment => ({
+  id,
+  departure: { iataCode: from, terminal: "1", at: departureAt },
+  arrival: { iataCode: to, at: arrivalAt },
+  carrierCode: "BA",
+  number: `10${id}`,
+  aircraft: { code: "320" },
+  operating: { carrierCode: id === "2" ? "IB" : "BA" },
+  duration: "PT2H",
+  numberOfStops: 0,
+  blacklistedInEU: false,
+});
+
+const offer = {
+  itineraries: [
+    {
+      duration: "PT6H",
+      segments: [
+        segment(
+          "1",
+          "LOS",
+          "MAD",
+          "2030-05-01T08:00:00",
+          "2030-05-01T13:00:00",
+        ),
+        segment(
+          "2",
+          "MAD",
+          "LHR",
+          "2030-05-01T14:30:00",
+          "2030-05-01T16:00:00",
+        ),
+      ],
+    },
+    {
+      duration: "PT7H",
+      segments: [
+        segment(
+          "3",
+          "LHR",
+          "LOS",
+          "2030-05-10T09:00:00",
+          "2030-05-10T16:00:00",
+        ),
+      ],
+    },
+  ],
+  travelerPricings: [
+    {
+      fareDetailsBySegment: [
+        { segmentId: "1", cabin: "ECONOMY" },
+        { segmentId: "2", cabin: "PREMIUM_ECONOMY" },
+      ],
+    },
+  ],
+} as unknown as FlightOffer;
+
+const ticketData = (passengerCount: number): TicketData => ({
+  pnr: "ABC123",
+  customerName: "ada@example.com",
+  contactEmail: "ada@example.com",
+  route: {
+    from: "Murtala Muhammed International",
+    to: "Heathrow",
+    fromCode: "LOS",
+    toCode: "LHR",
+    departureDate: "2030-05-01",
+    returnDate: "2030-05-10",
+  },
+  passengers: Array.from({ length: passengerCount }, (_, index) => ({
+    title: "Ms",
+    firstName: `Passenger${index + 1}`,
+    lastName: "Lovelace",
+  })),
+  totalAmount: 1200,
+  currency: "USD",
+  bookingDate: "2030-04-01T00:00:00Z",
+});
+
+const countPages = (pdf: Buffer) =>
+  pdf.toString("latin1").match(/\/Type \/Page\b/g)?.length || 0;
+
+describe("TicketGenerator", () => {
+  it("should print every segment of every itinerary from the offer", () => {
+    const itineraries = TicketGenerator.buildItineraries(ticketData(1), offer);
+
+    expect(itineraries.map((itinerary) => itinerary.label)).toEqual([
+      "Outbound",
+      "Return",
+    ]);
+    expect(itineraries[0].segments).toHaveLength(2);
+    expect(itineraries[0].segments[1]).toMatchObject({
+      fromCode: "MAD",
+      toCode: "LHR",
+      toName: "Heathrow",
+      flightNumber: "102",
+      operatingCarrier: "IB",
+      cabin: "PREMIUM_ECONOMY",
+      departureTerminal: "1",
+    });
+    expect(itineraries[0].segments[0].operatingCarrier).toBeUndefined();
+  });
+
+  it("should fall back to the booked route and return date", () => {
+    const itineraries = TicketGenerator.buildItineraries(ticketData(1));
+
+    expect(itineraries).toHaveLength(2);
+    expect(itineraries[1].segments[0]).toMatchObject({
+      fromCode: "LHR",
+      toCode: "LOS",
+      departureAt: "2030-05-10",
+    });
+  });
+
+  it("should render one ticket per passenger per itinerary", async () => {
+    const data = ticketData(3);
+    data.itineraries = TicketGenerator.buildItineraries(data, offer);
+
+    const pdf = await TicketGenerator.renderTicketPDF(data);
+
+    expect(countPages(pdf)).toBe(6);
+  });
+
+  it("should encode a boarding pass per passenger per itinerary", () => {
+    const data = ticketData(2);
+    data.itineraries = TicketGenerator.buildItineraries(data, offer);
+
+    const passes = TicketGenerator.buildBoardingPasses(data);
+
+    expect(passes).toHaveLength(4);
+    expect(passes[2]).toMatchObject({
+      passengerName: "Passenger2 Lovelace",
+      itinerary: "Outbound",
+    });
+
+    const outbound = decodeBcbp(passes[2].bcbp);
+    expect(outbound.passengerName).toBe("LOVELACE/PASSENGER2");
+    expect(outbound.issueDate).toBe("0091");
+    expect(outbound.legs).toHaveLength(2);
+    expect(outbound.legs[1]).toMatchObject({
+      pnr: "ABC123",
+      fromCode: "MAD",
+      toCode: "LHR",
+      carrier: "BA",
+      flightNumber: "102",
+      julianDate: 121,
+      compartment: "W",
+      sequenceNumber: 2,
+    });
+  });
+
+  it("should only accept verification tokens it signed", () => {
+    const token = TicketGenerator.createVerificationToken("booking-1");
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from("booking-2").toString("base64url")}.${signature}`;
+
+    expect(TicketGenerator.readVerificationToken(token)).toBe("booking-1");
+    expect(TicketGenerator.readVerificationToken(forged)).toBeNull();
+    expect(TicketGenerator.readVerificationToken("booking-1")).toBeNull();
+  });
+
+  it("should continue long itineraries onto further pages", async () => {
+    const data = ticketData(1);
+    const legs = ["LOS", "ABV", "ACC", "DKR", "CMN", "MAD", "CDG", "LHR"];
+    data.itineraries = [
+      {
+        label: "Outbound",
+        segments: legs.slice(1).map((to, index) => ({
+          fromCode: legs[index],
+          toCode: to,
+          departureAt: `2030-05-0${index + 1}T08:00:00`,
+        })),
+      },
+    ];
+
+    const pdf = await TicketGenerator.renderTicketPDF(data);
+
+    expect(countPages(pdf)).toBeGreaterThan(1);
+  });
+});
@@ -1,7 +1,28 @@
 import PDFDocument from "pdfkit";
-import fs from "fs";
+import crypto from "crypto";
+import { promises as fs } from "fs";
 import path from "path";
+import bwipjs from "bwip-js/node";
 import QRCode from "qrcode";
+import {
+  BoardingPass,
+  BrandColors,
+  FlightOffer,
+  SeatAssignment,
+} from "@shared/api";
+import {
+  BCBP_MAX_LEGS,
+  BcbpBarcodeFormat,
+  compartmentForCabin,
+  encodeBcbp,
+  formatBcbpName,
+  toBcbpIssueDate,
+  toJulianDate,
+} from "../../shared/bcbp";
+import { formatMoney } from "../../shared/currency";
+import BrandService, { BrandConfig } from "./brandService";
+import type { BookingRecord, PassengerRecord } from "./storage";
+import { getTicketStore } from "./ticketStorage";
 
 export interface TicketData {
   pnr: string;
@@ -13,14 +34,19 @@ export interface TicketData {
     fromCode: string;
     toCode: string;
     departureDate: string;
+    returnDate?: string;
     departureTime?: string;
     arrivalTime?: string;
   };
+  // Flights to print; built from the route when not given
+  itineraries?: TicketItinerary[];
   passengers: Array<{
     title: string;
     firstName: string;
     lastName: string;
+    // Seat on every flight; per-flight seats in `seats` take precedence
     seatNumber?: string;
+    seats?: SeatAssignment[];
   }>;
   totalAmount: number;
   currency: string;
@@ -31,33 +57,311 @@ export interface TicketData {
   terminal?: string;
   checkInTime?: string;
   boardingTime?: string;
+  // Boarding pass barcode; TICKET_BARCODE_FORMAT (default: pdf417) otherwise
+  barcodeFormat?: BcbpBarcodeFormat;
+  // Public verification page, printed as a QR code
+  verificationUrl?: string;
+  // Colors, name and support details; the default brand otherwise
+  brand?: BrandConfig;
 }
 
-export class TicketGenerator {
-  private static readonly TICKETS_DIR = path.join(
-    process.cwd(),
-    "public",
-    "tickets",
+export interface TicketSegment {
+  // Offer segment ID, or the itinerary number for route-only bookings;
+  // matches SeatMap.segmentId
+  id?: string;
+  fromCode: string;
+  toCode: string;
+  fromName?: string;
+  toName?: string;
+  // Local airport times as Amadeus gives them, e.g. "2030-05-01T10:30:00"
+  departureAt: string;
+  arrivalAt?: string;
+  departureTerminal?: string;
+  arrivalTerminal?: string;
+  carrierCode?: string;
+  flightNumber?: string;
+  operatingCarrier?: string;
+  aircraft?: string;
+  cabin?: string;
+  // ISO 8601 duration, e.g. "PT4H30M"
+  duration?: string;
+}
+
+export interface TicketItinerary {
+  label: string;
+  segments: TicketSegment[];
+}
+
+export interface TicketDownload {
+  url: string;
+  expiresAt: string;
+}
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+type TicketDocument = InstanceType<typeof PDFDocument>;
+type TicketPassenger = TicketData["passengers"][number];
+type TicketBranding = { brand: BrandConfig; logo: Buffer | null };
+
+// Brand colors come from the booking's brand; these are the same for all
+const COLORS = {
+  text: "#20242A",
+  lightGray: "#F6F6FF",
+};
+
+// A4 height less the bottom margin
+const PAGE_BOTTOM = 802;
+const SEGMENT_HEIGHT = 85;
+const ITINERARY_LABELS = ["Outbound", "Return"];
+
+const getBarcodeFormat = (requested?: BcbpBarcodeFormat): BcbpBarcodeFormat =>
+  requested ||
+  (process.env.TICKET_BARCODE_FORMAT?.toLowerCase() === "qr" ? "qr" : "pdf417");
+
+const withTime = (date: string, time?: string) =>
+  time && /^\d{1,2}:\d{2}/.test(time)
+    ? `${date.slice(0, 10)}T${time.padStart(5, "0")}`
+    : date;
+
+// Segment times are local to each airport, so print them as written
+const formatSegmentDate = (at: string) =>
+  new Date(`${at.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-GB", {
+    timeZone: "UTC",
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatSegmentTime = (at: string) =>
+  /T\d{2}:\d{2}/.test(at) ? at.slice(11, 16) : "";
+
+const formatDuration = (duration: string) => {
+  const match = /^PT(?:(\d+)H)?(?:(\d+)M)?/.exec(duration);
+  if (!match) {
+    return duration;
+  }
+  return [
+    Number(match[1]) > 0 && `${match[1]}h`,
+    Number(match[2]) > 0 && `${match[2]}m`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+// Arrival and the next departure are at the same airport, so local times compare
+const formatLayover = (arrivalAt?: string, departureAt?: string) => {
+  if (!formatSegmentTime(arrivalAt || "") || !formatSegmentTime(departureAt)) {
+    return "";
+  }
+  const minutes = Math.round(
+    (Date.parse(departureAt.slice(0, 16)) -
+      Date.parse(arrivalAt.slice(0, 16))) /
+      60000,
   );
+  if (!(minutes > 0)) {
+    return "";
+  }
+  return formatDuration(`PT${Math.floor(minutes / 60)}H${minutes % 60}M`);
+};
+
+// Signed links and verification tokens have to outlive the process and be
+// accepted by every instance, so there is no generated fallback
+const getSigningSecret = (): string => {
+  if (!process.env.TICKET_SIGNING_SECRET) {
+    throw new Error("TICKET_SIGNING_SECRET is not set");
+  }
+  return process.env.TICKET_SIGNING_SECRET;
+};
+
+const signDownload = (bookingId: string, expires: number) =>
+  crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`${bookingId}.${expires}`)
+    .digest("base64url");
 
+const signVerification = (bookingId: string) =>
+  crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`verify.${bookingId}`)
+    .digest("base64url");
+
+export class TicketGenerator {
   /**
-   * Initialize tickets directory
+   * Throw unless TICKET_SIGNING_SECRET is set. Called at startup so a
+   * missing secret stops the server instead of breaking ticket links later.
    */
-  private static initializeTicketsDirectory(): void {
-    if (!fs.existsSync(this.TICKETS_DIR)) {
-      fs.mkdirSync(this.TICKETS_DIR, { recursive: true });
-    }
+  static requireSigningSecret(): void {
+    getSigningSecret();
+  }
+
+  /**
+   * Storage key for a booking's ticket. Bookings keep this key in
+   * `ticket_url`; older bookings hold a "/tickets/<PNR>.pdf" path, which
+   * resolves to the same key.
+   */
+  static ticketKey(ticketUrlOrPnr: string): string {
+    const name = path.posix.basename(ticketUrlOrPnr);
+    return name.endsWith(".pdf") ? name : `${name}.pdf`;
   }
 
   /**
-   * Generate a professional airline ticket PDF
+   * Generate a ticket PDF and save it to ticket storage, returning its key
    */
   static async generateTicketPDF(ticketData: TicketData): Promise<string> {
-    this.initializeTicketsDirectory();
+    const key = this.ticketKey(ticketData.pnr);
+    const pdf = await this.renderTicketPDF(ticketData);
 
-    const fileName = `${ticketData.pnr}.pdf`;
-    const filePath = path.join(this.TICKETS_DIR, fileName);
-    const publicUrl = `/tickets/${fileName}`;
+    await getTicketStore().save(key, pdf);
+    console.log(`✅ Ticket PDF generated: ${key}`);
+
+    return key;
+  }
+
+  /**
+   * Flights to print on the ticket. The selected Amadeus offer gives every
+   * segment of every itinerary; without one, the booked route (and return
+   * date) is printed as direct flights.
+   */
+  static buildItineraries(
+    ticketData: Pick<
+      TicketData,
+      "route" | "airline" | "flightNumber" | "terminal"
+    >,
+    selectedFlight?: FlightOffer | null,
+  ): TicketItinerary[] {
+    const { route } = ticketData;
+    const airportName = (code: string) =>
+      code === route.fromCode
+        ? route.from
+        : code === route.toCode
+          ? route.to
+          : undefined;
+
+    if (selectedFlight?.itineraries?.length) {
+      const cabins = new Map(
+        (selectedFlight.travelerPricings?.[0]?.fareDetailsBySegment || []).map(
+          (fare) => [fare.segmentId, fare.cabin],
+        ),
+      );
+
+      return selectedFlight.itineraries.map((itinerary, index) => ({
+        label: ITINERARY_LABELS[index] || `Journey ${index + 1}`,
+        segments: itinerary.segments.map((segment) => ({
+          id: segment.id,
+          fromCode: segment.departure.iataCode,
+          toCode: segment.arrival.iataCode,
+          fromName: airportName(segment.departure.iataCode),
+          toName: airportName(segment.arrival.iataCode),
+          departureAt: segment.departure.at,
+          arrivalAt: segment.arrival.at,
+          departureTerminal: segment.departure.terminal,
+          arrivalTerminal: segment.arrival.terminal,
+          carrierCode: segment.carrierCode,
+          flightNumber: segment.number,
+          operatingCarrier:
+            segment.operating?.carrierCode &&
+            segment.operating.carrierCode !== segment.carrierCode
+              ? segment.operating.carrierCode
+              : undefined,
+          aircraft: segment.aircraft?.code,
+          cabin: cabins.get(segment.id),
+          duration: segment.duration,
+        })),
+      }));
+    }
+
+    const itineraries: TicketItinerary[] = [
+      {
+        label: ITINERARY_LABELS[0],
+        segments: [
+          {
+            id: "1",
+            fromCode: route.fromCode,
+            toCode: route.toCode,
+            fromName: route.from,
+            toName: route.to,
+            departureAt: withTime(route.departureDate, route.departureTime),
+            arrivalAt: route.arrivalTime
+              ? withTime(route.departureDate, route.arrivalTime)
+              : undefined,
+            departureTerminal: ticketData.terminal,
+            carrierCode: ticketData.airline,
+            flightNumber: ticketData.flightNumber,
+          },
+        ],
+      },
+    ];
+
+    if (route.returnDate) {
+      itineraries.push({
+        label: ITINERARY_LABELS[1],
+        segments: [
+          {
+            id: "2",
+            fromCode: route.toCode,
+            toCode: route.fromCode,
+            fromName: route.to,
+            toName: route.from,
+            departureAt: route.returnDate,
+          },
+        ],
+      });
+    }
+
+    return itineraries;
+  }
+
+  /**
+   * Render a professional airline ticket PDF: one ticket per passenger per
+   * itinerary, each starting on a new page and continuing onto further
+   * pages when a journey has more segments than fit on one.
+   */
+  static async renderTicketPDF(ticketData: TicketData): Promise<Buffer> {
+    const itineraries = ticketData.itineraries?.length
+      ? ticketData.itineraries
+      : this.buildItineraries(ticketData);
+    const passengers = ticketData.passengers.length
+      ? ticketData.passengers
+      : [{ title: "", firstName: ticketData.customerName, lastName: "" }];
+    const format = getBarcodeFormat(ticketData.barcodeFormat);
+    const brand = ticketData.brand || BrandService.getDefaultBrand();
+    const branding: TicketBranding = {
+      brand,
+      logo: brand.ticketLogoUrl
+        ? await this.loadLogo(brand.ticketLogoUrl)
+        : null,
+    };
+    const verificationQRCode = ticketData.verificationUrl
+      ? await this.createQRCode(
+          ticketData.verificationUrl,
+          brand.colors.primary,
+        )
+      : undefined;
+    const tickets = await Promise.all(
+      passengers.flatMap((passenger, index) =>
+        itineraries.map(async (itinerary) => ({
+          passenger,
+          passengerNumber: index + 1,
+          passengerCount: passengers.length,
+          itinerary,
+          barcode: await this.createBarcode(
+            this.encodeBoardingPass(
+              ticketData,
+              passenger,
+              index + 1,
+              itinerary,
+            ),
+            format,
+          ),
+          format,
+          verificationQRCode,
+        })),
+      ),
+    );
 
     return new Promise((resolve, reject) => {
       try {
@@ -65,317 +369,690 @@ export class TicketGenerator {
         const doc = new PDFDocument({
           size: "A4",
           margin: 40,
+          autoFirstPage: false,
           info: {
             Title: `E-Ticket - ${ticketData.pnr}`,
-            Subject: "OnboardTicket E-Ticket",
-            Author: "OnboardTicket",
-            Creator: "OnboardTicket",
-            Producer: "OnboardTicket",
+            Subject: `${brand.name} E-Ticket`,
+            Author: brand.name,
+            Creator: brand.name,
+            Producer: brand.name,
           },
         });
 
-        // Stream to file
-        const stream = fs.createWriteStream(filePath);
-        doc.pipe(stream);
+        // Collect the rendered document in memory
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", (error) => {
+          console.error("❌ Error generating ticket PDF:", error);
+          reject(error);
+        });
 
-        // Colors
-        const primaryColor = "#505BFB";
-        const secondaryColor = "#878EFF";
-        const accentColor = "#C6FF9A";
-        const textColor = "#20242A";
-        const lightGray = "#F6F6FF";
+        tickets.forEach((ticket) => {
+          this.addTicketPages(doc, ticketData, branding, ticket);
+        });
 
-        // Header with company branding
-        this.addHeader(doc, primaryColor, accentColor);
+        doc.end();
+      } catch (error) {
+        console.error("❌ Error creating ticket PDF:", error);
+        reject(error);
+      }
+    });
+  }
 
-        // Title
-        doc
-          .fontSize(24)
-          .fillColor(primaryColor)
-          .text("E-TICKET RECEIPT", 40, 120, { align: "center" })
-          .fontSize(14)
-          .fillColor(textColor)
-          .text("Electronic Ticket Confirmation", 40, 150, { align: "center" });
-
-        // Booking reference section
-        doc
-          .rect(40, 180, 515, 60)
-          .fillAndStroke(lightGray, primaryColor)
-          .fillColor(primaryColor)
-          .fontSize(16)
-          .text("BOOKING REFERENCE", 50, 195)
-          .fontSize(24)
-          .text(ticketData.pnr, 50, 215);
-
-        // Flight details section
-        let yPos = 260;
-        doc
-          .fillColor(primaryColor)
-          .fontSize(16)
-          .text("FLIGHT DETAILS", 40, yPos);
+  /**
+   * IATA BCBP for one passenger's itinerary. A pass holds at most four
+   * flights, so longer journeys carry their first four.
+   */
+  static encodeBoardingPass(
+    ticketData: Pick<TicketData, "pnr" | "bookingDate">,
+    passenger: TicketPassenger,
+    passengerNumber: number,
+    itinerary: TicketItinerary,
+  ): string {
+    const segments = itinerary.segments.slice(0, BCBP_MAX_LEGS);
 
-        yPos += 30;
-        doc.rect(40, yPos, 515, 140).stroke(primaryColor);
+    return encodeBcbp({
+      passengerName: formatBcbpName(
+        passenger.firstName,
+        passenger.lastName,
+        passenger.title,
+      ),
+      electronicTicket: true,
+      legs: segments.map((segment) => ({
+        pnr: ticketData.pnr,
+        fromCode: segment.fromCode,
+        toCode: segment.toCode,
+        // "YY" stands in for an airline that is not known yet
+        carrier: segment.carrierCode || "YY",
+        flightNumber: segment.flightNumber || "",
+        julianDate: toJulianDate(segment.departureAt),
+        compartment: compartmentForCabin(segment.cabin),
+        seat: this.getSeatNumber(passenger, segment) || "",
+        sequenceNumber: passengerNumber,
+        passengerStatus: "0",
+      })),
+      passengerDescription: "0",
+      issuanceSource: "W",
+      issueDate: toBcbpIssueDate(ticketData.bookingDate),
+      documentType: "B",
+      issuer: segments[0]?.carrierCode,
+    });
+  }
 
-        // Route info
-        doc
-          .fillColor(textColor)
-          .fontSize(14)
-          .text("FROM", 60, yPos + 20)
-          .fontSize(18)
-          .fillColor(primaryColor)
-          .text(ticketData.route.fromCode, 60, yPos + 40)
-          .fontSize(12)
-          .fillColor(textColor)
-          .text(ticketData.route.from, 60, yPos + 65, { width: 150 });
-
-        // Arrow
-        doc
-          .fontSize(20)
-          .fillColor(secondaryColor)
-          .text("→", 270, yPos + 40);
+  /**
+   * A passenger's seat on a flight, if one was chosen
+   */
+  static getSeatNumber(
+    passenger: TicketPassenger,
+    segment: TicketSegment,
+  ): string | undefined {
+    return (
+      passenger.seats?.find((seat) => seat.segmentId === segment.id)
+        ?.seatNumber || passenger.seatNumber
+    );
+  }
 
-        // Destination
-        doc
-          .fillColor(textColor)
-          .fontSize(14)
-          .text("TO", 350, yPos + 20)
-          .fontSize(18)
-          .fillColor(primaryColor)
-          .text(ticketData.route.toCode, 350, yPos + 40)
-          .fontSize(12)
-          .fillColor(textColor)
-          .text(ticketData.route.to, 350, yPos + 65, { width: 150 });
-
-        // Date and time info
-        yPos += 85;
-        doc
-          .fontSize(12)
-          .fillColor(textColor)
-          .text(
-            `Departure: ${new Date(ticketData.route.departureDate).toLocaleDateString()}`,
-            60,
-            yPos,
-          )
-          .text(
-            `Departure Time: ${ticketData.route.departureTime || "TBA"}`,
-            60,
-            yPos + 15,
-          )
-          .text(
-            `Arrival Time: ${ticketData.route.arrivalTime || "TBA"}`,
-            60,
-            yPos + 30,
-          );
+  /**
+   * Boarding pass payloads, one per passenger per itinerary, in the same
+   * order as the ticket pages
+   */
+  static buildBoardingPasses(ticketData: TicketData): BoardingPass[] {
+    const itineraries = ticketData.itineraries?.length
+      ? ticketData.itineraries
+      : this.buildItineraries(ticketData);
+    const format = getBarcodeFormat(ticketData.barcodeFormat);
 
-        // Flight info
-        if (ticketData.airline || ticketData.flightNumber) {
-          doc
-            .text(`Airline: ${ticketData.airline || "TBA"}`, 300, yPos)
-            .text(`Flight: ${ticketData.flightNumber || "TBA"}`, 300, yPos + 15)
-            .text(`Gate: ${ticketData.gate || "TBA"}`, 300, yPos + 30);
-        }
+    return ticketData.passengers.flatMap((passenger, index) =>
+      itineraries.map((itinerary) => ({
+        passengerName: [passenger.firstName, passenger.lastName].join(" "),
+        itinerary: itinerary.label,
+        format,
+        bcbp: this.encodeBoardingPass(
+          ticketData,
+          passenger,
+          index + 1,
+          itinerary,
+        ),
+      })),
+    );
+  }
 
-        // Passenger details
-        yPos += 70;
-        doc
-          .fillColor(primaryColor)
-          .fontSize(16)
-          .text("PASSENGER DETAILS", 40, yPos);
+  /**
+   * Boarding passes printed on a booking's ticket; empty until it is issued
+   */
+  static getBoardingPasses(
+    booking: BookingRecord,
+    passengers: PassengerRecord[],
+  ): BoardingPass[] {
+    if (!booking.ticket_url) {
+      return [];
+    }
 
-        yPos += 30;
-        const passengerHeight = 30 + ticketData.passengers.length * 25;
-        doc.rect(40, yPos, 515, passengerHeight).stroke(primaryColor);
+    return this.buildBoardingPasses(
+      this.toBookingTicketData(booking, passengers),
+    );
+  }
 
-        doc
-          .fillColor(textColor)
-          .fontSize(12)
-          .text("Name", 60, yPos + 15)
-          .text("Seat", 400, yPos + 15);
-
-        ticketData.passengers.forEach((passenger, index) => {
-          const passengerY = yPos + 40 + index * 25;
-          doc
-            .text(
-              `${passenger.title} ${passenger.firstName} ${passenger.lastName}`,
-              60,
-              passengerY,
-            )
-            .text(passenger.seatNumber || "TBA", 400, passengerY);
-        });
+  /**
+   * Ticket data for a stored booking, as printed on its ticket
+   */
+  static toBookingTicketData(
+    booking: BookingRecord,
+    passengers: PassengerRecord[],
+  ): TicketData {
+    return this.toTicketData({
+      bookingId: booking.id,
+      brandId: booking.brand_id,
+      pnr: booking.pnr,
+      contactEmail: booking.contact_email,
+      route: {
+        from: booking.from_airport?.name || "",
+        to: booking.to_airport?.name || "",
+        fromCode: booking.from_airport?.code || "",
+        toCode: booking.to_airport?.code || "",
+        departureDate: booking.departure_date,
+        returnDate: booking.return_date || undefined,
+      },
+      passengers: passengers.map((passenger) => ({
+        title: passenger.title,
+        firstName: passenger.first_name,
+        lastName: passenger.last_name,
+        seats: passenger.seats,
+      })),
+      totalAmount: booking.total_amount,
+      currency: booking.currency,
+      bookingDate: booking.created_at,
+      selectedFlight: booking.selected_flight,
+    });
+  }
 
-        // Payment details
-        yPos += passengerHeight + 30;
-        doc
-          .fillColor(primaryColor)
-          .fontSize(16)
-          .text("PAYMENT DETAILS", 40, yPos);
+  /**
+   * QR code image for a URL; null if it cannot be generated
+   */
+  private static async createQRCode(
+    url: string,
+    color: string,
+  ): Promise<Buffer | null> {
+    try {
+      const qrCodeDataUrl = await QRCode.toDataURL(url, {
+        width: 60,
+        margin: 1,
+        color: {
+          dark: color,
+          light: "#FFFFFF",
+        },
+      });
+      // Convert data URL to buffer for PDF
+      return Buffer.from(qrCodeDataUrl.split(",")[1], "base64");
+    } catch (qrError) {
+      console.error("❌ Error generating QR code:", qrError);
+      return null;
+    }
+  }
 
-        yPos += 30;
-        doc.rect(40, yPos, 515, 80).stroke(primaryColor);
+  /**
+   * Boarding pass barcode image; null if it cannot be generated
+   */
+  private static async createBarcode(
+    bcbp: string,
+    format: BcbpBarcodeFormat,
+  ): Promise<Buffer | null> {
+    try {
+      return await bwipjs.toBuffer({
+        bcid: format === "qr" ? "qrcode" : "pdf417",
+        text: bcbp,
+        scale: 3,
+        barcolor: COLORS.text.slice(1),
+      });
+    } catch (barcodeError) {
+      console.error("❌ Error generating boarding pass barcode:", barcodeError);
+      return null;
+    }
+  }
 
-        doc
-          .fillColor(textColor)
-          .fontSize(12)
-          .text("Total Amount Paid:", 60, yPos + 20)
-          .fontSize(18)
-          .fillColor(primaryColor)
-          .text(
-            `${ticketData.currency} ${ticketData.totalAmount}`,
-            60,
-            yPos + 40,
-          )
-          .fontSize(12)
-          .fillColor(textColor)
-          .text(
-            `Booking Date: ${new Date(ticketData.bookingDate).toLocaleDateString()}`,
-            300,
-            yPos + 30,
-          );
+  /**
+   * One passenger's ticket for one itinerary
+   */
+  private static addTicketPages(
+    doc: TicketDocument,
+    ticketData: TicketData,
+    branding: TicketBranding,
+    ticket: {
+      passenger: TicketPassenger;
+      passengerNumber: number;
+      passengerCount: number;
+      itinerary: TicketItinerary;
+      barcode: Buffer | null;
+      format: BcbpBarcodeFormat;
+      // undefined when the ticket has no verification link
+      verificationQRCode?: Buffer | null;
+    },
+  ): void {
+    const { passenger, itinerary } = ticket;
+    const { brand } = branding;
+    const { colors } = brand;
+    const passengerName = [
+      passenger.title,
+      passenger.firstName,
+      passenger.lastName,
+    ]
+      .filter(Boolean)
+      .join(" ");
 
-        // Important information
-        yPos += 110;
-        doc
-          .fillColor(primaryColor)
-          .fontSize(14)
-          .text("IMPORTANT INFORMATION", 40, yPos);
-
-        yPos += 25;
-        const importantInfo = [
-          "• Please arrive at the airport at least 2 hours before domestic flights and 3 hours before international flights",
-          "• Check-in online 24 hours before departure to save time",
-          "• Ensure you have valid identification and travel documents",
-          "• Review baggage allowance and restrictions on our website",
-          "• Contact customer service for any changes or cancellations",
-        ];
-
-        doc.fontSize(10).fillColor(textColor);
-
-        importantInfo.forEach((info, index) => {
-          doc.text(info, 40, yPos + index * 15, { width: 515 });
-        });
+    // Start a continuation page when the next block would not fit
+    const ensureSpace = (y: number, height: number): number => {
+      if (y + height <= PAGE_BOTTOM) {
+        return y;
+      }
+      doc.addPage();
+      this.addHeader(doc, branding);
+      doc
+        .fontSize(12)
+        .fillColor(COLORS.text)
+        .text(
+          `${ticketData.pnr} · ${passengerName} · ${itinerary.label} (continued)`,
+          40,
+          120,
+          { align: "center" },
+        );
+      return 150;
+    };
+
+    doc.addPage();
+    this.addHeader(doc, branding);
+
+    // Title
+    doc
+      .fontSize(24)
+      .fillColor(colors.primary)
+      .text("E-TICKET RECEIPT", 40, 115, { align: "center" })
+      .fontSize(14)
+      .fillColor(COLORS.text)
+      .text(
+        `${itinerary.label} · Passenger ${ticket.passengerNumber} of ${ticket.passengerCount}`,
+        40,
+        143,
+        { align: "center" },
+      );
+
+    // Booking reference section
+    doc
+      .rect(40, 170, 515, 60)
+      .fillAndStroke(COLORS.lightGray, colors.primary)
+      .fillColor(colors.primary)
+      .fontSize(16)
+      .text("BOOKING REFERENCE", 50, 185)
+      .fontSize(24)
+      .text(ticketData.pnr, 50, 205);
+
+    this.addBarcode(doc, ticket.barcode, ticket.format, colors);
+    if (ticket.verificationQRCode !== undefined) {
+      this.addVerificationQRCode(doc, ticket.verificationQRCode, colors);
+    }
+
+    // Passenger details
+    let yPos = 250;
+    doc.fillColor(colors.primary).fontSize(16).text("PASSENGER", 40, yPos);
 
-        // Footer
-        yPos += 110;
-        doc.rect(40, yPos, 515, 60).fillAndStroke(lightGray, primaryColor);
+    // One seat per flight of the itinerary, in flight order
+    const seats = itinerary.segments.map(
+      (segment) => this.getSeatNumber(passenger, segment) || "TBA",
+    );
+    yPos += 22;
+    doc.rect(40, yPos, 515, 36).stroke(colors.primary);
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(14)
+      .text(passengerName, 60, yPos + 11, { width: 320 })
+      .fontSize(12)
+      .text(
+        seats.every((seat) => seat === "TBA")
+          ? "Seat: TBA"
+          : `Seat${seats.length > 1 ? "s" : ""}: ${seats.join(", ")}`,
+        400,
+        yPos + 12,
+        { width: 145, height: 14, ellipsis: true },
+      );
 
+    // Flight details, one box per segment
+    yPos += 53;
+    const { segments } = itinerary;
+    doc
+      .fillColor(colors.primary)
+      .fontSize(16)
+      .text(
+        `${itinerary.label.toUpperCase()} FLIGHT${segments.length > 1 ? ` · ${segments.length} SEGMENTS` : ""}`,
+        40,
+        yPos,
+      );
+    yPos += 23;
+
+    segments.forEach((segment, index) => {
+      if (index > 0) {
+        yPos = ensureSpace(yPos, 20 + SEGMENT_HEIGHT);
+        const layover = formatLayover(
+          segments[index - 1].arrivalAt,
+          segment.departureAt,
+        );
         doc
-          .fontSize(12)
-          .fillColor(primaryColor)
-          .text("Thank you for choosing OnboardTicket!", 40, yPos + 15, {
-            align: "center",
-          })
           .fontSize(10)
-          .fillColor(textColor)
+          .fillColor(colors.secondary)
           .text(
-            "For support, visit www.onboardticket.com or call our 24/7 helpline",
+            `Connection in ${segment.fromCode}${layover ? ` · ${layover} layover` : ""}`,
             40,
-            yPos + 35,
-            { align: "center" },
+            yPos + 3,
+            { width: 515, align: "center" },
           );
+        yPos += 20;
+      } else {
+        yPos = ensureSpace(yPos, SEGMENT_HEIGHT);
+      }
 
-        // Generate QR Code for ticket verification
-        const ticketViewUrl = `${process.env.CLIENT_URL || "https://onboardticket.com"}/guest-booking-lookup?pnr=${ticketData.pnr}&email=${encodeURIComponent(ticketData.contactEmail || ticketData.customerName)}`;
+      this.addSegment(doc, segment, yPos, colors);
+      yPos += SEGMENT_HEIGHT + 5;
+    });
 
-        // Generate QR code synchronously for PDF embedding
-        QRCode.toDataURL(ticketViewUrl, {
-          width: 60,
-          margin: 1,
-          color: {
-            dark: primaryColor,
-            light: "#FFFFFF",
-          },
+    // Gate and boarding details, when the airline has published them
+    if (ticketData.gate || ticketData.boardingTime || ticketData.checkInTime) {
+      yPos = ensureSpace(yPos, 20);
+      doc
+        .fontSize(11)
+        .fillColor(COLORS.text)
+        .text(
+          [
+            `Gate: ${ticketData.gate || "TBA"}`,
+            `Boarding: ${ticketData.boardingTime || "TBA"}`,
+            ticketData.checkInTime && `Check-in: ${ticketData.checkInTime}`,
+          ]
+            .filter(Boolean)
+            .join("   "),
+          40,
+          yPos,
+        );
+      yPos += 20;
+    }
+
+    // Payment details
+    yPos = ensureSpace(yPos + 5, 80);
+    doc
+      .fillColor(colors.primary)
+      .fontSize(16)
+      .text("PAYMENT DETAILS", 40, yPos);
+
+    yPos += 22;
+    doc.rect(40, yPos, 515, 55).stroke(colors.primary);
+
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(12)
+      .text("Total Amount Paid:", 60, yPos + 10)
+      .fontSize(18)
+      .fillColor(colors.primary)
+      // The PDF fonts have no glyphs for symbols like ₦, so use codes
+      .text(
+        formatMoney(ticketData.totalAmount, ticketData.currency, "code"),
+        60,
+        yPos + 27,
+      )
+      .fontSize(12)
+      .fillColor(COLORS.text)
+      .text(
+        `Booking Date: ${new Date(ticketData.bookingDate).toLocaleDateString()}`,
+        300,
+        yPos + 22,
+      );
+
+    // Important information
+    yPos = ensureSpace(yPos + 68, 85);
+    doc
+      .fillColor(colors.primary)
+      .fontSize(14)
+      .text("IMPORTANT INFORMATION", 40, yPos);
+
+    yPos += 20;
+    const importantInfo = [
+      "• Please arrive at the airport at least 2 hours before domestic flights and 3 hours before international flights",
+      "• Check-in online 24 hours before departure to save time",
+      "• Ensure you have valid identification and travel documents",
+      "• Review baggage allowance and restrictions on our website",
+      "• Contact customer service for any changes or cancellations",
+    ];
+
+    doc.fontSize(10).fillColor(COLORS.text);
+
+    importantInfo.forEach((info, index) => {
+      doc.text(info, 40, yPos + index * 13, { width: 515 });
+    });
+
+    // Footer
+    yPos = ensureSpace(yPos + 75, 50);
+    doc.rect(40, yPos, 515, 50).fillAndStroke(COLORS.lightGray, colors.primary);
+
+    doc
+      .fontSize(12)
+      .fillColor(colors.primary)
+      .text(`Thank you for choosing ${brand.name}!`, 40, yPos + 8, {
+        align: "center",
+      })
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(
+        `For support, email ${[brand.supportEmail, brand.supportPhone].filter(Boolean).join(" or call ")}`,
+        40,
+        yPos + 24,
+        { align: "center" },
+      )
+      .fontSize(8)
+      .text(brand.legalFooter, 40, yPos + 37, {
+        width: 515,
+        align: "center",
+        height: 10,
+        ellipsis: true,
+      });
+  }
+
+  /**
+   * One flight segment: departure, arrival and flight details side by side
+   */
+  private static addSegment(
+    doc: TicketDocument,
+    segment: TicketSegment,
+    y: number,
+    colors: BrandColors,
+  ): void {
+    doc.rect(40, y, 515, SEGMENT_HEIGHT).stroke(colors.primary);
+
+    const endpoint = (
+      x: number,
+      label: string,
+      code: string,
+      name: string | undefined,
+      at: string | undefined,
+      terminal: string | undefined,
+    ) => {
+      doc
+        .fillColor(COLORS.text)
+        .fontSize(10)
+        .text(label, x, y + 8)
+        .fontSize(18)
+        .fillColor(colors.primary)
+        .text(code, x, y + 19)
+        .fontSize(9)
+        .fillColor(COLORS.text)
+        .text(name || "", x, y + 38, { width: 150, height: 12, ellipsis: true })
+        .fontSize(10)
+        .text(
+          at
+            ? `${formatSegmentDate(at)} ${formatSegmentTime(at) || "TBA"}`
+            : "TBA",
+          x,
+          y + 52,
+        )
+        .text(terminal ? `Terminal ${terminal}` : "", x, y + 66);
+    };
+
+    endpoint(
+      60,
+      "FROM",
+      segment.fromCode,
+      segment.fromName,
+      segment.departureAt,
+      segment.departureTerminal,
+    );
+
+    // Arrow
+    doc
+      .fontSize(20)
+      .fillColor(colors.secondary)
+      .text("→", 205, y + 19);
+
+    endpoint(
+      235,
+      "TO",
+      segment.toCode,
+      segment.toName,
+      segment.arrivalAt,
+      segment.arrivalTerminal,
+    );
+
+    const flight = [segment.carrierCode, segment.flightNumber]
+      .filter(Boolean)
+      .join(" ");
+    const details = [
+      segment.operatingCarrier && `Operated by ${segment.operatingCarrier}`,
+      segment.aircraft && `Aircraft ${segment.aircraft}`,
+      segment.cabin && `Cabin ${segment.cabin.replace(/_/g, " ")}`,
+      segment.duration && `Duration ${formatDuration(segment.duration)}`,
+    ].filter(Boolean);
+
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(10)
+      .text("FLIGHT", 410, y + 8)
+      .fontSize(14)
+      .fillColor(colors.primary)
+      .text(flight || "TBA", 410, y + 19);
+
+    doc.fontSize(9).fillColor(COLORS.text);
+    details.forEach((detail, index) => {
+      doc.text(detail, 410, y + 37 + index * 11, { width: 135 });
+    });
+  }
+
+  /**
+   * Boarding pass barcode beside the booking reference, left of the
+   * verification QR code: a wide PDF417 strip or a square QR code, or a
+   * placeholder without one
+   */
+  private static addBarcode(
+    doc: TicketDocument,
+    barcode: Buffer | null,
+    format: BcbpBarcodeFormat,
+    colors: BrandColors,
+  ): void {
+    const area =
+      format === "qr"
+        ? { x: 410, y: 170, width: 60, height: 60 }
+        : { x: 230, y: 176, width: 240, height: 48 };
+
+    const addFallback = () =>
+      doc
+        .rect(area.x, area.y, area.width, area.height)
+        .stroke(colors.primary)
+        .fontSize(8)
+        .fillColor(COLORS.text)
+        .text("BARCODE", area.x, area.y + area.height / 2 - 9, {
+          width: area.width,
+          align: "center",
         })
-          .then((qrCodeDataUrl) => {
-            try {
-              // Convert data URL to buffer for PDF
-              const qrCodeBuffer = Buffer.from(
-                qrCodeDataUrl.split(",")[1],
-                "base64",
-              );
-
-              // Add QR code to PDF
-              doc.image(qrCodeBuffer, 480, 180, { width: 60, height: 60 });
-
-              // Add label below QR code
-              doc
-                .fontSize(8)
-                .fillColor(textColor)
-                .text("Scan to view", 485, 245, { width: 50, align: "center" })
-                .text("ticket details", 485, 255, {
-                  width: 50,
-                  align: "center",
-                });
-            } catch (qrError) {
-              console.error("❌ Error embedding QR code:", qrError);
-              // Add fallback text
-              doc
-                .rect(480, 180, 60, 60)
-                .stroke(primaryColor)
-                .fontSize(8)
-                .fillColor(textColor)
-                .text("QR CODE", 485, 205, { width: 50, align: "center" })
-                .text("ERROR", 485, 215, { width: 50, align: "center" });
-            }
-
-            // Finalize PDF after QR code is added
-            doc.end();
-          })
-          .catch((qrError) => {
-            console.error("❌ Error generating QR code:", qrError);
-            // Fallback to text if QR generation fails
-            doc
-              .rect(480, 180, 60, 60)
-              .stroke(primaryColor)
-              .fontSize(8)
-              .fillColor(textColor)
-              .text("QR CODE", 485, 205, { width: 50, align: "center" })
-              .text("ERROR", 485, 215, { width: 50, align: "center" });
-
-            // Finalize PDF even if QR code fails
-            doc.end();
-          });
-
-        stream.on("finish", () => {
-          console.log(`✅ Ticket PDF generated: ${publicUrl}`);
-          resolve(publicUrl);
+        .text("UNAVAILABLE", area.x, area.y + area.height / 2 + 1, {
+          width: area.width,
+          align: "center",
         });
 
-        stream.on("error", (error) => {
-          console.error("❌ Error generating ticket PDF:", error);
-          reject(error);
+    if (!barcode) {
+      addFallback();
+      return;
+    }
+
+    try {
+      doc.image(barcode, area.x, area.y, {
+        fit: [area.width, area.height],
+        align: "right",
+        valign: "center",
+      });
+
+      doc
+        .fontSize(8)
+        .fillColor(COLORS.text)
+        .text("Boarding pass (IATA BCBP)", area.x + area.width - 115, 233, {
+          width: 115,
+          align: "right",
         });
-      } catch (error) {
-        console.error("❌ Error creating ticket PDF:", error);
-        reject(error);
+    } catch (barcodeError) {
+      console.error("❌ Error embedding boarding pass barcode:", barcodeError);
+      addFallback();
+    }
+  }
+
+  /**
+   * QR code linking to the public verification page, or a placeholder
+   * without one
+   */
+  private static addVerificationQRCode(
+    doc: TicketDocument,
+    qrCode: Buffer | null,
+    colors: BrandColors,
+  ): void {
+    const addFallback = () =>
+      doc
+        .rect(480, 170, 60, 60)
+        .stroke(colors.primary)
+        .fontSize(8)
+        .fillColor(COLORS.text)
+        .text("QR CODE", 485, 195, { width: 50, align: "center" })
+        .text("ERROR", 485, 205, { width: 50, align: "center" });
+
+    if (!qrCode) {
+      addFallback();
+      return;
+    }
+
+    try {
+      doc.image(qrCode, 480, 170, { width: 60, height: 60 });
+      doc
+        .fontSize(8)
+        .fillColor(COLORS.text)
+        .text("Scan to verify", 475, 233, { width: 70, align: "center" });
+    } catch (qrError) {
+      console.error("❌ Error embedding QR code:", qrError);
+      addFallback();
+    }
+  }
+
+  /**
+   * Brand logo for the PDF header and wallet passes: a URL, or a path under
+   * public/ when it starts with "/"; null if it cannot be loaded
+   */
+  static async loadLogo(logoUrl: string): Promise<Buffer | null> {
+    try {
+      if (/^https?:\/\//.test(logoUrl)) {
+        const response = await fetch(logoUrl);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return Buffer.from(await response.arrayBuffer());
       }
-    });
+
+      return await fs.readFile(
+        logoUrl.startsWith("/")
+          ? path.join(process.cwd(), "public", logoUrl)
+          : path.resolve(logoUrl),
+      );
+    } catch (logoError) {
+      console.warn(`⚠️ Could not load ticket logo ${logoUrl}:`, logoError);
+      return null;
+    }
   }
 
   /**
    * Add header with branding
    */
   private static addHeader(
-    doc: PDFKit.PDFDocument,
-    primaryColor: string,
-    accentColor: string,
+    doc: TicketDocument,
+    { brand, logo }: TicketBranding,
   ): void {
+    const { colors } = brand;
+
     // Header background
-    doc.rect(0, 0, 595, 100).fillAndStroke(primaryColor, primaryColor);
+    doc.rect(0, 0, 595, 100).fillAndStroke(colors.primary, colors.primary);
 
-    // Company name
-    doc.fontSize(28).fillColor("white").text("OnboardTicket", 40, 35);
+    // Logo, or the company name without one
+    let logoAdded = false;
+    if (logo) {
+      try {
+        doc.image(logo, 40, 20, { fit: [300, 60], valign: "center" });
+        logoAdded = true;
+      } catch (logoError) {
+        console.error("❌ Error embedding brand logo:", logoError);
+      }
+    }
+    if (!logoAdded) {
+      doc.fontSize(28).fillColor("white").text(brand.name, 40, 35);
+    }
 
     // Accent decoration
-    doc.rect(450, 30, 100, 40).fillAndStroke(accentColor, accentColor);
+    doc.rect(450, 30, 100, 40).fillAndStroke(colors.accent, colors.accent);
 
-    doc.fillColor(primaryColor).fontSize(14).text("✈️ FLY", 460, 45);
+    doc.fillColor(colors.primary).fontSize(14).text("✈️ FLY", 460, 45);
   }
 
   /**
-   * Generate ticket and return the public URL
+   * Ticket data for a booking, with every flight of its selected offer
    */
-  static async createTicket(bookingData: any): Promise<string> {
+  static toTicketData(bookingData: any): TicketData {
+    const brand = BrandService.getBrand(bookingData.brandId);
     const ticketData: TicketData = {
       pnr: bookingData.pnr,
       customerName: bookingData.contactEmail, // Using email as customer identifier
@@ -386,6 +1063,7 @@ export class TicketGenerator {
         fromCode: bookingData.route.fromCode,
         toCode: bookingData.route.toCode,
         departureDate: bookingData.route.departureDate,
+        returnDate: bookingData.route.returnDate,
         departureTime: bookingData.route.departureTime,
         arrivalTime: bookingData.route.arrivalTime,
       },
@@ -394,10 +1072,16 @@ export class TicketGenerator {
         firstName: p.firstName,
         lastName: p.lastName,
         seatNumber: p.seatNumber,
+        seats: p.seats,
       })),
       totalAmount: bookingData.totalAmount,
       currency: bookingData.currency || "USD",
-      bookingDate: new Date().toISOString(),
+      // The boarding pass issue date, so it has to match the booking
+      bookingDate: bookingData.bookingDate || new Date().toISOString(),
+      verificationUrl: bookingData.bookingId
+        ? this.getVerificationUrl(bookingData.bookingId, brand)
+        : undefined,
+      brand,
       airline: bookingData.airline,
       flightNumber: bookingData.flightNumber,
       gate: bookingData.gate,
@@ -405,22 +1089,133 @@ export class TicketGenerator {
       checkInTime: bookingData.checkInTime,
       boardingTime: bookingData.boardingTime,
     };
+    ticketData.itineraries = this.buildItineraries(
+      ticketData,
+      bookingData.selectedFlight,
+    );
 
-    return await this.generateTicketPDF(ticketData);
+    return ticketData;
   }
 
   /**
-   * Delete a ticket file
+   * Generate ticket and return its storage key
    */
-  static deleteTicket(pnr: string): boolean {
+  static async createTicket(bookingData: any): Promise<string> {
+    return await this.generateTicketPDF(this.toTicketData(bookingData));
+  }
+
+  /**
+   * Load a stored ticket PDF; null if it is missing from storage
+   */
+  static async readTicket(ticketUrl: string): Promise<Buffer | null> {
+    return getTicketStore().read(this.ticketKey(ticketUrl));
+  }
+
+  /**
+   * Short-lived download link for a booking's ticket. Stores that sign
+   * their own URLs (Supabase Storage, S3) are used directly; local tickets
+   * are served by GET /api/tickets/:bookingId with an HMAC signature.
+   */
+  static async getDownloadUrl(booking: {
+    id: string;
+    ticket_url: string;
+  }): Promise<TicketDownload> {
+    const ttlSeconds = readPositiveNumber(
+      process.env.TICKET_URL_TTL_SECONDS,
+      300,
+    );
+    const expires = Date.now() + ttlSeconds * 1000;
+
+    const signedUrl = await getTicketStore().getSignedUrl(
+      this.ticketKey(booking.ticket_url),
+      ttlSeconds,
+    );
+
+    return {
+      url:
+        signedUrl ||
+        `/api/tickets/${booking.id}?${this.createDownloadQuery(booking.id, expires)}`,
+      expiresAt: new Date(expires).toISOString(),
+    };
+  }
+
+  /**
+   * "expires=...&signature=..." query for an API download of a booking's
+   * documents (ticket PDF, wallet passes)
+   */
+  static createDownloadQuery(
+    bookingId: string,
+    expires = Date.now() +
+      readPositiveNumber(process.env.TICKET_URL_TTL_SECONDS, 300) * 1000,
+  ): string {
+    return `expires=${expires}&signature=${signDownload(bookingId, expires)}`;
+  }
+
+  /**
+   * Check a signed link produced by getDownloadUrl
+   */
+  static verifyDownloadSignature(
+    bookingId: string,
+    expires: string,
+    signature: string,
+  ): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(signDownload(bookingId, expiresAt));
+    const provided = Buffer.from(signature || "");
+    return (
+      expected.length === provided.length &&
+      crypto.timingSafeEqual(expected, provided)
+    );
+  }
+
+  /**
+   * Token for the public verification page. It does not expire; it stops
+   * verifying once the booking is cancelled.
+   */
+  static createVerificationToken(bookingId: string): string {
+    return `${Buffer.from(bookingId).toString("base64url")}.${signVerification(bookingId)}`;
+  }
+
+  // On the brand's own site, so the page carries the same branding
+  static getVerificationUrl(
+    bookingId: string,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): string {
+    return `${brand.websiteUrl}/verify/${this.createVerificationToken(bookingId)}`;
+  }
+
+  /**
+   * Booking ID of a verification token; null if it was not signed by us
+   */
+  static readVerificationToken(token: string): string | null {
+    const [encodedId, signature] = (token || "").split(".");
+    if (!encodedId || !signature) {
+      return null;
+    }
+
+    const bookingId = Buffer.from(encodedId, "base64url").toString("utf8");
+    const expected = Buffer.from(signVerification(bookingId));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length &&
+      crypto.timingSafeEqual(expected, provided)
+      ? bookingId
+      : null;
+  }
+
+  /**
+   * Delete a ticket from storage
+   */
+  static async deleteTicket(pnr: string): Promise<boolean> {
     try {
-      const filePath = path.join(this.TICKETS_DIR, `${pnr}.pdf`);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+      const deleted = await getTicketStore().delete(this.ticketKey(pnr));
+      if (deleted) {
         console.log(`🗑️ Ticket deleted: ${pnr}.pdf`);
-        return true;
       }
-      return false;
+      return deleted;
     } catch (error) {
       console.error("❌ Error deleting ticket:", error);
       return false;
@@ -0,0 +1,69 @@
+import path from "path";
+import { getDataStore } from "../storage";
+import { LocalTicketStore } from "./localTicketStore";
+import { S3TicketStore } from "./s3TicketStore";
+import { SupabaseTicketStore } from "./supabaseTicketStore";
+import { TicketStore } from "./types";
+
+export * from "./types";
+
+let selectedStore: TicketStore | null = null;
+
+const createS3Store = (): TicketStore => {
+  const {
+    TICKET_S3_BUCKET,
+    TICKET_S3_ACCESS_KEY_ID,
+    TICKET_S3_SECRET_ACCESS_KEY,
+  } = process.env;
+
+  if (
+    !TICKET_S3_BUCKET ||
+    !TICKET_S3_ACCESS_KEY_ID ||
+    !TICKET_S3_SECRET_ACCESS_KEY
+  ) {
+    throw new Error(
+      "TICKET_STORAGE=s3 requires TICKET_S3_BUCKET, TICKET_S3_ACCESS_KEY_ID and TICKET_S3_SECRET_ACCESS_KEY",
+    );
+  }
+
+  const region = process.env.TICKET_S3_REGION || "us-east-1";
+  return new S3TicketStore({
+    bucket: TICKET_S3_BUCKET,
+    region,
+    endpoint:
+      process.env.TICKET_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    accessKeyId: TICKET_S3_ACCESS_KEY_ID,
+    secretAccessKey: TICKET_S3_SECRET_ACCESS_KEY,
+  });
+};
+
+/**
+ * Storage for ticket PDFs.
+ * TICKET_STORAGE=local|supabase|s3 forces a backend; otherwise tickets go to
+ * Supabase Storage when Supabase is the data store, and to
+ * TICKET_STORAGE_DIR (default: ./data/tickets) on the local disk otherwise.
+ */
+export const getTicketStore = (): TicketStore => {
+  if (!selectedStore) {
+    const requested =
+      process.env.TICKET_STORAGE?.toLowerCase() ||
+      (getDataStore().kind === "supabase" ? "supabase" : "local");
+
+    if (requested === "s3") {
+      selectedStore = createS3Store();
+    } else if (requested === "supabase") {
+      selectedStore = new SupabaseTicketStore(
+        process.env.TICKET_STORAGE_BUCKET || "tickets",
+      );
+    } else {
+      selectedStore = new LocalTicketStore(
+        path.resolve(
+          process.env.TICKET_STORAGE_DIR ||
+            path.join(process.cwd(), "data", "tickets"),
+        ),
+      );
+    }
+    console.log(`🎫 Ticket storage: ${selectedStore.kind}`);
+  }
+  return selectedStore;
+};
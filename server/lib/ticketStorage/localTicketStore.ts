@@ -0,0 +1,50 @@
+import fs from "fs";
+import path from "path";
+import { TicketStore } from "./types";
+
+/**
+ * Tickets on the local disk, outside the public directory so they are only
+ * reachable through the API. Not usable on read-only serverless filesystems.
+ */
+export class LocalTicketStore implements TicketStore {
+  readonly kind = "local" as const;
+
+  constructor(private readonly directory: string) {}
+
+  private resolve(key: string): string {
+    // Keys are file names; never let one escape the tickets directory
+    return path.join(this.directory, path.basename(key));
+  }
+
+  async save(key: string, pdf: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.resolve(key), pdf);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+      return true;
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getSignedUrl(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import { TicketStore } from "./types";
+
+export interface S3TicketStoreConfig {
+  bucket: string;
+  region: string;
+  // e.g. https://s3.eu-west-2.amazonaws.com, or http://localhost:9000 for MinIO
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+interface SigningRequest {
+  method: string;
+  host: string;
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// RFC 3986 encoding, as SigV4 requires
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+const encodePath = (path: string) => path.split("/").map(encode).join("/");
+
+const toAmzDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * AWS Signature Version 4 for a single S3 request. Returns the signature
+ * along with the credential scope and signed header list it covers.
+ */
+export const signS3Request = (request: SigningRequest) => {
+  const amzDate = toAmzDate(request.date);
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${request.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = { host: request.host };
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+  const headerNames = Object.keys(headers).sort();
+  const signedHeaders = headerNames.join(";");
+
+  const canonicalQuery = Object.keys(request.query || {})
+    .sort()
+    .map((name) => `${encode(name)}=${encode(request.query[name])}`)
+    .join("&");
+
+  const canonicalRequest = [
+    request.method,
+    encodePath(request.path),
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${request.secretAccessKey}`, day), request.region),
+  );
+
+  return {
+    credential: `${request.accessKeyId}/${scope}`,
+    signedHeaders,
+    signature: crypto
+      .createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex"),
+  };
+};
+
+/**
+ * Presigned GET URL, valid for `expiresInSeconds` from `date`
+ */
+export const presignS3Url = (
+  request: Omit<SigningRequest, "method" | "payloadHash" | "query">,
+  protocol: string,
+  expiresInSeconds: number,
+): string => {
+  const amzDate = toAmzDate(request.date);
+  const query: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${request.accessKeyId}/${amzDate.slice(0, 8)}/${request.region}/s3/aws4_request`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(expiresInSeconds),
+    "X-Amz-SignedHeaders": "host",
+  };
+
+  const { signature } = signS3Request({
+    ...request,
+    method: "GET",
+    query,
+    headers: {},
+    payloadHash: "UNSIGNED-PAYLOAD",
+  });
+
+  const search = Object.keys(query)
+    .sort()
+    .map((name) => `${encode(name)}=${encode(query[name])}`)
+    .join("&");
+
+  return `${protocol}//${request.host}${encodePath(request.path)}?${search}&X-Amz-Signature=${signature}`;
+};
+
+/**
+ * Tickets in an S3-compatible bucket (AWS S3, MinIO, R2...), addressed
+ * path-style so custom endpoints work without DNS per bucket
+ */
+export class S3TicketStore implements TicketStore {
+  readonly kind = "s3" as const;
+  private readonly endpoint: URL;
+
+  constructor(private readonly config: S3TicketStoreConfig) {
+    this.endpoint = new URL(config.endpoint);
+  }
+
+  private objectPath(key: string) {
+    const base = this.endpoint.pathname.replace(/\/$/, "");
+    return `${base}/${this.config.bucket}/${key}`;
+  }
+
+  private async send(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+  ): Promise<Response> {
+    const path = this.objectPath(key);
+    const date = new Date();
+    const payloadHash = sha256(body || "");
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": toAmzDate(date),
+    };
+    if (body) {
+      headers["content-type"] = "application/pdf";
+    }
+
+    const signed = signS3Request({
+      method,
+      host: this.endpoint.host,
+      path,
+      headers,
+      payloadHash,
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+      date,
+    });
+
+    return fetch(`${this.endpoint.origin}${encodePath(path)}`, {
+      method,
+      headers: {
+        ...headers,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${signed.credential}, SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`,
+      },
+      body: body && new Uint8Array(body),
+    });
+  }
+
+  async save(key: string, pdf: Buffer): Promise<void> {
+    const response = await this.send("PUT", key, pdf);
+    if (!response.ok) {
+      throw new Error(
+        `S3 upload failed (${response.status}): ${await response.text()}`,
+      );
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const response = await this.send("GET", key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed (${response.status})`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const response = await this.send("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed (${response.status})`);
+    }
+    return response.ok;
+  }
+
+  async getSignedUrl(
+    key: string,
+    expiresInSeconds: number,
+  ): Promise<string | null> {
+    return presignS3Url(
+      {
+        host: this.endpoint.host,
+        path: this.objectPath(key),
+        region: this.config.region,
+        accessKeyId: this.config.accessKeyId,
+        secretAccessKey: this.config.secretAccessKey,
+        date: new Date(),
+      },
+      this.endpoint.protocol,
+      expiresInSeconds,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { supabase } from "../supabaseServer";
+import { TicketStore } from "./types";
+
+/**
+ * Tickets in a private Supabase Storage bucket (see setup-ticket-storage.sql)
+ */
+export class SupabaseTicketStore implements TicketStore {
+  readonly kind = "supabase" as const;
+
+  constructor(private readonly bucket: string) {}
+
+  private get files() {
+    return supabase.storage.from(this.bucket);
+  }
+
+  async save(key: string, pdf: Buffer): Promise<void> {
+    const { error } = await this.files.upload(key, pdf, {
+      contentType: "application/pdf",
+      upsert: true,
+    });
+    if (error) {
+      throw error;
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const { data, error } = await this.files.download(key);
+    if (error) {
+      if (
+        (error as any).statusCode === "404" ||
+        /not found/i.test(error.message)
+      ) {
+        return null;
+      }
+      throw error;
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { data, error } = await this.files.remove([key]);
+    if (error) {
+      throw error;
+    }
+    return data.length > 0;
+  }
+
+  async getSignedUrl(
+    key: string,
+    expiresInSeconds: number,
+  ): Promise<string | null> {
+    const { data, error } = await this.files.createSignedUrl(
+      key,
+      expiresInSeconds,
+    );
+    if (error) {
+      throw error;
+    }
+    return data.signedUrl;
+  }
+}
@@ -0,0 +1,19 @@
+export type TicketStoreKind = "local" | "supabase" | "s3";
+
+/**
+ * Where generated ticket PDFs are kept. Keys are flat file names such as
+ * "ABC123.pdf"; bookings store the key in `ticket_url`.
+ */
+export interface TicketStore {
+  readonly kind: TicketStoreKind;
+  save(key: string, pdf: Buffer): Promise<void>;
+  // Resolves with null when the ticket does not exist
+  read(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<boolean>;
+  /**
+   * A short-lived URL the browser can download the ticket from directly.
+   * Stores that cannot sign URLs resolve with null and the API serves the
+   * file through its own signed link instead.
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
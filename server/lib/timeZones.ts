@@ -0,0 +1,50 @@
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export const zoneOffset = (timeZone: string, at: number) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClock - Math.floor(at / 1000) * 1000;
+};
+
+/**
+ * UTC instant of a local airport time such as "2030-05-01T10:30:00"
+ */
+export const toUtc = (localTime: string, timeZone: string): Date => {
+  if (/(Z|[+-]\d{2}:\d{2})$/i.test(localTime)) {
+    return new Date(localTime);
+  }
+
+  const wallClock = Date.parse(`${localTime}Z`);
+  // The second pass corrects times right after a DST change
+  const guess = wallClock - zoneOffset(timeZone, wallClock);
+  return new Date(wallClock - zoneOffset(timeZone, guess));
+};
+
+/**
+ * Local time of an instant in a time zone, as "2030-05-01T10:30:00"
+ */
+export const toLocalTime = (date: Date, timeZone: string): string =>
+  new Date(date.getTime() + zoneOffset(timeZone, date.getTime()))
+    .toISOString()
+    .slice(0, 19);
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  getTotpUri,
+  verifyTotp,
+} from "./totp";
+
+// Test secret of RFC 4226 and RFC 6238 (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("should round-trip base32", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("mzxw 6ytb oi======").toString()).toBe("foobar");
+  });
+
+  it("should match the RFC 4226 HOTP values", () => {
+    const secret = Buffer.from("12345678901234567890");
+    expect(
+      [0, 1, 2, 9].map((counter) => generateHotp(secret, counter)),
+    ).toEqual(["755224", "287082", "359152", "520489"]);
+  });
+
+  it("should match the RFC 6238 TOTP values", () => {
+    const cases: [number, string][] = [
+      [59, "94287082"],
+      [1111111109, "07081804"],
+      [1234567890, "89005924"],
+      [20000000000, "65353130"],
+    ];
+    for (const [seconds, code] of cases) {
+      expect(generateTotp(RFC_SECRET, { now: seconds * 1000, digits: 8 })).toBe(
+        code,
+      );
+    }
+  });
+
+  it("should accept codes within the window and report their step", () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, { now: now - 30000 });
+
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(37037035);
+    expect(verifyTotp(RFC_SECRET, previous, { now, window: 0 })).toBeNull();
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now }), { now }),
+    ).toBe(37037036);
+    expect(verifyTotp(RFC_SECRET, "12345", { now })).toBeNull();
+  });
+
+  it("should create secrets and enrolment URIs", () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(getTotpUri(secret, "ada@example.com", "OnboardTicket")).toBe(
+      `otpauth://totp/OnboardTicket%3Aada%40example.com?secret=${secret}&issuer=OnboardTicket&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import os from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { UserRole } from "@shared/api";
+import TwoFactorService from "./twoFactorService";
+import { getLocalDataStore, toApiUser } from "./storage";
+import { generateTotp } from "./totp";
+
+describe("TwoFactorService", () => {
+  beforeAll(() => {
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(
+      os.tmpdir(),
+      `two-factor-spec-${Date.now()}-${Math.random()}.json`,
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.REQUIRE_ADMIN_TWO_FACTOR;
+  });
+
+  const createUser = async (email: string, roles: UserRole[] = ["customer"]) =>
+    toApiUser(
+      await getLocalDataStore().users.create({
+        email,
+        first_name: "Ada",
+        last_name: "Lovelace",
+        title: "Ms",
+        roles,
+      }),
+    );
+
+  const enrol = async (email: string, roles?: UserRole[]) => {
+    const user = await createUser(email, roles);
+    const setup = await TwoFactorService.beginSetup(user);
+    const enabled = await TwoFactorService.enable(
+      user,
+      generateTotp(setup!.secret, { now: Date.now() - 30_000 }),
+    );
+    return { user, secret: setup!.secret, codes: enabled.recoveryCodes! };
+  };
+
+  it("should enable 2FA with a code from the app", async () => {
+    const user = await createUser("enable@example.com");
+    const setup = await TwoFactorService.beginSetup(user);
+    expect(setup?.otpauthUrl).toContain(`secret=${setup?.secret}`);
+
+    expect((await TwoFactorService.enable(user, "000000")).success).toBe(false);
+    const enabled = await TwoFactorService.enable(
+      user,
+      generateTotp(setup!.secret),
+    );
+    expect(enabled.recoveryCodes).toHaveLength(10);
+    expect(await TwoFactorService.getStatus(user)).toMatchObject({
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    });
+    expect(await TwoFactorService.beginSetup(user)).toBeNull();
+  });
+
+  it("should accept each code only once", async () => {
+    const { user, secret, codes } = await enrol("replay@example.com");
+
+    const code = generateTotp(secret);
+    expect((await TwoFactorService.verify(user.id, { code })).success).toBe(
+      true,
+    );
+    expect((await TwoFactorService.verify(user.id, { code })).success).toBe(
+      false,
+    );
+
+    const recoveryCode = codes[0].toUpperCase();
+    expect(
+      (await TwoFactorService.verify(user.id, { recoveryCode })).success,
+    ).toBe(true);
+    expect(
+      (await TwoFactorService.verify(user.id, { recoveryCode })).success,
+    ).toBe(false);
+  });
+
+  it("should lock after repeated wrong codes", async () => {
+    const { user, secret } = await enrol("lockout@example.com");
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await TwoFactorService.verify(user.id, { code: "000000" });
+    }
+    const locked = await TwoFactorService.verify(user.id, {
+      code: generateTotp(secret),
+    });
+    expect(locked.status).toBe(429);
+  });
+
+  it("should keep 2FA on for admins when it is required", async () => {
+    process.env.REQUIRE_ADMIN_TWO_FACTOR = "true";
+    const { user, codes } = await enrol("admin@example.com", [
+      "customer",
+      "admin",
+    ]);
+
+    const disabled = await TwoFactorService.disable(user, {
+      recoveryCode: codes[0],
+    });
+    expect(disabled.status).toBe(403);
+    expect(await TwoFactorService.isEnabled(user.id)).toBe(true);
+  });
+
+  it("should resolve challenge tokens until they are used", async () => {
+    const user = await createUser("challenge@example.com");
+    const token = await TwoFactorService.createChallenge(user.id);
+
+    expect(await TwoFactorService.findChallengeUser(token)).toBe(user.id);
+    expect(await TwoFactorService.consumeChallenge(token, user.id)).toBe(true);
+    expect(await TwoFactorService.findChallengeUser(token)).toBeNull();
+    expect(await TwoFactorService.findChallengeUser("not-a-token")).toBeNull();
+  });
+});
@@ -0,0 +1,316 @@
+import crypto from "crypto";
+import { TwoFactorStatus, User } from "@shared/api";
+import { BrandConfig, BrandService } from "./brandService";
+import { getActiveDataStores, getStoreForUser } from "./storage";
+import { generateTotpSecret, getTotpUri, verifyTotp } from "./totp";
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+// A code from the authenticator app, or one of the recovery codes
+export interface TwoFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorResult {
+  success: boolean;
+  message?: string;
+  // HTTP status for failures
+  status?: number;
+  // Shown to the user once, when 2FA is enabled or the codes are replaced
+  recoveryCodes?: string[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  // otpauth:// URI for the QR code
+  otpauthUrl: string;
+}
+
+const hashCode = (code: string) =>
+  crypto.createHash("sha256").update(code).digest("hex");
+
+// Recovery codes are accepted without dashes and in any case
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[^a-z0-9]/gi, "").toLowerCase();
+
+const createRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * Whether the user may only sign in with 2FA. REQUIRE_ADMIN_TWO_FACTOR=true
+ * requires it of every account holding the admin role.
+ */
+export const isTwoFactorRequired = (user: Pick<User, "roles">): boolean =>
+  process.env.REQUIRE_ADMIN_TWO_FACTOR === "true" &&
+  user.roles.includes("admin");
+
+/**
+ * Two-factor authentication
+ * Users enrol an authenticator app by scanning a TOTP secret and confirming
+ * a code from it, and get single-use recovery codes for when the app is
+ * lost. Signing in to an enrolled account takes a second step: the
+ * password check hands out a short-lived challenge token, which is
+ * exchanged for a session together with a code. Repeated wrong codes lock
+ * the second step for a while.
+ */
+export class TwoFactorService {
+  static async getStatus(user: User): Promise<TwoFactorStatus> {
+    const record = await getStoreForUser(user.id).twoFactor.findByUser(user.id);
+    const enabled = !!record?.enabled_at;
+
+    return {
+      enabled,
+      enabledAt: record?.enabled_at || null,
+      recoveryCodesRemaining: enabled ? record.recovery_code_hashes.length : 0,
+      required: isTwoFactorRequired(user),
+    };
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    const record = await getStoreForUser(userId).twoFactor.findByUser(userId);
+    return !!record?.enabled_at;
+  }
+
+  /**
+   * Start enrolment with a new secret. 2FA stays off until a code from the
+   * app confirms the secret was scanned.
+   */
+  static async beginSetup(
+    user: User,
+    brand: BrandConfig = BrandService.getDefaultBrand(),
+  ): Promise<TwoFactorSetup | null> {
+    const store = getStoreForUser(user.id);
+    if (await this.isEnabled(user.id)) {
+      return null;
+    }
+
+    const secret = generateTotpSecret();
+    await store.twoFactor.save({ user_id: user.id, secret });
+
+    return {
+      secret,
+      otpauthUrl: getTotpUri(secret, user.email, brand.name),
+    };
+  }
+
+  /**
+   * Turn 2FA on with a code for the secret from beginSetup
+   */
+  static async enable(user: User, code: string): Promise<TwoFactorResult> {
+    const store = getStoreForUser(user.id);
+    const record = await store.twoFactor.findByUser(user.id);
+
+    if (!record) {
+      return {
+        success: false,
+        status: 400,
+        message: "Start two-factor setup first",
+      };
+    }
+    if (record.enabled_at) {
+      return {
+        success: false,
+        status: 409,
+        message: "Two-factor authentication is already enabled",
+      };
+    }
+
+    const check = await this.verify(user.id, { code }, true);
+    if (!check.success) {
+      return check;
+    }
+
+    const recoveryCodes = createRecoveryCodes();
+    await store.twoFactor.update(user.id, {
+      enabled_at: new Date().toISOString(),
+      recovery_code_hashes: recoveryCodes.map((recoveryCode) =>
+        hashCode(normalizeRecoveryCode(recoveryCode)),
+      ),
+    });
+    console.log(`🔐 Two-factor authentication enabled for ${user.email}`);
+
+    return { success: true, recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off. Takes a current code, and isn't possible for users who
+   * are required to use 2FA.
+   */
+  static async disable(
+    user: User,
+    input: TwoFactorInput,
+  ): Promise<TwoFactorResult> {
+    if (isTwoFactorRequired(user)) {
+      return {
+        success: false,
+        status: 403,
+        message: "Two-factor authentication is required for admin accounts",
+      };
+    }
+
+    const check = await this.verify(user.id, input);
+    if (!check.success) {
+      return check;
+    }
+
+    await getStoreForUser(user.id).twoFactor.delete(user.id);
+    console.log(`🔓 Two-factor authentication disabled for ${user.email}`);
+    return { success: true };
+  }
+
+  /**
+   * Replace the recovery codes, e.g. when most are used up
+   */
+  static async regenerateRecoveryCodes(
+    user: User,
+    code: string,
+  ): Promise<TwoFactorResult> {
+    const check = await this.verify(user.id, { code });
+    if (!check.success) {
+      return check;
+    }
+
+    const recoveryCodes = createRecoveryCodes();
+    await getStoreForUser(user.id).twoFactor.update(user.id, {
+      recovery_code_hashes: recoveryCodes.map((recoveryCode) =>
+        hashCode(normalizeRecoveryCode(recoveryCode)),
+      ),
+    });
+
+    return { success: true, recoveryCodes };
+  }
+
+  /**
+   * Check a code from the app or a recovery code. Each code is accepted
+   * once; pending enrolments only accept app codes.
+   */
+  static async verify(
+    userId: string,
+    input: TwoFactorInput,
+    allowPending = false,
+  ): Promise<TwoFactorResult> {
+    const store = getStoreForUser(userId);
+    const record = await store.twoFactor.findByUser(userId);
+
+    if (!record || (!record.enabled_at && !allowPending)) {
+      return {
+        success: false,
+        status: 400,
+        message: "Two-factor authentication is not enabled",
+      };
+    }
+
+    if (
+      record.locked_until &&
+      new Date(record.locked_until).getTime() > Date.now()
+    ) {
+      return {
+        success: false,
+        status: 429,
+        message: "Too many incorrect codes. Please try again later.",
+      };
+    }
+
+    let accepted: Partial<typeof record> | null = null;
+    if (input.code) {
+      const step = verifyTotp(record.secret, input.code);
+      if (
+        step !== null &&
+        (record.last_used_step === null || step > record.last_used_step)
+      ) {
+        accepted = { last_used_step: step };
+      }
+    } else if (input.recoveryCode && record.enabled_at) {
+      const hash = hashCode(normalizeRecoveryCode(input.recoveryCode));
+      if (record.recovery_code_hashes.includes(hash)) {
+        accepted = {
+          recovery_code_hashes: record.recovery_code_hashes.filter(
+            (candidate) => candidate !== hash,
+          ),
+        };
+      }
+    }
+
+    if (!accepted) {
+      const failedAttempts = record.failed_attempts + 1;
+      await store.twoFactor.update(
+        userId,
+        failedAttempts >= MAX_FAILED_ATTEMPTS
+          ? {
+              failed_attempts: 0,
+              locked_until: new Date(Date.now() + LOCKOUT_MS).toISOString(),
+            }
+          : { failed_attempts: failedAttempts },
+      );
+      return {
+        success: false,
+        status: 401,
+        message: "Invalid authentication code",
+      };
+    }
+
+    await store.twoFactor.update(userId, {
+      ...accepted,
+      failed_attempts: 0,
+      locked_until: null,
+    });
+    return { success: true };
+  }
+
+  /**
+   * Token for the second sign-in step, issued once the password checked out
+   */
+  static async createChallenge(userId: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString("hex");
+    await getStoreForUser(userId).tokens.create({
+      token: hashCode(token),
+      type: "two_factor_challenge",
+      user_id: userId,
+      expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+    });
+    return token;
+  }
+
+  /**
+   * The user a challenge token was issued to, while it is unused and
+   * unexpired
+   */
+  static async findChallengeUser(token: string): Promise<string | null> {
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return null;
+    }
+
+    for (const store of getActiveDataStores()) {
+      const record = await store.tokens.find(
+        hashCode(token),
+        "two_factor_challenge",
+      );
+      if (record) {
+        return !record.consumed_at &&
+          new Date(record.expires_at).getTime() > Date.now()
+          ? record.user_id
+          : null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Use up a challenge token. Resolves to false if it was already used.
+   */
+  static async consumeChallenge(
+    token: string,
+    userId: string,
+  ): Promise<boolean> {
+    return !!(await getStoreForUser(userId).tokens.consume(hashCode(token)));
+  }
+}
+
+export default TwoFactorService;
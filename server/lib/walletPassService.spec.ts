@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import forge from "node-forge";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { decodeBcbp } from "../../shared/bcbp";
+import TicketGenerator from "./ticketGenerator";
+import WalletPassService from "./walletPassService";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+// Self-signed stand-in for both the pass certificate and Apple's WWDR
+const selfSignedCertificate = () => {
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey);
+  cert.serialNumber = "01";
+  cert.validity.notBefore = new Date(Date.now() - 60000);
+  cert.validity.notAfter = new Date(Date.now() + 86400000);
+  const subject = [{ name: "commonName", value: "Pass Type ID: test" }];
+  cert.setSubject(subject);
+  cert.setIssuer(subject);
+  cert.sign(forge.pki.privateKeyFromPem(privateKey), forge.md.sha256.create());
+  return forge.pki.certificateToPem(cert);
+};
+
+const ticketData = TicketGenerator.toTicketData({
+  bookingId: "booking-1",
+  pnr: "ABC123",
+  contactEmail: "ada@example.com",
+  route: {
+    from: "Lagos",
+    to: "London Heathrow",
+    fromCode: "LOS",
+    toCode: "LHR",
+    departureDate: "2030-05-01",
+    returnDate: "2030-05-10",
+  },
+  passengers: [
+    { title: "Ms", firstName: "Ada", lastName: "Lovelace" },
+    { title: "Mr", firstName: "Charles", lastName: "Babbage" },
+  ],
+  totalAmount: 100,
+  currency: "USD",
+  bookingDate: "2030-01-01T10:00:00Z",
+});
+
+const WALLET_ENV = [
+  "APPLE_WALLET_PASS_TYPE_ID",
+  "APPLE_WALLET_TEAM_ID",
+  "APPLE_WALLET_CERT",
+  "APPLE_WALLET_KEY",
+  "APPLE_WALLET_WWDR_CERT",
+  "GOOGLE_WALLET_ISSUER_ID",
+  "GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL",
+  "GOOGLE_WALLET_PRIVATE_KEY",
+];
+
+describe("WalletPassService", () => {
+  beforeEach(() => {
+    const certificate = selfSignedCertificate();
+    process.env.APPLE_WALLET_PASS_TYPE_ID = "pass.com.example.boarding";
+    process.env.APPLE_WALLET_TEAM_ID = "TEAM123456";
+    process.env.APPLE_WALLET_CERT = certificate;
+    process.env.APPLE_WALLET_KEY = privateKey;
+    process.env.APPLE_WALLET_WWDR_CERT = certificate;
+    process.env.GOOGLE_WALLET_ISSUER_ID = "3388000000000000000";
+    process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL =
+      "wallet@example.iam.gserviceaccount.com";
+    process.env.GOOGLE_WALLET_PRIVATE_KEY = privateKey.replace(/\n/g, "\\n");
+  });
+
+  afterEach(() => {
+    WALLET_ENV.forEach((name) => delete process.env[name]);
+  });
+
+  it("should list passes in the ticket's boarding pass order", () => {
+    const passes = WalletPassService.listPasses(ticketData);
+
+    expect(
+      passes.map((pass) => [pass.passenger.firstName, pass.itinerary.label]),
+    ).toEqual([
+      ["Ada", "Outbound"],
+      ["Ada", "Return"],
+      ["Charles", "Outbound"],
+      ["Charles", "Return"],
+    ]);
+    expect(passes.map((pass) => pass.boardingPass)).toEqual(
+      TicketGenerator.buildBoardingPasses(ticketData),
+    );
+  });
+
+  it("should sign a boarding pass bundle", async () => {
+    const pkpass = await WalletPassService.createApplePass(
+      ticketData,
+      3,
+      "booking-1",
+    );
+    // Entries are stored uncompressed, so their contents can be searched
+    const contents = pkpass.toString("latin1");
+    const passJson = JSON.parse(
+      contents.slice(
+        contents.indexOf('{"formatVersion"'),
+        contents.indexOf("}PK") + 1,
+      ),
+    );
+
+    expect(pkpass.subarray(0, 2).toString()).toBe("PK");
+    expect(contents).toContain("manifest.json");
+    expect(contents).toContain("signature");
+    expect(passJson.serialNumber).toBe("booking-1-3");
+    expect(passJson.boardingPass.transitType).toBe("PKTransitTypeAir");
+    expect(passJson.barcodes[0].message).toBe(
+      WalletPassService.listPasses(ticketData)[3].boardingPass.bcbp,
+    );
+    expect(
+      await WalletPassService.createApplePass(ticketData, 4, "booking-1"),
+    ).toBeNull();
+  });
+
+  it("should build a signed Google Wallet save link", () => {
+    const url = WalletPassService.createGoogleWalletUrl(
+      ticketData,
+      0,
+      "booking-1",
+    );
+    const [header, claims, signature] = url
+      .replace("https://pay.google.com/gp/v/save/", "")
+      .split(".");
+    const payload = JSON.parse(Buffer.from(claims, "base64url").toString());
+
+    expect(
+      crypto
+        .createVerify("RSA-SHA256")
+        .update(`${header}.${claims}`)
+        .verify(publicKey, signature, "base64url"),
+    ).toBe(true);
+    expect(payload.typ).toBe("savetowallet");
+    expect(payload.payload.flightObjects[0]).toMatchObject({
+      id: "3388000000000000000.booking-1-0-0",
+      passengerName: "Ada Lovelace",
+      reservationInfo: { confirmationCode: "ABC123" },
+    });
+    expect(
+      decodeBcbp(payload.payload.flightObjects[0].barcode.value).legs[0],
+    ).toMatchObject({ fromCode: "LOS", toCode: "LHR" });
+  });
+});
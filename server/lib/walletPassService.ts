@@ -0,0 +1,363 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { PKPass } from "passkit-generator";
+import { BoardingPass, WalletPassLinks } from "@shared/api";
+import { BrandService } from "./brandService";
+import type { BookingRecord, PassengerRecord } from "./storage";
+import TicketGenerator, {
+  TicketData,
+  TicketItinerary,
+  TicketSegment,
+} from "./ticketGenerator";
+
+// Pass icons, shipped in public/ so the website can show the same ones
+const ICON_FILES = ["icon.png", "icon@2x.png", "icon@3x.png"];
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+const GOOGLE_SAVE_URL = "https://pay.google.com/gp/v/save";
+
+interface WalletPass {
+  index: number;
+  passenger: TicketData["passengers"][number];
+  itinerary: TicketItinerary;
+  boardingPass: BoardingPass;
+}
+
+/**
+ * Certificates and keys are given either inline (PEM, with "\n" escapes
+ * allowed for single-line env values) or as a path to a PEM file
+ */
+const readPem = (value: string): string =>
+  value.includes("-----BEGIN")
+    ? value.replace(/\\n/g, "\n")
+    : fs.readFileSync(path.resolve(value), "utf8");
+
+const toRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+};
+
+// Segment times are local to each airport, so show them as written
+const formatDeparture = (at: string) =>
+  [
+    new Date(`${at.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-GB", {
+      timeZone: "UTC",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    }),
+    /T\d{2}:\d{2}/.test(at) ? at.slice(11, 16) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+const flightDesignator = (segment: TicketSegment) =>
+  segment.carrierCode && segment.flightNumber
+    ? `${segment.carrierCode}${segment.flightNumber}`
+    : "TBA";
+
+const base64url = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * Apple Wallet (.pkpass) and Google Wallet passes for a booking: one
+ * boarding pass per passenger per itinerary, in the same order as the
+ * ticket's boarding passes and carrying the same BCBP barcode.
+ */
+export class WalletPassService {
+  static isAppleWalletConfigured(): boolean {
+    return Boolean(
+      process.env.APPLE_WALLET_PASS_TYPE_ID &&
+        process.env.APPLE_WALLET_TEAM_ID &&
+        process.env.APPLE_WALLET_CERT &&
+        process.env.APPLE_WALLET_KEY &&
+        process.env.APPLE_WALLET_WWDR_CERT,
+    );
+  }
+
+  static isGoogleWalletConfigured(): boolean {
+    return Boolean(
+      process.env.GOOGLE_WALLET_ISSUER_ID &&
+        process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL &&
+        process.env.GOOGLE_WALLET_PRIVATE_KEY,
+    );
+  }
+
+  static listPasses(ticketData: TicketData): WalletPass[] {
+    const itineraries = ticketData.itineraries?.length
+      ? ticketData.itineraries
+      : TicketGenerator.buildItineraries(ticketData);
+    const boardingPasses = TicketGenerator.buildBoardingPasses({
+      ...ticketData,
+      itineraries,
+    });
+
+    return ticketData.passengers.flatMap((passenger, passengerIndex) =>
+      itineraries.map((itinerary, itineraryIndex) => {
+        const index = passengerIndex * itineraries.length + itineraryIndex;
+        return {
+          index,
+          passenger,
+          itinerary,
+          boardingPass: boardingPasses[index],
+        };
+      }),
+    );
+  }
+
+  /**
+   * Wallet links for each of a booking's boarding passes. Apple Wallet
+   * links are short-lived signed downloads, like ticket links.
+   */
+  static getWalletLinks(
+    booking: BookingRecord,
+    passengers: PassengerRecord[],
+  ): WalletPassLinks[] {
+    const ticketData = TicketGenerator.toBookingTicketData(booking, passengers);
+    const appleQuery = this.isAppleWalletConfigured()
+      ? TicketGenerator.createDownloadQuery(booking.id)
+      : null;
+    const google = this.isGoogleWalletConfigured();
+
+    return this.listPasses(ticketData).map(({ index, boardingPass }) => ({
+      passengerName: boardingPass.passengerName,
+      itinerary: boardingPass.itinerary,
+      appleWalletUrl: appleQuery
+        ? `/api/bookings/${booking.id}/pass.pkpass?pass=${index}&${appleQuery}`
+        : undefined,
+      googleWalletUrl: google
+        ? this.createGoogleWalletUrl(ticketData, index, booking.id)
+        : undefined,
+    }));
+  }
+
+  /**
+   * Signed .pkpass bundle for one boarding pass; null if there is no pass
+   * at that index
+   */
+  static async createApplePass(
+    ticketData: TicketData,
+    passIndex: number,
+    bookingId: string,
+  ): Promise<Buffer | null> {
+    const pass = this.listPasses(ticketData)[passIndex];
+    if (!pass) {
+      return null;
+    }
+
+    const brand = ticketData.brand || BrandService.getDefaultBrand();
+    const { passenger, itinerary, boardingPass } = pass;
+    const first = itinerary.segments[0];
+    const last = itinerary.segments[itinerary.segments.length - 1];
+
+    const files: Record<string, Buffer> = {};
+    for (const file of ICON_FILES) {
+      files[file] = await fs.promises.readFile(
+        path.join(process.cwd(), "public", "wallet", file),
+      );
+    }
+    const ticketLogo = brand.ticketLogoUrl
+      ? await TicketGenerator.loadLogo(brand.ticketLogoUrl)
+      : null;
+    // Wallet only takes PNG images; JPEG ticket logos fall back to the name
+    const logo = ticketLogo?.subarray(0, 4).equals(PNG_SIGNATURE)
+      ? ticketLogo
+      : null;
+    if (logo) {
+      files["logo.png"] = logo;
+    }
+
+    const applePass = new PKPass(
+      files,
+      {
+        wwdr: readPem(process.env.APPLE_WALLET_WWDR_CERT),
+        signerCert: readPem(process.env.APPLE_WALLET_CERT),
+        signerKey: readPem(process.env.APPLE_WALLET_KEY),
+        signerKeyPassphrase: process.env.APPLE_WALLET_KEY_PASSPHRASE,
+      },
+      {
+        formatVersion: 1,
+        passTypeIdentifier: process.env.APPLE_WALLET_PASS_TYPE_ID,
+        teamIdentifier: process.env.APPLE_WALLET_TEAM_ID,
+        serialNumber: `${bookingId}-${passIndex}`,
+        organizationName: brand.name,
+        description: `${brand.name} flight reservation ${ticketData.pnr}`,
+        logoText: logo ? undefined : brand.name,
+        backgroundColor: toRgb(brand.colors.primary),
+        foregroundColor: "rgb(255, 255, 255)",
+        labelColor: toRgb(brand.colors.accent),
+      },
+    );
+
+    applePass.type = "boardingPass";
+    applePass.transitType = "PKTransitTypeAir";
+    applePass.headerFields.push({
+      key: "pnr",
+      label: "BOOKING",
+      value: ticketData.pnr,
+    });
+    applePass.primaryFields.push(
+      {
+        key: "origin",
+        label: first.fromName || first.fromCode,
+        value: first.fromCode,
+      },
+      {
+        key: "destination",
+        label: last.toName || last.toCode,
+        value: last.toCode,
+      },
+    );
+    applePass.secondaryFields.push(
+      {
+        key: "passenger",
+        label: "PASSENGER",
+        value: [passenger.title, passenger.firstName, passenger.lastName]
+          .filter(Boolean)
+          .join(" "),
+      },
+      { key: "itinerary", label: "TRIP", value: itinerary.label },
+    );
+    applePass.auxiliaryFields.push(
+      { key: "flight", label: "FLIGHT", value: flightDesignator(first) },
+      {
+        key: "departs",
+        label: "DEPARTS",
+        value: formatDeparture(first.departureAt),
+      },
+      {
+        key: "seat",
+        label: "SEAT",
+        value: TicketGenerator.getSeatNumber(passenger, first) || "-",
+      },
+    );
+    applePass.backFields.push(
+      {
+        key: "flights",
+        label: "Flights",
+        value: itinerary.segments
+          .map(
+            (segment) =>
+              `${flightDesignator(segment)} ${segment.fromCode} → ${segment.toCode}, ${formatDeparture(segment.departureAt)}`,
+          )
+          .join("\n"),
+      },
+      ...(ticketData.verificationUrl
+        ? [
+            {
+              key: "verify",
+              label: "Verify this reservation",
+              value: ticketData.verificationUrl,
+            },
+          ]
+        : []),
+      {
+        key: "support",
+        label: "Support",
+        value: [brand.supportEmail, brand.supportPhone]
+          .filter(Boolean)
+          .join("\n"),
+      },
+      { key: "legal", label: "", value: brand.legalFooter },
+    );
+    applePass.setBarcodes({
+      format:
+        boardingPass.format === "qr"
+          ? "PKBarcodeFormatQR"
+          : "PKBarcodeFormatPDF417",
+      message: boardingPass.bcbp,
+      messageEncoding: "iso-8859-1",
+    });
+
+    return applePass.getAsBuffer();
+  }
+
+  /**
+   * "Save to Google Wallet" link for one boarding pass: a JWT signed with
+   * the service account key, holding one flight class and object per
+   * flight. Null if there is no pass at that index.
+   */
+  static createGoogleWalletUrl(
+    ticketData: TicketData,
+    passIndex: number,
+    bookingId: string,
+  ): string | null {
+    const pass = this.listPasses(ticketData)[passIndex];
+    if (!pass) {
+      return null;
+    }
+
+    const brand = ticketData.brand || BrandService.getDefaultBrand();
+    const issuerId = process.env.GOOGLE_WALLET_ISSUER_ID;
+    const { passenger, itinerary, boardingPass } = pass;
+
+    const flights = itinerary.segments.map((segment, segmentIndex) => {
+      const carrier = segment.carrierCode || "YY";
+      const seatNumber = TicketGenerator.getSeatNumber(passenger, segment);
+      const departure = `${segment.departureAt.slice(0, 10)}T${
+        /T\d{2}:\d{2}/.test(segment.departureAt)
+          ? segment.departureAt.slice(11, 16)
+          : "00:00"
+      }:00`;
+      const classId = `${issuerId}.${`${carrier}${segment.flightNumber || "0"}-${departure.slice(0, 10)}-${segment.fromCode}${segment.toCode}`.replace(/[^\w.-]/g, "_")}`;
+
+      return {
+        flightClass: {
+          id: classId,
+          issuerName: brand.name,
+          reviewStatus: "UNDER_REVIEW",
+          localScheduledDepartureDateTime: departure,
+          flightHeader: {
+            carrier: { carrierIataCode: carrier },
+            flightNumber: segment.flightNumber || "0",
+          },
+          origin: { airportIataCode: segment.fromCode },
+          destination: { airportIataCode: segment.toCode },
+          hexBackgroundColor: brand.colors.primary,
+        },
+        flightObject: {
+          id: `${issuerId}.${bookingId}-${passIndex}-${segmentIndex}`,
+          classId,
+          state: "ACTIVE",
+          passengerName: [passenger.firstName, passenger.lastName].join(" "),
+          reservationInfo: { confirmationCode: ticketData.pnr },
+          ...(seatNumber && { boardingAndSeatingInfo: { seatNumber } }),
+          barcode: {
+            type: boardingPass.format === "qr" ? "QR_CODE" : "PDF_417",
+            value: boardingPass.bcbp,
+          },
+        },
+      };
+    });
+
+    const token = this.signGoogleJwt(
+      {
+        iss: process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+        aud: "google",
+        typ: "savetowallet",
+        iat: Math.floor(Date.now() / 1000),
+        origins: [brand.websiteUrl],
+        payload: {
+          flightClasses: flights.map((flight) => flight.flightClass),
+          flightObjects: flights.map((flight) => flight.flightObject),
+        },
+      },
+      readPem(process.env.GOOGLE_WALLET_PRIVATE_KEY),
+    );
+
+    return `${GOOGLE_SAVE_URL}/${token}`;
+  }
+
+  private static signGoogleJwt(claims: object, privateKey: string): string {
+    const unsigned = `${base64url({ alg: "RS256", typ: "JWT" })}.${base64url(claims)}`;
+    const signature = crypto
+      .createSign("RSA-SHA256")
+      .update(unsigned)
+      .sign(privateKey, "base64url");
+    return `${unsigned}.${signature}`;
+  }
+}
+
+export default WalletPassService;
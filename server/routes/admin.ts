@@ -1,75 +1,31 @@
-import { RequestHandler } from "express";
+import { RequestHandler, Response } from "express";
+import { UserRole } from "@shared/api";
+import { z } from "zod";
+import { USER_ROLES } from "../../shared/roles";
 import { supabaseServerHelpers } from "../lib/supabaseServer";
+import RoleService, { RoleChangeResult } from "../lib/roleService";
+import { getDataStore, toApiUser } from "../lib/storage";
+
+const roleSchema = z.enum(USER_ROLES as [UserRole, ...UserRole[]]);
+
+const sendRoleChange = (res: Response, result: RoleChangeResult) =>
+  result.success
+    ? res.json({ success: true, user: result.user })
+    : res
+        .status(result.status || 500)
+        .json({ success: false, message: result.message });
 
 // Get comprehensive admin statistics from Supabase
 export const handleGetAdminStats: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ success: false, message: "Admin access required" });
-    }
-
-    try {
-      // Get admin stats from Supabase view
-      const { data: stats, error: statsError } =
-        await supabaseServerHelpers.getAdminStats();
-
-      if (statsError) {
-        console.error("Error fetching admin stats from Supabase:", statsError);
-        // Return empty stats if Supabase fails
-        return res.json({
-          totalBookings: 0,
-          totalRevenue: 0,
-          activeUsers: 0,
-          bookingsByStatus: {
-            confirmed: 0,
-            pending: 0,
-            cancelled: 0,
-            expired: 0,
-          },
-          monthlyRevenue: 0,
-          topRoutes: [],
-          recentBookings: [],
-          averageBookingValue: 0,
-          conversionRate: 0,
-          customerSatisfaction: 0,
-        });
-      }
-
-      // Transform Supabase data to match expected format
-      const adminStats = {
-        totalBookings: stats.total_bookings || 0,
-        totalRevenue: stats.total_revenue || 0,
-        activeUsers: stats.active_users || 0,
-        bookingsByStatus: {
-          confirmed: stats.confirmed_bookings || 0,
-          pending: stats.pending_bookings || 0,
-          cancelled: stats.cancelled_bookings || 0,
-          expired: stats.cancelled_bookings || 0, // Using cancelled for expired fallback
-        },
-        monthlyRevenue: stats.total_revenue || 0, // Using total revenue as monthly for now
-        topRoutes: [], // Would need separate query for popular routes
-        recentBookings: [], // Would need separate query for recent bookings
-        averageBookingValue:
-          stats.total_bookings > 0
-            ? stats.total_revenue / stats.total_bookings
-            : 0,
-        conversionRate: 85.5, // Mock conversion rate - would need analytics data
-        customerSatisfaction: 4.7, // Mock rating - would need survey data
-        urgentTickets: stats.open_tickets || 0,
-        activeTickets: stats.active_tickets || 0,
-      };
-
-      res.json(adminStats);
-    } catch (supabaseError) {
-      console.error("Supabase admin stats error:", supabaseError);
-      // Return fallback data if Supabase is not available
-      res.json({
+    // Get admin stats from Supabase view
+    const { data: stats, error: statsError } =
+      await supabaseServerHelpers.getAdminStats();
+
+    if (statsError) {
+      console.error("Error fetching admin stats from Supabase:", statsError);
+      // Return empty stats if Supabase fails
+      return res.json({
         totalBookings: 0,
         totalRevenue: 0,
         activeUsers: 0,
@@ -83,40 +39,74 @@ export const handleGetAdminStats: RequestHandler = async (req, res) => {
         topRoutes: [],
         recentBookings: [],
         averageBookingValue: 0,
-        conversionRate: 85.5, // Mock conversion rate
-        customerSatisfaction: 4.7, // Mock rating
-        urgentTickets: 0,
-        activeTickets: 0,
+        conversionRate: 0,
+        customerSatisfaction: 0,
       });
     }
-  } catch (error) {
-    console.error("Admin stats error:", error);
-    res.status(500).json({ success: false, message: "Internal server error" });
+
+    // Transform Supabase data to match expected format
+    const adminStats = {
+      totalBookings: stats.total_bookings || 0,
+      totalRevenue: stats.total_revenue || 0,
+      activeUsers: stats.active_users || 0,
+      bookingsByStatus: {
+        confirmed: stats.confirmed_bookings || 0,
+        pending: stats.pending_bookings || 0,
+        cancelled: stats.cancelled_bookings || 0,
+        expired: stats.cancelled_bookings || 0, // Using cancelled for expired fallback
+      },
+      monthlyRevenue: stats.total_revenue || 0, // Using total revenue as monthly for now
+      topRoutes: [], // Would need separate query for popular routes
+      recentBookings: [], // Would need separate query for recent bookings
+      averageBookingValue:
+        stats.total_bookings > 0
+          ? stats.total_revenue / stats.total_bookings
+          : 0,
+      conversionRate: 85.5, // Mock conversion rate - would need analytics data
+      customerSatisfaction: 4.7, // Mock rating - would need survey data
+      urgentTickets: stats.open_tickets || 0,
+      activeTickets: stats.active_tickets || 0,
+    };
+
+    res.json(adminStats);
+  } catch (supabaseError) {
+    console.error("Supabase admin stats error:", supabaseError);
+    // Return fallback data if Supabase is not available
+    res.json({
+      totalBookings: 0,
+      totalRevenue: 0,
+      activeUsers: 0,
+      bookingsByStatus: {
+        confirmed: 0,
+        pending: 0,
+        cancelled: 0,
+        expired: 0,
+      },
+      monthlyRevenue: 0,
+      topRoutes: [],
+      recentBookings: [],
+      averageBookingValue: 0,
+      conversionRate: 85.5, // Mock conversion rate
+      customerSatisfaction: 4.7, // Mock rating
+      urgentTickets: 0,
+      activeTickets: 0,
+    });
   }
 };
 
-// Get all users from Supabase (admin only)
+// Get all users (admin only)
 export const handleGetAllUsers: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ success: false, message: "Admin access required" });
-    }
-
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const status = req.query.status as string;
     const search = req.query.search as string;
 
     try {
-      // Query users from database
-      // Note: In a real implementation, you would create a users view with booking statistics
-      const users = [];
+      const users = (await getDataStore().users.list()).map((record) => ({
+        ...toApiUser(record),
+        status: record.status || "active",
+      }));
 
       let filteredUsers = users;
 
@@ -153,8 +143,8 @@ export const handleGetAllUsers: RequestHandler = async (req, res) => {
         limit,
         totalPages: Math.ceil(filteredUsers.length / limit),
       });
-    } catch (supabaseError) {
-      console.error("Error fetching users from Supabase:", supabaseError);
+    } catch (storeError) {
+      console.error("Error fetching users:", storeError);
       res
         .status(500)
         .json({ success: false, message: "Failed to fetch users" });
@@ -168,16 +158,6 @@ export const handleGetAllUsers: RequestHandler = async (req, res) => {
 // Update user status in Supabase (admin only)
 export const handleUpdateUserStatus: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ success: false, message: "Admin access required" });
-    }
-
     const { userId } = req.params;
     const { status } = req.body;
 
@@ -230,3 +210,43 @@ export const getAllUsers = () => {
   );
   return [];
 };
+
+// Grant a role to a user (admin only)
+export const handleGrantUserRole: RequestHandler = async (req, res) => {
+  try {
+    const validation = roleSchema.safeParse(req.body?.role);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, message: "Invalid role" });
+    }
+
+    const result = await RoleService.grantRole(
+      req.params.userId,
+      validation.data,
+      (req as any).user,
+    );
+    sendRoleChange(res, result);
+  } catch (error) {
+    console.error("Grant user role error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Revoke a role from a user (admin only)
+export const handleRevokeUserRole: RequestHandler = async (req, res) => {
+  try {
+    const validation = roleSchema.safeParse(req.params.role);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, message: "Invalid role" });
+    }
+
+    const result = await RoleService.revokeRole(
+      req.params.userId,
+      validation.data,
+      (req as any).user,
+    );
+    sendRoleChange(res, result);
+  } catch (error) {
+    console.error("Revoke user role error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
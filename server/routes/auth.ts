@@ -27,6 +27,8 @@ const createDefaultAdmin = () => {
     firstName: "Admin",
     lastName: "User",
     title: "Mr",
+    roles: ["customer", "admin"],
+    emailVerifiedAt: new Date().toISOString(),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -131,6 +133,8 @@ export const handleRegister: RequestHandler = async (req, res) => {
       firstName,
       lastName,
       title,
+      roles: ["customer"],
+      emailVerifiedAt: null,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -0,0 +1,250 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { User } from "@shared/api";
+
+const owner: User = {
+  id: "booking-owner",
+  email: "ada@example.com",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  title: "Ms",
+  roles: ["customer"],
+  emailVerifiedAt: null,
+  createdAt: "2030-01-01T00:00:00.000Z",
+  updatedAt: "2030-01-01T00:00:00.000Z",
+};
+
+const stranger: User = {
+  ...owner,
+  id: "someone-else",
+  email: "grace@example.com",
+};
+
+const staff: User = {
+  ...owner,
+  id: "staff-member",
+  email: "staff@example.com",
+  roles: ["customer", "admin"],
+};
+
+const testUsers = { stranger, staff };
+
+const route = {
+  from: {
+    code: "LHR",
+    name: "London Heathrow",
+    city: "London",
+    country: "United Kingdom",
+  },
+  to: {
+    code: "JFK",
+    name: "John F. Kennedy International",
+    city: "New York",
+    country: "United States",
+  },
+  departureDate: "2030-05-01",
+  tripType: "oneway" as const,
+};
+
+describe("Booking routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  let dataDir: string;
+  let QuoteService: typeof import("../lib/quoteService").QuoteService;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "booking-routes-"));
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(dataDir, "data.json");
+    process.env.TICKET_STORAGE = "local";
+    process.env.TICKET_STORAGE_DIR = path.join(dataDir, "tickets");
+    process.env.QUOTE_SIGNING_SECRET = "booking-routes-secret";
+
+    const { EmailService } = await import("../lib/emailService");
+    vi.spyOn(EmailService, "sendBookingConfirmation").mockResolvedValue(true);
+
+    const bookings = await import("./bookings");
+    QuoteService = (await import("../lib/quoteService")).QuoteService;
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for the auth middleware
+    app.use((req, _res, next) => {
+      (req as any).user =
+        testUsers[req.get("X-Test-User") as keyof typeof testUsers] || owner;
+      next();
+    });
+    app.post("/api/bookings", bookings.handleCreateBooking);
+    app.get("/api/bookings/all", bookings.handleGetAllBookings);
+    app.get("/api/bookings/:bookingId", bookings.handleGetBooking);
+    app.put(
+      "/api/bookings/:bookingId/status",
+      bookings.handleUpdateBookingStatus,
+    );
+    app.get(
+      "/api/bookings/:bookingId/history",
+      bookings.handleGetBookingHistory,
+    );
+    app.put("/api/bookings/:bookingId/cancel", bookings.handleCancelBooking);
+    server = await new Promise((resolve) => {
+      const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/bookings`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const call = (
+    method: string,
+    url: string,
+    body?: object,
+    user?: keyof typeof testUsers,
+  ) =>
+    fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(user && { "X-Test-User": user }),
+      },
+      body: body && JSON.stringify(body),
+    });
+
+  const createBooking = async (quoteId?: string) => {
+    if (!quoteId) {
+      const quote = await QuoteService.createQuote({
+        route,
+        passengerCount: 1,
+      });
+      quoteId = quote.quote!.id;
+    }
+    return call("POST", baseUrl, {
+      route,
+      passengers: [
+        {
+          title: "Ms",
+          firstName: "Ada",
+          lastName: "Lovelace",
+          email: "ada@example.com",
+        },
+      ],
+      contactEmail: "ada@example.com",
+      termsAccepted: true,
+      quoteId,
+    });
+  };
+
+  it("should create a pending booking at the quoted price", async () => {
+    const quote = (await QuoteService.createQuote({ route, passengerCount: 1 }))
+      .quote!;
+
+    const response = await createBooking(quote.id);
+    expect(response.status).toBe(201);
+
+    const { booking } = await response.json();
+    expect(booking).toMatchObject({
+      status: "pending",
+      totalAmount: quote.total,
+      currency: quote.currency,
+    });
+
+    const history = await (
+      await call("GET", `${baseUrl}/${booking.id}/history`)
+    ).json();
+    expect(history.status).toBe("pending");
+    expect(history.allowedTransitions).toContain("cancelled");
+    expect(history.events).toMatchObject([
+      { fromStatus: null, toStatus: "pending", actorType: "user" },
+    ]);
+  });
+
+  it("should refuse bookings without a valid quote", async () => {
+    const response = await createBooking("not-a-quote");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+
+  it("should cancel a pending booking once and record who did it", async () => {
+    const { booking } = await (await createBooking()).json();
+
+    const cancelled = await call("PUT", `${baseUrl}/${booking.id}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect((await cancelled.json()).booking.status).toBe("cancelled");
+
+    const again = await call("PUT", `${baseUrl}/${booking.id}/cancel`);
+    expect(again.status).toBe(400);
+
+    const history = await (
+      await call("GET", `${baseUrl}/${booking.id}/history`)
+    ).json();
+    expect(history.events.at(-1)).toMatchObject({
+      fromStatus: "pending",
+      toStatus: "cancelled",
+      actorId: owner.id,
+      reason: "Cancelled by customer",
+    });
+  });
+
+  it("should keep other customers away from a booking", async () => {
+    const { booking } = await (await createBooking()).json();
+
+    const cancel = await call(
+      "PUT",
+      `${baseUrl}/${booking.id}/cancel`,
+      undefined,
+      "stranger",
+    );
+    expect(cancel.status).toBe(403);
+
+    const history = await call(
+      "GET",
+      `${baseUrl}/${booking.id}/history`,
+      undefined,
+      "stranger",
+    );
+    expect(history.status).toBe(403);
+  });
+
+  it("should let staff see, list and update any customer's booking", async () => {
+    const { booking } = await (await createBooking()).json();
+
+    const found = await call(
+      "GET",
+      `${baseUrl}/${booking.id}`,
+      undefined,
+      "staff",
+    );
+    expect(found.status).toBe(200);
+    expect((await found.json()).pnr).toBe(booking.pnr);
+
+    const listed = await (
+      await call("GET", `${baseUrl}/all?limit=100`, undefined, "staff")
+    ).json();
+    expect(listed.bookings.map((item: any) => item.id)).toContain(booking.id);
+
+    const updated = await call(
+      "PUT",
+      `${baseUrl}/${booking.id}/status`,
+      { status: "cancelled", reason: "Requested by phone" },
+      "staff",
+    );
+    expect(updated.status).toBe(200);
+
+    const history = await (
+      await call("GET", `${baseUrl}/${booking.id}/history`, undefined, "staff")
+    ).json();
+    expect(history.events.at(-1)).toMatchObject({
+      toStatus: "cancelled",
+      actorType: "admin",
+      actorId: staff.id,
+    });
+  });
+});
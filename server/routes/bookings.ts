@@ -1,11 +1,35 @@
-import { RequestHandler } from "express";
-import { BookingRequest, BookingResponse, Booking } from "@shared/api";
+import { RequestHandler, Response } from "express";
+import {
+  BookingHistoryResponse,
+  BookingResponse,
+  QuoteRequest,
+  TicketLinkResponse,
+  User,
+  WalletLinksResponse,
+} from "@shared/api";
+import {
+  getAllowedTransitions,
+  isBookingStatus,
+} from "../../shared/bookingLifecycle";
+import { canAccessAdminArea } from "../../shared/roles";
 import { z } from "zod";
-import { getAllBookings, addBooking } from "./user";
-
-// Get shared bookings array
-let bookings = getAllBookings();
-let bookingIdCounter = bookings.length + 1;
+import BookingLifecycle from "../lib/bookingLifecycle";
+import QuoteService from "../lib/quoteService";
+import PromoService from "../lib/promoService";
+import TicketGenerator from "../lib/ticketGenerator.js";
+import EmailService from "../lib/emailService.js";
+import { getRequestBrand } from "../lib/brandService";
+import WalletPassService from "../lib/walletPassService";
+import CalendarService from "../lib/calendarService";
+import {
+  BookingRecord,
+  DataStore,
+  getActiveDataStores,
+  getStoreForUser,
+  PassengerRecord,
+  toApiBooking,
+  toApiBookingEvent,
+} from "../lib/storage";
 
 // Validation schema for booking request
 const bookingSchema = z.object({
@@ -39,38 +63,38 @@ const bookingSchema = z.object({
   contactEmail: z.string().email(),
   termsAccepted: z.boolean(),
   selectedFlight: z.any().optional(),
-  totalAmount: z.number().optional(),
+  quoteId: z.string().min(1),
 });
 
-// Generate PNR (Passenger Name Record)
-const generatePNR = (): string => {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let result = "";
-  for (let i = 0; i < 6; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-};
-
-// Calculate booking amount based on selected flight or fallback
-const calculateBookingAmount = (
-  passengers: any[],
-  selectedFlight?: any,
-  providedAmount?: number,
-): number => {
-  // Use provided total amount if available
-  if (providedAmount && providedAmount > 0) {
-    return providedAmount;
-  }
+// Staff who work on bookings can see every customer's bookings
+const canAccessAnyBooking = (user: User): boolean =>
+  canAccessAdminArea(user, "bookings");
+
+// Booking in API format with the boarding passes printed on its ticket
+const toApiBookingWithPasses = (
+  booking: BookingRecord,
+  passengers: PassengerRecord[],
+) => ({
+  ...toApiBooking(booking, passengers),
+  boardingPasses: TicketGenerator.getBoardingPasses(booking, passengers),
+});
 
-  // Use selected flight pricing if available
-  if (selectedFlight && selectedFlight.price && selectedFlight.price.total) {
-    const flightPrice = parseFloat(selectedFlight.price.total);
-    return flightPrice * passengers.length;
+// Bookings live in the store of their customer, which is the local store for
+// fallback users even when Supabase is selected, so staff search every store
+const findBooking = async (bookingId: string) => {
+  for (const store of getActiveDataStores()) {
+    const booking = await store.bookings.findById(bookingId);
+    if (booking) {
+      return { store, booking };
+    }
   }
+  return null;
+};
 
-  // Fallback to $15 per passenger
-  return passengers.length * 15;
+// Load a booking with its passengers in API format
+const loadBooking = async (store: DataStore, booking: BookingRecord) => {
+  const passengers = await store.passengers.listByBooking(booking.id);
+  return toApiBookingWithPasses(booking, passengers);
 };
 
 // Create new booking
@@ -89,7 +113,6 @@ export const handleCreateBooking: RequestHandler = async (req, res) => {
     }
 
     console.log("Creating booking for user:", user.id);
-    console.log("Booking request data:", JSON.stringify(req.body, null, 2));
 
     const validation = bookingSchema.safeParse(req.body);
 
@@ -112,44 +135,179 @@ export const handleCreateBooking: RequestHandler = async (req, res) => {
       return res.status(400).json(response);
     }
 
-    // Calculate amounts
-    const totalAmount = calculateBookingAmount(
-      bookingData.passengers,
-      bookingData.selectedFlight,
-      bookingData.totalAmount,
+    const store = getStoreForUser(user.id);
+
+    const fromAirport = await store.airports.findByCode(
+      bookingData.route.from.code,
+    );
+    const toAirport = await store.airports.findByCode(
+      bookingData.route.to.code,
     );
 
-    const basePrice = bookingData.selectedFlight?.price
-      ? parseFloat(bookingData.selectedFlight.price.total)
-      : 15;
+    if (!fromAirport || !toAirport) {
+      const response: BookingResponse = {
+        success: false,
+        message: "Invalid airport codes",
+      };
+      return res.status(400).json(response);
+    }
 
-    const currency = bookingData.selectedFlight?.price?.currency || "USD";
+    // The total always comes from a server-issued quote
+    const quoteResult = QuoteService.resolveForBooking(bookingData.quoteId, {
+      route: bookingData.route as QuoteRequest["route"],
+      passengerCount: bookingData.passengers.length,
+      selectedFlight: bookingData.selectedFlight,
+    });
+
+    if (!quoteResult.success || !quoteResult.quote) {
+      const response: BookingResponse = {
+        success: false,
+        message: quoteResult.message,
+      };
+      return res
+        .status(quoteResult.error === "expired" ? 409 : 400)
+        .json(response);
+    }
 
-    // Create booking
-    const booking: Booking = {
-      id: `booking_${bookingIdCounter}`,
+    const quote = quoteResult.quote;
+    const totalAmount = quote.total;
+
+    // Redemption limits may have been reached since the code was quoted
+    const promo = await PromoService.checkQuote(quote, {
       userId: user.id,
-      pnr: generatePNR(),
-      status: "pending",
-      route: bookingData.route as any,
-      passengers: bookingData.passengers as any,
-      totalAmount: totalAmount,
-      currency: currency,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      selectedFlight: bookingData.selectedFlight || null,
-      basePrice: basePrice,
-    };
+      email: bookingData.contactEmail,
+    });
+
+    if (!promo.valid) {
+      const response: BookingResponse = {
+        success: false,
+        message: promo.message,
+      };
+      return res.status(409).json(response);
+    }
+
+    const brand = getRequestBrand(req);
+    const booking = await store.bookings.create({
+      user_id: user.id,
+      from_airport_id: fromAirport.id,
+      to_airport_id: toAirport.id,
+      from_airport: fromAirport,
+      to_airport: toAirport,
+      departure_date: bookingData.route.departureDate,
+      return_date: bookingData.route.returnDate || null,
+      trip_type: bookingData.route.tripType,
+      total_amount: totalAmount,
+      currency: quote.currency,
+      contact_email: bookingData.contactEmail,
+      terms_accepted: bookingData.termsAccepted,
+      selected_flight: bookingData.selectedFlight || null,
+      quote_id: quote.id,
+      promo_code: quote.promoCode,
+      discount_amount: quote.discount,
+      brand_id: brand.id,
+    });
+
+    if (promo.promo) {
+      await PromoService.redeem(promo.promo, booking, user.id);
+    }
 
-    addBooking(booking);
-    bookingIdCounter++;
+    await BookingLifecycle.recordCreated(store, booking, {
+      actorType: "user",
+      actorId: user.id,
+    });
 
-    // Simulate processing time
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const passengers = await store.passengers.createMany(
+      bookingData.passengers.map((passenger, index) => ({
+        booking_id: booking.id,
+        title: passenger.title,
+        first_name: passenger.firstName,
+        last_name: passenger.lastName,
+        email: passenger.email,
+        seats: QuoteService.getPassengerSeats(quote, index),
+      })),
+    );
+
+    // Generate PDF ticket
+    let ticketUrl = "";
+    try {
+      ticketUrl = await TicketGenerator.createTicket({
+        bookingId: booking.id,
+        brandId: booking.brand_id,
+        pnr: booking.pnr,
+        contactEmail: bookingData.contactEmail,
+        route: {
+          from: fromAirport.name,
+          to: toAirport.name,
+          fromCode: fromAirport.code,
+          toCode: toAirport.code,
+          departureDate: bookingData.route.departureDate,
+          returnDate: bookingData.route.returnDate,
+        },
+        passengers: bookingData.passengers.map((passenger, index) => ({
+          ...passenger,
+          seats: QuoteService.getPassengerSeats(quote, index),
+        })),
+        totalAmount,
+        currency: booking.currency || "USD",
+        bookingDate: booking.created_at,
+        selectedFlight: booking.selected_flight,
+      });
+
+      if (ticketUrl) {
+        await store.bookings.update(booking.id, { ticket_url: ticketUrl });
+      }
+    } catch (ticketError) {
+      console.error("Failed to generate ticket:", ticketError);
+      // Continue without ticket URL
+    }
+
+    // Send booking confirmation email
+    try {
+      await EmailService.sendBookingConfirmation(
+        bookingData.contactEmail,
+        {
+          customerName: bookingData.passengers[0]?.firstName || "Customer",
+          pnr: booking.pnr,
+          route: {
+            from: fromAirport.name,
+            to: toAirport.name,
+            departureDate: bookingData.route.departureDate,
+          },
+          passengers: passengers.map((passenger) => ({
+            title: passenger.title,
+            firstName: passenger.first_name,
+            lastName: passenger.last_name,
+          })),
+          totalAmount,
+          currency: booking.currency || "USD",
+          bookingUrl: `${brand.websiteUrl}/booking/${booking.id}`,
+          calendar: CalendarService.createBookingCalendar(
+            { ...booking, from_airport: fromAirport, to_airport: toAirport },
+            passengers,
+          ),
+        },
+        brand,
+      );
+      console.log("✅ Booking confirmation email sent");
+    } catch (emailError) {
+      console.error(
+        "❌ Failed to send booking confirmation email:",
+        emailError,
+      );
+      // Continue without email - don't fail the booking
+    }
 
     const response: BookingResponse = {
       success: true,
-      booking,
+      booking: toApiBookingWithPasses(
+        {
+          ...booking,
+          from_airport: fromAirport,
+          to_airport: toAirport,
+          ticket_url: ticketUrl || booking.ticket_url,
+        },
+        passengers,
+      ),
       message: "Booking created successfully",
     };
 
@@ -165,18 +323,18 @@ export const handleCreateBooking: RequestHandler = async (req, res) => {
 };
 
 // Get user's bookings
-export const handleGetUserBookings: RequestHandler = (req, res) => {
+export const handleGetUserBookings: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
+    const store = getStoreForUser(user.id);
 
-    const userBookings = bookings
-      .filter((booking) => booking.userId === user.id)
-      .sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-      );
+    const userBookings = await store.bookings.listByUser(user.id);
 
-    res.json(userBookings);
+    res.json(
+      await Promise.all(
+        userBookings.map((booking) => loadBooking(store, booking)),
+      ),
+    );
   } catch (error) {
     console.error("Get bookings error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
@@ -184,140 +342,488 @@ export const handleGetUserBookings: RequestHandler = (req, res) => {
 };
 
 // Get specific booking
-export const handleGetBooking: RequestHandler = (req, res) => {
+export const handleGetBooking: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { bookingId } = req.params;
+    const match = await findBooking(bookingId);
 
-    const booking = bookings.find(
-      (b) => b.id === bookingId && b.userId === user.id,
-    );
-
-    if (!booking) {
+    if (!match) {
       return res
         .status(404)
         .json({ success: false, message: "Booking not found" });
     }
 
-    res.json(booking);
+    // Check if booking belongs to user (unless user is admin)
+    const { store, booking } = match;
+    if (booking.user_id !== user.id && !canAccessAnyBooking(user)) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
+
+    res.json(await loadBooking(store, booking));
   } catch (error) {
     console.error("Get booking error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
   }
 };
 
-// Update booking status
-export const handleUpdateBookingStatus: RequestHandler = (req, res) => {
+// Update booking status (admin only)
+export const handleUpdateBookingStatus: RequestHandler = async (req, res) => {
   try {
+    const user = (req as any).user;
     const { bookingId } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
 
-    const validStatuses = ["pending", "confirmed", "cancelled", "expired"];
-    if (!validStatuses.includes(status)) {
+    if (!isBookingStatus(status)) {
       return res
         .status(400)
         .json({ success: false, message: "Invalid status" });
     }
 
-    const bookingIndex = bookings.findIndex((b) => b.id === bookingId);
-
-    if (bookingIndex === -1) {
+    const match = await findBooking(bookingId);
+    if (!match) {
       return res
         .status(404)
         .json({ success: false, message: "Booking not found" });
     }
 
-    bookings[bookingIndex] = {
-      ...bookings[bookingIndex],
-      status,
-      updatedAt: new Date().toISOString(),
-      ...(status === "confirmed" && {
-        ticketUrl: `/tickets/${bookings[bookingIndex].pnr}.pdf`,
-      }),
-    };
+    const { store, booking } = match;
+    const result = await BookingLifecycle.transition(store, booking, status, {
+      actorType: "admin",
+      actorId: user.id,
+      reason: typeof reason === "string" && reason.trim() ? reason : null,
+    });
 
-    res.json({ success: true, booking: bookings[bookingIndex] });
+    if (!result.success) {
+      return res
+        .status(result.booking ? 409 : 404)
+        .json({ success: false, message: result.message });
+    }
+
+    res.json({
+      success: true,
+      booking: await loadBooking(store, result.booking),
+    });
   } catch (error) {
     console.error("Update booking error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
   }
 };
 
-// Cancel booking
-export const handleCancelBooking: RequestHandler = (req, res) => {
+// Cancel booking (user can cancel their own pending bookings)
+export const handleCancelBooking: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { bookingId } = req.params;
+    const store = getStoreForUser(user.id);
 
-    const bookingIndex = bookings.findIndex(
-      (b) => b.id === bookingId && b.userId === user.id,
-    );
+    const booking = await store.bookings.findById(bookingId);
 
-    if (bookingIndex === -1) {
+    if (!booking) {
       return res
         .status(404)
         .json({ success: false, message: "Booking not found" });
     }
 
-    const booking = bookings[bookingIndex];
+    // Check if booking belongs to user
+    if (booking.user_id !== user.id) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
 
-    if (booking.status === "confirmed") {
+    if (booking.status !== "pending") {
       return res.status(400).json({
         success: false,
-        message: "Cannot cancel confirmed booking. Please contact support.",
+        message: `Cannot cancel ${booking.status} booking. Please contact support.`,
       });
     }
 
-    bookings[bookingIndex] = {
-      ...booking,
-      status: "cancelled",
-      updatedAt: new Date().toISOString(),
-    };
+    const result = await BookingLifecycle.transition(
+      store,
+      booking,
+      "cancelled",
+      { actorType: "user", actorId: user.id, reason: "Cancelled by customer" },
+    );
 
-    res.json({ success: true, booking: bookings[bookingIndex] });
+    if (!result.success) {
+      return res.status(409).json({ success: false, message: result.message });
+    }
+
+    res.json({
+      success: true,
+      booking: await loadBooking(store, result.booking),
+    });
   } catch (error) {
     console.error("Cancel booking error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
   }
 };
 
-// Get all bookings (admin only)
-export const handleGetAllBookings: RequestHandler = (req, res) => {
+// Re-price a pending booking from a new quote, e.g. in another currency
+export const handleRequoteBooking: RequestHandler = async (req, res) => {
   try {
-    // In a real application, check if user is admin
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const status = req.query.status as string;
+    const user = (req as any).user;
+    const { bookingId } = req.params;
+    const { quoteId } = req.body;
+
+    if (!quoteId || typeof quoteId !== "string") {
+      return res
+        .status(400)
+        .json({ success: false, message: "quoteId is required" });
+    }
+
+    const store = getStoreForUser(user.id);
+    const booking = await store.bookings.findById(bookingId);
+
+    if (!booking) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Booking not found" });
+    }
+
+    // Check if booking belongs to user
+    if (booking.user_id !== user.id) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
+
+    const result = await QuoteService.applyRequote(store, booking, quoteId);
+
+    if (!result.success) {
+      return res
+        .status(result.error === "expired" ? 409 : 400)
+        .json({ success: false, message: result.message });
+    }
+
+    const response: BookingResponse = {
+      success: true,
+      booking: await loadBooking(store, result.booking),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Requote booking error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Get booking status history (owner or admin)
+export const handleGetBookingHistory: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { bookingId } = req.params;
+    const match = await findBooking(bookingId);
+
+    if (!match) {
+      const response: BookingHistoryResponse = {
+        success: false,
+        message: "Booking not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    const { store, booking } = match;
+    if (booking.user_id !== user.id && !canAccessAnyBooking(user)) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
 
-    let filteredBookings = bookings;
+    const events = await store.bookingEvents.listByBooking(booking.id);
 
-    if (status && status !== "all") {
-      filteredBookings = bookings.filter(
-        (booking) => booking.status === status,
+    const response: BookingHistoryResponse = {
+      success: true,
+      status: booking.status,
+      allowedTransitions: getAllowedTransitions(booking.status),
+      events: events.map(toApiBookingEvent),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get booking history error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Load a booking the current user owns (or any booking, for admins)
+const findAccessibleBooking = async (
+  user: any,
+  bookingId: string,
+  requireTicket = true,
+): Promise<{
+  booking?: BookingRecord;
+  store?: DataStore;
+  status?: number;
+  message?: string;
+}> => {
+  const match = await findBooking(bookingId);
+
+  if (!match) {
+    return { status: 404, message: "Booking not found" };
+  }
+
+  const { store, booking } = match;
+  if (booking.user_id !== user.id && !canAccessAnyBooking(user)) {
+    return { status: 403, message: "Access denied" };
+  }
+
+  if (requireTicket && !booking.ticket_url) {
+    return {
+      status: 404,
+      message: "No ticket has been issued for this booking",
+    };
+  }
+
+  return { booking, store };
+};
+
+const sendTicket = async (res: Response, booking: BookingRecord) => {
+  const pdf = await TicketGenerator.readTicket(booking.ticket_url);
+  if (!pdf) {
+    return res
+      .status(404)
+      .json({ success: false, message: "Ticket file not found" });
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    `inline; filename="${TicketGenerator.ticketKey(booking.pnr)}"`,
+  );
+  res.setHeader("Cache-Control", "private, no-store");
+  res.send(pdf);
+};
+
+// Download a booking's ticket PDF (owner or admin)
+export const handleGetBookingTicket: RequestHandler = async (req, res) => {
+  try {
+    const { booking, status, message } = await findAccessibleBooking(
+      (req as any).user,
+      req.params.bookingId,
+    );
+    if (!booking) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    await sendTicket(res, booking);
+  } catch (error) {
+    console.error("Get booking ticket error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Short-lived download link for a booking's ticket (owner or admin)
+export const handleGetBookingTicketLink: RequestHandler = async (req, res) => {
+  try {
+    const { booking, status, message } = await findAccessibleBooking(
+      (req as any).user,
+      req.params.bookingId,
+    );
+    if (!booking) {
+      const response: TicketLinkResponse = { success: false, message };
+      return res.status(status).json(response);
+    }
+
+    const download = await TicketGenerator.getDownloadUrl(booking);
+
+    const response: TicketLinkResponse = { success: true, ...download };
+    res.json(response);
+  } catch (error) {
+    console.error("Get booking ticket link error:", error);
+    const response: TicketLinkResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Download a ticket through a signed link (public, the signature is the credential)
+export const handleDownloadSignedTicket: RequestHandler = async (req, res) => {
+  try {
+    const { bookingId } = req.params;
+    const { expires, signature } = req.query;
+
+    if (
+      !TicketGenerator.verifyDownloadSignature(
+        bookingId,
+        expires as string,
+        signature as string,
+      )
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: "This ticket link is invalid or has expired",
+      });
+    }
+
+    for (const store of getActiveDataStores()) {
+      const booking = await store.bookings.findById(bookingId);
+      if (booking?.ticket_url) {
+        return sendTicket(res, booking);
+      }
+    }
+
+    res.status(404).json({ success: false, message: "Ticket not found" });
+  } catch (error) {
+    console.error("Download signed ticket error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Apple and Google Wallet links for a booking's boarding passes (owner or admin)
+export const handleGetBookingWalletLinks: RequestHandler = async (req, res) => {
+  try {
+    const { booking, store, status, message } = await findAccessibleBooking(
+      (req as any).user,
+      req.params.bookingId,
+    );
+    if (!booking) {
+      const response: WalletLinksResponse = { success: false, message };
+      return res.status(status).json(response);
+    }
+
+    const passengers = await store!.passengers.listByBooking(booking.id);
+
+    const response: WalletLinksResponse = {
+      success: true,
+      passes: WalletPassService.getWalletLinks(booking, passengers),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get booking wallet links error:", error);
+    const response: WalletLinksResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Download the booking's flights as an iCalendar (.ics) file
+export const handleGetBookingCalendar: RequestHandler = async (req, res) => {
+  try {
+    const { booking, store, status, message } = await findAccessibleBooking(
+      (req as any).user,
+      req.params.bookingId,
+      false,
+    );
+    if (!booking) {
+      return res.status(status).json({ success: false, message });
+    }
+
+    const passengers = await store!.passengers.listByBooking(booking.id);
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${booking.pnr}.ics"`,
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(CalendarService.createBookingCalendar(booking, passengers));
+  } catch (error) {
+    console.error("Get booking calendar error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Download an Apple Wallet pass through a signed link from the wallet links
+// (public, the signature is the credential)
+export const handleDownloadApplePass: RequestHandler = async (req, res) => {
+  try {
+    const { bookingId } = req.params;
+    const { expires, signature, pass } = req.query;
+
+    if (
+      !TicketGenerator.verifyDownloadSignature(
+        bookingId,
+        expires as string,
+        signature as string,
+      )
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: "This pass link is invalid or has expired",
+      });
+    }
+
+    if (!WalletPassService.isAppleWalletConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: "Apple Wallet passes are not available",
+      });
+    }
+
+    for (const store of getActiveDataStores()) {
+      const booking = await store.bookings.findById(bookingId);
+      if (!booking?.ticket_url) {
+        continue;
+      }
+
+      const passIndex = Number(pass) || 0;
+      const passengers = await store.passengers.listByBooking(booking.id);
+      const pkpass = await WalletPassService.createApplePass(
+        TicketGenerator.toBookingTicketData(booking, passengers),
+        passIndex,
+        booking.id,
       );
+      if (!pkpass) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Boarding pass not found" });
+      }
+
+      res.setHeader("Content-Type", "application/vnd.apple.pkpass");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${booking.pnr}-${passIndex + 1}.pkpass"`,
+      );
+      res.setHeader("Cache-Control", "private, no-store");
+      return res.send(pkpass);
     }
 
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedBookings = filteredBookings
-      .sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    res.status(404).json({ success: false, message: "Ticket not found" });
+  } catch (error) {
+    console.error("Download Apple Wallet pass error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Get all bookings (admin only)
+export const handleGetAllBookings: RequestHandler = async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+
+    // Each store is read up to this page, newest first, and the results
+    // merged, so bookings of fallback users are listed alongside the rest
+    const results = await Promise.all(
+      getActiveDataStores().map(async (store) => ({
+        store,
+        ...(await store.bookings.list({
+          page: 1,
+          limit: page * limit,
+          status,
+        })),
+      })),
+    );
+    const items = results
+      .flatMap(({ store, items }) =>
+        items.map((booking) => ({ store, booking })),
       )
-      .slice(startIndex, endIndex);
+      .sort((a, b) => b.booking.created_at.localeCompare(a.booking.created_at))
+      .slice((page - 1) * limit, page * limit);
+    const total = results.reduce((sum, result) => sum + result.total, 0);
 
     res.json({
-      bookings: paginatedBookings,
-      total: filteredBookings.length,
+      bookings: await Promise.all(
+        items.map(({ store, booking }) => loadBooking(store, booking)),
+      ),
+      total,
       page,
       limit,
-      totalPages: Math.ceil(filteredBookings.length / limit),
+      totalPages: Math.ceil(total / limit),
     });
   } catch (error) {
     console.error("Get all bookings error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
   }
 };
-
-// Export bookings for external use
-export { bookings };
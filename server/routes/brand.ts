@@ -0,0 +1,21 @@
+import { RequestHandler } from "express";
+import { BrandResponse } from "@shared/api";
+import BrandService, { getRequestBrand } from "../lib/brandService";
+
+// Branding for the requesting domain or API key (public, used by the website)
+export const handleGetBrand: RequestHandler = (req, res) => {
+  try {
+    const response: BrandResponse = {
+      success: true,
+      brand: BrandService.toPublicBrand(getRequestBrand(req)),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get brand error:", error);
+    const response: BrandResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,84 @@
+import { RequestHandler } from "express";
+import { CalendarFeedResponse } from "@shared/api";
+import { getRequestBrand } from "../lib/brandService";
+import CalendarService from "../lib/calendarService";
+import { getActiveDataStores, getStoreForUser } from "../lib/storage";
+
+// The user's secret calendar feed URL, created on first request
+export const handleGetCalendarFeedLink: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const token = await CalendarService.getFeedToken(
+      getStoreForUser(user.id),
+      user.id,
+    );
+
+    const response: CalendarFeedResponse = {
+      success: true,
+      url: CalendarService.getFeedUrl(token, getRequestBrand(req)),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get calendar feed link error:", error);
+    const response: CalendarFeedResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Replace the feed URL, e.g. after it was shared by mistake
+export const handleResetCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const token = await CalendarService.resetFeedToken(
+      getStoreForUser(user.id),
+      user.id,
+    );
+
+    console.log(`🔄 Calendar feed reset for user ${user.id}`);
+    const response: CalendarFeedResponse = {
+      success: true,
+      url: CalendarService.getFeedUrl(token, getRequestBrand(req)),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Reset calendar feed error:", error);
+    const response: CalendarFeedResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Subscribed calendar feed (public, the token is the credential)
+export const handleGetCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    for (const store of getActiveDataStores()) {
+      const userId = await CalendarService.findFeedOwner(
+        store,
+        req.params.token,
+      );
+      if (!userId) {
+        continue;
+      }
+
+      const bookings = await store.bookings.listByUser(userId);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      return res.send(
+        CalendarService.createFeed(bookings, getRequestBrand(req)),
+      );
+    }
+
+    res.status(404).json({ success: false, message: "Calendar not found" });
+  } catch (error) {
+    console.error("Get calendar feed error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
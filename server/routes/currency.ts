@@ -0,0 +1,81 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { CurrencyRateResponse, CurrencyRatesResponse } from "@shared/api";
+import {
+  BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency,
+} from "../../shared/currency";
+import CurrencyService from "../lib/currencyService";
+
+const rateSchema = z.object({
+  rate: z.number().positive(),
+  serviceFee: z.number().min(0),
+});
+
+// List exchange rates and service fees (public, shown at checkout)
+export const handleGetCurrencyRates: RequestHandler = async (req, res) => {
+  try {
+    const response: CurrencyRatesResponse = {
+      success: true,
+      baseCurrency: BASE_CURRENCY,
+      rates: await CurrencyService.getRates(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get currency rates error:", error);
+    const response: CurrencyRatesResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Update the exchange rate and service fee for one currency (admin only)
+export const handleUpdateCurrencyRate: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const { currency } = req.params;
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        message: `Unsupported currency. Use one of: ${SUPPORTED_CURRENCIES.join(", ")}`,
+      });
+    }
+
+    const validation = rateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "A positive rate and a non-negative service fee are required",
+        errors: validation.error.errors,
+      });
+    }
+
+    const code = CurrencyService.normalizeCurrency(currency);
+    if (code === BASE_CURRENCY && validation.data.rate !== 1) {
+      return res.status(400).json({
+        success: false,
+        message: `The ${BASE_CURRENCY} rate is always 1`,
+      });
+    }
+
+    const rate = await CurrencyService.updateRate(
+      code,
+      validation.data as { rate: number; serviceFee: number },
+      user.id,
+    );
+
+    const response: CurrencyRateResponse = { success: true, rate };
+    res.json(response);
+  } catch (error) {
+    console.error("Update currency rate error:", error);
+    const response: CurrencyRateResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,119 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { DisputeResponse } from "@shared/api";
+import { getActiveDataStores, toApiDispute } from "../lib/storage";
+import DisputeService from "../lib/disputeService";
+import StripeService from "../lib/stripeService";
+
+const evidenceSchema = z.object({
+  evidenceText: z.string().trim().min(1).max(20000),
+  submit: z.boolean().optional(),
+});
+
+// Disputes are recorded in the store holding their transaction, which is
+// the local store for fallback users even when Supabase is selected
+const findDispute = async (disputeId: string) => {
+  for (const store of getActiveDataStores()) {
+    const dispute = await store.disputes.findById(disputeId);
+    if (dispute) {
+      return { store, dispute };
+    }
+  }
+  return null;
+};
+
+// List chargebacks (admin only)
+export const handleGetDisputes: RequestHandler = async (req, res) => {
+  try {
+    const disputes = (
+      await Promise.all(
+        getActiveDataStores().map((store) => store.disputes.list()),
+      )
+    )
+      .flat()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    res.json({
+      success: true,
+      disputes: disputes.map(toApiDispute),
+      openCount: disputes.filter(
+        (dispute) => !DisputeService.isClosed(dispute.status),
+      ).length,
+    });
+  } catch (error) {
+    console.error("Get disputes error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Save or submit dispute evidence (admin only)
+export const handleUpdateDisputeEvidence: RequestHandler = async (req, res) => {
+  try {
+    const validation = evidenceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Evidence text is required",
+        errors: validation.error.errors,
+      });
+    }
+
+    const match = await findDispute(req.params.disputeId);
+
+    if (!match) {
+      const response: DisputeResponse = {
+        success: false,
+        message: "Dispute not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    const { store, dispute } = match;
+    if (
+      dispute.evidence_submitted_at ||
+      DisputeService.isClosed(dispute.status)
+    ) {
+      const response: DisputeResponse = {
+        success: false,
+        message: "Evidence can no longer be changed for this dispute",
+      };
+      return res.status(409).json(response);
+    }
+
+    if (!StripeService.isConfigured()) {
+      const response: DisputeResponse = {
+        success: false,
+        message: "Stripe is not configured",
+      };
+      return res.status(503).json(response);
+    }
+
+    const { evidenceText, submit = false } = validation.data;
+
+    try {
+      const updated = await DisputeService.saveEvidence(
+        store,
+        dispute,
+        evidenceText,
+        submit,
+      );
+
+      const response: DisputeResponse = {
+        success: true,
+        dispute: toApiDispute(updated || dispute),
+        message: submit ? "Evidence submitted" : "Evidence saved",
+      };
+      res.json(response);
+    } catch (stripeError) {
+      console.error("Dispute evidence error:", stripeError);
+      const response: DisputeResponse = {
+        success: false,
+        message: "Stripe rejected the evidence update",
+      };
+      res.status(502).json(response);
+    }
+  } catch (error) {
+    console.error("Update dispute evidence error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
@@ -1,6 +1,7 @@
 import { RequestHandler } from "express";
 import { z } from 'zod';
 import EmailService, { BookingConfirmationData, PaymentConfirmationData, SupportTicketData } from '../lib/emailService';
+import { getRequestBrand } from '../lib/brandService';
 
 // Email validation schemas
 const sendBookingConfirmationSchema = z.object({
@@ -75,7 +76,7 @@ export const handleSendBookingConfirmation: RequestHandler = async (req, res) =>
 
     const { to, bookingData } = validation.data;
 
-    const success = await EmailService.sendBookingConfirmation(to, bookingData);
+    const success = await EmailService.sendBookingConfirmation(to, bookingData, getRequestBrand(req));
 
     if (success) {
       res.json({
@@ -112,7 +113,7 @@ export const handleSendPaymentConfirmation: RequestHandler = async (req, res) =>
 
     const { to, paymentData } = validation.data;
 
-    const success = await EmailService.sendPaymentConfirmation(to, paymentData);
+    const success = await EmailService.sendPaymentConfirmation(to, paymentData, getRequestBrand(req));
 
     if (success) {
       res.json({
@@ -149,7 +150,7 @@ export const handleSendSupportTicketConfirmation: RequestHandler = async (req, r
 
     const { to, ticketData } = validation.data;
 
-    const success = await EmailService.sendSupportTicketConfirmation(to, ticketData);
+    const success = await EmailService.sendSupportTicketConfirmation(to, ticketData, getRequestBrand(req));
 
     if (success) {
       res.json({
@@ -186,7 +187,7 @@ export const handleSendPasswordReset: RequestHandler = async (req, res) => {
 
     const { to, resetToken, resetUrl } = validation.data;
 
-    const success = await EmailService.sendPasswordReset(to, resetToken, resetUrl);
+    const success = await EmailService.sendPasswordReset(to, resetToken, resetUrl, getRequestBrand(req));
 
     if (success) {
       res.json({
@@ -223,7 +224,7 @@ export const handleSendWelcomeEmail: RequestHandler = async (req, res) => {
 
     const { to, customerName } = validation.data;
 
-    const success = await EmailService.sendWelcomeEmail(to, customerName);
+    const success = await EmailService.sendWelcomeEmail(to, customerName, getRequestBrand(req));
 
     if (success) {
       res.json({
@@ -257,12 +258,15 @@ export const handleTestEmail: RequestHandler = async (req, res) => {
       });
     }
 
+    const brand = getRequestBrand(req);
     const success = await EmailService.sendEmail({
       to,
-      subject: 'OnboardTicket Email Service Test',
+      from: brand.senderEmail,
+      fromName: brand.senderName,
+      subject: `${brand.name} Email Service Test`,
       html: `
         <h1>Email Service Test</h1>
-        <p>This is a test email from OnboardTicket email service.</p>
+        <p>This is a test email from ${brand.name} email service.</p>
         <p>Sent at: ${new Date().toISOString()}</p>
         <p>If you received this email, the service is working correctly!</p>
       `
@@ -1,9 +1,15 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
-import AmadeusService, {
-  FlightSearchParams,
+import {
   AirportSearchParams,
-} from "../lib/amadeusService";
+  FlightOffer,
+  FlightSearchParams,
+  getAirline,
+  getFlightProviders,
+  getOfferProvider,
+  searchAirports,
+  searchFlights,
+} from "../lib/flightProviders";
 
 // Validation schemas
 const flightSearchSchema = z.object({
@@ -26,19 +32,29 @@ const airportSearchSchema = z.object({
   subType: z.enum(["AIRPORT", "CITY"]).optional(),
 });
 
-const flightPriceSchema = z.object({
-  flightOffers: z.array(z.any()).min(1),
+const flightOfferSchema = z.object({
+  flightOffer: z
+    .object({
+      id: z.string(),
+      provider: z.string().optional(),
+      itineraries: z.array(z.any()).min(1),
+      price: z.object({ currency: z.string() }).passthrough(),
+      travelerPricings: z.array(z.any()).min(1),
+    })
+    .passthrough(),
 });
 
-const seatMapSchema = z.object({
-  flightOfferId: z.string(),
-});
+// Offers must be signed search results (see getOfferProvider)
+const unknownOfferResponse = {
+  success: false,
+  message: "Unknown flight offer. Please search again.",
+};
 
 const airlineSchema = z.object({
   airlineCode: z.string().length(2),
 });
 
-// Search flight offers
+// Search flight offers across every configured provider
 export const handleSearchFlights: RequestHandler = async (req, res) => {
   try {
     // Convert string query parameters to proper types
@@ -64,18 +80,19 @@ export const handleSearchFlights: RequestHandler = async (req, res) => {
       });
     }
 
-    const searchParams: FlightSearchParams = validation.data;
+    const searchParams = validation.data as FlightSearchParams;
 
     console.log("Searching flights:", searchParams);
 
-    const flightOffers = await AmadeusService.searchFlightOffers(searchParams);
+    const { offers, providers } = await searchFlights(searchParams);
 
     res.json({
       success: true,
-      data: flightOffers,
+      data: offers,
       meta: {
-        count: flightOffers.length,
+        count: offers.length,
         searchParams,
+        providers,
       },
     });
   } catch (error) {
@@ -101,11 +118,11 @@ export const handleSearchAirports: RequestHandler = async (req, res) => {
       });
     }
 
-    const searchParams: AirportSearchParams = validation.data;
+    const searchParams = validation.data as AirportSearchParams;
 
     console.log("Searching airports:", searchParams);
 
-    const airports = await AmadeusService.searchAirports(searchParams);
+    const airports = await searchAirports(searchParams);
 
     res.json({
       success: true,
@@ -125,28 +142,33 @@ export const handleSearchAirports: RequestHandler = async (req, res) => {
   }
 };
 
-// Get flight price details
+// Confirm a flight offer's price with the provider it came from
 export const handleGetFlightPrice: RequestHandler = async (req, res) => {
   try {
-    const validation = flightPriceSchema.safeParse(req.body);
+    const validation = flightOfferSchema.safeParse(req.body);
 
     if (!validation.success) {
       return res.status(400).json({
         success: false,
-        message: "Invalid flight offers data",
+        message: "Invalid flight offer data",
         errors: validation.error.errors,
       });
     }
 
-    const { flightOffers } = validation.data;
+    const flightOffer = validation.data.flightOffer as unknown as FlightOffer;
+    const provider = getOfferProvider(flightOffer);
+
+    if (!provider) {
+      return res.status(400).json(unknownOfferResponse);
+    }
 
-    console.log("Getting flight price for:", flightOffers.length, "offers");
+    console.log(`Getting flight price from ${provider.name}`);
 
-    const priceData = await AmadeusService.getFlightPrice({ flightOffers });
+    const pricedOffer = await provider.priceFlightOffer(flightOffer);
 
     res.json({
       success: true,
-      data: priceData,
+      data: pricedOffer,
     });
   } catch (error) {
     console.error("Flight price error:", error);
@@ -158,24 +180,36 @@ export const handleGetFlightPrice: RequestHandler = async (req, res) => {
   }
 };
 
-// Get seat maps
+// Get seat maps for the flights of an offer
 export const handleGetSeatMaps: RequestHandler = async (req, res) => {
   try {
-    const validation = seatMapSchema.safeParse(req.query);
+    const validation = flightOfferSchema.safeParse(req.body);
 
     if (!validation.success) {
       return res.status(400).json({
         success: false,
-        message: "Invalid seat map parameters",
+        message: "Invalid flight offer data",
         errors: validation.error.errors,
       });
     }
 
-    const { flightOfferId } = validation.data;
+    const flightOffer = validation.data.flightOffer as unknown as FlightOffer;
+    const provider = getOfferProvider(flightOffer);
+
+    if (!provider) {
+      return res.status(400).json(unknownOfferResponse);
+    }
+
+    if (!provider.getSeatMaps) {
+      return res.status(404).json({
+        success: false,
+        message: `Seat maps are not available from ${provider.name}`,
+      });
+    }
 
-    console.log("Getting seat maps for flight offer:", flightOfferId);
+    console.log(`Getting seat maps from ${provider.name}`);
 
-    const seatMaps = await AmadeusService.getSeatMaps({ flightOfferId });
+    const seatMaps = await provider.getSeatMaps(flightOffer);
 
     res.json({
       success: true,
@@ -208,7 +242,14 @@ export const handleGetAirline: RequestHandler = async (req, res) => {
 
     console.log("Getting airline info for:", airlineCode);
 
-    const airlineInfo = await AmadeusService.getAirline(airlineCode);
+    const airlineInfo = await getAirline(airlineCode);
+
+    if (!airlineInfo) {
+      return res.status(404).json({
+        success: false,
+        message: "Airline not found",
+      });
+    }
 
     res.json({
       success: true,
@@ -230,7 +271,7 @@ export const handleGetPopularDestinations: RequestHandler = async (
   res,
 ) => {
   try {
-    // This is a mock implementation as Amadeus doesn't have a direct "popular destinations" endpoint
+    // This is a static list as flight providers don't have a direct "popular destinations" endpoint
     // In a real implementation, you could use flight inspiration search or travel recommendations
 
     const popularDestinations = [
@@ -307,26 +348,35 @@ export const handleGetPopularDestinations: RequestHandler = async (
   }
 };
 
-// Health check for Amadeus service
-export const handleAmadeusHealthCheck: RequestHandler = async (req, res) => {
+// Health check for the flight providers
+export const handleFlightProvidersHealthCheck: RequestHandler = async (
+  req,
+  res,
+) => {
   try {
+    const providers = getFlightProviders().map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      live: provider.live,
+      available: provider.isAvailable(),
+    }));
+
     // Test with a simple airport search
-    const testResult = await AmadeusService.searchAirports({ keyword: "JFK" });
+    const testResult = await searchAirports({ keyword: "JFK" });
 
     res.json({
       success: true,
-      message: "Amadeus service is operational",
-      configured: !!process.env.AMADEUS_API_KEY,
+      message: "Flight search is operational",
+      providers,
       environment:
         process.env.NODE_ENV === "production" ? "production" : "test",
       testResult: testResult.length > 0 ? "passed" : "no_results",
     });
   } catch (error) {
-    console.error("Amadeus health check error:", error);
+    console.error("Flight providers health check error:", error);
     res.status(500).json({
       success: false,
-      message: "Amadeus service health check failed",
-      configured: !!process.env.AMADEUS_API_KEY,
+      message: "Flight providers health check failed",
       error: process.env.NODE_ENV === "development" ? error.message : undefined,
     });
   }
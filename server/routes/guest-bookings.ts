@@ -1,10 +1,45 @@
 import { Request, Response } from "express";
-import { BookingRequest, BookingResponse, Booking } from "@shared/api";
-import { supabaseServerHelpers } from "../lib/supabaseServer";
+import {
+  BookingRequest,
+  BookingResponse,
+  Booking,
+  QuoteRequest,
+  WalletLinksResponse,
+} from "@shared/api";
+import {
+  BookingRecord,
+  PassengerRecord,
+  getDataStore,
+  toApiBooking,
+} from "../lib/storage";
 import TicketGenerator from "../lib/ticketGenerator.js";
 import EmailService from "../lib/emailService.js";
+import { getRequestBrand } from "../lib/brandService";
+import WalletPassService from "../lib/walletPassService";
+import CalendarService from "../lib/calendarService";
+import BookingLifecycle from "../lib/bookingLifecycle";
+import QuoteService from "../lib/quoteService";
+import PromoService from "../lib/promoService";
 import { z } from "zod";
 
+// Guest bookings in API format; the ticket link uses the PNR + email lookup
+const toApiGuestBooking = (
+  booking: BookingRecord,
+  passengers: PassengerRecord[],
+): Booking => ({
+  ...toApiBooking(booking, passengers),
+  userId: null, // Guest booking - hide the internal guest user ID
+  isGuest: true,
+  ticketUrl: booking.ticket_url
+    ? `/api/guest/bookings/${booking.pnr}/ticket?email=${encodeURIComponent(booking.contact_email)}`
+    : undefined,
+  walletUrl: booking.ticket_url
+    ? `/api/guest/bookings/${booking.pnr}/wallet?email=${encodeURIComponent(booking.contact_email)}`
+    : undefined,
+  calendarUrl: `/api/guest/bookings/${booking.pnr}/calendar.ics?email=${encodeURIComponent(booking.contact_email)}`,
+  boardingPasses: TicketGenerator.getBoardingPasses(booking, passengers),
+});
+
 // Validation schema for guest booking request (same as regular booking but without auth)
 const guestBookingSchema = z.object({
   route: z.object({
@@ -37,6 +72,8 @@ const guestBookingSchema = z.object({
   contactEmail: z.string().email(),
   contactPhone: z.string().optional(),
   termsAccepted: z.boolean(),
+  selectedFlight: z.any().optional(),
+  quoteId: z.string().min(1),
   // Guest-specific fields
   guestCheckout: z.literal(true).optional(),
 });
@@ -73,13 +110,16 @@ export async function handleCreateGuestBooking(req: Request, res: Response) {
 
     const bookingData = validation.data;
 
-    // Get airports from database
-    const { data: fromAirport, error: fromError } =
-      await supabaseServerHelpers.getAirportByCode(bookingData.route.from.code);
-    const { data: toAirport, error: toError } =
-      await supabaseServerHelpers.getAirportByCode(bookingData.route.to.code);
+    const store = getDataStore();
+
+    const fromAirport = await store.airports.findByCode(
+      bookingData.route.from.code,
+    );
+    const toAirport = await store.airports.findByCode(
+      bookingData.route.to.code,
+    );
 
-    if (fromError || toError || !fromAirport || !toAirport) {
+    if (!fromAirport || !toAirport) {
       const response: BookingResponse = {
         success: false,
         message: "Invalid airport codes",
@@ -87,53 +127,90 @@ export async function handleCreateGuestBooking(req: Request, res: Response) {
       return res.status(400).json(response);
     }
 
-    // Calculate total amount ($15 per passenger)
-    const totalAmount = bookingData.passengers.length * 15;
-
-    // Create guest booking in database (without user_id)
-    const { data: booking, error: bookingError } =
-      await supabaseServerHelpers.createGuestBooking({
-        from_airport_id: fromAirport.id,
-        to_airport_id: toAirport.id,
-        departure_date: bookingData.route.departureDate,
-        return_date: bookingData.route.returnDate || null,
-        trip_type: bookingData.route.tripType,
-        total_amount: totalAmount,
-        contact_email: bookingData.contactEmail,
-        contact_phone: bookingData.contactPhone || null,
-        terms_accepted: bookingData.termsAccepted,
-      });
+    // The total always comes from a server-issued quote
+    const quoteResult = QuoteService.resolveForBooking(bookingData.quoteId, {
+      route: bookingData.route as QuoteRequest["route"],
+      passengerCount: bookingData.passengers.length,
+      selectedFlight: bookingData.selectedFlight,
+    });
+
+    if (!quoteResult.success || !quoteResult.quote) {
+      const response: BookingResponse = {
+        success: false,
+        message: quoteResult.message,
+      };
+      return res
+        .status(quoteResult.error === "expired" ? 409 : 400)
+        .json(response);
+    }
+
+    const quote = quoteResult.quote;
+    const totalAmount = quote.total;
+
+    // Redemption limits may have been reached since the code was quoted
+    const promo = await PromoService.checkQuote(quote, {
+      userId: null,
+      email: bookingData.contactEmail,
+    });
 
-    if (bookingError || !booking) {
-      console.error("Failed to create guest booking:", bookingError);
+    if (!promo.valid) {
       const response: BookingResponse = {
         success: false,
-        message: "Failed to create booking",
+        message: promo.message,
       };
-      return res.status(500).json(response);
+      return res.status(409).json(response);
     }
 
-    // Add passengers
-    const passengersToAdd = bookingData.passengers.map((passenger) => ({
-      booking_id: booking.id,
-      title: passenger.title,
-      first_name: passenger.firstName,
-      last_name: passenger.lastName,
-      email: passenger.email,
-    }));
-
-    const { data: passengers, error: passengersError } =
-      await supabaseServerHelpers.addPassengers(passengersToAdd);
-
-    if (passengersError || !passengers) {
-      console.error("Failed to add passengers:", passengersError);
-      // Note: We should probably clean up the booking here, but for simplicity we'll leave it
+    // Create guest booking (without user_id)
+    const brand = getRequestBrand(req);
+    const booking = await store.bookings.create({
+      user_id: null,
+      is_guest: true,
+      from_airport_id: fromAirport.id,
+      to_airport_id: toAirport.id,
+      from_airport: fromAirport,
+      to_airport: toAirport,
+      departure_date: bookingData.route.departureDate,
+      return_date: bookingData.route.returnDate || null,
+      trip_type: bookingData.route.tripType,
+      total_amount: totalAmount,
+      currency: quote.currency,
+      contact_email: bookingData.contactEmail,
+      contact_phone: bookingData.contactPhone || null,
+      terms_accepted: bookingData.termsAccepted,
+      selected_flight: bookingData.selectedFlight || null,
+      quote_id: quote.id,
+      promo_code: quote.promoCode,
+      discount_amount: quote.discount,
+      brand_id: brand.id,
+    });
+
+    if (promo.promo) {
+      await PromoService.redeem(promo.promo, booking, null);
     }
 
+    await BookingLifecycle.recordCreated(store, booking, {
+      actorType: "user",
+      reason: "Guest booking created",
+    });
+
+    const passengers = await store.passengers.createMany(
+      bookingData.passengers.map((passenger, index) => ({
+        booking_id: booking.id,
+        title: passenger.title,
+        first_name: passenger.firstName,
+        last_name: passenger.lastName,
+        email: passenger.email,
+        seats: QuoteService.getPassengerSeats(quote, index),
+      })),
+    );
+
     // Generate PDF ticket
     let ticketUrl = "";
     try {
       const ticketData = {
+        bookingId: booking.id,
+        brandId: booking.brand_id,
         pnr: booking.pnr,
         contactEmail: bookingData.contactEmail,
         route: {
@@ -142,19 +219,23 @@ export async function handleCreateGuestBooking(req: Request, res: Response) {
           fromCode: fromAirport.code,
           toCode: toAirport.code,
           departureDate: bookingData.route.departureDate,
+          returnDate: bookingData.route.returnDate,
         },
-        passengers: bookingData.passengers,
+        passengers: bookingData.passengers.map((passenger, index) => ({
+          ...passenger,
+          seats: QuoteService.getPassengerSeats(quote, index),
+        })),
         totalAmount: totalAmount,
         currency: booking.currency || "USD",
+        bookingDate: booking.created_at,
+        selectedFlight: booking.selected_flight,
       };
 
       ticketUrl = await TicketGenerator.createTicket(ticketData);
 
       // Update booking with ticket URL
       if (ticketUrl) {
-        await supabaseServerHelpers.updateBooking(booking.id, {
-          ticket_url: ticketUrl,
-        });
+        await store.bookings.update(booking.id, { ticket_url: ticketUrl });
       }
     } catch (ticketError) {
       console.error("Failed to generate ticket:", ticketError);
@@ -162,52 +243,39 @@ export async function handleCreateGuestBooking(req: Request, res: Response) {
     }
 
     // Format response to match expected API structure
-    const bookingResponse: Booking = {
-      id: booking.id,
-      userId: null, // Guest booking - hide the internal guest user ID
-      pnr: booking.pnr,
-      status: booking.status,
-      route: {
-        from: {
-          code: fromAirport.code,
-          name: fromAirport.name,
-          city: fromAirport.city,
-          country: fromAirport.country,
-        },
-        to: {
-          code: toAirport.code,
-          name: toAirport.name,
-          city: toAirport.city,
-          country: toAirport.country,
-        },
-        departureDate: booking.departure_date,
-        returnDate: booking.return_date || undefined,
-        tripType: booking.trip_type,
+    const bookingResponse = toApiGuestBooking(
+      {
+        ...booking,
+        from_airport: fromAirport,
+        to_airport: toAirport,
+        ticket_url: ticketUrl || booking.ticket_url,
       },
-      passengers: bookingData.passengers,
-      totalAmount: booking.total_amount,
-      currency: booking.currency,
-      createdAt: booking.created_at,
-      updatedAt: booking.updated_at,
-      ticketUrl: ticketUrl || booking.ticket_url || undefined,
-      isGuest: true,
-    };
+      passengers,
+    );
 
     // Send booking confirmation email
     try {
-      await EmailService.sendBookingConfirmation(bookingData.contactEmail, {
-        customerName: bookingData.passengers[0]?.firstName || "Customer",
-        pnr: booking.pnr,
-        route: {
-          from: fromAirport.name,
-          to: toAirport.name,
-          departureDate: bookingData.route.departureDate,
+      await EmailService.sendBookingConfirmation(
+        bookingData.contactEmail,
+        {
+          customerName: bookingData.passengers[0]?.firstName || "Customer",
+          pnr: booking.pnr,
+          route: {
+            from: fromAirport.name,
+            to: toAirport.name,
+            departureDate: bookingData.route.departureDate,
+          },
+          passengers: bookingData.passengers,
+          totalAmount: totalAmount,
+          currency: booking.currency || "USD",
+          bookingUrl: `${brand.websiteUrl}/guest-booking/${booking.pnr}`,
+          calendar: CalendarService.createBookingCalendar(
+            { ...booking, from_airport: fromAirport, to_airport: toAirport },
+            passengers,
+          ),
         },
-        passengers: bookingData.passengers,
-        totalAmount: totalAmount,
-        currency: booking.currency || "USD",
-        bookingUrl: `${process.env.CLIENT_URL || "http://localhost:8080"}/guest-booking/${booking.pnr}`,
-      });
+        brand,
+      );
       console.log("✅ Guest booking confirmation email sent");
     } catch (emailError) {
       console.error(
@@ -249,68 +317,24 @@ export async function handleGetGuestBooking(req: Request, res: Response) {
       });
     }
 
-    // Get booking by PNR and verify email
-    const { data: booking, error } =
-      await supabaseServerHelpers.getGuestBookingByPNR(
-        pnr as string,
-        email as string,
-      );
+    const store = getDataStore();
+
+    // Get booking by PNR and verify the contact email
+    const booking = await store.bookings.findByPnr(pnr);
 
-    if (error || !booking) {
+    if (
+      !booking ||
+      booking.contact_email.toLowerCase() !== (email as string).toLowerCase()
+    ) {
       return res.status(404).json({
         success: false,
         message: "Booking not found or email does not match",
       });
     }
 
-    // Get airports for the booking
-    const { data: fromAirport } = await supabaseServerHelpers.getAirportById(
-      booking.from_airport_id,
-    );
-    const { data: toAirport } = await supabaseServerHelpers.getAirportById(
-      booking.to_airport_id,
-    );
+    const passengers = await store.passengers.listByBooking(booking.id);
 
-    // Get passengers
-    const { data: passengers } =
-      await supabaseServerHelpers.getPassengersByBookingId(booking.id);
-
-    const bookingResponse: Booking = {
-      id: booking.id,
-      userId: null, // Guest booking - hide the internal guest user ID
-      pnr: booking.pnr,
-      status: booking.status,
-      route: {
-        from: {
-          code: fromAirport?.code || "",
-          name: fromAirport?.name || "",
-          city: fromAirport?.city || "",
-          country: fromAirport?.country || "",
-        },
-        to: {
-          code: toAirport?.code || "",
-          name: toAirport?.name || "",
-          city: toAirport?.city || "",
-          country: toAirport?.country || "",
-        },
-        departureDate: booking.departure_date,
-        returnDate: booking.return_date || undefined,
-        tripType: booking.trip_type,
-      },
-      passengers:
-        passengers?.map((p) => ({
-          title: p.title,
-          firstName: p.first_name,
-          lastName: p.last_name,
-          email: p.email,
-        })) || [],
-      totalAmount: booking.total_amount,
-      currency: booking.currency,
-      createdAt: booking.created_at,
-      updatedAt: booking.updated_at,
-      ticketUrl: booking.ticket_url || undefined,
-      isGuest: true,
-    };
+    const bookingResponse = toApiGuestBooking(booking, passengers);
 
     res.json({
       success: true,
@@ -324,3 +348,204 @@ export async function handleGetGuestBooking(req: Request, res: Response) {
     });
   }
 }
+
+// Re-price a pending guest booking from a new quote, e.g. in another currency
+export async function handleRequoteGuestBooking(req: Request, res: Response) {
+  try {
+    const { pnr } = req.params;
+    const { email, quoteId } = req.body;
+
+    if (!pnr || !email || !quoteId) {
+      return res.status(400).json({
+        success: false,
+        message: "PNR, email and quoteId are required",
+      });
+    }
+
+    const store = getDataStore();
+    const booking = await store.bookings.findByPnr(pnr);
+
+    if (
+      !booking ||
+      booking.contact_email.toLowerCase() !== String(email).toLowerCase()
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found or email does not match",
+      });
+    }
+
+    const result = await QuoteService.applyRequote(store, booking, quoteId);
+
+    if (!result.success) {
+      return res.status(result.error === "expired" ? 409 : 400).json({
+        success: false,
+        message: result.message,
+      });
+    }
+
+    const passengers = await store.passengers.listByBooking(booking.id);
+
+    res.json({
+      success: true,
+      booking: toApiGuestBooking(result.booking, passengers),
+    });
+  } catch (error) {
+    console.error("Requote guest booking error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
+
+/**
+ * Download a guest booking's ticket (PNR + email, like the booking lookup).
+ * Redirects to a short-lived signed link so the PDF can come straight from
+ * ticket storage.
+ */
+export async function handleGetGuestBookingTicket(req: Request, res: Response) {
+  try {
+    const { pnr } = req.params;
+    const { email } = req.query;
+
+    if (!pnr || !email) {
+      return res.status(400).json({
+        success: false,
+        message: "PNR and email are required",
+      });
+    }
+
+    const booking = await getDataStore().bookings.findByPnr(pnr);
+
+    if (
+      !booking ||
+      booking.contact_email.toLowerCase() !== String(email).toLowerCase()
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found or email does not match",
+      });
+    }
+
+    if (!booking.ticket_url) {
+      return res.status(404).json({
+        success: false,
+        message: "No ticket has been issued for this booking",
+      });
+    }
+
+    const { url } = await TicketGenerator.getDownloadUrl(booking);
+    res.redirect(302, url);
+  } catch (error) {
+    console.error("Get guest booking ticket error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
+
+/**
+ * Apple and Google Wallet links for a guest booking's boarding passes
+ * (PNR + email, like the booking lookup)
+ */
+export async function handleGetGuestBookingWalletLinks(
+  req: Request,
+  res: Response,
+) {
+  try {
+    const { pnr } = req.params;
+    const { email } = req.query;
+
+    if (!pnr || !email) {
+      return res.status(400).json({
+        success: false,
+        message: "PNR and email are required",
+      });
+    }
+
+    const store = getDataStore();
+    const booking = await store.bookings.findByPnr(pnr);
+
+    if (
+      !booking ||
+      booking.contact_email.toLowerCase() !== String(email).toLowerCase()
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found or email does not match",
+      });
+    }
+
+    if (!booking.ticket_url) {
+      return res.status(404).json({
+        success: false,
+        message: "No ticket has been issued for this booking",
+      });
+    }
+
+    const passengers = await store.passengers.listByBooking(booking.id);
+
+    const response: WalletLinksResponse = {
+      success: true,
+      passes: WalletPassService.getWalletLinks(booking, passengers),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get guest booking wallet links error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
+
+/**
+ * Download a guest booking's flights as an iCalendar (.ics) file
+ */
+export async function handleGetGuestBookingCalendar(
+  req: Request,
+  res: Response,
+) {
+  try {
+    const { pnr } = req.params;
+    const { email } = req.query;
+
+    if (!pnr || !email) {
+      return res.status(400).json({
+        success: false,
+        message: "PNR and email are required",
+      });
+    }
+
+    const store = getDataStore();
+    const booking = await store.bookings.findByPnr(pnr);
+
+    if (
+      !booking ||
+      booking.contact_email.toLowerCase() !== String(email).toLowerCase()
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found or email does not match",
+      });
+    }
+
+    const passengers = await store.passengers.listByBooking(booking.id);
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${booking.pnr}.ics"`,
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(CalendarService.createBookingCalendar(booking, passengers));
+  } catch (error) {
+    console.error("Get guest booking calendar error:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+}
@@ -1,7 +1,16 @@
-import { RequestHandler } from "express";
-import { AuthResponse, LoginRequest, RegisterRequest } from "@shared/api";
+import { Request, RequestHandler } from "express";
+import {
+  AuthResponse,
+  AuthSessionsResponse,
+  LoginRequest,
+  RegisterRequest,
+  TwoFactorSetupResponse,
+} from "@shared/api";
 import { z } from "zod";
+import { getRequestBrand } from "../lib/brandService";
 import { HybridAuthSystem } from "../lib/hybridAuth";
+import SessionService, { SessionContext } from "../lib/sessionService";
+import { toApiSession } from "../lib/storage";
 
 // Validation schemas
 const loginSchema = z.object({
@@ -17,6 +26,41 @@ const registerSchema = z.object({
   title: z.enum(["Mr", "Ms", "Mrs"]),
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  allDevices: z.boolean().optional(),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const twoFactorChallengeSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: z.string().min(1).optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode);
+
+const twoFactorChallengeSetupSchema = z.object({
+  challengeToken: z.string().min(1),
+});
+
+// The device a sign-in comes from, shown in the sessions list
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get("user-agent")?.slice(0, 255) || null,
+  ipAddress: req.ip || null,
+});
+
 // Register endpoint
 export const handleHybridRegister: RequestHandler = async (req, res) => {
   try {
@@ -30,7 +74,10 @@ export const handleHybridRegister: RequestHandler = async (req, res) => {
       return res.status(400).json(response);
     }
 
-    const result = await HybridAuthSystem.register(validation.data);
+    const result = await HybridAuthSystem.register(
+      validation.data as RegisterRequest,
+      getSessionContext(req),
+    );
     const statusCode = result.success ? 201 : 409;
     res.status(statusCode).json(result);
 
@@ -57,7 +104,10 @@ export const handleHybridLogin: RequestHandler = async (req, res) => {
       return res.status(400).json(response);
     }
 
-    const result = await HybridAuthSystem.login(validation.data);
+    const result = await HybridAuthSystem.login(
+      validation.data as LoginRequest,
+      getSessionContext(req),
+    );
     const statusCode = result.success ? 200 : 401;
     res.status(statusCode).json(result);
 
@@ -85,7 +135,7 @@ export const handleHybridValidateToken: RequestHandler = async (req, res) => {
       return res.status(401).json(response);
     }
 
-    const decoded = HybridAuthSystem.verifyToken(token);
+    const decoded = await HybridAuthSystem.verifyToken(token);
     if (!decoded) {
       const response: AuthResponse = {
         success: false,
@@ -120,6 +170,221 @@ export const handleHybridValidateToken: RequestHandler = async (req, res) => {
   }
 };
 
+// Refresh endpoint: swaps a refresh token for new tokens
+export const handleHybridRefresh: RequestHandler = async (req, res) => {
+  try {
+    const validation = refreshSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Invalid input data",
+      };
+      return res.status(400).json(response);
+    }
+
+    const result = await HybridAuthSystem.refresh(
+      validation.data.refreshToken,
+      getSessionContext(req),
+    );
+    res.status(result.success ? 200 : 401).json(result);
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    const response: AuthResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Logout endpoint: ends this session, or every session with allDevices
+export const handleHybridLogout: RequestHandler = async (req, res) => {
+  try {
+    const validation = logoutSchema.safeParse(req.body || {});
+
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Invalid input data" });
+    }
+
+    const user = (req as any).user;
+    const allDevices = !!validation.data.allDevices;
+    await HybridAuthSystem.logout(user.id, (req as any).sessionId, allDevices);
+
+    res.json({
+      success: true,
+      message: allDevices ? "Logged out on all devices" : "Logged out",
+    });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// List the devices the user is signed in on
+export const handleGetSessions: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const sessions = await SessionService.listSessions(user.id);
+
+    const response: AuthSessionsResponse = {
+      success: true,
+      sessions: sessions.map((session) =>
+        toApiSession(session, (req as any).sessionId),
+      ),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Sign out one of the user's devices
+export const handleRevokeSession: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const revoked = await SessionService.revokeSession(
+      user.id,
+      req.params.sessionId,
+    );
+
+    if (!revoked) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Session not found" });
+    }
+
+    res.json({ success: true, message: "Session revoked" });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Forgot password endpoint: emails a reset link
+export const handleForgotPassword: RequestHandler = async (req, res) => {
+  try {
+    const validation = forgotPasswordSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Please enter a valid email address",
+      };
+      return res.status(400).json(response);
+    }
+
+    const result = await HybridAuthSystem.requestPasswordReset(
+      validation.data.email,
+      getRequestBrand(req),
+    );
+    res.json(result);
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    const response: AuthResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Reset password endpoint: sets a new password with a reset token
+export const handleResetPassword: RequestHandler = async (req, res) => {
+  try {
+    const validation = resetPasswordSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Passwords must be at least 6 characters",
+      };
+      return res.status(400).json(response);
+    }
+
+    const result = await HybridAuthSystem.resetPassword(
+      validation.data.token,
+      validation.data.password,
+    );
+    res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    console.error("Reset password error:", error);
+    const response: AuthResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Second login step: exchanges the challenge token and a 2FA code for tokens
+export const handleTwoFactorChallenge: RequestHandler = async (req, res) => {
+  try {
+    const validation = twoFactorChallengeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Please enter your authentication code",
+      };
+      return res.status(400).json(response);
+    }
+
+    const { challengeToken, code, recoveryCode } = validation.data;
+    const { status, ...result } =
+      await HybridAuthSystem.completeTwoFactorChallenge(
+        challengeToken,
+        { code, recoveryCode },
+        getSessionContext(req),
+      );
+    res.status(result.success ? 200 : status || 401).json(result);
+  } catch (error) {
+    console.error("Two-factor challenge error:", error);
+    const response: AuthResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Secret to enrol during login, for accounts that must use 2FA
+export const handleTwoFactorChallengeSetup: RequestHandler = async (
+  req,
+  res,
+) => {
+  try {
+    const validation = twoFactorChallengeSetupSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Invalid request" });
+    }
+
+    const setup = await HybridAuthSystem.beginChallengeSetup(
+      validation.data.challengeToken,
+      getRequestBrand(req),
+    );
+    if (!setup) {
+      const response: TwoFactorSetupResponse = {
+        success: false,
+        message: "Your sign-in has expired. Please log in again.",
+      };
+      return res.status(401).json(response);
+    }
+
+    const response: TwoFactorSetupResponse = { success: true, ...setup };
+    res.json(response);
+  } catch (error) {
+    console.error("Two-factor challenge setup error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
 // Middleware to authenticate requests
 export const hybridAuthMiddleware: RequestHandler = async (req, res, next) => {
   try {
@@ -132,7 +397,7 @@ export const hybridAuthMiddleware: RequestHandler = async (req, res, next) => {
         .json({ success: false, message: "No token provided" });
     }
 
-    const decoded = HybridAuthSystem.verifyToken(token);
+    const decoded = await HybridAuthSystem.verifyToken(token);
     if (!decoded) {
       return res.status(401).json({ success: false, message: "Invalid token" });
     }
@@ -144,8 +409,9 @@ export const hybridAuthMiddleware: RequestHandler = async (req, res, next) => {
         .json({ success: false, message: "User not found" });
     }
 
-    // Add user to request object
+    // Add user and their session to request object
     (req as any).user = user;
+    (req as any).sessionId = decoded.sessionId;
     next();
   } catch (error) {
     console.error("Authentication error:", error);
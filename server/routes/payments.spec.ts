@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import {
+  MockPayPalServer,
+  startMockPayPalServer,
+} from "../testing/mockPayPalServer";
+
+const USER_ID = "paypal-payer";
+
+describe("PayPal payments", () => {
+  let paypal: MockPayPalServer;
+  let server: Server;
+  let paymentsUrl: string;
+  let dataDir: string;
+  let store: import("../lib/storage").DataStore;
+  let PayPalService: typeof import("../lib/paypalService").PayPalService;
+
+  beforeAll(async () => {
+    paypal = await startMockPayPalServer();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "paypal-payments-"));
+
+    // Configuration is read when the modules load
+    process.env.PAYPAL_API_BASE_URL = paypal.baseUrl;
+    process.env.PAYPAL_CLIENT_ID = "mock-client-id";
+    process.env.PAYPAL_CLIENT_SECRET = "mock-client-secret";
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(dataDir, "data.json");
+
+    const { handleProcessPayment } = await import("./payments");
+    store = (await import("../lib/storage")).getDataStore();
+    PayPalService = (await import("../lib/paypalService")).PayPalService;
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for the auth middleware
+    app.use((req, _res, next) => {
+      (req as any).user = { id: USER_ID, email: "payer@example.com" };
+      next();
+    });
+    app.post("/api/payments/process", handleProcessPayment);
+    server = await new Promise((resolve) => {
+      const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+    });
+    paymentsUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/payments/process`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await paypal?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const createBooking = (totalAmount: number) =>
+    store.bookings.create({
+      user_id: USER_ID,
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-01-15",
+      trip_type: "oneway",
+      total_amount: totalAmount,
+      contact_email: "payer@example.com",
+      terms_accepted: true,
+    });
+
+  // An order the buyer approved in PayPal checkout
+  const approvedOrder = async (bookingId: string, amount: number) => {
+    const order = await PayPalService.createOrder({
+      bookingId,
+      amount,
+      currency: "USD",
+      description: "OnboardTicket Flight Reservation",
+      returnUrl: "http://localhost/payment/success",
+      cancelUrl: "http://localhost/payment/cancel",
+    });
+    paypal.approveOrder(order.id, "PAYER1");
+    return order.id as string;
+  };
+
+  const pay = (bookingId: string, paypalOrderId: string) =>
+    fetch(paymentsUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        bookingId,
+        paymentMethod: "paypal",
+        paymentDetails: { paypalOrderId, paypalPayerId: "PAYER1" },
+      }),
+    });
+
+  it("should refuse an order approved for another booking", async () => {
+    const cheap = await createBooking(15);
+    const expensive = await createBooking(900);
+    const orderId = await approvedOrder(cheap.id, 15);
+
+    const response = await pay(expensive.id, orderId);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe(
+      "Payment was made for a different booking",
+    );
+    expect((await store.bookings.findById(expensive.id))?.status).toBe(
+      "pending",
+    );
+  });
+
+  it("should refuse an order for less than the booking total", async () => {
+    const booking = await createBooking(900);
+    const orderId = await approvedOrder(booking.id, 15);
+
+    const response = await pay(booking.id, orderId);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe(
+      "Payment amount does not match the booking total",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+  });
+
+  it("should refuse an order already recorded for another booking", async () => {
+    const first = await createBooking(50);
+    const second = await createBooking(50);
+    const orderId = await approvedOrder(second.id, 50);
+    await store.transactions.create({
+      booking_id: first.id,
+      user_id: USER_ID,
+      amount: 50,
+      payment_method: "paypal",
+      status: "pending",
+      paypal_order_id: orderId,
+    });
+
+    const response = await pay(second.id, orderId);
+
+    expect(response.status).toBe(409);
+    expect((await store.bookings.findById(second.id))?.status).toBe("pending");
+  });
+
+  it("should refuse orders the payer did not approve", async () => {
+    const booking = await createBooking(50);
+    const order = await PayPalService.createOrder({
+      bookingId: booking.id,
+      amount: 50,
+      currency: "USD",
+      description: "OnboardTicket Flight Reservation",
+      returnUrl: "http://localhost/payment/success",
+      cancelUrl: "http://localhost/payment/cancel",
+    });
+
+    const response = await pay(booking.id, order.id);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe(
+      "PayPal payment verification failed",
+    );
+  });
+});
@@ -1,8 +1,20 @@
 import { RequestHandler } from "express";
-import { PaymentRequest, PaymentResponse } from "@shared/api";
-import { supabaseServerHelpers } from "../lib/supabaseServer";
+import { PaymentRequest, PaymentResponse, RefundResponse } from "@shared/api";
+import {
+  getActiveDataStores,
+  getDataStore,
+  getStoreForUser,
+  toApiRefund,
+  toApiTransaction,
+} from "../lib/storage";
 import { z } from "zod";
 import StripeService from "../lib/stripeService";
+import PayPalService from "../lib/paypalService";
+import BookingLifecycle from "../lib/bookingLifecycle";
+import BookingExpiry from "../lib/bookingExpiry";
+import RefundService from "../lib/refundService";
+import QuoteService from "../lib/quoteService";
+import BrandService from "../lib/brandService";
 
 // Payment validation schema
 const paymentSchema = z.object({
@@ -21,6 +33,12 @@ const paymentSchema = z.object({
   }),
 });
 
+const refundSchema = z.object({
+  amount: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+  idempotencyKey: z.string().min(8).max(255).optional(),
+});
+
 // Generate transaction ID
 const generateTransactionId = (): string => {
   const timestamp = Date.now().toString(36);
@@ -28,84 +46,6 @@ const generateTransactionId = (): string => {
   return `txn_${timestamp}_${random}`;
 };
 
-// PayPal configuration
-const PAYPAL_CLIENT_ID =
-  process.env.PAYPAL_CLIENT_ID ||
-  "AeA1QIZXlsOl6reI7QjVAXt3CxbgZMOKe-6xB6RHWyYPUtE9JYOk0-l-uSQnf8BL2S1IZKqHNk1TCO5T";
-const PAYPAL_CLIENT_SECRET =
-  process.env.PAYPAL_CLIENT_SECRET || "demo-client-secret";
-const PAYPAL_SIGNATURE = process.env.PAYPAL_SIGNATURE || "";
-const PAYPAL_BASE_URL =
-  process.env.NODE_ENV === "production"
-    ? "https://api-m.paypal.com"
-    : "https://api-m.sandbox.paypal.com";
-
-// Get PayPal access token
-const getPayPalAccessToken = async (): Promise<string> => {
-  try {
-    const auth = Buffer.from(
-      `${PAYPAL_CLIENT_ID}:${PAYPAL_CLIENT_SECRET}`,
-    ).toString("base64");
-
-    console.log("Getting PayPal access token...");
-    const response = await fetch(`${PAYPAL_BASE_URL}/v1/oauth2/token`, {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${auth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: "grant_type=client_credentials",
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("PayPal token request failed:", response.status, errorText);
-      throw new Error(
-        `Failed to get PayPal access token: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data = await response.json();
-    console.log("PayPal access token obtained successfully");
-    return data.access_token;
-  } catch (error) {
-    console.error("Error getting PayPal access token:", error);
-    throw error;
-  }
-};
-
-// Verify PayPal payment
-const verifyPayPalPayment = async (
-  orderId: string,
-  payerId: string,
-): Promise<boolean> => {
-  try {
-    const accessToken = await getPayPalAccessToken();
-
-    const response = await fetch(
-      `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-      },
-    );
-
-    if (!response.ok) {
-      return false;
-    }
-
-    const order = await response.json();
-
-    // Check if order is approved and payer matches
-    return order.status === "APPROVED" && order.payer?.payer_id === payerId;
-  } catch (error) {
-    console.error("PayPal verification error:", error);
-    return false;
-  }
-};
-
 // Simulate card validation
 const validateCard = (
   cardNumber: string,
@@ -125,7 +65,18 @@ const validateCard = (
   return true;
 };
 
-// Process payment using Supabase
+// Transactions of fallback users live in the local store even when
+// Supabase is selected
+const findTransactionStore = async (transactionId: string) => {
+  for (const store of getActiveDataStores()) {
+    if (await store.transactions.findById(transactionId)) {
+      return store;
+    }
+  }
+  return null;
+};
+
+// Process payment
 export const handleProcessPayment: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
@@ -142,11 +93,10 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
     const { bookingId, paymentMethod, paymentDetails } = validation.data;
 
     try {
-      // Find booking in Supabase
-      const { data: booking, error: bookingError } =
-        await supabaseServerHelpers.getBookingById(bookingId);
+      const store = getStoreForUser(user.id);
+      const booking = await store.bookings.findById(bookingId);
 
-      if (bookingError || !booking) {
+      if (!booking) {
         const response: PaymentResponse = {
           success: false,
           message: "Booking not found",
@@ -163,6 +113,32 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
         return res.status(404).json(response);
       }
 
+      // Stripe intents and PayPal orders are recorded when created; the
+      // provider webhook may already have confirmed the booking by the time
+      // the client reports back
+      const providerTransaction =
+        paymentMethod === "stripe" && paymentDetails.stripePaymentIntentId
+          ? await store.transactions.findByStripePaymentIntent(
+              paymentDetails.stripePaymentIntentId,
+            )
+          : paymentMethod === "paypal" && paymentDetails.paypalOrderId
+            ? await store.transactions.findByPayPalOrder(
+                paymentDetails.paypalOrderId,
+              )
+            : null;
+
+      if (
+        providerTransaction?.status === "completed" &&
+        providerTransaction.booking_id === booking.id
+      ) {
+        const response: PaymentResponse = {
+          success: true,
+          transactionId: providerTransaction.id,
+          message: "Payment processed successfully",
+        };
+        return res.json(response);
+      }
+
       if (booking.status !== "pending") {
         const response: PaymentResponse = {
           success: false,
@@ -171,6 +147,15 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
         return res.status(400).json(response);
       }
 
+      if (BookingExpiry.isHoldExpired(booking)) {
+        await BookingExpiry.expireBooking(store, booking);
+        const response: PaymentResponse = {
+          success: false,
+          message: "Booking hold has expired. Please create a new booking.",
+        };
+        return res.status(400).json(response);
+      }
+
       // Validate payment method specific details
       if (paymentMethod === "card") {
         const { cardNumber, expiryDate, cvv, cardholderName, country } =
@@ -204,28 +189,65 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
 
         // Verify Stripe payment intent
         try {
-          const paymentIntent = await StripeService.retrievePaymentIntent(
+          let paymentIntent = await StripeService.retrievePaymentIntent(
             stripePaymentIntentId,
           );
 
-          if (
-            paymentIntent.status !== "succeeded" &&
-            paymentIntent.status !== "requires_action"
-          ) {
+          const mismatch = StripeService.checkPaymentIntentForBooking(
+            paymentIntent,
+            booking,
+          );
+          if (mismatch) {
             const response: PaymentResponse = {
               success: false,
-              message: "Stripe payment not completed",
+              message: mismatch,
             };
             return res.status(400).json(response);
           }
 
-          // If payment requires confirmation
+          // A payment intent settles one booking only
+          for (const candidate of getActiveDataStores()) {
+            const recorded =
+              await candidate.transactions.findByStripePaymentIntent(
+                stripePaymentIntentId,
+              );
+            if (recorded && recorded.booking_id !== booking.id) {
+              const response: PaymentResponse = {
+                success: false,
+                message: "Payment has already been used for another booking",
+              };
+              return res.status(409).json(response);
+            }
+          }
+
           if (paymentIntent.status === "requires_confirmation") {
-            await StripeService.confirmPaymentIntent(
+            paymentIntent = await StripeService.confirmPaymentIntent(
               stripePaymentIntentId,
               stripePaymentMethodId,
             );
           }
+
+          // Payments still being authenticated or processed are confirmed
+          // by the Stripe webhook once they succeed
+          if (
+            paymentIntent.status === "requires_action" ||
+            paymentIntent.status === "processing"
+          ) {
+            const response: PaymentResponse = {
+              success: false,
+              message:
+                "Payment is awaiting confirmation. Your booking will be confirmed once it completes.",
+            };
+            return res.status(202).json(response);
+          }
+
+          if (paymentIntent.status !== "succeeded") {
+            const response: PaymentResponse = {
+              success: false,
+              message: "Stripe payment not completed",
+            };
+            return res.status(400).json(response);
+          }
         } catch (error) {
           console.error("Stripe payment verification failed:", error);
           const response: PaymentResponse = {
@@ -246,17 +268,44 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
         }
 
         // Verify PayPal payment with PayPal API
-        const paypalVerified = await verifyPayPalPayment(
-          paypalOrderId,
-          paypalPayerId,
-        );
-        if (!paypalVerified) {
+        let order;
+        try {
+          order = await PayPalService.getOrder(paypalOrderId);
+        } catch (error) {
+          console.error("PayPal verification error:", error);
+        }
+        if (!order || !PayPalService.isApprovedBy(order, paypalPayerId)) {
           const response: PaymentResponse = {
             success: false,
             message: "PayPal payment verification failed",
           };
           return res.status(400).json(response);
         }
+
+        const mismatch = PayPalService.checkPurchaseForBooking(
+          order.purchase_units?.[0],
+          booking,
+        );
+        if (mismatch) {
+          const response: PaymentResponse = {
+            success: false,
+            message: mismatch,
+          };
+          return res.status(400).json(response);
+        }
+
+        // An order settles one booking only
+        for (const candidate of getActiveDataStores()) {
+          const recorded =
+            await candidate.transactions.findByPayPalOrder(paypalOrderId);
+          if (recorded && recorded.booking_id !== booking.id) {
+            const response: PaymentResponse = {
+              success: false,
+              message: "Payment has already been used for another booking",
+            };
+            return res.status(409).json(response);
+          }
+        }
       }
 
       // Simulate payment processing delay
@@ -268,27 +317,25 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
       const transactionId = generateTransactionId();
 
       if (!paymentSuccess) {
-        // Create failed transaction record in Supabase
-        const { data: failedTransaction, error: transactionError } =
-          await supabaseServerHelpers.createTransaction({
+        // Create failed transaction record
+        try {
+          await store.transactions.create({
             booking_id: bookingId,
             user_id: user.id,
             amount: booking.total_amount,
             currency: booking.currency,
             payment_method: paymentMethod,
+            promo_code: booking.promo_code || null,
             status: "failed",
-            stripe_payment_id:
+            stripe_payment_intent_id:
               paymentMethod === "stripe"
                 ? paymentDetails.stripePaymentIntentId
                 : null,
             paypal_order_id:
               paymentMethod === "paypal" ? paymentDetails.paypalOrderId : null,
-            paypal_payer_id:
-              paymentMethod === "paypal" ? paymentDetails.paypalPayerId : null,
             payment_details: paymentDetails,
           });
-
-        if (transactionError) {
+        } catch (transactionError) {
           console.error("Error creating failed transaction:", transactionError);
         }
 
@@ -300,27 +347,36 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
         return res.status(400).json(response);
       }
 
-      // Create successful transaction record in Supabase
-      const { data: transaction, error: transactionError } =
-        await supabaseServerHelpers.createTransaction({
-          booking_id: bookingId,
-          user_id: user.id,
-          amount: booking.total_amount,
-          currency: booking.currency,
-          payment_method: paymentMethod,
-          status: "completed",
-          stripe_payment_id:
-            paymentMethod === "stripe"
-              ? paymentDetails.stripePaymentIntentId
-              : null,
-          paypal_order_id:
-            paymentMethod === "paypal" ? paymentDetails.paypalOrderId : null,
-          paypal_payer_id:
-            paymentMethod === "paypal" ? paymentDetails.paypalPayerId : null,
-          payment_details: paymentDetails,
-        });
-
-      if (transactionError || !transaction) {
+      // Create successful transaction record
+      let transaction;
+      try {
+        const existing =
+          providerTransaction?.booking_id === booking.id
+            ? await store.transactions.update(providerTransaction.id, {
+                status: "completed",
+                payment_details: paymentDetails,
+              })
+            : null;
+
+        transaction =
+          existing ||
+          (await store.transactions.create({
+            booking_id: bookingId,
+            user_id: user.id,
+            amount: booking.total_amount,
+            currency: booking.currency,
+            payment_method: paymentMethod,
+            promo_code: booking.promo_code || null,
+            status: "completed",
+            stripe_payment_intent_id:
+              paymentMethod === "stripe"
+                ? paymentDetails.stripePaymentIntentId
+                : null,
+            paypal_order_id:
+              paymentMethod === "paypal" ? paymentDetails.paypalOrderId : null,
+            payment_details: paymentDetails,
+          }));
+      } catch (transactionError) {
         console.error("Error creating transaction:", transactionError);
         const response: PaymentResponse = {
           success: false,
@@ -329,20 +385,25 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
         return res.status(500).json(response);
       }
 
-      // Update booking status to confirmed in Supabase
-      const { error: updateError } =
-        await supabaseServerHelpers.updateBookingStatus(bookingId, "confirmed");
-
-      if (updateError) {
+      // Move booking to paid (and ticketed when the ticket is already issued)
+      try {
+        const result = await BookingLifecycle.markPaid(store, booking, {
+          actorType: "user",
+          actorId: user.id,
+          reason: `Payment received via ${paymentMethod}`,
+        });
+        if (!result.success) {
+          console.error("Booking status not updated:", result.message);
+        }
+      } catch (updateError) {
         console.error("Error updating booking status:", updateError);
         // Payment succeeded but booking update failed - this would need manual intervention
       }
 
       // Send payment confirmation email automatically
       try {
-        const { data: booking } =
-          await supabaseServerHelpers.getBooking(bookingId);
-        if (booking && user?.email) {
+        if (user?.email) {
+          const brand = BrandService.getBrand(booking.brand_id);
           const emailData = {
             to: user.email,
             paymentData: {
@@ -354,7 +415,7 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
               amount: transaction.amount,
               currency: transaction.currency,
               paymentMethod: transaction.payment_method,
-              bookingUrl: `${process.env.CLIENT_URL || "http://localhost:8080"}/booking/${booking.id}`,
+              bookingUrl: `${brand.websiteUrl}/booking/${booking.id}`,
             },
           };
 
@@ -365,6 +426,7 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
           const emailSent = await EmailService.sendPaymentConfirmation(
             emailData.to,
             emailData.paymentData,
+            brand,
           );
 
           if (emailSent) {
@@ -388,8 +450,8 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
       };
 
       res.json(response);
-    } catch (supabaseError) {
-      console.error("Supabase payment processing error:", supabaseError);
+    } catch (storeError) {
+      console.error("Payment processing error:", storeError);
       const response: PaymentResponse = {
         success: false,
         message: "Payment processing failed",
@@ -406,37 +468,21 @@ export const handleProcessPayment: RequestHandler = async (req, res) => {
   }
 };
 
-// Get payment history from Supabase
+// Get payment history
 export const handleGetPaymentHistory: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
 
     try {
-      const { data: transactions, error } =
-        await supabaseServerHelpers.getUserTransactions(user.id);
+      const transactions = await getStoreForUser(
+        user.id,
+      ).transactions.listByUser(user.id);
 
-      if (error) {
-        console.error("Error fetching payment history:", error);
-        return res.json([]); // Return empty array as fallback
-      }
-
-      // Transform to expected format
-      const userTransactions = transactions.map((transaction) => ({
-        id: transaction.id,
-        bookingId: transaction.booking_id,
-        userId: transaction.user_id,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        method: transaction.payment_method,
-        status: transaction.status,
-        transactionId: transaction.id,
-        createdAt: transaction.created_at,
-        updatedAt: transaction.updated_at,
-      }));
+      const userTransactions = transactions.map(toApiTransaction);
 
       res.json(userTransactions);
-    } catch (supabaseError) {
-      console.error("Supabase payment history error:", supabaseError);
+    } catch (storeError) {
+      console.error("Payment history error:", storeError);
       res.json([]); // Return empty array as fallback
     }
   } catch (error) {
@@ -445,48 +491,28 @@ export const handleGetPaymentHistory: RequestHandler = async (req, res) => {
   }
 };
 
-// Get specific transaction from Supabase
+// Get specific transaction
 export const handleGetTransaction: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { transactionId } = req.params;
 
     try {
-      const { data: transactions, error } =
-        await supabaseServerHelpers.getUserTransactions(user.id);
-
-      if (error) {
-        console.error("Error fetching transaction:", error);
-        return res
-          .status(404)
-          .json({ success: false, message: "Transaction not found" });
-      }
-
-      const transaction = transactions.find((t) => t.id === transactionId);
+      const transaction = await getStoreForUser(user.id).transactions.findById(
+        transactionId,
+      );
 
-      if (!transaction) {
+      if (!transaction || transaction.user_id !== user.id) {
         return res
           .status(404)
           .json({ success: false, message: "Transaction not found" });
       }
 
-      // Transform to expected format
-      const transactionData = {
-        id: transaction.id,
-        bookingId: transaction.booking_id,
-        userId: transaction.user_id,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        method: transaction.payment_method,
-        status: transaction.status,
-        transactionId: transaction.id,
-        createdAt: transaction.created_at,
-        updatedAt: transaction.updated_at,
-      };
+      const transactionData = toApiTransaction(transaction);
 
       res.json(transactionData);
-    } catch (supabaseError) {
-      console.error("Supabase get transaction error:", supabaseError);
+    } catch (storeError) {
+      console.error("Get transaction error:", storeError);
       res
         .status(404)
         .json({ success: false, message: "Transaction not found" });
@@ -497,100 +523,79 @@ export const handleGetTransaction: RequestHandler = async (req, res) => {
   }
 };
 
-// Refund payment in Supabase (admin only)
+// Refund payment (admin only)
 export const handleRefundPayment: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
 
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ success: false, message: "Admin access required" });
+    const validation = refundSchema.safeParse(req.body || {});
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid refund request",
+        errors: validation.error.errors,
+      });
     }
 
     const { transactionId } = req.params;
-    const { reason } = req.body;
+    const { amount, reason } = validation.data;
+    const idempotencyKey =
+      req.get("Idempotency-Key") || validation.data.idempotencyKey;
 
     try {
-      // Get transaction details
-      const { data: allTransactions, error: fetchError } =
-        await supabaseServerHelpers.getAllTransactionsAdmin();
-
-      if (fetchError) {
-        console.error("Error fetching transactions:", fetchError);
+      const store = await findTransactionStore(transactionId);
+      if (!store) {
         return res
           .status(404)
           .json({ success: false, message: "Transaction not found" });
       }
 
-      const transaction = allTransactions.find((t) => t.id === transactionId);
-
-      if (!transaction) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Transaction not found" });
-      }
+      const result = await RefundService.refundTransaction(
+        store,
+        transactionId,
+        {
+          amount,
+          reason: reason || null,
+          idempotencyKey,
+          actor: {
+            actorType: "admin",
+            actorId: user.id,
+            reason: reason || null,
+          },
+        },
+      );
 
-      if (transaction.status !== "completed") {
-        return res.status(400).json({
+      if (!result.success) {
+        const statusCode =
+          result.error === "not_found"
+            ? 404
+            : result.error === "conflict"
+              ? 409
+              : result.error === "provider_error"
+                ? 502
+                : 400;
+        const response: RefundResponse = {
           success: false,
-          message: "Only completed transactions can be refunded",
-        });
-      }
-
-      // Simulate refund processing
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Update transaction status to refunded
-      const { data: updatedTransaction, error: updateError } =
-        await supabaseServerHelpers.updateTransactionStatus(
-          transactionId,
-          "refunded",
-          { refund_reason: reason },
-        );
-
-      if (updateError || !updatedTransaction) {
-        console.error("Error updating transaction status:", updateError);
-        return res
-          .status(500)
-          .json({ success: false, message: "Failed to process refund" });
-      }
-
-      // Update booking status to cancelled
-      const { error: bookingUpdateError } =
-        await supabaseServerHelpers.updateBookingStatus(
-          transaction.booking_id,
-          "cancelled",
-        );
-
-      if (bookingUpdateError) {
-        console.error(
-          "Error updating booking status after refund:",
-          bookingUpdateError,
-        );
-        // Refund succeeded but booking update failed - would need manual intervention
+          message: result.message || "Failed to process refund",
+          refund: result.refund ? toApiRefund(result.refund) : undefined,
+        };
+        return res.status(statusCode).json(response);
       }
 
-      res.json({
+      const response: RefundResponse = {
         success: true,
-        message: "Refund processed successfully",
-        transaction: {
-          id: updatedTransaction.id,
-          bookingId: updatedTransaction.booking_id,
-          userId: updatedTransaction.user_id,
-          amount: updatedTransaction.amount,
-          currency: updatedTransaction.currency,
-          method: updatedTransaction.payment_method,
-          status: updatedTransaction.status,
-          transactionId: updatedTransaction.id,
-          createdAt: updatedTransaction.created_at,
-          updatedAt: updatedTransaction.updated_at,
-        },
-      });
-    } catch (supabaseError) {
-      console.error("Supabase refund error:", supabaseError);
+        message: result.pending
+          ? "Refund submitted, awaiting confirmation from the payment provider"
+          : "Refund processed successfully",
+        refund: result.refund ? toApiRefund(result.refund) : undefined,
+        transaction: result.transaction
+          ? toApiTransaction(result.transaction)
+          : undefined,
+      };
+
+      res.status(result.pending ? 202 : 200).json(response);
+    } catch (storeError) {
+      console.error("Refund error:", storeError);
       res
         .status(500)
         .json({ success: false, message: "Failed to process refund" });
@@ -601,18 +606,61 @@ export const handleRefundPayment: RequestHandler = async (req, res) => {
   }
 };
 
+// List refunds issued against a transaction (admin only)
+export const handleGetTransactionRefunds: RequestHandler = async (req, res) => {
+  try {
+    const store = await findTransactionStore(req.params.transactionId);
+    const refunds = store
+      ? await store.refunds.listByTransaction(req.params.transactionId)
+      : [];
+
+    res.json({ success: true, refunds: refunds.map(toApiRefund) });
+  } catch (error) {
+    console.error("Get refunds error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
 // Create PayPal order
 export const handleCreatePayPalOrder: RequestHandler = async (req, res) => {
   try {
-    const { bookingId, amount, currency = "USD" } = req.body;
+    const user = (req as any).user;
+    const { bookingId, quoteId } = req.body;
 
-    if (!bookingId || !amount) {
+    if (!bookingId || !quoteId) {
       return res.status(400).json({
         success: false,
         message: "Missing required fields",
       });
     }
 
+    const store = getStoreForUser(user.id);
+    const booking = await store.bookings.findById(bookingId);
+
+    if (!booking || booking.user_id !== user.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found",
+      });
+    }
+
+    if (!QuoteService.isBookingQuote(quoteId, booking)) {
+      return res.status(400).json({
+        success: false,
+        message: "Quote does not match this booking",
+      });
+    }
+
+    const amount = booking.total_amount;
+    const currency = booking.currency || "USD";
+
+    if (!PayPalService.supportsCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        message: `PayPal does not accept payments in ${currency}. Please pay by card.`,
+      });
+    }
+
     console.log(
       "Creating PayPal order for booking:",
       bookingId,
@@ -621,7 +669,7 @@ export const handleCreatePayPalOrder: RequestHandler = async (req, res) => {
     );
 
     // For development/demo mode, return a mock response if PayPal credentials are not configured
-    if (!PAYPAL_CLIENT_ID || PAYPAL_CLIENT_ID === "demo-client-id") {
+    if (PayPalService.isDemoMode()) {
       console.log("PayPal demo mode - returning mock approval URL");
       return res.json({
         success: true,
@@ -631,9 +679,8 @@ export const handleCreatePayPalOrder: RequestHandler = async (req, res) => {
       });
     }
 
-    let accessToken;
     try {
-      accessToken = await getPayPalAccessToken();
+      await PayPalService.getAccessToken();
     } catch (authError) {
       console.log("PayPal authentication failed, falling back to demo mode");
       return res.json({
@@ -645,45 +692,30 @@ export const handleCreatePayPalOrder: RequestHandler = async (req, res) => {
       });
     }
 
-    const orderData = {
-      intent: "CAPTURE",
-      purchase_units: [
-        {
-          reference_id: bookingId,
-          amount: {
-            currency_code: currency,
-            value: amount.toString(),
-          },
-          description: `OnboardTicket Flight Reservation - ${bookingId}`,
-        },
-      ],
-      application_context: {
-        brand_name: "OnboardTicket",
-        landing_page: "NO_PREFERENCE",
-        user_action: "PAY_NOW",
-        return_url: `${req.headers.origin}/payment/success`,
-        cancel_url: `${req.headers.origin}/payment/cancel`,
-      },
-    };
-
-    const response = await fetch(`${PAYPAL_BASE_URL}/v2/checkout/orders`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(orderData),
+    const order = await PayPalService.createOrder({
+      bookingId,
+      amount,
+      currency,
+      description: `OnboardTicket Flight Reservation - ${booking.pnr}`,
+      returnUrl: `${req.headers.origin}/payment/success`,
+      cancelUrl: `${req.headers.origin}/payment/cancel`,
     });
-
-    if (!response.ok) {
-      throw new Error("Failed to create PayPal order");
-    }
-
-    const order = await response.json();
     const approvalUrl = order.links.find(
       (link: any) => link.rel === "approve",
     )?.href;
 
+    // The PayPal webhook resolves the booking through this transaction
+    await store.transactions.create({
+      booking_id: booking.id,
+      user_id: user.id,
+      amount,
+      currency: currency.toUpperCase(),
+      payment_method: "paypal",
+      promo_code: booking.promo_code || null,
+      status: "pending",
+      paypal_order_id: order.id,
+    });
+
     res.json({
       success: true,
       orderID: order.id,
@@ -727,24 +759,7 @@ export const handleCapturePayPalPayment: RequestHandler = async (req, res) => {
       });
     }
 
-    const accessToken = await getPayPalAccessToken();
-
-    const response = await fetch(
-      `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}/capture`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error("Failed to capture PayPal payment");
-    }
-
-    const capture = await response.json();
+    const capture = await PayPalService.captureOrder(orderId);
 
     res.json({
       success: true,
@@ -767,9 +782,9 @@ export const handleCreateStripePaymentIntent: RequestHandler = async (
 ) => {
   try {
     const user = (req as any).user;
-    const { bookingId, amount, currency = "USD" } = req.body;
+    const { bookingId, quoteId } = req.body;
 
-    if (!bookingId || !amount) {
+    if (!bookingId || !quoteId) {
       return res.status(400).json({
         success: false,
         message: "Missing required fields",
@@ -777,11 +792,10 @@ export const handleCreateStripePaymentIntent: RequestHandler = async (
     }
 
     try {
-      // Find booking in Supabase
-      const { data: booking, error: bookingError } =
-        await supabaseServerHelpers.getBookingById(bookingId);
+      const store = getStoreForUser(user.id);
+      const booking = await store.bookings.findById(bookingId);
 
-      if (bookingError || !booking) {
+      if (!booking) {
         return res.status(404).json({
           success: false,
           message: "Booking not found",
@@ -803,6 +817,24 @@ export const handleCreateStripePaymentIntent: RequestHandler = async (
         });
       }
 
+      if (BookingExpiry.isHoldExpired(booking)) {
+        await BookingExpiry.expireBooking(store, booking);
+        return res.status(400).json({
+          success: false,
+          message: "Booking hold has expired. Please create a new booking.",
+        });
+      }
+
+      if (!QuoteService.isBookingQuote(quoteId, booking)) {
+        return res.status(400).json({
+          success: false,
+          message: "Quote does not match this booking",
+        });
+      }
+
+      const amount = booking.total_amount;
+      const currency = booking.currency || "USD";
+
       console.log(
         "Creating Stripe payment intent for booking:",
         bookingId,
@@ -829,14 +861,26 @@ export const handleCreateStripePaymentIntent: RequestHandler = async (
         description: `OnboardTicket Flight Reservation - ${booking.pnr}`,
       });
 
+      // The Stripe webhook resolves the booking through this transaction
+      await store.transactions.create({
+        booking_id: booking.id,
+        user_id: user.id,
+        amount,
+        currency: currency.toUpperCase(),
+        payment_method: "stripe",
+        promo_code: booking.promo_code || null,
+        status: "pending",
+        stripe_payment_intent_id: paymentIntent.id,
+      });
+
       res.json({
         success: true,
         clientSecret: paymentIntent.client_secret,
         paymentIntentId: paymentIntent.id,
         demoMode: false,
       });
-    } catch (supabaseError) {
-      console.error("Supabase error in Stripe payment intent:", supabaseError);
+    } catch (storeError) {
+      console.error("Store error in Stripe payment intent:", storeError);
       res.status(500).json({
         success: false,
         message: "Failed to create Stripe payment intent",
@@ -879,37 +923,15 @@ export const handleGetStripeConfig: RequestHandler = (req, res) => {
   }
 };
 
-// Get all transactions from Supabase (admin only)
+// Get all transactions (admin only)
 export const handleGetAllTransactions: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ success: false, message: "Admin access required" });
-    }
-
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const status = req.query.status as string;
 
     try {
-      const { data: allTransactions, error } =
-        await supabaseServerHelpers.getAllTransactionsAdmin();
-
-      if (error) {
-        console.error("Error fetching all transactions:", error);
-        return res.json({
-          transactions: [],
-          total: 0,
-          page,
-          limit,
-          totalPages: 0,
-        });
-      }
+      const allTransactions = await getDataStore().transactions.list();
 
       let filteredTransactions = allTransactions;
 
@@ -935,16 +957,7 @@ export const handleGetAllTransactions: RequestHandler = async (req, res) => {
 
       // Transform to expected format
       const transactions = paginatedTransactions.map((transaction) => ({
-        id: transaction.id,
-        bookingId: transaction.booking_id,
-        userId: transaction.user_id,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        method: transaction.payment_method,
-        status: transaction.status,
-        transactionId: transaction.id,
-        createdAt: transaction.created_at,
-        updatedAt: transaction.updated_at,
+        ...toApiTransaction(transaction),
         // Include booking and user info if available
         booking: transaction.booking
           ? {
@@ -968,8 +981,8 @@ export const handleGetAllTransactions: RequestHandler = async (req, res) => {
         limit,
         totalPages: Math.ceil(filteredTransactions.length / limit),
       });
-    } catch (supabaseError) {
-      console.error("Supabase get all transactions error:", supabaseError);
+    } catch (storeError) {
+      console.error("Get all transactions error:", storeError);
       res.json({
         transactions: [],
         total: 0,
@@ -0,0 +1,232 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import {
+  MockPayPalServer,
+  startMockPayPalServer,
+} from "../testing/mockPayPalServer";
+
+describe("PayPal webhook", () => {
+  let paypal: MockPayPalServer;
+  let server: Server;
+  let webhookUrl: string;
+  let dataDir: string;
+  let store: import("../lib/storage").DataStore;
+  let PayPalService: typeof import("../lib/paypalService").PayPalService;
+
+  beforeAll(async () => {
+    paypal = await startMockPayPalServer();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "paypal-webhook-"));
+
+    // Configuration is read when the modules load
+    process.env.PAYPAL_API_BASE_URL = paypal.baseUrl;
+    process.env.PAYPAL_CLIENT_ID = "mock-client-id";
+    process.env.PAYPAL_CLIENT_SECRET = "mock-client-secret";
+    process.env.PAYPAL_WEBHOOK_ID = "mock-webhook-id";
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(dataDir, "data.json");
+
+    const { handlePayPalWebhook } = await import("./paypal-webhooks");
+    const storage = await import("../lib/storage");
+    PayPalService = (await import("../lib/paypalService")).PayPalService;
+    store = storage.getDataStore();
+
+    const app = express();
+    app.use(express.json());
+    app.post("/api/webhooks/paypal", handlePayPalWebhook);
+    server = await new Promise((resolve) => {
+      const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+    });
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/paypal`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await paypal?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const deliver = (event: object, valid = true) =>
+    fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...paypal.webhookHeaders({ valid }),
+      },
+      body: JSON.stringify(event),
+    });
+
+  // A pending booking with its PayPal order, as handleCreatePayPalOrder
+  // leaves it. The ticket is pre-set so confirming does not render a PDF.
+  const createPendingOrder = async () => {
+    const booking = await store.bookings.create({
+      user_id: "paypal-test-user",
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-01-15",
+      trip_type: "oneway",
+      total_amount: 15,
+      contact_email: "traveller@example.com",
+      terms_accepted: true,
+      ticket_url: "/tickets/test.pdf",
+    });
+    const order = await PayPalService.createOrder({
+      bookingId: booking.id,
+      amount: 15,
+      currency: "USD",
+      description: `OnboardTicket Flight Reservation - ${booking.pnr}`,
+      returnUrl: "http://localhost/payment/success",
+      cancelUrl: "http://localhost/payment/cancel",
+    });
+    const transaction = await store.transactions.create({
+      booking_id: booking.id,
+      user_id: booking.user_id,
+      amount: 15,
+      currency: "USD",
+      payment_method: "paypal",
+      status: "pending",
+      paypal_order_id: order.id,
+    });
+    return { booking, order, transaction };
+  };
+
+  it("should capture approved orders and ticket the booking", async () => {
+    const { booking, order, transaction } = await createPendingOrder();
+    const approved = paypal.approveOrder(order.id);
+
+    const event = {
+      id: "WH-APPROVED-1",
+      event_type: "CHECKOUT.ORDER.APPROVED",
+      resource: approved,
+    };
+    const response = await deliver(event);
+    expect(response.status).toBe(200);
+
+    expect(paypal.orders.get(order.id).status).toBe("COMPLETED");
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "completed",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe(
+      "ticketed",
+    );
+
+    // Redelivery of the same event is acknowledged but not processed again
+    const replay = await deliver(event);
+    expect(replay.status).toBe(200);
+    expect((await replay.json()).message).toBe("Event already processed");
+  });
+
+  it("should reject deliveries that fail signature verification", async () => {
+    const response = await deliver(
+      {
+        id: "WH-FORGED-1",
+        event_type: "PAYMENT.CAPTURE.COMPLETED",
+        resource: {},
+      },
+      false,
+    );
+    expect(response.status).toBe(400);
+    expect(await store.webhookEvents.find("paypal", "WH-FORGED-1")).toBeNull();
+  });
+
+  it("should confirm the booking when a capture completes", async () => {
+    const { booking, order } = await createPendingOrder();
+    paypal.approveOrder(order.id);
+    const captured = await PayPalService.captureOrder(order.id);
+
+    const response = await deliver({
+      id: "WH-CAPTURE-1",
+      event_type: "PAYMENT.CAPTURE.COMPLETED",
+      resource: captured.purchase_units[0].payments.captures[0],
+    });
+    expect(response.status).toBe(200);
+    expect((await store.bookings.findById(booking.id))?.status).toBe(
+      "ticketed",
+    );
+  });
+
+  it("should not confirm a booking for a capture of a different amount", async () => {
+    const { booking, order, transaction } = await createPendingOrder();
+    paypal.approveOrder(order.id);
+    const captured = await PayPalService.captureOrder(order.id);
+    const capture = captured.purchase_units[0].payments.captures[0];
+
+    const response = await deliver({
+      id: "WH-UNDERPAID-1",
+      event_type: "PAYMENT.CAPTURE.COMPLETED",
+      resource: {
+        ...capture,
+        amount: { currency_code: "USD", value: "1.00" },
+      },
+    });
+    expect(response.status).toBe(200);
+    expect(await store.transactions.findById(transaction.id)).toMatchObject({
+      status: "failed",
+      payment_details: {
+        failure_message: "Payment amount does not match the booking total",
+      },
+    });
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+  });
+
+  it("should fail the transaction but keep the hold when a capture is denied", async () => {
+    const { booking, order, transaction } = await createPendingOrder();
+
+    const response = await deliver({
+      id: "WH-DENIED-1",
+      event_type: "PAYMENT.CAPTURE.DENIED",
+      resource: {
+        id: "DENIEDCAPTURE",
+        status: "DECLINED",
+        supplementary_data: { related_ids: { order_id: order.id } },
+      },
+    });
+    expect(response.status).toBe(200);
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "failed",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+  });
+
+  it("should record refunds issued from the PayPal dashboard", async () => {
+    const { booking, order, transaction } = await createPendingOrder();
+    paypal.approveOrder(order.id);
+    await deliver({
+      id: "WH-APPROVED-2",
+      event_type: "CHECKOUT.ORDER.APPROVED",
+      resource: paypal.orders.get(order.id),
+    });
+
+    const captureId = await PayPalService.getCaptureId(order.id);
+    const refund = await PayPalService.refundCapture(captureId!, {
+      currency: "USD",
+      idempotencyKey: "dashboard-refund-1",
+    });
+
+    const response = await deliver({
+      id: "WH-REFUNDED-1",
+      event_type: "PAYMENT.CAPTURE.REFUNDED",
+      resource: refund,
+    });
+    expect(response.status).toBe(200);
+
+    const refunds = await store.refunds.listByTransaction(transaction.id);
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({
+      provider: "paypal",
+      provider_refund_id: refund.id,
+      status: "succeeded",
+      amount: 15,
+    });
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "refunded",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe(
+      "refunded",
+    );
+  });
+});
@@ -0,0 +1,313 @@
+import { RequestHandler } from "express";
+import PayPalService, { PayPalAmount } from "../lib/paypalService";
+import { BookingActor } from "../lib/bookingLifecycle";
+import BookingConfirmation from "../lib/bookingConfirmation";
+import RefundService from "../lib/refundService";
+import {
+  DataStore,
+  TransactionRecord,
+  getActiveDataStores,
+  getDataStore,
+} from "../lib/storage";
+
+const PAYPAL_ACTOR: BookingActor = {
+  actorType: "system",
+  actorId: "paypal-webhook",
+};
+
+interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource: any;
+}
+
+type TransactionMatch = { store: DataStore; transaction: TransactionRecord };
+
+// Captures carry their order under supplementary_data; refunds link "up" to
+// the capture they refund
+const getCaptureOrderId = (capture: any): string | null =>
+  capture?.supplementary_data?.related_ids?.order_id || null;
+
+const getRefundCaptureId = (refund: any): string | null => {
+  const link = refund?.links?.find((item: any) => item.rel === "up");
+  return link?.href?.split("/captures/")[1]?.split("/")[0] || null;
+};
+
+/**
+ * Resolve the transaction recorded for a PayPal order. Orders created before
+ * the transaction row existed fall back to the bookingId PayPal echoes back
+ * as custom_id on the purchase unit or capture, in which case the
+ * transaction is created here, for the booking's total.
+ */
+const findOrderTransaction = async (
+  orderId: string,
+  purchase?: { custom_id?: string; amount?: PayPalAmount },
+): Promise<TransactionMatch | null> => {
+  const stores = getActiveDataStores();
+
+  for (const store of stores) {
+    const transaction = await store.transactions.findByPayPalOrder(orderId);
+    if (transaction) {
+      return { store, transaction };
+    }
+  }
+
+  if (!purchase?.custom_id) {
+    return null;
+  }
+
+  for (const store of stores) {
+    const booking = await store.bookings.findById(purchase.custom_id);
+    if (booking) {
+      const mismatch = PayPalService.checkPurchaseForBooking(purchase, booking);
+      if (mismatch) {
+        console.error(
+          `❌ PayPal order ${orderId} not recorded for booking ${booking.pnr}: ${mismatch}`,
+        );
+        return null;
+      }
+
+      const transaction = await store.transactions.create({
+        booking_id: booking.id,
+        user_id: booking.user_id,
+        amount: booking.total_amount,
+        currency: (booking.currency || "USD").toUpperCase(),
+        payment_method: "paypal",
+        promo_code: booking.promo_code || null,
+        status: "pending",
+        paypal_order_id: orderId,
+        payment_details: null,
+      });
+      return { store, transaction };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Whether an order's purchase unit or a capture pays for its transaction's
+ * booking at the booking's total, as the payment route checks. A pending
+ * transaction that doesn't is failed.
+ */
+const paysForBooking = async (
+  { store, transaction }: TransactionMatch,
+  purchase: { custom_id?: string; amount?: PayPalAmount } | undefined,
+): Promise<boolean> => {
+  const booking = await store.bookings.findById(transaction.booking_id);
+  const mismatch = booking
+    ? PayPalService.checkPurchaseForBooking(purchase, booking)
+    : "Booking not found";
+  if (!mismatch) {
+    return true;
+  }
+
+  console.error(
+    `❌ PayPal order ${transaction.paypal_order_id} not applied to booking ${transaction.booking_id}: ${mismatch}`,
+  );
+  if (transaction.status === "pending") {
+    await store.transactions.update(transaction.id, {
+      status: "failed",
+      payment_details: {
+        ...transaction.payment_details,
+        failure_message: mismatch,
+      },
+    });
+  }
+  return false;
+};
+
+// The buyer approved the order; capture it in case they never return to
+// the site to finish checkout
+const handleOrderApproved = async (order: any) => {
+  const unit = order.purchase_units?.[0];
+  const match = await findOrderTransaction(order.id, unit);
+  if (!match) {
+    console.warn(`⚠️ No transaction found for PayPal order ${order.id}`);
+    return;
+  }
+
+  if (
+    match.transaction.status !== "pending" ||
+    !(await paysForBooking(match, unit))
+  ) {
+    return;
+  }
+
+  const capture = await PayPalService.captureOrder(order.id);
+  if (capture.status === "COMPLETED") {
+    await BookingConfirmation.confirmTransaction(
+      match.store,
+      match.transaction,
+      { ...PAYPAL_ACTOR, reason: "Payment received via paypal" },
+    );
+  }
+};
+
+const handleCaptureCompleted = async (capture: any) => {
+  const orderId = getCaptureOrderId(capture);
+  const match = orderId ? await findOrderTransaction(orderId, capture) : null;
+  if (!match) {
+    console.warn(`⚠️ No transaction found for PayPal capture ${capture.id}`);
+    return;
+  }
+
+  if (!(await paysForBooking(match, capture))) {
+    return;
+  }
+
+  await BookingConfirmation.confirmTransaction(match.store, match.transaction, {
+    ...PAYPAL_ACTOR,
+    reason: "Payment received via paypal",
+  });
+};
+
+const handleCaptureDenied = async (capture: any) => {
+  const orderId = getCaptureOrderId(capture);
+  const match = orderId ? await findOrderTransaction(orderId) : null;
+  if (!match || match.transaction.status !== "pending") {
+    return;
+  }
+
+  // The booking keeps its hold so the customer can retry until it expires
+  await match.store.transactions.update(match.transaction.id, {
+    status: "failed",
+    payment_details: {
+      ...match.transaction.payment_details,
+      failure_message: capture.status_details?.reason || "Capture denied",
+    },
+  });
+};
+
+/**
+ * Settle refunds issued through RefundService, and record refunds issued
+ * directly from the PayPal dashboard.
+ */
+const handleCaptureRefunded = async (paypalRefund: any) => {
+  for (const store of getActiveDataStores()) {
+    const refund = await store.refunds.findByProviderRefundId(paypalRefund.id);
+    if (refund) {
+      await RefundService.completeRefund(store, refund, PAYPAL_ACTOR);
+      return;
+    }
+  }
+
+  const captureId = getRefundCaptureId(paypalRefund);
+  const capture = captureId ? await PayPalService.getCapture(captureId) : null;
+  const orderId = getCaptureOrderId(capture);
+  const match = orderId ? await findOrderTransaction(orderId) : null;
+  if (!match) {
+    console.warn(
+      `⚠️ No transaction found for PayPal refund ${paypalRefund.id}`,
+    );
+    return;
+  }
+
+  const { store, transaction } = match;
+  const created = await store.refunds.create({
+    transaction_id: transaction.id,
+    booking_id: transaction.booking_id,
+    amount: Number(paypalRefund.amount?.value ?? transaction.amount),
+    currency: (
+      paypalRefund.amount?.currency_code || transaction.currency
+    ).toUpperCase(),
+    provider: "paypal",
+    idempotency_key: `paypal_${paypalRefund.id}`,
+    reason: paypalRefund.note_to_payer || "Refunded in PayPal",
+  });
+  const refund =
+    (await store.refunds.update(created.id, {
+      provider_refund_id: paypalRefund.id,
+    })) || created;
+
+  await RefundService.completeRefund(store, refund, PAYPAL_ACTOR);
+};
+
+// Main webhook handler
+export const handlePayPalWebhook: RequestHandler = async (req, res) => {
+  if (PayPalService.isDemoMode() || !PayPalService.getWebhookId()) {
+    console.error("PayPal webhook handler: Missing PayPal configuration");
+    return res.status(500).json({
+      success: false,
+      message: "PayPal not configured",
+    });
+  }
+
+  const event = req.body as PayPalWebhookEvent;
+
+  try {
+    // Verify webhook signature
+    const verified = await PayPalService.verifyWebhookSignature(
+      {
+        authAlgo: req.header("paypal-auth-algo") || "",
+        certUrl: req.header("paypal-cert-url") || "",
+        transmissionId: req.header("paypal-transmission-id") || "",
+        transmissionSig: req.header("paypal-transmission-sig") || "",
+        transmissionTime: req.header("paypal-transmission-time") || "",
+      },
+      event,
+    );
+    if (!verified || !event?.id) {
+      throw new Error("Invalid PayPal webhook signature");
+    }
+    console.log(`Received PayPal webhook event: ${event.event_type}`);
+  } catch (err) {
+    return res.status(400).json({
+      success: false,
+      message: "Webhook signature verification failed",
+    });
+  }
+
+  try {
+    // PayPal retries deliveries that were not acknowledged; handle each once
+    const eventStore = getDataStore();
+    if (await eventStore.webhookEvents.find("paypal", event.id)) {
+      console.log(`Skipping already processed PayPal event ${event.id}`);
+      return res.json({
+        success: true,
+        message: "Event already processed",
+        eventType: event.event_type,
+      });
+    }
+
+    switch (event.event_type) {
+      case "CHECKOUT.ORDER.APPROVED":
+        await handleOrderApproved(event.resource);
+        break;
+
+      case "PAYMENT.CAPTURE.COMPLETED":
+        await handleCaptureCompleted(event.resource);
+        break;
+
+      case "PAYMENT.CAPTURE.DENIED":
+        await handleCaptureDenied(event.resource);
+        break;
+
+      case "PAYMENT.CAPTURE.REFUNDED":
+        await handleCaptureRefunded(event.resource);
+        break;
+
+      default:
+        console.log(`Unhandled PayPal webhook event type: ${event.event_type}`);
+    }
+
+    // Only record the event once it was handled, so failures are retried
+    await eventStore.webhookEvents.create({
+      provider: "paypal",
+      event_id: event.id,
+      event_type: event.event_type,
+    });
+
+    res.json({
+      success: true,
+      message: "Webhook processed successfully",
+      eventType: event.event_type,
+    });
+  } catch (error) {
+    console.error("Error processing PayPal webhook:", error);
+    res.status(500).json({
+      success: false,
+      message: "Webhook processing failed",
+    });
+  }
+};
@@ -0,0 +1,254 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  PromoCodeResponse,
+  PromoCodesResponse,
+  PromoValidateResponse,
+} from "@shared/api";
+import { isSupportedCurrency, roundMoney } from "../../shared/currency";
+import CurrencyService from "../lib/currencyService";
+import PromoService from "../lib/promoService";
+import { PromoCodeRecord, getDataStore, toApiPromoCode } from "../lib/storage";
+
+const validateSchema = z.object({
+  code: z.string().trim().min(1),
+  route: z.object({
+    from: z.object({ code: z.string().min(3).max(4) }),
+    to: z.object({ code: z.string().min(3).max(4) }),
+  }),
+  passengerCount: z.number().int().min(1).max(9),
+  currency: z
+    .string()
+    .refine(isSupportedCurrency, "Unsupported currency")
+    .optional(),
+  contactEmail: z.string().email().optional(),
+});
+
+const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,32}$/, "Use 3-32 letters, digits, - or _"),
+    description: z.string().max(200).nullable().optional(),
+    discountType: z.enum(["percentage", "fixed"]),
+    discountValue: z.number().positive(),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    perUserLimit: z.number().int().positive().nullable().optional(),
+    validFrom: z.string().datetime().nullable().optional(),
+    validUntil: z.string().datetime().nullable().optional(),
+    minPassengers: z.number().int().min(1).max(9).nullable().optional(),
+    routes: z
+      .array(z.string().regex(/^([A-Za-z]{3}|\*)-([A-Za-z]{3}|\*)$/))
+      .nullable()
+      .optional(),
+    active: z.boolean().optional(),
+  })
+  .refine(
+    (promo) =>
+      promo.discountType !== "percentage" || promo.discountValue <= 100,
+    {
+      message: "Percentage discounts cannot exceed 100",
+      path: ["discountValue"],
+    },
+  )
+  .refine(
+    (promo) =>
+      !promo.validFrom ||
+      !promo.validUntil ||
+      new Date(promo.validFrom) < new Date(promo.validUntil),
+    { message: "validUntil must be after validFrom", path: ["validUntil"] },
+  );
+
+type PromoCodeInput = z.infer<typeof promoCodeSchema>;
+
+const toRecordFields = (input: PromoCodeInput) => ({
+  code: PromoService.normalizeCode(input.code),
+  description: input.description || null,
+  discount_type: input.discountType,
+  discount_value: input.discountValue,
+  max_redemptions: input.maxRedemptions ?? null,
+  per_user_limit: input.perUserLimit ?? null,
+  valid_from: input.validFrom || null,
+  valid_until: input.validUntil || null,
+  min_passengers: input.minPassengers ?? null,
+  routes: input.routes?.length
+    ? input.routes.map((route) => route.toUpperCase())
+    : null,
+  active: input.active ?? true,
+});
+
+const withRedemptionCount = async (promo: PromoCodeRecord) =>
+  toApiPromoCode(
+    promo,
+    (await getDataStore().promoRedemptions.listByPromoCode(promo.id)).length,
+  );
+
+// Check a promo code against a booking (public, used at checkout)
+export const handleValidatePromoCode: RequestHandler = async (req, res) => {
+  try {
+    const validation = validateSchema.safeParse(req.body);
+    if (!validation.success) {
+      const response: PromoValidateResponse = {
+        success: false,
+        message: "A promo code, route and passenger count are required",
+      };
+      return res.status(400).json(response);
+    }
+
+    const { code, route, passengerCount, contactEmail } = validation.data;
+    const currency = CurrencyService.normalizeCurrency(
+      validation.data.currency,
+    );
+    const { serviceFee } = await CurrencyService.getRate(currency);
+
+    const result = await PromoService.check(code, {
+      route: {
+        fromCode: route.from.code.toUpperCase(),
+        toCode: route.to.code.toUpperCase(),
+      },
+      passengerCount,
+      currency,
+      serviceFee: roundMoney(serviceFee * passengerCount),
+      email: contactEmail,
+    });
+
+    const response: PromoValidateResponse = result.valid
+      ? {
+          success: true,
+          valid: true,
+          code: result.promo.code,
+          description: result.promo.description,
+          discount: result.discount,
+          currency,
+        }
+      : { success: true, valid: false, message: result.message };
+    res.json(response);
+  } catch (error) {
+    console.error("Validate promo code error:", error);
+    const response: PromoValidateResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// List promo codes with their redemption counts (admin only)
+export const handleGetPromoCodes: RequestHandler = async (req, res) => {
+  try {
+    const promoCodes = await getDataStore().promoCodes.list();
+
+    const response: PromoCodesResponse = {
+      success: true,
+      promoCodes: await Promise.all(promoCodes.map(withRedemptionCount)),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get promo codes error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Create a promo code (admin only)
+export const handleCreatePromoCode: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const validation = promoCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid promo code",
+        errors: validation.error.errors,
+      });
+    }
+
+    const store = getDataStore();
+    const fields = toRecordFields(validation.data);
+
+    if (await store.promoCodes.findByCode(fields.code)) {
+      return res.status(409).json({
+        success: false,
+        message: `Promo code ${fields.code} already exists`,
+      });
+    }
+
+    const promo = await store.promoCodes.create({
+      ...fields,
+      created_by: user.id,
+    });
+    console.log(`🏷️ Promo code ${promo.code} created by ${user.id}`);
+
+    const response: PromoCodeResponse = {
+      success: true,
+      promoCode: toApiPromoCode(promo, 0),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Create promo code error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Update a promo code (admin only)
+export const handleUpdatePromoCode: RequestHandler = async (req, res) => {
+  try {
+    const validation = promoCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid promo code",
+        errors: validation.error.errors,
+      });
+    }
+
+    const store = getDataStore();
+    const { promoId } = req.params;
+    const fields = toRecordFields(validation.data);
+
+    const existing = await store.promoCodes.findByCode(fields.code);
+    if (existing && existing.id !== promoId) {
+      return res.status(409).json({
+        success: false,
+        message: `Promo code ${fields.code} already exists`,
+      });
+    }
+
+    const promo = await store.promoCodes.update(promoId, fields);
+    if (!promo) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Promo code not found" });
+    }
+
+    const response: PromoCodeResponse = {
+      success: true,
+      promoCode: await withRedemptionCount(promo),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Update promo code error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Delete a promo code (admin only). Bookings keep the code they applied.
+export const handleDeletePromoCode: RequestHandler = async (req, res) => {
+  try {
+    const store = getDataStore();
+    const { promoId } = req.params;
+
+    if (!(await store.promoCodes.findById(promoId))) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Promo code not found" });
+    }
+
+    await store.promoCodes.delete(promoId);
+    res.json({ success: true, message: "Promo code deleted" });
+  } catch (error) {
+    console.error("Delete promo code error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
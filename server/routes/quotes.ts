@@ -0,0 +1,76 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { QuoteRequest, QuoteResponse } from "@shared/api";
+import { isSupportedCurrency } from "../../shared/currency";
+import QuoteService from "../lib/quoteService";
+
+export const quoteRouteSchema = z.object({
+  from: z.object({ code: z.string().min(3).max(4) }),
+  to: z.object({ code: z.string().min(3).max(4) }),
+  departureDate: z.string(),
+  returnDate: z.string().optional(),
+  tripType: z.enum(["oneway", "roundtrip"]),
+});
+
+const quoteSchema = z.object({
+  route: quoteRouteSchema,
+  passengerCount: z.number().int().min(1).max(9),
+  selectedFlight: z.any().optional(),
+  currency: z
+    .string()
+    .refine(isSupportedCurrency, "Unsupported currency")
+    .optional(),
+  promoCode: z.string().trim().min(1).max(32).optional(),
+  seats: z
+    .array(
+      z.object({
+        segmentId: z.string().min(1).max(16),
+        passengerIndex: z.number().int().min(0),
+        seatNumber: z.string().trim().min(2).max(5).toUpperCase(),
+      }),
+    )
+    .max(72)
+    .optional(),
+});
+
+// Price a booking (public, used by guest checkout as well)
+export const handleCreateQuote: RequestHandler = async (req, res) => {
+  try {
+    const validation = quoteSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: QuoteResponse = {
+        success: false,
+        message: `Invalid quote request: ${validation.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+      };
+      return res.status(400).json(response);
+    }
+
+    const result = await QuoteService.createQuote(
+      validation.data as QuoteRequest,
+    );
+
+    if (!result.success) {
+      const response: QuoteResponse = {
+        success: false,
+        message: result.message,
+      };
+      return res
+        .status(result.error === "unavailable" ? 409 : 400)
+        .json(response);
+    }
+
+    const response: QuoteResponse = {
+      success: true,
+      quote: result.quote,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Create quote error:", error);
+    const response: QuoteResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
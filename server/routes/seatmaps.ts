@@ -0,0 +1,50 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { SeatMapRequest, SeatMapResponse } from "@shared/api";
+import SeatMapService from "../lib/seatMapService";
+import { quoteRouteSchema } from "./quotes";
+
+const seatMapSchema = z.object({
+  route: quoteRouteSchema,
+  selectedFlight: z.any().optional(),
+});
+
+// Seat maps for the flights being booked (public, used by guest checkout)
+export const handleGetBookingSeatMaps: RequestHandler = async (req, res) => {
+  try {
+    const validation = seatMapSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      const response: SeatMapResponse = {
+        success: false,
+        message: `Invalid seat map request: ${validation.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+      };
+      return res.status(400).json(response);
+    }
+
+    const result = await SeatMapService.getSeatMaps(
+      validation.data as SeatMapRequest,
+    );
+
+    if (!result.success) {
+      const response: SeatMapResponse = {
+        success: false,
+        message: result.message,
+      };
+      return res.status(502).json(response);
+    }
+
+    const response: SeatMapResponse = {
+      success: true,
+      seatMaps: result.seatMaps,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get seat maps error:", error);
+    const response: SeatMapResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,357 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Stripe from "stripe";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+const WEBHOOK_SECRET = "whsec_stripe_webhook_spec";
+
+describe("Stripe webhook", () => {
+  const stripe = new Stripe("sk_test_stripe_webhook_spec");
+  let server: Server;
+  let webhookUrl: string;
+  let dataDir: string;
+  let store: import("../lib/storage").DataStore;
+  let sendPaymentConfirmation: ReturnType<typeof vi.spyOn>;
+  let sendDisputeAlert: ReturnType<typeof vi.spyOn>;
+  let refundPayment: ReturnType<typeof vi.spyOn>;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "stripe-webhook-"));
+
+    // Configuration is read when the modules load
+    process.env.STRIPE_SECRET_KEY = "sk_test_stripe_webhook_spec";
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    process.env.DATA_STORE = "file";
+    process.env.LOCAL_DATA_FILE = path.join(dataDir, "data.json");
+    process.env.ADMIN_ALERT_EMAIL = "ops@example.com";
+
+    const { EmailService } = await import("../lib/emailService");
+    vi.spyOn(EmailService, "sendBookingConfirmation").mockResolvedValue(true);
+    sendPaymentConfirmation = vi
+      .spyOn(EmailService, "sendPaymentConfirmation")
+      .mockResolvedValue(true);
+    sendDisputeAlert = vi
+      .spyOn(EmailService, "sendDisputeAlert")
+      .mockResolvedValue(true);
+
+    const { StripeService } = await import("../lib/stripeService");
+    refundPayment = vi
+      .spyOn(StripeService, "refundPayment")
+      .mockImplementation(
+        async (paymentIntentId) =>
+          ({ id: `re_${paymentIntentId}`, status: "succeeded" }) as any,
+      );
+
+    const { handleStripeWebhook } = await import("./stripe-webhooks");
+    store = (await import("../lib/storage")).getDataStore();
+
+    const app = express();
+    app.use("/api/webhooks/stripe", express.raw({ type: "application/json" }));
+    app.post("/api/webhooks/stripe", handleStripeWebhook);
+    server = await new Promise((resolve) => {
+      const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+    });
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/stripe`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const deliver = (id: string, type: string, object: object, valid = true) => {
+    const payload = JSON.stringify({
+      id,
+      object: "event",
+      type,
+      data: { object },
+    });
+    return fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": stripe.webhooks.generateTestHeaderString({
+          payload,
+          secret: valid ? WEBHOOK_SECRET : "whsec_someone_else",
+        }),
+      },
+      body: payload,
+    });
+  };
+
+  // A pending booking with the transaction recorded for its payment
+  // intent. The ticket is pre-set so confirming does not render a PDF.
+  const createPendingPayment = async () => {
+    const booking = await store.bookings.create({
+      user_id: "stripe-test-user",
+      from_airport_id: null,
+      to_airport_id: null,
+      departure_date: "2030-01-15",
+      trip_type: "oneway",
+      total_amount: 25,
+      contact_email: "traveller@example.com",
+      terms_accepted: true,
+      ticket_url: "/tickets/test.pdf",
+    });
+    const paymentIntentId = `pi_${booking.id}`;
+    const transaction = await store.transactions.create({
+      booking_id: booking.id,
+      user_id: booking.user_id,
+      amount: 25,
+      payment_method: "stripe",
+      status: "pending",
+      stripe_payment_intent_id: paymentIntentId,
+    });
+    const paymentIntent = {
+      id: paymentIntentId,
+      object: "payment_intent",
+      amount: 2500,
+      currency: "usd",
+      status: "succeeded",
+      metadata: { bookingId: booking.id },
+    };
+    return { booking, transaction, paymentIntent };
+  };
+
+  it("should confirm the booking of a succeeded payment intent once", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+    sendPaymentConfirmation.mockClear();
+
+    const response = await deliver(
+      "evt_succeeded_1",
+      "payment_intent.succeeded",
+      paymentIntent,
+    );
+    expect(response.status).toBe(200);
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "completed",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe(
+      "ticketed",
+    );
+    expect(sendPaymentConfirmation).toHaveBeenCalledTimes(1);
+
+    // Redelivery of the same event is acknowledged but not processed again
+    const replay = await deliver(
+      "evt_succeeded_1",
+      "payment_intent.succeeded",
+      paymentIntent,
+    );
+    expect(replay.status).toBe(200);
+    expect((await replay.json()).message).toBe("Event already processed");
+    expect(sendPaymentConfirmation).toHaveBeenCalledTimes(1);
+    expect(await store.bookingEvents.listByBooking(booking.id)).toHaveLength(2);
+  });
+
+  it("should record the transaction of an intent only known by its metadata", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+    await store.transactions.update(transaction.id, {
+      stripe_payment_intent_id: null,
+    });
+
+    await deliver("evt_metadata_1", "payment_intent.succeeded", {
+      ...paymentIntent,
+      id: "pi_from_metadata",
+    });
+
+    expect(
+      await store.transactions.findByStripePaymentIntent("pi_from_metadata"),
+    ).toMatchObject({ booking_id: booking.id, status: "completed" });
+  });
+
+  it("should not confirm a booking for an intent of a different amount", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+    sendPaymentConfirmation.mockClear();
+
+    await deliver("evt_underpaid_1", "payment_intent.succeeded", {
+      ...paymentIntent,
+      amount: 100,
+    });
+
+    expect(await store.transactions.findById(transaction.id)).toMatchObject({
+      status: "failed",
+      payment_details: {
+        failure_message: "Payment amount does not match the booking total",
+      },
+    });
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+    expect(sendPaymentConfirmation).not.toHaveBeenCalled();
+  });
+
+  it("should reject deliveries that fail signature verification", async () => {
+    const { booking, paymentIntent } = await createPendingPayment();
+
+    const response = await deliver(
+      "evt_forged_1",
+      "payment_intent.succeeded",
+      paymentIntent,
+      false,
+    );
+
+    expect(response.status).toBe(400);
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+    expect(await store.webhookEvents.find("stripe", "evt_forged_1")).toBeNull();
+  });
+
+  it("should fail the transaction but keep the hold when a payment fails", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+
+    await deliver("evt_failed_1", "payment_intent.payment_failed", {
+      ...paymentIntent,
+      status: "requires_payment_method",
+      last_payment_error: { message: "Your card was declined." },
+    });
+
+    expect(await store.transactions.findById(transaction.id)).toMatchObject({
+      status: "failed",
+      payment_details: { failure_message: "Your card was declined." },
+    });
+    expect((await store.bookings.findById(booking.id))?.status).toBe("pending");
+  });
+
+  it("should cancel the booking when its payment intent is canceled", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+
+    await deliver("evt_canceled_1", "payment_intent.canceled", {
+      ...paymentIntent,
+      status: "canceled",
+    });
+
+    expect((await store.transactions.findById(transaction.id))?.status).toBe(
+      "failed",
+    );
+    expect((await store.bookings.findById(booking.id))?.status).toBe(
+      "cancelled",
+    );
+  });
+
+  it("should refund a payment that completes after the hold expired", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+    await store.bookings.update(booking.id, { status: "expired" });
+    sendPaymentConfirmation.mockClear();
+
+    await deliver("evt_late_1", "payment_intent.succeeded", paymentIntent);
+    // A redelivered event must not refund twice
+    await deliver("evt_late_2", "payment_intent.succeeded", paymentIntent);
+
+    expect(refundPayment).toHaveBeenCalledTimes(1);
+    expect(refundPayment.mock.calls[0][0]).toBe(paymentIntent.id);
+    expect(await store.transactions.findById(transaction.id)).toMatchObject({
+      status: "refunded",
+      refunded_amount: 25,
+    });
+    expect((await store.bookings.findById(booking.id))?.status).toBe("expired");
+    expect(sendPaymentConfirmation).not.toHaveBeenCalled();
+  });
+
+  it("should acknowledge intents that match no booking", async () => {
+    const response = await deliver(
+      "evt_unknown_1",
+      "payment_intent.succeeded",
+      {
+        id: "pi_unknown",
+        object: "payment_intent",
+        amount: 100,
+        currency: "usd",
+        metadata: {},
+      },
+    );
+
+    expect(response.status).toBe(200);
+    expect(
+      await store.transactions.findByStripePaymentIntent("pi_unknown"),
+    ).toBeNull();
+  });
+
+  const dispute = (paymentIntentId: string, status: string) => ({
+    id: `dp_${paymentIntentId}`,
+    object: "dispute",
+    amount: 2500,
+    currency: "usd",
+    charge: `ch_${paymentIntentId}`,
+    payment_intent: paymentIntentId,
+    reason: "fraudulent",
+    status,
+    evidence_details: { due_by: 1893456000 },
+  });
+
+  it("should record a chargeback against its booking and alert admins once", async () => {
+    const { booking, transaction, paymentIntent } =
+      await createPendingPayment();
+    sendDisputeAlert.mockClear();
+    const created = dispute(paymentIntent.id, "needs_response");
+
+    await deliver("evt_dispute_1", "charge.dispute.created", created);
+    // Stripe may send a new event for a dispute it already reported
+    await deliver("evt_dispute_2", "charge.dispute.created", created);
+
+    const [record] = (await store.disputes.list()).filter(
+      (candidate) => candidate.stripe_dispute_id === created.id,
+    );
+    expect(record).toMatchObject({
+      transaction_id: transaction.id,
+      booking_id: booking.id,
+      amount: 25,
+      currency: "USD",
+      status: "needs_response",
+      evidence_due_by: "2030-01-01T00:00:00.000Z",
+    });
+    expect((await store.bookings.findById(booking.id))?.disputed).toBe(true);
+    expect(sendDisputeAlert).toHaveBeenCalledTimes(1);
+    expect(sendDisputeAlert.mock.calls[0][0]).toBe("ops@example.com");
+  });
+
+  it("should clear the booking flag when a dispute is won", async () => {
+    const { booking, paymentIntent } = await createPendingPayment();
+    await deliver(
+      "evt_won_1",
+      "charge.dispute.created",
+      dispute(paymentIntent.id, "needs_response"),
+    );
+
+    await deliver(
+      "evt_won_2",
+      "charge.dispute.closed",
+      dispute(paymentIntent.id, "won"),
+    );
+
+    const record = await store.disputes.findByStripeDisputeId(
+      `dp_${paymentIntent.id}`,
+    );
+    expect(record?.status).toBe("won");
+    expect(record?.closed_at).toBeTruthy();
+    expect((await store.bookings.findById(booking.id))?.disputed).toBe(false);
+  });
+
+  it("should keep the booking flagged when a dispute is lost", async () => {
+    const { booking, paymentIntent } = await createPendingPayment();
+
+    // The created event never arrived; the update records the dispute
+    await deliver(
+      "evt_lost_1",
+      "charge.dispute.updated",
+      dispute(paymentIntent.id, "under_review"),
+    );
+    await deliver(
+      "evt_lost_2",
+      "charge.dispute.closed",
+      dispute(paymentIntent.id, "lost"),
+    );
+
+    expect(
+      (await store.disputes.findByStripeDisputeId(`dp_${paymentIntent.id}`))
+        ?.status,
+    ).toBe("lost");
+    expect((await store.bookings.findById(booking.id))?.disputed).toBe(true);
+  });
+});
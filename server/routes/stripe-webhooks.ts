@@ -1,104 +1,180 @@
 import { RequestHandler } from "express";
 import Stripe from "stripe";
-import { getAllBookings } from "./user";
-
-// Initialize Stripe with webhook secret
-const stripe = process.env.STRIPE_SECRET_KEY
-  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
-      apiVersion: "2024-12-18.acacia",
-    })
-  : null;
+import StripeService from "../lib/stripeService";
+import BookingLifecycle, { BookingActor } from "../lib/bookingLifecycle";
+import BookingConfirmation from "../lib/bookingConfirmation";
+import RefundService from "../lib/refundService";
+import DisputeService from "../lib/disputeService";
+import {
+  DataStore,
+  TransactionRecord,
+  getActiveDataStores,
+  getDataStore,
+} from "../lib/storage";
 
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
-// Get bookings array for updates
-let bookings = getAllBookings();
-
-// Find booking by payment intent ID
-const findBookingByPaymentIntent = (paymentIntentId: string) => {
-  return bookings.find(
-    (booking) =>
-      (booking.id && booking.id.includes("stripe")) ||
-      booking.pnr === paymentIntentId ||
-      (booking as any).paymentIntentId === paymentIntentId,
-  );
+const STRIPE_ACTOR: BookingActor = {
+  actorType: "system",
+  actorId: "stripe-webhook",
 };
 
-// Update booking status
-const updateBookingStatus = (
-  bookingId: string,
-  status: "confirmed" | "cancelled" | "pending",
-) => {
-  const bookingIndex = bookings.findIndex((b) => b.id === bookingId);
-  if (bookingIndex !== -1) {
-    bookings[bookingIndex].status = status;
-    bookings[bookingIndex].updatedAt = new Date().toISOString();
-    console.log(`Updated booking ${bookingId} status to ${status}`);
-    return bookings[bookingIndex];
-  }
-  return null;
-};
+/**
+ * Resolve the transaction recorded for a payment intent. Intents created
+ * before the transaction row existed fall back to the bookingId metadata,
+ * in which case the transaction is created here, for the booking's total.
+ */
+const findPaymentIntentTransaction = async (
+  paymentIntent: Stripe.PaymentIntent,
+): Promise<{ store: DataStore; transaction: TransactionRecord } | null> => {
+  const stores = getActiveDataStores();
 
-// Send booking confirmation email
-const sendBookingConfirmationEmail = async (booking: any) => {
-  try {
-    if (!booking.passengers?.[0]?.email) {
-      console.log("No passenger email found for booking confirmation");
-      return;
+  for (const store of stores) {
+    const transaction = await store.transactions.findByStripePaymentIntent(
+      paymentIntent.id,
+    );
+    if (transaction) {
+      return { store, transaction };
     }
+  }
 
-    const emailData = {
-      to: booking.passengers[0].email,
-      bookingData: {
-        customerName: `${booking.passengers[0].firstName} ${booking.passengers[0].lastName}`,
-        pnr: booking.pnr,
-        route: {
-          from: booking.route.from.code,
-          to: booking.route.to.code,
-          departureDate: booking.route.departureDate,
-        },
-        passengers: booking.passengers,
-        totalAmount: booking.totalAmount,
-        currency: booking.currency,
-        bookingUrl: `${process.env.CLIENT_URL || "http://localhost:8080"}/booking/${booking.id}`,
-      },
-    };
-
-    // Send booking confirmation email automatically
-    console.log("Sending booking confirmation email:", emailData);
-
-    try {
-      const response = await fetch(
-        `${process.env.CLIENT_URL || "http://localhost:8080"}/api/email/booking-confirmation`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.SYSTEM_API_KEY || "system"}`, // Use system auth for webhooks
-          },
-          body: JSON.stringify(emailData),
-        },
-      );
+  const bookingId = paymentIntent.metadata?.bookingId;
+  if (!bookingId) {
+    return null;
+  }
 
-      if (response.ok) {
-        console.log("✅ Booking confirmation email sent successfully");
-      } else {
+  for (const store of stores) {
+    const booking = await store.bookings.findById(bookingId);
+    if (booking) {
+      const mismatch = StripeService.checkPaymentIntentForBooking(
+        paymentIntent,
+        booking,
+      );
+      if (mismatch) {
         console.error(
-          "❌ Failed to send booking confirmation email:",
-          response.status,
+          `❌ Payment intent ${paymentIntent.id} not recorded for booking ${booking.pnr}: ${mismatch}`,
         );
+        return null;
       }
-    } catch (error) {
-      console.error("❌ Error sending booking confirmation email:", error);
+
+      const transaction = await store.transactions.create({
+        booking_id: booking.id,
+        user_id: booking.user_id,
+        amount: booking.total_amount,
+        currency: (booking.currency || "USD").toUpperCase(),
+        payment_method: "stripe",
+        promo_code: booking.promo_code || null,
+        status: "pending",
+        stripe_payment_intent_id: paymentIntent.id,
+        payment_details: null,
+      });
+      return { store, transaction };
     }
-  } catch (error) {
-    console.error("Failed to send booking confirmation email:", error);
+  }
+
+  return null;
+};
+
+const handlePaymentSucceeded = async (paymentIntent: Stripe.PaymentIntent) => {
+  const match = await findPaymentIntentTransaction(paymentIntent);
+  if (!match) {
+    console.warn(
+      `⚠️ No transaction found for payment intent ${paymentIntent.id}`,
+    );
+    return;
+  }
+
+  // The payment route checks the same before confirming
+  const { store, transaction } = match;
+  const booking = await store.bookings.findById(transaction.booking_id);
+  const mismatch = booking
+    ? StripeService.checkPaymentIntentForBooking(paymentIntent, booking)
+    : "Booking not found";
+  if (mismatch) {
+    console.error(
+      `❌ Payment intent ${paymentIntent.id} not applied to booking ${transaction.booking_id}: ${mismatch}`,
+    );
+    if (transaction.status === "pending") {
+      await store.transactions.update(transaction.id, {
+        status: "failed",
+        payment_details: {
+          ...transaction.payment_details,
+          failure_message: mismatch,
+        },
+      });
+    }
+    return;
+  }
+
+  await BookingConfirmation.confirmTransaction(store, transaction, {
+    ...STRIPE_ACTOR,
+    reason: "Payment received via stripe",
+  });
+};
+
+const handlePaymentFailed = async (paymentIntent: Stripe.PaymentIntent) => {
+  const match = await findPaymentIntentTransaction(paymentIntent);
+  if (!match || match.transaction.status !== "pending") {
+    return;
+  }
+
+  // The booking keeps its hold so the customer can retry until it expires
+  await match.store.transactions.update(match.transaction.id, {
+    status: "failed",
+    payment_details: {
+      ...match.transaction.payment_details,
+      failure_message: paymentIntent.last_payment_error?.message || null,
+    },
+  });
+};
+
+const handlePaymentCanceled = async (paymentIntent: Stripe.PaymentIntent) => {
+  const match = await findPaymentIntentTransaction(paymentIntent);
+  if (!match) {
+    return;
+  }
+
+  const { store, transaction } = match;
+  if (transaction.status === "pending") {
+    await store.transactions.update(transaction.id, { status: "failed" });
+  }
+
+  const booking = await store.bookings.findById(transaction.booking_id);
+  if (booking?.status === "pending") {
+    await BookingLifecycle.transition(store, booking, "cancelled", {
+      ...STRIPE_ACTOR,
+      reason: "Payment canceled",
+    });
+  }
+};
+
+// Settle refunds that Stripe accepted as pending when they were issued
+const handleRefundUpdated = async (stripeRefund: Stripe.Refund) => {
+  for (const store of getActiveDataStores()) {
+    const refund = await store.refunds.findByProviderRefundId(stripeRefund.id);
+    if (!refund || refund.status !== "pending") {
+      continue;
+    }
+
+    if (stripeRefund.status === "succeeded") {
+      await RefundService.completeRefund(store, refund, STRIPE_ACTOR);
+    } else if (
+      stripeRefund.status === "failed" ||
+      stripeRefund.status === "canceled"
+    ) {
+      await RefundService.failRefund(
+        store,
+        refund,
+        stripeRefund.failure_reason || `Refund ${stripeRefund.status}`,
+      );
+    }
+    return;
   }
 };
 
 // Main webhook handler
 export const handleStripeWebhook: RequestHandler = async (req, res) => {
-  if (!stripe || !webhookSecret) {
+  if (!StripeService.isConfigured() || !webhookSecret) {
     console.error("Stripe webhook handler: Missing Stripe configuration");
     return res.status(500).json({
       success: false,
@@ -111,10 +187,9 @@ export const handleStripeWebhook: RequestHandler = async (req, res) => {
 
   try {
     // Verify webhook signature
-    event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+    event = StripeService.verifyWebhookSignature(req.body, sig, webhookSecret);
     console.log(`Received Stripe webhook event: ${event.type}`);
   } catch (err) {
-    console.error(`Stripe webhook signature verification failed:`, err);
     return res.status(400).json({
       success: false,
       message: "Webhook signature verification failed",
@@ -122,87 +197,60 @@ export const handleStripeWebhook: RequestHandler = async (req, res) => {
   }
 
   try {
-    // Handle different event types
+    // Stripe redelivers events it did not see acknowledged; handle each once
+    const eventStore = getDataStore();
+    if (await eventStore.webhookEvents.find("stripe", event.id)) {
+      console.log(`Skipping already processed Stripe event ${event.id}`);
+      return res.json({
+        success: true,
+        message: "Event already processed",
+        eventType: event.type,
+      });
+    }
+
     switch (event.type) {
-      case "payment_intent.succeeded": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        console.log(`Payment succeeded: ${paymentIntent.id}`);
-
-        // Find associated booking
-        const booking = findBookingByPaymentIntent(paymentIntent.id);
-        if (booking) {
-          // Update booking status to confirmed
-          const updatedBooking = updateBookingStatus(booking.id, "confirmed");
-
-          if (updatedBooking) {
-            // Send confirmation email
-            await sendBookingConfirmationEmail(updatedBooking);
-            console.log(`Booking ${booking.id} confirmed and email sent`);
-          }
-        } else {
-          console.log(
-            `No booking found for payment intent: ${paymentIntent.id}`,
-          );
-        }
+      case "payment_intent.succeeded":
+        await handlePaymentSucceeded(event.data.object);
         break;
-      }
 
-      case "payment_intent.payment_failed": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        console.log(`Payment failed: ${paymentIntent.id}`);
-
-        // Find associated booking
-        const booking = findBookingByPaymentIntent(paymentIntent.id);
-        if (booking) {
-          // Update booking status to cancelled
-          updateBookingStatus(booking.id, "cancelled");
-          console.log(`Booking ${booking.id} cancelled due to payment failure`);
-        }
+      case "payment_intent.payment_failed":
+        await handlePaymentFailed(event.data.object);
         break;
-      }
 
-      case "payment_intent.requires_action": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        console.log(`Payment requires action: ${paymentIntent.id}`);
-
-        // Find associated booking and keep it as pending
-        const booking = findBookingByPaymentIntent(paymentIntent.id);
-        if (booking) {
-          updateBookingStatus(booking.id, "pending");
-          console.log(
-            `Booking ${booking.id} marked as pending - requires action`,
-          );
-        }
+      case "payment_intent.canceled":
+        await handlePaymentCanceled(event.data.object);
         break;
-      }
 
-      case "payment_intent.canceled": {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        console.log(`Payment canceled: ${paymentIntent.id}`);
+      case "payment_intent.requires_action":
+        // Customer is completing 3-D Secure; the booking stays pending
+        console.log(`Payment requires action: ${event.data.object.id}`);
+        break;
 
-        // Find associated booking
-        const booking = findBookingByPaymentIntent(paymentIntent.id);
-        if (booking) {
-          updateBookingStatus(booking.id, "cancelled");
-          console.log(`Booking ${booking.id} cancelled`);
-        }
+      case "refund.updated":
+      case "charge.refund.updated":
+        await handleRefundUpdated(event.data.object);
         break;
-      }
 
-      case "charge.dispute.created": {
-        const dispute = event.data.object as Stripe.Dispute;
-        console.log(`Dispute created for charge: ${dispute.charge}`);
+      case "charge.dispute.created":
+        await DisputeService.recordDispute(event.data.object);
+        break;
 
-        // Handle dispute - you might want to notify admin or update booking
-        // For now, just log it
-        console.log(`Dispute reason: ${dispute.reason}`);
+      case "charge.dispute.updated":
+      case "charge.dispute.closed":
+        await DisputeService.syncDispute(event.data.object);
         break;
-      }
 
       default:
         console.log(`Unhandled Stripe webhook event type: ${event.type}`);
     }
 
+    // Only record the event once it was handled, so failures are retried
+    await eventStore.webhookEvents.create({
+      provider: "stripe",
+      event_id: event.id,
+      event_type: event.type,
+    });
+
     // Return success response to Stripe
     res.json({
       success: true,
@@ -223,7 +271,7 @@ export const handleWebhookHealth: RequestHandler = (req, res) => {
   res.json({
     success: true,
     message: "Stripe webhook endpoint is healthy",
-    configured: !!(stripe && webhookSecret),
+    configured: !!(StripeService.isConfigured() && webhookSecret),
     timestamp: new Date().toISOString(),
   });
 };
@@ -1,6 +1,7 @@
 import { RequestHandler } from "express";
 import { AuthResponse, LoginRequest, RegisterRequest } from "@shared/api";
 import { supabase } from "../lib/supabaseServer";
+import { toApiUser } from "../lib/storage";
 import { z } from "zod";
 
 // Create default admin user in Supabase (handled by DatabaseInitializer)
@@ -96,15 +97,7 @@ export const handleSupabaseRegister: RequestHandler = async (req, res) => {
 
     const response: AuthResponse = {
       success: true,
-      user: {
-        id: userData.id,
-        email: userData.email,
-        firstName: userData.first_name,
-        lastName: userData.last_name,
-        title: userData.title,
-        createdAt: userData.created_at,
-        updatedAt: userData.updated_at,
-      },
+      user: toApiUser(userData),
       token: sessionData?.properties?.access_token,
       message: "Registration successful",
     };
@@ -176,15 +169,7 @@ export const handleSupabaseLogin: RequestHandler = async (req, res) => {
 
     const response: AuthResponse = {
       success: true,
-      user: {
-        id: userData.id,
-        email: userData.email,
-        firstName: userData.first_name,
-        lastName: userData.last_name,
-        title: userData.title,
-        createdAt: userData.created_at,
-        updatedAt: userData.updated_at,
-      },
+      user: toApiUser(userData),
       token: authData.session?.access_token,
       message: "Login successful",
     };
@@ -237,15 +222,7 @@ export const handleSupabaseValidateToken: RequestHandler = async (req, res) => {
 
     const response: AuthResponse = {
       success: true,
-      user: {
-        id: userData.id,
-        email: userData.email,
-        firstName: userData.first_name,
-        lastName: userData.last_name,
-        title: userData.title,
-        createdAt: userData.created_at,
-        updatedAt: userData.updated_at,
-      },
+      user: toApiUser(userData),
     };
 
     res.json(response);
@@ -297,15 +274,7 @@ export const supabaseAuthMiddleware: RequestHandler = async (
     }
 
     // Attach user to request object
-    (req as any).user = {
-      id: userData.id,
-      email: userData.email,
-      firstName: userData.first_name,
-      lastName: userData.last_name,
-      title: userData.title,
-      createdAt: userData.created_at,
-      updatedAt: userData.updated_at,
-    };
+    (req as any).user = toApiUser(userData);
 
     (req as any).supabaseUser = user;
     next();
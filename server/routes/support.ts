@@ -1,6 +1,6 @@
 import { RequestHandler } from "express";
 import { SupportTicket, SupportTicketRequest } from "@shared/api";
-import { supabaseServerHelpers } from "../lib/supabaseServer";
+import { getDataStore, getStoreForUser, toApiSupportTicket } from "../lib/storage";
 import { z } from 'zod';
 
 // Validation schema for support ticket request
@@ -11,7 +11,7 @@ const supportTicketSchema = z.object({
   category: z.enum(['booking', 'payment', 'technical', 'general'])
 });
 
-// Create new support ticket in Supabase
+// Create new support ticket
 export const handleCreateSupportTicket: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
@@ -28,8 +28,7 @@ export const handleCreateSupportTicket: RequestHandler = async (req, res) => {
     const { subject, message, priority, category } = validation.data;
 
     try {
-      // Create support ticket in Supabase
-      const { data: ticket, error } = await supabaseServerHelpers.createSupportTicket({
+      const ticket = await getStoreForUser(user.id).supportTickets.create({
         user_id: user.id,
         subject,
         message,
@@ -37,25 +36,7 @@ export const handleCreateSupportTicket: RequestHandler = async (req, res) => {
         priority
       });
 
-      if (error || !ticket) {
-        console.error('Error creating support ticket in Supabase:', error);
-        return res.status(500).json({
-          success: false,
-          message: 'Failed to create support ticket'
-        });
-      }
-
-      // Transform to expected API format
-      const supportTicket: SupportTicket = {
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at
-      };
+      const supportTicket = toApiSupportTicket(ticket);
 
       // Simulate auto-response for urgent tickets
       if (priority === 'urgent') {
@@ -63,22 +44,12 @@ export const handleCreateSupportTicket: RequestHandler = async (req, res) => {
       }
 
       res.status(201).json(supportTicket);
-    } catch (supabaseError) {
-      console.error('Supabase support ticket creation error:', supabaseError);
-      
-      // Fallback to in-memory storage if Supabase fails
-      const fallbackTicket: SupportTicket = {
-        id: `ticket_${Date.now()}`,
-        userId: user.id,
-        subject,
-        message,
-        status: 'open',
-        priority,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      res.status(201).json(fallbackTicket);
+    } catch (storeError) {
+      console.error('Support ticket creation error:', storeError);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create support ticket'
+      });
     }
   } catch (error) {
     console.error('Create support ticket error:', error);
@@ -86,34 +57,18 @@ export const handleCreateSupportTicket: RequestHandler = async (req, res) => {
   }
 };
 
-// Get user's support tickets from Supabase
+// Get user's support tickets
 export const handleGetUserSupportTickets: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     
     try {
-      const { data: tickets, error } = await supabaseServerHelpers.getUserSupportTickets(user.id);
-
-      if (error) {
-        console.error('Error fetching user support tickets:', error);
-        return res.json([]); // Return empty array as fallback
-      }
-
-      // Transform to expected API format
-      const supportTickets: SupportTicket[] = tickets.map(ticket => ({
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at
-      }));
+      const tickets = await getStoreForUser(user.id).supportTickets.listByUser(user.id);
+      const supportTickets: SupportTicket[] = tickets.map(toApiSupportTicket);
 
       res.json(supportTickets);
-    } catch (supabaseError) {
-      console.error('Supabase get user tickets error:', supabaseError);
+    } catch (storeError) {
+      console.error('Get user tickets error:', storeError);
       res.json([]); // Return empty array as fallback
     }
   } catch (error) {
@@ -122,42 +77,24 @@ export const handleGetUserSupportTickets: RequestHandler = async (req, res) => {
   }
 };
 
-// Get specific support ticket from Supabase
+// Get specific support ticket
 export const handleGetSupportTicket: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { ticketId } = req.params;
     
     try {
-      // For now, return from user tickets since we don't have a specific getSupportTicketById method
-      const { data: tickets, error } = await supabaseServerHelpers.getUserSupportTickets(user.id);
-
-      if (error) {
-        console.error('Error fetching support ticket:', error);
-        return res.status(404).json({ success: false, message: 'Support ticket not found' });
-      }
+      const ticket = await getStoreForUser(user.id).supportTickets.findById(ticketId);
 
-      const ticket = tickets.find(t => t.id === ticketId);
-      
-      if (!ticket) {
+      if (!ticket || ticket.user_id !== user.id) {
         return res.status(404).json({ success: false, message: 'Support ticket not found' });
       }
 
-      // Transform to expected API format
-      const supportTicket: SupportTicket = {
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at
-      };
+      const supportTicket = toApiSupportTicket(ticket);
 
       res.json(supportTicket);
-    } catch (supabaseError) {
-      console.error('Supabase get ticket error:', supabaseError);
+    } catch (storeError) {
+      console.error('Get ticket error:', storeError);
       res.status(404).json({ success: false, message: 'Support ticket not found' });
     }
   } catch (error) {
@@ -166,17 +103,9 @@ export const handleGetSupportTicket: RequestHandler = async (req, res) => {
   }
 };
 
-// Update support ticket status in Supabase (admin only)
+// Update support ticket status (admin only)
 export const handleUpdateSupportTicketStatus: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-    
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res.status(403).json({ success: false, message: 'Admin access required' });
-    }
-
     const { ticketId } = req.params;
     const { status, response } = req.body;
     
@@ -186,32 +115,21 @@ export const handleUpdateSupportTicketStatus: RequestHandler = async (req, res)
     }
 
     try {
-      const { data: ticket, error } = await supabaseServerHelpers.updateSupportTicketStatus(
-        ticketId,
+      const ticket = await getDataStore().supportTickets.update(ticketId, {
         status,
-        response
-      );
+        ...(response && { admin_response: response }),
+        ...(status === 'resolved' && { resolved_at: new Date().toISOString() })
+      });
 
-      if (error || !ticket) {
-        console.error('Error updating support ticket:', error);
+      if (!ticket) {
         return res.status(404).json({ success: false, message: 'Support ticket not found' });
       }
 
-      // Transform to expected API format
-      const supportTicket: SupportTicket = {
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at
-      };
+      const supportTicket = toApiSupportTicket(ticket);
 
       res.json({ success: true, ticket: supportTicket });
-    } catch (supabaseError) {
-      console.error('Supabase update ticket status error:', supabaseError);
+    } catch (storeError) {
+      console.error('Update ticket status error:', storeError);
       res.status(500).json({ success: false, message: 'Failed to update support ticket' });
     }
   } catch (error) {
@@ -220,52 +138,32 @@ export const handleUpdateSupportTicketStatus: RequestHandler = async (req, res)
   }
 };
 
-// Close support ticket in Supabase (user can close their own tickets)
+// Close support ticket (user can close their own tickets)
 export const handleCloseSupportTicket: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { ticketId } = req.params;
     
     try {
-      // First, verify the ticket belongs to the user by getting their tickets
-      const { data: tickets, error: fetchError } = await supabaseServerHelpers.getUserSupportTickets(user.id);
-      
-      if (fetchError) {
-        console.error('Error fetching user tickets:', fetchError);
-        return res.status(404).json({ success: false, message: 'Support ticket not found' });
-      }
+      const store = getStoreForUser(user.id);
 
-      const userTicket = tickets.find(t => t.id === ticketId);
-      if (!userTicket) {
+      // First, verify the ticket belongs to the user
+      const userTicket = await store.supportTickets.findById(ticketId);
+      if (!userTicket || userTicket.user_id !== user.id) {
         return res.status(404).json({ success: false, message: 'Support ticket not found' });
       }
 
-      // Update the ticket status to closed
-      const { data: ticket, error } = await supabaseServerHelpers.updateSupportTicketStatus(
-        ticketId,
-        'closed'
-      );
+      const ticket = await store.supportTickets.update(ticketId, { status: 'closed' });
 
-      if (error || !ticket) {
-        console.error('Error closing support ticket:', error);
+      if (!ticket) {
         return res.status(500).json({ success: false, message: 'Failed to close support ticket' });
       }
 
-      // Transform to expected API format
-      const supportTicket: SupportTicket = {
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at
-      };
+      const supportTicket = toApiSupportTicket(ticket);
 
       res.json({ success: true, ticket: supportTicket });
-    } catch (supabaseError) {
-      console.error('Supabase close ticket error:', supabaseError);
+    } catch (storeError) {
+      console.error('Close ticket error:', storeError);
       res.status(500).json({ success: false, message: 'Failed to close support ticket' });
     }
   } catch (error) {
@@ -274,35 +172,16 @@ export const handleCloseSupportTicket: RequestHandler = async (req, res) => {
   }
 };
 
-// Get all support tickets from Supabase (admin only)
+// Get all support tickets (admin only)
 export const handleGetAllSupportTickets: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-    
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res.status(403).json({ success: false, message: 'Admin access required' });
-    }
-
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const status = req.query.status as string;
     const priority = req.query.priority as string;
 
     try {
-      const { data: tickets, error } = await supabaseServerHelpers.getAllSupportTicketsAdmin();
-
-      if (error) {
-        console.error('Error fetching all support tickets:', error);
-        return res.json({
-          tickets: [],
-          total: 0,
-          page,
-          limit,
-          totalPages: 0
-        });
-      }
+      const tickets = await getDataStore().supportTickets.list();
 
       let filteredTickets = tickets;
       
@@ -329,14 +208,7 @@ export const handleGetAllSupportTickets: RequestHandler = async (req, res) => {
 
       // Transform to expected API format
       const supportTickets = paginatedTickets.map(ticket => ({
-        id: ticket.id,
-        userId: ticket.user_id,
-        subject: ticket.subject,
-        message: ticket.message,
-        status: ticket.status,
-        priority: ticket.priority,
-        createdAt: ticket.created_at,
-        updatedAt: ticket.updated_at,
+        ...toApiSupportTicket(ticket),
         // Include user info if available
         user: ticket.user ? {
           firstName: ticket.user.first_name,
@@ -352,8 +224,8 @@ export const handleGetAllSupportTickets: RequestHandler = async (req, res) => {
         limit,
         totalPages: Math.ceil(filteredTickets.length / limit)
       });
-    } catch (supabaseError) {
-      console.error('Supabase get all tickets error:', supabaseError);
+    } catch (storeError) {
+      console.error('Get all tickets error:', storeError);
       res.json({
         tickets: [],
         total: 0,
@@ -368,95 +240,59 @@ export const handleGetAllSupportTickets: RequestHandler = async (req, res) => {
   }
 };
 
-// Get support ticket statistics from Supabase (admin only)
+// Get support ticket statistics (admin only)
 export const handleGetSupportStats: RequestHandler = async (req, res) => {
   try {
-    const user = (req as any).user;
-    
-    // Check if user is admin
-    const isAdmin = await supabaseServerHelpers.isUserAdmin(user.id);
-    if (!isAdmin) {
-      return res.status(403).json({ success: false, message: 'Admin access required' });
-    }
-
-    try {
-      const { data: tickets, error } = await supabaseServerHelpers.getAllSupportTicketsAdmin();
-
-      if (error) {
-        console.error('Error fetching support tickets for stats:', error);
-        // Return empty stats as fallback
-        return res.json({
-          total: 0,
-          byStatus: {
-            open: 0,
-            in_progress: 0,
-            resolved: 0,
-            closed: 0
-          },
-          byPriority: {
-            urgent: 0,
-            high: 0,
-            activeHigh: 0
-          },
-          responseTime: {
-            average: '2.5 hours',
-            target: '4 hours'
-          }
-        });
+    const tickets = await getDataStore().supportTickets.list();
+
+    const totalTickets = tickets.length;
+    const openTickets = tickets.filter(t => t.status === 'open').length;
+    const inProgressTickets = tickets.filter(t => t.status === 'in_progress').length;
+    const resolvedTickets = tickets.filter(t => t.status === 'resolved').length;
+    const closedTickets = tickets.filter(t => t.status === 'closed').length;
+
+    const urgentTickets = tickets.filter(t => t.priority === 'urgent' && ['open', 'in_progress'].includes(t.status)).length;
+    const highPriorityTickets = tickets.filter(t => t.priority === 'high' && ['open', 'in_progress'].includes(t.status)).length;
+
+    const stats = {
+      total: totalTickets,
+      byStatus: {
+        open: openTickets,
+        in_progress: inProgressTickets,
+        resolved: resolvedTickets,
+        closed: closedTickets
+      },
+      byPriority: {
+        urgent: urgentTickets,
+        high: highPriorityTickets,
+        activeHigh: urgentTickets + highPriorityTickets
+      },
+      responseTime: {
+        average: '2.5 hours', // Would need to calculate from actual response times
+        target: '4 hours'
       }
-
-      const totalTickets = tickets.length;
-      const openTickets = tickets.filter(t => t.status === 'open').length;
-      const inProgressTickets = tickets.filter(t => t.status === 'in_progress').length;
-      const resolvedTickets = tickets.filter(t => t.status === 'resolved').length;
-      const closedTickets = tickets.filter(t => t.status === 'closed').length;
-
-      const urgentTickets = tickets.filter(t => t.priority === 'urgent' && ['open', 'in_progress'].includes(t.status)).length;
-      const highPriorityTickets = tickets.filter(t => t.priority === 'high' && ['open', 'in_progress'].includes(t.status)).length;
-
-      const stats = {
-        total: totalTickets,
-        byStatus: {
-          open: openTickets,
-          in_progress: inProgressTickets,
-          resolved: resolvedTickets,
-          closed: closedTickets
-        },
-        byPriority: {
-          urgent: urgentTickets,
-          high: highPriorityTickets,
-          activeHigh: urgentTickets + highPriorityTickets
-        },
-        responseTime: {
-          average: '2.5 hours', // Would need to calculate from actual response times
-          target: '4 hours'
-        }
-      };
-
-      res.json(stats);
-    } catch (supabaseError) {
-      console.error('Supabase support stats error:', supabaseError);
-      res.json({
-        total: 0,
-        byStatus: {
-          open: 0,
-          in_progress: 0,
-          resolved: 0,
-          closed: 0
-        },
-        byPriority: {
-          urgent: 0,
-          high: 0,
-          activeHigh: 0
-        },
-        responseTime: {
-          average: '2.5 hours',
-          target: '4 hours'
-        }
-      });
-    }
-  } catch (error) {
-    console.error('Get support stats error:', error);
-    res.status(500).json({ success: false, message: 'Internal server error' });
+    };
+
+    res.json(stats);
+  } catch (storeError) {
+    console.error('Support stats error:', storeError);
+    res.json({
+      total: 0,
+      byStatus: {
+        open: 0,
+        in_progress: 0,
+        resolved: 0,
+        closed: 0
+      },
+      byPriority: {
+        urgent: 0,
+        high: 0,
+        activeHigh: 0
+      },
+      responseTime: {
+        average: '2.5 hours',
+        target: '4 hours'
+      }
+    });
   }
 };
@@ -0,0 +1,126 @@
+import { RequestHandler, Response } from "express";
+import {
+  TwoFactorRecoveryCodesResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatusResponse,
+} from "@shared/api";
+import { z } from "zod";
+import { getRequestBrand } from "../lib/brandService";
+import TwoFactorService, { TwoFactorResult } from "../lib/twoFactorService";
+
+// Validation schemas
+const codeSchema = z.object({
+  code: z.string().min(1),
+});
+
+const codeOrRecoveryCodeSchema = z
+  .object({
+    code: z.string().min(1).optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode);
+
+const invalidCode = (res: Response) =>
+  res
+    .status(400)
+    .json({ success: false, message: "Please enter your authentication code" });
+
+const sendResult = (res: Response, result: TwoFactorResult) => {
+  const { status, ...body } = result;
+  const response: TwoFactorRecoveryCodesResponse = body;
+  res.status(result.success ? 200 : status || 400).json(response);
+};
+
+// The signed-in user's 2FA status
+export const handleGetTwoFactorStatus: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const response: TwoFactorStatusResponse = {
+      success: true,
+      twoFactor: await TwoFactorService.getStatus(user),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get two-factor status error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Start enrolling an authenticator app
+export const handleSetupTwoFactor: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const setup = await TwoFactorService.beginSetup(user, getRequestBrand(req));
+
+    if (!setup) {
+      const response: TwoFactorSetupResponse = {
+        success: false,
+        message: "Two-factor authentication is already enabled",
+      };
+      return res.status(409).json(response);
+    }
+
+    const response: TwoFactorSetupResponse = { success: true, ...setup };
+    res.json(response);
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Confirm the app with a code; responds with the recovery codes
+export const handleEnableTwoFactor: RequestHandler = async (req, res) => {
+  try {
+    const validation = codeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return invalidCode(res);
+    }
+
+    const user = (req as any).user;
+    sendResult(res, await TwoFactorService.enable(user, validation.data.code));
+  } catch (error) {
+    console.error("Enable two-factor error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+export const handleDisableTwoFactor: RequestHandler = async (req, res) => {
+  try {
+    const validation = codeOrRecoveryCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return invalidCode(res);
+    }
+
+    const user = (req as any).user;
+    sendResult(res, await TwoFactorService.disable(user, validation.data));
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
+
+// Replace the recovery codes; the old ones stop working
+export const handleRegenerateRecoveryCodes: RequestHandler = async (
+  req,
+  res,
+) => {
+  try {
+    const validation = codeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return invalidCode(res);
+    }
+
+    const user = (req as any).user;
+    sendResult(
+      res,
+      await TwoFactorService.regenerateRecoveryCodes(
+        user,
+        validation.data.code,
+      ),
+    );
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
@@ -1,9 +1,9 @@
 import { RequestHandler } from "express";
 import { UserDashboardData, Booking } from "@shared/api";
-import { supabaseServerHelpers } from "../lib/supabaseServer";
+import { isActiveBookingStatus } from "../../shared/bookingLifecycle";
+import { getStoreForUser, toApiBooking, toApiUser } from "../lib/storage";
 
 // Legacy functions for compatibility (will be deprecated)
-export const getAllBookings = () => [];
 export const addBooking = (booking: Booking) => {
   console.log("addBooking called but not implemented in database version");
 };
@@ -12,68 +12,19 @@ export const addBooking = (booking: Booking) => {
 export const handleGetDashboard: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
+    const store = getStoreForUser(user.id);
 
-    // Check if user ID is a valid UUID (Supabase) or fallback system
-    const isValidUUID =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        user.id,
-      );
-
-    let bookings = [];
+    let transformedBookings: Booking[] = [];
 
-    if (isValidUUID) {
-      try {
-        // Get user's bookings from Supabase
-        const { data: userBookings, error } =
-          await supabaseServerHelpers.getUserBookings(user.id);
-
-        if (error) {
-          console.error("Supabase error, falling back to mock data:", error);
-          bookings = [];
-        } else {
-          bookings = userBookings || [];
-        }
-      } catch (error) {
-        console.error("Supabase connection failed, using fallback:", error);
-        bookings = [];
-      }
-    } else {
-      // User is from fallback system, get bookings from in-memory storage
-      const { bookings: allBookings } = await import('./bookings');
-      bookings = allBookings.filter(booking => booking.userId === user.id);
+    try {
+      const userBookings = await store.bookings.listByUser(user.id);
+      transformedBookings = userBookings.map((booking) =>
+        toApiBooking(booking, []),
+      );
+    } catch (error) {
+      console.error("Failed to load bookings for dashboard:", error);
     }
 
-    // Transform Supabase data to match expected format
-    const transformedBookings: Booking[] = bookings.map((booking) => ({
-      id: booking.id,
-      userId: booking.user_id,
-      pnr: booking.pnr,
-      status: booking.status,
-      route: {
-        from: {
-          code: booking.from_airport_code,
-          name: booking.from_airport_name,
-          city: booking.from_airport_city,
-          country: booking.from_airport_country,
-        },
-        to: {
-          code: booking.to_airport_code,
-          name: booking.to_airport_name,
-          city: booking.to_airport_city,
-          country: booking.to_airport_country,
-        },
-        departureDate: booking.departure_date,
-        returnDate: booking.return_date,
-        tripType: booking.trip_type as "oneway" | "roundtrip",
-      },
-      passengers: [],
-      totalAmount: booking.total_amount,
-      currency: booking.currency || "USD",
-      createdAt: booking.created_at,
-      updatedAt: booking.updated_at,
-      ticketUrl: booking.ticket_url,
-    }));
-
     // Get recent bookings (last 5)
     const recentBookings = transformedBookings
       .sort(
@@ -87,7 +38,7 @@ export const handleGetDashboard: RequestHandler = async (req, res) => {
     const upcomingTrips = transformedBookings
       .filter(
         (booking) =>
-          booking.status === "confirmed" &&
+          isActiveBookingStatus(booking.status) &&
           new Date(booking.route.departureDate) > now,
       )
       .sort(
@@ -115,64 +66,12 @@ export const handleGetDashboard: RequestHandler = async (req, res) => {
 export const handleGetBookings: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
+    const store = getStoreForUser(user.id);
 
-    // Check if user ID is a valid UUID (Supabase) or fallback system
-    const isValidUUID =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        user.id,
-      );
-
-    let userBookings = [];
+    const userBookings = await store.bookings.listByUser(user.id);
 
-    if (isValidUUID) {
-      // Get user's bookings from Supabase
-      const { data: bookingsData, error } =
-        await supabaseServerHelpers.getUserBookings(user.id);
-
-      if (error) {
-        console.error("Error fetching user bookings:", error);
-        return res
-          .status(500)
-          .json({ success: false, message: "Failed to fetch bookings" });
-      }
-
-      userBookings = bookingsData || [];
-    } else {
-      // User is from fallback system, no bookings available
-      userBookings = [];
-    }
-
-    // Transform Supabase data to match expected format
     const transformedBookings: Booking[] = userBookings
-      .map((booking) => ({
-        id: booking.id,
-        userId: booking.user_id,
-        pnr: booking.pnr,
-        status: booking.status,
-        route: {
-          from: {
-            code: booking.from_airport_code,
-            name: booking.from_airport_name,
-            city: booking.from_airport_city,
-            country: booking.from_airport_country,
-          },
-          to: {
-            code: booking.to_airport_code,
-            name: booking.to_airport_name,
-            city: booking.to_airport_city,
-            country: booking.to_airport_country,
-          },
-          departureDate: booking.departure_date,
-          returnDate: booking.return_date,
-          tripType: booking.trip_type as "oneway" | "roundtrip",
-        },
-        passengers: [],
-        totalAmount: booking.total_amount,
-        currency: booking.currency || "USD",
-        createdAt: booking.created_at,
-        updatedAt: booking.updated_at,
-        ticketUrl: booking.ticket_url,
-      }))
+      .map((booking) => toApiBooking(booking, []))
       .sort(
         (a, b) =>
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
@@ -190,25 +89,11 @@ export const handleGetBooking: RequestHandler = async (req, res) => {
   try {
     const user = (req as any).user;
     const { bookingId } = req.params;
+    const store = getStoreForUser(user.id);
 
-    // Check if user ID is a valid UUID (Supabase) or fallback system
-    const isValidUUID =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        user.id,
-      );
-
-    if (!isValidUUID) {
-      // User is from fallback system, no bookings available
-      return res
-        .status(404)
-        .json({ success: false, message: "Booking not found" });
-    }
-
-    const { data: booking, error } =
-      await supabaseServerHelpers.getBookingById(bookingId);
+    const booking = await store.bookings.findById(bookingId);
 
-    if (error || !booking) {
-      console.error("Error fetching booking:", error);
+    if (!booking) {
       return res
         .status(404)
         .json({ success: false, message: "Booking not found" });
@@ -219,38 +104,9 @@ export const handleGetBooking: RequestHandler = async (req, res) => {
       return res.status(403).json({ success: false, message: "Access denied" });
     }
 
-    // Transform Supabase data to match expected format
-    const transformedBooking: Booking = {
-      id: booking.id,
-      userId: booking.user_id,
-      pnr: booking.pnr,
-      status: booking.status,
-      route: {
-        from: {
-          code: booking.from_airport?.code || "",
-          name: booking.from_airport?.name || "",
-          city: booking.from_airport?.city || "",
-          country: booking.from_airport?.country || "",
-        },
-        to: {
-          code: booking.to_airport?.code || "",
-          name: booking.to_airport?.name || "",
-          city: booking.to_airport?.city || "",
-          country: booking.to_airport?.country || "",
-        },
-        departureDate: booking.departure_date,
-        returnDate: booking.return_date,
-        tripType: booking.trip_type as "oneway" | "roundtrip",
-      },
-      passengers: booking.passengers || [],
-      totalAmount: booking.total_amount,
-      currency: booking.currency || "USD",
-      createdAt: booking.created_at,
-      updatedAt: booking.updated_at,
-      ticketUrl: booking.ticket_url,
-    };
+    const passengers = await store.passengers.listByBooking(booking.id);
 
-    res.json(transformedBooking);
+    res.json(toApiBooking(booking, passengers));
   } catch (error) {
     console.error("Get booking error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
@@ -270,44 +126,19 @@ export const handleUpdateProfile: RequestHandler = async (req, res) => {
         .json({ success: false, message: "Missing required fields" });
     }
 
-    // Check if user ID is a valid UUID (Supabase) or fallback system
-    const isValidUUID =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        user.id,
-      );
-
-    if (!isValidUUID) {
-      // User is from fallback system, profile updates not supported
-      return res
-        .status(400)
-        .json({
-          success: false,
-          message: "Profile updates not available in fallback mode",
-        });
-    }
-
-    // Update user in database
-    const { data: updatedUser, error } =
-      await supabaseServerHelpers.getUserById(user.id);
+    const updatedUser = await getStoreForUser(user.id).users.update(user.id, {
+      first_name: firstName,
+      last_name: lastName,
+      title,
+    });
 
-    if (error) {
-      console.error("Error updating user profile:", error);
+    if (!updatedUser) {
       return res
-        .status(500)
-        .json({ success: false, message: "Failed to update profile" });
+        .status(404)
+        .json({ success: false, message: "User not found" });
     }
 
-    const transformedUser = {
-      id: updatedUser.id,
-      email: updatedUser.email,
-      firstName: updatedUser.first_name,
-      lastName: updatedUser.last_name,
-      title: updatedUser.title,
-      createdAt: updatedUser.created_at,
-      updatedAt: updatedUser.updated_at,
-    };
-
-    res.json({ success: true, user: transformedUser });
+    res.json({ success: true, user: toApiUser(updatedUser) });
   } catch (error) {
     console.error("Update profile error:", error);
     res.status(500).json({ success: false, message: "Internal server error" });
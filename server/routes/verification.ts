@@ -0,0 +1,71 @@
+import { RequestHandler } from "express";
+import { BookingStatus, TicketVerificationResponse } from "@shared/api";
+import TicketGenerator from "../lib/ticketGenerator.js";
+import { getActiveDataStores, toApiBooking } from "../lib/storage";
+
+// A booking that was cancelled, refunded or expired revokes the verification
+// token printed on its ticket
+const REVOKED_STATUSES: BookingStatus[] = ["cancelled", "refunded", "expired"];
+
+const maskSurname = (surname: string) => {
+  const name = (surname || "").trim();
+  return name ? `${name[0].toUpperCase()}${"*".repeat(name.length - 1)}` : "";
+};
+
+// Confirm a ticket from the token in its QR code (public, used by visa
+// officers and hotels). Contact details are never included.
+export const handleVerifyTicket: RequestHandler = async (req, res) => {
+  try {
+    res.setHeader("Cache-Control", "no-store");
+
+    const bookingId = TicketGenerator.readVerificationToken(req.params.token);
+    if (!bookingId) {
+      const response: TicketVerificationResponse = {
+        success: false,
+        message: "This verification code is not valid",
+      };
+      return res.status(404).json(response);
+    }
+
+    for (const store of getActiveDataStores()) {
+      const booking = await store.bookings.findById(bookingId);
+      if (!booking) {
+        continue;
+      }
+
+      if (REVOKED_STATUSES.includes(booking.status)) {
+        const response: TicketVerificationResponse = {
+          success: false,
+          revoked: true,
+          message: "This booking has been cancelled and is no longer valid",
+        };
+        return res.status(410).json(response);
+      }
+
+      const passengers = await store.passengers.listByBooking(booking.id);
+      const response: TicketVerificationResponse = {
+        success: true,
+        verification: {
+          pnr: booking.pnr,
+          status: booking.status,
+          confirmed: ["paid", "ticketed"].includes(booking.status),
+          passengers: passengers.map((passenger) => ({
+            title: passenger.title,
+            surname: maskSurname(passenger.last_name),
+          })),
+          route: toApiBooking(booking, []).route,
+          bookedAt: booking.created_at,
+        },
+      };
+      return res.json(response);
+    }
+
+    res.status(404).json({
+      success: false,
+      message: "This verification code is not valid",
+    });
+  } catch (error) {
+    console.error("Verify ticket error:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
+  }
+};
@@ -0,0 +1,207 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { randomUUID } from "crypto";
+
+/**
+ * Minimal stand-in for the PayPal REST API, for tests and local webhook
+ * development. Point PAYPAL_API_BASE_URL at `baseUrl` and the app talks to
+ * it exactly like the sandbox.
+ *
+ * Webhook deliveries verify only when they carry MOCK_PAYPAL_SIGNATURE, see
+ * `webhookHeaders()`.
+ */
+
+export const MOCK_PAYPAL_SIGNATURE = "mock-paypal-transmission-signature";
+
+export interface MockPayPalServer {
+  baseUrl: string;
+  orders: Map<string, any>;
+  captures: Map<string, any>;
+  refunds: Map<string, any>;
+  /** Approve an order as if the buyer completed PayPal checkout */
+  approveOrder(orderId: string, payerId?: string): any;
+  /** Headers for a webhook delivery; `valid: false` fails verification */
+  webhookHeaders(options?: { valid?: boolean }): Record<string, string>;
+  close(): Promise<void>;
+}
+
+export async function startMockPayPalServer(): Promise<MockPayPalServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const orders = new Map<string, any>();
+  const captures = new Map<string, any>();
+  const refunds = new Map<string, any>();
+  // PayPal-Request-Id replay cache, as the real API does
+  const requests = new Map<string, any>();
+
+  let baseUrl = "";
+
+  const replay = (
+    req: express.Request,
+    res: express.Response,
+    create: () => any,
+  ) => {
+    const requestId = req.header("paypal-request-id");
+    if (requestId && requests.has(requestId)) {
+      return res.status(201).json(requests.get(requestId));
+    }
+    const body = create();
+    if (requestId) {
+      requests.set(requestId, body);
+    }
+    res.status(201).json(body);
+  };
+
+  app.use((req, res, next) => {
+    if (req.path === "/v1/oauth2/token") {
+      return next();
+    }
+    if (!req.header("authorization")?.startsWith("Bearer ")) {
+      return res.status(401).json({ name: "AUTHENTICATION_FAILURE" });
+    }
+    next();
+  });
+
+  app.post("/v1/oauth2/token", (req, res) => {
+    if (!req.header("authorization")?.startsWith("Basic ")) {
+      return res.status(401).json({ error: "invalid_client" });
+    }
+    res.json({
+      access_token: `mock_access_${randomUUID()}`,
+      token_type: "Bearer",
+      expires_in: 32400,
+    });
+  });
+
+  app.post("/v2/checkout/orders", (req, res) => {
+    const id = `MOCKORDER${randomUUID().replace(/-/g, "").slice(0, 12)}`;
+    const order = {
+      id,
+      intent: req.body.intent,
+      status: "CREATED",
+      purchase_units: req.body.purchase_units,
+      links: [
+        {
+          rel: "approve",
+          href: `${baseUrl}/checkoutnow?token=${id}`,
+          method: "GET",
+        },
+      ],
+    };
+    orders.set(id, order);
+    res.status(201).json(order);
+  });
+
+  app.get("/v2/checkout/orders/:orderId", (req, res) => {
+    const order = orders.get(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({ name: "RESOURCE_NOT_FOUND" });
+    }
+    res.json(order);
+  });
+
+  app.post("/v2/checkout/orders/:orderId/capture", (req, res) => {
+    const order = orders.get(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({ name: "RESOURCE_NOT_FOUND" });
+    }
+
+    replay(req, res, () => {
+      if (order.status !== "APPROVED") {
+        return order;
+      }
+
+      const unit = order.purchase_units[0];
+      const capture = {
+        id: `MOCKCAPTURE${randomUUID().replace(/-/g, "").slice(0, 10)}`,
+        status: "COMPLETED",
+        amount: unit.amount,
+        custom_id: unit.custom_id,
+        supplementary_data: { related_ids: { order_id: order.id } },
+      };
+      captures.set(capture.id, capture);
+
+      order.status = "COMPLETED";
+      unit.payments = { captures: [capture] };
+      return order;
+    });
+  });
+
+  app.get("/v2/payments/captures/:captureId", (req, res) => {
+    const capture = captures.get(req.params.captureId);
+    if (!capture) {
+      return res.status(404).json({ name: "RESOURCE_NOT_FOUND" });
+    }
+    res.json(capture);
+  });
+
+  app.post("/v2/payments/captures/:captureId/refund", (req, res) => {
+    const capture = captures.get(req.params.captureId);
+    if (!capture) {
+      return res.status(404).json({ name: "RESOURCE_NOT_FOUND" });
+    }
+
+    replay(req, res, () => {
+      const refund = {
+        id: `MOCKREFUND${randomUUID().replace(/-/g, "").slice(0, 10)}`,
+        status: "COMPLETED",
+        amount: req.body.amount || capture.amount,
+        note_to_payer: req.body.note_to_payer,
+        links: [
+          {
+            rel: "up",
+            href: `${baseUrl}/v2/payments/captures/${capture.id}`,
+            method: "GET",
+          },
+        ],
+      };
+      refunds.set(refund.id, refund);
+      return refund;
+    });
+  });
+
+  app.post("/v1/notifications/verify-webhook-signature", (req, res) => {
+    const valid =
+      req.body.transmission_sig === MOCK_PAYPAL_SIGNATURE &&
+      !!req.body.webhook_id &&
+      !!req.body.webhook_event;
+    res.json({ verification_status: valid ? "SUCCESS" : "FAILURE" });
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    orders,
+    captures,
+    refunds,
+    approveOrder(orderId, payerId = "MOCKPAYER") {
+      const order = orders.get(orderId);
+      if (!order) {
+        throw new Error(`Unknown mock PayPal order ${orderId}`);
+      }
+      order.status = "APPROVED";
+      order.payer = { payer_id: payerId };
+      return order;
+    },
+    webhookHeaders({ valid = true } = {}) {
+      return {
+        "paypal-auth-algo": "SHA256withRSA",
+        "paypal-cert-url": `${baseUrl}/v1/notifications/certs/mock`,
+        "paypal-transmission-id": randomUUID(),
+        "paypal-transmission-sig": valid ? MOCK_PAYPAL_SIGNATURE : "forged",
+        "paypal-transmission-time": new Date().toISOString(),
+      };
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
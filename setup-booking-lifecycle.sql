@@ -0,0 +1,48 @@
+-- Migration for the booking lifecycle
+-- Replaces the single "confirmed" status with paid/ticketed/refunded and adds
+-- the booking_events history table.
+
+-- 1. Widen the status constraint
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+UPDATE public.bookings SET status = 'ticketed' WHERE status = 'confirmed' AND ticket_url IS NOT NULL;
+UPDATE public.bookings SET status = 'paid' WHERE status = 'confirmed';
+ALTER TABLE public.bookings ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'paid', 'ticketed', 'cancelled', 'refunded', 'expired'));
+
+-- 2. Create the booking_events table
+CREATE TABLE IF NOT EXISTS public.booking_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor_type VARCHAR(20) CHECK (actor_type IN ('user', 'admin', 'system')) NOT NULL,
+    actor_id TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking_id ON public.booking_events(booking_id, created_at);
+
+-- 3. Row level security
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own booking events" ON public.booking_events;
+CREATE POLICY "Users can view own booking events" ON public.booking_events FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.bookings WHERE id = booking_id AND user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Admins can view all booking events" ON public.booking_events;
+CREATE POLICY "Admins can view all booking events" ON public.booking_events FOR ALL USING (public.is_admin());
+
+GRANT SELECT ON public.booking_events TO authenticated;
+
+-- 4. Revenue counts paid and ticketed bookings
+CREATE OR REPLACE VIEW public.admin_dashboard_stats AS
+SELECT 
+    (SELECT COUNT(*) FROM public.bookings) as total_bookings,
+    (SELECT COALESCE(SUM(total_amount), 0) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as total_revenue,
+    (SELECT COUNT(DISTINCT user_id) FROM public.bookings) as active_users,
+    (SELECT COUNT(*) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as confirmed_bookings,
+    (SELECT COUNT(*) FROM public.bookings WHERE status = 'pending') as pending_bookings,
+    (SELECT COUNT(*) FROM public.bookings WHERE status = 'cancelled') as cancelled_bookings,
+    (SELECT COALESCE(AVG(total_amount), 0) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as average_booking_value;
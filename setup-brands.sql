@@ -0,0 +1,6 @@
+-- Migration for white-label brands
+-- Partner brands are configured in BRANDS_FILE; each booking records the
+-- brand it was made under so its ticket and emails keep that branding.
+
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS brand_id VARCHAR(64);
+CREATE INDEX IF NOT EXISTS idx_bookings_brand_id ON public.bookings(brand_id);
@@ -0,0 +1,15 @@
+-- Migration for multi-currency pricing
+-- Stores the exchange rate (units per 1 USD) and per-passenger service fee
+-- for each payment currency. Currencies without a row use the defaults in
+-- server/lib/currencyService.ts.
+
+CREATE TABLE IF NOT EXISTS public.currency_rates (
+    currency VARCHAR(3) PRIMARY KEY,
+    rate DECIMAL(14,6) NOT NULL CHECK (rate > 0),
+    service_fee DECIMAL(12,2) NOT NULL CHECK (service_fee >= 0),
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: rates are served and updated through the API
+ALTER TABLE public.currency_rates ENABLE ROW LEVEL SECURITY;
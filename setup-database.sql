@@ -10,6 +10,8 @@ CREATE TABLE IF NOT EXISTS public.users (
     first_name VARCHAR(100) NOT NULL,
     last_name VARCHAR(100) NOT NULL,
     title VARCHAR(10) CHECK (title IN ('Mr', 'Ms', 'Mrs')) NOT NULL,
+    roles TEXT[] NOT NULL DEFAULT ARRAY['customer'] CHECK (roles <@ ARRAY['customer', 'support', 'finance', 'admin']),
+    email_verified_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -29,7 +31,7 @@ CREATE TABLE IF NOT EXISTS public.bookings (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     pnr VARCHAR(10) UNIQUE NOT NULL,
-    status VARCHAR(20) CHECK (status IN ('pending', 'confirmed', 'cancelled', 'expired')) DEFAULT 'pending',
+    status VARCHAR(20) CHECK (status IN ('pending', 'paid', 'ticketed', 'cancelled', 'refunded', 'expired')) DEFAULT 'pending',
     from_airport_id UUID REFERENCES public.airports(id),
     to_airport_id UUID REFERENCES public.airports(id),
     departure_date DATE NOT NULL,
@@ -41,6 +43,11 @@ CREATE TABLE IF NOT EXISTS public.bookings (
     terms_accepted BOOLEAN DEFAULT FALSE,
     selected_flight JSONB,
     ticket_url VARCHAR(500),
+    quote_id TEXT,
+    promo_code VARCHAR(32),
+    discount_amount DECIMAL(10,2) DEFAULT 0,
+    disputed BOOLEAN DEFAULT FALSE,
+    brand_id VARCHAR(64),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -53,6 +60,7 @@ CREATE TABLE IF NOT EXISTS public.passengers (
     first_name VARCHAR(100) NOT NULL,
     last_name VARCHAR(100) NOT NULL,
     email VARCHAR(255) NOT NULL,
+    seats JSONB DEFAULT '[]'::jsonb,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -63,11 +71,13 @@ CREATE TABLE IF NOT EXISTS public.transactions (
     user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     amount DECIMAL(10,2) NOT NULL,
     currency VARCHAR(3) DEFAULT 'USD',
-    status VARCHAR(20) CHECK (status IN ('pending', 'completed', 'failed', 'refunded')) DEFAULT 'pending',
+    status VARCHAR(20) CHECK (status IN ('pending', 'completed', 'failed', 'refunded', 'partially_refunded')) DEFAULT 'pending',
+    refunded_amount DECIMAL(10,2) DEFAULT 0,
     payment_method VARCHAR(20),
     payment_details JSONB,
     stripe_payment_intent_id VARCHAR(255),
     paypal_order_id VARCHAR(255),
+    promo_code VARCHAR(32),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -87,6 +97,144 @@ CREATE TABLE IF NOT EXISTS public.support_tickets (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create booking_events table (status history for the booking lifecycle)
+CREATE TABLE IF NOT EXISTS public.booking_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor_type VARCHAR(20) CHECK (actor_type IN ('user', 'admin', 'system')) NOT NULL,
+    actor_id TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create refunds table (one row per refund request sent to a payment provider)
+CREATE TABLE IF NOT EXISTS public.refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    provider VARCHAR(20) CHECK (provider IN ('stripe', 'paypal', 'manual')) NOT NULL,
+    provider_refund_id VARCHAR(255),
+    status VARCHAR(20) CHECK (status IN ('pending', 'succeeded', 'failed')) DEFAULT 'pending',
+    reason TEXT,
+    failure_reason TEXT,
+    idempotency_key VARCHAR(255) UNIQUE NOT NULL,
+    attempts INTEGER DEFAULT 1,
+    requested_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create disputes table (Stripe chargebacks)
+CREATE TABLE IF NOT EXISTS public.disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    stripe_dispute_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_charge_id VARCHAR(255),
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    reason VARCHAR(50) NOT NULL,
+    status VARCHAR(30) CHECK (status IN ('warning_needs_response', 'warning_under_review', 'warning_closed', 'needs_response', 'under_review', 'won', 'lost')) NOT NULL,
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    evidence_text TEXT,
+    evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create webhook_events table (provider events already handled, for idempotency)
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(20) CHECK (provider IN ('stripe', 'paypal')) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (provider, event_id)
+);
+
+-- Create currency_rates table (exchange rates and service fees per payment currency)
+CREATE TABLE IF NOT EXISTS public.currency_rates (
+    currency VARCHAR(3) PRIMARY KEY,
+    rate DECIMAL(14,6) NOT NULL CHECK (rate > 0),
+    service_fee DECIMAL(12,2) NOT NULL CHECK (service_fee >= 0),
+    updated_by TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create promo_codes table (discounts on the service fee)
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(32) UNIQUE NOT NULL,
+    description VARCHAR(200),
+    discount_type VARCHAR(20) CHECK (discount_type IN ('percentage', 'fixed')) NOT NULL,
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    max_redemptions INTEGER,
+    per_user_limit INTEGER,
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_until TIMESTAMP WITH TIME ZONE,
+    min_passengers INTEGER,
+    routes TEXT[],
+    active BOOLEAN DEFAULT TRUE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create promo_redemptions table (booking and user ids are TEXT: local
+-- fallback bookings redeem codes too)
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE CASCADE NOT NULL,
+    booking_id TEXT NOT NULL,
+    user_id TEXT,
+    email VARCHAR(255) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create auth_tokens table (email verification and other one-time tokens)
+CREATE TABLE IF NOT EXISTS public.auth_tokens (
+    token VARCHAR(128) PRIMARY KEY,
+    type VARCHAR(40) NOT NULL,
+    user_id TEXT,
+    email VARCHAR(255),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create auth_sessions table (signed-in devices and their refresh tokens)
+CREATE TABLE IF NOT EXISTS public.auth_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id TEXT NOT NULL,
+    refresh_token_hash VARCHAR(128) NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create auth_two_factor table (authenticator app enrolments)
+CREATE TABLE IF NOT EXISTS public.auth_two_factor (
+    user_id TEXT PRIMARY KEY,
+    secret VARCHAR(64) NOT NULL,
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    recovery_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+    last_used_step BIGINT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_bookings_user_id ON public.bookings(user_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_pnr ON public.bookings(pnr);
@@ -96,6 +244,16 @@ CREATE INDEX IF NOT EXISTS idx_transactions_booking_id ON public.transactions(bo
 CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON public.transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_support_tickets_user_id ON public.support_tickets(user_id);
 CREATE INDEX IF NOT EXISTS idx_airports_code ON public.airports(code);
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking_id ON public.booking_events(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_id ON public.refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_provider_refund_id ON public.refunds(provider_refund_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_code_id ON public.promo_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_booking_id ON public.promo_redemptions(booking_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_booking_id ON public.disputes(booking_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_stripe_payment_intent_id ON public.transactions(stripe_payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_email ON public.auth_tokens(type, email);
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_id ON public.auth_tokens(type, user_id);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON public.auth_sessions(user_id);
 
 -- Create booking summary view for admin dashboard
 CREATE OR REPLACE VIEW public.booking_summary AS
@@ -132,12 +290,12 @@ LEFT JOIN public.airports ta ON b.to_airport_id = ta.id;
 CREATE OR REPLACE VIEW public.admin_dashboard_stats AS
 SELECT 
     (SELECT COUNT(*) FROM public.bookings) as total_bookings,
-    (SELECT COALESCE(SUM(total_amount), 0) FROM public.bookings WHERE status = 'confirmed') as total_revenue,
+    (SELECT COALESCE(SUM(total_amount), 0) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as total_revenue,
     (SELECT COUNT(DISTINCT user_id) FROM public.bookings) as active_users,
-    (SELECT COUNT(*) FROM public.bookings WHERE status = 'confirmed') as confirmed_bookings,
+    (SELECT COUNT(*) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as confirmed_bookings,
     (SELECT COUNT(*) FROM public.bookings WHERE status = 'pending') as pending_bookings,
     (SELECT COUNT(*) FROM public.bookings WHERE status = 'cancelled') as cancelled_bookings,
-    (SELECT COALESCE(AVG(total_amount), 0) FROM public.bookings WHERE status = 'confirmed') as average_booking_value;
+    (SELECT COALESCE(AVG(total_amount), 0) FROM public.bookings WHERE status IN ('paid', 'ticketed')) as average_booking_value;
 
 -- Insert sample airports
 INSERT INTO public.airports (code, name, city, country) VALUES
@@ -164,22 +322,74 @@ INSERT INTO public.airports (code, name, city, country) VALUES
 ('RFD', 'Chicago Rockford International Airport', 'Chicago', 'United States')
 ON CONFLICT (code) DO NOTHING;
 
--- Create function to check if user is admin
-CREATE OR REPLACE FUNCTION public.is_admin()
+-- Create functions to check the current user's roles
+CREATE OR REPLACE FUNCTION public.has_role(required_role TEXT)
 RETURNS BOOLEAN
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 BEGIN
-    -- Check if the current user's email contains 'admin' or 'onboard@admin.com'
+    -- Admins pass every role check
     RETURN EXISTS (
-        SELECT 1 FROM public.users 
-        WHERE id = auth.uid() 
-        AND (email ILIKE '%admin%' OR email = 'onboard@admin.com')
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid()
+        AND (required_role = ANY(roles) OR 'admin' = ANY(roles))
     );
 END;
 $$;
 
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN public.has_role('admin');
+END;
+$$;
+
+-- Only admins (or the server, with the service role) can change roles
+CREATE OR REPLACE FUNCTION public.protect_user_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.role() = 'service_role' OR public.is_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.roles := ARRAY['customer'];
+    ELSIF NEW.roles IS DISTINCT FROM OLD.roles THEN
+        RAISE EXCEPTION 'Only admins can change user roles';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Only the server (with the service role) can mark an email verified
+CREATE OR REPLACE FUNCTION public.protect_email_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.email_verified_at := NULL;
+    ELSIF NEW.email_verified_at IS DISTINCT FROM OLD.email_verified_at THEN
+        RAISE EXCEPTION 'Email verification can only be changed by the server';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
 -- Create function to cleanup expired bookings
 CREATE OR REPLACE FUNCTION public.cleanup_expired_bookings()
 RETURNS INTEGER
@@ -212,12 +422,27 @@ $$ language 'plpgsql';
 DROP TRIGGER IF EXISTS update_users_updated_at ON public.users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
+DROP TRIGGER IF EXISTS protect_user_roles ON public.users;
+CREATE TRIGGER protect_user_roles BEFORE INSERT OR UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.protect_user_roles();
+
+DROP TRIGGER IF EXISTS protect_email_verification ON public.users;
+CREATE TRIGGER protect_email_verification BEFORE INSERT OR UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.protect_email_verification();
+
 DROP TRIGGER IF EXISTS update_bookings_updated_at ON public.bookings;
 CREATE TRIGGER update_bookings_updated_at BEFORE UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
 DROP TRIGGER IF EXISTS update_transactions_updated_at ON public.transactions;
 CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON public.transactions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_refunds_updated_at ON public.refunds;
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON public.refunds FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_disputes_updated_at ON public.disputes;
+CREATE TRIGGER update_disputes_updated_at BEFORE UPDATE ON public.disputes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON public.promo_codes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_support_tickets_updated_at ON public.support_tickets;
 CREATE TRIGGER update_support_tickets_updated_at BEFORE UPDATE ON public.support_tickets FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
@@ -227,6 +452,23 @@ ALTER TABLE public.bookings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.passengers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.support_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+-- webhook_events has no policies: only the service role may read or write it
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+-- promo_codes and promo_redemptions have no policies: codes are checked and
+-- managed through the API
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+-- currency_rates has no policies: rates are served and updated through the API
+ALTER TABLE public.currency_rates ENABLE ROW LEVEL SECURITY;
+-- auth_tokens has no policies: only the service role may read or write it
+ALTER TABLE public.auth_tokens ENABLE ROW LEVEL SECURITY;
+-- auth_sessions has no policies: only the service role may read or write it
+ALTER TABLE public.auth_sessions ENABLE ROW LEVEL SECURITY;
+-- auth_two_factor has no policies: only the service role may read or write it
+ALTER TABLE public.auth_two_factor ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Users can only see and edit their own data
@@ -238,6 +480,11 @@ CREATE POLICY "Users can view own bookings" ON public.bookings FOR SELECT USING
 CREATE POLICY "Users can create bookings" ON public.bookings FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY "Users can update own bookings" ON public.bookings FOR UPDATE USING (auth.uid() = user_id);
 
+-- Users can only see the history of their own bookings
+CREATE POLICY "Users can view own booking events" ON public.booking_events FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.bookings WHERE id = booking_id AND user_id = auth.uid())
+);
+
 -- Users can only see passengers for their own bookings
 CREATE POLICY "Users can view own booking passengers" ON public.passengers FOR SELECT USING (
     EXISTS (SELECT 1 FROM public.bookings WHERE id = booking_id AND user_id = auth.uid())
@@ -259,7 +506,10 @@ CREATE POLICY "Users can update own support tickets" ON public.support_tickets F
 CREATE POLICY "Admins can view all users" ON public.users FOR ALL USING (public.is_admin());
 CREATE POLICY "Admins can view all bookings" ON public.bookings FOR ALL USING (public.is_admin());
 CREATE POLICY "Admins can view all passengers" ON public.passengers FOR ALL USING (public.is_admin());
+CREATE POLICY "Admins can view all booking events" ON public.booking_events FOR ALL USING (public.is_admin());
 CREATE POLICY "Admins can view all transactions" ON public.transactions FOR ALL USING (public.is_admin());
+CREATE POLICY "Admins can manage refunds" ON public.refunds FOR ALL USING (public.is_admin());
+CREATE POLICY "Admins can manage disputes" ON public.disputes FOR ALL USING (public.is_admin());
 CREATE POLICY "Admins can view all support tickets" ON public.support_tickets FOR ALL USING (public.is_admin());
 
 -- Make airports table publicly readable
@@ -271,9 +521,15 @@ GRANT SELECT, INSERT, UPDATE ON public.users TO authenticated;
 GRANT SELECT, INSERT, UPDATE ON public.bookings TO authenticated;
 GRANT SELECT, INSERT, UPDATE ON public.passengers TO authenticated;
 GRANT SELECT, INSERT, UPDATE ON public.transactions TO authenticated;
+GRANT SELECT ON public.booking_events TO authenticated;
 GRANT SELECT, INSERT, UPDATE ON public.support_tickets TO authenticated;
 GRANT SELECT ON public.booking_summary TO authenticated;
 GRANT SELECT ON public.admin_dashboard_stats TO authenticated;
 
 -- Grant usage on sequences
 GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO authenticated;
+
+-- Private bucket for ticket PDFs; served through the API and signed URLs
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('tickets', 'tickets', false, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE SET public = false;
@@ -0,0 +1,36 @@
+-- Migration for Stripe disputes (chargebacks)
+-- Stores each dispute against its transaction and booking and flags the
+-- booking while the dispute is open or after it was lost.
+
+-- 1. Flag on bookings
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS disputed BOOLEAN DEFAULT FALSE;
+
+-- 2. Create the disputes table
+CREATE TABLE IF NOT EXISTS public.disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+    stripe_dispute_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_charge_id VARCHAR(255),
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    reason VARCHAR(50) NOT NULL,
+    status VARCHAR(30) CHECK (status IN ('warning_needs_response', 'warning_under_review', 'warning_closed', 'needs_response', 'under_review', 'won', 'lost')) NOT NULL,
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    evidence_text TEXT,
+    evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_booking_id ON public.disputes(booking_id);
+
+DROP TRIGGER IF EXISTS update_disputes_updated_at ON public.disputes;
+CREATE TRIGGER update_disputes_updated_at BEFORE UPDATE ON public.disputes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Row level security
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage disputes" ON public.disputes;
+CREATE POLICY "Admins can manage disputes" ON public.disputes FOR ALL USING (public.is_admin());
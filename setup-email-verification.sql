@@ -0,0 +1,36 @@
+-- Migration for email verification
+-- Verification links are stored in auth_tokens (type 'email_verification')
+-- and following one sets users.email_verified_at. Accounts created before
+-- this never received a working link, so they count as verified.
+
+-- 1. Verification timestamp
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.users
+SET email_verified_at = created_at
+WHERE email_verified_at IS NULL;
+
+-- 2. Only the server (with the service role) can mark an email verified;
+-- users may otherwise update their own profile row
+CREATE OR REPLACE FUNCTION public.protect_email_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.email_verified_at := NULL;
+    ELSIF NEW.email_verified_at IS DISTINCT FROM OLD.email_verified_at THEN
+        RAISE EXCEPTION 'Email verification can only be changed by the server';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_email_verification ON public.users;
+CREATE TRIGGER protect_email_verification BEFORE INSERT OR UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.protect_email_verification();
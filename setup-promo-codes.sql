@@ -0,0 +1,52 @@
+-- Migration for promo codes
+-- Promo codes discount the booking service fee. Each booking that applies a
+-- code records a redemption, which is released if the booking is cancelled
+-- or expires, and the applied code is kept on the booking and its payments.
+
+-- 1. Applied code on bookings and transactions
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS promo_code VARCHAR(32);
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS promo_code VARCHAR(32);
+
+-- 2. Create the promo_codes table
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(32) UNIQUE NOT NULL,
+    description VARCHAR(200),
+    discount_type VARCHAR(20) CHECK (discount_type IN ('percentage', 'fixed')) NOT NULL,
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    max_redemptions INTEGER,
+    per_user_limit INTEGER,
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_until TIMESTAMP WITH TIME ZONE,
+    min_passengers INTEGER,
+    routes TEXT[],
+    active BOOLEAN DEFAULT TRUE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON public.promo_codes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Create the promo_redemptions table. Booking and user ids are TEXT
+-- because bookings made by local fallback users redeem codes too.
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE CASCADE NOT NULL,
+    booking_id TEXT NOT NULL,
+    user_id TEXT,
+    email VARCHAR(255) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_code_id ON public.promo_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_booking_id ON public.promo_redemptions(booking_id);
+
+-- 4. Row level security. No policies: codes are checked and managed
+-- through the API.
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,5 @@
+-- Migration for server-side price quotes
+-- Bookings record the signed quote their total was charged from, so payment
+-- requests can be checked against it.
+
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS quote_id TEXT;
@@ -0,0 +1,41 @@
+-- Migration for provider refunds
+-- Tracks partial refunds on transactions and records every refund request
+-- sent to Stripe or PayPal together with its idempotency key.
+
+-- 1. Partial refunds on transactions
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'refunded', 'partially_refunded'));
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) DEFAULT 0;
+UPDATE public.transactions SET refunded_amount = amount WHERE status = 'refunded';
+
+-- 2. Create the refunds table
+CREATE TABLE IF NOT EXISTS public.refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    provider VARCHAR(20) CHECK (provider IN ('stripe', 'paypal', 'manual')) NOT NULL,
+    provider_refund_id VARCHAR(255),
+    status VARCHAR(20) CHECK (status IN ('pending', 'succeeded', 'failed')) DEFAULT 'pending',
+    reason TEXT,
+    failure_reason TEXT,
+    idempotency_key VARCHAR(255) UNIQUE NOT NULL,
+    attempts INTEGER DEFAULT 1,
+    requested_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_id ON public.refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_provider_refund_id ON public.refunds(provider_refund_id);
+
+DROP TRIGGER IF EXISTS update_refunds_updated_at ON public.refunds;
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON public.refunds FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Row level security (refunds are written by the server with the service role)
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage refunds" ON public.refunds;
+CREATE POLICY "Admins can manage refunds" ON public.refunds FOR ALL USING (public.is_admin());
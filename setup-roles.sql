@@ -0,0 +1,68 @@
+-- Migration for role-based access control
+-- Replaces the email-based admin check with roles stored on each user.
+-- Roles: customer (everyone), support, finance and admin. The API also
+-- copies them into the Supabase Auth app_metadata, so access tokens carry
+-- them; the users table stays the source of truth.
+
+-- 1. Roles column
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS roles TEXT[] NOT NULL DEFAULT ARRAY['customer'];
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_roles_check;
+ALTER TABLE public.users ADD CONSTRAINT users_roles_check
+    CHECK (roles <@ ARRAY['customer', 'support', 'finance', 'admin']);
+
+-- 2. Keep the default admin an admin (it used to be recognised by email)
+UPDATE public.users
+SET roles = ARRAY['customer', 'admin']
+WHERE email = 'onboard@admin.com' AND NOT ('admin' = ANY(roles));
+
+-- 3. Role checks for policies
+CREATE OR REPLACE FUNCTION public.has_role(required_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    -- Admins pass every role check
+    RETURN EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid()
+        AND (required_role = ANY(roles) OR 'admin' = ANY(roles))
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN public.has_role('admin');
+END;
+$$;
+
+-- 4. Only admins (or the server, with the service role) can change roles;
+-- users may otherwise update their own profile row
+CREATE OR REPLACE FUNCTION public.protect_user_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF auth.role() = 'service_role' OR public.is_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.roles := ARRAY['customer'];
+    ELSIF NEW.roles IS DISTINCT FROM OLD.roles THEN
+        RAISE EXCEPTION 'Only admins can change user roles';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_roles ON public.users;
+CREATE TRIGGER protect_user_roles BEFORE INSERT OR UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.protect_user_roles();
@@ -0,0 +1,5 @@
+-- Migration for seat selection
+-- Each passenger records the seat picked on every flight of the booking,
+-- as [{"segmentId": "1", "seatNumber": "12A"}].
+
+ALTER TABLE public.passengers ADD COLUMN IF NOT EXISTS seats JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,25 @@
+-- Migration for sign-in sessions
+-- Each signed-in device gets a session holding a hash of its current
+-- refresh token. Refreshing rotates the token; logging out revokes the
+-- session. Replaces the opaque "auth" tokens kept in auth_tokens.
+
+-- 1. Create the sessions table
+CREATE TABLE IF NOT EXISTS public.auth_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id TEXT NOT NULL,
+    refresh_token_hash VARCHAR(128) NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON public.auth_sessions(user_id);
+
+-- auth_sessions has no policies: only the service role may read or write it
+ALTER TABLE public.auth_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Old opaque auth tokens are no longer accepted
+DELETE FROM public.auth_tokens WHERE type = 'auth';
@@ -0,0 +1,13 @@
+-- Migration for private ticket storage
+-- Ticket PDFs move out of public/tickets into a private Supabase Storage
+-- bucket. The server uploads with the service role key and hands out
+-- short-lived signed URLs, so the bucket has no public access and no
+-- storage policies. Set TICKET_STORAGE_BUCKET if you use another name.
+
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('tickets', 'tickets', false, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Existing bookings keep "/tickets/<PNR>.pdf" in ticket_url; the server
+-- resolves it to the "<PNR>.pdf" object, so copy old files into the bucket
+-- (or clear ticket_url to have them regenerated on the next payment).
@@ -0,0 +1,19 @@
+-- Migration for two-factor authentication
+-- Users can enrol an authenticator app (TOTP). Sign-ins of enrolled users
+-- need a code from the app or one of their single-use recovery codes.
+
+-- 1. Create the enrolment table
+CREATE TABLE IF NOT EXISTS public.auth_two_factor (
+    user_id TEXT PRIMARY KEY,
+    secret VARCHAR(64) NOT NULL,
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    recovery_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+    last_used_step BIGINT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- auth_two_factor has no policies: only the service role may read or write it
+ALTER TABLE public.auth_two_factor ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,17 @@
+-- Migration for payment provider webhooks
+-- Records processed webhook events so redelivered events are ignored, and
+-- indexes the payment intent column the Stripe webhook looks bookings up by.
+
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(20) CHECK (provider IN ('stripe', 'paypal')) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_stripe_payment_intent_id ON public.transactions(stripe_payment_intent_id);
+
+-- No policies: only the service role may read or write webhook events
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
@@ -4,6 +4,8 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type { CurrencyRate } from "./currency";
+
 /**
  * Example response type for /api/demo
  */
@@ -14,12 +16,17 @@ export interface DemoResponse {
 /**
  * Authentication and User Management Types
  */
+export type UserRole = "customer" | "support" | "finance" | "admin";
+
 export interface User {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
   title: "Mr" | "Ms" | "Mrs";
+  roles: UserRole[];
+  // Null until the user confirms their email address
+  emailVerifiedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,7 +34,97 @@ export interface User {
 export interface AuthResponse {
   success: boolean;
   user?: User;
+  // Short-lived access token, sent as the Bearer token
   token?: string;
+  // Exchanged for new tokens at POST /api/auth/refresh; single use
+  refreshToken?: string;
+  // When the access token expires
+  expiresAt?: string;
+  message?: string;
+  // Set instead of tokens when the password checked out but a 2FA code is
+  // still needed; pass challengeToken to POST /api/auth/2fa/challenge
+  twoFactorRequired?: boolean;
+  // The account must enrol 2FA before it can sign in
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+  // Issued when 2FA was enrolled as part of signing in; shown once
+  recoveryCodes?: string[];
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  // End every session of the user, not just this one
+  allDevices?: boolean;
+}
+
+// A device the user is signed in on
+export interface AuthSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+export interface AuthSessionsResponse {
+  success: boolean;
+  sessions?: AuthSession[];
+  message?: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  // From the reset link emailed by POST /api/auth/password/forgot
+  token: string;
+  password: string;
+}
+
+// A code from the authenticator app, or one of the recovery codes
+export interface TwoFactorCodeRequest {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorChallengeRequest extends TwoFactorCodeRequest {
+  // From the login response
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  // 2FA can't be turned off for this account
+  required: boolean;
+}
+
+export interface TwoFactorStatusResponse {
+  success: boolean;
+  twoFactor?: TwoFactorStatus;
+  message?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  success: boolean;
+  // Base32 secret, for entering by hand
+  secret?: string;
+  // otpauth:// URI, shown as a QR code
+  otpauthUrl?: string;
+  message?: string;
+}
+
+export interface TwoFactorRecoveryCodesResponse {
+  success: boolean;
+  recoveryCodes?: string[];
   message?: string;
 }
 
@@ -68,6 +165,8 @@ export interface Passenger {
   firstName: string;
   lastName: string;
   email: string;
+  // Seats chosen for this passenger, one per flight
+  seats?: SeatAssignment[];
 }
 
 export interface BookingRequest {
@@ -76,15 +175,162 @@ export interface BookingRequest {
   contactEmail: string;
   termsAccepted: boolean;
   selectedFlight?: FlightOffer | null;
-  totalAmount?: number;
+  // Signed quote from POST /api/quotes; the server charges its total
+  quoteId: string;
   guestCheckout?: boolean;
 }
 
+/**
+ * Quote Types
+ */
+export interface QuoteRequest {
+  route: {
+    from: { code: string };
+    to: { code: string };
+    departureDate: string;
+    returnDate?: string;
+    tripType: "oneway" | "roundtrip";
+  };
+  passengerCount: number;
+  selectedFlight?: FlightOffer | null;
+  // Currency to charge in; defaults to USD
+  currency?: string;
+  promoCode?: string;
+  // Seats picked from the seat maps; their fees are added to the total
+  seats?: SeatSelection[];
+}
+
+export interface Quote {
+  // Signed token; pass it back unchanged when booking and paying
+  id: string;
+  route: {
+    fromCode: string;
+    toCode: string;
+    departureDate: string;
+    returnDate: string | null;
+    tripType: "oneway" | "roundtrip";
+  };
+  passengerCount: number;
+  flightOfferId: string | null;
+  // Fingerprint of the offer priced; bookings must send the same offer
+  flightOfferHash: string | null;
+  currency: string;
+  serviceFee: number;
+  fare: number;
+  taxes: number;
+  // Promo discount, taken off the service fee
+  discount: number;
+  promoCode: string | null;
+  seatFees: number;
+  seats: QuotedSeat[];
+  total: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface QuoteResponse {
+  success: boolean;
+  quote?: Quote;
+  message?: string;
+}
+
+/**
+ * Seat Map Types
+ */
+export interface Seat {
+  // e.g. "12A"
+  number: string;
+  cabin: string;
+  row: number;
+  column: string;
+  // Position on the deck grid: x across the cabin, y from front to back
+  x: number;
+  y: number;
+  available: boolean;
+  // Seat fee in the seat map's currency; 0 when free
+  price: number;
+  // Amadeus seat characteristic codes, e.g. "W" window, "A" aisle, "E" exit
+  characteristics: string[];
+}
+
+export interface SeatMapDeck {
+  deckType: string;
+  // Deck grid size, in seats
+  width: number;
+  length: number;
+  seats: Seat[];
+}
+
+export interface SeatMap {
+  // Segment of the selected flight offer, or its position on the route
+  segmentId: string;
+  carrierCode?: string;
+  flightNumber?: string;
+  fromCode: string;
+  toCode: string;
+  departureAt: string;
+  aircraft?: string;
+  currency: string;
+  decks: SeatMapDeck[];
+}
+
+export interface SeatMapRequest {
+  route: QuoteRequest["route"];
+  selectedFlight?: FlightOffer | null;
+}
+
+export interface SeatMapResponse {
+  success: boolean;
+  seatMaps?: SeatMap[];
+  message?: string;
+}
+
+export interface SeatSelection {
+  segmentId: string;
+  // Position of the passenger in the booking
+  passengerIndex: number;
+  seatNumber: string;
+}
+
+export interface QuotedSeat extends SeatSelection {
+  // Seat fee in the quote's currency
+  price: number;
+}
+
+export interface SeatAssignment {
+  segmentId: string;
+  seatNumber: string;
+}
+
+/**
+ * Currency Types
+ */
+export interface CurrencyRatesResponse {
+  success: boolean;
+  baseCurrency?: string;
+  rates?: CurrencyRate[];
+  message?: string;
+}
+
+export interface CurrencyRateResponse {
+  success: boolean;
+  rate?: CurrencyRate;
+  message?: string;
+}
+
+export type BookingStatus =
+  | "pending"
+  | "paid"
+  | "ticketed"
+  | "cancelled"
+  | "refunded"
+  | "expired";
+
 export interface Booking {
   id: string;
   userId: string | null;
   pnr: string;
-  status: "pending" | "confirmed" | "cancelled" | "expired";
+  status: BookingStatus;
   route: FlightRoute;
   passengers: Passenger[];
   totalAmount: number;
@@ -92,9 +338,28 @@ export interface Booking {
   createdAt: string;
   updatedAt: string;
   ticketUrl?: string;
+  // Apple / Google Wallet links for the boarding passes, see WalletLinksResponse
+  walletUrl?: string;
+  // iCalendar (.ics) file with the booking's flights
+  calendarUrl?: string;
   selectedFlight?: FlightOffer | null;
   basePrice?: number;
+  quoteId?: string;
+  promoCode?: string;
+  discountAmount?: number;
   isGuest?: boolean;
+  // Set while a chargeback is open or after it was lost
+  disputed?: boolean;
+  // Barcodes printed on the ticket, once it has been issued
+  boardingPasses?: BoardingPass[];
+}
+
+export interface BoardingPass {
+  passengerName: string;
+  itinerary: string;
+  format: "pdf417" | "qr";
+  // IATA Bar Coded Boarding Pass payload, see shared/bcbp.ts
+  bcbp: string;
 }
 
 export interface BookingResponse {
@@ -103,6 +368,75 @@ export interface BookingResponse {
   message?: string;
 }
 
+export interface BookingEvent {
+  id: string;
+  bookingId: string;
+  fromStatus: BookingStatus | null;
+  toStatus: BookingStatus;
+  actorType: "user" | "admin" | "system";
+  actorId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface BookingHistoryResponse {
+  success: boolean;
+  status?: BookingStatus;
+  allowedTransitions?: BookingStatus[];
+  events?: BookingEvent[];
+  message?: string;
+}
+
+export interface TicketLinkResponse {
+  success: boolean;
+  // Short-lived URL the ticket PDF can be downloaded from
+  url?: string;
+  expiresAt?: string;
+  message?: string;
+}
+
+// Wallet links for one boarding pass, in the same order as boardingPasses
+export interface WalletPassLinks {
+  passengerName: string;
+  itinerary: string;
+  // Short-lived .pkpass download; absent when Apple Wallet is not set up
+  appleWalletUrl?: string;
+  // "Save to Google Wallet" link; absent when Google Wallet is not set up
+  googleWalletUrl?: string;
+}
+
+export interface WalletLinksResponse {
+  success: boolean;
+  passes?: WalletPassLinks[];
+  message?: string;
+}
+
+export interface CalendarFeedResponse {
+  success: boolean;
+  // Secret iCalendar feed URL with the flights of all the user's bookings
+  url?: string;
+  message?: string;
+}
+
+export interface TicketVerification {
+  pnr: string;
+  status: BookingStatus;
+  // True while the booking is paid or ticketed
+  confirmed: boolean;
+  // Surnames are masked, e.g. "L*******"
+  passengers: Array<{ title: string; surname: string }>;
+  route: FlightRoute;
+  bookedAt: string;
+}
+
+export interface TicketVerificationResponse {
+  success: boolean;
+  verification?: TicketVerification;
+  // Set when the booking was cancelled after the ticket was issued
+  revoked?: boolean;
+  message?: string;
+}
+
 /**
  * Payment Types
  */
@@ -128,6 +462,171 @@ export interface PaymentResponse {
   message?: string;
 }
 
+export interface RefundRequest {
+  // Omit to refund the remaining balance
+  amount?: number;
+  reason?: string;
+  idempotencyKey?: string;
+}
+
+export interface Refund {
+  id: string;
+  transactionId: string;
+  bookingId: string;
+  amount: number;
+  currency: string;
+  provider: "stripe" | "paypal" | "manual";
+  providerRefundId: string | null;
+  status: "pending" | "succeeded" | "failed";
+  reason: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RefundResponse {
+  success: boolean;
+  refund?: Refund;
+  transaction?: {
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+    refundedAmount: number;
+  };
+  message?: string;
+}
+
+// Mirrors Stripe's dispute statuses
+export type DisputeStatus =
+  | "warning_needs_response"
+  | "warning_under_review"
+  | "warning_closed"
+  | "needs_response"
+  | "under_review"
+  | "won"
+  | "lost";
+
+export interface Dispute {
+  id: string;
+  transactionId: string | null;
+  bookingId: string | null;
+  bookingPnr?: string;
+  stripeDisputeId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: DisputeStatus;
+  evidenceDueBy: string | null;
+  evidenceText: string | null;
+  evidenceSubmittedAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DisputeEvidenceRequest {
+  evidenceText: string;
+  // Save as a draft unless true; submitting is final on Stripe's side
+  submit?: boolean;
+}
+
+export interface DisputeResponse {
+  success: boolean;
+  dispute?: Dispute;
+  message?: string;
+}
+
+/**
+ * Promo Code Types
+ */
+export type PromoDiscountType = "percentage" | "fixed";
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  // Percent off, or a USD amount converted to the booking currency
+  discountValue: number;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  minPassengers: number | null;
+  // "FROM-TO" airport pairs the code is limited to
+  routes: string[] | null;
+  active: boolean;
+  redemptionCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PromoCodeInput = Omit<
+  PromoCode,
+  "id" | "redemptionCount" | "createdAt" | "updatedAt"
+>;
+
+export interface PromoValidateRequest {
+  code: string;
+  route: { from: { code: string }; to: { code: string } };
+  passengerCount: number;
+  currency?: string;
+  contactEmail?: string;
+}
+
+export interface PromoValidateResponse {
+  success: boolean;
+  valid?: boolean;
+  code?: string;
+  description?: string | null;
+  // Discount off the service fee for this booking, in `currency`
+  discount?: number;
+  currency?: string;
+  message?: string;
+}
+
+export interface PromoCodesResponse {
+  success: boolean;
+  promoCodes?: PromoCode[];
+  message?: string;
+}
+
+export interface PromoCodeResponse {
+  success: boolean;
+  promoCode?: PromoCode;
+  message?: string;
+}
+
+/**
+ * Branding Types
+ * Partners resell under their own brand, selected by domain or API key
+ */
+export interface BrandColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+  // Buttons and the header on the website
+  dark: string;
+}
+
+export interface Brand {
+  id: string;
+  name: string;
+  logoUrl: string;
+  colors: BrandColors;
+  legalFooter: string;
+  supportEmail: string;
+  supportPhone?: string;
+  websiteUrl: string;
+}
+
+export interface BrandResponse {
+  success: boolean;
+  brand?: Brand;
+  message?: string;
+}
+
 /**
  * Support and Communication Types
  */
@@ -171,7 +670,8 @@ export interface UserDashboardData {
 }
 
 /**
- * Amadeus Flight Search Types
+ * Flight Search Types (in the Amadeus flight offer format, whichever
+ * provider the offers come from)
  */
 export interface FlightSearchRequest {
   originLocationCode: string;
@@ -189,6 +689,11 @@ export interface FlightSearchRequest {
 export interface FlightOffer {
   id: string;
   source: string;
+  // Flight provider the offer came from (e.g. "amadeus", "mock"); offer
+  // IDs are only unique per provider
+  provider?: string;
+  // Set by the server on search results; only signed offers can be quoted
+  signature?: string;
   instantTicketingRequired: boolean;
   nonHomogeneous: boolean;
   oneWay: boolean;
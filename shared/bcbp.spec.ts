@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  BcbpData,
+  compartmentForCabin,
+  decodeBcbp,
+  encodeBcbp,
+  formatBcbpName,
+  toBcbpIssueDate,
+  toJulianDate,
+} from "./bcbp";
+
+// Mandatory-items example from IATA Resolution 792
+const iataExample =
+  "M1DESMARAIS/LUC       EABC123 YULFRAAC 0834 326J001A0025 100";
+
+const journey: BcbpData = {
+  passengerName: "LOVELACE/ADA MS",
+  electronicTicket: true,
+  legs: [
+    {
+      pnr: "ABC123",
+      fromCode: "LOS",
+      toCode: "MAD",
+      carrier: "BA",
+      flightNumber: "101",
+      julianDate: 121,
+      compartment: "Y",
+      seat: "12C",
+      sequenceNumber: 1,
+      passengerStatus: "0",
+    },
+    {
+      pnr: "ABC123",
+      fromCode: "MAD",
+      toCode: "LHR",
+      carrier: "IB",
+      flightNumber: "3166A",
+      julianDate: 122,
+      compartment: "W",
+      seat: "",
+      sequenceNumber: 1,
+      passengerStatus: "0",
+    },
+  ],
+  version: 6,
+  passengerDescription: "0",
+  checkInSource: "W",
+  issuanceSource: "W",
+  issueDate: "0091",
+  documentType: "B",
+  issuer: "BA",
+};
+
+describe("bcbp", () => {
+  it("should decode the IATA example", () => {
+    expect(decodeBcbp(iataExample)).toEqual({
+      passengerName: "DESMARAIS/LUC",
+      electronicTicket: true,
+      legs: [
+        {
+          pnr: "ABC123",
+          fromCode: "YUL",
+          toCode: "FRA",
+          carrier: "AC",
+          flightNumber: "834",
+          julianDate: 326,
+          compartment: "J",
+          seat: "1A",
+          sequenceNumber: 25,
+          passengerStatus: "1",
+        },
+      ],
+    });
+  });
+
+  it("should encode mandatory fields in the IATA layout", () => {
+    expect(encodeBcbp(decodeBcbp(iataExample))).toBe(iataExample);
+  });
+
+  it("should round-trip multi-leg passes with the conditional section", () => {
+    const encoded = encodeBcbp(journey);
+
+    expect(
+      encoded.startsWith(
+        "M2LOVELACE/ADA MS     EABC123 LOSMADBA 0101 121Y012C0001 011>60B",
+      ),
+    ).toBe(true);
+    expect(decodeBcbp(encoded)).toEqual(journey);
+  });
+
+  it("should reject strings that are not boarding passes", () => {
+    expect(() => decodeBcbp("https://example.com")).toThrow("Invalid BCBP");
+    expect(() => decodeBcbp(iataExample.slice(0, 40))).toThrow(
+      "data ends early",
+    );
+    expect(() => encodeBcbp({ ...journey, legs: [] })).toThrow();
+  });
+
+  it("should format names, cabins and dates", () => {
+    expect(formatBcbpName("Zoë", "Núñez-Smith", "Ms")).toBe(
+      "NUNEZ-SMITH/ZOE MS",
+    );
+    expect(formatBcbpName("Bartholomew", "Featherstonehaugh")).toHaveLength(20);
+    expect(compartmentForCabin("BUSINESS")).toBe("J");
+    expect(compartmentForCabin(undefined)).toBe("Y");
+    expect(toJulianDate("2030-02-01T08:00:00")).toBe(32);
+    expect(toJulianDate("2028-12-31")).toBe(366);
+    expect(toBcbpIssueDate("2026-10-19T12:00:00Z")).toBe("6292");
+  });
+});
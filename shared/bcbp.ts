@@ -0,0 +1,246 @@
+/**
+ * IATA Bar Coded Boarding Pass (Resolution 792, version 6)
+ * A BCBP string holds the mandatory passenger and per-flight fields, plus an
+ * optional "conditional" section describing how the pass was issued. The same
+ * string is printed as a PDF417 or QR code on the ticket and shown on screen.
+ */
+
+export const BCBP_VERSION = 6;
+export const BCBP_MAX_LEGS = 4;
+
+export type BcbpBarcodeFormat = "pdf417" | "qr";
+
+export interface BcbpLeg {
+  pnr: string;
+  fromCode: string;
+  toCode: string;
+  // Two or three character airline designator
+  carrier: string;
+  // Up to four digits with an optional letter suffix, e.g. "834" or "12A"
+  flightNumber: string;
+  // Day of the year of the flight, 1-366
+  julianDate: number;
+  // Compartment code, e.g. "Y" for economy
+  compartment: string;
+  // e.g. "12C"; empty until a seat is assigned
+  seat: string;
+  sequenceNumber?: number;
+  // "0": ticket issued, passenger not checked in
+  passengerStatus: string;
+}
+
+export interface BcbpData {
+  // "SURNAME/GIVEN NAMES", see formatBcbpName
+  passengerName: string;
+  electronicTicket: boolean;
+  legs: BcbpLeg[];
+  // Conditional fields, only encoded when at least one is set
+  version?: number;
+  passengerDescription?: string;
+  checkInSource?: string;
+  issuanceSource?: string;
+  // Last digit of the year followed by the Julian date, e.g. "6292"
+  issueDate?: string;
+  documentType?: string;
+  issuer?: string;
+}
+
+const CABIN_COMPARTMENTS: Record<string, string> = {
+  FIRST: "F",
+  BUSINESS: "J",
+  PREMIUM_ECONOMY: "W",
+  ECONOMY: "Y",
+};
+
+const toAscii = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 /-]/g, "");
+
+const fixed = (value: string | undefined, length: number) =>
+  (value || "").slice(0, length).padEnd(length, " ");
+
+const hex = (length: number) =>
+  length.toString(16).toUpperCase().padStart(2, "0");
+
+const optional = (value: string) => value.trim() || undefined;
+
+const withoutLeadingZeros = (value: string) =>
+  value.trim().replace(/^0+(?=\d)/, "");
+
+/**
+ * Passenger name as printed in the barcode: "LOVELACE/ADA MS", ASCII
+ * upper case and cut to the 20 characters the format allows
+ */
+export const formatBcbpName = (
+  firstName: string,
+  lastName: string,
+  title?: string,
+): string =>
+  toAscii(
+    `${lastName.trim()}/${[firstName.trim(), title?.trim()].filter(Boolean).join(" ")}`,
+  ).slice(0, 20);
+
+export const compartmentForCabin = (cabin?: string): string =>
+  CABIN_COMPARTMENTS[cabin?.toUpperCase() || ""] || "Y";
+
+/**
+ * Day of the year for the date part of an ISO date, e.g. "2030-02-01" -> 32
+ */
+export const toJulianDate = (date: string): number => {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Math.round(
+    (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / 86400000 + 1,
+  );
+};
+
+export const toBcbpIssueDate = (date: string): string =>
+  `${date.slice(3, 4)}${String(toJulianDate(date)).padStart(3, "0")}`;
+
+const formatFlightNumber = (flightNumber: string) => {
+  const match = /^(\d{1,4})([A-Z]?)$/.exec(flightNumber.trim().toUpperCase());
+  return match
+    ? `${match[1].padStart(4, "0")}${match[2] || " "}`
+    : fixed(flightNumber, 5);
+};
+
+const formatSeat = (seat: string) => {
+  const match = /^(\d{1,3})([A-Z])$/.exec(seat.trim().toUpperCase());
+  return match ? `${match[1].padStart(3, "0")}${match[2]}` : fixed(seat, 4);
+};
+
+const hasConditionalFields = (data: BcbpData) =>
+  [
+    data.passengerDescription,
+    data.checkInSource,
+    data.issuanceSource,
+    data.issueDate,
+    data.documentType,
+    data.issuer,
+  ].some((field) => field !== undefined);
+
+/**
+ * Encode a boarding pass. The conditional section (issuance details) is
+ * attached to the first leg; later legs carry mandatory fields only.
+ */
+export const encodeBcbp = (data: BcbpData): string => {
+  if (!data.legs.length || data.legs.length > BCBP_MAX_LEGS) {
+    throw new Error(`A BCBP holds between 1 and ${BCBP_MAX_LEGS} legs`);
+  }
+
+  const conditional = hasConditionalFields(data)
+    ? (() => {
+        const unique = [
+          fixed(data.passengerDescription, 1),
+          fixed(data.checkInSource, 1),
+          fixed(data.issuanceSource, 1),
+          fixed(data.issueDate, 4),
+          fixed(data.documentType, 1),
+          fixed(data.issuer, 3),
+        ].join("");
+        // No repeated conditional fields follow
+        return `>${data.version ?? BCBP_VERSION}${hex(unique.length)}${unique}00`;
+      })()
+    : "";
+
+  const legs = data.legs.map((leg, index) => {
+    const variable = index === 0 ? conditional : "";
+    return [
+      fixed(leg.pnr.toUpperCase(), 7),
+      fixed(leg.fromCode.toUpperCase(), 3),
+      fixed(leg.toCode.toUpperCase(), 3),
+      fixed(leg.carrier.toUpperCase(), 3),
+      formatFlightNumber(leg.flightNumber),
+      String(leg.julianDate).padStart(3, "0"),
+      fixed(leg.compartment, 1),
+      formatSeat(leg.seat),
+      leg.sequenceNumber
+        ? `${String(leg.sequenceNumber).padStart(4, "0")} `
+        : fixed("", 5),
+      fixed(leg.passengerStatus, 1),
+      hex(variable.length),
+      variable,
+    ].join("");
+  });
+
+  return [
+    "M",
+    data.legs.length,
+    fixed(toAscii(data.passengerName), 20),
+    data.electronicTicket ? "E" : " ",
+    ...legs,
+  ].join("");
+};
+
+/**
+ * Parse a BCBP string back into its fields. Airline-specific data and the
+ * security section are skipped. Throws on strings that are not a BCBP.
+ */
+export const decodeBcbp = (value: string): BcbpData => {
+  let position = 0;
+  const take = (length: number) => {
+    if (position + length > value.length) {
+      throw new Error("Invalid BCBP: data ends early");
+    }
+    const field = value.slice(position, position + length);
+    position += length;
+    return field;
+  };
+  const takeHex = () => {
+    const field = take(2);
+    if (!/^[0-9A-Fa-f]{2}$/.test(field)) {
+      throw new Error(`Invalid BCBP: bad field size "${field}"`);
+    }
+    return parseInt(field, 16);
+  };
+
+  if (take(1) !== "M") {
+    throw new Error("Invalid BCBP: unknown format code");
+  }
+  const legCount = Number(take(1));
+  if (!(legCount >= 1 && legCount <= BCBP_MAX_LEGS)) {
+    throw new Error("Invalid BCBP: bad number of legs");
+  }
+
+  const data: BcbpData = {
+    passengerName: take(20).trim(),
+    electronicTicket: take(1) === "E",
+    legs: [],
+  };
+
+  for (let index = 0; index < legCount; index++) {
+    const leg: BcbpLeg = {
+      pnr: take(7).trim(),
+      fromCode: take(3).trim(),
+      toCode: take(3).trim(),
+      carrier: take(3).trim(),
+      flightNumber: withoutLeadingZeros(take(5)),
+      julianDate: Number(take(3)),
+      compartment: take(1).trim(),
+      seat: withoutLeadingZeros(take(4)),
+      sequenceNumber: Number(take(5).trim()) || undefined,
+      passengerStatus: take(1).trim(),
+    };
+    if (!Number.isInteger(leg.julianDate)) {
+      throw new Error("Invalid BCBP: bad date of flight");
+    }
+    data.legs.push(leg);
+
+    const variable = take(takeHex());
+    if (index === 0 && variable.startsWith(">")) {
+      data.version = Number(variable[1]);
+      const uniqueSize = parseInt(variable.slice(2, 4), 16) || 0;
+      const unique = variable.slice(4, 4 + uniqueSize);
+      data.passengerDescription = optional(unique.slice(0, 1));
+      data.checkInSource = optional(unique.slice(1, 2));
+      data.issuanceSource = optional(unique.slice(2, 3));
+      data.issueDate = optional(unique.slice(3, 7));
+      data.documentType = optional(unique.slice(7, 8));
+      data.issuer = optional(unique.slice(8, 11));
+    }
+  }
+
+  return data;
+};
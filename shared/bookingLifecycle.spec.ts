@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  BOOKING_STATUSES,
+  canTransitionBooking,
+  getAllowedTransitions,
+  isBookingStatus,
+  isFinalBookingStatus,
+} from "./bookingLifecycle";
+
+describe("booking lifecycle", () => {
+  it("should follow the happy path from pending to ticketed", () => {
+    expect(canTransitionBooking("pending", "paid")).toBe(true);
+    expect(canTransitionBooking("paid", "ticketed")).toBe(true);
+  });
+
+  it("should not skip payment", () => {
+    expect(canTransitionBooking("pending", "ticketed")).toBe(false);
+    expect(canTransitionBooking("pending", "refunded")).toBe(false);
+  });
+
+  it("should only expire pending bookings", () => {
+    const canExpire = BOOKING_STATUSES.filter((status) =>
+      canTransitionBooking(status, "expired"),
+    );
+    expect(canExpire).toEqual(["pending"]);
+  });
+
+  it("should allow refunds after cancellation", () => {
+    expect(canTransitionBooking("ticketed", "cancelled")).toBe(true);
+    expect(canTransitionBooking("cancelled", "refunded")).toBe(true);
+    expect(canTransitionBooking("cancelled", "paid")).toBe(false);
+  });
+
+  it("should treat refunded and expired as final", () => {
+    expect(isFinalBookingStatus("refunded")).toBe(true);
+    expect(isFinalBookingStatus("expired")).toBe(true);
+    expect(getAllowedTransitions("refunded")).toEqual([]);
+    expect(isFinalBookingStatus("pending")).toBe(false);
+  });
+
+  it("should reject unknown statuses", () => {
+    expect(isBookingStatus("ticketed")).toBe(true);
+    expect(isBookingStatus("confirmed")).toBe(false);
+    expect(isBookingStatus(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import type { BookingStatus } from "./api";
+
+/**
+ * Booking lifecycle
+ * A booking starts out pending, becomes paid once the payment is captured and
+ * ticketed once the ticket has been issued. Refunded and expired bookings are
+ * final; cancelled bookings can still be refunded.
+ */
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "pending",
+  "paid",
+  "ticketed",
+  "cancelled",
+  "refunded",
+  "expired",
+];
+
+const transitions: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["paid", "cancelled", "expired"],
+  paid: ["ticketed", "cancelled", "refunded"],
+  ticketed: ["cancelled", "refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+  expired: [],
+};
+
+export const isBookingStatus = (value: unknown): value is BookingStatus =>
+  typeof value === "string" &&
+  BOOKING_STATUSES.includes(value as BookingStatus);
+
+export const getAllowedTransitions = (status: BookingStatus): BookingStatus[] =>
+  transitions[status] || [];
+
+export const canTransitionBooking = (
+  from: BookingStatus,
+  to: BookingStatus,
+): boolean => getAllowedTransitions(from).includes(to);
+
+export const isFinalBookingStatus = (status: BookingStatus): boolean =>
+  getAllowedTransitions(status).length === 0;
+
+// Paid and ticketed bookings are the ones that actually hold a seat
+export const isActiveBookingStatus = (status: BookingStatus): boolean =>
+  status === "paid" || status === "ticketed";
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertAmount,
+  formatMoney,
+  isSupportedCurrency,
+  roundMoney,
+} from "./currency";
+
+const rates = { USD: 1, EUR: 0.92, GBP: 0.79, NGN: 1550 };
+
+describe("currency", () => {
+  it("should recognise supported currencies case-insensitively", () => {
+    expect(isSupportedCurrency("ngn")).toBe(true);
+    expect(isSupportedCurrency("GBP")).toBe(true);
+    expect(isSupportedCurrency("JPY")).toBe(false);
+    expect(isSupportedCurrency(undefined)).toBe(false);
+  });
+
+  it("should convert through the base currency", () => {
+    expect(convertAmount(15, "USD", "NGN", rates)).toBe(23250);
+    expect(convertAmount(92, "EUR", "USD", rates)).toBe(100);
+    expect(convertAmount(100, "GBP", "EUR", rates)).toBe(
+      roundMoney((100 / 0.79) * 0.92),
+    );
+  });
+
+  it("should leave amounts in the same currency unconverted", () => {
+    expect(convertAmount(10.005, "usd", "USD", {})).toBe(10.01);
+  });
+
+  it("should refuse to convert without a rate", () => {
+    expect(() => convertAmount(10, "JPY", "USD", rates)).toThrow(
+      "No exchange rate for JPY to USD",
+    );
+  });
+
+  it("should format amounts with symbols or codes", () => {
+    expect(formatMoney(1234.5, "GBP")).toBe("£1,234.50");
+    expect(formatMoney(15000, "NGN", "code")).toBe("NGN 15,000.00");
+    expect(formatMoney(30, "usd", "code")).toBe("USD 30.00");
+  });
+});
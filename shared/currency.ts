@@ -0,0 +1,89 @@
+/**
+ * Currencies customers can pay in. Exchange rates are quoted as units of
+ * the currency per 1 USD.
+ */
+export const SUPPORTED_CURRENCIES = ["USD", "NGN", "EUR", "GBP"] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const BASE_CURRENCY: CurrencyCode = "USD";
+
+// PayPal does not settle NGN, so Naira payments must go through Stripe
+export const PAYPAL_CURRENCIES: CurrencyCode[] = ["USD", "EUR", "GBP"];
+
+export interface CurrencyRate {
+  currency: CurrencyCode;
+  // Units of this currency per 1 USD
+  rate: number;
+  // Service fee charged per passenger, in this currency
+  serviceFee: number;
+  updatedAt: string | null;
+}
+
+export const CURRENCY_NAMES: Record<CurrencyCode, string> = {
+  USD: "US Dollar",
+  NGN: "Nigerian Naira",
+  EUR: "Euro",
+  GBP: "British Pound",
+};
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return (
+    typeof value === "string" &&
+    (SUPPORTED_CURRENCIES as readonly string[]).includes(value.toUpperCase())
+  );
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Convert between two currencies using a rate table keyed by currency
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Partial<Record<string, number>>,
+): number {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+
+  if (source === target) {
+    return roundMoney(amount);
+  }
+
+  const sourceRate = rates[source];
+  const targetRate = rates[target];
+  if (!sourceRate || !targetRate) {
+    throw new Error(`No exchange rate for ${source} to ${target}`);
+  }
+
+  return roundMoney((amount / sourceRate) * targetRate);
+}
+
+/**
+ * Format an amount for display. `code` renders "NGN 15,000.00", which the
+ * PDF fonts can print; `symbol` renders "₦15,000.00" where supported.
+ */
+export function formatMoney(
+  amount: number,
+  currency: string,
+  display: "symbol" | "code" = "symbol",
+): string {
+  const code = (currency || BASE_CURRENCY).toUpperCase();
+  const value = Number(amount) || 0;
+
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: code,
+      currencyDisplay: display,
+    })
+      .format(value)
+      .replace(/^([A-Z]{3})\s*/, "$1 ");
+  } catch {
+    return `${code} ${value.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { canAccessAdminArea, hasRole, isStaff, normalizeRoles } from "./roles";
+
+describe("roles", () => {
+  it("should treat users without roles as customers", () => {
+    expect(normalizeRoles(undefined)).toEqual(["customer"]);
+    expect(normalizeRoles(["finance", "superuser"])).toEqual([
+      "customer",
+      "finance",
+    ]);
+  });
+
+  it("should only let users with a listed role through", () => {
+    const agent = { roles: normalizeRoles(["support"]) };
+
+    expect(hasRole(agent, "support", "finance")).toBe(true);
+    expect(hasRole(agent, "finance")).toBe(false);
+    expect(hasRole(null, "customer")).toBe(false);
+  });
+
+  it("should let admins through every check", () => {
+    const admin = { roles: normalizeRoles(["admin"]) };
+
+    expect(hasRole(admin, "finance")).toBe(true);
+    expect(canAccessAdminArea(admin, "team")).toBe(true);
+  });
+
+  it("should keep customers out of the admin area", () => {
+    const customer = { roles: normalizeRoles([]) };
+
+    expect(isStaff(customer)).toBe(false);
+    expect(canAccessAdminArea(customer, "overview")).toBe(false);
+  });
+
+  it("should split the admin area between support and finance", () => {
+    const agent = { roles: normalizeRoles(["support"]) };
+    const finance = { roles: normalizeRoles(["finance"]) };
+
+    expect(canAccessAdminArea(agent, "support")).toBe(true);
+    expect(canAccessAdminArea(agent, "payments")).toBe(false);
+    expect(canAccessAdminArea(finance, "payments")).toBe(true);
+    expect(canAccessAdminArea(finance, "team")).toBe(false);
+  });
+});
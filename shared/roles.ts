@@ -0,0 +1,78 @@
+import type { User, UserRole } from "./api";
+
+/**
+ * Roles
+ * Every user is a customer. Staff roles open parts of the admin area:
+ * support agents handle bookings, customers and support tickets; finance
+ * handles payments, refunds, disputes, promo codes and currency rates.
+ * Admins can do everything, including granting and revoking roles.
+ */
+export const USER_ROLES: UserRole[] = [
+  "customer",
+  "support",
+  "finance",
+  "admin",
+];
+
+export const STAFF_ROLES: UserRole[] = ["support", "finance", "admin"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  customer: "Customer",
+  support: "Support agent",
+  finance: "Finance",
+  admin: "Admin",
+};
+
+export type AdminArea =
+  | "overview"
+  | "bookings"
+  | "payments"
+  | "disputes"
+  | "promos"
+  | "support"
+  | "currency"
+  | "users"
+  | "team";
+
+// Roles that can use each part of the admin area (admins can use all)
+export const ADMIN_AREA_ROLES: Record<AdminArea, UserRole[]> = {
+  overview: ["support", "finance"],
+  bookings: ["support", "finance"],
+  users: ["support"],
+  support: ["support"],
+  payments: ["finance"],
+  disputes: ["finance"],
+  promos: ["finance"],
+  currency: ["finance"],
+  team: ["admin"],
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === "string" && USER_ROLES.includes(value as UserRole);
+
+/**
+ * A user's roles, in the order of USER_ROLES. Users stored before roles
+ * existed are customers.
+ */
+export const normalizeRoles = (roles?: unknown[] | null): UserRole[] => {
+  const known = (roles || []).filter(isUserRole);
+  return USER_ROLES.filter(
+    (role) => role === "customer" || known.includes(role),
+  );
+};
+
+export const hasRole = (
+  user: Pick<User, "roles"> | null | undefined,
+  ...roles: UserRole[]
+): boolean =>
+  !!user?.roles &&
+  (user.roles.includes("admin") ||
+    roles.some((role) => user.roles.includes(role)));
+
+export const isStaff = (user: Pick<User, "roles"> | null | undefined) =>
+  hasRole(user, ...STAFF_ROLES);
+
+export const canAccessAdminArea = (
+  user: Pick<User, "roles"> | null | undefined,
+  area: AdminArea,
+) => hasRole(user, ...ADMIN_AREA_ROLES[area]);
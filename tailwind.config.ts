@@ -85,21 +85,22 @@ export default {
             primary: "#20242A",
             secondary: "#637996",
           },
-          primary: "#505BFB",
-          secondary: "#878EFF",
+          // Set per brand at runtime, see client/hooks/useBrand.tsx
+          primary: "var(--brand-primary, #505BFB)",
+          secondary: "var(--brand-secondary, #878EFF)",
           active: "#424BC9",
           accent: "#C6FF9A",
-          dark: "#3839C9",
+          dark: "var(--brand-dark, #3839C9)",
         },
         footer: {
           bg: "rgba(192, 200, 255, 0.26)",
         },
         // Custom colors for OnboardTicket design
-        'ticket-primary': '#505BFB',
-        'ticket-secondary': '#878EFF',
+        'ticket-primary': 'var(--brand-primary, #505BFB)',
+        'ticket-secondary': 'var(--brand-secondary, #878EFF)',
         'ticket-accent': '#C6FF9A',
         'ticket-dark': '#424BC9',
-        'ticket-darker': '#3839C9',
+        'ticket-darker': 'var(--brand-dark, #3839C9)',
         'ticket-light': 'rgba(135, 142, 255, 0.38)',
         'ticket-footer': 'rgba(192, 200, 255, 0.26)',
         'ticket-gray': '#4D4848',
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -109,6 +110,14 @@ export default defineConfig(({ mode }) => ({
     target: "es2020",
     logOverride: { "this-is-undefined-in-esm": "silent" },
   },
+  test: {
+    // Secrets the server refuses to run without
+    env: {
+      AUTH_TOKEN_SECRET: "test-auth-token-secret",
+      QUOTE_SIGNING_SECRET: "test-quote-signing-secret",
+      TICKET_SIGNING_SECRET: "test-ticket-signing-secret",
+    },
+  },
 }));
 
 function expressPlugin(): Plugin {
@@ -116,6 +125,11 @@ function expressPlugin(): Plugin {
     name: "express-plugin",
     apply: "serve", // Only apply during development (serve mode)
     async configureServer(server) {
+      // Specs call the handlers directly; there is no dev API to serve
+      if (process.env.VITEST) {
+        return;
+      }
+
       try {
         const app = await createServer();
 